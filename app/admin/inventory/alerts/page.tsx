@@ -0,0 +1,49 @@
+import { StockAlertRules } from "@/components/admin/inventory/stock-alert-rules"
+import { getWarehouses } from "@/lib/services/inventory.service"
+import { getBrands } from "@/lib/services/homeopathy.service"
+import { getCategories, getProducts } from "@/lib/services/product.service"
+import {
+  acknowledgeStockAlert,
+  createStockAlertRule,
+  deleteStockAlertRule,
+  getStockAlertRules,
+  getStockAlerts,
+  resolveStockAlert,
+  updateStockAlertRule,
+} from "@/lib/services/stock-alert.service"
+import type { StockAlertStatus } from "@/lib/services/stock-alert.service"
+
+interface SearchParams {
+  status?: StockAlertStatus | "active"
+}
+
+export default async function StockAlertsPage({ searchParams }: { searchParams: SearchParams }) {
+  const status = searchParams.status || "active"
+  const [rules, alerts, warehouses, categories, brands, { products }] = await Promise.all([
+    getStockAlertRules(),
+    getStockAlerts({ status, limit: 200 }),
+    getWarehouses(),
+    getCategories(),
+    getBrands(),
+    getProducts({ status: "active", limit: 500 }),
+  ])
+
+  return (
+    <div className="container mx-auto py-6">
+      <StockAlertRules
+        rules={rules}
+        alerts={alerts}
+        status={status}
+        warehouses={warehouses}
+        categories={categories}
+        brands={brands}
+        products={products}
+        onCreateRule={createStockAlertRule}
+        onUpdateRule={updateStockAlertRule}
+        onDeleteRule={deleteStockAlertRule}
+        onAcknowledge={acknowledgeStockAlert}
+        onResolve={resolveStockAlert}
+      />
+    </div>
+  )
+}
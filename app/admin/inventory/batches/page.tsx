@@ -1,12 +1,20 @@
 import { BatchManagement } from "@/components/admin/inventory/batch-management"
 import { getBatches, createBatch, updateBatch } from "@/lib/services/batch.service"
+import { initiateBatchRecall } from "@/lib/services/recall.service"
+import { resolveBarcode } from "@/lib/services/barcode.service"
 
 export default async function BatchesPage() {
   const batches = await getBatches()
 
   return (
     <div className="container mx-auto py-6">
-      <BatchManagement batches={batches} onCreateBatch={createBatch} onUpdateBatch={updateBatch} />
+      <BatchManagement
+        batches={batches}
+        onCreateBatch={createBatch}
+        onUpdateBatch={updateBatch}
+        onRecallBatch={initiateBatchRecall}
+        onResolveBarcode={resolveBarcode}
+      />
     </div>
   )
 }
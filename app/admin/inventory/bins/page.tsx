@@ -0,0 +1,38 @@
+import { StorageBins } from "@/components/admin/inventory/storage-bins"
+import { getWarehouses } from "@/lib/services/inventory.service"
+import {
+  createStorageBin,
+  getBinMovements,
+  getPendingPutaways,
+  getStorageBins,
+  getStorageComplianceReport,
+  moveBatchToBin,
+  putawayBatch,
+  updateStorageBin,
+} from "@/lib/services/storage-bin.service"
+
+export default async function BinsPage() {
+  const [bins, pending, movements, violations, warehouses] = await Promise.all([
+    getStorageBins(),
+    getPendingPutaways(),
+    getBinMovements({ limit: 50 }),
+    getStorageComplianceReport(),
+    getWarehouses(),
+  ])
+
+  return (
+    <div className="container mx-auto py-6">
+      <StorageBins
+        bins={bins}
+        pending={pending}
+        movements={movements}
+        violations={violations}
+        warehouses={warehouses}
+        onCreateBin={createStorageBin}
+        onSetBinActive={updateStorageBin}
+        onPutaway={putawayBatch}
+        onMove={moveBatchToBin}
+      />
+    </div>
+  )
+}
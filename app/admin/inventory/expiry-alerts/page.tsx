@@ -1,12 +1,47 @@
 import { ExpiryAlerts } from "@/components/admin/inventory/expiry-alerts"
-import { getExpiryAlerts, dismissAlert, createDiscountOffer } from "@/lib/services/batch.service"
+import { createDiscountOffer } from "@/lib/services/batch.service"
+import {
+  acknowledgeExpiryAlert,
+  assignExpiryAlert,
+  getExpiryAlertAssignees,
+  getExpiryAlertEvents,
+  getExpiryAlerts,
+  resolveExpiryAlert,
+  snoozeExpiryAlert,
+} from "@/lib/services/expiry-alert.service"
+import type { ExpiryAlertStatus } from "@/lib/services/expiry-alert.service"
 
-export default async function ExpiryAlertsPage() {
-  const alerts = await getExpiryAlerts()
+interface SearchParams {
+  status?: ExpiryAlertStatus | "active" | "all"
+  assigned_to?: string
+}
+
+export default async function ExpiryAlertsPage({
+  searchParams,
+}: {
+  searchParams: SearchParams
+}) {
+  const status = searchParams.status || "active"
+
+  const [alerts, assignees] = await Promise.all([
+    getExpiryAlerts({ status, assigned_to: searchParams.assigned_to }),
+    getExpiryAlertAssignees(),
+  ])
 
   return (
     <div className="container mx-auto py-6">
-      <ExpiryAlerts alerts={alerts} onDismissAlert={dismissAlert} onCreateDiscountOffer={createDiscountOffer} />
+      <ExpiryAlerts
+        alerts={alerts}
+        assignees={assignees}
+        status={status}
+        assignedTo={searchParams.assigned_to}
+        onAcknowledgeAlert={acknowledgeExpiryAlert}
+        onSnoozeAlert={snoozeExpiryAlert}
+        onAssignAlert={assignExpiryAlert}
+        onResolveAlert={resolveExpiryAlert}
+        onGetAlertHistory={getExpiryAlertEvents}
+        onCreateDiscountOffer={createDiscountOffer}
+      />
     </div>
   )
 }
@@ -0,0 +1,12 @@
+import { DemandForecasts } from "@/components/admin/inventory/demand-forecasts"
+import { getDemandForecasts, runDemandForecasts } from "@/lib/services/inventory.service"
+
+export default async function DemandForecastsPage() {
+  const { forecast_date, forecasts } = await getDemandForecasts()
+
+  return (
+    <div className="container mx-auto py-6">
+      <DemandForecasts forecastDate={forecast_date} forecasts={forecasts} onRunForecasts={runDemandForecasts} />
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import { ProductKits } from "@/components/admin/inventory/product-kits"
+import { getWarehouses } from "@/lib/services/inventory.service"
+import { getHomeopathyProducts } from "@/lib/services/homeopathy.service"
+import {
+  assembleKits,
+  createKit,
+  getKitAssemblies,
+  getKits,
+  setKitActive,
+  updateKitComponents,
+} from "@/lib/services/kit.service"
+
+export default async function KitsPage() {
+  const [kits, assemblies, { products }, warehouses] = await Promise.all([
+    getKits(),
+    getKitAssemblies(),
+    getHomeopathyProducts({ status: "active", limit: 1000 }),
+    getWarehouses(),
+  ])
+
+  return (
+    <div className="container mx-auto py-6">
+      <ProductKits
+        kits={kits}
+        assemblies={assemblies}
+        products={products.map((product: any) => ({ id: product.id, name: product.name, sku: product.sku }))}
+        warehouses={warehouses}
+        onCreateKit={createKit}
+        onUpdateComponents={updateKitComponents}
+        onSetActive={setKitActive}
+        onAssemble={assembleKits}
+      />
+    </div>
+  )
+}
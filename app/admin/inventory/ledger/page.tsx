@@ -0,0 +1,49 @@
+import { StockLedger } from "@/components/admin/inventory/stock-ledger"
+import { getStockLedger } from "@/lib/services/stock-ledger.service"
+import { getWarehouses } from "@/lib/services/inventory.service"
+import { getCurrentFinancialYear, getFinancialYearPeriod, getMonthPeriod } from "@/lib/inventory/stock-ledger"
+
+interface SearchParams {
+  period?: "month" | "year"
+  month?: string
+  year?: string
+  level?: "warehouse" | "batch"
+  warehouse?: string
+}
+
+export default async function StockLedgerPage({
+  searchParams,
+}: {
+  searchParams: SearchParams
+}) {
+  const periodType = searchParams.period === "year" ? "year" : "month"
+  const month = /^\d{4}-\d{2}$/.test(searchParams.month || "")
+    ? (searchParams.month as string)
+    : new Date().toISOString().slice(0, 7)
+  const year = Number(searchParams.year) || getCurrentFinancialYear()
+  const period = periodType === "year" ? getFinancialYearPeriod(year) : getMonthPeriod(month)
+
+  const [report, warehouses] = await Promise.all([
+    getStockLedger({
+      from: period.from,
+      to: period.to,
+      level: searchParams.level === "batch" ? "batch" : "warehouse",
+      warehouse_id: searchParams.warehouse,
+    }),
+    getWarehouses(),
+  ])
+
+  return (
+    <div className="container mx-auto py-6">
+      <StockLedger
+        report={report}
+        period={period}
+        periodType={periodType}
+        month={month}
+        year={year}
+        warehouses={warehouses}
+        warehouseId={searchParams.warehouse}
+      />
+    </div>
+  )
+}
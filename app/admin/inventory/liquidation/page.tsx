@@ -0,0 +1,42 @@
+import { LiquidationPlanner } from "@/components/admin/inventory/liquidation-planner"
+import {
+  cancelLiquidationTask,
+  completeLiquidationTask,
+  createLiquidationTask,
+  getLiquidationPlan,
+  getLiquidationTasks,
+  type LiquidationTaskStatus,
+} from "@/lib/services/liquidation.service"
+
+interface SearchParams {
+  tab?: "plan" | "tasks"
+  status?: LiquidationTaskStatus | "all"
+  days?: string
+}
+
+export default async function LiquidationPage({ searchParams }: { searchParams: SearchParams }) {
+  const tab = searchParams.tab === "tasks" ? "tasks" : "plan"
+  const status = searchParams.status || "in_progress"
+  const days = Number.parseInt(searchParams.days || "") || 90
+
+  const [{ candidates, assumptions }, tasks] = await Promise.all([
+    getLiquidationPlan(days),
+    getLiquidationTasks({ status: "all" }),
+  ])
+
+  return (
+    <div className="container mx-auto py-6">
+      <LiquidationPlanner
+        candidates={candidates}
+        assumptions={assumptions}
+        tasks={tasks}
+        tab={tab}
+        taskStatus={status}
+        daysThreshold={days}
+        onCreateTask={createLiquidationTask}
+        onCompleteTask={completeLiquidationTask}
+        onCancelTask={cancelLiquidationTask}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+import { MarkdownSchedules } from "@/components/admin/inventory/markdown-schedules"
+import { getBrands } from "@/lib/services/homeopathy.service"
+import { getCategories, getProducts } from "@/lib/services/product.service"
+import {
+  applyMarkdownSchedules,
+  createMarkdownRule,
+  deleteMarkdownRule,
+  getActiveMarkdowns,
+  getMarkdownRecoveryReport,
+  getMarkdownRules,
+  revertMarkdown,
+  updateMarkdownRule,
+} from "@/lib/services/markdown.service"
+
+interface SearchParams {
+  tab?: "rules" | "active" | "recovery"
+  from?: string
+  to?: string
+}
+
+export default async function MarkdownsPage({
+  searchParams,
+}: {
+  searchParams: SearchParams
+}) {
+  const today = new Date().toISOString().slice(0, 10)
+  const from = searchParams.from || `${today.slice(0, 7)}-01`
+  const to = searchParams.to || today
+  const tab = searchParams.tab === "active" || searchParams.tab === "recovery" ? searchParams.tab : "rules"
+
+  const [rules, markdowns, recovery, categories, brands, { products }] = await Promise.all([
+    getMarkdownRules(),
+    getActiveMarkdowns(),
+    getMarkdownRecoveryReport({ from, to }),
+    getCategories(),
+    getBrands(),
+    getProducts({ status: "active", limit: 500 }),
+  ])
+
+  return (
+    <div className="container mx-auto py-6">
+      <MarkdownSchedules
+        rules={rules}
+        markdowns={markdowns}
+        recovery={{ from, to, ...recovery }}
+        tab={tab}
+        categories={categories}
+        brands={brands}
+        products={products}
+        onCreateRule={createMarkdownRule}
+        onUpdateRule={updateMarkdownRule}
+        onDeleteRule={deleteMarkdownRule}
+        onRunSchedule={applyMarkdownSchedules}
+        onRevertMarkdown={revertMarkdown}
+      />
+    </div>
+  )
+}
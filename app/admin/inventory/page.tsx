@@ -1,13 +1,57 @@
-import { getInventoryOverview, getLowStockAlerts } from "@/lib/services/inventory.service"
+import { getInventoryOverview, getLowStockAlerts, getWarehouses } from "@/lib/services/inventory.service"
+import { acknowledgeStockAlert } from "@/lib/services/stock-alert.service"
+import { getClassificationSummary, runInventoryClassification } from "@/lib/services/classification.service"
+import {
+  captureInventorySnapshots,
+  compareStockBetween,
+  getInventorySnapshotRuns,
+  getStockAsOf,
+} from "@/lib/services/inventory-snapshot.service"
 import { InventoryOverview } from "@/components/admin/inventory/inventory-overview"
+import { StockAsOf } from "@/components/admin/inventory/stock-as-of"
 import { LowStockAlerts } from "@/components/admin/inventory/low-stock-alerts"
 import { InventoryMovements } from "@/components/admin/inventory/inventory-movements"
 import { Button } from "@/components/ui/button"
-import { Plus, FileDown, Settings } from "lucide-react"
+import { Plus, FileDown, Settings, ArrowLeftRight, ClipboardCheck, Calculator, LineChart, Bell, BookOpen, Boxes, MapPin } from "lucide-react"
 import Link from "next/link"
 
-export default async function InventoryPage() {
-  const [overview, lowStockAlerts] = await Promise.all([getInventoryOverview(), getLowStockAlerts()])
+interface SearchParams {
+  warehouse?: string
+  as_of?: string
+  compare_to?: string
+  level?: "warehouse" | "batch"
+}
+
+export default async function InventoryPage({
+  searchParams,
+}: {
+  searchParams: SearchParams
+}) {
+  const warehouse = searchParams.warehouse
+  const [overview, lowStockAlerts, warehouses, classification, snapshotRuns] = await Promise.all([
+    getInventoryOverview(warehouse),
+    getLowStockAlerts(warehouse),
+    getWarehouses(),
+    getClassificationSummary(),
+    getInventorySnapshotRuns(1),
+  ])
+
+  // Stock on a past date, or the change between two dates, for the selected warehouse
+  let stockAsOf = null
+  let stockComparison = null
+  let stockAsOfError: string | null = null
+  if (searchParams.as_of) {
+    const options = { level: searchParams.level, warehouse_id: warehouse }
+    try {
+      if (searchParams.compare_to) {
+        stockComparison = await compareStockBetween(searchParams.as_of, searchParams.compare_to, options)
+      } else {
+        stockAsOf = await getStockAsOf(searchParams.as_of, options)
+      }
+    } catch (error) {
+      stockAsOfError = error instanceof Error ? error.message : "Could not rebuild stock for that date"
+    }
+  }
 
   return (
     <div className="space-y-6">
@@ -17,6 +61,64 @@ export default async function InventoryPage() {
           <p className="text-muted-foreground">Monitor stock levels, movements, and alerts</p>
         </div>
         <div className="flex gap-2">
+          <div className="flex rounded-md border">
+            <Link href="/admin/inventory">
+              <Button variant={warehouse ? "ghost" : "secondary"}>All Locations</Button>
+            </Link>
+            {warehouses.map((w) => (
+              <Link key={w.id} href={`/admin/inventory?warehouse=${w.id}`}>
+                <Button variant={warehouse === w.id ? "secondary" : "ghost"}>{w.name}</Button>
+              </Link>
+            ))}
+          </div>
+          <Link href="/admin/inventory/alerts">
+            <Button variant="outline">
+              <Bell className="h-4 w-4 mr-2" />
+              Alert Rules
+            </Button>
+          </Link>
+          <Link href="/admin/inventory/forecasts">
+            <Button variant="outline">
+              <LineChart className="h-4 w-4 mr-2" />
+              Forecasts
+            </Button>
+          </Link>
+          <Link href="/admin/inventory/valuation">
+            <Button variant="outline">
+              <Calculator className="h-4 w-4 mr-2" />
+              Valuation
+            </Button>
+          </Link>
+          <Link href="/admin/inventory/ledger">
+            <Button variant="outline">
+              <BookOpen className="h-4 w-4 mr-2" />
+              Stock Ledger
+            </Button>
+          </Link>
+          <Link href="/admin/inventory/kits">
+            <Button variant="outline">
+              <Boxes className="h-4 w-4 mr-2" />
+              Kits
+            </Button>
+          </Link>
+          <Link href="/admin/inventory/bins">
+            <Button variant="outline">
+              <MapPin className="h-4 w-4 mr-2" />
+              Bins
+            </Button>
+          </Link>
+          <Link href="/admin/inventory/stock-take">
+            <Button variant="outline">
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              Stock Take
+            </Button>
+          </Link>
+          <Link href="/admin/inventory/transfers">
+            <Button variant="outline">
+              <ArrowLeftRight className="h-4 w-4 mr-2" />
+              Transfers
+            </Button>
+          </Link>
           <Button variant="outline">
             <FileDown className="h-4 w-4 mr-2" />
             Export
@@ -34,9 +136,21 @@ export default async function InventoryPage() {
         </div>
       </div>
 
-      <InventoryOverview data={overview} />
+      <InventoryOverview
+        data={overview}
+        classification={classification}
+        onRunClassification={runInventoryClassification}
+      />
+
+      <StockAsOf
+        report={stockAsOf}
+        comparison={stockComparison}
+        lastSnapshot={snapshotRuns[0] || null}
+        error={stockAsOfError}
+        onCapture={captureInventorySnapshots}
+      />
 
-      {lowStockAlerts.length > 0 && <LowStockAlerts alerts={lowStockAlerts} />}
+      {lowStockAlerts.length > 0 && <LowStockAlerts alerts={lowStockAlerts} onAcknowledge={acknowledgeStockAlert} />}
 
       <InventoryMovements />
     </div>
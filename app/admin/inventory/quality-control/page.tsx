@@ -0,0 +1,27 @@
+import { QualityControl } from "@/components/admin/inventory/quality-control"
+import {
+  getBatchInspections,
+  getSupplierReturnQueue,
+  signOffInspection,
+  updateSupplierReturnStatus,
+} from "@/lib/services/quality-control.service"
+
+export default async function QualityControlPage() {
+  const [pendingInspections, inspections, supplierReturns] = await Promise.all([
+    getBatchInspections({ status: "pending" }),
+    getBatchInspections(),
+    getSupplierReturnQueue(),
+  ])
+
+  return (
+    <div className="container mx-auto py-6">
+      <QualityControl
+        pendingInspections={pendingInspections}
+        recentInspections={inspections.filter((inspection) => inspection.status !== "pending").slice(0, 100)}
+        supplierReturns={supplierReturns}
+        onSignOff={signOffInspection}
+        onUpdateSupplierReturn={updateSupplierReturnStatus}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+import { BatchRecalls } from "@/components/admin/inventory/batch-recalls"
+import {
+  closeRecall,
+  getRecall,
+  getRecalls,
+  recordRecallReturn,
+  sendRecallNotices,
+  updateRecallNotice,
+} from "@/lib/services/recall.service"
+import type { RecallStatus } from "@/lib/services/recall.service"
+
+interface SearchParams {
+  status?: RecallStatus
+  recall?: string
+}
+
+export default async function RecallsPage({ searchParams }: { searchParams: SearchParams }) {
+  const [recalls, detail] = await Promise.all([
+    getRecalls({ status: searchParams.status }),
+    searchParams.recall ? getRecall(searchParams.recall) : Promise.resolve(null),
+  ])
+
+  return (
+    <div className="container mx-auto py-6">
+      <BatchRecalls
+        recalls={recalls}
+        status={searchParams.status}
+        detail={detail}
+        onSendNotices={sendRecallNotices}
+        onUpdateNotice={updateRecallNotice}
+        onRecordReturn={recordRecallReturn}
+        onCloseRecall={closeRecall}
+      />
+    </div>
+  )
+}
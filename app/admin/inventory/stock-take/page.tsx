@@ -0,0 +1,40 @@
+import { StockTake } from "@/components/admin/inventory/stock-take"
+import { getBatches } from "@/lib/services/batch.service"
+import { getStockLevels, getWarehouses } from "@/lib/services/inventory.service"
+import {
+  approveStockTakeSession,
+  cancelStockTakeSession,
+  createStockTakeSession,
+  getStockTakeSession,
+  getStockTakeSessions,
+  recordStockCount,
+  recordStockCountByCode,
+  submitStockTakeSession,
+} from "@/lib/services/stock-take.service"
+
+export default async function StockTakePage() {
+  const [sessions, warehouses, stockLevels, batches] = await Promise.all([
+    getStockTakeSessions(),
+    getWarehouses(),
+    getStockLevels(),
+    getBatches(),
+  ])
+
+  return (
+    <div className="container mx-auto py-6">
+      <StockTake
+        sessions={sessions}
+        warehouses={warehouses}
+        stockLevels={stockLevels}
+        batches={batches.filter((batch: { is_active: boolean }) => batch.is_active)}
+        onCreateSession={createStockTakeSession}
+        onLoadSession={getStockTakeSession}
+        onRecordCount={recordStockCount}
+        onRecordCountByCode={recordStockCountByCode}
+        onSubmitSession={submitStockTakeSession}
+        onApproveSession={approveStockTakeSession}
+        onCancelSession={cancelStockTakeSession}
+      />
+    </div>
+  )
+}
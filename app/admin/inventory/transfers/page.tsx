@@ -0,0 +1,33 @@
+import { StockTransfers } from "@/components/admin/inventory/stock-transfers"
+import { getStockLevels, getWarehouses } from "@/lib/services/inventory.service"
+import {
+  cancelStockTransfer,
+  createStockTransfer,
+  dispatchStockTransfer,
+  getStockTransfers,
+  markStockTransferInTransit,
+  receiveStockTransfer,
+} from "@/lib/services/stock-transfer.service"
+
+export default async function StockTransfersPage() {
+  const [transfers, warehouses, stockLevels] = await Promise.all([
+    getStockTransfers(),
+    getWarehouses(),
+    getStockLevels(),
+  ])
+
+  return (
+    <div className="container mx-auto py-6">
+      <StockTransfers
+        transfers={transfers}
+        warehouses={warehouses}
+        stockLevels={stockLevels}
+        onCreateTransfer={createStockTransfer}
+        onDispatchTransfer={dispatchStockTransfer}
+        onMarkInTransit={markStockTransferInTransit}
+        onReceiveTransfer={receiveStockTransfer}
+        onCancelTransfer={cancelStockTransfer}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+import { InventoryValuation } from "@/components/admin/inventory/inventory-valuation"
+import { getInventoryValuation } from "@/lib/services/inventory.service"
+import type { ValuationMethod } from "@/lib/inventory/valuation"
+
+interface SearchParams {
+  method?: ValuationMethod
+  as_of?: string
+}
+
+export default async function InventoryValuationPage({
+  searchParams,
+}: {
+  searchParams: SearchParams
+}) {
+  const valuation = await getInventoryValuation({
+    method: searchParams.method === "weighted_average" ? "weighted_average" : "fifo",
+    as_of: searchParams.as_of,
+  })
+
+  return (
+    <div className="container mx-auto py-6">
+      <InventoryValuation valuation={valuation} />
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+import { StockWriteOffs } from "@/components/admin/inventory/stock-write-offs"
+import { getBatches } from "@/lib/services/batch.service"
+import {
+  approveWriteOff,
+  cancelWriteOff,
+  createWriteOff,
+  getWriteOff,
+  getWriteOffRegister,
+  getWriteOffs,
+  rejectWriteOff,
+  submitWriteOff,
+  uploadWriteOffPhoto,
+} from "@/lib/services/write-off.service"
+import type { WriteOffReason, WriteOffStatus } from "@/lib/services/write-off.service"
+
+interface SearchParams {
+  status?: WriteOffStatus
+  write_off?: string
+  batch?: string
+  tab?: "documents" | "register"
+  from?: string
+  to?: string
+  reason?: WriteOffReason
+}
+
+export default async function WriteOffsPage({
+  searchParams,
+}: {
+  searchParams: SearchParams
+}) {
+  const today = new Date().toISOString().slice(0, 10)
+  const from = searchParams.from || `${today.slice(0, 7)}-01`
+  const to = searchParams.to || today
+
+  const [writeOffs, detail, batches, registerLines] = await Promise.all([
+    getWriteOffs({ status: searchParams.status }),
+    searchParams.write_off ? getWriteOff(searchParams.write_off) : Promise.resolve(null),
+    getBatches(),
+    getWriteOffRegister({ from, to, reason: searchParams.reason }),
+  ])
+
+  return (
+    <div className="container mx-auto py-6">
+      <StockWriteOffs
+        writeOffs={writeOffs}
+        status={searchParams.status}
+        detail={detail}
+        batches={batches.filter((batch: any) => batch.is_active !== false && batch.quantity_available > 0)}
+        preselectedBatchId={searchParams.batch}
+        register={{ from, to, reason: searchParams.reason, lines: registerLines }}
+        tab={searchParams.tab === "register" ? "register" : "documents"}
+        onCreateWriteOff={createWriteOff}
+        onUploadPhoto={uploadWriteOffPhoto}
+        onSubmitWriteOff={submitWriteOff}
+        onApproveWriteOff={approveWriteOff}
+        onRejectWriteOff={rejectWriteOff}
+        onCancelWriteOff={cancelWriteOff}
+      />
+    </div>
+  )
+}
@@ -8,20 +8,28 @@ import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Input } from "@/components/ui/input"
 import { createClient } from "@/lib/supabase/client"
 import { formatCurrency } from "@/lib/services/payment.service"
-import { updateOrderStatus } from "@/lib/services/order.service"
-import { ArrowLeft, Package, User, MapPin, CreditCard, FileText, Save } from "lucide-react"
+import { getOrderStatusHistory, transitionOrder, type OrderStatusHistoryEntry } from "@/lib/services/order.service"
+import { getAvailableOrderActions, type AvailableOrderAction, type OrderState } from "@/lib/orders/order-state"
+import { verifyPickScan } from "@/lib/services/barcode.service"
+import {
+  createShipment,
+  getOrderShipments,
+  markShipmentDelivered,
+  type Shipment,
+} from "@/lib/services/fulfillment.service"
+import { getWarehouses, type Warehouse } from "@/lib/services/inventory.service"
+import { OrderPicking } from "@/components/admin/orders/order-picking"
+import { OrderShipments } from "@/components/admin/orders/order-shipments"
+import { ArrowLeft, Package, User, MapPin, CreditCard, FileText, History } from "lucide-react"
 import Link from "next/link"
 import { useToast } from "@/hooks/use-toast"
 
-interface AdminOrderDetails {
+interface AdminOrderDetails extends OrderState {
   id: string
   order_number: string
-  status: string
-  payment_status: string
-  fulfillment_status: string
   subtotal: number
   tax_amount: number
   shipping_amount: number
@@ -54,6 +62,16 @@ interface AdminOrderDetails {
       images: string[]
     }
   }>
+  order_item_batches?: Array<{
+    id: string
+    order_item_id: string
+    batch_number: string
+    expiry_date: string
+    quantity: number
+    quantity_shipped?: number
+    kit_product_id?: string | null
+    status: string
+  }>
   profiles?: {
     first_name: string
     last_name: string
@@ -77,8 +95,11 @@ export default function AdminOrderDetailsPage() {
   const [order, setOrder] = useState<AdminOrderDetails | null>(null)
   const [loading, setLoading] = useState(true)
   const [updating, setUpdating] = useState(false)
-  const [newStatus, setNewStatus] = useState("")
+  const [reason, setReason] = useState("")
   const [internalNotes, setInternalNotes] = useState("")
+  const [history, setHistory] = useState<OrderStatusHistoryEntry[]>([])
+  const [shipments, setShipments] = useState<Shipment[]>([])
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([])
 
   const orderId = params.orderId as string
   const supabase = createClient()
@@ -107,6 +128,16 @@ export default function AdminOrderDetailsPage() {
               images
             )
           ),
+          order_item_batches (
+            id,
+            order_item_id,
+            batch_number,
+            expiry_date,
+            quantity,
+            quantity_shipped,
+            kit_product_id,
+            status
+          ),
           profiles!orders_user_id_fkey (
             first_name,
             last_name,
@@ -139,8 +170,15 @@ export default function AdminOrderDetailsPage() {
       }
 
       setOrder(data)
-      setNewStatus(data.status)
       setInternalNotes(data.internal_notes || "")
+      const [statusHistory, orderShipments, warehouseList] = await Promise.all([
+        getOrderStatusHistory(orderId),
+        getOrderShipments(orderId),
+        getWarehouses(),
+      ])
+      setHistory(statusHistory)
+      setShipments(orderShipments)
+      setWarehouses(warehouseList)
     } catch (error) {
       console.error("Error loading order details:", error)
       toast({
@@ -153,21 +191,25 @@ export default function AdminOrderDetailsPage() {
     }
   }
 
-  const handleStatusUpdate = async () => {
-    if (!order || newStatus === order.status) return
+  const handleAction = async (action: AvailableOrderAction) => {
+    if (!order || !action.allowed) return
 
     setUpdating(true)
     try {
-      await updateOrderStatus(order.id, newStatus as any, internalNotes)
+      await transitionOrder(order.id, action.status_type, action.to, {
+        reason: reason || undefined,
+        notes: internalNotes !== (order.internal_notes || "") ? internalNotes : undefined,
+      })
       toast({
         title: "Success",
-        description: `Order status updated to ${newStatus}`,
+        description: `${action.label} done`,
       })
+      setReason("")
       await loadOrderDetails() // Reload to get updated data
     } catch (error) {
       toast({
         title: "Error",
-        description: `Failed to update order status: ${error}`,
+        description: error instanceof Error ? error.message : `Failed to update order: ${error}`,
         variant: "destructive",
       })
     } finally {
@@ -214,6 +256,8 @@ export default function AdminOrderDetailsPage() {
     )
   }
 
+  const actions = getAvailableOrderActions(order)
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -279,6 +323,37 @@ export default function AdminOrderDetailsPage() {
             </CardContent>
           </Card>
 
+          {["confirmed", "processing"].includes(order.status) && (
+            <OrderPicking
+              orderId={order.id}
+              items={order.order_items.map((item) => ({
+                id: item.id,
+                name: item.products?.name || item.product_snapshot.name,
+                quantity: item.quantity,
+              }))}
+              allocations={order.order_item_batches || []}
+              onVerifyScan={verifyPickScan}
+            />
+          )}
+
+          {(["confirmed", "processing"].includes(order.status) || shipments.length > 0) && (
+            <OrderShipments
+              orderId={order.id}
+              items={order.order_items.map((item) => ({
+                id: item.id,
+                name: item.products?.name || item.product_snapshot.name,
+                quantity: item.quantity,
+              }))}
+              allocations={order.order_item_batches || []}
+              shipments={shipments}
+              warehouses={warehouses}
+              canShip={["confirmed", "processing"].includes(order.status)}
+              onCreateShipment={createShipment}
+              onMarkDelivered={markShipmentDelivered}
+              onChanged={loadOrderDetails}
+            />
+          )}
+
           {/* Customer Information */}
           <Card>
             <CardHeader>
@@ -350,22 +425,21 @@ export default function AdminOrderDetailsPage() {
               <CardTitle>Order Management</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <span className="text-muted-foreground">Payment</span>
+                <span className="capitalize text-right">{order.payment_status.replace("_", " ")}</span>
+                <span className="text-muted-foreground">Fulfillment</span>
+                <span className="capitalize text-right">{order.fulfillment_status}</span>
+              </div>
+
               <div>
-                <Label htmlFor="status">Order Status</Label>
-                <Select value={newStatus} onValueChange={setNewStatus}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="confirmed">Confirmed</SelectItem>
-                    <SelectItem value="processing">Processing</SelectItem>
-                    <SelectItem value="shipped">Shipped</SelectItem>
-                    <SelectItem value="delivered">Delivered</SelectItem>
-                    <SelectItem value="cancelled">Cancelled</SelectItem>
-                    <SelectItem value="refunded">Refunded</SelectItem>
-                  </SelectContent>
-                </Select>
+                <Label htmlFor="reason">Reason</Label>
+                <Input
+                  id="reason"
+                  placeholder="Why the status is changing"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                />
               </div>
 
               <div>
@@ -379,10 +453,53 @@ export default function AdminOrderDetailsPage() {
                 />
               </div>
 
-              <Button onClick={handleStatusUpdate} disabled={updating || newStatus === order.status} className="w-full">
-                <Save className="mr-2 h-4 w-4" />
-                {updating ? "Updating..." : "Update Order"}
-              </Button>
+              {actions.length === 0 && (
+                <p className="text-sm text-muted-foreground">No further status changes for this order</p>
+              )}
+              {actions.map((action) => (
+                <div key={`${action.status_type}-${action.to}`}>
+                  <Button
+                    onClick={() => handleAction(action)}
+                    disabled={updating || !action.allowed}
+                    variant={action.destructive ? "destructive" : "default"}
+                    className="w-full"
+                  >
+                    {action.label}
+                  </Button>
+                  {action.blocked_reason && (
+                    <p className="text-xs text-muted-foreground mt-1">{action.blocked_reason}</p>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Status History */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Status History
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {history.length === 0 && <p className="text-sm text-muted-foreground">No status changes recorded</p>}
+              {history.map((entry) => (
+                <div key={entry.id} className="text-sm border-l-2 pl-3">
+                  <div className="flex justify-between gap-2">
+                    <span className="font-medium capitalize">
+                      {entry.status_type}: {entry.from_status ? `${entry.from_status} → ` : ""}
+                      {entry.to_status}
+                    </span>
+                    <Badge variant="outline" className="capitalize">
+                      {entry.changed_by_type}
+                    </Badge>
+                  </div>
+                  {entry.reason && <p className="text-muted-foreground">{entry.reason}</p>}
+                  {entry.notes && <p className="text-muted-foreground">{entry.notes}</p>}
+                  <p className="text-xs text-muted-foreground">{new Date(entry.changed_at).toLocaleString()}</p>
+                </div>
+              ))}
             </CardContent>
           </Card>
 
@@ -0,0 +1,23 @@
+import { ProductUnits } from "@/components/admin/products/product-units"
+import { getHomeopathyProduct } from "@/lib/services/homeopathy.service"
+import { getProductUnitConfig, updateProductUnits } from "@/lib/services/uom.service"
+
+interface ProductUnitsPageProps {
+  params: {
+    id: string
+  }
+}
+
+export default async function ProductUnitsPage({ params }: ProductUnitsPageProps) {
+  const [product, config] = await Promise.all([getHomeopathyProduct(params.id), getProductUnitConfig(params.id)])
+
+  return (
+    <div className="container mx-auto py-6">
+      <ProductUnits
+        product={{ id: product.id, name: product.name, sku: product.sku }}
+        config={config}
+        onSave={updateProductUnits}
+      />
+    </div>
+  )
+}
@@ -1,4 +1,5 @@
 import { getProducts, getCategories } from "@/lib/services/product.service"
+import { getProductClassificationHistory } from "@/lib/services/classification.service"
 import { ProductsTable } from "@/components/admin/products/products-table"
 import { ProductFilters } from "@/components/admin/products/product-filters"
 import { Button } from "@/components/ui/button"
@@ -9,6 +10,8 @@ interface SearchParams {
   category?: string
   status?: string
   search?: string
+  abc?: string
+  xyz?: string
   page?: string
 }
 
@@ -21,6 +24,8 @@ export default async function ProductsPage({
     category_id: searchParams.category,
     status: searchParams.status,
     search: searchParams.search,
+    abc_class: searchParams.abc,
+    xyz_class: searchParams.xyz,
     page: searchParams.page ? Number.parseInt(searchParams.page) : 1,
   }
 
@@ -45,6 +50,7 @@ export default async function ProductsPage({
 
       <ProductsTable
         products={productsData.products}
+        onGetClassificationHistory={getProductClassificationHistory}
         pagination={{
           page: productsData.page,
           totalPages: productsData.totalPages,
@@ -0,0 +1,44 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { runWithServiceRole } from "@/lib/supabase/server"
+import { runInventoryClassification } from "@/lib/services/classification.service"
+import { syncExpiryAlerts } from "@/lib/services/expiry-alert.service"
+import { runDemandForecasts } from "@/lib/services/inventory.service"
+import { captureInventorySnapshots } from "@/lib/services/inventory-snapshot.service"
+import { applyMarkdownSchedules } from "@/lib/services/markdown.service"
+
+// Scheduled jobs, called by the cron entries in vercel.json. Vercel sends CRON_SECRET as a bearer token; any
+// other scheduler can call the same URLs with that header. Jobs run with the service role, not a user session.
+const JOBS: Record<string, () => Promise<unknown>> = {
+  markdowns: () => applyMarkdownSchedules(),
+  "demand-forecasts": () => runDemandForecasts(),
+  "inventory-classification": () => runInventoryClassification(),
+  "inventory-snapshots": () => captureInventorySnapshots(),
+  "expiry-alerts": () => syncExpiryAlerts(),
+}
+
+export const dynamic = "force-dynamic"
+export const maxDuration = 300
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ job: string }> }) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { job } = await params
+  const run = JOBS[job]
+  if (!run) {
+    return NextResponse.json({ error: `Unknown job: ${job}` }, { status: 404 })
+  }
+
+  try {
+    const result = await runWithServiceRole(run)
+    return NextResponse.json({ job, result })
+  } catch (error) {
+    console.error(`Scheduled job ${job} failed:`, error)
+    return NextResponse.json(
+      { job, error: error instanceof Error ? error.message : "Scheduled job failed" },
+      { status: 500 },
+    )
+  }
+}
@@ -53,6 +53,22 @@ interface OrderDetails {
     gateway: string
     created_at: string
   }>
+  order_fulfillments?: Array<{
+    id: string
+    fulfillment_number: string
+    status: string
+    shipping_carrier?: string
+    tracking_number?: string
+    tracking_url?: string
+    shipped_at?: string
+    delivered_at?: string
+    created_at: string
+    order_fulfillment_items: Array<{
+      id: string
+      order_item_id: string
+      quantity: number
+    }>
+  }>
 }
 
 export default function OrderDetailsPage() {
@@ -92,6 +108,22 @@ export default function OrderDetailsPage() {
             payment_method,
             gateway,
             created_at
+          ),
+          order_fulfillments (
+            id,
+            fulfillment_number,
+            status,
+            shipping_carrier,
+            tracking_number,
+            tracking_url,
+            shipped_at,
+            delivered_at,
+            created_at,
+            order_fulfillment_items (
+              id,
+              order_item_id,
+              quantity
+            )
           )
         `)
         .eq("id", orderId)
@@ -194,6 +226,10 @@ export default function OrderDetailsPage() {
     )
   }
 
+  const shipments = (order.order_fulfillments || [])
+    .filter((shipment) => shipment.status !== "cancelled")
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+
   return (
     <div className="container mx-auto px-4 py-8 max-w-6xl">
       {/* Header */}
@@ -254,6 +290,73 @@ export default function OrderDetailsPage() {
             </CardContent>
           </Card>
 
+          {/* Shipments */}
+          {shipments.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Truck className="h-5 w-5" />
+                  Shipments
+                </CardTitle>
+                <CardDescription>
+                  {order.fulfillment_status === "partial"
+                    ? "Your order is arriving in more than one package; the rest will follow"
+                    : `Your order was sent in ${shipments.length} ${shipments.length === 1 ? "package" : "packages"}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {shipments.map((shipment, index) => (
+                  <div key={shipment.id} className="rounded-lg border p-4 space-y-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="font-medium">
+                          Package {index + 1} of {shipments.length}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {shipment.shipping_carrier}
+                          {shipment.shipped_at && ` · shipped ${new Date(shipment.shipped_at).toLocaleDateString()}`}
+                          {shipment.delivered_at &&
+                            ` · delivered ${new Date(shipment.delivered_at).toLocaleDateString()}`}
+                        </p>
+                        {shipment.tracking_number && (
+                          <p className="text-sm">
+                            Tracking:{" "}
+                            {shipment.tracking_url ? (
+                              <a
+                                href={shipment.tracking_url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-primary underline"
+                              >
+                                {shipment.tracking_number}
+                              </a>
+                            ) : (
+                              shipment.tracking_number
+                            )}
+                          </p>
+                        )}
+                      </div>
+                      <Badge className={getStatusColor(shipment.status)} variant="secondary">
+                        {shipment.status.charAt(0).toUpperCase() + shipment.status.slice(1)}
+                      </Badge>
+                    </div>
+                    <div className="space-y-1 text-sm">
+                      {shipment.order_fulfillment_items.map((item) => (
+                        <div key={item.id} className="flex justify-between">
+                          <span>
+                            {order.order_items.find((orderItem) => orderItem.id === item.order_item_id)
+                              ?.product_snapshot.name || "Item"}
+                          </span>
+                          <span className="text-muted-foreground">× {item.quantity}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Order Timeline */}
           <Card>
             <CardHeader>
@@ -104,6 +104,25 @@ export class ProductVariant {
   }
 }
 
+// Grouped products are the remedy kits and bundles of the ERP (product_kits / kit_components). They hold no
+// stock of their own in the catalog: availability is derived from the components' stock.
+@Schema({ _id: false })
+export class ProductBundleItem {
+  // homeopathy_products id of the component
+  @Prop({ required: true })
+  productId: string
+
+  @Prop({ required: true })
+  sku: string
+
+  @Prop()
+  name?: string
+
+  // Units of the component in one kit
+  @Prop({ required: true, min: 1 })
+  quantity: number
+}
+
 @Schema({ _id: false })
 export class ProductSEO {
   @Prop({ maxlength: 60 })
@@ -199,6 +218,17 @@ export class Product {
   @Prop({ type: [ProductVariant] })
   variants: ProductVariant[]
 
+  // Kit components (for grouped products)
+  @Prop({ type: [ProductBundleItem] })
+  bundleItems: ProductBundleItem[]
+
+  @Prop({ enum: ["kit", "bundle"] })
+  kitType?: "kit" | "bundle"
+
+  // The ERP product the kit is sold and assembled as
+  @Prop()
+  erpProductId?: string
+
   // Attributes (flexible product properties)
   @Prop({ type: Object })
   attributes: Record<string, any>
@@ -238,10 +268,20 @@ ProductSchema.index({ "categories.slug": 1 })
 ProductSchema.index({ tags: 1 })
 ProductSchema.index({ "brand.id": 1 })
 ProductSchema.index({ "variants.sku": 1 })
+ProductSchema.index({ "bundleItems.productId": 1 })
 ProductSchema.index({ "reviews.averageRating": -1 })
 ProductSchema.index({ createdAt: -1 })
 ProductSchema.index({ updatedAt: -1 })
 
+// A grouped product is only sellable with a bill of materials
+ProductSchema.pre("validate", function (next) {
+  if (this.type === ProductType.GROUPED && (!this.bundleItems || this.bundleItems.length === 0)) {
+    next(new Error("Grouped products need at least one bundle item"))
+    return
+  }
+  next()
+})
+
 // Text search index
 ProductSchema.index(
   {
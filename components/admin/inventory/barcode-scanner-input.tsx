@@ -0,0 +1,147 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Camera, ScanLine } from "lucide-react"
+import { GS } from "@/lib/inventory/gs1"
+
+// Shape of the browser BarcodeDetector API, which TypeScript's DOM types do not include yet
+interface DetectedBarcode {
+  rawValue: string
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance
+
+const CAMERA_FORMATS = ["ean_13", "ean_8", "upc_a", "code_128", "data_matrix", "qr_code"]
+
+interface BarcodeScannerInputProps {
+  onScan: (code: string) => Promise<unknown> | void
+  placeholder?: string
+  buttonLabel?: string
+  error?: string
+  disabled?: boolean
+}
+
+// Keyboard-wedge scanners type the code and press Enter; the camera option reads it with the
+// browser's BarcodeDetector where available
+export function BarcodeScannerInput({
+  onScan,
+  placeholder = "Scan or type a barcode",
+  buttonLabel = "Add",
+  error,
+  disabled,
+}: BarcodeScannerInputProps) {
+  const [code, setCode] = useState("")
+  const [showCamera, setShowCamera] = useState(false)
+  const [cameraError, setCameraError] = useState("")
+  const videoRef = useRef<HTMLVideoElement>(null)
+
+  const submit = async (value: string) => {
+    if (!value.trim()) return
+    await onScan(value)
+    setCode("")
+  }
+
+  useEffect(() => {
+    if (!showCamera) return
+
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector
+    if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+      setCameraError("Camera scanning is not supported in this browser; use a handheld scanner instead")
+      return
+    }
+
+    let stream: MediaStream | null = null
+    let timer: ReturnType<typeof setInterval> | null = null
+    let stopped = false
+    const detector = new Detector({ formats: CAMERA_FORMATS })
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then(async (mediaStream) => {
+        if (stopped) {
+          mediaStream.getTracks().forEach((track) => track.stop())
+          return
+        }
+        stream = mediaStream
+        if (!videoRef.current) return
+        videoRef.current.srcObject = mediaStream
+        await videoRef.current.play()
+
+        timer = setInterval(async () => {
+          if (!videoRef.current) return
+          const [barcode] = await detector.detect(videoRef.current).catch(() => [] as DetectedBarcode[])
+          if (barcode?.rawValue) {
+            setShowCamera(false)
+            await submit(barcode.rawValue)
+          }
+        }, 300)
+      })
+      .catch((err: Error) => setCameraError(`Could not open the camera: ${err.message}`))
+
+    return () => {
+      stopped = true
+      if (timer) clearInterval(timer)
+      stream?.getTracks().forEach((track) => track.stop())
+    }
+  }, [showCamera])
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <Input
+          placeholder={placeholder}
+          value={code}
+          disabled={disabled}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault()
+              submit(code)
+            } else if (e.ctrlKey && e.key === "]") {
+              // Scanners that emit FNC1 as Ctrl+] (GS) would otherwise lose the separator
+              e.preventDefault()
+              setCode(code + GS)
+            }
+          }}
+        />
+        <Button variant="outline" type="button" disabled={disabled} onClick={() => submit(code)}>
+          <ScanLine className="h-4 w-4 mr-1" />
+          {buttonLabel}
+        </Button>
+        <Button
+          variant="outline"
+          type="button"
+          disabled={disabled}
+          onClick={() => {
+            setCameraError("")
+            setShowCamera(true)
+          }}
+        >
+          <Camera className="h-4 w-4" />
+        </Button>
+      </div>
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      <Dialog open={showCamera} onOpenChange={setShowCamera}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Scan with Camera</DialogTitle>
+            <DialogDescription>Hold the barcode or DataMatrix code steady in front of the camera</DialogDescription>
+          </DialogHeader>
+          {cameraError ? (
+            <p className="text-sm text-red-600">{cameraError}</p>
+          ) : (
+            <video ref={videoRef} className="w-full rounded-md bg-black" muted playsInline />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -1,12 +1,14 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import Link from "next/link"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import {
   Dialog,
@@ -16,8 +18,21 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog"
-import { AlertTriangle, Calendar, Package, Plus, Search, Download } from "lucide-react"
+import {
+  AlertTriangle,
+  Calendar,
+  ClipboardCheck,
+  Package,
+  Plus,
+  Search,
+  Download,
+  ShieldAlert,
+  PackageMinus,
+} from "lucide-react"
 import { formatCurrency, formatDate } from "@/lib/utils"
+import { BarcodeScannerInput } from "@/components/admin/inventory/barcode-scanner-input"
+import type { InitiateRecallData } from "@/lib/services/recall.service"
+import type { BarcodeResolution, ScannedProduct } from "@/lib/services/barcode.service"
 
 interface Batch {
   id: string
@@ -31,6 +46,8 @@ interface Batch {
   quantity_received: number
   quantity_available: number
   quantity_sold: number
+  quality_status: string
+  is_active: boolean
   supplier_name: string
   product_name: string
   brand_name: string
@@ -44,9 +61,17 @@ interface BatchManagementProps {
   batches: Batch[]
   onCreateBatch: (batchData: any) => Promise<void>
   onUpdateBatch: (id: string, updates: any) => Promise<void>
+  onRecallBatch?: (recallData: InitiateRecallData) => Promise<unknown>
+  onResolveBarcode?: (code: string) => Promise<BarcodeResolution>
 }
 
-export function BatchManagement({ batches, onCreateBatch, onUpdateBatch }: BatchManagementProps) {
+export function BatchManagement({
+  batches,
+  onCreateBatch,
+  onUpdateBatch,
+  onRecallBatch,
+  onResolveBarcode,
+}: BatchManagementProps) {
   const [filteredBatches, setFilteredBatches] = useState<Batch[]>(batches)
   const [searchTerm, setSearchTerm] = useState("")
   const [expiryFilter, setExpiryFilter] = useState("all")
@@ -63,6 +88,14 @@ export function BatchManagement({ batches, onCreateBatch, onUpdateBatch }: Batch
     supplier_id: "",
     notes: "",
   })
+  const [scannedProduct, setScannedProduct] = useState<ScannedProduct | null>(null)
+  const [scanError, setScanError] = useState("")
+  const [recallBatch, setRecallBatch] = useState<Batch | null>(null)
+  const [recall, setRecall] = useState<Omit<InitiateRecallData, "batch_id">>({
+    reason: "",
+    severity: "major",
+    manufacturer_reference: "",
+  })
 
   useEffect(() => {
     let filtered = batches
@@ -96,6 +129,16 @@ export function BatchManagement({ batches, onCreateBatch, onUpdateBatch }: Batch
     }
   }
 
+  const getQualityBadge = (batch: Batch) => {
+    if (batch.quality_status === "quarantine") {
+      return <Badge className="bg-orange-100 text-orange-800">Quarantine</Badge>
+    }
+    if (batch.quality_status === "rejected" || !batch.is_active) {
+      return <Badge variant="secondary">Withdrawn</Badge>
+    }
+    return null
+  }
+
   const getExpiryStats = () => {
     const expired = batches.filter((b) => b.expiry_status === "expired").length
     const nearExpiry = batches.filter((b) => b.expiry_status === "near_expiry").length
@@ -106,10 +149,34 @@ export function BatchManagement({ batches, onCreateBatch, onUpdateBatch }: Batch
 
   const stats = getExpiryStats()
 
+  // Scanning the pack fills in whatever the label carries: product from the GTIN, batch and expiry from GS1 AIs
+  const handleScan = async (code: string) => {
+    if (!onResolveBarcode) return
+
+    try {
+      const { product, scan, expiry_date } = await onResolveBarcode(code)
+      if (!product) {
+        setScanError(`${code.trim()} does not match any product`)
+        return
+      }
+      setScanError("")
+      setScannedProduct(product)
+      setNewBatch((batch) => ({
+        ...batch,
+        product_id: product.id,
+        batch_number: scan.batch_number || batch.batch_number,
+        expiry_date: expiry_date || batch.expiry_date,
+      }))
+    } catch (error) {
+      setScanError(error instanceof Error ? error.message : "Scan not recognised")
+    }
+  }
+
   const handleCreateBatch = async () => {
     try {
       await onCreateBatch(newBatch)
       setShowCreateDialog(false)
+      setScannedProduct(null)
       setNewBatch({
         product_id: "",
         batch_number: "",
@@ -127,6 +194,17 @@ export function BatchManagement({ batches, onCreateBatch, onUpdateBatch }: Batch
     }
   }
 
+  const handleRecallBatch = async () => {
+    if (!recallBatch || !onRecallBatch) return
+    try {
+      await onRecallBatch({ ...recall, batch_id: recallBatch.id })
+      setRecallBatch(null)
+      setRecall({ reason: "", severity: "major", manufacturer_reference: "" })
+    } catch (error) {
+      console.error("Error recalling batch:", error)
+    }
+  }
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -145,8 +223,16 @@ export function BatchManagement({ batches, onCreateBatch, onUpdateBatch }: Batch
           <DialogContent className="max-w-2xl">
             <DialogHeader>
               <DialogTitle>Create New Batch</DialogTitle>
-              <DialogDescription>Add a new product batch with expiry tracking</DialogDescription>
+              <DialogDescription>The batch is held in quarantine until it passes quality control</DialogDescription>
             </DialogHeader>
+            {onResolveBarcode && (
+              <BarcodeScannerInput
+                placeholder="Scan the pack barcode or GS1 label"
+                buttonLabel="Fill"
+                onScan={handleScan}
+                error={scanError}
+              />
+            )}
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="batch_number">Batch Number *</Label>
@@ -167,6 +253,7 @@ export function BatchManagement({ batches, onCreateBatch, onUpdateBatch }: Batch
                     <SelectValue placeholder="Select product" />
                   </SelectTrigger>
                   <SelectContent>
+                    {scannedProduct && <SelectItem value={scannedProduct.id}>{scannedProduct.name}</SelectItem>}
                     {/* Products would be loaded here */}
                     <SelectItem value="1">Arnica Montana 30C</SelectItem>
                     <SelectItem value="2">Belladonna 200C</SelectItem>
@@ -316,6 +403,24 @@ export function BatchManagement({ batches, onCreateBatch, onUpdateBatch }: Batch
               <Download className="h-4 w-4 mr-2" />
               Export
             </Button>
+            <Link href="/admin/inventory/quality-control">
+              <Button variant="outline">
+                <ClipboardCheck className="h-4 w-4 mr-2" />
+                Quality Control
+              </Button>
+            </Link>
+            <Link href="/admin/inventory/recalls">
+              <Button variant="outline">
+                <ShieldAlert className="h-4 w-4 mr-2" />
+                Recalls
+              </Button>
+            </Link>
+            <Link href="/admin/inventory/write-offs">
+              <Button variant="outline">
+                <PackageMinus className="h-4 w-4 mr-2" />
+                Write-offs
+              </Button>
+            </Link>
           </div>
         </CardContent>
       </Card>
@@ -340,6 +445,7 @@ export function BatchManagement({ batches, onCreateBatch, onUpdateBatch }: Batch
                   <TableHead>Purchase Price</TableHead>
                   <TableHead>Selling Price</TableHead>
                   <TableHead>Value</TableHead>
+                  {onRecallBatch && <TableHead className="text-right">Actions</TableHead>}
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -361,7 +467,12 @@ export function BatchManagement({ batches, onCreateBatch, onUpdateBatch }: Batch
                         {formatDate(batch.expiry_date)}
                       </div>
                     </TableCell>
-                    <TableCell>{getExpiryBadge(batch)}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        {getExpiryBadge(batch)}
+                        {getQualityBadge(batch)}
+                      </div>
+                    </TableCell>
                     <TableCell>
                       <div className="font-medium">{batch.quantity_available}</div>
                       <div className="text-sm text-muted-foreground">of {batch.quantity_received}</div>
@@ -374,6 +485,16 @@ export function BatchManagement({ batches, onCreateBatch, onUpdateBatch }: Batch
                         Selling: {formatCurrency(batch.value_at_selling)}
                       </div>
                     </TableCell>
+                    {onRecallBatch && (
+                      <TableCell className="text-right">
+                        {batch.quality_status !== "quarantine" && batch.quality_status !== "rejected" && (
+                          <Button variant="ghost" size="sm" onClick={() => setRecallBatch(batch)}>
+                            <ShieldAlert className="h-4 w-4 mr-1" />
+                            Recall
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
                   </TableRow>
                 ))}
               </TableBody>
@@ -381,6 +502,65 @@ export function BatchManagement({ batches, onCreateBatch, onUpdateBatch }: Batch
           </div>
         </CardContent>
       </Card>
+
+      <Dialog open={!!recallBatch} onOpenChange={(open: boolean) => !open && setRecallBatch(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Recall Batch {recallBatch?.batch_number}</DialogTitle>
+            <DialogDescription>
+              {recallBatch?.product_name}: the batch is quarantined at once, its {recallBatch?.quantity_available} units
+              are taken out of sellable stock and unshipped orders are re-picked from other batches
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="recall_reason">Reason *</Label>
+              <Textarea
+                id="recall_reason"
+                value={recall.reason}
+                onChange={(e) => setRecall({ ...recall, reason: e.target.value })}
+                placeholder="e.g., Contamination reported by manufacturer"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Severity</Label>
+                <Select
+                  value={recall.severity}
+                  onValueChange={(value: string) =>
+                    setRecall({ ...recall, severity: value as InitiateRecallData["severity"] })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="critical">Critical</SelectItem>
+                    <SelectItem value="major">Major</SelectItem>
+                    <SelectItem value="minor">Minor</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="manufacturer_reference">Manufacturer Reference</Label>
+                <Input
+                  id="manufacturer_reference"
+                  value={recall.manufacturer_reference}
+                  onChange={(e) => setRecall({ ...recall, manufacturer_reference: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={() => setRecallBatch(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleRecallBatch} disabled={!recall.reason.trim()}>
+              Start Recall
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
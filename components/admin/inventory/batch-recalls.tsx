@@ -0,0 +1,622 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ArrowLeft, Check, Mail, PackageX, RotateCcw, ShieldAlert, Stethoscope } from "lucide-react"
+import { formatDate } from "@/lib/utils"
+import type {
+  BatchRecall,
+  RecallRecipient,
+  RecallReturn,
+  RecallReturnType,
+  RecallStatus,
+} from "@/lib/services/recall.service"
+
+interface RecallDetail {
+  recall: BatchRecall & { supplier_name: string; expiry_date?: string; quantity_quarantined: number }
+  recipients: RecallRecipient[]
+  returns: RecallReturn[]
+}
+
+interface BatchRecallsProps {
+  recalls: BatchRecall[]
+  status?: RecallStatus
+  detail?: RecallDetail | null
+  onSendNotices: (recallId: string) => Promise<unknown>
+  onUpdateNotice: (
+    recipientId: string,
+    update: { notice_status: "sent" | "acknowledged"; notice_channel?: string; notes?: string },
+  ) => Promise<unknown>
+  onRecordReturn: (returnData: {
+    recall_id: string
+    return_type: RecallReturnType
+    quantity: number
+    recipient_id?: string
+    reference_number?: string
+    notes?: string
+  }) => Promise<unknown>
+  onCloseRecall: (id: string, closureNotes: string) => Promise<unknown>
+}
+
+const RETURN_TYPE_LABELS: Record<RecallReturnType, string> = {
+  customer_return: "Customer return",
+  supplier_return: "Returned to supplier",
+  destroyed: "Destroyed",
+}
+
+const emptyReturn = {
+  return_type: "customer_return" as RecallReturnType,
+  recipient_id: "",
+  quantity: 0,
+  reference_number: "",
+  notes: "",
+}
+
+export function BatchRecalls({
+  recalls,
+  status,
+  detail,
+  onSendNotices,
+  onUpdateNotice,
+  onRecordReturn,
+  onCloseRecall,
+}: BatchRecallsProps) {
+  const router = useRouter()
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [showReturnDialog, setShowReturnDialog] = useState(false)
+  const [newReturn, setNewReturn] = useState(emptyReturn)
+  const [showCloseDialog, setShowCloseDialog] = useState(false)
+  const [closureNotes, setClosureNotes] = useState("")
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setActionError(null)
+      await action()
+      return true
+    } catch (error) {
+      console.error("Error updating recall:", error)
+      setActionError(error instanceof Error ? error.message : "Recall update failed")
+      return false
+    }
+  }
+
+  const getStatusBadge = (recallStatus: RecallStatus) => {
+    switch (recallStatus) {
+      case "open":
+        return <Badge variant="destructive">Open</Badge>
+      case "in_progress":
+        return <Badge className="bg-orange-100 text-orange-800">In Progress</Badge>
+      default:
+        return <Badge variant="secondary">Closed</Badge>
+    }
+  }
+
+  const getSeverityBadge = (severity: string) => {
+    switch (severity) {
+      case "critical":
+        return <Badge className="bg-red-100 text-red-800">Critical</Badge>
+      case "major":
+        return <Badge className="bg-orange-100 text-orange-800">Major</Badge>
+      default:
+        return <Badge className="bg-yellow-100 text-yellow-800">Minor</Badge>
+    }
+  }
+
+  const getNoticeBadge = (recipient: RecallRecipient) => {
+    switch (recipient.notice_status) {
+      case "pending":
+        return <Badge variant="destructive">Not notified</Badge>
+      case "sent":
+        return <Badge className="bg-blue-100 text-blue-800">Notified</Badge>
+      case "acknowledged":
+        return <Badge className="bg-green-100 text-green-800">Acknowledged</Badge>
+      default:
+        return <Badge variant="secondary">Not required</Badge>
+    }
+  }
+
+  const handleRecordReturn = async () => {
+    if (!detail) return
+    const saved = await runAction(() =>
+      onRecordReturn({
+        recall_id: detail.recall.id,
+        return_type: newReturn.return_type,
+        quantity: newReturn.quantity,
+        recipient_id: newReturn.return_type === "customer_return" ? newReturn.recipient_id : undefined,
+        reference_number: newReturn.reference_number || undefined,
+        notes: newReturn.notes || undefined,
+      }),
+    )
+    if (saved) {
+      setShowReturnDialog(false)
+      setNewReturn(emptyReturn)
+    }
+  }
+
+  const handleCloseRecall = async () => {
+    if (!detail) return
+    const closed = await runAction(() => onCloseRecall(detail.recall.id, closureNotes))
+    if (closed) {
+      setShowCloseDialog(false)
+      setClosureNotes("")
+    }
+  }
+
+  if (detail) {
+    const { recall, recipients, returns } = detail
+    const isClosed = recall.status === "closed"
+    const pendingNotices = recipients.filter((recipient) => recipient.notice_status === "pending").length
+    const outstanding = recipients
+      .filter((recipient) => recipient.allocation_status === "shipped")
+      .reduce((sum, recipient) => sum + recipient.quantity_supplied - recipient.quantity_returned, 0)
+    const returnableRecipients = recipients.filter(
+      (recipient) =>
+        recipient.allocation_status === "shipped" && recipient.quantity_returned < recipient.quantity_supplied,
+    )
+
+    return (
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <Link
+              href="/admin/inventory/recalls"
+              className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2"
+            >
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              All recalls
+            </Link>
+            <h2 className="text-2xl font-bold flex items-center gap-2">
+              {recall.recall_number} {getStatusBadge(recall.status)} {getSeverityBadge(recall.severity)}
+            </h2>
+            <p className="text-muted-foreground">
+              {recall.product_name} · Batch {recall.batch_number}
+              {recall.expiry_date && ` · Expires ${formatDate(recall.expiry_date)}`} · {recall.supplier_name}
+            </p>
+          </div>
+          {!isClosed && (
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => runAction(() => onSendNotices(recall.id))}>
+                <Mail className="h-4 w-4 mr-2" />
+                Send Notices
+              </Button>
+              <Button variant="outline" onClick={() => setShowReturnDialog(true)}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Record Return
+              </Button>
+              <Button variant="destructive" onClick={() => setShowCloseDialog(true)}>
+                <PackageX className="h-4 w-4 mr-2" />
+                Close Recall
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {actionError && <p className="text-sm text-red-600">{actionError}</p>}
+
+        {/* Summary */}
+        <div className="grid grid-cols-5 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Quarantined on recall</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{recall.quantity_in_stock}</div>
+              <div className="text-sm text-muted-foreground">{recall.quantity_quarantined} held now</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">With customers</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-red-600">{outstanding}</div>
+              <div className="text-sm text-muted-foreground">of {recall.quantity_distributed} distributed</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Returned by customers</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{recall.quantity_returned_by_customers}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Returned to supplier</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{recall.quantity_returned_to_supplier}</div>
+              <div className="text-sm text-muted-foreground">{recall.quantity_destroyed} destroyed</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Notices pending</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${pendingNotices > 0 ? "text-red-600" : "text-green-600"}`}>
+                {pendingNotices}
+              </div>
+              <div className="text-sm text-muted-foreground">of {recipients.length} orders</div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Reason</CardTitle>
+            <CardDescription>
+              Opened {formatDate(recall.opened_at)}
+              {recall.manufacturer_reference && ` · Manufacturer reference ${recall.manufacturer_reference}`}
+              {recall.closed_at && ` · Closed ${formatDate(recall.closed_at)}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p>{recall.reason}</p>
+            {recall.closure_notes && <p className="text-sm text-muted-foreground mt-2">{recall.closure_notes}</p>}
+          </CardContent>
+        </Card>
+
+        {/* Traceability */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Affected Orders</CardTitle>
+            <CardDescription>Every order, customer and doctor that received units from this batch</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Order</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Units</TableHead>
+                    <TableHead>Returned</TableHead>
+                    <TableHead>Notice</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recipients.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground">
+                        No units from this batch were supplied to customers
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {recipients.map((recipient) => (
+                    <TableRow key={recipient.id}>
+                      <TableCell>
+                        <Link href={`/admin/orders/${recipient.order_id}`} className="font-medium hover:underline">
+                          {recipient.order_number}
+                        </Link>
+                        <div className="text-sm text-muted-foreground">
+                          {recipient.allocation_status === "shipped"
+                            ? "Shipped"
+                            : recipient.allocation_status === "reallocated"
+                              ? "Re-picked from another batch"
+                              : "On hold, no replacement stock"}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2 font-medium">
+                          {recipient.is_doctor && <Stethoscope className="h-4 w-4 text-blue-600" />}
+                          {recipient.customer_name || "Guest"}
+                        </div>
+                        <div className="text-sm text-muted-foreground capitalize">
+                          {recipient.customer_type || "retail"}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">{recipient.customer_email}</div>
+                        <div className="text-sm text-muted-foreground">{recipient.customer_phone}</div>
+                      </TableCell>
+                      <TableCell>{recipient.quantity_supplied}</TableCell>
+                      <TableCell>{recipient.quantity_returned}</TableCell>
+                      <TableCell>
+                        {getNoticeBadge(recipient)}
+                        {recipient.notice_sent_at && (
+                          <div className="text-sm text-muted-foreground">
+                            {recipient.notice_channel} · {formatDate(recipient.notice_sent_at)}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {!isClosed && recipient.notice_status === "pending" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              runAction(() =>
+                                onUpdateNotice(recipient.id, { notice_status: "sent", notice_channel: "phone" }),
+                              )
+                            }
+                          >
+                            <Mail className="h-4 w-4 mr-1" />
+                            Contacted
+                          </Button>
+                        )}
+                        {!isClosed && recipient.notice_status === "sent" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              runAction(() => onUpdateNotice(recipient.id, { notice_status: "acknowledged" }))
+                            }
+                          >
+                            <Check className="h-4 w-4 mr-1" />
+                            Acknowledged
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Returns */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Returns</CardTitle>
+            <CardDescription>Units received back from customers and sent back to the supplier</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Order</TableHead>
+                    <TableHead>Quantity</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead>Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {returns.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        No returns recorded yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {returns.map((recallReturn) => (
+                    <TableRow key={recallReturn.id}>
+                      <TableCell>{formatDate(recallReturn.created_at)}</TableCell>
+                      <TableCell>{RETURN_TYPE_LABELS[recallReturn.return_type]}</TableCell>
+                      <TableCell>
+                        {recipients.find((recipient) => recipient.id === recallReturn.recipient_id)?.order_number ||
+                          "-"}
+                      </TableCell>
+                      <TableCell>{recallReturn.quantity}</TableCell>
+                      <TableCell>{recallReturn.reference_number || "-"}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{recallReturn.notes}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Dialog open={showReturnDialog} onOpenChange={setShowReturnDialog}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Record Return</DialogTitle>
+              <DialogDescription>Customer returns go back into quarantine; supplier returns leave it</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={newReturn.return_type}
+                  onValueChange={(value: string) =>
+                    setNewReturn({ ...newReturn, return_type: value as RecallReturnType })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(RETURN_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {newReturn.return_type === "customer_return" && (
+                <div className="space-y-2">
+                  <Label>Order</Label>
+                  <Select
+                    value={newReturn.recipient_id}
+                    onValueChange={(value: string) => setNewReturn({ ...newReturn, recipient_id: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select order" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {returnableRecipients.map((recipient) => (
+                        <SelectItem key={recipient.id} value={recipient.id}>
+                          {recipient.order_number} · {recipient.customer_name || "Guest"} (
+                          {recipient.quantity_supplied - recipient.quantity_returned} outstanding)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="return_quantity">Quantity</Label>
+                  <Input
+                    id="return_quantity"
+                    type="number"
+                    min={1}
+                    value={newReturn.quantity}
+                    onChange={(e) => setNewReturn({ ...newReturn, quantity: Number.parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="return_reference">Reference</Label>
+                  <Input
+                    id="return_reference"
+                    value={newReturn.reference_number}
+                    onChange={(e) => setNewReturn({ ...newReturn, reference_number: e.target.value })}
+                    placeholder="Return slip or debit note"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="return_notes">Notes</Label>
+                <Textarea
+                  id="return_notes"
+                  value={newReturn.notes}
+                  onChange={(e) => setNewReturn({ ...newReturn, notes: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2 mt-4">
+              <Button variant="outline" onClick={() => setShowReturnDialog(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleRecordReturn} disabled={newReturn.quantity <= 0}>
+                Record Return
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={showCloseDialog} onOpenChange={setShowCloseDialog}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Close Recall</DialogTitle>
+              <DialogDescription>
+                The {recall.quantity_quarantined} units still in quarantine will be written off and the batch retired.
+                {outstanding > 0 && ` ${outstanding} units are still with customers.`}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="closure_notes">Closure notes *</Label>
+              <Textarea id="closure_notes" value={closureNotes} onChange={(e) => setClosureNotes(e.target.value)} />
+            </div>
+            <div className="flex justify-end gap-2 mt-4">
+              <Button variant="outline" onClick={() => setShowCloseDialog(false)}>
+                Cancel
+              </Button>
+              <Button variant="destructive" onClick={handleCloseRecall} disabled={!closureNotes.trim()}>
+                Close Recall
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Batch Recalls</h2>
+          <p className="text-muted-foreground">Recalled batches are quarantined until the recall is closed</p>
+        </div>
+        <div className="w-48">
+          <Select
+            value={status || "all"}
+            onValueChange={(value: string) =>
+              router.push(value === "all" ? "/admin/inventory/recalls" : `/admin/inventory/recalls?status=${value}`)
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Recalls</SelectItem>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="in_progress">In Progress</SelectItem>
+              <SelectItem value="closed">Closed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recalls</CardTitle>
+          <CardDescription>Start a recall from the batch list</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Recall</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Severity</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Distributed</TableHead>
+                  <TableHead>Recovered</TableHead>
+                  <TableHead>Opened</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recalls.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      <ShieldAlert className="h-4 w-4 inline mr-2" />
+                      No recalls
+                    </TableCell>
+                  </TableRow>
+                )}
+                {recalls.map((recall) => (
+                  <TableRow
+                    key={recall.id}
+                    className="cursor-pointer"
+                    onClick={() => router.push(`/admin/inventory/recalls?recall=${recall.id}`)}
+                  >
+                    <TableCell>
+                      <div className="font-medium">{recall.recall_number}</div>
+                      <div className="text-sm text-muted-foreground truncate max-w-xs">{recall.reason}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{recall.product_name}</div>
+                      <div className="text-sm text-muted-foreground">Batch {recall.batch_number}</div>
+                    </TableCell>
+                    <TableCell>{getSeverityBadge(recall.severity)}</TableCell>
+                    <TableCell>{getStatusBadge(recall.status)}</TableCell>
+                    <TableCell>{recall.quantity_distributed}</TableCell>
+                    <TableCell>
+                      {recall.quantity_returned_by_customers}
+                      <span className="text-sm text-muted-foreground"> returned</span>
+                    </TableCell>
+                    <TableCell>{formatDate(recall.opened_at)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,209 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { AlertTriangle, RefreshCw, TrendingDown, TrendingUp } from "lucide-react"
+import { formatDate } from "@/lib/utils"
+import type { ForecastDay } from "@/lib/inventory/forecast"
+
+interface StoredForecast {
+  id: string
+  product_id: string
+  horizon_days: number
+  history_days: number
+  current_stock: number
+  daily_average: number
+  trend_per_day: number
+  forecast_total: number
+  stockout_date: string | null
+  stockout_probability: number
+  mape: number | null
+  daily_forecast: ForecastDay[]
+  products?: { name: string; sku: string }
+}
+
+interface DemandForecastsProps {
+  forecastDate: string | null
+  forecasts: StoredForecast[]
+  onRunForecasts: () => Promise<unknown>
+}
+
+export function DemandForecasts({ forecastDate, forecasts, onRunForecasts }: DemandForecastsProps) {
+  const [running, setRunning] = useState(false)
+  const [selected, setSelected] = useState<StoredForecast | null>(null)
+
+  const atRisk = forecasts.filter((forecast) => forecast.stockout_date)
+
+  const handleRun = async () => {
+    setRunning(true)
+    try {
+      await onRunForecasts()
+    } catch (error) {
+      console.error("Error running demand forecasts:", error)
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const getRiskBadge = (probability: number) => {
+    if (probability >= 0.8) return <Badge variant="destructive">{Math.round(probability * 100)}%</Badge>
+    if (probability >= 0.5)
+      return <Badge className="bg-orange-100 text-orange-800">{Math.round(probability * 100)}%</Badge>
+    if (probability >= 0.2)
+      return <Badge className="bg-yellow-100 text-yellow-800">{Math.round(probability * 100)}%</Badge>
+    return <Badge variant="secondary">{Math.round(probability * 100)}%</Badge>
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Demand Forecasts</h2>
+          <p className="text-muted-foreground">
+            {forecastDate ? `Generated ${formatDate(forecastDate)}` : "No forecasts have been generated yet"}
+          </p>
+        </div>
+        <Button onClick={handleRun} disabled={running}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${running ? "animate-spin" : ""}`} />
+          {running ? "Forecasting..." : "Run Forecasts"}
+        </Button>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Products Forecast</CardTitle>
+            <TrendingUp className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{forecasts.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Projected Stockouts</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{atRisk.length}</div>
+            <p className="text-xs text-muted-foreground">Within the forecast horizon</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Median MAPE</CardTitle>
+            <TrendingDown className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{getMedianMape(forecasts)}</div>
+            <p className="text-xs text-muted-foreground">Backtest error on recent demand</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Forecasts */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Stockout Risk</CardTitle>
+          <CardDescription>
+            Probability that demand over the horizon exceeds stock available to sell (on hand less reservations)
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Available</TableHead>
+                <TableHead className="text-right">Avg / Day</TableHead>
+                <TableHead className="text-right">Forecast Demand</TableHead>
+                <TableHead>Stockout Date</TableHead>
+                <TableHead>Stockout Risk</TableHead>
+                <TableHead className="text-right">MAPE</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {forecasts.map((forecast) => (
+                <TableRow key={forecast.id} className="cursor-pointer" onClick={() => setSelected(forecast)}>
+                  <TableCell>
+                    <div className="font-medium">{forecast.products?.name}</div>
+                    <div className="text-sm text-muted-foreground">{forecast.products?.sku}</div>
+                  </TableCell>
+                  <TableCell className="text-right">{forecast.current_stock}</TableCell>
+                  <TableCell className="text-right">
+                    {forecast.daily_average}
+                    {forecast.trend_per_day !== 0 && (
+                      <span className={forecast.trend_per_day > 0 ? "text-green-600" : "text-red-600"}>
+                        {" "}
+                        {forecast.trend_per_day > 0 ? "↑" : "↓"}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{Math.round(forecast.forecast_total)}</TableCell>
+                  <TableCell>{forecast.stockout_date ? formatDate(forecast.stockout_date) : "-"}</TableCell>
+                  <TableCell>{getRiskBadge(forecast.stockout_probability)}</TableCell>
+                  <TableCell className="text-right">{forecast.mape !== null ? `${forecast.mape}%` : "-"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {forecasts.length === 0 && <div className="text-center py-8 text-muted-foreground">No forecasts found</div>}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{selected.products?.name}</CardTitle>
+            <CardDescription>
+              Daily forecast with 80% band over {selected.horizon_days} days, from {selected.history_days} days of
+              history
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">Forecast</TableHead>
+                  <TableHead className="text-right">Range</TableHead>
+                  <TableHead className="text-right">Projected Stock</TableHead>
+                  <TableHead>Stockout Risk</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selected.daily_forecast.map((day) => (
+                  <TableRow key={day.date}>
+                    <TableCell>{formatDate(day.date)}</TableCell>
+                    <TableCell className="text-right">{day.forecast}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {day.lower} - {day.upper}
+                    </TableCell>
+                    <TableCell className={`text-right ${day.projected_stock <= 0 ? "text-red-600 font-medium" : ""}`}>
+                      {day.projected_stock}
+                    </TableCell>
+                    <TableCell>{getRiskBadge(day.stockout_probability)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+function getMedianMape(forecasts: StoredForecast[]) {
+  const values = forecasts
+    .map((forecast) => forecast.mape)
+    .filter((mape): mape is number => mape !== null)
+    .sort((a, b) => a - b)
+  if (values.length === 0) return "-"
+  return `${values[Math.floor(values.length / 2)].toFixed(1)}%`
+}
@@ -1,64 +1,126 @@
 "use client"
 
 import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { AlertTriangle, Calendar, Bell, X } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { AlertTriangle, Calendar, Bell, BellOff, Check, CheckCircle, History, PackageMinus, Tag } from "lucide-react"
 import { formatCurrency, formatDate } from "@/lib/utils"
+import type {
+  ExpiryAlert,
+  ExpiryAlertAssignee,
+  ExpiryAlertEvent,
+  ExpiryAlertResolution,
+  ExpiryAlertStatus,
+} from "@/lib/services/expiry-alert.service"
 
-interface ExpiryAlert {
-  id: string
-  batch_id: string
-  product_name: string
-  brand_name: string
-  batch_number: string
-  expiry_date: string
-  days_to_expiry: number
-  quantity_available: number
-  value_at_cost: number
-  alert_type: "expired" | "expiring_soon" | "expiring_this_month"
-  priority: "high" | "medium" | "low"
+type ManualResolution = Exclude<ExpiryAlertResolution, "stock_cleared">
+
+const RESOLUTION_LABELS: Record<ExpiryAlertResolution, string> = {
+  sold: "Sold",
+  discounted: "Discounted",
+  returned_to_supplier: "Returned to supplier",
+  written_off: "Written off",
+  stock_cleared: "Stock cleared",
+}
+
+const ACTION_LABELS: Record<ExpiryAlertEvent["action"], string> = {
+  opened: "Alert opened",
+  regraded: "Moved closer to expiry",
+  acknowledged: "Acknowledged",
+  snoozed: "Snoozed",
+  snooze_expired: "Snooze ended",
+  assigned: "Assigned",
+  unassigned: "Unassigned",
+  resolved: "Resolved",
 }
 
 interface ExpiryAlertsProps {
   alerts: ExpiryAlert[]
-  onDismissAlert: (alertId: string) => Promise<void>
+  assignees: ExpiryAlertAssignee[]
+  status: ExpiryAlertStatus | "active" | "all"
+  assignedTo?: string
+  onAcknowledgeAlert: (id: string, notes?: string) => Promise<unknown>
+  onSnoozeAlert: (id: string, snoozedUntil: string, notes?: string) => Promise<unknown>
+  onAssignAlert: (id: string, assigneeId: string | null, notes?: string) => Promise<unknown>
+  onResolveAlert: (id: string, resolution: ManualResolution, notes?: string) => Promise<unknown>
+  onGetAlertHistory: (id: string) => Promise<ExpiryAlertEvent[]>
   onCreateDiscountOffer: (batchId: string, discountPercentage: number) => Promise<void>
 }
 
-export function ExpiryAlerts({ alerts, onDismissAlert, onCreateDiscountOffer }: ExpiryAlertsProps) {
-  const [selectedAlerts, setSelectedAlerts] = useState<string[]>([])
+export function ExpiryAlerts({
+  alerts,
+  assignees,
+  status,
+  assignedTo,
+  onAcknowledgeAlert,
+  onSnoozeAlert,
+  onAssignAlert,
+  onResolveAlert,
+  onGetAlertHistory,
+  onCreateDiscountOffer,
+}: ExpiryAlertsProps) {
+  const router = useRouter()
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [snoozeAlert, setSnoozeAlert] = useState<ExpiryAlert | null>(null)
+  const [snoozedUntil, setSnoozedUntil] = useState("")
+  const [resolveAlert, setResolveAlert] = useState<ExpiryAlert | null>(null)
+  const [resolution, setResolution] = useState<ManualResolution>("sold")
+  const [actionNotes, setActionNotes] = useState("")
+  const [historyAlert, setHistoryAlert] = useState<ExpiryAlert | null>(null)
+  const [history, setHistory] = useState<ExpiryAlertEvent[]>([])
 
-  const getAlertBadge = (alert: ExpiryAlert) => {
-    switch (alert.alert_type) {
-      case "expired":
-        return <Badge variant="destructive">Expired</Badge>
-      case "expiring_soon":
-        return <Badge variant="secondary">Expiring Soon</Badge>
-      case "expiring_this_month":
-        return <Badge variant="outline">This Month</Badge>
-      default:
-        return <Badge variant="default">Alert</Badge>
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setActionError(null)
+      await action()
+      router.refresh()
+      return true
+    } catch (error) {
+      console.error("Error updating expiry alert:", error)
+      setActionError(error instanceof Error ? error.message : "Expiry alert update failed")
+      return false
     }
   }
 
-  const getPriorityColor = (priority: string) => {
-    switch (priority) {
-      case "high":
-        return "text-red-600"
-      case "medium":
-        return "text-yellow-600"
-      case "low":
-        return "text-blue-600"
-      default:
-        return "text-gray-600"
+  const applyFilters = (changes: { status?: string; assigned_to?: string }) => {
+    const next = { status, assigned_to: assignedTo || "all", ...changes }
+    const params = new URLSearchParams()
+    if (next.status !== "active") params.set("status", next.status)
+    if (next.assigned_to !== "all") params.set("assigned_to", next.assigned_to)
+    const query = params.toString()
+    router.push(query ? `/admin/inventory/expiry-alerts?${query}` : "/admin/inventory/expiry-alerts")
+  }
+
+  const openHistory = async (alert: ExpiryAlert) => {
+    setHistoryAlert(alert)
+    setHistory([])
+    try {
+      setHistory(await onGetAlertHistory(alert.id))
+    } catch (error) {
+      console.error("Error fetching expiry alert history:", error)
+      setActionError(error instanceof Error ? error.message : "Failed to load alert history")
     }
   }
 
+  const closeActionDialogs = () => {
+    setSnoozeAlert(null)
+    setResolveAlert(null)
+    setSnoozedUntil("")
+    setResolution("sold")
+    setActionNotes("")
+  }
+
   const getAlertsByType = (type: string) => {
     return alerts.filter((alert) => alert.alert_type === type)
   }
@@ -68,6 +130,25 @@ export function ExpiryAlerts({ alerts, onDismissAlert, onCreateDiscountOffer }:
   const expiringThisMonthAlerts = getAlertsByType("expiring_this_month")
 
   const totalValue = alerts.reduce((sum, alert) => sum + alert.value_at_cost, 0)
+  const unresolvedAlerts = alerts.filter((alert) => alert.status !== "resolved")
+
+  const tableProps = {
+    assignees,
+    onAcknowledge: (alert: ExpiryAlert) => runAction(() => onAcknowledgeAlert(alert.id)),
+    onAssign: (alert: ExpiryAlert, assigneeId: string | null) => runAction(() => onAssignAlert(alert.id, assigneeId)),
+    onSnooze: (alert: ExpiryAlert) => {
+      setActionError(null)
+      setSnoozeAlert(alert)
+    },
+    onResolve: (alert: ExpiryAlert) => {
+      setActionError(null)
+      setResolveAlert(alert)
+    },
+    onShowHistory: openHistory,
+    onCreateDiscountOffer,
+  }
+
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
 
   return (
     <div className="space-y-6">
@@ -78,22 +159,58 @@ export function ExpiryAlerts({ alerts, onDismissAlert, onCreateDiscountOffer }:
           <p className="text-muted-foreground">Monitor products approaching expiry dates</p>
         </div>
         <div className="flex gap-2">
-          <Button variant="outline">
-            <Bell className="h-4 w-4 mr-2" />
-            Configure Alerts
-          </Button>
-          <Button>Create Discount Offers</Button>
+          <Link href="/admin/inventory/markdowns">
+            <Button variant="outline">
+              <Tag className="h-4 w-4 mr-2" />
+              Markdowns
+            </Button>
+          </Link>
+          <div className="w-44">
+            <Select value={status} onValueChange={(value: string) => applyFilters({ status: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="active">Needs attention</SelectItem>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="acknowledged">Acknowledged</SelectItem>
+                <SelectItem value="snoozed">Snoozed</SelectItem>
+                <SelectItem value="resolved">Resolved</SelectItem>
+                <SelectItem value="all">All states</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-48">
+            <Select value={assignedTo || "all"} onValueChange={(value: string) => applyFilters({ assigned_to: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Anyone</SelectItem>
+                <SelectItem value="me">Assigned to me</SelectItem>
+                <SelectItem value="unassigned">Unassigned</SelectItem>
+                {assignees.map((assignee) => (
+                  <SelectItem key={assignee.id} value={assignee.id}>
+                    {assignee.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
       </div>
 
+      {actionError && <p className="text-sm text-red-600">{actionError}</p>}
+
       {/* Summary Alert */}
-      {alerts.length > 0 && (
+      {unresolvedAlerts.length > 0 && (
         <Alert className="border-yellow-200 bg-yellow-50">
           <AlertTriangle className="h-4 w-4 text-yellow-600" />
           <AlertTitle className="text-yellow-800">Attention Required</AlertTitle>
           <AlertDescription className="text-yellow-700">
-            You have {alerts.length} products requiring attention with a total value of {formatCurrency(totalValue)}.
-            Consider creating discount offers or contacting suppliers for returns.
+            You have {unresolvedAlerts.length} products requiring attention with a total value of{" "}
+            {formatCurrency(unresolvedAlerts.reduce((sum, alert) => sum + alert.value_at_cost, 0))}. Consider creating
+            discount offers or contacting suppliers for returns.
           </AlertDescription>
         </Alert>
       )}
@@ -107,6 +224,7 @@ export function ExpiryAlerts({ alerts, onDismissAlert, onCreateDiscountOffer }:
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{alerts.length}</div>
+            <p className="text-xs text-muted-foreground">Value: {formatCurrency(totalValue)}</p>
           </CardContent>
         </Card>
         <Card>
@@ -157,44 +275,172 @@ export function ExpiryAlerts({ alerts, onDismissAlert, onCreateDiscountOffer }:
         </TabsList>
 
         <TabsContent value="all">
-          <AlertsTable alerts={alerts} onDismissAlert={onDismissAlert} onCreateDiscountOffer={onCreateDiscountOffer} />
+          <AlertsTable alerts={alerts} {...tableProps} />
         </TabsContent>
 
         <TabsContent value="expired">
-          <AlertsTable
-            alerts={expiredAlerts}
-            onDismissAlert={onDismissAlert}
-            onCreateDiscountOffer={onCreateDiscountOffer}
-          />
+          <AlertsTable alerts={expiredAlerts} {...tableProps} />
         </TabsContent>
 
         <TabsContent value="expiring_soon">
-          <AlertsTable
-            alerts={expiringSoonAlerts}
-            onDismissAlert={onDismissAlert}
-            onCreateDiscountOffer={onCreateDiscountOffer}
-          />
+          <AlertsTable alerts={expiringSoonAlerts} {...tableProps} />
         </TabsContent>
 
         <TabsContent value="this_month">
-          <AlertsTable
-            alerts={expiringThisMonthAlerts}
-            onDismissAlert={onDismissAlert}
-            onCreateDiscountOffer={onCreateDiscountOffer}
-          />
+          <AlertsTable alerts={expiringThisMonthAlerts} {...tableProps} />
         </TabsContent>
       </Tabs>
+
+      <Dialog open={!!snoozeAlert} onOpenChange={(open: boolean) => !open && closeActionDialogs()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Snooze Alert</DialogTitle>
+            <DialogDescription>
+              {snoozeAlert?.product_name} ({snoozeAlert?.batch_number}) leaves the list until this date
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="snoozed_until">Snooze until *</Label>
+              <Input
+                id="snoozed_until"
+                type="date"
+                min={tomorrow}
+                value={snoozedUntil}
+                onChange={(e) => setSnoozedUntil(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="snooze_notes">Notes</Label>
+              <Textarea id="snooze_notes" value={actionNotes} onChange={(e) => setActionNotes(e.target.value)} />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={closeActionDialogs}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!snoozedUntil}
+              onClick={async () => {
+                if (!snoozeAlert) return
+                const snoozed = await runAction(() =>
+                  onSnoozeAlert(snoozeAlert.id, snoozedUntil, actionNotes || undefined),
+                )
+                if (snoozed) closeActionDialogs()
+              }}
+            >
+              Snooze
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!resolveAlert} onOpenChange={(open: boolean) => !open && closeActionDialogs()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resolve Alert</DialogTitle>
+            <DialogDescription>
+              What happened to {resolveAlert?.product_name} ({resolveAlert?.batch_number})?
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Resolution *</Label>
+              <Select value={resolution} onValueChange={(value: string) => setResolution(value as ManualResolution)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(["sold", "discounted", "returned_to_supplier", "written_off"] as ManualResolution[]).map(
+                    (value) => (
+                      <SelectItem key={value} value={value}>
+                        {RESOLUTION_LABELS[value]}
+                      </SelectItem>
+                    ),
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="resolution_notes">Notes</Label>
+              <Textarea id="resolution_notes" value={actionNotes} onChange={(e) => setActionNotes(e.target.value)} />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={closeActionDialogs}>
+              Cancel
+            </Button>
+            <Button
+              onClick={async () => {
+                if (!resolveAlert) return
+                const resolved = await runAction(() =>
+                  onResolveAlert(resolveAlert.id, resolution, actionNotes || undefined),
+                )
+                if (resolved) closeActionDialogs()
+              }}
+            >
+              Resolve
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!historyAlert} onOpenChange={(open: boolean) => !open && setHistoryAlert(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Alert History</DialogTitle>
+            <DialogDescription>
+              {historyAlert?.product_name} ({historyAlert?.batch_number})
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {history.length === 0 && <p className="text-sm text-muted-foreground">No history yet</p>}
+            {history.map((event) => (
+              <div key={event.id} className="border-b pb-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="font-medium">{ACTION_LABELS[event.action]}</span>
+                  <span className="text-muted-foreground">{formatDate(event.created_at)}</span>
+                </div>
+                <div className="text-muted-foreground">
+                  {event.performed_by_name || "System"}
+                  {event.from_status && event.to_status && event.from_status !== event.to_status
+                    ? ` · ${event.from_status} → ${event.to_status}`
+                    : ""}
+                  {event.details?.snoozed_until ? ` · until ${formatDate(String(event.details.snoozed_until))}` : ""}
+                  {event.details?.resolution
+                    ? ` · ${RESOLUTION_LABELS[event.details.resolution as ExpiryAlertResolution]}`
+                    : ""}
+                  {event.action === "assigned"
+                    ? ` · ${assignees.find((assignee) => assignee.id === event.details?.assigned_to)?.name || "staff member"}`
+                    : ""}
+                </div>
+                {event.notes && <div className="mt-1">{event.notes}</div>}
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
 
 function AlertsTable({
   alerts,
-  onDismissAlert,
+  assignees,
+  onAcknowledge,
+  onAssign,
+  onSnooze,
+  onResolve,
+  onShowHistory,
   onCreateDiscountOffer,
 }: {
   alerts: ExpiryAlert[]
-  onDismissAlert: (alertId: string) => Promise<void>
+  assignees: ExpiryAlertAssignee[]
+  onAcknowledge: (alert: ExpiryAlert) => Promise<unknown>
+  onAssign: (alert: ExpiryAlert, assigneeId: string | null) => Promise<unknown>
+  onSnooze: (alert: ExpiryAlert) => void
+  onResolve: (alert: ExpiryAlert) => void
+  onShowHistory: (alert: ExpiryAlert) => void
   onCreateDiscountOffer: (batchId: string, discountPercentage: number) => Promise<void>
 }) {
   const getAlertBadge = (alert: ExpiryAlert) => {
@@ -210,6 +456,25 @@ function AlertsTable({
     }
   }
 
+  const getStateBadge = (alert: ExpiryAlert) => {
+    switch (alert.status) {
+      case "open":
+        return <Badge className="bg-orange-100 text-orange-800">Open</Badge>
+      case "acknowledged":
+        return <Badge className="bg-blue-100 text-blue-800">Acknowledged</Badge>
+      case "snoozed":
+        return (
+          <Badge variant="outline">Snoozed{alert.snoozed_until ? ` to ${formatDate(alert.snoozed_until)}` : ""}</Badge>
+        )
+      default:
+        return (
+          <Badge className="bg-green-100 text-green-800">
+            {alert.resolution ? RESOLUTION_LABELS[alert.resolution] : "Resolved"}
+          </Badge>
+        )
+    }
+  }
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case "high":
@@ -242,10 +507,18 @@ function AlertsTable({
                 <TableHead>Quantity</TableHead>
                 <TableHead>Value</TableHead>
                 <TableHead>Status</TableHead>
+                <TableHead>Assigned To</TableHead>
                 <TableHead>Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
+              {alerts.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={10} className="text-center text-muted-foreground">
+                    No alerts match these filters
+                  </TableCell>
+                </TableRow>
+              )}
               {alerts.map((alert) => (
                 <TableRow key={alert.id}>
                   <TableCell>
@@ -277,14 +550,66 @@ function AlertsTable({
                   <TableCell>
                     <div className="font-medium">{formatCurrency(alert.value_at_cost)}</div>
                   </TableCell>
-                  <TableCell>{getAlertBadge(alert)}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-col gap-1 items-start">
+                      {getAlertBadge(alert)}
+                      {getStateBadge(alert)}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {alert.status === "resolved" ? (
+                      <span className="text-sm">{alert.assigned_to_name || "-"}</span>
+                    ) : (
+                      <Select
+                        value={alert.assigned_to || "unassigned"}
+                        onValueChange={(value: string) => onAssign(alert, value === "unassigned" ? null : value)}
+                      >
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="unassigned">Unassigned</SelectItem>
+                          {assignees.map((assignee) => (
+                            <SelectItem key={assignee.id} value={assignee.id}>
+                              {assignee.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </TableCell>
                   <TableCell>
                     <div className="flex gap-1">
-                      <Button size="sm" variant="outline" onClick={() => onCreateDiscountOffer(alert.batch_id, 20)}>
-                        20% Off
-                      </Button>
-                      <Button size="sm" variant="ghost" onClick={() => onDismissAlert(alert.id)}>
-                        <X className="h-4 w-4" />
+                      {alert.status !== "resolved" && (
+                        <>
+                          <Button size="sm" variant="outline" onClick={() => onCreateDiscountOffer(alert.batch_id, 20)}>
+                            20% Off
+                          </Button>
+                          <Link href={`/admin/inventory/write-offs?batch=${alert.batch_id}`}>
+                            <Button size="sm" variant="outline">
+                              <PackageMinus className="h-4 w-4 mr-1" />
+                              Write Off
+                            </Button>
+                          </Link>
+                        </>
+                      )}
+                      {alert.status === "open" && (
+                        <Button size="sm" variant="ghost" title="Acknowledge" onClick={() => onAcknowledge(alert)}>
+                          <Check className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {alert.status !== "resolved" && (
+                        <>
+                          <Button size="sm" variant="ghost" title="Snooze" onClick={() => onSnooze(alert)}>
+                            <BellOff className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" title="Resolve" onClick={() => onResolve(alert)}>
+                            <CheckCircle className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      <Button size="sm" variant="ghost" title="History" onClick={() => onShowHistory(alert)}>
+                        <History className="h-4 w-4" />
                       </Button>
                     </div>
                   </TableCell>
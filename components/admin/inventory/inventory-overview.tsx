@@ -1,7 +1,17 @@
 "use client"
 
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Package, TrendingUp, AlertTriangle } from "lucide-react"
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Package, TrendingUp, AlertTriangle, Lock, RefreshCw } from "lucide-react"
+import { formatCurrency, formatDate } from "@/lib/utils"
+import type { ClassificationCell, ClassificationChange, ClassificationRun } from "@/lib/services/classification.service"
+
+const XYZ_LABELS = { X: "Steady", Y: "Variable", Z: "Erratic" }
 
 interface InventoryOverviewProps {
   data: {
@@ -10,57 +20,242 @@ interface InventoryOverviewProps {
     outOfStockProducts: number
     lowStockProducts: number
     totalInventoryValue: number
+    totalReserved: number
+    totalAvailable: number
+    reservedStock: Array<{
+      product_id: string
+      name: string
+      sku: string
+      on_hand: number
+      reserved: number
+      available: number
+    }>
+  }
+  classification?: {
+    last_run: ClassificationRun | null
+    cells: ClassificationCell[]
+    unclassified: number
+    cycle_counts_due: number
+    changes: ClassificationChange[]
   }
+  onRunClassification?: () => Promise<unknown>
 }
 
-export function InventoryOverview({ data }: InventoryOverviewProps) {
+export function InventoryOverview({ data, classification, onRunClassification }: InventoryOverviewProps) {
+  const router = useRouter()
+  const [classifying, setClassifying] = useState(false)
+  const [classificationError, setClassificationError] = useState<string | null>(null)
+
+  const runClassification = async () => {
+    if (!onRunClassification) return
+    try {
+      setClassifying(true)
+      setClassificationError(null)
+      await onRunClassification()
+      router.refresh()
+    } catch (error) {
+      console.error("Error running classification:", error)
+      setClassificationError(error instanceof Error ? error.message : "Classification failed")
+    } finally {
+      setClassifying(false)
+    }
+  }
+
   const stockPercentage = data.totalProducts > 0 ? (data.inStockProducts / data.totalProducts) * 100 : 0
 
   return (
-    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Total Products</CardTitle>
-          <Package className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">{data.totalProducts}</div>
-          <p className="text-xs text-muted-foreground">Tracked inventory items</p>
-        </CardContent>
-      </Card>
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Products</CardTitle>
+            <Package className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{data.totalProducts}</div>
+            <p className="text-xs text-muted-foreground">Tracked inventory items</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">In Stock</CardTitle>
+            <TrendingUp className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{data.inStockProducts}</div>
+            <p className="text-xs text-muted-foreground">{stockPercentage.toFixed(1)}% of total products</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Low Stock Alerts</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-orange-600">{data.lowStockProducts}</div>
+            <p className="text-xs text-muted-foreground">Need attention</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Out of Stock</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{data.outOfStockProducts}</div>
+            <p className="text-xs text-muted-foreground">Immediate action required</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Reserved</CardTitle>
+            <Lock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-blue-600">{data.totalReserved}</div>
+            <p className="text-xs text-muted-foreground">{data.totalAvailable} units available to sell</p>
+          </CardContent>
+        </Card>
+      </div>
 
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">In Stock</CardTitle>
-          <TrendingUp className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">{data.inStockProducts}</div>
-          <p className="text-xs text-muted-foreground">{stockPercentage.toFixed(1)}% of total products</p>
-        </CardContent>
-      </Card>
+      {classification && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle>ABC / XYZ Classification</CardTitle>
+              <CardDescription>
+                {classification.last_run
+                  ? `Last run ${formatDate(classification.last_run.created_at)} over ${formatDate(
+                      classification.last_run.period_start,
+                    )} to ${formatDate(classification.last_run.period_end)}, ${
+                      classification.last_run.changed_count
+                    } products changed class`
+                  : "Not classified yet"}
+                {classification.unclassified > 0 && `. ${classification.unclassified} products unclassified`}
+                {`. ${classification.cycle_counts_due} products due a cycle count`}
+              </CardDescription>
+            </div>
+            {onRunClassification && (
+              <Button variant="outline" disabled={classifying} onClick={runClassification}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                {classifying ? "Classifying..." : "Reclassify Now"}
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {classificationError && <p className="text-sm text-red-600">{classificationError}</p>}
+            <div className="grid grid-cols-4 gap-2">
+              <div />
+              {(["X", "Y", "Z"] as const).map((xyzClass) => (
+                <div key={xyzClass} className="text-center text-sm font-medium">
+                  {xyzClass} <span className="text-muted-foreground">({XYZ_LABELS[xyzClass]})</span>
+                </div>
+              ))}
+              {(["A", "B", "C"] as const).map((abcClass) => (
+                <div key={abcClass} className="contents">
+                  <div className="flex items-center text-sm font-medium">{abcClass}</div>
+                  {classification.cells
+                    .filter((cell) => cell.abc_class === abcClass)
+                    .map((cell) => (
+                      <Link
+                        key={`${cell.abc_class}${cell.xyz_class}`}
+                        href={`/admin/products?abc=${cell.abc_class}&xyz=${cell.xyz_class}`}
+                        className="rounded-md border p-3 hover:bg-muted/50"
+                      >
+                        <div className="flex justify-between">
+                          <span className="font-bold">{cell.products}</span>
+                          <span className="text-sm text-muted-foreground">{formatCurrency(cell.stock_value)}</span>
+                        </div>
+                        {cell.policy && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            Count every {cell.policy.cycle_count_frequency_days}d, review every{" "}
+                            {cell.policy.review_cadence_days}d, {cell.policy.service_level_percentage}% service
+                          </div>
+                        )}
+                      </Link>
+                    ))}
+                </div>
+              ))}
+            </div>
 
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Low Stock Alerts</CardTitle>
-          <AlertTriangle className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold text-orange-600">{data.lowStockProducts}</div>
-          <p className="text-xs text-muted-foreground">Need attention</p>
-        </CardContent>
-      </Card>
+            {classification.changes.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Changed in last run</TableHead>
+                    <TableHead>From</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead className="text-right">Consumption Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {classification.changes.map((change) => (
+                    <TableRow key={change.product_id}>
+                      <TableCell>
+                        <div className="font-medium">{change.product_name}</div>
+                        <div className="text-sm text-muted-foreground">{change.sku}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {change.previous_abc_class}
+                          {change.previous_xyz_class}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">
+                          {change.abc_class}
+                          {change.xyz_class}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(change.consumption_value)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
 
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Out of Stock</CardTitle>
-          <AlertTriangle className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold text-red-600">{data.outOfStockProducts}</div>
-          <p className="text-xs text-muted-foreground">Immediate action required</p>
-        </CardContent>
-      </Card>
+      {data.reservedStock.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Reserved vs Available</CardTitle>
+            <CardDescription>Stock held for unpaid orders until payment or expiry</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">On Hand</TableHead>
+                  <TableHead className="text-right">Reserved</TableHead>
+                  <TableHead className="text-right">Available</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.reservedStock.map((row) => (
+                  <TableRow key={row.product_id}>
+                    <TableCell>
+                      <div className="font-medium">{row.name}</div>
+                      <div className="text-sm text-muted-foreground">{row.sku}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{row.on_hand}</TableCell>
+                    <TableCell className="text-right text-blue-600">{row.reserved}</TableCell>
+                    <TableCell className={`text-right ${row.available <= 0 ? "text-red-600 font-medium" : ""}`}>
+                      {row.available}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
     </div>
   )
 }
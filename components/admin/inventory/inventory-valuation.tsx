@@ -0,0 +1,200 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Calculator, IndianRupee, Package, TrendingUp } from "lucide-react"
+import { formatCurrency, formatDate } from "@/lib/utils"
+
+interface ValuationRow {
+  key?: string
+  product_id?: string
+  name?: string
+  product_name?: string
+  sku?: string
+  quantity: number
+  unit_cost: number
+  cost_value: number
+  retail_value: number
+  margin: number
+  margin_percent: number
+}
+
+interface InventoryValuationProps {
+  valuation: {
+    method: "fifo" | "weighted_average"
+    as_of: string
+    items: ValuationRow[]
+    breakdown: {
+      by_brand: ValuationRow[]
+      by_category: ValuationRow[]
+      by_warehouse: ValuationRow[]
+    }
+    summary: {
+      total_cost_value: number
+      total_retail_value: number
+      total_margin: number
+      total_margin_percent: number
+      total_items: number
+    }
+  }
+}
+
+function ValuationTable({ rows, label }: { rows: ValuationRow[]; label: string }) {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{label}</TableHead>
+            <TableHead className="text-right">Quantity</TableHead>
+            <TableHead className="text-right">Unit Cost</TableHead>
+            <TableHead className="text-right">Cost Value</TableHead>
+            <TableHead className="text-right">Retail Value</TableHead>
+            <TableHead className="text-right">Margin</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.key || row.product_id}>
+              <TableCell>
+                <div className="font-medium">{row.name || row.product_name}</div>
+                {row.sku && <div className="text-sm text-muted-foreground">{row.sku}</div>}
+              </TableCell>
+              <TableCell className="text-right">{row.quantity}</TableCell>
+              <TableCell className="text-right">{formatCurrency(row.unit_cost)}</TableCell>
+              <TableCell className="text-right font-medium">{formatCurrency(row.cost_value)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(row.retail_value)}</TableCell>
+              <TableCell className="text-right">{row.margin_percent.toFixed(1)}%</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {rows.length === 0 && <div className="text-center py-8 text-muted-foreground">No stock on this date</div>}
+    </div>
+  )
+}
+
+export function InventoryValuation({ valuation }: InventoryValuationProps) {
+  const router = useRouter()
+  const [method, setMethod] = useState<string>(valuation.method)
+  const [asOf, setAsOf] = useState(valuation.as_of.slice(0, 10))
+
+  const applyFilters = () => {
+    router.push(`/admin/inventory/valuation?method=${method}&as_of=${asOf}`)
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-end">
+        <div>
+          <h2 className="text-2xl font-bold">Inventory Valuation</h2>
+          <p className="text-muted-foreground">
+            Closing stock at {valuation.method === "fifo" ? "FIFO" : "weighted average"} cost as of{" "}
+            {formatDate(valuation.as_of)}
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label>Method</Label>
+            <Select value={method} onValueChange={(value: string) => setMethod(value)}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fifo">FIFO</SelectItem>
+                <SelectItem value="weighted_average">Weighted Average</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="as_of">As of</Label>
+            <Input id="as_of" type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} />
+          </div>
+          <Button onClick={applyFilters}>
+            <Calculator className="h-4 w-4 mr-2" />
+            Value Stock
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Stock at Cost</CardTitle>
+            <IndianRupee className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(valuation.summary.total_cost_value)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Stock at Selling Price</CardTitle>
+            <IndianRupee className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(valuation.summary.total_retail_value)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Potential Margin</CardTitle>
+            <TrendingUp className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(valuation.summary.total_margin)}</div>
+            <p className="text-xs text-muted-foreground">{valuation.summary.total_margin_percent.toFixed(1)}% on cost</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Products in Stock</CardTitle>
+            <Package className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{valuation.summary.total_items}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Breakdown */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Breakdown</CardTitle>
+          <CardDescription>Each batch is a cost layer at its landed cost, or purchase price if none</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="product">
+            <TabsList>
+              <TabsTrigger value="product">Product</TabsTrigger>
+              <TabsTrigger value="brand">Brand</TabsTrigger>
+              <TabsTrigger value="category">Category</TabsTrigger>
+              <TabsTrigger value="warehouse">Warehouse</TabsTrigger>
+            </TabsList>
+            <TabsContent value="product">
+              <ValuationTable rows={valuation.items} label="Product" />
+            </TabsContent>
+            <TabsContent value="brand">
+              <ValuationTable rows={valuation.breakdown.by_brand} label="Brand" />
+            </TabsContent>
+            <TabsContent value="category">
+              <ValuationTable rows={valuation.breakdown.by_category} label="Category" />
+            </TabsContent>
+            <TabsContent value="warehouse">
+              <ValuationTable rows={valuation.breakdown.by_warehouse} label="Warehouse" />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
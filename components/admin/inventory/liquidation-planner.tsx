@@ -0,0 +1,570 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { CheckCircle, ClipboardList, Package, TrendingDown, TrendingUp, XCircle } from "lucide-react"
+import { formatCurrency, formatDate } from "@/lib/utils"
+import type { LiquidationAction, LiquidationAssumptions, LiquidationOption } from "@/lib/inventory/liquidation"
+import type { LiquidationCandidate, LiquidationTask, LiquidationTaskStatus } from "@/lib/services/liquidation.service"
+
+const ACTION_LABELS: Record<LiquidationAction, string> = {
+  return_to_supplier: "Return to supplier",
+  transfer: "Branch transfer",
+  bundle: "Bundle",
+  markdown: "Markdown",
+  write_off: "Write-off",
+}
+
+const ACTION_COLORS: Record<LiquidationAction, string> = {
+  return_to_supplier: "bg-green-100 text-green-800",
+  transfer: "bg-blue-100 text-blue-800",
+  bundle: "bg-purple-100 text-purple-800",
+  markdown: "bg-orange-100 text-orange-800",
+  write_off: "bg-red-100 text-red-800",
+}
+
+// Where the document a task started can be followed up
+const REFERENCE_LINKS: Record<NonNullable<LiquidationTask["reference_type"]>, { href: string; label: string }> = {
+  batch_markdown: { href: "/admin/inventory/markdowns?tab=active", label: "Markdown" },
+  stock_transfer: { href: "/admin/inventory/transfers", label: "Transfer" },
+  stock_write_off: { href: "/admin/inventory/write-offs", label: "Write-off" },
+}
+
+interface LiquidationPlannerProps {
+  candidates: LiquidationCandidate[]
+  assumptions: LiquidationAssumptions
+  tasks: LiquidationTask[]
+  tab: "plan" | "tasks"
+  taskStatus: LiquidationTaskStatus | "all"
+  daysThreshold: number
+  onCreateTask: (taskData: { stock_aging_id: string; action: LiquidationAction; notes?: string }) => Promise<unknown>
+  onCompleteTask: (
+    id: string,
+    completion: { actual_quantity: number; actual_value: number; notes?: string },
+  ) => Promise<unknown>
+  onCancelTask: (id: string, reason: string) => Promise<unknown>
+}
+
+export function LiquidationPlanner({
+  candidates,
+  assumptions,
+  tasks,
+  tab,
+  taskStatus,
+  daysThreshold,
+  onCreateTask,
+  onCompleteTask,
+  onCancelTask,
+}: LiquidationPlannerProps) {
+  const router = useRouter()
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [optionsCandidate, setOptionsCandidate] = useState<LiquidationCandidate | null>(null)
+  const [taskNotes, setTaskNotes] = useState("")
+  const [completeTask, setCompleteTask] = useState<LiquidationTask | null>(null)
+  const [completion, setCompletion] = useState({ actual_quantity: 0, actual_value: 0, notes: "" })
+  const [cancelTask, setCancelTask] = useState<LiquidationTask | null>(null)
+  const [cancelReason, setCancelReason] = useState("")
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setActionError(null)
+      await action()
+      router.refresh()
+      return true
+    } catch (error) {
+      console.error("Error updating liquidation task:", error)
+      setActionError(error instanceof Error ? error.message : "Liquidation task update failed")
+      return false
+    }
+  }
+
+  const applyFilters = (changes: { tab?: string; status?: string; days?: string }) => {
+    const next = { tab, status: taskStatus, days: String(daysThreshold), ...changes }
+    const params = new URLSearchParams()
+    if (next.tab !== "plan") params.set("tab", next.tab)
+    if (next.status !== "in_progress") params.set("status", next.status)
+    if (next.days !== "90") params.set("days", next.days)
+    const query = params.toString()
+    router.push(query ? `/admin/inventory/liquidation?${query}` : "/admin/inventory/liquidation")
+  }
+
+  const closeDialogs = () => {
+    setOptionsCandidate(null)
+    setTaskNotes("")
+    setCompleteTask(null)
+    setCompletion({ actual_quantity: 0, actual_value: 0, notes: "" })
+    setCancelTask(null)
+    setCancelReason("")
+  }
+
+  const openCompletion = (task: LiquidationTask) => {
+    setActionError(null)
+    setCompleteTask(task)
+    setCompletion({ actual_quantity: task.expected_quantity, actual_value: task.expected_value, notes: "" })
+  }
+
+  const unplanned = candidates.filter((candidate) => !candidate.open_task)
+  const valueAtCost = candidates.reduce((sum, candidate) => sum + candidate.value_at_cost, 0)
+  const bestRecovery = unplanned.reduce((sum, candidate) => sum + (candidate.options[0]?.expected_value || 0), 0)
+  const completedTasks = tasks.filter((task) => task.status === "completed")
+  const visibleTasks = taskStatus === "all" ? tasks : tasks.filter((task) => task.status === taskStatus)
+  const openTaskCount = candidates.filter((candidate) => candidate.open_task).length
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Liquidation Planner</h2>
+          <p className="text-muted-foreground">
+            Ranked ways to clear dead and slow-moving batches, by the value each is expected to recover
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/admin/inventory/aging">
+            <Button variant="outline">
+              <TrendingDown className="h-4 w-4 mr-2" />
+              Stock Aging
+            </Button>
+          </Link>
+          <div className="w-48">
+            <Select value={String(daysThreshold)} onValueChange={(value: string) => applyFilters({ days: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="60">In stock 60+ days</SelectItem>
+                <SelectItem value="90">In stock 90+ days</SelectItem>
+                <SelectItem value="180">In stock 180+ days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      {actionError && <p className="text-sm text-red-600">{actionError}</p>}
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Batches to Clear</CardTitle>
+            <Package className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{candidates.length}</div>
+            <p className="text-xs text-muted-foreground">Value at cost: {formatCurrency(valueAtCost)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Best Recovery</CardTitle>
+            <TrendingUp className="h-4 w-4 text-green-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{formatCurrency(bestRecovery)}</div>
+            <p className="text-xs text-muted-foreground">Top option for {unplanned.length} unplanned batches</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">In Progress</CardTitle>
+            <ClipboardList className="h-4 w-4 text-blue-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-blue-600">{openTaskCount}</div>
+            <p className="text-xs text-muted-foreground">Batches with a liquidation task</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Recovered</CardTitle>
+            <CheckCircle className="h-4 w-4 text-green-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatCurrency(completedTasks.reduce((sum, task) => sum + Number(task.actual_value || 0), 0))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Expected {formatCurrency(completedTasks.reduce((sum, task) => sum + Number(task.expected_value), 0))}{" "}
+              across {completedTasks.length} completed tasks
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue={tab} onValueChange={(value: string) => applyFilters({ tab: value })} className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="plan">Plan ({candidates.length})</TabsTrigger>
+          <TabsTrigger value="tasks">Tasks ({visibleTasks.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="plan">
+          <Card>
+            <CardHeader>
+              <CardTitle>Dead and Slow-Moving Batches</CardTitle>
+              <CardDescription>
+                Sales are counted over the next {assumptions.horizon_days} days or until expiry. Markdowns assume{" "}
+                {assumptions.markdown_percentage}% off selling {assumptions.markdown_sales_lift}x faster; bundles{" "}
+                {assumptions.bundle_discount_percentage}% off with {assumptions.bundle_attach_rate * 100}% of the fast
+                mover's sales; transfers cost {formatCurrency(assumptions.transfer_cost_per_unit)} a unit.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {candidates.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-8 text-center">
+                  No dead or slow-moving batches in today's aging analysis
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Batch</TableHead>
+                      <TableHead>Warehouse</TableHead>
+                      <TableHead className="text-right">Qty</TableHead>
+                      <TableHead className="text-right">Days in Stock</TableHead>
+                      <TableHead>Expiry</TableHead>
+                      <TableHead className="text-right">Value at Cost</TableHead>
+                      <TableHead>Best Option</TableHead>
+                      <TableHead className="text-right">Expected Recovery</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {candidates.map((candidate) => {
+                      const best = candidate.options[0]
+                      return (
+                        <TableRow key={candidate.stock_aging_id}>
+                          <TableCell>
+                            <div className="font-medium">{candidate.product_name}</div>
+                            <div className="text-xs text-muted-foreground">{candidate.brand_name}</div>
+                          </TableCell>
+                          <TableCell>
+                            {candidate.batch_number}
+                            {candidate.is_dead_stock && (
+                              <Badge className="ml-2 bg-gray-100 text-gray-800">Dead stock</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>{candidate.warehouse_name || "-"}</TableCell>
+                          <TableCell className="text-right">{candidate.quantity}</TableCell>
+                          <TableCell className="text-right">{candidate.days_in_stock}</TableCell>
+                          <TableCell>{candidate.expiry_date ? formatDate(candidate.expiry_date) : "-"}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(candidate.value_at_cost)}</TableCell>
+                          <TableCell>
+                            <Badge className={ACTION_COLORS[best.action]}>{ACTION_LABELS[best.action]}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(best.expected_value)}</TableCell>
+                          <TableCell>
+                            {candidate.open_task ? (
+                              <Badge variant="outline">
+                                {candidate.open_task.task_number}: {ACTION_LABELS[candidate.open_task.action_type]}
+                              </Badge>
+                            ) : (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => {
+                                  setActionError(null)
+                                  setOptionsCandidate(candidate)
+                                }}
+                              >
+                                Options
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="tasks">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>Liquidation Tasks</CardTitle>
+                <CardDescription>Expected against actual value recovered for each action taken</CardDescription>
+              </div>
+              <div className="w-44">
+                <Select value={taskStatus} onValueChange={(value: string) => applyFilters({ status: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="in_progress">In progress</SelectItem>
+                    <SelectItem value="completed">Completed</SelectItem>
+                    <SelectItem value="cancelled">Cancelled</SelectItem>
+                    <SelectItem value="all">All states</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {visibleTasks.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-8 text-center">No liquidation tasks</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Task</TableHead>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead className="text-right">Qty</TableHead>
+                      <TableHead className="text-right">Expected</TableHead>
+                      <TableHead className="text-right">Recovered</TableHead>
+                      <TableHead>Document</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleTasks.map((task) => {
+                      const reference = task.reference_type ? REFERENCE_LINKS[task.reference_type] : null
+                      return (
+                        <TableRow key={task.id}>
+                          <TableCell>
+                            <div className="font-medium">{task.task_number}</div>
+                            <div className="text-xs text-muted-foreground">{formatDate(task.created_at)}</div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium">{task.product_name}</div>
+                            <div className="text-xs text-muted-foreground">Batch {task.batch_number}</div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge className={ACTION_COLORS[task.action_type]}>{ACTION_LABELS[task.action_type]}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right">{task.quantity}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(task.expected_value)}</TableCell>
+                          <TableCell className="text-right">
+                            {task.actual_value != null ? formatCurrency(task.actual_value) : "-"}
+                          </TableCell>
+                          <TableCell>
+                            {reference ? (
+                              <Link href={reference.href} className="text-sm text-blue-600 hover:underline">
+                                {reference.label} {task.reference_number || ""}
+                              </Link>
+                            ) : (
+                              "-"
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {task.status === "completed" ? (
+                              <Badge className="bg-green-100 text-green-800">Completed</Badge>
+                            ) : task.status === "cancelled" ? (
+                              <Badge variant="secondary">Cancelled</Badge>
+                            ) : (
+                              <Badge className="bg-blue-100 text-blue-800">In progress</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {task.status === "in_progress" && (
+                              <div className="flex gap-1">
+                                <Button size="sm" variant="outline" onClick={() => openCompletion(task)}>
+                                  <CheckCircle className="h-4 w-4 mr-1" />
+                                  Complete
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => {
+                                    setActionError(null)
+                                    setCancelTask(task)
+                                  }}
+                                >
+                                  <XCircle className="h-4 w-4 mr-1" />
+                                  Cancel
+                                </Button>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={!!optionsCandidate} onOpenChange={(open: boolean) => !open && closeDialogs()}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Liquidation Options</DialogTitle>
+            <DialogDescription>
+              {optionsCandidate?.product_name} ({optionsCandidate?.batch_number}), {optionsCandidate?.quantity} units
+              worth {formatCurrency(optionsCandidate?.value_at_cost || 0)} at cost
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Option</TableHead>
+                  <TableHead className="text-right">Units</TableHead>
+                  <TableHead className="text-right">Expected Recovery</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {optionsCandidate?.options.map((option: LiquidationOption, index: number) => (
+                  <TableRow key={option.action}>
+                    <TableCell>
+                      <Badge className={ACTION_COLORS[option.action]}>
+                        {index + 1}. {ACTION_LABELS[option.action]}
+                      </Badge>
+                      <div className="text-xs text-muted-foreground mt-1">{option.description}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{option.expected_quantity}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(option.expected_value)}</TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        onClick={async () => {
+                          if (!optionsCandidate) return
+                          const created = await runAction(() =>
+                            onCreateTask({
+                              stock_aging_id: optionsCandidate.stock_aging_id,
+                              action: option.action,
+                              notes: taskNotes || undefined,
+                            }),
+                          )
+                          if (created) closeDialogs()
+                        }}
+                      >
+                        Start
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="space-y-2">
+              <Label htmlFor="task_notes">Notes</Label>
+              <Textarea id="task_notes" value={taskNotes} onChange={(e) => setTaskNotes(e.target.value)} />
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!completeTask} onOpenChange={(open: boolean) => !open && closeDialogs()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Complete Task</DialogTitle>
+            <DialogDescription>
+              {completeTask?.task_number}: {completeTask ? ACTION_LABELS[completeTask.action_type] : ""} for{" "}
+              {completeTask?.product_name}
+              {completeTask?.action_type === "return_to_supplier" && ". The units returned are taken out of stock."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="actual_quantity">Units cleared</Label>
+                <Input
+                  id="actual_quantity"
+                  type="number"
+                  min={0}
+                  value={completion.actual_quantity}
+                  onChange={(e) =>
+                    setCompletion({ ...completion, actual_quantity: Number.parseInt(e.target.value) || 0 })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="actual_value">Value recovered</Label>
+                <Input
+                  id="actual_value"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={completion.actual_value}
+                  onChange={(e) =>
+                    setCompletion({ ...completion, actual_value: Number.parseFloat(e.target.value) || 0 })
+                  }
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="completion_notes">Notes</Label>
+              <Textarea
+                id="completion_notes"
+                value={completion.notes}
+                onChange={(e) => setCompletion({ ...completion, notes: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={closeDialogs}>
+              Cancel
+            </Button>
+            <Button
+              onClick={async () => {
+                if (!completeTask) return
+                const completed = await runAction(() =>
+                  onCompleteTask(completeTask.id, {
+                    actual_quantity: completion.actual_quantity,
+                    actual_value: completion.actual_value,
+                    notes: completion.notes || undefined,
+                  }),
+                )
+                if (completed) closeDialogs()
+              }}
+            >
+              Complete Task
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!cancelTask} onOpenChange={(open: boolean) => !open && closeDialogs()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Task</DialogTitle>
+            <DialogDescription>
+              {cancelTask?.task_number}: any markdown it applied is reverted and a draft transfer or write-off is
+              cancelled
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="cancel_reason">Reason *</Label>
+            <Textarea id="cancel_reason" value={cancelReason} onChange={(e) => setCancelReason(e.target.value)} />
+          </div>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={closeDialogs}>
+              Back
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!cancelReason.trim()}
+              onClick={async () => {
+                if (!cancelTask) return
+                const cancelled = await runAction(() => onCancelTask(cancelTask.id, cancelReason))
+                if (cancelled) closeDialogs()
+              }}
+            >
+              Cancel Task
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
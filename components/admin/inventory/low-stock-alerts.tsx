@@ -3,34 +3,37 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import { AlertTriangle, Package, Plus } from "lucide-react"
+import { AlertTriangle, Check, Info, Package, Plus } from "lucide-react"
 import Link from "next/link"
-import type { LowStockAlert } from "@/lib/services/inventory.service"
+import type { StockAlert } from "@/lib/services/stock-alert.service"
 
 interface LowStockAlertsProps {
-  alerts: LowStockAlert[]
+  alerts: StockAlert[]
+  onAcknowledge?: (id: string) => Promise<unknown>
 }
 
-export function LowStockAlerts({ alerts }: LowStockAlertsProps) {
-  const getStatusColor = (status: string) => {
-    switch (status) {
+export function LowStockAlerts({ alerts, onAcknowledge }: LowStockAlertsProps) {
+  const getSeverityColor = (severity: string) => {
+    switch (severity) {
       case "critical":
         return "bg-red-100 text-red-800"
-      case "low":
-        return "bg-orange-100 text-orange-800"
       case "warning":
+        return "bg-orange-100 text-orange-800"
+      case "info":
         return "bg-yellow-100 text-yellow-800"
       default:
         return "bg-gray-100 text-gray-800"
     }
   }
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
+  const getSeverityIcon = (severity: string) => {
+    switch (severity) {
       case "critical":
         return <AlertTriangle className="h-4 w-4 text-red-600" />
-      case "low":
+      case "warning":
         return <AlertTriangle className="h-4 w-4 text-orange-600" />
+      case "info":
+        return <Info className="h-4 w-4 text-yellow-600" />
       default:
         return <Package className="h-4 w-4 text-yellow-600" />
     }
@@ -47,24 +50,38 @@ export function LowStockAlerts({ alerts }: LowStockAlertsProps) {
       <CardContent>
         <div className="space-y-4">
           {alerts.slice(0, 10).map((alert) => (
-            <div key={alert.product_id} className="flex items-center justify-between p-4 border rounded-lg">
+            <div key={alert.id} className="flex items-center justify-between p-4 border rounded-lg">
               <div className="flex items-center space-x-4">
-                {getStatusIcon(alert.status)}
+                {getSeverityIcon(alert.severity)}
                 <div>
                   <div className="font-medium">{alert.product_name}</div>
-                  <div className="text-sm text-muted-foreground">SKU: {alert.sku}</div>
+                  <div className="text-sm text-muted-foreground">
+                    SKU: {alert.sku}
+                    {alert.warehouse_name && ` · ${alert.warehouse_name}`}
+                  </div>
+                  <div className="text-xs text-muted-foreground">{alert.rule_name}</div>
                 </div>
               </div>
 
               <div className="flex items-center space-x-4">
                 <div className="text-right">
-                  <div className="text-sm font-medium">
-                    {alert.current_stock} / {alert.reorder_point}
+                  <div className="text-sm font-medium">{alert.current_stock}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {alert.days_of_cover !== null && alert.days_of_cover !== undefined
+                      ? `${alert.days_of_cover} days of cover`
+                      : "Available"}
                   </div>
-                  <div className="text-xs text-muted-foreground">Current / Reorder Point</div>
                 </div>
 
-                <Badge className={getStatusColor(alert.status)}>{alert.status}</Badge>
+                <Badge className={getSeverityColor(alert.severity)}>{alert.severity}</Badge>
+                {alert.status === "acknowledged" && <Badge variant="outline">acknowledged</Badge>}
+
+                {onAcknowledge && alert.status === "open" && (
+                  <Button size="sm" variant="ghost" onClick={() => onAcknowledge(alert.id)}>
+                    <Check className="h-4 w-4 mr-1" />
+                    Acknowledge
+                  </Button>
+                )}
 
                 <Link href={`/admin/inventory/adjustment?product=${alert.product_id}`}>
                   <Button size="sm" variant="outline">
@@ -0,0 +1,631 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { FileDown, Play, Plus, Tag, Trash2, Undo2 } from "lucide-react"
+import { formatCurrency, formatDate } from "@/lib/utils"
+import { downloadTable, type ExportFormat } from "@/lib/reports/table-export"
+import type { MarkdownScopeType, MarkdownStep } from "@/lib/inventory/markdown"
+import type {
+  BatchMarkdown,
+  MarkdownRecoveryLine,
+  MarkdownRuleData,
+  MarkdownRuleRecord,
+  MarkdownRunResult,
+} from "@/lib/services/markdown.service"
+
+interface NamedOption {
+  id: string
+  name: string
+  sku?: string
+}
+
+interface MarkdownSchedulesProps {
+  rules: MarkdownRuleRecord[]
+  markdowns: BatchMarkdown[]
+  recovery: {
+    from: string
+    to: string
+    lines: MarkdownRecoveryLine[]
+    totals: { units_sold: number; revenue: number; discount_given: number; cost: number; margin: number }
+  }
+  tab: "rules" | "active" | "recovery"
+  categories: NamedOption[]
+  brands: NamedOption[]
+  products: NamedOption[]
+  onCreateRule: (ruleData: MarkdownRuleData) => Promise<unknown>
+  onUpdateRule: (id: string, ruleData: Partial<MarkdownRuleData>) => Promise<unknown>
+  onDeleteRule: (id: string) => Promise<unknown>
+  onRunSchedule: () => Promise<MarkdownRunResult>
+  onRevertMarkdown: (id: string) => Promise<unknown>
+}
+
+const emptyRule: MarkdownRuleData = {
+  name: "",
+  description: "",
+  scope_type: "all",
+  scope_id: null,
+  steps: [
+    { days_before_expiry: 90, discount_percentage: 10 },
+    { days_before_expiry: 60, discount_percentage: 25 },
+    { days_before_expiry: 30, discount_percentage: 40 },
+  ],
+  min_margin_percentage: 0,
+  is_active: true,
+}
+
+export function MarkdownSchedules({
+  rules,
+  markdowns,
+  recovery,
+  tab,
+  categories,
+  brands,
+  products,
+  onCreateRule,
+  onUpdateRule,
+  onDeleteRule,
+  onRunSchedule,
+  onRevertMarkdown,
+}: MarkdownSchedulesProps) {
+  const router = useRouter()
+  const [showRuleDialog, setShowRuleDialog] = useState(false)
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null)
+  const [rule, setRule] = useState<MarkdownRuleData>(emptyRule)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [runResult, setRunResult] = useState<MarkdownRunResult | null>(null)
+  const [running, setRunning] = useState(false)
+  const [recoveryFrom, setRecoveryFrom] = useState(recovery.from)
+  const [recoveryTo, setRecoveryTo] = useState(recovery.to)
+
+  const scopeOptions: Record<Exclude<MarkdownScopeType, "all">, NamedOption[]> = {
+    category: categories,
+    brand: brands,
+    product: products,
+  }
+
+  const describeScope = (markdownRule: MarkdownRuleRecord) => {
+    if (markdownRule.scope_type === "all") return "All products"
+    const option = scopeOptions[markdownRule.scope_type].find((o) => o.id === markdownRule.scope_id)
+    return `${markdownRule.scope_type[0].toUpperCase()}${markdownRule.scope_type.slice(1)}: ${option?.name || "Unknown"}`
+  }
+
+  const describeSteps = (steps: MarkdownStep[]) =>
+    steps.map((step) => `${step.discount_percentage}% at ${step.days_before_expiry}d`).join(", ")
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setActionError(null)
+      await action()
+      return true
+    } catch (error) {
+      console.error("Error updating markdowns:", error)
+      setActionError(error instanceof Error ? error.message : "Markdown update failed")
+      return false
+    }
+  }
+
+  const openCreateDialog = () => {
+    setEditingRuleId(null)
+    setRule(emptyRule)
+    setActionError(null)
+    setShowRuleDialog(true)
+  }
+
+  const openEditDialog = (markdownRule: MarkdownRuleRecord) => {
+    setEditingRuleId(markdownRule.id)
+    setRule({
+      name: markdownRule.name,
+      description: markdownRule.description || "",
+      scope_type: markdownRule.scope_type,
+      scope_id: markdownRule.scope_id,
+      steps: markdownRule.steps,
+      min_margin_percentage: markdownRule.min_margin_percentage,
+      is_active: markdownRule.is_active,
+    })
+    setActionError(null)
+    setShowRuleDialog(true)
+  }
+
+  const updateStep = (index: number, changes: Partial<MarkdownStep>) => {
+    setRule({
+      ...rule,
+      steps: rule.steps.map((step, stepIndex) => (stepIndex === index ? { ...step, ...changes } : step)),
+    })
+  }
+
+  const handleSaveRule = async () => {
+    const saved = await runAction(() => (editingRuleId ? onUpdateRule(editingRuleId, rule) : onCreateRule(rule)))
+    if (saved) setShowRuleDialog(false)
+  }
+
+  const handleRunSchedule = async () => {
+    setRunning(true)
+    setRunResult(null)
+    await runAction(async () => setRunResult(await onRunSchedule()))
+    setRunning(false)
+  }
+
+  const exportRecovery = (format: ExportFormat) => {
+    downloadTable(
+      {
+        title: "Markdown Revenue Recovered",
+        subtitle: `${recovery.from} to ${recovery.to}`,
+        headers: ["Product", "Batch", "Markdown", "Step", "Units Sold", "Revenue", "Discount Given", "Cost", "Margin"],
+        rows: recovery.lines.map((line) => [
+          line.product_name,
+          line.batch_number,
+          line.rule_name,
+          `${line.discount_percentage}%${line.days_before_expiry != null ? ` at ${line.days_before_expiry}d` : ""}`,
+          line.units_sold,
+          line.revenue,
+          line.discount_given,
+          line.cost,
+          line.margin,
+        ]),
+      },
+      format,
+      `markdown-recovery-${recovery.from}-${recovery.to}`,
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Expiry Markdowns</h2>
+          <p className="text-muted-foreground">
+            Stepped discounts for batches nearing expiry; original batch prices are never changed
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleRunSchedule} disabled={running}>
+            <Play className="h-4 w-4 mr-2" />
+            {running ? "Running..." : "Run Schedule Now"}
+          </Button>
+          <Button onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Rule
+          </Button>
+        </div>
+      </div>
+
+      {actionError && !showRuleDialog && <p className="text-sm text-red-600">{actionError}</p>}
+      {runResult && (
+        <p className="text-sm text-muted-foreground">
+          {runResult.applied} markdowns applied, {runResult.reverted} reverted, {runResult.unchanged} unchanged
+        </p>
+      )}
+
+      <Tabs
+        defaultValue={tab}
+        onValueChange={(value: string) =>
+          router.push(value === "rules" ? "/admin/inventory/markdowns" : `/admin/inventory/markdowns?tab=${value}`)
+        }
+      >
+        <TabsList>
+          <TabsTrigger value="rules">Rules</TabsTrigger>
+          <TabsTrigger value="active">Live Markdowns ({markdowns.length})</TabsTrigger>
+          <TabsTrigger value="recovery">Revenue Recovered</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="rules">
+          <Card>
+            <CardHeader>
+              <CardTitle>Rules</CardTitle>
+              <CardDescription>
+                The most specific rule wins: product, then brand, then category, then all products
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rule</TableHead>
+                    <TableHead>Steps</TableHead>
+                    <TableHead>Scope</TableHead>
+                    <TableHead>Floor</TableHead>
+                    <TableHead>Active</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map((markdownRule) => (
+                    <TableRow key={markdownRule.id}>
+                      <TableCell>
+                        <div className="font-medium">{markdownRule.name}</div>
+                        {markdownRule.description && (
+                          <div className="text-sm text-muted-foreground">{markdownRule.description}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{describeSteps(markdownRule.steps)}</TableCell>
+                      <TableCell>{describeScope(markdownRule)}</TableCell>
+                      <TableCell>
+                        {markdownRule.min_margin_percentage > 0
+                          ? `Cost + ${markdownRule.min_margin_percentage}%`
+                          : "Cost"}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={markdownRule.is_active}
+                          onCheckedChange={(checked: boolean) =>
+                            runAction(() => onUpdateRule(markdownRule.id, { is_active: checked }))
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => openEditDialog(markdownRule)}>
+                            Edit
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => runAction(() => onDeleteRule(markdownRule.id))}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {rules.length === 0 && <div className="text-center py-8 text-muted-foreground">No markdown rules</div>}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="active">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Tag className="h-5 w-5" />
+                Live Markdowns
+              </CardTitle>
+              <CardDescription>The price each batch sells at until it moves step, sells out or expires</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Expiry</TableHead>
+                    <TableHead>Available</TableHead>
+                    <TableHead>Markdown</TableHead>
+                    <TableHead>Original</TableHead>
+                    <TableHead>Sells At</TableHead>
+                    <TableHead>Since</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {markdowns.map((markdown) => (
+                    <TableRow key={markdown.id}>
+                      <TableCell className="font-medium">{markdown.product_name}</TableCell>
+                      <TableCell>
+                        <code className="text-sm">{markdown.batch_number}</code>
+                      </TableCell>
+                      <TableCell>{formatDate(markdown.expiry_date)}</TableCell>
+                      <TableCell>{markdown.quantity_available}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Badge className="bg-orange-100 text-orange-800">{markdown.discount_percentage}% off</Badge>
+                          {markdown.source === "manual" ? (
+                            <Badge variant="outline">Manual</Badge>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">{markdown.rule_name}</span>
+                          )}
+                        </div>
+                        {markdown.floor_price != null && markdown.markdown_price <= markdown.floor_price && (
+                          <div className="text-xs text-muted-foreground">Held at the cost floor</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="line-through text-muted-foreground">
+                        {formatCurrency(markdown.original_price)}
+                      </TableCell>
+                      <TableCell className="font-medium">{formatCurrency(markdown.markdown_price)}</TableCell>
+                      <TableCell>
+                        {formatDate(markdown.starts_at)}
+                        {markdown.ends_at && (
+                          <div className="text-xs text-muted-foreground">until {formatDate(markdown.ends_at)}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Revert to original price"
+                          onClick={() => runAction(() => onRevertMarkdown(markdown.id))}
+                        >
+                          <Undo2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {markdowns.length === 0 && (
+                <div className="text-center py-8 text-muted-foreground">No batches are marked down</div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="recovery" className="space-y-4">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="recovery_from">From</Label>
+                  <Input
+                    id="recovery_from"
+                    type="date"
+                    value={recoveryFrom}
+                    onChange={(e) => setRecoveryFrom(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="recovery_to">To</Label>
+                  <Input
+                    id="recovery_to"
+                    type="date"
+                    value={recoveryTo}
+                    onChange={(e) => setRecoveryTo(e.target.value)}
+                  />
+                </div>
+                <Button
+                  onClick={() =>
+                    router.push(`/admin/inventory/markdowns?tab=recovery&from=${recoveryFrom}&to=${recoveryTo}`)
+                  }
+                >
+                  Show
+                </Button>
+                <div className="flex gap-2 ml-auto">
+                  {(["csv", "xlsx", "pdf"] as ExportFormat[]).map((format) => (
+                    <Button key={format} variant="outline" onClick={() => exportRecovery(format)}>
+                      <FileDown className="h-4 w-4 mr-2" />
+                      {format.toUpperCase()}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-4 gap-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Revenue Recovered</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-green-600">{formatCurrency(recovery.totals.revenue)}</div>
+                <div className="text-sm text-muted-foreground">{recovery.totals.units_sold} units sold</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Discount Given</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatCurrency(recovery.totals.discount_given)}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Cost of Units Sold</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatCurrency(recovery.totals.cost)}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Margin Over Cost</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatCurrency(recovery.totals.margin)}</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Batch</TableHead>
+                  <TableHead>Markdown</TableHead>
+                  <TableHead>Units Sold</TableHead>
+                  <TableHead>Revenue</TableHead>
+                  <TableHead>Discount Given</TableHead>
+                  <TableHead>Margin</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recovery.lines.map((line) => (
+                  <TableRow key={line.markdown_id}>
+                    <TableCell className="font-medium">{line.product_name}</TableCell>
+                    <TableCell>
+                      <code className="text-sm">{line.batch_number}</code>
+                    </TableCell>
+                    <TableCell>
+                      <div>{line.rule_name}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {line.discount_percentage}% off
+                        {line.days_before_expiry != null && ` from ${line.days_before_expiry} days`}
+                      </div>
+                    </TableCell>
+                    <TableCell>{line.units_sold}</TableCell>
+                    <TableCell>{formatCurrency(line.revenue)}</TableCell>
+                    <TableCell>{formatCurrency(line.discount_given)}</TableCell>
+                    <TableCell className={line.margin < 0 ? "text-red-600" : ""}>
+                      {formatCurrency(line.margin)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {recovery.lines.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      No marked-down sales in this period
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      {/* Rule Dialog */}
+      <Dialog open={showRuleDialog} onOpenChange={setShowRuleDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingRuleId ? "Edit Markdown Rule" : "New Markdown Rule"}</DialogTitle>
+            <DialogDescription>
+              Each step applies from that many days before expiry; prices never drop below the floor
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name *</Label>
+              <Input
+                id="rule-name"
+                value={rule.name}
+                onChange={(e) => setRule({ ...rule, name: e.target.value })}
+                placeholder="e.g. Tinctures clearance"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-description">Description</Label>
+              <Input
+                id="rule-description"
+                value={rule.description || ""}
+                onChange={(e) => setRule({ ...rule, description: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Steps</Label>
+              {rule.steps.map((step, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={99}
+                    className="w-24"
+                    value={step.discount_percentage}
+                    onChange={(e) => updateStep(index, { discount_percentage: Number.parseFloat(e.target.value) || 0 })}
+                  />
+                  <span className="text-sm">% off from</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    className="w-24"
+                    value={step.days_before_expiry}
+                    onChange={(e) => updateStep(index, { days_before_expiry: Number.parseInt(e.target.value) || 0 })}
+                  />
+                  <span className="text-sm">days before expiry</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setRule({ ...rule, steps: rule.steps.filter((_, stepIndex) => stepIndex !== index) })
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setRule({ ...rule, steps: [...rule.steps, { days_before_expiry: 14, discount_percentage: 50 }] })
+                }
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Step
+              </Button>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Applies to</Label>
+                <Select
+                  value={rule.scope_type}
+                  onValueChange={(value: string) =>
+                    setRule({ ...rule, scope_type: value as MarkdownScopeType, scope_id: null })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All products</SelectItem>
+                    <SelectItem value="category">Category</SelectItem>
+                    <SelectItem value="brand">Brand</SelectItem>
+                    <SelectItem value="product">Single SKU</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {rule.scope_type !== "all" && (
+                <div className="space-y-2">
+                  <Label>{rule.scope_type === "product" ? "SKU" : "Select"} *</Label>
+                  <Select
+                    value={rule.scope_id || ""}
+                    onValueChange={(value: string) => setRule({ ...rule, scope_id: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder={`Select ${rule.scope_type}`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {scopeOptions[rule.scope_type].map((option) => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.name}
+                          {option.sku && ` (${option.sku})`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="rule-margin">Minimum margin over cost (%)</Label>
+                <Input
+                  id="rule-margin"
+                  type="number"
+                  min={0}
+                  value={rule.min_margin_percentage}
+                  onChange={(e) => setRule({ ...rule, min_margin_percentage: Number.parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            {actionError && <p className="text-sm text-red-600">{actionError}</p>}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setShowRuleDialog(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSaveRule}
+                disabled={!rule.name || rule.steps.length === 0 || (rule.scope_type !== "all" && !rule.scope_id)}
+              >
+                Save Rule
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
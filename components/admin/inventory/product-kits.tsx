@@ -0,0 +1,516 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Boxes, Hammer, Layers, Package, Plus, Trash2 } from "lucide-react"
+import { formatCurrency, formatDate } from "@/lib/utils"
+import type { KitComponent, KitType } from "@/lib/inventory/kits"
+import type { AssembleKitsData, CreateKitData, KitAssembly, ProductKit } from "@/lib/services/kit.service"
+import type { Warehouse } from "@/lib/services/inventory.service"
+
+interface KitProductOption {
+  id: string
+  name: string
+  sku?: string
+}
+
+interface ProductKitsProps {
+  kits: ProductKit[]
+  assemblies: KitAssembly[]
+  products: KitProductOption[]
+  warehouses: Warehouse[]
+  onCreateKit: (kitData: CreateKitData) => Promise<unknown>
+  onUpdateComponents: (kitId: string, components: KitComponent[]) => Promise<unknown>
+  onSetActive: (kitId: string, isActive: boolean) => Promise<unknown>
+  onAssemble: (assemblyData: AssembleKitsData) => Promise<unknown>
+}
+
+const EMPTY_KIT_FORM = {
+  product_id: "",
+  kit_type: "kit" as KitType,
+  notes: "",
+  components: [{ product_id: "", quantity: 1 }] as KitComponent[],
+}
+
+export function ProductKits({
+  kits,
+  assemblies,
+  products,
+  warehouses,
+  onCreateKit,
+  onUpdateComponents,
+  onSetActive,
+  onAssemble,
+}: ProductKitsProps) {
+  const router = useRouter()
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [showKitDialog, setShowKitDialog] = useState(false)
+  const [editKit, setEditKit] = useState<ProductKit | null>(null)
+  const [kitForm, setKitForm] = useState(EMPTY_KIT_FORM)
+  const [assembleKit, setAssembleKit] = useState<ProductKit | null>(null)
+  const [assembly, setAssembly] = useState({ quantity: 1, warehouse_id: "", notes: "" })
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setActionError(null)
+      await action()
+      router.refresh()
+      return true
+    } catch (error) {
+      console.error("Error updating kit:", error)
+      setActionError(error instanceof Error ? error.message : "Kit update failed")
+      return false
+    }
+  }
+
+  const closeDialogs = () => {
+    setShowKitDialog(false)
+    setEditKit(null)
+    setKitForm(EMPTY_KIT_FORM)
+    setAssembleKit(null)
+    setAssembly({ quantity: 1, warehouse_id: "", notes: "" })
+  }
+
+  const openEdit = (kit: ProductKit) => {
+    setActionError(null)
+    setEditKit(kit)
+    setKitForm({
+      product_id: kit.product_id,
+      kit_type: kit.kit_type,
+      notes: kit.notes || "",
+      components: kit.components.map((component) => ({
+        product_id: component.product_id,
+        quantity: component.quantity,
+      })),
+    })
+    setShowKitDialog(true)
+  }
+
+  const updateComponent = (index: number, changes: Partial<KitComponent>) => {
+    setKitForm({
+      ...kitForm,
+      components: kitForm.components.map((component, i) => (i === index ? { ...component, ...changes } : component)),
+    })
+  }
+
+  const saveKit = async () => {
+    const components = kitForm.components.filter((component) => component.product_id)
+    const saved = await runAction(() =>
+      editKit
+        ? onUpdateComponents(editKit.id, components)
+        : onCreateKit({
+            product_id: kitForm.product_id,
+            kit_type: kitForm.kit_type,
+            notes: kitForm.notes || undefined,
+            components,
+          }),
+    )
+    if (saved) closeDialogs()
+  }
+
+  const kitProductIds = new Set(kits.map((kit) => kit.product_id))
+  const productName = (productId: string | null) =>
+    products.find((product) => product.id === productId)?.name || "Unknown Product"
+  const activeKits = kits.filter((kit) => kit.is_active)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Kits & Bundles</h2>
+          <p className="text-muted-foreground">
+            Remedy kits sold as one product, from assembled stock first and then built from their components
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/admin/inventory/batches">
+            <Button variant="outline">
+              <Layers className="h-4 w-4 mr-2" />
+              Batches
+            </Button>
+          </Link>
+          <Button
+            onClick={() => {
+              setActionError(null)
+              setShowKitDialog(true)
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Kit
+          </Button>
+        </div>
+      </div>
+
+      {actionError && <p className="text-sm text-red-600">{actionError}</p>}
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Active Kits</CardTitle>
+            <Boxes className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{activeKits.length}</div>
+            <p className="text-xs text-muted-foreground">{kits.length - activeKits.length} inactive</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Assembled</CardTitle>
+            <Package className="h-4 w-4 text-blue-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-blue-600">
+              {activeKits.reduce((sum, kit) => sum + kit.assembled_available, 0)}
+            </div>
+            <p className="text-xs text-muted-foreground">Kits built and ready to ship</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Unavailable</CardTitle>
+            <Package className="h-4 w-4 text-red-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">
+              {activeKits.filter((kit) => kit.available === 0).length}
+            </div>
+            <p className="text-xs text-muted-foreground">Active kits that can be neither shipped nor built</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Kits</CardTitle>
+          <CardDescription>
+            Available is the assembled kits plus as many as the components in stock would make
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {kits.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">No kits defined</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Kit</TableHead>
+                  <TableHead>Components</TableHead>
+                  <TableHead className="text-right">Assembled</TableHead>
+                  <TableHead className="text-right">Buildable</TableHead>
+                  <TableHead className="text-right">Available</TableHead>
+                  <TableHead>Limited By</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {kits.map((kit) => (
+                  <TableRow key={kit.id} className={kit.is_active ? undefined : "opacity-60"}>
+                    <TableCell>
+                      <div className="font-medium">{kit.product_name}</div>
+                      <div className="text-xs text-muted-foreground">{kit.sku}</div>
+                      <div className="flex gap-1 mt-1">
+                        <Badge variant="outline">{kit.kit_type === "bundle" ? "Bundle" : "Kit"}</Badge>
+                        {!kit.is_active && <Badge className="bg-gray-100 text-gray-800">Inactive</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {kit.components.map((component) => (
+                        <div key={component.product_id} className="text-sm">
+                          {component.quantity} x {component.product_name}
+                          <span className="text-xs text-muted-foreground"> ({component.available} in stock)</span>
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-right">{kit.assembled_available}</TableCell>
+                    <TableCell className="text-right">{kit.buildable}</TableCell>
+                    <TableCell className="text-right font-medium">{kit.available}</TableCell>
+                    <TableCell>
+                      {kit.limiting_product_id
+                        ? kit.components.find((component) => component.product_id === kit.limiting_product_id)
+                            ?.product_name || productName(kit.limiting_product_id)
+                        : "-"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => openEdit(kit)}>
+                          Components
+                        </Button>
+                        {kit.is_active && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={kit.buildable === 0}
+                            onClick={() => {
+                              setActionError(null)
+                              setAssembleKit(kit)
+                            }}
+                          >
+                            <Hammer className="h-4 w-4 mr-1" />
+                            Assemble
+                          </Button>
+                        )}
+                        <Button size="sm" variant="ghost" onClick={() => runAction(() => onSetActive(kit.id, !kit.is_active))}>
+                          {kit.is_active ? "Deactivate" : "Activate"}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Assemblies</CardTitle>
+          <CardDescription>Each assembly takes its components out of stock and adds a batch of the kit</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {assemblies.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">No kits assembled yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Assembly</TableHead>
+                  <TableHead>Kit</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Unit Cost</TableHead>
+                  <TableHead>Expiry</TableHead>
+                  <TableHead>Assembled</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {assemblies.map((assembled) => (
+                  <TableRow key={assembled.id}>
+                    <TableCell className="font-medium">{assembled.assembly_number}</TableCell>
+                    <TableCell>{kits.find((kit) => kit.id === assembled.kit_id)?.product_name || "-"}</TableCell>
+                    <TableCell className="text-right">{assembled.quantity}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(Number(assembled.unit_cost))}</TableCell>
+                    <TableCell>{assembled.expiry_date ? formatDate(assembled.expiry_date) : "-"}</TableCell>
+                    <TableCell>{formatDate(assembled.created_at)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showKitDialog} onOpenChange={(open: boolean) => !open && closeDialogs()}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editKit ? "Kit Components" : "New Kit"}</DialogTitle>
+            <DialogDescription>
+              {editKit
+                ? `Units of each product that go into one ${editKit.product_name}`
+                : "Choose the product sold as the kit and the products it is made of"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {!editKit && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Kit product</Label>
+                  <Select
+                    value={kitForm.product_id}
+                    onValueChange={(value: string) => setKitForm({ ...kitForm, product_id: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select product" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {products
+                        .filter((product) => !kitProductIds.has(product.id))
+                        .map((product) => (
+                          <SelectItem key={product.id} value={product.id}>
+                            {product.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select
+                    value={kitForm.kit_type}
+                    onValueChange={(value: string) => setKitForm({ ...kitForm, kit_type: value as KitType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="kit">Kit</SelectItem>
+                      <SelectItem value="bundle">Bundle</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Components</Label>
+              {kitForm.components.map((component, index) => (
+                <div key={index} className="flex gap-2">
+                  <div className="flex-1">
+                    <Select
+                      value={component.product_id}
+                      onValueChange={(value: string) => updateComponent(index, { product_id: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select component" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {products
+                          .filter((product) => product.id !== kitForm.product_id)
+                          .map((product) => (
+                            <SelectItem key={product.id} value={product.id}>
+                              {product.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-24"
+                    value={component.quantity}
+                    onChange={(e) => updateComponent(index, { quantity: Number.parseInt(e.target.value) || 0 })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={kitForm.components.length === 1}
+                    onClick={() =>
+                      setKitForm({ ...kitForm, components: kitForm.components.filter((_, i) => i !== index) })
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setKitForm({ ...kitForm, components: [...kitForm.components, { product_id: "", quantity: 1 }] })
+                }
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Component
+              </Button>
+            </div>
+            {!editKit && (
+              <div className="space-y-2">
+                <Label htmlFor="kit_notes">Notes</Label>
+                <Textarea
+                  id="kit_notes"
+                  value={kitForm.notes}
+                  onChange={(e) => setKitForm({ ...kitForm, notes: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={closeDialogs}>
+              Cancel
+            </Button>
+            <Button disabled={!editKit && !kitForm.product_id} onClick={saveKit}>
+              {editKit ? "Save Components" : "Create Kit"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!assembleKit} onOpenChange={(open: boolean) => !open && closeDialogs()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Assemble Kits</DialogTitle>
+            <DialogDescription>
+              Build {assembleKit?.product_name} ahead of time. Components are taken from their earliest-expiring
+              batches; up to {assembleKit?.buildable} can be built from stock.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="assembly_quantity">Kits to build</Label>
+                <Input
+                  id="assembly_quantity"
+                  type="number"
+                  min={1}
+                  max={assembleKit?.buildable}
+                  value={assembly.quantity}
+                  onChange={(e) => setAssembly({ ...assembly, quantity: Number.parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Warehouse</Label>
+                <Select
+                  value={assembly.warehouse_id}
+                  onValueChange={(value: string) => setAssembly({ ...assembly, warehouse_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Default warehouse" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {warehouses.map((warehouse) => (
+                      <SelectItem key={warehouse.id} value={warehouse.id}>
+                        {warehouse.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="assembly_notes">Notes</Label>
+              <Textarea
+                id="assembly_notes"
+                value={assembly.notes}
+                onChange={(e) => setAssembly({ ...assembly, notes: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={closeDialogs}>
+              Cancel
+            </Button>
+            <Button
+              disabled={assembly.quantity <= 0}
+              onClick={async () => {
+                if (!assembleKit) return
+                const assembled = await runAction(() =>
+                  onAssemble({
+                    kit_id: assembleKit.id,
+                    quantity: assembly.quantity,
+                    warehouse_id: assembly.warehouse_id || undefined,
+                    notes: assembly.notes || undefined,
+                  }),
+                )
+                if (assembled) closeDialogs()
+              }}
+            >
+              Assemble
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
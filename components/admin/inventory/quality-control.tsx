@@ -0,0 +1,471 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ClipboardCheck, Truck, Undo2 } from "lucide-react"
+import { formatCurrency, formatDate } from "@/lib/utils"
+import type {
+  BatchInspection,
+  InspectionSignOff,
+  QcChecklist,
+  SupplierReturn,
+  SupplierReturnStatus,
+} from "@/lib/services/quality-control.service"
+
+interface QualityControlProps {
+  pendingInspections: BatchInspection[]
+  recentInspections: BatchInspection[]
+  supplierReturns: SupplierReturn[]
+  onSignOff: (id: string, signOff: InspectionSignOff) => Promise<unknown>
+  onUpdateSupplierReturn: (
+    id: string,
+    status: Exclude<SupplierReturnStatus, "queued">,
+    debitNoteNumber?: string,
+  ) => Promise<unknown>
+}
+
+const CHECKLIST_ITEMS: { key: Exclude<keyof QcChecklist, "sample_count">; label: string }[] = [
+  { key: "label_ok", label: "Labels match the product and batch" },
+  { key: "seal_ok", label: "Seals intact" },
+  { key: "expiry_ok", label: "Expiry date acceptable" },
+  { key: "breakage_found", label: "Breakage or leakage found" },
+]
+
+const emptySignOff = (quantity: number): InspectionSignOff => ({
+  label_ok: false,
+  seal_ok: false,
+  expiry_ok: false,
+  breakage_found: false,
+  sample_count: 0,
+  quantity_accepted: quantity,
+  rejection_reason: "",
+  notes: "",
+})
+
+export function QualityControl({
+  pendingInspections,
+  recentInspections,
+  supplierReturns,
+  onSignOff,
+  onUpdateSupplierReturn,
+}: QualityControlProps) {
+  const [inspecting, setInspecting] = useState<BatchInspection | null>(null)
+  const [signOff, setSignOff] = useState<InspectionSignOff>(emptySignOff(0))
+  const [signOffError, setSignOffError] = useState<string | null>(null)
+  const [dispatching, setDispatching] = useState<SupplierReturn | null>(null)
+  const [debitNoteNumber, setDebitNoteNumber] = useState("")
+
+  const rejected = inspecting ? inspecting.quantity_received - signOff.quantity_accepted : 0
+  const checklistPassed = signOff.label_ok && signOff.seal_ok && signOff.expiry_ok && !signOff.breakage_found
+
+  const getInspectionBadge = (status: BatchInspection["status"]) => {
+    switch (status) {
+      case "passed":
+        return <Badge className="bg-green-100 text-green-800">Passed</Badge>
+      case "partial":
+        return <Badge className="bg-orange-100 text-orange-800">Partly accepted</Badge>
+      case "failed":
+        return <Badge variant="destructive">Rejected</Badge>
+      default:
+        return <Badge variant="secondary">Pending</Badge>
+    }
+  }
+
+  const getReturnBadge = (status: SupplierReturnStatus) => {
+    switch (status) {
+      case "queued":
+        return <Badge className="bg-orange-100 text-orange-800">Queued</Badge>
+      case "dispatched":
+        return <Badge className="bg-blue-100 text-blue-800">Dispatched</Badge>
+      case "credited":
+        return <Badge className="bg-green-100 text-green-800">Credited</Badge>
+      default:
+        return <Badge variant="secondary">Cancelled</Badge>
+    }
+  }
+
+  const openInspection = (inspection: BatchInspection) => {
+    setInspecting(inspection)
+    setSignOff(emptySignOff(inspection.quantity_received))
+    setSignOffError(null)
+  }
+
+  const handleSignOff = async () => {
+    if (!inspecting) return
+    try {
+      await onSignOff(inspecting.id, signOff)
+      setInspecting(null)
+    } catch (error) {
+      console.error("Error signing off inspection:", error)
+      setSignOffError(error instanceof Error ? error.message : "Sign-off failed")
+    }
+  }
+
+  const handleReturnStatus = async (
+    id: string,
+    status: Exclude<SupplierReturnStatus, "queued">,
+    debitNote?: string,
+  ) => {
+    try {
+      await onUpdateSupplierReturn(id, status, debitNote)
+      setDispatching(null)
+      setDebitNoteNumber("")
+    } catch (error) {
+      console.error("Error updating supplier return:", error)
+    }
+  }
+
+  const openReturns = supplierReturns.filter((supplierReturn) => supplierReturn.status === "queued")
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-bold">Quality Control</h2>
+        <p className="text-muted-foreground">Received batches stay in quarantine until an inspector signs them off</p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Awaiting Inspection</CardTitle>
+            <ClipboardCheck className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-orange-600">{pendingInspections.length}</div>
+            <div className="text-sm text-muted-foreground">
+              {pendingInspections.reduce((sum, inspection) => sum + inspection.quantity_received, 0)} units held
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Supplier Returns Queued</CardTitle>
+            <Undo2 className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{openReturns.length}</div>
+            <div className="text-sm text-muted-foreground">
+              {formatCurrency(
+                openReturns.reduce(
+                  (sum, supplierReturn) => sum + supplierReturn.quantity * (supplierReturn.unit_cost || 0),
+                  0,
+                ),
+              )}{" "}
+              to recover
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Awaiting Credit</CardTitle>
+            <Truck className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {supplierReturns.filter((supplierReturn) => supplierReturn.status === "dispatched").length}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="pending">
+        <TabsList>
+          <TabsTrigger value="pending">Pending ({pendingInspections.length})</TabsTrigger>
+          <TabsTrigger value="history">Signed Off</TabsTrigger>
+          <TabsTrigger value="returns">Supplier Returns</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="pending">
+          <Card>
+            <CardHeader>
+              <CardTitle>Pending Inspections</CardTitle>
+              <CardDescription>Oldest receipts first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Batch</TableHead>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead>Expiry</TableHead>
+                      <TableHead>Received</TableHead>
+                      <TableHead>Received On</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pendingInspections.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center text-muted-foreground">
+                          Nothing waiting for inspection
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {pendingInspections.map((inspection) => (
+                      <TableRow key={inspection.id}>
+                        <TableCell className="font-medium">{inspection.batch_number}</TableCell>
+                        <TableCell>{inspection.product_name}</TableCell>
+                        <TableCell>{inspection.supplier_name}</TableCell>
+                        <TableCell>{formatDate(inspection.expiry_date)}</TableCell>
+                        <TableCell>{inspection.quantity_received}</TableCell>
+                        <TableCell>{formatDate(inspection.created_at)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button size="sm" onClick={() => openInspection(inspection)}>
+                            <ClipboardCheck className="h-4 w-4 mr-1" />
+                            Inspect
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="history">
+          <Card>
+            <CardHeader>
+              <CardTitle>Signed-off Inspections</CardTitle>
+              <CardDescription>Most recent first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Batch</TableHead>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead>Accepted</TableHead>
+                      <TableHead>Rejected</TableHead>
+                      <TableHead>Samples</TableHead>
+                      <TableHead>Signed Off</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {recentInspections.map((inspection) => (
+                      <TableRow key={inspection.id}>
+                        <TableCell className="font-medium">{inspection.batch_number}</TableCell>
+                        <TableCell>{inspection.product_name}</TableCell>
+                        <TableCell>
+                          {getInspectionBadge(inspection.status)}
+                          {inspection.rejection_reason && (
+                            <div className="text-sm text-muted-foreground">{inspection.rejection_reason}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{inspection.quantity_accepted}</TableCell>
+                        <TableCell>{inspection.quantity_rejected}</TableCell>
+                        <TableCell>{inspection.sample_count ?? "-"}</TableCell>
+                        <TableCell>{inspection.signed_off_at && formatDate(inspection.signed_off_at)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="returns">
+          <Card>
+            <CardHeader>
+              <CardTitle>Supplier Return Queue</CardTitle>
+              <CardDescription>Units rejected at inspection, held until the supplier takes them back</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead>Batch</TableHead>
+                      <TableHead>Quantity</TableHead>
+                      <TableHead>Value</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {supplierReturns.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center text-muted-foreground">
+                          No supplier returns
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {supplierReturns.map((supplierReturn) => (
+                      <TableRow key={supplierReturn.id}>
+                        <TableCell className="font-medium">{supplierReturn.supplier_name}</TableCell>
+                        <TableCell>
+                          <div>{supplierReturn.batch_number}</div>
+                          <div className="text-sm text-muted-foreground">{supplierReturn.product_name}</div>
+                        </TableCell>
+                        <TableCell>{supplierReturn.quantity}</TableCell>
+                        <TableCell>
+                          {formatCurrency(supplierReturn.quantity * (supplierReturn.unit_cost || 0))}
+                        </TableCell>
+                        <TableCell className="text-sm">{supplierReturn.reason}</TableCell>
+                        <TableCell>
+                          {getReturnBadge(supplierReturn.status)}
+                          {supplierReturn.debit_note_number && (
+                            <div className="text-sm text-muted-foreground">{supplierReturn.debit_note_number}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {supplierReturn.status === "queued" && (
+                            <Button variant="ghost" size="sm" onClick={() => setDispatching(supplierReturn)}>
+                              <Truck className="h-4 w-4 mr-1" />
+                              Dispatch
+                            </Button>
+                          )}
+                          {supplierReturn.status === "dispatched" && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleReturnStatus(supplierReturn.id, "credited")}
+                            >
+                              Mark Credited
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Inspection sign-off */}
+      <Dialog open={!!inspecting} onOpenChange={(open: boolean) => !open && setInspecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Inspect Batch {inspecting?.batch_number}</DialogTitle>
+            <DialogDescription>
+              {inspecting?.product_name} · {inspecting?.quantity_received} units from {inspecting?.supplier_name}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {CHECKLIST_ITEMS.map((item) => (
+                <div key={item.key} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`qc-${item.key}`}
+                    checked={signOff[item.key]}
+                    onCheckedChange={(checked: boolean) => setSignOff({ ...signOff, [item.key]: checked })}
+                  />
+                  <Label htmlFor={`qc-${item.key}`} className="font-normal">
+                    {item.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sample_count">Units sampled</Label>
+                <Input
+                  id="sample_count"
+                  type="number"
+                  min={0}
+                  value={signOff.sample_count}
+                  onChange={(e) => setSignOff({ ...signOff, sample_count: Number.parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quantity_accepted">Units accepted</Label>
+                <Input
+                  id="quantity_accepted"
+                  type="number"
+                  min={0}
+                  max={inspecting?.quantity_received}
+                  value={signOff.quantity_accepted}
+                  onChange={(e) => setSignOff({ ...signOff, quantity_accepted: Number.parseInt(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            {rejected > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="rejection_reason">Reason for rejecting {rejected} units *</Label>
+                <Input
+                  id="rejection_reason"
+                  value={signOff.rejection_reason}
+                  onChange={(e) => setSignOff({ ...signOff, rejection_reason: e.target.value })}
+                  placeholder="e.g., Broken seals on 2 cartons"
+                />
+              </div>
+            )}
+            {!checklistPassed && rejected === 0 && (
+              <p className="text-sm text-orange-600">The checklist has failures but every unit is being accepted</p>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="qc_notes">Notes</Label>
+              <Textarea
+                id="qc_notes"
+                value={signOff.notes}
+                onChange={(e) => setSignOff({ ...signOff, notes: e.target.value })}
+              />
+            </div>
+            {signOffError && <p className="text-sm text-red-600">{signOffError}</p>}
+          </div>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={() => setInspecting(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSignOff} disabled={rejected > 0 && !signOff.rejection_reason?.trim()}>
+              Sign Off
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Supplier return dispatch */}
+      <Dialog open={!!dispatching} onOpenChange={(open: boolean) => !open && setDispatching(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Dispatch to {dispatching?.supplier_name}</DialogTitle>
+            <DialogDescription>
+              {dispatching?.quantity} units of batch {dispatching?.batch_number}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="debit_note_number">Debit note number</Label>
+            <Input
+              id="debit_note_number"
+              value={debitNoteNumber}
+              onChange={(e) => setDebitNoteNumber(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-between gap-2 mt-4">
+            <Button variant="ghost" onClick={() => dispatching && handleReturnStatus(dispatching.id, "cancelled")}>
+              Cancel Return
+            </Button>
+            <Button
+              onClick={() =>
+                dispatching && handleReturnStatus(dispatching.id, "dispatched", debitNoteNumber || undefined)
+              }
+            >
+              Mark Dispatched
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
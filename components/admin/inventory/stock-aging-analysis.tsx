@@ -1,13 +1,24 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import Link from "next/link"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from "recharts"
-import { TrendingDown, AlertTriangle, Clock, DollarSign, Package, Filter, Download, RefreshCw } from "lucide-react"
+import {
+  TrendingDown,
+  AlertTriangle,
+  Clock,
+  DollarSign,
+  Package,
+  Filter,
+  Download,
+  RefreshCw,
+  ClipboardList,
+} from "lucide-react"
 import { formatCurrency, formatDate } from "@/lib/utils"
 
 interface StockAgingItem {
@@ -34,7 +45,7 @@ interface StockAgingItem {
 interface StockAgingAnalysisProps {
   stockAgingData: StockAgingItem[]
   onRefreshAnalysis: () => Promise<void>
-  onCreateDiscountCampaign: (items: string[], discountPercentage: number) => Promise<void>
+  onCreateDiscountCampaign: (items: string[], discountPercentage: number) => Promise<unknown>
   onMarkAsDeadStock: (itemIds: string[]) => Promise<void>
 }
 
@@ -141,6 +152,12 @@ export function StockAgingAnalysis({
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh Analysis
           </Button>
+          <Link href="/admin/inventory/liquidation">
+            <Button variant="outline">
+              <ClipboardList className="h-4 w-4 mr-2" />
+              Liquidation Planner
+            </Button>
+          </Link>
           <Button variant="outline">
             <Download className="h-4 w-4 mr-2" />
             Export Report
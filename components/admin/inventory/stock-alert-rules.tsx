@@ -0,0 +1,467 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Bell, Check, CheckCircle, Plus, Trash2 } from "lucide-react"
+import { formatDate } from "@/lib/utils"
+import type { Warehouse } from "@/lib/services/inventory.service"
+import type {
+  StockAlert,
+  StockAlertRule,
+  StockAlertRuleData,
+  StockAlertStatus,
+} from "@/lib/services/stock-alert.service"
+
+interface NamedOption {
+  id: string
+  name: string
+  sku?: string
+}
+
+interface StockAlertRulesProps {
+  rules: StockAlertRule[]
+  alerts: StockAlert[]
+  status: StockAlertStatus | "active"
+  warehouses: Warehouse[]
+  categories: NamedOption[]
+  brands: NamedOption[]
+  products: NamedOption[]
+  onCreateRule: (ruleData: StockAlertRuleData) => Promise<unknown>
+  onUpdateRule: (id: string, ruleData: Partial<StockAlertRuleData>) => Promise<unknown>
+  onDeleteRule: (id: string) => Promise<unknown>
+  onAcknowledge: (id: string) => Promise<unknown>
+  onResolve: (id: string) => Promise<unknown>
+}
+
+const emptyRule: StockAlertRuleData = {
+  name: "",
+  description: "",
+  rule_type: "days_of_cover",
+  threshold: 7,
+  scope_type: "all",
+  scope_id: null,
+  severity: "warning",
+  is_active: true,
+}
+
+const RULE_TYPE_LABELS: Record<StockAlertRule["rule_type"], string> = {
+  days_of_cover: "Days of cover",
+  quantity: "Quantity",
+  percent_of_max: "% of max stock",
+}
+
+export function StockAlertRules({
+  rules,
+  alerts,
+  status,
+  warehouses,
+  categories,
+  brands,
+  products,
+  onCreateRule,
+  onUpdateRule,
+  onDeleteRule,
+  onAcknowledge,
+  onResolve,
+}: StockAlertRulesProps) {
+  const router = useRouter()
+  const [showRuleDialog, setShowRuleDialog] = useState(false)
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null)
+  const [rule, setRule] = useState<StockAlertRuleData>(emptyRule)
+
+  const scopeOptions: Record<Exclude<StockAlertRule["scope_type"], "all">, NamedOption[]> = {
+    category: categories,
+    brand: brands,
+    warehouse: warehouses,
+    product: products,
+  }
+
+  const describeScope = (alertRule: StockAlertRule) => {
+    if (alertRule.scope_type === "all") return "All products"
+    const option = scopeOptions[alertRule.scope_type].find((o) => o.id === alertRule.scope_id)
+    return `${alertRule.scope_type[0].toUpperCase()}${alertRule.scope_type.slice(1)}: ${option?.name || "Unknown"}`
+  }
+
+  const describeCondition = (alertRule: Pick<StockAlertRule, "rule_type" | "threshold">) => {
+    switch (alertRule.rule_type) {
+      case "days_of_cover":
+        return `≤ ${alertRule.threshold} days of cover`
+      case "percent_of_max":
+        return `≤ ${alertRule.threshold}% of max stock`
+      default:
+        return `≤ ${alertRule.threshold} units`
+    }
+  }
+
+  const getSeverityBadge = (severity: string) => {
+    switch (severity) {
+      case "critical":
+        return <Badge className="bg-red-100 text-red-800">Critical</Badge>
+      case "warning":
+        return <Badge className="bg-orange-100 text-orange-800">Warning</Badge>
+      default:
+        return <Badge className="bg-yellow-100 text-yellow-800">Info</Badge>
+    }
+  }
+
+  const getStatusBadge = (alertStatus: string) => {
+    switch (alertStatus) {
+      case "open":
+        return <Badge variant="destructive">Open</Badge>
+      case "acknowledged":
+        return <Badge className="bg-blue-100 text-blue-800">Acknowledged</Badge>
+      default:
+        return <Badge variant="secondary">Resolved</Badge>
+    }
+  }
+
+  const openCreateDialog = () => {
+    setEditingRuleId(null)
+    setRule(emptyRule)
+    setShowRuleDialog(true)
+  }
+
+  const openEditDialog = (alertRule: StockAlertRule) => {
+    setEditingRuleId(alertRule.id)
+    setRule({
+      name: alertRule.name,
+      description: alertRule.description || "",
+      rule_type: alertRule.rule_type,
+      threshold: alertRule.threshold,
+      scope_type: alertRule.scope_type,
+      scope_id: alertRule.scope_id,
+      severity: alertRule.severity,
+      is_active: alertRule.is_active,
+    })
+    setShowRuleDialog(true)
+  }
+
+  const handleSaveRule = async () => {
+    try {
+      if (editingRuleId) {
+        await onUpdateRule(editingRuleId, rule)
+      } else {
+        await onCreateRule(rule)
+      }
+      setShowRuleDialog(false)
+    } catch (error) {
+      console.error("Error saving stock alert rule:", error)
+    }
+  }
+
+  const handleToggleRule = async (id: string, isActive: boolean) => {
+    try {
+      await onUpdateRule(id, { is_active: isActive })
+    } catch (error) {
+      console.error("Error updating stock alert rule:", error)
+    }
+  }
+
+  const handleDeleteRule = async (id: string) => {
+    try {
+      await onDeleteRule(id)
+    } catch (error) {
+      console.error("Error deleting stock alert rule:", error)
+    }
+  }
+
+  const handleAlertAction = async (action: (id: string) => Promise<unknown>, id: string) => {
+    try {
+      await action(id)
+    } catch (error) {
+      console.error("Error updating stock alert:", error)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Stock Alerts</h2>
+          <p className="text-muted-foreground">Rules are checked on every stock change</p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Rule
+        </Button>
+      </div>
+
+      {/* Rules */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Rules</CardTitle>
+          <CardDescription>Each matching rule raises its own alert per product and location</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rule</TableHead>
+                <TableHead>Condition</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead>Severity</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((alertRule) => (
+                <TableRow key={alertRule.id}>
+                  <TableCell>
+                    <div className="font-medium">{alertRule.name}</div>
+                    {alertRule.description && (
+                      <div className="text-sm text-muted-foreground">{alertRule.description}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{describeCondition(alertRule)}</TableCell>
+                  <TableCell>{describeScope(alertRule)}</TableCell>
+                  <TableCell>{getSeverityBadge(alertRule.severity)}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={alertRule.is_active}
+                      onCheckedChange={(checked: boolean) => handleToggleRule(alertRule.id, checked)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => openEditDialog(alertRule)}>
+                        Edit
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteRule(alertRule.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {rules.length === 0 && <div className="text-center py-8 text-muted-foreground">No alert rules</div>}
+        </CardContent>
+      </Card>
+
+      {/* Alerts */}
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Bell className="h-5 w-5" />
+                Alerts ({alerts.length})
+              </CardTitle>
+              <CardDescription>Resolved automatically once stock is back above the rule</CardDescription>
+            </div>
+            <Select
+              value={status}
+              onValueChange={(value: string) => router.push(`/admin/inventory/alerts?status=${value}`)}
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="active">Unresolved</SelectItem>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="acknowledged">Acknowledged</SelectItem>
+                <SelectItem value="resolved">Resolved</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Rule</TableHead>
+                <TableHead className="text-right">Available</TableHead>
+                <TableHead className="text-right">Days of Cover</TableHead>
+                <TableHead>Severity</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Raised</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {alerts.map((alert) => (
+                <TableRow key={alert.id}>
+                  <TableCell>
+                    <div className="font-medium">{alert.product_name}</div>
+                    <div className="text-sm text-muted-foreground">{alert.sku}</div>
+                  </TableCell>
+                  <TableCell>{alert.warehouse_name || "All locations"}</TableCell>
+                  <TableCell>{alert.rule_name}</TableCell>
+                  <TableCell className="text-right">{alert.current_stock}</TableCell>
+                  <TableCell className="text-right">{alert.days_of_cover ?? "-"}</TableCell>
+                  <TableCell>{getSeverityBadge(alert.severity)}</TableCell>
+                  <TableCell>
+                    {getStatusBadge(alert.status)}
+                    {alert.resolution && (
+                      <div className="text-xs text-muted-foreground mt-1">{alert.resolution.replace(/_/g, " ")}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{formatDate(alert.triggered_at)}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      {alert.status === "open" && (
+                        <Button variant="outline" size="sm" onClick={() => handleAlertAction(onAcknowledge, alert.id)}>
+                          <Check className="h-4 w-4 mr-1" />
+                          Acknowledge
+                        </Button>
+                      )}
+                      {alert.status !== "resolved" && (
+                        <Button variant="ghost" size="sm" onClick={() => handleAlertAction(onResolve, alert.id)}>
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Resolve
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {alerts.length === 0 && <div className="text-center py-8 text-muted-foreground">No alerts</div>}
+        </CardContent>
+      </Card>
+
+      {/* Rule Dialog */}
+      <Dialog open={showRuleDialog} onOpenChange={setShowRuleDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingRuleId ? "Edit Rule" : "New Rule"}</DialogTitle>
+            <DialogDescription>Alerts are re-evaluated for all products when the rule is saved</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name *</Label>
+              <Input
+                id="rule-name"
+                value={rule.name}
+                onChange={(e) => setRule({ ...rule, name: e.target.value })}
+                placeholder="e.g. Fever remedies under 14 days"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-description">Description</Label>
+              <Input
+                id="rule-description"
+                value={rule.description || ""}
+                onChange={(e) => setRule({ ...rule, description: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Condition</Label>
+                <Select
+                  value={rule.rule_type}
+                  onValueChange={(value: string) =>
+                    setRule({ ...rule, rule_type: value as StockAlertRule["rule_type"] })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(RULE_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-threshold">At or below</Label>
+                <Input
+                  id="rule-threshold"
+                  type="number"
+                  min={0}
+                  value={rule.threshold}
+                  onChange={(e) => setRule({ ...rule, threshold: Number.parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Severity</Label>
+                <Select
+                  value={rule.severity}
+                  onValueChange={(value: string) => setRule({ ...rule, severity: value as StockAlertRule["severity"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="info">Info</SelectItem>
+                    <SelectItem value="warning">Warning</SelectItem>
+                    <SelectItem value="critical">Critical</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Applies to</Label>
+                <Select
+                  value={rule.scope_type}
+                  onValueChange={(value: string) =>
+                    setRule({ ...rule, scope_type: value as StockAlertRule["scope_type"], scope_id: null })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All products</SelectItem>
+                    <SelectItem value="category">Category</SelectItem>
+                    <SelectItem value="brand">Brand</SelectItem>
+                    <SelectItem value="warehouse">Warehouse</SelectItem>
+                    <SelectItem value="product">Single SKU</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {rule.scope_type !== "all" && (
+                <div className="space-y-2">
+                  <Label>{rule.scope_type === "product" ? "SKU" : "Select"} *</Label>
+                  <Select
+                    value={rule.scope_id || ""}
+                    onValueChange={(value: string) => setRule({ ...rule, scope_id: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder={`Select ${rule.scope_type}`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {scopeOptions[rule.scope_type].map((option) => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.name}
+                          {option.sku && ` (${option.sku})`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setShowRuleDialog(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveRule} disabled={!rule.name || (rule.scope_type !== "all" && !rule.scope_id)}>
+                Save Rule
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
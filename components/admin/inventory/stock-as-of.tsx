@@ -0,0 +1,246 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Camera, History, X } from "lucide-react"
+import { formatCurrency, formatDate } from "@/lib/utils"
+import type { SnapshotLevel } from "@/lib/inventory/snapshots"
+import type {
+  InventorySnapshotRun,
+  StockAsOfReport,
+  StockComparisonReport,
+} from "@/lib/services/inventory-snapshot.service"
+
+interface StockAsOfProps {
+  report: StockAsOfReport | null
+  comparison: StockComparisonReport | null
+  lastSnapshot: InventorySnapshotRun | null
+  error?: string | null
+  onCapture?: () => Promise<unknown>
+}
+
+function SourceBadge({ source }: { source: StockAsOfReport["source"] }) {
+  return <Badge variant="outline">{source === "snapshot" ? "Daily snapshot" : "Rebuilt from movements"}</Badge>
+}
+
+export function StockAsOf({ report, comparison, lastSnapshot, error, onCapture }: StockAsOfProps) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [asOf, setAsOf] = useState(searchParams.get("as_of") || "")
+  const [compareTo, setCompareTo] = useState(searchParams.get("compare_to") || "")
+  const [level, setLevel] = useState<SnapshotLevel>((searchParams.get("level") as SnapshotLevel) || "warehouse")
+  const [capturing, setCapturing] = useState(false)
+  const [captureError, setCaptureError] = useState<string | null>(null)
+
+  const today = new Date().toISOString().split("T")[0]
+
+  const show = (params: { as_of?: string; compare_to?: string; level?: SnapshotLevel }) => {
+    const next = new URLSearchParams(searchParams.toString())
+    for (const [name, value] of Object.entries(params)) {
+      if (value) next.set(name, value)
+      else next.delete(name)
+    }
+    router.push(`/admin/inventory?${next.toString()}`)
+  }
+
+  const capture = async () => {
+    if (!onCapture) return
+    try {
+      setCapturing(true)
+      setCaptureError(null)
+      await onCapture()
+      router.refresh()
+    } catch (error) {
+      console.error("Error capturing inventory snapshot:", error)
+      setCaptureError(error instanceof Error ? error.message : "Snapshot failed")
+    } finally {
+      setCapturing(false)
+    }
+  }
+
+  const batchLevel = (report?.level || comparison?.level) === "batch"
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Stock on a Past Date
+            </CardTitle>
+            <CardDescription>
+              Stock per product, warehouse or batch at the close of a day, or the change between two days
+              {lastSnapshot && ` · daily snapshots up to ${formatDate(lastSnapshot.snapshot_date)}`}
+            </CardDescription>
+          </div>
+          {onCapture && (
+            <Button variant="outline" size="sm" onClick={capture} disabled={capturing}>
+              <Camera className="h-4 w-4 mr-2" />
+              {capturing ? "Capturing..." : "Capture Yesterday"}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="as_of">As of</Label>
+            <Input id="as_of" type="date" max={today} value={asOf} onChange={(e) => setAsOf(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="compare_to">Compare with (optional)</Label>
+            <Input
+              id="compare_to"
+              type="date"
+              max={today}
+              min={asOf || undefined}
+              value={compareTo}
+              onChange={(e) => setCompareTo(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>By</Label>
+            <Select value={level} onValueChange={(value) => setLevel(value as SnapshotLevel)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="warehouse">Warehouse</SelectItem>
+                <SelectItem value="batch">Batch</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button disabled={!asOf} onClick={() => show({ as_of: asOf, compare_to: compareTo, level })}>
+            Show
+          </Button>
+          {(report || comparison) && (
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setAsOf("")
+                setCompareTo("")
+                show({ as_of: undefined, compare_to: undefined, level: undefined })
+              }}
+            >
+              <X className="h-4 w-4 mr-2" />
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {(error || captureError) && <div className="text-sm text-red-600">{error || captureError}</div>}
+
+        {report && !comparison && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm">
+              <span>
+                {report.lines.length} lines · {report.totals.quantity} units · {formatCurrency(report.totals.value)}
+              </span>
+              <SourceBadge source={report.source} />
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Warehouse</TableHead>
+                  {batchLevel && <TableHead>Batch</TableHead>}
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.lines.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={batchLevel ? 5 : 4} className="text-center text-muted-foreground">
+                      No stock held on {formatDate(report.as_of)}
+                    </TableCell>
+                  </TableRow>
+                )}
+                {report.lines.map((line) => (
+                  <TableRow key={line.key}>
+                    <TableCell>
+                      <div className="font-medium">{line.product_name}</div>
+                      <div className="text-sm text-muted-foreground">{line.sku}</div>
+                    </TableCell>
+                    <TableCell>{line.warehouse_name}</TableCell>
+                    {batchLevel && (
+                      <TableCell>
+                        {line.batch_number}
+                        {line.expiry_date && (
+                          <div className="text-sm text-muted-foreground">Exp {formatDate(line.expiry_date)}</div>
+                        )}
+                      </TableCell>
+                    )}
+                    <TableCell className="text-right">{line.quantity}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(line.value)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {comparison && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm">
+              <span>
+                {comparison.totals.from_quantity} → {comparison.totals.to_quantity} units ·{" "}
+                {formatCurrency(comparison.totals.from_value)} → {formatCurrency(comparison.totals.to_value)}
+              </span>
+              <SourceBadge source={comparison.sources.from} />
+              <SourceBadge source={comparison.sources.to} />
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Warehouse</TableHead>
+                  {batchLevel && <TableHead>Batch</TableHead>}
+                  <TableHead className="text-right">{formatDate(comparison.from)}</TableHead>
+                  <TableHead className="text-right">{formatDate(comparison.to)}</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Value Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {comparison.lines.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={batchLevel ? 7 : 6} className="text-center text-muted-foreground">
+                      No stock changed between the two dates
+                    </TableCell>
+                  </TableRow>
+                )}
+                {comparison.lines.map((line) => (
+                  <TableRow key={line.key}>
+                    <TableCell>
+                      <div className="font-medium">{line.product_name}</div>
+                      <div className="text-sm text-muted-foreground">{line.sku}</div>
+                    </TableCell>
+                    <TableCell>{line.warehouse_name}</TableCell>
+                    {batchLevel && <TableCell>{line.batch_number}</TableCell>}
+                    <TableCell className="text-right">{line.from_quantity}</TableCell>
+                    <TableCell className="text-right">{line.to_quantity}</TableCell>
+                    <TableCell
+                      className={`text-right ${line.quantity_change < 0 ? "text-red-600" : "text-green-600"}`}
+                    >
+                      {line.quantity_change > 0 ? `+${line.quantity_change}` : line.quantity_change}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(line.value_change)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,415 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, ArrowDownToLine, ArrowUpFromLine, BookOpen, FileDown, IndianRupee } from "lucide-react"
+import { formatCurrency, formatDate } from "@/lib/utils"
+import {
+  getCurrentFinancialYear,
+  getLedgerEntryTypes,
+  getLedgerTypeLabel,
+  type LedgerPeriod,
+  type LedgerTypeTotal,
+} from "@/lib/inventory/stock-ledger"
+import {
+  downloadTable,
+  type ExportFormat,
+  type ReportTable,
+  type TableCell as ExportCell,
+} from "@/lib/reports/table-export"
+import type { StockLedgerReport, StockLedgerReportLine } from "@/lib/services/stock-ledger.service"
+
+interface StockLedgerProps {
+  report: StockLedgerReport
+  period: LedgerPeriod
+  periodType: "month" | "year"
+  month: string
+  year: number
+  warehouses: { id: string; name: string }[]
+  warehouseId?: string
+}
+
+function TypeTotals({ totals }: { totals: LedgerTypeTotal[] }) {
+  if (totals.length === 0) return <span className="text-muted-foreground">-</span>
+  return (
+    <div className="space-y-0.5">
+      {totals.map((total) => (
+        <div key={total.entry_type} className="text-sm whitespace-nowrap">
+          {getLedgerTypeLabel(total.entry_type)}: <span className="font-medium">{total.quantity}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function typeQuantity(totals: LedgerTypeTotal[], entryType: string) {
+  return totals.find((total) => total.entry_type === entryType)?.quantity || 0
+}
+
+function typeValue(totals: LedgerTypeTotal[], entryType: string) {
+  return totals.find((total) => total.entry_type === entryType)?.value || 0
+}
+
+// One column pair per movement type, so the export reads like a stock register
+function buildExportTable(report: StockLedgerReport, period: LedgerPeriod, lines: StockLedgerReportLine[]) {
+  const types = getLedgerEntryTypes(lines)
+  const byBatch = report.level === "batch"
+
+  const headers = [
+    "Product",
+    "SKU",
+    byBatch ? "Batch" : "Warehouse",
+    ...(byBatch ? ["Expiry", "Warehouse"] : []),
+    "Opening Qty",
+    "Opening Value",
+    ...types.inward.flatMap((type) => [`In: ${getLedgerTypeLabel(type)} Qty`, `In: ${getLedgerTypeLabel(type)} Value`]),
+    "Total In Qty",
+    "Total In Value",
+    ...types.outward.flatMap((type) => [
+      `Out: ${getLedgerTypeLabel(type)} Qty`,
+      `Out: ${getLedgerTypeLabel(type)} Value`,
+    ]),
+    "Total Out Qty",
+    "Total Out Value",
+    "Closing Qty",
+    "Closing Value",
+    "Expected Today",
+    "Current Qty",
+    "Difference",
+    "Status",
+  ]
+
+  const rows: ExportCell[][] = lines.map((line) => [
+    line.product_name,
+    line.sku,
+    byBatch ? line.batch_number : line.location_name,
+    ...(byBatch ? [line.expiry_date, line.location_name] : []),
+    line.opening_quantity,
+    line.opening_value,
+    ...types.inward.flatMap((type) => [typeQuantity(line.inward, type), typeValue(line.inward, type)]),
+    line.inward_quantity,
+    line.inward_value,
+    ...types.outward.flatMap((type) => [typeQuantity(line.outward, type), typeValue(line.outward, type)]),
+    line.outward_quantity,
+    line.outward_value,
+    line.closing_quantity,
+    line.closing_value,
+    line.expected_quantity,
+    line.current_quantity,
+    line.current_quantity === null ? null : line.difference,
+    line.in_quarantine
+      ? "In QC"
+      : line.unexplained
+        ? "Unexplained"
+        : line.current_quantity === null
+          ? ""
+          : "Reconciled",
+  ])
+
+  const table: ReportTable = {
+    title: `Stock Ledger ${period.label}`,
+    subtitle: `${period.from} to ${period.to}, by ${byBatch ? "batch" : "warehouse"}. Generated ${new Date().toISOString().slice(0, 10)}`,
+    headers,
+    rows,
+  }
+  return table
+}
+
+export function StockLedger({ report, period, periodType, month, year, warehouses, warehouseId }: StockLedgerProps) {
+  const router = useRouter()
+  const [selectedPeriodType, setSelectedPeriodType] = useState<string>(periodType)
+  const [selectedMonth, setSelectedMonth] = useState(month)
+  const [selectedYear, setSelectedYear] = useState(String(year))
+  const [level, setLevel] = useState<string>(report.level)
+  const [warehouse, setWarehouse] = useState(warehouseId || "all")
+  const [unexplainedOnly, setUnexplainedOnly] = useState(false)
+
+  const lines = unexplainedOnly ? report.lines.filter((line) => line.unexplained) : report.lines
+  const byBatch = report.level === "batch"
+
+  const applyFilters = () => {
+    const params = new URLSearchParams({ period: selectedPeriodType, level })
+    if (selectedPeriodType === "month") {
+      params.set("month", selectedMonth)
+    } else {
+      params.set("year", selectedYear)
+    }
+    if (warehouse !== "all") params.set("warehouse", warehouse)
+    router.push(`/admin/inventory/ledger?${params.toString()}`)
+  }
+
+  const exportLedger = (format: ExportFormat) => {
+    downloadTable(
+      buildExportTable(report, period, lines),
+      format,
+      `stock-ledger-${report.level}-${period.from}-${period.to}`,
+    )
+  }
+
+  const currentFinancialYear = getCurrentFinancialYear()
+  const yearOptions = Array.from({ length: 6 }, (_, index) => currentFinancialYear - index)
+
+  const getStatusBadge = (line: StockLedgerReportLine) => {
+    if (line.in_quarantine) return <Badge className="bg-yellow-100 text-yellow-800">In QC</Badge>
+    if (line.current_quantity === null) return <Badge variant="secondary">No record</Badge>
+    if (line.unexplained) {
+      return (
+        <Badge variant="destructive">
+          {line.difference > 0 ? "+" : ""}
+          {line.difference} unexplained
+        </Badge>
+      )
+    }
+    return <Badge className="bg-green-100 text-green-800">Reconciled</Badge>
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-end">
+        <div>
+          <h2 className="text-2xl font-bold">Stock Ledger</h2>
+          <p className="text-muted-foreground">
+            {period.label}: {formatDate(period.from)} to {formatDate(period.to)}, by {byBatch ? "batch" : "warehouse"}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => exportLedger("csv")}>
+            <FileDown className="h-4 w-4 mr-2" />
+            CSV
+          </Button>
+          <Button variant="outline" onClick={() => exportLedger("xlsx")}>
+            <FileDown className="h-4 w-4 mr-2" />
+            XLSX
+          </Button>
+          <Button variant="outline" onClick={() => exportLedger("pdf")}>
+            <FileDown className="h-4 w-4 mr-2" />
+            PDF
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label>Period</Label>
+              <Select value={selectedPeriodType} onValueChange={(value: string) => setSelectedPeriodType(value)}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="month">Month</SelectItem>
+                  <SelectItem value="year">Financial Year</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {selectedPeriodType === "month" ? (
+              <div className="space-y-1">
+                <Label htmlFor="month">Month</Label>
+                <Input
+                  id="month"
+                  type="month"
+                  value={selectedMonth}
+                  onChange={(e) => setSelectedMonth(e.target.value)}
+                />
+              </div>
+            ) : (
+              <div className="space-y-1">
+                <Label>Financial Year</Label>
+                <Select value={selectedYear} onValueChange={(value: string) => setSelectedYear(value)}>
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {yearOptions.map((option) => (
+                      <SelectItem key={option} value={String(option)}>
+                        FY {option}-{String((option + 1) % 100).padStart(2, "0")}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label>Ledger</Label>
+              <Select value={level} onValueChange={(value: string) => setLevel(value)}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="warehouse">Per warehouse</SelectItem>
+                  <SelectItem value="batch">Per batch</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Warehouse</Label>
+              <Select value={warehouse} onValueChange={(value: string) => setWarehouse(value)}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All warehouses</SelectItem>
+                  {warehouses.map((w) => (
+                    <SelectItem key={w.id} value={w.id}>
+                      {w.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={applyFilters}>
+              <BookOpen className="h-4 w-4 mr-2" />
+              Run Ledger
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Opening Stock</CardTitle>
+            <IndianRupee className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(report.totals.opening_value)}</div>
+            <p className="text-xs text-muted-foreground">{report.totals.opening_quantity} units</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Inward</CardTitle>
+            <ArrowDownToLine className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(report.totals.inward_value)}</div>
+            <p className="text-xs text-muted-foreground">{report.totals.inward_quantity} units</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Outward</CardTitle>
+            <ArrowUpFromLine className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(report.totals.outward_value)}</div>
+            <p className="text-xs text-muted-foreground">{report.totals.outward_quantity} units</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Closing Stock</CardTitle>
+            <IndianRupee className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(report.totals.closing_value)}</div>
+            <p className="text-xs text-muted-foreground">{report.totals.closing_quantity} units</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {report.unexplained_count > 0 && (
+        <div className="flex items-center gap-2 p-3 rounded-lg border border-red-200 bg-red-50 text-sm text-red-800">
+          <AlertTriangle className="h-4 w-4" />
+          {report.unexplained_count} {report.unexplained_count === 1 ? "line does" : "lines do"} not reconcile: current
+          stock differs from what the recorded movements explain.
+        </div>
+      )}
+
+      {/* Ledger */}
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Register</CardTitle>
+              <CardDescription>
+                Closing balance rolled forward to today and compared with {byBatch ? "batch" : "warehouse"} stock on
+                record
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="unexplained_only"
+                checked={unexplainedOnly}
+                onCheckedChange={(checked: boolean) => setUnexplainedOnly(checked)}
+              />
+              <Label htmlFor="unexplained_only">Unexplained only</Label>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>{byBatch ? "Batch" : "Warehouse"}</TableHead>
+                  <TableHead className="text-right">Opening</TableHead>
+                  <TableHead>Inward</TableHead>
+                  <TableHead>Outward</TableHead>
+                  <TableHead className="text-right">Closing</TableHead>
+                  <TableHead className="text-right">Current</TableHead>
+                  <TableHead>Reconciliation</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line) => (
+                  <TableRow key={line.key}>
+                    <TableCell>
+                      <div className="font-medium">{line.product_name}</div>
+                      {line.sku && <div className="text-sm text-muted-foreground">{line.sku}</div>}
+                    </TableCell>
+                    <TableCell>
+                      {byBatch ? (
+                        <>
+                          <div className="font-medium">{line.batch_number}</div>
+                          <div className="text-sm text-muted-foreground">
+                            {line.expiry_date && `Exp ${formatDate(line.expiry_date)} · `}
+                            {line.location_name}
+                          </div>
+                        </>
+                      ) : (
+                        line.location_name
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div>{line.opening_quantity}</div>
+                      <div className="text-sm text-muted-foreground">{formatCurrency(line.opening_value)}</div>
+                    </TableCell>
+                    <TableCell>
+                      <TypeTotals totals={line.inward} />
+                    </TableCell>
+                    <TableCell>
+                      <TypeTotals totals={line.outward} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="font-medium">{line.closing_quantity}</div>
+                      <div className="text-sm text-muted-foreground">{formatCurrency(line.closing_value)}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{line.current_quantity ?? "-"}</TableCell>
+                    <TableCell>{getStatusBadge(line)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {lines.length === 0 && (
+              <div className="text-center py-8 text-muted-foreground">No stock or movements in this period</div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
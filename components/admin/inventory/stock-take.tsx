@@ -0,0 +1,464 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { CheckCircle, ClipboardList, Plus, Send, XCircle } from "lucide-react"
+import { formatCurrency, formatDate } from "@/lib/utils"
+import { BarcodeScannerInput } from "@/components/admin/inventory/barcode-scanner-input"
+import type { Warehouse } from "@/lib/services/inventory.service"
+import type { CreateStockTakeData } from "@/lib/services/stock-take.service"
+import type { LineVariance, VarianceSummary } from "@/lib/inventory/stock-take"
+
+interface SessionRow {
+  id: string
+  session_number: string
+  name: string
+  warehouse_id: string
+  scope_type: string
+  status: string
+  opened_at: string
+  warehouses?: { name: string; code: string }
+  summary: VarianceSummary
+}
+
+interface SessionDetail extends SessionRow {
+  stock_take_lines: Array<{
+    id: string
+    product_id: string
+    batch_number?: string
+    zone?: string
+    bin_location?: string
+    expected_quantity: number
+    counted_quantity?: number | null
+    products?: { name: string; sku: string }
+    variance: LineVariance | null
+  }>
+}
+
+interface StockTakeProps {
+  sessions: SessionRow[]
+  warehouses: Warehouse[]
+  stockLevels: Array<{
+    warehouse_id: string
+    product_id: string
+    zone?: string
+    on_hand: number
+    products?: { name: string; sku: string }
+  }>
+  batches: Array<{ id: string; batch_number: string; quantity_available: number; product_name?: string }>
+  onCreateSession: (sessionData: CreateStockTakeData) => Promise<unknown>
+  onLoadSession: (id: string) => Promise<SessionDetail>
+  onRecordCount: (lineId: string, countedQuantity: number) => Promise<unknown>
+  onRecordCountByCode: (sessionId: string, code: string, quantity?: number) => Promise<unknown>
+  onSubmitSession: (id: string) => Promise<unknown>
+  onApproveSession: (id: string) => Promise<unknown>
+  onCancelSession: (id: string) => Promise<unknown>
+}
+
+const emptySession: CreateStockTakeData = { name: "", warehouse_id: "", scope_type: "zones", scope: [] }
+
+export function StockTake({
+  sessions,
+  warehouses,
+  stockLevels,
+  batches,
+  onCreateSession,
+  onLoadSession,
+  onRecordCount,
+  onRecordCountByCode,
+  onSubmitSession,
+  onApproveSession,
+  onCancelSession,
+}: StockTakeProps) {
+  const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [newSession, setNewSession] = useState<CreateStockTakeData>(emptySession)
+  const [activeSession, setActiveSession] = useState<SessionDetail | null>(null)
+  const [counts, setCounts] = useState<Record<string, string>>({})
+  const [scanError, setScanError] = useState("")
+
+  const warehouseStock = stockLevels.filter((level) => level.warehouse_id === newSession.warehouse_id)
+  const zones = [...new Set(warehouseStock.map((level) => level.zone).filter(Boolean))] as string[]
+
+  const scopeOptions =
+    newSession.scope_type === "zones"
+      ? zones.map((zone) => ({ value: zone, label: `Zone ${zone}` }))
+      : newSession.scope_type === "products"
+        ? warehouseStock.map((level) => ({
+            value: level.product_id,
+            label: `${level.products?.name} (${level.products?.sku})`,
+          }))
+        : batches.map((batch) => ({
+            value: batch.id,
+            label: `${batch.batch_number} - ${batch.product_name || ""} (${batch.quantity_available})`,
+          }))
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case "counting":
+        return <Badge className="bg-blue-100 text-blue-800">Counting</Badge>
+      case "submitted":
+        return <Badge className="bg-yellow-100 text-yellow-800">Awaiting Approval</Badge>
+      case "approved":
+        return <Badge className="bg-green-100 text-green-800">Approved</Badge>
+      case "cancelled":
+        return <Badge variant="destructive">Cancelled</Badge>
+      default:
+        return <Badge variant="secondary">{status}</Badge>
+    }
+  }
+
+  const toggleScope = (value: string, checked: boolean) => {
+    setNewSession({
+      ...newSession,
+      scope: checked ? [...newSession.scope, value] : newSession.scope.filter((v) => v !== value),
+    })
+  }
+
+  const handleCreateSession = async () => {
+    try {
+      await onCreateSession(newSession)
+      setShowCreateDialog(false)
+      setNewSession(emptySession)
+    } catch (error) {
+      console.error("Error opening stock take:", error)
+    }
+  }
+
+  const openSession = async (id: string) => {
+    try {
+      const session = await onLoadSession(id)
+      setActiveSession(session)
+      setCounts({})
+      setScanError("")
+    } catch (error) {
+      console.error("Error loading stock take:", error)
+    }
+  }
+
+  const saveCount = async (lineId: string) => {
+    if (!activeSession || counts[lineId] === undefined) return
+
+    try {
+      await onRecordCount(lineId, Number.parseInt(counts[lineId]) || 0)
+      await openSession(activeSession.id)
+    } catch (error) {
+      console.error("Error recording count:", error)
+    }
+  }
+
+  const handleScan = async (scanCode: string) => {
+    if (!activeSession) return
+
+    try {
+      setScanError("")
+      await onRecordCountByCode(activeSession.id, scanCode)
+      await openSession(activeSession.id)
+    } catch (error) {
+      setScanError(error instanceof Error ? error.message : "Scan not recognised")
+    }
+  }
+
+  const runAndRefresh = async (action: (id: string) => Promise<unknown>) => {
+    if (!activeSession) return
+
+    try {
+      await action(activeSession.id)
+      await openSession(activeSession.id)
+    } catch (error) {
+      console.error("Error updating stock take:", error)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Stock Take</h2>
+          <p className="text-muted-foreground">Cycle counts and physical stock verification</p>
+        </div>
+        <Button onClick={() => setShowCreateDialog(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Count
+        </Button>
+      </div>
+
+      {/* Sessions Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Count Sessions</CardTitle>
+          <CardDescription>Open a session to enter counts, review variances and approve</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Session</TableHead>
+                  <TableHead>Warehouse</TableHead>
+                  <TableHead>Progress</TableHead>
+                  <TableHead>Variance Value</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.map((session) => (
+                  <TableRow key={session.id}>
+                    <TableCell>
+                      <div className="font-medium">{session.name}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {session.session_number} · {formatDate(session.opened_at)}
+                      </div>
+                    </TableCell>
+                    <TableCell>{session.warehouses?.name}</TableCell>
+                    <TableCell>
+                      {session.summary.lines_counted}/{session.summary.lines_total} counted
+                    </TableCell>
+                    <TableCell className={session.summary.net_value < 0 ? "text-red-600" : ""}>
+                      {formatCurrency(session.summary.net_value)}
+                    </TableCell>
+                    <TableCell>{getStatusBadge(session.status)}</TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="outline" onClick={() => openSession(session.id)}>
+                        <ClipboardList className="h-4 w-4 mr-1" />
+                        Open
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {sessions.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">No stock takes yet</div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Session Dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Stock Take</DialogTitle>
+            <DialogDescription>Expected quantities are captured when the session opens</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="session-name">Name *</Label>
+              <Input
+                id="session-name"
+                value={newSession.name}
+                onChange={(e) => setNewSession({ ...newSession, name: e.target.value })}
+                placeholder="e.g. Week 12 - Rack B"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Warehouse *</Label>
+                <Select
+                  value={newSession.warehouse_id}
+                  onValueChange={(value: string) => setNewSession({ ...newSession, warehouse_id: value, scope: [] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select warehouse" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {warehouses.map((warehouse) => (
+                      <SelectItem key={warehouse.id} value={warehouse.id}>
+                        {warehouse.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Count by</Label>
+                <Select
+                  value={newSession.scope_type}
+                  onValueChange={(value: string) =>
+                    setNewSession({ ...newSession, scope_type: value as CreateStockTakeData["scope_type"], scope: [] })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="zones">Zone / rack</SelectItem>
+                    <SelectItem value="products">Products</SelectItem>
+                    <SelectItem value="batches">Batches</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="max-h-64 overflow-y-auto rounded-md border p-3 space-y-2">
+              {scopeOptions.map((option) => (
+                <div key={option.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`scope-${option.value}`}
+                    checked={newSession.scope.includes(option.value)}
+                    onCheckedChange={(checked: boolean) => toggleScope(option.value, checked)}
+                  />
+                  <Label htmlFor={`scope-${option.value}`} className="font-normal">
+                    {option.label}
+                  </Label>
+                </div>
+              ))}
+              {scopeOptions.length === 0 && (
+                <div className="text-sm text-muted-foreground">
+                  {newSession.warehouse_id ? "Nothing to select" : "Select a warehouse first"}
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreateSession}
+              disabled={!newSession.name || !newSession.warehouse_id || newSession.scope.length === 0}
+            >
+              Open Session
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Session Detail Dialog */}
+      <Dialog open={!!activeSession} onOpenChange={(open) => !open && setActiveSession(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {activeSession?.name} {activeSession && getStatusBadge(activeSession.status)}
+            </DialogTitle>
+            <DialogDescription>
+              {activeSession?.session_number} · {activeSession?.warehouses?.name}
+            </DialogDescription>
+          </DialogHeader>
+
+          {activeSession && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-4 gap-4 text-sm">
+                <div>
+                  <div className="text-muted-foreground">Counted</div>
+                  <div className="font-bold">
+                    {activeSession.summary.lines_counted}/{activeSession.summary.lines_total}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Surplus</div>
+                  <div className="font-bold text-green-600">
+                    +{activeSession.summary.surplus_quantity} ({formatCurrency(activeSession.summary.surplus_value)})
+                  </div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Shortage</div>
+                  <div className="font-bold text-red-600">
+                    -{activeSession.summary.shortage_quantity} ({formatCurrency(activeSession.summary.shortage_value)})
+                  </div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Net Impact</div>
+                  <div className="font-bold">{formatCurrency(activeSession.summary.net_value)}</div>
+                </div>
+              </div>
+
+              {activeSession.status === "counting" && (
+                <BarcodeScannerInput
+                  placeholder="Scan a barcode or GS1 label, or type batch number / SKU"
+                  onScan={handleScan}
+                  error={scanError}
+                />
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Expected</TableHead>
+                    <TableHead>Counted</TableHead>
+                    <TableHead>Variance</TableHead>
+                    <TableHead>Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {activeSession.stock_take_lines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell>
+                        <div className="font-medium">{line.products?.name}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {line.products?.sku}
+                          {line.batch_number && ` · Batch ${line.batch_number}`}
+                        </div>
+                      </TableCell>
+                      <TableCell>{[line.zone, line.bin_location].filter(Boolean).join(" / ") || "-"}</TableCell>
+                      <TableCell>{line.expected_quantity}</TableCell>
+                      <TableCell>
+                        {activeSession.status === "counting" ? (
+                          <Input
+                            type="number"
+                            min={0}
+                            className="w-24"
+                            value={counts[line.id] ?? line.counted_quantity ?? ""}
+                            onChange={(e) => setCounts({ ...counts, [line.id]: e.target.value })}
+                            onBlur={() => saveCount(line.id)}
+                          />
+                        ) : (
+                          (line.counted_quantity ?? "-")
+                        )}
+                      </TableCell>
+                      <TableCell
+                        className={
+                          line.variance && line.variance.variance !== 0
+                            ? line.variance.variance > 0
+                              ? "text-green-600 font-medium"
+                              : "text-red-600 font-medium"
+                            : ""
+                        }
+                      >
+                        {line.variance ? (line.variance.variance > 0 ? "+" : "") + line.variance.variance : "-"}
+                      </TableCell>
+                      <TableCell>{line.variance ? formatCurrency(line.variance.variance_value) : "-"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="flex justify-end gap-2">
+                {(activeSession.status === "counting" || activeSession.status === "submitted") && (
+                  <Button variant="outline" onClick={() => runAndRefresh(onCancelSession)}>
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Cancel Session
+                  </Button>
+                )}
+                {activeSession.status === "counting" && (
+                  <Button onClick={() => runAndRefresh(onSubmitSession)}>
+                    <Send className="h-4 w-4 mr-1" />
+                    Submit for Approval
+                  </Button>
+                )}
+                {activeSession.status === "submitted" && (
+                  <Button onClick={() => runAndRefresh(onApproveSession)}>
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    Approve & Post Variances
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,536 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ArrowRight, CheckCircle, Package, Plus, Trash2, Truck, XCircle } from "lucide-react"
+import { formatDate } from "@/lib/utils"
+import type { CreateStockTransferData, StockTransfer } from "@/lib/services/stock-transfer.service"
+import type { Warehouse } from "@/lib/services/inventory.service"
+
+interface TransferRow extends StockTransfer {
+  from_warehouse?: { name: string; code: string }
+  to_warehouse?: { name: string; code: string }
+  stock_transfer_items: Array<{
+    id: string
+    product_id: string
+    quantity_requested: number
+    quantity_dispatched: number
+    quantity_received: number
+    quantity_damaged: number
+    quantity_short: number
+    products?: { name: string; sku: string }
+  }>
+}
+
+interface StockLevelRow {
+  warehouse_id: string
+  product_id: string
+  available: number
+  products?: { name: string; sku: string; cost_price?: number }
+}
+
+interface StockTransfersProps {
+  transfers: TransferRow[]
+  warehouses: Warehouse[]
+  stockLevels: StockLevelRow[]
+  onCreateTransfer: (transferData: CreateStockTransferData) => Promise<unknown>
+  onDispatchTransfer: (id: string) => Promise<unknown>
+  onMarkInTransit: (
+    id: string,
+    shipping: { carrier?: string; tracking_number?: string; shipping_cost?: number },
+  ) => Promise<unknown>
+  onReceiveTransfer: (
+    id: string,
+    receivedItems: Array<{ item_id: string; quantity_received: number; quantity_damaged?: number }>,
+  ) => Promise<unknown>
+  onCancelTransfer: (id: string, reason?: string) => Promise<unknown>
+}
+
+const emptyTransfer = {
+  from_warehouse_id: "",
+  to_warehouse_id: "",
+  notes: "",
+  items: [] as Array<{ product_id: string; quantity: number }>,
+}
+
+export function StockTransfers({
+  transfers,
+  warehouses,
+  stockLevels,
+  onCreateTransfer,
+  onDispatchTransfer,
+  onMarkInTransit,
+  onReceiveTransfer,
+  onCancelTransfer,
+}: StockTransfersProps) {
+  const [statusFilter, setStatusFilter] = useState("all")
+  const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [newTransfer, setNewTransfer] = useState(emptyTransfer)
+  const [transitTransfer, setTransitTransfer] = useState<TransferRow | null>(null)
+  const [shipping, setShipping] = useState({ carrier: "", tracking_number: "" })
+  const [receivingTransfer, setReceivingTransfer] = useState<TransferRow | null>(null)
+  const [receipt, setReceipt] = useState<Record<string, { quantity_received: number; quantity_damaged: number }>>({})
+
+  const filteredTransfers =
+    statusFilter === "all" ? transfers : transfers.filter((transfer) => transfer.status === statusFilter)
+
+  const sourceStock = stockLevels.filter(
+    (level) => level.warehouse_id === newTransfer.from_warehouse_id && level.available > 0,
+  )
+
+  const getStatusBadge = (transfer: TransferRow) => {
+    switch (transfer.status) {
+      case "draft":
+        return <Badge variant="outline">Draft</Badge>
+      case "dispatched":
+        return <Badge className="bg-blue-100 text-blue-800">Dispatched</Badge>
+      case "in_transit":
+        return <Badge className="bg-purple-100 text-purple-800">In Transit</Badge>
+      case "received":
+        return transfer.has_discrepancy ? (
+          <Badge className="bg-orange-100 text-orange-800">Received with shortage</Badge>
+        ) : (
+          <Badge className="bg-green-100 text-green-800">Received</Badge>
+        )
+      case "cancelled":
+        return <Badge variant="destructive">Cancelled</Badge>
+      default:
+        return <Badge variant="secondary">{transfer.status}</Badge>
+    }
+  }
+
+  const handleCreateTransfer = async () => {
+    try {
+      await onCreateTransfer({
+        from_warehouse_id: newTransfer.from_warehouse_id,
+        to_warehouse_id: newTransfer.to_warehouse_id,
+        notes: newTransfer.notes,
+        items: newTransfer.items.filter((item) => item.product_id && item.quantity > 0),
+      })
+      setShowCreateDialog(false)
+      setNewTransfer(emptyTransfer)
+    } catch (error) {
+      console.error("Error creating transfer:", error)
+    }
+  }
+
+  const handleMarkInTransit = async () => {
+    if (!transitTransfer) return
+
+    try {
+      await onMarkInTransit(transitTransfer.id, shipping)
+      setTransitTransfer(null)
+      setShipping({ carrier: "", tracking_number: "" })
+    } catch (error) {
+      console.error("Error updating transfer:", error)
+    }
+  }
+
+  const openReceiveDialog = (transfer: TransferRow) => {
+    setReceivingTransfer(transfer)
+    setReceipt(
+      Object.fromEntries(
+        transfer.stock_transfer_items.map((item) => [
+          item.id,
+          { quantity_received: item.quantity_dispatched, quantity_damaged: 0 },
+        ]),
+      ),
+    )
+  }
+
+  const handleReceiveTransfer = async () => {
+    if (!receivingTransfer) return
+
+    try {
+      await onReceiveTransfer(
+        receivingTransfer.id,
+        Object.entries(receipt).map(([itemId, quantities]) => ({ item_id: itemId, ...quantities })),
+      )
+      setReceivingTransfer(null)
+    } catch (error) {
+      console.error("Error receiving transfer:", error)
+    }
+  }
+
+  const updateItem = (index: number, updates: Partial<{ product_id: string; quantity: number }>) => {
+    setNewTransfer({
+      ...newTransfer,
+      items: newTransfer.items.map((item, i) => (i === index ? { ...item, ...updates } : item)),
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Stock Transfers</h2>
+          <p className="text-muted-foreground">Move stock between the godown and retail counters</p>
+        </div>
+        <Button onClick={() => setShowCreateDialog(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Transfer
+        </Button>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-4 gap-4">
+        {(["draft", "dispatched", "in_transit", "received"] as const).map((status) => (
+          <Card key={status}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium capitalize">{status.replace("_", " ")}</CardTitle>
+              <Package className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{transfers.filter((t) => t.status === status).length}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Transfers Table */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Transfers</CardTitle>
+              <CardDescription>Dispatch, track and receive inter-warehouse transfers</CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All transfers</SelectItem>
+                <SelectItem value="draft">Draft</SelectItem>
+                <SelectItem value="dispatched">Dispatched</SelectItem>
+                <SelectItem value="in_transit">In Transit</SelectItem>
+                <SelectItem value="received">Received</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Transfer</TableHead>
+                  <TableHead>Route</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Tracking</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredTransfers.map((transfer) => (
+                  <TableRow key={transfer.id}>
+                    <TableCell>
+                      <div className="font-medium">{transfer.transfer_number}</div>
+                      <div className="text-sm text-muted-foreground">{formatDate(transfer.requested_at)}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {transfer.from_warehouse?.name}
+                        <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                        {transfer.to_warehouse?.name}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {transfer.stock_transfer_items.map((item) => (
+                        <div key={item.id} className="text-sm">
+                          {item.products?.name} × {item.quantity_dispatched || item.quantity_requested}
+                          {item.quantity_short > 0 && (
+                            <span className="text-orange-600"> ({item.quantity_short} short)</span>
+                          )}
+                          {item.quantity_damaged > 0 && (
+                            <span className="text-red-600"> ({item.quantity_damaged} damaged)</span>
+                          )}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell>{getStatusBadge(transfer)}</TableCell>
+                    <TableCell>
+                      <div className="text-sm">{transfer.carrier || "-"}</div>
+                      <div className="text-sm text-muted-foreground">{transfer.tracking_number}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        {transfer.status === "draft" && (
+                          <Button size="sm" onClick={() => onDispatchTransfer(transfer.id)}>
+                            <Truck className="h-4 w-4 mr-1" />
+                            Dispatch
+                          </Button>
+                        )}
+                        {transfer.status === "dispatched" && (
+                          <Button size="sm" variant="outline" onClick={() => setTransitTransfer(transfer)}>
+                            <Truck className="h-4 w-4 mr-1" />
+                            In Transit
+                          </Button>
+                        )}
+                        {(transfer.status === "dispatched" || transfer.status === "in_transit") && (
+                          <Button size="sm" onClick={() => openReceiveDialog(transfer)}>
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            Receive
+                          </Button>
+                        )}
+                        {transfer.status !== "received" && transfer.status !== "cancelled" && (
+                          <Button size="sm" variant="ghost" onClick={() => onCancelTransfer(transfer.id)}>
+                            <XCircle className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {filteredTransfers.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">No stock transfers found</div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Transfer Dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Stock Transfer</DialogTitle>
+            <DialogDescription>Select the source, destination and products to move</DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>From *</Label>
+              <Select
+                value={newTransfer.from_warehouse_id}
+                onValueChange={(value: string) => setNewTransfer({ ...newTransfer, from_warehouse_id: value, items: [] })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Source warehouse" />
+                </SelectTrigger>
+                <SelectContent>
+                  {warehouses.map((warehouse) => (
+                    <SelectItem key={warehouse.id} value={warehouse.id}>
+                      {warehouse.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>To *</Label>
+              <Select
+                value={newTransfer.to_warehouse_id}
+                onValueChange={(value: string) => setNewTransfer({ ...newTransfer, to_warehouse_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Destination warehouse" />
+                </SelectTrigger>
+                <SelectContent>
+                  {warehouses
+                    .filter((warehouse) => warehouse.id !== newTransfer.from_warehouse_id)
+                    .map((warehouse) => (
+                      <SelectItem key={warehouse.id} value={warehouse.id}>
+                        {warehouse.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Items</Label>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!newTransfer.from_warehouse_id}
+                onClick={() =>
+                  setNewTransfer({ ...newTransfer, items: [...newTransfer.items, { product_id: "", quantity: 1 }] })
+                }
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Item
+              </Button>
+            </div>
+            {newTransfer.items.map((item, index) => {
+              const level = sourceStock.find((stock) => stock.product_id === item.product_id)
+              return (
+                <div key={index} className="flex gap-2 items-center">
+                  <Select value={item.product_id} onValueChange={(value: string) => updateItem(index, { product_id: value })}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Select product" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sourceStock.map((stock) => (
+                        <SelectItem key={stock.product_id} value={stock.product_id}>
+                          {stock.products?.name} ({stock.available} available)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    className="w-24"
+                    min={1}
+                    max={level?.available}
+                    value={item.quantity}
+                    onChange={(e) => updateItem(index, { quantity: Number.parseInt(e.target.value) || 0 })}
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() =>
+                      setNewTransfer({ ...newTransfer, items: newTransfer.items.filter((_, i) => i !== index) })
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )
+            })}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transfer-notes">Notes</Label>
+            <Textarea
+              id="transfer-notes"
+              value={newTransfer.notes}
+              onChange={(e) => setNewTransfer({ ...newTransfer, notes: e.target.value })}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreateTransfer}
+              disabled={!newTransfer.from_warehouse_id || !newTransfer.to_warehouse_id || newTransfer.items.length === 0}
+            >
+              Create Transfer
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* In Transit Dialog */}
+      <Dialog open={!!transitTransfer} onOpenChange={(open) => !open && setTransitTransfer(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mark In Transit</DialogTitle>
+            <DialogDescription>{transitTransfer?.transfer_number}</DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="carrier">Carrier</Label>
+              <Input
+                id="carrier"
+                value={shipping.carrier}
+                onChange={(e) => setShipping({ ...shipping, carrier: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tracking_number">Tracking Number</Label>
+              <Input
+                id="tracking_number"
+                value={shipping.tracking_number}
+                onChange={(e) => setShipping({ ...shipping, tracking_number: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={() => setTransitTransfer(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleMarkInTransit}>Save</Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Receive Dialog */}
+      <Dialog open={!!receivingTransfer} onOpenChange={(open) => !open && setReceivingTransfer(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Receive Transfer</DialogTitle>
+            <DialogDescription>
+              Enter what arrived. Anything not received or damaged is recorded as a shortage.
+            </DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Dispatched</TableHead>
+                <TableHead>Received</TableHead>
+                <TableHead>Damaged</TableHead>
+                <TableHead>Short</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {receivingTransfer?.stock_transfer_items.map((item) => {
+                const entry = receipt[item.id] || { quantity_received: 0, quantity_damaged: 0 }
+                const short = item.quantity_dispatched - entry.quantity_received - entry.quantity_damaged
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell>{item.products?.name}</TableCell>
+                    <TableCell>{item.quantity_dispatched}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        className="w-20"
+                        min={0}
+                        value={entry.quantity_received}
+                        onChange={(e) =>
+                          setReceipt({
+                            ...receipt,
+                            [item.id]: { ...entry, quantity_received: Number.parseInt(e.target.value) || 0 },
+                          })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        className="w-20"
+                        min={0}
+                        value={entry.quantity_damaged}
+                        onChange={(e) =>
+                          setReceipt({
+                            ...receipt,
+                            [item.id]: { ...entry, quantity_damaged: Number.parseInt(e.target.value) || 0 },
+                          })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell className={short !== 0 ? "text-orange-600 font-medium" : ""}>{short}</TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={() => setReceivingTransfer(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleReceiveTransfer}>Confirm Receipt</Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
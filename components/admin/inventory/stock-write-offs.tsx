@@ -0,0 +1,760 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ArrowLeft, Camera, Check, FileDown, PackageMinus, Plus, Send, Trash2, X } from "lucide-react"
+import { formatCurrency, formatDate } from "@/lib/utils"
+import { downloadTable, type ExportFormat } from "@/lib/reports/table-export"
+import type {
+  CreateWriteOffData,
+  StockWriteOff,
+  StockWriteOffItem,
+  StockWriteOffPhoto,
+  WriteOffReason,
+  WriteOffRegisterLine,
+  WriteOffStatus,
+} from "@/lib/services/write-off.service"
+
+interface WriteOffBatch {
+  id: string
+  product_name: string
+  batch_number: string
+  expiry_date: string
+  quantity_available: number
+  purchase_price: number
+  landed_cost?: number | null
+}
+
+interface WriteOffDetail {
+  writeOff: StockWriteOff
+  items: StockWriteOffItem[]
+  photos: StockWriteOffPhoto[]
+}
+
+interface StockWriteOffsProps {
+  writeOffs: StockWriteOff[]
+  status?: WriteOffStatus
+  detail?: WriteOffDetail | null
+  batches: WriteOffBatch[]
+  preselectedBatchId?: string
+  register: { from: string; to: string; reason?: WriteOffReason; lines: WriteOffRegisterLine[] }
+  tab?: "documents" | "register"
+  onCreateWriteOff: (writeOffData: CreateWriteOffData) => Promise<StockWriteOff>
+  onUploadPhoto: (writeOffId: string, formData: FormData) => Promise<unknown>
+  onSubmitWriteOff: (id: string) => Promise<unknown>
+  onApproveWriteOff: (id: string) => Promise<unknown>
+  onRejectWriteOff: (id: string, reason: string) => Promise<unknown>
+  onCancelWriteOff: (id: string) => Promise<unknown>
+}
+
+const REASON_LABELS: Record<WriteOffReason, string> = {
+  expired: "Expired",
+  breakage: "Breakage",
+  leakage: "Leakage",
+  sample: "Sample",
+  dead_stock: "Dead stock",
+}
+
+interface DraftLine {
+  batch_id: string
+  quantity: number
+  reason: WriteOffReason
+  notes: string
+}
+
+export function StockWriteOffs({
+  writeOffs,
+  status,
+  detail,
+  batches,
+  preselectedBatchId,
+  register,
+  tab = "documents",
+  onCreateWriteOff,
+  onUploadPhoto,
+  onSubmitWriteOff,
+  onApproveWriteOff,
+  onRejectWriteOff,
+  onCancelWriteOff,
+}: StockWriteOffsProps) {
+  const router = useRouter()
+  const preselected = batches.find((batch) => batch.id === preselectedBatchId)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [showCreateDialog, setShowCreateDialog] = useState(!!preselected)
+  const [lines, setLines] = useState<DraftLine[]>(
+    preselected
+      ? [
+          {
+            batch_id: preselected.id,
+            quantity: preselected.quantity_available,
+            reason: new Date(preselected.expiry_date) <= new Date() ? "expired" : "breakage",
+            notes: "",
+          },
+        ]
+      : [],
+  )
+  const [documentNotes, setDocumentNotes] = useState("")
+  const [photo, setPhoto] = useState<File | null>(null)
+  const [uploading, setUploading] = useState(false)
+  const [showRejectDialog, setShowRejectDialog] = useState(false)
+  const [rejectionReason, setRejectionReason] = useState("")
+  const [registerFrom, setRegisterFrom] = useState(register.from)
+  const [registerTo, setRegisterTo] = useState(register.to)
+  const [registerReason, setRegisterReason] = useState<string>(register.reason || "all")
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setActionError(null)
+      await action()
+      return true
+    } catch (error) {
+      console.error("Error updating write-off:", error)
+      setActionError(error instanceof Error ? error.message : "Write-off update failed")
+      return false
+    }
+  }
+
+  const getStatusBadge = (writeOffStatus: WriteOffStatus) => {
+    switch (writeOffStatus) {
+      case "draft":
+        return <Badge variant="secondary">Draft</Badge>
+      case "pending_approval":
+        return <Badge className="bg-orange-100 text-orange-800">Awaiting Approval</Badge>
+      case "approved":
+        return <Badge className="bg-green-100 text-green-800">Posted</Badge>
+      case "rejected":
+        return <Badge variant="destructive">Rejected</Badge>
+      default:
+        return <Badge variant="outline">Cancelled</Badge>
+    }
+  }
+
+  const getBatchCost = (batch?: WriteOffBatch) => Number(batch?.landed_cost ?? batch?.purchase_price ?? 0)
+
+  const draftValue = lines.reduce((sum, line) => {
+    const batch = batches.find((b) => b.id === line.batch_id)
+    return sum + getBatchCost(batch) * line.quantity
+  }, 0)
+
+  const updateLine = (index: number, changes: Partial<DraftLine>) => {
+    setLines(lines.map((line, lineIndex) => (lineIndex === index ? { ...line, ...changes } : line)))
+  }
+
+  const handleCreate = async () => {
+    try {
+      setActionError(null)
+      const created = await onCreateWriteOff({
+        notes: documentNotes || undefined,
+        items: lines.map((line) => ({
+          batch_id: line.batch_id,
+          quantity: line.quantity,
+          reason: line.reason,
+          notes: line.notes || undefined,
+        })),
+      })
+      setShowCreateDialog(false)
+      setLines([])
+      setDocumentNotes("")
+      router.push(`/admin/inventory/write-offs?write_off=${created.id}`)
+    } catch (error) {
+      console.error("Error creating write-off:", error)
+      setActionError(error instanceof Error ? error.message : "Failed to create write-off")
+    }
+  }
+
+  const handleUpload = async (writeOffId: string) => {
+    if (!photo) return
+    const formData = new FormData()
+    formData.append("photo", photo)
+    setUploading(true)
+    const uploaded = await runAction(() => onUploadPhoto(writeOffId, formData))
+    setUploading(false)
+    if (uploaded) {
+      setPhoto(null)
+      router.refresh()
+    }
+  }
+
+  const applyRegisterFilters = () => {
+    const params = new URLSearchParams({ tab: "register", from: registerFrom, to: registerTo })
+    if (registerReason !== "all") params.set("reason", registerReason)
+    router.push(`/admin/inventory/write-offs?${params.toString()}`)
+  }
+
+  const exportRegister = (format: ExportFormat) => {
+    downloadTable(
+      {
+        title: "Stock Write-off Register",
+        subtitle: `${register.from} to ${register.to}${register.reason ? `, ${REASON_LABELS[register.reason]}` : ""}`,
+        headers: [
+          "Date",
+          "Document",
+          "Product",
+          "Batch",
+          "Expiry",
+          "Reason",
+          "Quantity",
+          "Unit Cost",
+          "Value",
+          "Approved By",
+        ],
+        rows: register.lines.map((line) => [
+          line.posted_at.slice(0, 10),
+          line.write_off_number,
+          line.product_name,
+          line.batch_number,
+          line.expiry_date,
+          REASON_LABELS[line.reason],
+          line.quantity,
+          line.unit_cost,
+          line.total_value,
+          line.approved_by_name || "Below threshold",
+        ]),
+      },
+      format,
+      `write-off-register-${register.from}-${register.to}`,
+    )
+  }
+
+  if (detail) {
+    const { writeOff, items, photos } = detail
+    const isOpen = writeOff.status === "draft" || writeOff.status === "pending_approval"
+
+    return (
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <Link
+              href="/admin/inventory/write-offs"
+              className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2"
+            >
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              All write-offs
+            </Link>
+            <h2 className="text-2xl font-bold flex items-center gap-2">
+              {writeOff.write_off_number} {getStatusBadge(writeOff.status)}
+            </h2>
+            <p className="text-muted-foreground">
+              Raised {formatDate(writeOff.created_at)} · {writeOff.total_quantity} units ·{" "}
+              {formatCurrency(writeOff.total_value)} at cost
+              {writeOff.requires_approval &&
+                ` · above the ${formatCurrency(writeOff.approval_threshold || 0)} approval threshold`}
+            </p>
+          </div>
+          {isOpen && (
+            <div className="flex gap-2">
+              {writeOff.status === "draft" && (
+                <Button onClick={() => runAction(() => onSubmitWriteOff(writeOff.id))}>
+                  <Send className="h-4 w-4 mr-2" />
+                  Submit
+                </Button>
+              )}
+              {writeOff.status === "pending_approval" && (
+                <>
+                  <Button onClick={() => runAction(() => onApproveWriteOff(writeOff.id))}>
+                    <Check className="h-4 w-4 mr-2" />
+                    Approve & Post
+                  </Button>
+                  <Button variant="outline" onClick={() => setShowRejectDialog(true)}>
+                    <X className="h-4 w-4 mr-2" />
+                    Reject
+                  </Button>
+                </>
+              )}
+              <Button variant="ghost" onClick={() => runAction(() => onCancelWriteOff(writeOff.id))}>
+                Cancel
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {actionError && <p className="text-sm text-red-600">{actionError}</p>}
+
+        {writeOff.rejection_reason && <p className="text-sm text-red-600">Rejected: {writeOff.rejection_reason}</p>}
+        {writeOff.notes && <p className="text-sm text-muted-foreground">{writeOff.notes}</p>}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Stock Written Off</CardTitle>
+            <CardDescription>
+              {writeOff.posted_at
+                ? `Posted ${formatDate(writeOff.posted_at)}`
+                : "Stock leaves the batches when the write-off is posted"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Unit Cost</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <div className="font-medium">{item.product_name}</div>
+                        {item.notes && <div className="text-sm text-muted-foreground">{item.notes}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <code className="text-sm">{item.batch_number}</code>
+                        {item.expiry_date && (
+                          <div className="text-sm text-muted-foreground">Exp {formatDate(item.expiry_date)}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{REASON_LABELS[item.reason]}</TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(item.unit_cost)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(item.total_value)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Photos</CardTitle>
+            <CardDescription>
+              Breakage and leakage need at least one photo before the write-off can be submitted
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {photos.length === 0 && <p className="text-sm text-muted-foreground">No photos attached</p>}
+            <div className="grid grid-cols-4 gap-4">
+              {photos.map((writeOffPhoto) =>
+                writeOffPhoto.url ? (
+                  <a key={writeOffPhoto.id} href={writeOffPhoto.url} target="_blank" rel="noreferrer">
+                    <img
+                      src={writeOffPhoto.url}
+                      alt={writeOffPhoto.file_name || "Write-off photo"}
+                      className="h-32 w-full object-cover rounded-md border"
+                    />
+                  </a>
+                ) : (
+                  <div key={writeOffPhoto.id} className="text-sm text-muted-foreground">
+                    {writeOffPhoto.file_name}
+                  </div>
+                ),
+              )}
+            </div>
+            {isOpen && (
+              <div className="flex gap-2 max-w-md">
+                <Input
+                  type="file"
+                  accept="image/*"
+                  capture="environment"
+                  onChange={(e) => setPhoto(e.target.files?.[0] || null)}
+                />
+                <Button variant="outline" disabled={!photo || uploading} onClick={() => handleUpload(writeOff.id)}>
+                  <Camera className="h-4 w-4 mr-2" />
+                  {uploading ? "Uploading..." : "Attach"}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={showRejectDialog} onOpenChange={setShowRejectDialog}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Reject Write-off</DialogTitle>
+              <DialogDescription>
+                The stock stays on the batches; the person who raised it sees your reason
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="rejection_reason">Reason *</Label>
+              <Textarea
+                id="rejection_reason"
+                value={rejectionReason}
+                onChange={(e) => setRejectionReason(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end gap-2 mt-4">
+              <Button variant="outline" onClick={() => setShowRejectDialog(false)}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                disabled={!rejectionReason.trim()}
+                onClick={async () => {
+                  const rejected = await runAction(() => onRejectWriteOff(writeOff.id, rejectionReason))
+                  if (rejected) {
+                    setShowRejectDialog(false)
+                    setRejectionReason("")
+                  }
+                }}
+              >
+                Reject
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    )
+  }
+
+  const registerTotal = register.lines.reduce((sum, line) => sum + line.total_value, 0)
+  const registerByReason = (Object.keys(REASON_LABELS) as WriteOffReason[]).map((reason) => ({
+    reason,
+    quantity: register.lines.filter((line) => line.reason === reason).reduce((sum, line) => sum + line.quantity, 0),
+    value: register.lines.filter((line) => line.reason === reason).reduce((sum, line) => sum + line.total_value, 0),
+  }))
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Stock Write-offs</h2>
+          <p className="text-muted-foreground">Take expired, broken and leaking stock out of inventory</p>
+        </div>
+        <Button
+          onClick={() => {
+            setActionError(null)
+            setShowCreateDialog(true)
+          }}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Write-off
+        </Button>
+      </div>
+
+      {actionError && !showCreateDialog && <p className="text-sm text-red-600">{actionError}</p>}
+
+      <Tabs
+        defaultValue={tab}
+        onValueChange={(value: string) =>
+          router.push(value === "register" ? "/admin/inventory/write-offs?tab=register" : "/admin/inventory/write-offs")
+        }
+      >
+        <TabsList>
+          <TabsTrigger value="documents">Documents</TabsTrigger>
+          <TabsTrigger value="register">Register</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="documents" className="space-y-4">
+          <div className="flex justify-end">
+            <div className="w-48">
+              <Select
+                value={status || "all"}
+                onValueChange={(value: string) =>
+                  router.push(
+                    value === "all" ? "/admin/inventory/write-offs" : `/admin/inventory/write-offs?status=${value}`,
+                  )
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Write-offs</SelectItem>
+                  <SelectItem value="draft">Draft</SelectItem>
+                  <SelectItem value="pending_approval">Awaiting Approval</SelectItem>
+                  <SelectItem value="approved">Posted</SelectItem>
+                  <SelectItem value="rejected">Rejected</SelectItem>
+                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Write-off</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Lines</TableHead>
+                  <TableHead className="text-right">Units</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead>Raised</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {writeOffs.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      <PackageMinus className="h-4 w-4 inline mr-2" />
+                      No write-offs
+                    </TableCell>
+                  </TableRow>
+                )}
+                {writeOffs.map((writeOff) => (
+                  <TableRow
+                    key={writeOff.id}
+                    className="cursor-pointer"
+                    onClick={() => router.push(`/admin/inventory/write-offs?write_off=${writeOff.id}`)}
+                  >
+                    <TableCell>
+                      <div className="font-medium">{writeOff.write_off_number}</div>
+                      {writeOff.notes && (
+                        <div className="text-sm text-muted-foreground truncate max-w-xs">{writeOff.notes}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{getStatusBadge(writeOff.status)}</TableCell>
+                    <TableCell className="text-right">{writeOff.items_count}</TableCell>
+                    <TableCell className="text-right">{writeOff.total_quantity}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(writeOff.total_value)}</TableCell>
+                    <TableCell>{formatDate(writeOff.created_at)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="register" className="space-y-4">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="register_from">From</Label>
+                  <Input
+                    id="register_from"
+                    type="date"
+                    value={registerFrom}
+                    onChange={(e) => setRegisterFrom(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="register_to">To</Label>
+                  <Input
+                    id="register_to"
+                    type="date"
+                    value={registerTo}
+                    onChange={(e) => setRegisterTo(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Reason</Label>
+                  <Select value={registerReason} onValueChange={(value: string) => setRegisterReason(value)}>
+                    <SelectTrigger className="w-[160px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All reasons</SelectItem>
+                      {Object.entries(REASON_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={applyRegisterFilters}>Show</Button>
+                <div className="flex gap-2 ml-auto">
+                  {(["csv", "xlsx", "pdf"] as ExportFormat[]).map((format) => (
+                    <Button key={format} variant="outline" onClick={() => exportRegister(format)}>
+                      <FileDown className="h-4 w-4 mr-2" />
+                      {format.toUpperCase()}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-5 gap-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Total Written Off</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatCurrency(registerTotal)}</div>
+              </CardContent>
+            </Card>
+            {registerByReason.map((total) => (
+              <Card key={total.reason}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">{REASON_LABELS[total.reason]}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{formatCurrency(total.value)}</div>
+                  <div className="text-sm text-muted-foreground">{total.quantity} units</div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Document</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Batch</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead>Approved By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {register.lines.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-muted-foreground">
+                      Nothing written off in this period
+                    </TableCell>
+                  </TableRow>
+                )}
+                {register.lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell>{formatDate(line.posted_at)}</TableCell>
+                    <TableCell>
+                      <Link
+                        href={`/admin/inventory/write-offs?write_off=${line.write_off_id}`}
+                        className="font-medium hover:underline"
+                      >
+                        {line.write_off_number}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{line.product_name}</TableCell>
+                    <TableCell>
+                      <code className="text-sm">{line.batch_number}</code>
+                    </TableCell>
+                    <TableCell>{REASON_LABELS[line.reason]}</TableCell>
+                    <TableCell className="text-right">{line.quantity}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(line.total_value)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {line.approved_by_name || "Below threshold"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>New Write-off</DialogTitle>
+            <DialogDescription>
+              Choose the batches and quantities to write off. You can attach photos once the document is saved.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {lines.map((line, index) => {
+              const batch = batches.find((b) => b.id === line.batch_id)
+              return (
+                <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                  <div className="col-span-5 space-y-1">
+                    <Label>Batch</Label>
+                    <Select
+                      value={line.batch_id}
+                      onValueChange={(value: string) => updateLine(index, { batch_id: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select batch" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {batches.map((option) => (
+                          <SelectItem key={option.id} value={option.id}>
+                            {option.product_name} · {option.batch_number} ({option.quantity_available})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-2 space-y-1">
+                    <Label>Quantity</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={batch?.quantity_available}
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: Number.parseInt(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <div className="col-span-2 space-y-1">
+                    <Label>Reason</Label>
+                    <Select
+                      value={line.reason}
+                      onValueChange={(value: string) => updateLine(index, { reason: value as WriteOffReason })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(REASON_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-2 space-y-1">
+                    <Label>Value</Label>
+                    <div className="h-10 flex items-center text-sm">
+                      {formatCurrency(getBatchCost(batch) * line.quantity)}
+                    </div>
+                  </div>
+                  <div className="col-span-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setLines(lines.filter((_, lineIndex) => lineIndex !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setLines([...lines, { batch_id: "", quantity: 1, reason: "expired", notes: "" }])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Batch
+            </Button>
+            <div className="space-y-2">
+              <Label htmlFor="write_off_notes">Notes</Label>
+              <Textarea id="write_off_notes" value={documentNotes} onChange={(e) => setDocumentNotes(e.target.value)} />
+            </div>
+            <div className="text-sm">
+              Total at cost: <span className="font-medium">{formatCurrency(draftValue)}</span>
+            </div>
+            {actionError && <p className="text-sm text-red-600">{actionError}</p>}
+          </div>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={lines.length === 0 || lines.some((line) => !line.batch_id || line.quantity <= 0)}
+            >
+              Save Draft
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,586 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { AlertTriangle, ArrowRightLeft, MapPin, PackageCheck, Plus } from "lucide-react"
+import { formatDate } from "@/lib/utils"
+import type { StorageClass } from "@/lib/inventory/putaway"
+import type {
+  BinMovement,
+  PendingPutaway,
+  StorageBinData,
+  StorageBinRecord,
+  StorageComplianceLine,
+} from "@/lib/services/storage-bin.service"
+import type { Warehouse } from "@/lib/services/inventory.service"
+
+interface StorageBinsProps {
+  bins: StorageBinRecord[]
+  pending: PendingPutaway[]
+  movements: BinMovement[]
+  violations: StorageComplianceLine[]
+  warehouses: Warehouse[]
+  onCreateBin: (binData: StorageBinData) => Promise<unknown>
+  onSetBinActive: (id: string, updates: { is_active: boolean }) => Promise<unknown>
+  onPutaway: (batchId: string, binId?: string) => Promise<unknown>
+  onMove: (batchId: string, binId: string, reason?: string) => Promise<unknown>
+}
+
+const STORAGE_CLASSES: Array<{ value: StorageClass; label: string }> = [
+  { value: "standard", label: "Standard" },
+  { value: "refrigerated", label: "Refrigerated" },
+  { value: "frozen", label: "Frozen" },
+  { value: "hazmat", label: "Hazmat" },
+]
+
+const EMPTY_BIN_FORM = {
+  warehouse_id: "",
+  code: "",
+  zone: "",
+  aisle: "",
+  shelf: "",
+  storage_class: "standard" as StorageClass,
+  max_temperature: "",
+  capacity: "",
+  notes: "",
+}
+
+function StorageClassBadge({ storageClass }: { storageClass: StorageClass }) {
+  const variants: Record<StorageClass, string> = {
+    standard: "bg-gray-100 text-gray-800",
+    refrigerated: "bg-blue-100 text-blue-800",
+    frozen: "bg-indigo-100 text-indigo-800",
+    hazmat: "bg-orange-100 text-orange-800",
+  }
+  return <Badge className={variants[storageClass]}>{storageClass}</Badge>
+}
+
+export function StorageBins({
+  bins,
+  pending,
+  movements,
+  violations,
+  warehouses,
+  onCreateBin,
+  onSetBinActive,
+  onPutaway,
+  onMove,
+}: StorageBinsProps) {
+  const router = useRouter()
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [showBinDialog, setShowBinDialog] = useState(false)
+  const [binForm, setBinForm] = useState(EMPTY_BIN_FORM)
+  const [chosenBins, setChosenBins] = useState<Record<string, string>>({})
+  const [moveBatch, setMoveBatch] = useState<StorageComplianceLine | null>(null)
+  const [move, setMove] = useState({ bin_id: "", reason: "" })
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setActionError(null)
+      await action()
+      router.refresh()
+      return true
+    } catch (error) {
+      console.error("Error updating bins:", error)
+      setActionError(error instanceof Error ? error.message : "Bin update failed")
+      return false
+    }
+  }
+
+  const binLabel = (bin: StorageBinRecord) =>
+    `${bin.code} · ${bin.storage_class}${bin.capacity ? ` · ${Math.max(bin.capacity - bin.occupied, 0)} free` : ""}`
+  const activeBins = bins.filter((bin) => bin.is_active)
+
+  const saveBin = async () => {
+    const saved = await runAction(() =>
+      onCreateBin({
+        warehouse_id: binForm.warehouse_id,
+        code: binForm.code,
+        zone: binForm.zone || undefined,
+        aisle: binForm.aisle || undefined,
+        shelf: binForm.shelf || undefined,
+        storage_class: binForm.storage_class,
+        max_temperature: binForm.max_temperature === "" ? null : Number.parseFloat(binForm.max_temperature),
+        capacity: binForm.capacity === "" ? null : Number.parseInt(binForm.capacity),
+        notes: binForm.notes || undefined,
+      }),
+    )
+    if (saved) {
+      setShowBinDialog(false)
+      setBinForm(EMPTY_BIN_FORM)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Bin Locations</h2>
+          <p className="text-muted-foreground">
+            Where each batch is stored, putaway of received batches and storage-condition compliance
+          </p>
+        </div>
+        <Button onClick={() => setShowBinDialog(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Bin
+        </Button>
+      </div>
+
+      {actionError && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{actionError}</div>
+      )}
+
+      <Tabs defaultValue={pending.length > 0 ? "putaway" : "bins"}>
+        <TabsList>
+          <TabsTrigger value="bins">Bins ({bins.length})</TabsTrigger>
+          <TabsTrigger value="putaway">Putaway ({pending.length})</TabsTrigger>
+          <TabsTrigger value="compliance">Compliance ({violations.length})</TabsTrigger>
+          <TabsTrigger value="movements">Movements</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="bins">
+          <Card>
+            <CardContent className="pt-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Bin</TableHead>
+                    <TableHead>Warehouse</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Class</TableHead>
+                    <TableHead className="text-right">Max °C</TableHead>
+                    <TableHead className="text-right">Occupied</TableHead>
+                    <TableHead className="text-right">Batches</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {bins.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center text-muted-foreground">
+                        No bins set up yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {bins.map((bin) => (
+                    <TableRow key={bin.id} className={bin.is_active ? "" : "opacity-50"}>
+                      <TableCell className="font-medium">{bin.code}</TableCell>
+                      <TableCell>{bin.warehouse_name}</TableCell>
+                      <TableCell>{[bin.zone, bin.aisle, bin.shelf].filter(Boolean).join(" / ") || "-"}</TableCell>
+                      <TableCell>
+                        <StorageClassBadge storageClass={bin.storage_class} />
+                      </TableCell>
+                      <TableCell className="text-right">{bin.max_temperature ?? "-"}</TableCell>
+                      <TableCell className="text-right">
+                        {bin.occupied}
+                        {bin.capacity ? ` / ${bin.capacity}` : ""}
+                      </TableCell>
+                      <TableCell className="text-right">{bin.batch_count}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => runAction(() => onSetBinActive(bin.id, { is_active: !bin.is_active }))}
+                        >
+                          {bin.is_active ? "Deactivate" : "Activate"}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="putaway">
+          <Card>
+            <CardHeader>
+              <CardTitle>Awaiting Putaway</CardTitle>
+              <CardDescription>
+                Received batches with a suggested bin that suits the product&apos;s storage conditions
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Batch</TableHead>
+                    <TableHead className="text-right">Units</TableHead>
+                    <TableHead>Needs</TableHead>
+                    <TableHead>Suggested</TableHead>
+                    <TableHead className="w-56">Bin</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pending.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        Every received batch has been put away
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {pending.map((line) => {
+                    const binId = chosenBins[line.batch_id] || line.suggestion?.bin_id || ""
+                    return (
+                      <TableRow key={line.batch_id}>
+                        <TableCell>
+                          <div className="font-medium">{line.product_name}</div>
+                          <div className="text-sm text-muted-foreground">{line.batch_number}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{line.quantity}</TableCell>
+                        <TableCell>
+                          <StorageClassBadge storageClass={line.requirement.storage_class} />
+                          {line.requirement.max_temperature !== null && (
+                            <div className="text-sm text-muted-foreground">
+                              ≤ {line.requirement.max_temperature}°C
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {line.suggestion ? (
+                            <>
+                              <div className="font-medium">{line.suggestion.code}</div>
+                              <div className="text-sm text-muted-foreground">{line.suggestion.reason}</div>
+                            </>
+                          ) : (
+                            <span className="text-sm text-orange-600">No suitable bin with room</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={binId}
+                            onValueChange={(value) => setChosenBins({ ...chosenBins, [line.batch_id]: value })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Choose bin" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {activeBins
+                                .filter((bin) => !line.warehouse_id || bin.warehouse_id === line.warehouse_id)
+                                .map((bin) => (
+                                  <SelectItem key={bin.id} value={bin.id}>
+                                    {binLabel(bin)}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            disabled={!binId}
+                            onClick={() => runAction(() => onPutaway(line.batch_id, binId))}
+                          >
+                            <PackageCheck className="h-4 w-4 mr-2" />
+                            Put Away
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="compliance">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5 text-orange-500" />
+                Storage Compliance
+              </CardTitle>
+              <CardDescription>
+                Batches stored in a bin that does not meet the product&apos;s conditions
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Bin</TableHead>
+                    <TableHead className="text-right">Units</TableHead>
+                    <TableHead>Problem</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {violations.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        All stored batches are in suitable bins
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {violations.map((line) => (
+                    <TableRow key={line.batch_id}>
+                      <TableCell>
+                        <div className="font-medium">{line.product_name}</div>
+                        <div className="text-sm text-muted-foreground">{line.batch_number}</div>
+                        {line.storage_conditions && (
+                          <div className="text-xs text-muted-foreground">{line.storage_conditions}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {line.bin_code}
+                        <div className="text-sm text-muted-foreground">{line.warehouse_name}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{line.quantity}</TableCell>
+                      <TableCell className="text-sm text-red-600">
+                        {line.reasons.map((reason) => (
+                          <div key={reason}>{reason}</div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => setMoveBatch(line)}>
+                          <ArrowRightLeft className="h-4 w-4 mr-2" />
+                          Move
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="movements">
+          <Card>
+            <CardContent className="pt-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>From</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead className="text-right">Units</TableHead>
+                    <TableHead>Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {movements.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        No bin movements yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {movements.map((movement) => (
+                    <TableRow key={movement.id}>
+                      <TableCell>{formatDate(movement.created_at)}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{movement.product_name}</div>
+                        <div className="text-sm text-muted-foreground">{movement.batch_number}</div>
+                      </TableCell>
+                      <TableCell>{movement.from_bin_code || <Badge variant="outline">Receipt</Badge>}</TableCell>
+                      <TableCell className="flex items-center gap-1">
+                        <MapPin className="h-3 w-3" />
+                        {movement.to_bin_code}
+                      </TableCell>
+                      <TableCell className="text-right">{movement.quantity}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{movement.reason || "-"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* New bin */}
+      <Dialog open={showBinDialog} onOpenChange={setShowBinDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Bin</DialogTitle>
+            <DialogDescription>A shelf, fridge or cabinet that batches are put away into</DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Warehouse</Label>
+              <Select
+                value={binForm.warehouse_id}
+                onValueChange={(value) => setBinForm({ ...binForm, warehouse_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select warehouse" />
+                </SelectTrigger>
+                <SelectContent>
+                  {warehouses.map((warehouse) => (
+                    <SelectItem key={warehouse.id} value={warehouse.id}>
+                      {warehouse.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bin_code">Code</Label>
+              <Input
+                id="bin_code"
+                placeholder="A-01-03"
+                value={binForm.code}
+                onChange={(e) => setBinForm({ ...binForm, code: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bin_zone">Zone</Label>
+              <Input
+                id="bin_zone"
+                value={binForm.zone}
+                onChange={(e) => setBinForm({ ...binForm, zone: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bin_aisle">Aisle / Shelf</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="bin_aisle"
+                  value={binForm.aisle}
+                  onChange={(e) => setBinForm({ ...binForm, aisle: e.target.value })}
+                />
+                <Input value={binForm.shelf} onChange={(e) => setBinForm({ ...binForm, shelf: e.target.value })} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Storage class</Label>
+              <Select
+                value={binForm.storage_class}
+                onValueChange={(value) => setBinForm({ ...binForm, storage_class: value as StorageClass })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STORAGE_CLASSES.map((storageClass) => (
+                    <SelectItem key={storageClass.value} value={storageClass.value}>
+                      {storageClass.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bin_temperature">Max temperature (°C)</Label>
+              <Input
+                id="bin_temperature"
+                type="number"
+                step="0.5"
+                value={binForm.max_temperature}
+                onChange={(e) => setBinForm({ ...binForm, max_temperature: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bin_capacity">Capacity (units)</Label>
+              <Input
+                id="bin_capacity"
+                type="number"
+                min={1}
+                placeholder="No limit"
+                value={binForm.capacity}
+                onChange={(e) => setBinForm({ ...binForm, capacity: e.target.value })}
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="bin_notes">Notes</Label>
+              <Textarea
+                id="bin_notes"
+                value={binForm.notes}
+                onChange={(e) => setBinForm({ ...binForm, notes: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={() => setShowBinDialog(false)}>
+              Cancel
+            </Button>
+            <Button disabled={!binForm.warehouse_id || !binForm.code.trim()} onClick={saveBin}>
+              Create Bin
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Move batch */}
+      <Dialog
+        open={!!moveBatch}
+        onOpenChange={(open) => {
+          if (!open) {
+            setMoveBatch(null)
+            setMove({ bin_id: "", reason: "" })
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Move {moveBatch?.batch_number}</DialogTitle>
+            <DialogDescription>
+              {moveBatch?.product_name} · now in {moveBatch?.bin_code}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>To bin</Label>
+              <Select value={move.bin_id} onValueChange={(value) => setMove({ ...move, bin_id: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose bin" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeBins
+                    .filter((bin) => bin.id !== moveBatch?.bin_id)
+                    .map((bin) => (
+                      <SelectItem key={bin.id} value={bin.id}>
+                        {binLabel(bin)}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="move_reason">Reason</Label>
+              <Textarea
+                id="move_reason"
+                value={move.reason}
+                onChange={(e) => setMove({ ...move, reason: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={() => setMoveBatch(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!move.bin_id}
+              onClick={async () => {
+                if (!moveBatch) return
+                const moved = await runAction(() => onMove(moveBatch.batch_id, move.bin_id, move.reason || undefined))
+                if (moved) {
+                  setMoveBatch(null)
+                  setMove({ bin_id: "", reason: "" })
+                }
+              }}
+            >
+              Move
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { CheckCircle, ScanLine, XCircle } from "lucide-react"
+import { BarcodeScannerInput } from "@/components/admin/inventory/barcode-scanner-input"
+import type { PickScanResult } from "@/lib/services/barcode.service"
+
+interface PickAllocation {
+  id: string
+  order_item_id: string
+  batch_number: string
+  expiry_date: string
+  quantity: number
+  status: string
+}
+
+interface PickItem {
+  id: string
+  name: string
+  quantity: number
+}
+
+interface OrderPickingProps {
+  orderId: string
+  items: PickItem[]
+  allocations: PickAllocation[]
+  onVerifyScan: (orderId: string, code: string) => Promise<PickScanResult>
+}
+
+// Pick lines are the batch allocations where the item has them, otherwise the order line itself
+export function OrderPicking({ orderId, items, allocations, onVerifyScan }: OrderPickingProps) {
+  const [picked, setPicked] = useState<Record<string, number>>({})
+  const [lastScan, setLastScan] = useState<PickScanResult | null>(null)
+  const [scanError, setScanError] = useState("")
+
+  const activeAllocations = allocations.filter((allocation) => allocation.status !== "released")
+  const pickLines = items.flatMap((item) => {
+    const itemAllocations = activeAllocations.filter((allocation) => allocation.order_item_id === item.id)
+    if (itemAllocations.length === 0) {
+      return [{ key: item.id, name: item.name, detail: "", quantity: item.quantity }]
+    }
+    return itemAllocations.map((allocation) => ({
+      key: allocation.id,
+      name: item.name,
+      detail: `Batch ${allocation.batch_number} · Exp ${allocation.expiry_date}`,
+      quantity: allocation.quantity,
+    }))
+  })
+
+  const complete = pickLines.every((line) => (picked[line.key] || 0) >= line.quantity)
+
+  const handleScan = async (code: string) => {
+    try {
+      const result = await onVerifyScan(orderId, code)
+      setLastScan(result)
+      setScanError("")
+
+      const key = result.allocation_id || result.order_item_id
+      const line = pickLines.find((pickLine) => pickLine.key === key)
+      if (result.result !== "match" || !key || !line) return
+
+      if ((picked[key] || 0) >= line.quantity) {
+        setScanError(`${line.name} is already fully picked`)
+        return
+      }
+      setPicked((current) => ({ ...current, [key]: (current[key] || 0) + 1 }))
+    } catch (error) {
+      setScanError(error instanceof Error ? error.message : "Scan not recognised")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ScanLine className="h-5 w-5" />
+          Picking
+          {complete && <Badge className="bg-green-100 text-green-800">All picked</Badge>}
+        </CardTitle>
+        <CardDescription>Scan each pack to confirm the right product and batch leaves the shelf</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <BarcodeScannerInput placeholder="Scan pack barcode or GS1 label" onScan={handleScan} error={scanError} />
+
+        {lastScan && (
+          <div
+            className={`flex items-center gap-2 text-sm ${lastScan.result === "match" ? "text-green-700" : "text-red-600"}`}
+          >
+            {lastScan.result === "match" ? <CheckCircle className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+            {lastScan.message}
+            {lastScan.expiry_date && <span className="text-muted-foreground">· Exp {lastScan.expiry_date}</span>}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {pickLines.map((line) => (
+            <div key={line.key} className="flex items-center justify-between p-3 border rounded-lg">
+              <div>
+                <div className="font-medium">{line.name}</div>
+                {line.detail && <div className="text-sm text-muted-foreground">{line.detail}</div>}
+              </div>
+              <Badge
+                variant="secondary"
+                className={(picked[line.key] || 0) >= line.quantity ? "bg-green-100 text-green-800" : ""}
+              >
+                {picked[line.key] || 0} / {line.quantity}
+              </Badge>
+            </div>
+          ))}
+        </div>
+
+        {Object.keys(picked).length > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => setPicked({})}>
+            Reset
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
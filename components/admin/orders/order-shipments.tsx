@@ -0,0 +1,344 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { CheckCircle, Plus, Truck } from "lucide-react"
+import { getShippedQuantities } from "@/lib/orders/fulfillment"
+import type { CreateShipmentData, Shipment } from "@/lib/services/fulfillment.service"
+
+interface ShipmentAllocationOption {
+  id: string
+  order_item_id: string
+  batch_number: string
+  expiry_date: string
+  quantity: number
+  quantity_shipped?: number
+  kit_product_id?: string | null
+  status: string
+}
+
+interface ShipmentLineItem {
+  id: string
+  name: string
+  quantity: number
+}
+
+interface OrderShipmentsProps {
+  orderId: string
+  items: ShipmentLineItem[]
+  allocations: ShipmentAllocationOption[]
+  shipments: Shipment[]
+  warehouses: Array<{ id: string; name: string }>
+  canShip: boolean
+  onCreateShipment: (orderId: string, shipmentData: CreateShipmentData) => Promise<unknown>
+  onMarkDelivered: (fulfillmentId: string) => Promise<unknown>
+  onChanged: () => Promise<void>
+}
+
+const AUTO_BATCH = "auto"
+
+export function OrderShipments({
+  orderId,
+  items,
+  allocations,
+  shipments,
+  warehouses,
+  canShip,
+  onCreateShipment,
+  onMarkDelivered,
+  onChanged,
+}: OrderShipmentsProps) {
+  const [showDialog, setShowDialog] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [quantities, setQuantities] = useState<Record<string, string>>({})
+  const [batchChoices, setBatchChoices] = useState<Record<string, string>>({})
+  const [details, setDetails] = useState({
+    warehouse_id: warehouses[0]?.id || "",
+    shipping_carrier: "",
+    tracking_number: "",
+    tracking_url: "",
+    package_weight_kg: "",
+    notes: "",
+  })
+
+  const shipped = getShippedQuantities(
+    shipments
+      .filter((shipment) => shipment.status !== "cancelled")
+      .flatMap((shipment) => shipment.order_fulfillment_items),
+  )
+  const remaining = (item: ShipmentLineItem) => Math.max(item.quantity - (shipped.get(item.id) || 0), 0)
+  const openItems = items.filter((item) => remaining(item) > 0)
+  const itemName = (orderItemId: string) => items.find((item) => item.id === orderItemId)?.name || "Item"
+
+  // Only the line's own batches are offered; kit components follow the kits they build
+  const batchOptions = (item: ShipmentLineItem) =>
+    allocations.filter(
+      (allocation) =>
+        allocation.order_item_id === item.id &&
+        allocation.status === "allocated" &&
+        !allocation.kit_product_id &&
+        allocation.quantity - (allocation.quantity_shipped || 0) > 0,
+    )
+
+  const openDialog = () => {
+    setQuantities(Object.fromEntries(openItems.map((item) => [item.id, String(remaining(item))])))
+    setBatchChoices({})
+    setActionError(null)
+    setShowDialog(true)
+  }
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setSaving(true)
+      setActionError(null)
+      await action()
+      await onChanged()
+      return true
+    } catch (error) {
+      console.error("Error updating shipments:", error)
+      setActionError(error instanceof Error ? error.message : "Shipment update failed")
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const createShipment = async () => {
+    const lines = openItems
+      .map((item) => ({
+        order_item_id: item.id,
+        quantity: Number.parseInt(quantities[item.id] || "0") || 0,
+        allocation_ids:
+          batchChoices[item.id] && batchChoices[item.id] !== AUTO_BATCH ? [batchChoices[item.id]] : undefined,
+      }))
+      .filter((line) => line.quantity > 0)
+
+    const created = await runAction(() =>
+      onCreateShipment(orderId, {
+        warehouse_id: details.warehouse_id,
+        lines,
+        shipping_carrier: details.shipping_carrier,
+        tracking_number: details.tracking_number || undefined,
+        tracking_url: details.tracking_url || undefined,
+        package_weight_kg: details.package_weight_kg === "" ? null : Number.parseFloat(details.package_weight_kg),
+        notes: details.notes || undefined,
+      }),
+    )
+    if (created) {
+      setShowDialog(false)
+      setDetails({ ...details, tracking_number: "", tracking_url: "", package_weight_kg: "", notes: "" })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Truck className="h-5 w-5" />
+              Shipments
+            </CardTitle>
+            <CardDescription>
+              {items.reduce((sum, item) => sum + (shipped.get(item.id) || 0), 0)} of{" "}
+              {items.reduce((sum, item) => sum + item.quantity, 0)} units shipped in {shipments.length} shipments
+            </CardDescription>
+          </div>
+          {canShip && openItems.length > 0 && (
+            <Button size="sm" onClick={openDialog}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Shipment
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {actionError && !showDialog && <div className="text-sm text-red-600">{actionError}</div>}
+
+        {shipments.length === 0 && <p className="text-sm text-muted-foreground">Nothing has shipped yet</p>}
+
+        {shipments.map((shipment) => (
+          <div key={shipment.id} className="rounded-lg border p-4 space-y-3">
+            <div className="flex justify-between items-start">
+              <div>
+                <div className="font-medium">{shipment.fulfillment_number}</div>
+                <div className="text-sm text-muted-foreground">
+                  {shipment.shipping_carrier}
+                  {shipment.tracking_number && ` · ${shipment.tracking_number}`}
+                  {shipment.package_weight_kg && ` · ${shipment.package_weight_kg} kg`}
+                  {shipment.shipped_at && ` · shipped ${new Date(shipment.shipped_at).toLocaleDateString()}`}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className="capitalize">
+                  {shipment.status}
+                </Badge>
+                {shipment.status === "shipped" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={saving}
+                    onClick={() => runAction(() => onMarkDelivered(shipment.id))}
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Delivered
+                  </Button>
+                )}
+              </div>
+            </div>
+            <div className="space-y-1 text-sm">
+              {shipment.order_fulfillment_items.map((item) => (
+                <div key={item.id} className="flex justify-between gap-4">
+                  <span>
+                    {item.order_items?.product_snapshot.name || itemName(item.order_item_id)} × {item.quantity}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {(item.order_fulfillment_batches || [])
+                      .map((batch) => `${batch.batch_number} (${batch.quantity})`)
+                      .join(", ")}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Shipment</DialogTitle>
+            <DialogDescription>
+              Choose what goes in this package; anything left stays open for a later shipment
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {openItems.map((item) => (
+              <div key={item.id} className="grid grid-cols-[1fr_6rem_12rem] items-end gap-3">
+                <div>
+                  <div className="font-medium">{item.name}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {remaining(item)} of {item.quantity} left to ship
+                  </div>
+                </div>
+                <Input
+                  type="number"
+                  min={0}
+                  max={remaining(item)}
+                  value={quantities[item.id] || ""}
+                  onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                />
+                <Select
+                  value={batchChoices[item.id] || AUTO_BATCH}
+                  onValueChange={(value) => setBatchChoices({ ...batchChoices, [item.id]: value })}
+                  disabled={batchOptions(item).length === 0}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO_BATCH}>Earliest expiry</SelectItem>
+                    {batchOptions(item).map((allocation) => (
+                      <SelectItem key={allocation.id} value={allocation.id}>
+                        {allocation.batch_number} · {allocation.quantity - (allocation.quantity_shipped || 0)} left
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Ships from</Label>
+                <Select
+                  value={details.warehouse_id}
+                  onValueChange={(value) => setDetails({ ...details, warehouse_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select warehouse" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {warehouses.map((warehouse) => (
+                      <SelectItem key={warehouse.id} value={warehouse.id}>
+                        {warehouse.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shipping_carrier">Carrier</Label>
+                <Input
+                  id="shipping_carrier"
+                  value={details.shipping_carrier}
+                  onChange={(e) => setDetails({ ...details, shipping_carrier: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tracking_number">Tracking number</Label>
+                <Input
+                  id="tracking_number"
+                  value={details.tracking_number}
+                  onChange={(e) => setDetails({ ...details, tracking_number: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tracking_url">Tracking link</Label>
+                <Input
+                  id="tracking_url"
+                  type="url"
+                  value={details.tracking_url}
+                  onChange={(e) => setDetails({ ...details, tracking_url: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="package_weight_kg">Package weight (kg)</Label>
+                <Input
+                  id="package_weight_kg"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={details.package_weight_kg}
+                  onChange={(e) => setDetails({ ...details, package_weight_kg: e.target.value })}
+                />
+              </div>
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="shipment_notes">Notes</Label>
+                <Textarea
+                  id="shipment_notes"
+                  rows={2}
+                  value={details.notes}
+                  onChange={(e) => setDetails({ ...details, notes: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {actionError && <div className="text-sm text-red-600">{actionError}</div>}
+          </div>
+
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={() => setShowDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={saving || !details.warehouse_id || !details.shipping_carrier.trim()}
+              onClick={createShipment}
+            >
+              {saving ? "Shipping..." : "Create Shipment"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
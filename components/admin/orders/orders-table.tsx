@@ -6,10 +6,11 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
-import { MoreHorizontal, Eye, Package, Truck, CheckCircle, XCircle } from "lucide-react"
+import { MoreHorizontal, Eye, Package, CheckCircle, XCircle, RotateCcw } from "lucide-react"
 import Link from "next/link"
 import { formatCurrency, formatDate } from "@/lib/utils"
 import { updateOrderStatus } from "@/lib/services/order.service"
+import { getAvailableOrderActions } from "@/lib/orders/order-state"
 import { useRouter } from "next/navigation"
 import { toast } from "sonner"
 
@@ -22,6 +23,14 @@ interface OrdersTableProps {
   }
 }
 
+const ACTION_ICONS: Record<string, typeof CheckCircle> = {
+  confirmed: CheckCircle,
+  processing: Package,
+  delivered: CheckCircle,
+  refunded: RotateCcw,
+  cancelled: XCircle,
+}
+
 export function OrdersTable({ orders, pagination }: OrdersTableProps) {
   const [loading, setLoading] = useState<string | null>(null)
   const router = useRouter()
@@ -69,7 +78,7 @@ export function OrdersTable({ orders, pagination }: OrdersTableProps) {
       toast.success(`Order status updated to ${newStatus}`)
       router.refresh()
     } catch (error) {
-      toast.error(`Failed to update order status: ${error}`)
+      toast.error(error instanceof Error ? error.message : `Failed to update order status: ${error}`)
     } finally {
       setLoading(null)
     }
@@ -134,43 +143,21 @@ export function OrdersTable({ orders, pagination }: OrdersTableProps) {
                         </Link>
                       </DropdownMenuItem>
 
-                      {order.status === "pending" && (
-                        <DropdownMenuItem onClick={() => handleStatusUpdate(order.id, "confirmed")}>
-                          <CheckCircle className="h-4 w-4 mr-2" />
-                          Confirm Order
-                        </DropdownMenuItem>
-                      )}
-
-                      {order.status === "confirmed" && (
-                        <DropdownMenuItem onClick={() => handleStatusUpdate(order.id, "processing")}>
-                          <Package className="h-4 w-4 mr-2" />
-                          Start Processing
-                        </DropdownMenuItem>
-                      )}
-
-                      {order.status === "processing" && (
-                        <DropdownMenuItem onClick={() => handleStatusUpdate(order.id, "shipped")}>
-                          <Truck className="h-4 w-4 mr-2" />
-                          Mark as Shipped
-                        </DropdownMenuItem>
-                      )}
-
-                      {order.status === "shipped" && (
-                        <DropdownMenuItem onClick={() => handleStatusUpdate(order.id, "delivered")}>
-                          <CheckCircle className="h-4 w-4 mr-2" />
-                          Mark as Delivered
-                        </DropdownMenuItem>
-                      )}
-
-                      {!["cancelled", "delivered", "refunded"].includes(order.status) && (
-                        <DropdownMenuItem
-                          onClick={() => handleStatusUpdate(order.id, "cancelled")}
-                          className="text-red-600"
-                        >
-                          <XCircle className="h-4 w-4 mr-2" />
-                          Cancel Order
-                        </DropdownMenuItem>
-                      )}
+                      {getAvailableOrderActions(order)
+                        .filter((action) => action.status_type === "order" && action.allowed)
+                        .map((action) => {
+                          const Icon = ACTION_ICONS[action.to] || CheckCircle
+                          return (
+                            <DropdownMenuItem
+                              key={action.to}
+                              onClick={() => handleStatusUpdate(order.id, action.to as Order["status"])}
+                              className={action.destructive ? "text-red-600" : undefined}
+                            >
+                              <Icon className="h-4 w-4 mr-2" />
+                              {action.label}
+                            </DropdownMenuItem>
+                          )
+                        })}
                     </DropdownMenuContent>
                   </DropdownMenu>
                 </TableCell>
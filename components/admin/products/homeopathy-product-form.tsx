@@ -58,6 +58,7 @@ export function HomeopathyProductForm({
     dosage_instructions: product?.dosage_instructions || "",
     contraindications: product?.contraindications || "",
     storage_conditions: product?.storage_conditions || "",
+    storage_type: product?.storage_type || "standard",
 
     // Manufacturer
     manufacturer_name: product?.manufacturer_name || "",
@@ -417,6 +418,22 @@ export function HomeopathyProductForm({
                   rows={2}
                 />
               </div>
+
+              <div className="space-y-2">
+                <Label>Storage Type</Label>
+                <Select value={formData.storage_type} onValueChange={(value) => handleInputChange("storage_type", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="standard">Standard</SelectItem>
+                    <SelectItem value="refrigerated">Refrigerated</SelectItem>
+                    <SelectItem value="frozen">Frozen</SelectItem>
+                    <SelectItem value="hazmat">Hazmat</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">Decides which bins received batches are put away into</p>
+              </div>
             </CardContent>
           </Card>
         </TabsContent>
@@ -84,6 +84,36 @@ export function ProductFilters({ categories }: ProductFiltersProps) {
         </SelectContent>
       </Select>
 
+      <Select
+        value={searchParams.get("abc") || "all"}
+        onValueChange={(value: string) => handleFilterChange("abc", value === "all" ? "" : value)}
+      >
+        <SelectTrigger className="w-[130px]">
+          <SelectValue placeholder="All ABC" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All ABC</SelectItem>
+          <SelectItem value="A">A class</SelectItem>
+          <SelectItem value="B">B class</SelectItem>
+          <SelectItem value="C">C class</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={searchParams.get("xyz") || "all"}
+        onValueChange={(value: string) => handleFilterChange("xyz", value === "all" ? "" : value)}
+      >
+        <SelectTrigger className="w-[130px]">
+          <SelectValue placeholder="All XYZ" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All XYZ</SelectItem>
+          <SelectItem value="X">X (steady)</SelectItem>
+          <SelectItem value="Y">Y (variable)</SelectItem>
+          <SelectItem value="Z">Z (erratic)</SelectItem>
+        </SelectContent>
+      </Select>
+
       {hasFilters && (
         <Button variant="outline" onClick={clearFilters}>
           <X className="h-4 w-4 mr-2" />
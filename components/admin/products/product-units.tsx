@@ -0,0 +1,165 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { ArrowLeft, Plus, Trash2 } from "lucide-react"
+import type { ProductUnit, ProductUnitConfig } from "@/lib/inventory/uom"
+
+interface ProductUnitsProps {
+  product: { id: string; name: string; sku?: string }
+  config: ProductUnitConfig
+  onSave: (productId: string, config: ProductUnitConfig) => Promise<unknown>
+}
+
+export function ProductUnits({ product, config, onSave }: ProductUnitsProps) {
+  const router = useRouter()
+  const [stockUnit, setStockUnit] = useState(config.stock_unit)
+  const [units, setUnits] = useState<ProductUnit[]>(config.units)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const updateUnit = (index: number, changes: Partial<ProductUnit>) => {
+    setUnits(units.map((unit, i) => (i === index ? { ...unit, ...changes } : unit)))
+  }
+
+  // Only one unit can be the default for purchasing and one for selling
+  const setDefault = (index: number, field: "is_purchase_default" | "is_sales_default", value: boolean) => {
+    setUnits(units.map((unit, i) => ({ ...unit, [field]: i === index ? value : value ? false : unit[field] })))
+  }
+
+  const save = async () => {
+    try {
+      setSaving(true)
+      setError(null)
+      await onSave(product.id, { stock_unit: stockUnit, units: units.filter((unit) => unit.unit.trim()) })
+      router.refresh()
+    } catch (error) {
+      console.error("Error saving product units:", error)
+      setError(error instanceof Error ? error.message : "Saving units failed")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Units of Measure</h2>
+          <p className="text-muted-foreground">
+            {product.name}
+            {product.sku && ` · ${product.sku}`}
+          </p>
+        </div>
+        <Link href="/admin/products">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Products
+          </Button>
+        </Link>
+      </div>
+
+      {error && <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Stock Unit</CardTitle>
+          <CardDescription>
+            Stock levels, batches and costs are counted in this unit; it can only change while nothing is in stock
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="max-w-xs space-y-2">
+            <Label htmlFor="stock_unit">Stock unit</Label>
+            <Input id="stock_unit" value={stockUnit} onChange={(e) => setStockUnit(e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Purchase and Sales Units</CardTitle>
+          <CardDescription>
+            Quantities entered in these units are converted to {stockUnit || "the stock unit"} and prices are scaled
+            to match
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Unit</TableHead>
+                <TableHead className="w-40">{stockUnit || "Stock units"} per unit</TableHead>
+                <TableHead>Purchase default</TableHead>
+                <TableHead>Sales default</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {units.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    Bought and sold in {stockUnit || "the stock unit"} only
+                  </TableCell>
+                </TableRow>
+              )}
+              {units.map((unit, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Input
+                      value={unit.unit}
+                      placeholder="carton"
+                      onChange={(e) => updateUnit(index, { unit: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={unit.factor}
+                      onChange={(e) => updateUnit(index, { factor: Number.parseFloat(e.target.value) || 0 })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={!!unit.is_purchase_default}
+                      onCheckedChange={(checked) => setDefault(index, "is_purchase_default", checked)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={!!unit.is_sales_default}
+                      onCheckedChange={(checked) => setDefault(index, "is_sales_default", checked)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="sm" onClick={() => setUnits(units.filter((_, i) => i !== index))}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="flex justify-between">
+            <Button variant="outline" onClick={() => setUnits([...units, { unit: "", factor: 1 }])}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Unit
+            </Button>
+            <Button onClick={save} disabled={saving || !stockUnit.trim()}>
+              {saving ? "Saving..." : "Save Units"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
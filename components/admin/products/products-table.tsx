@@ -2,13 +2,21 @@
 
 import { useState } from "react"
 import type { Product } from "@/lib/services/product.service"
+import type { ProductClassificationHistory } from "@/lib/services/classification.service"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
-import { MoreHorizontal, Edit, Trash2, Eye } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { MoreHorizontal, Edit, Trash2, Eye, Ruler } from "lucide-react"
 import Link from "next/link"
-import { formatCurrency } from "@/lib/utils"
+import { formatCurrency, formatDate } from "@/lib/utils"
+
+const ABC_COLORS = {
+  A: "bg-red-100 text-red-800",
+  B: "bg-yellow-100 text-yellow-800",
+  C: "bg-gray-100 text-gray-800",
+}
 
 interface ProductsTableProps {
   products: Product[]
@@ -17,10 +25,23 @@ interface ProductsTableProps {
     totalPages: number
     total: number
   }
+  onGetClassificationHistory: (productId: string) => Promise<ProductClassificationHistory[]>
 }
 
-export function ProductsTable({ products, pagination }: ProductsTableProps) {
+export function ProductsTable({ products, pagination, onGetClassificationHistory }: ProductsTableProps) {
   const [loading, setLoading] = useState<string | null>(null)
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null)
+  const [history, setHistory] = useState<ProductClassificationHistory[]>([])
+
+  const openHistory = async (product: Product) => {
+    setHistoryProduct(product)
+    setHistory([])
+    try {
+      setHistory(await onGetClassificationHistory(product.id))
+    } catch (error) {
+      console.error("Error fetching classification history:", error)
+    }
+  }
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -61,6 +82,7 @@ export function ProductsTable({ products, pagination }: ProductsTableProps) {
               <TableHead>SKU</TableHead>
               <TableHead>Price</TableHead>
               <TableHead>Stock</TableHead>
+              <TableHead>Class</TableHead>
               <TableHead>Status</TableHead>
               <TableHead>Category</TableHead>
               <TableHead className="w-[70px]"></TableHead>
@@ -105,6 +127,24 @@ export function ProductsTable({ products, pagination }: ProductsTableProps) {
                     {getStockStatus(product)}
                   </div>
                 </TableCell>
+                <TableCell>
+                  {product.abc_class && product.xyz_class ? (
+                    <button
+                      type="button"
+                      title={`Count every ${product.cycle_count_frequency_days ?? "-"} days, review every ${
+                        product.reorder_review_days ?? "-"
+                      } days, safety stock ${product.safety_stock ?? "-"}`}
+                      onClick={() => openHistory(product)}
+                    >
+                      <Badge className={ABC_COLORS[product.abc_class]}>
+                        {product.abc_class}
+                        {product.xyz_class}
+                      </Badge>
+                    </button>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">-</span>
+                  )}
+                </TableCell>
                 <TableCell>
                   <Badge className={getStatusColor(product.status)}>{product.status}</Badge>
                 </TableCell>
@@ -129,6 +169,12 @@ export function ProductsTable({ products, pagination }: ProductsTableProps) {
                           Edit
                         </Link>
                       </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <Link href={`/admin/products/${product.id}/units`}>
+                          <Ruler className="h-4 w-4 mr-2" />
+                          Units
+                        </Link>
+                      </DropdownMenuItem>
                       <DropdownMenuItem className="text-red-600">
                         <Trash2 className="h-4 w-4 mr-2" />
                         Delete
@@ -158,6 +204,50 @@ export function ProductsTable({ products, pagination }: ProductsTableProps) {
           </Button>
         </div>
       </div>
+
+      <Dialog open={!!historyProduct} onOpenChange={(open: boolean) => !open && setHistoryProduct(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Class History</DialogTitle>
+            <DialogDescription>
+              {historyProduct?.name}: counted every {historyProduct?.cycle_count_frequency_days ?? "-"} days, reorder
+              reviewed every {historyProduct?.reorder_review_days ?? "-"} days, safety stock{" "}
+              {historyProduct?.safety_stock ?? "-"}
+            </DialogDescription>
+          </DialogHeader>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No classification runs yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Run</TableHead>
+                  <TableHead>Class</TableHead>
+                  <TableHead className="text-right">Consumption</TableHead>
+                  <TableHead className="text-right">Demand CV</TableHead>
+                  <TableHead className="text-right">Safety Stock</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map((row) => (
+                  <TableRow key={row.run_id}>
+                    <TableCell>{formatDate(row.created_at)}</TableCell>
+                    <TableCell>
+                      <Badge className={ABC_COLORS[row.abc_class]}>
+                        {row.abc_class}
+                        {row.xyz_class}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.consumption_value)}</TableCell>
+                    <TableCell className="text-right">{row.demand_cv ?? "-"}</TableCell>
+                    <TableCell className="text-right">{row.safety_stock ?? "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -7,8 +7,30 @@ import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { Plus, Edit, Eye, Truck, CheckCircle, XCircle, Clock, AlertTriangle } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Plus,
+  Edit,
+  Eye,
+  Truck,
+  CheckCircle,
+  XCircle,
+  Clock,
+  AlertTriangle,
+  Sparkles,
+  Trash2,
+  Calculator,
+} from "lucide-react"
 import { purchaseService } from "@/lib/services/purchase.service"
+import {
+  createSupplierNote,
+  getPurchaseOrderLandedCost,
+  updateLandedCostMethod,
+  type PurchaseOrderLandedCost,
+} from "@/lib/services/landed-cost.service"
+import type { ReorderCandidate, SupplierSuggestion } from "@/lib/inventory/replenishment"
+import type { LandedCostMethod, SupplierNoteType } from "@/lib/inventory/landed-cost"
 
 interface PurchaseOrder {
   id: string
@@ -32,9 +54,15 @@ interface PurchaseOrderItem {
   brand_name: string
   potency?: string
   quantity: number
+  quantity_ordered?: number
   unit_price: number
   total_price: number
   received_quantity: number
+  // The unit the line was ordered in, with quantity and price as entered
+  unit?: string | null
+  unit_factor?: number
+  unit_quantity?: number | null
+  unit_price_entered?: number | null
   batch_number?: string
   expiry_date?: string
 }
@@ -46,6 +74,18 @@ export default function PurchaseOrderManagement() {
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [searchTerm, setSearchTerm] = useState("")
   const [statusFilter, setStatusFilter] = useState<string>("all")
+  const [suggestions, setSuggestions] = useState<SupplierSuggestion[] | null>(null)
+  const [unsourced, setUnsourced] = useState<ReorderCandidate[]>([])
+  const [suggesting, setSuggesting] = useState(false)
+  const [editItems, setEditItems] = useState<Record<string, { quantity_ordered: number; unit_price: number }>>({})
+  const [landedCost, setLandedCost] = useState<PurchaseOrderLandedCost | null>(null)
+  const [landedCostError, setLandedCostError] = useState("")
+  const [note, setNote] = useState<{
+    note_type: SupplierNoteType
+    amount: number
+    reason: string
+    supplier_reference: string
+  }>({ note_type: "credit", amount: 0, reason: "", supplier_reference: "" })
 
   useEffect(() => {
     loadPurchaseOrders()
@@ -110,6 +150,135 @@ export default function PurchaseOrderManagement() {
     }
   }
 
+  const loadSuggestions = async () => {
+    setSuggesting(true)
+    try {
+      const result = await purchaseService.getReorderSuggestions()
+      setSuggestions(result.suggestions)
+      setUnsourced(result.unsourced)
+    } catch (error) {
+      console.error("Error building reorder suggestions:", error)
+    } finally {
+      setSuggesting(false)
+    }
+  }
+
+  const updateSuggestionLine = (supplierId: string, productId: string, quantity: number | null) => {
+    setSuggestions(
+      (suggestions || [])
+        .map((suggestion) => {
+          if (suggestion.supplier_id !== supplierId) return suggestion
+          const lines =
+            quantity === null
+              ? suggestion.lines.filter((line) => line.product_id !== productId)
+              : suggestion.lines.map((line) => (line.product_id === productId ? { ...line, quantity } : line))
+          return {
+            ...suggestion,
+            lines,
+            total_amount: lines.reduce((sum, line) => sum + line.quantity * line.unit_price, 0),
+          }
+        })
+        .filter((suggestion) => suggestion.lines.length > 0),
+    )
+  }
+
+  const createDraftOrders = async () => {
+    if (!suggestions) return
+    try {
+      await purchaseService.createDraftPurchaseOrders(suggestions)
+      setSuggestions(null)
+      setUnsourced([])
+      await loadPurchaseOrders()
+    } catch (error) {
+      console.error("Error creating draft purchase orders:", error)
+    }
+  }
+
+  const openDraft = (po: PurchaseOrder) => {
+    setSelectedPO(po)
+    setEditItems(
+      Object.fromEntries(
+        po.items.map((item) => [
+          item.id,
+          {
+            quantity_ordered: item.unit_quantity ?? item.quantity_ordered ?? item.quantity,
+            unit_price: item.unit_price_entered ?? item.unit_price,
+          },
+        ]),
+      ),
+    )
+    setIsDialogOpen(true)
+  }
+
+  const saveDraft = async () => {
+    if (!selectedPO) return
+    try {
+      await purchaseService.updateDraftPurchaseOrder(
+        selectedPO.id,
+        Object.entries(editItems).map(([id, item]) => ({ id, ...item })),
+      )
+      setIsDialogOpen(false)
+      await loadPurchaseOrders()
+    } catch (error) {
+      console.error("Error updating draft purchase order:", error)
+    }
+  }
+
+  const saveAndApproveDraft = async () => {
+    if (!selectedPO) return
+    try {
+      await purchaseService.updateDraftPurchaseOrder(
+        selectedPO.id,
+        Object.entries(editItems).map(([id, item]) => ({ id, ...item })),
+      )
+      await approvePO(selectedPO.id)
+    } catch (error) {
+      console.error("Error approving purchase order:", error)
+    }
+  }
+
+  const approvePO = async (poId: string) => {
+    try {
+      await purchaseService.approvePurchaseOrder(poId)
+      setIsDialogOpen(false)
+      await loadPurchaseOrders()
+    } catch (error) {
+      console.error("Error approving purchase order:", error)
+    }
+  }
+
+  const openLandedCost = async (poId: string) => {
+    try {
+      setLandedCostError("")
+      setLandedCost(await getPurchaseOrderLandedCost(poId))
+    } catch (error) {
+      console.error("Error loading landed cost:", error)
+    }
+  }
+
+  const changeLandedCostMethod = async (method: string) => {
+    if (!landedCost) return
+    try {
+      setLandedCostError("")
+      await updateLandedCostMethod(landedCost.purchase_order_id, method as LandedCostMethod)
+      setLandedCost(await getPurchaseOrderLandedCost(landedCost.purchase_order_id))
+    } catch (error) {
+      setLandedCostError(error instanceof Error ? error.message : "Failed to reallocate landed cost")
+    }
+  }
+
+  const addSupplierNote = async () => {
+    if (!landedCost) return
+    try {
+      setLandedCostError("")
+      await createSupplierNote({ ...note, purchase_order_id: landedCost.purchase_order_id })
+      setNote({ note_type: "credit", amount: 0, reason: "", supplier_reference: "" })
+      setLandedCost(await getPurchaseOrderLandedCost(landedCost.purchase_order_id))
+    } catch (error) {
+      setLandedCostError(error instanceof Error ? error.message : "Failed to add supplier note")
+    }
+  }
+
   if (loading) {
     return <div className="flex items-center justify-center h-64">Loading purchase orders...</div>
   }
@@ -121,12 +290,121 @@ export default function PurchaseOrderManagement() {
           <h1 className="text-3xl font-bold">Purchase Orders</h1>
           <p className="text-muted-foreground">Manage purchase orders and supplier deliveries</p>
         </div>
-        <Button>
-          <Plus className="h-4 w-4 mr-2" />
-          Create Purchase Order
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadSuggestions} disabled={suggesting}>
+            <Sparkles className="h-4 w-4 mr-2" />
+            {suggesting ? "Checking Stock..." : "Suggest Reorders"}
+          </Button>
+          <Button>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Purchase Order
+          </Button>
+        </div>
       </div>
 
+      {/* Reorder Suggestions */}
+      {suggestions && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Reorder Suggestions</CardTitle>
+                <CardDescription>
+                  Low stock and forecast stockouts, filled up to maximum stock from each product&apos;s preferred
+                  supplier. Review the quantities, then raise one draft order per supplier.
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setSuggestions(null)}>
+                  Dismiss
+                </Button>
+                <Button onClick={createDraftOrders} disabled={suggestions.length === 0}>
+                  Create {suggestions.length} Draft PO{suggestions.length === 1 ? "" : "s"}
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {suggestions.length === 0 && (
+              <div className="text-center py-4 text-muted-foreground">Nothing needs reordering right now</div>
+            )}
+            {suggestions.map((suggestion) => (
+              <div key={suggestion.supplier_id} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="font-medium">{suggestion.supplier_name}</div>
+                  <div className="text-sm text-muted-foreground">
+                    Lead time {suggestion.lead_time_days} days · ₹{suggestion.total_amount.toLocaleString()}
+                  </div>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Signal</TableHead>
+                      <TableHead className="text-right">Available</TableHead>
+                      <TableHead className="text-right">On Order</TableHead>
+                      <TableHead className="text-right">Max Stock</TableHead>
+                      <TableHead className="text-right">MOQ</TableHead>
+                      <TableHead className="w-32">Order Qty</TableHead>
+                      <TableHead className="text-right">Unit Price</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {suggestion.lines.map((line) => (
+                      <TableRow key={line.product_id}>
+                        <TableCell>
+                          <div className="font-medium">{line.product_name}</div>
+                          {line.sku && <div className="text-sm text-muted-foreground">{line.sku}</div>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={line.reason === "low_stock" ? "destructive" : "secondary"}>
+                            {line.reason === "low_stock" ? "Low stock" : "Forecast"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{line.available}</TableCell>
+                        <TableCell className="text-right">{line.on_order}</TableCell>
+                        <TableCell className="text-right">{line.maximum_stock_level}</TableCell>
+                        <TableCell className="text-right">{line.minimum_order_quantity}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={line.quantity}
+                            onChange={(e) =>
+                              updateSuggestionLine(
+                                suggestion.supplier_id,
+                                line.product_id,
+                                Number.parseInt(e.target.value) || 0,
+                              )
+                            }
+                          />
+                        </TableCell>
+                        <TableCell className="text-right">₹{line.unit_price.toLocaleString()}</TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => updateSuggestionLine(suggestion.supplier_id, line.product_id, null)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ))}
+            {unsourced.length > 0 && (
+              <div className="text-sm text-orange-600">
+                No active supplier for: {unsourced.map((candidate) => candidate.product_name).join(", ")}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
@@ -261,6 +539,21 @@ export default function PurchaseOrderManagement() {
                       <Button variant="ghost" size="sm">
                         <Eye className="h-4 w-4" />
                       </Button>
+                      {po.status === "draft" && (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => openDraft(po)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => approvePO(po.id)}>
+                            <CheckCircle className="h-4 w-4 text-green-600" />
+                          </Button>
+                        </>
+                      )}
+                      {["partial", "received"].includes(po.status) && (
+                        <Button variant="ghost" size="sm" title="Landed cost" onClick={() => openLandedCost(po.id)}>
+                          <Calculator className="h-4 w-4" />
+                        </Button>
+                      )}
                       {po.status === "confirmed" && (
                         <Button variant="ghost" size="sm" onClick={() => updatePOStatus(po.id, "received")}>
                           <CheckCircle className="h-4 w-4" />
@@ -274,6 +567,212 @@ export default function PurchaseOrderManagement() {
           </Table>
         </CardContent>
       </Card>
+
+      {/* Review Draft */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Review {selectedPO?.po_number}</DialogTitle>
+            <DialogDescription>{selectedPO?.supplier_name} · set a quantity to 0 to drop the line</DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="w-32">Quantity</TableHead>
+                <TableHead className="w-32">Unit Price</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {selectedPO?.items.map((item) => {
+                const edit = editItems[item.id]
+                if (!edit) return null
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      {item.product_name || item.product_id}
+                      {item.unit && (item.unit_factor ?? 1) !== 1 && (
+                        <div className="text-xs text-muted-foreground">
+                          per {item.unit} of {Number(item.unit_factor)}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={edit.quantity_ordered}
+                        onChange={(e) =>
+                          setEditItems({
+                            ...editItems,
+                            [item.id]: { ...edit, quantity_ordered: Number.parseInt(e.target.value) || 0 },
+                          })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={edit.unit_price}
+                        onChange={(e) =>
+                          setEditItems({
+                            ...editItems,
+                            [item.id]: { ...edit, unit_price: Number.parseFloat(e.target.value) || 0 },
+                          })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      ₹{(edit.quantity_ordered * edit.unit_price).toLocaleString()}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={saveDraft}>
+              Save Changes
+            </Button>
+            <Button onClick={saveAndApproveDraft}>
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Save &amp; Approve
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Landed Cost */}
+      <Dialog open={!!landedCost} onOpenChange={(open) => !open && setLandedCost(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Landed Cost · {landedCost?.po_number}</DialogTitle>
+            <DialogDescription>
+              Freight ₹{landedCost?.freight_charges.toLocaleString()} + other charges ₹
+              {landedCost?.other_charges.toLocaleString()} − discount ₹{landedCost?.discount_amount.toLocaleString()}
+              {landedCost && landedCost.notes.length > 0 && " ± supplier notes"} = ₹
+              {landedCost?.total_to_allocate.toLocaleString()} spread over the batches received
+            </DialogDescription>
+          </DialogHeader>
+          {landedCost && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-4">
+                <span className="text-sm font-medium">Allocate by</span>
+                <Select value={landedCost.method} onValueChange={changeLandedCostMethod}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="value">Line value</SelectItem>
+                    <SelectItem value="quantity">Quantity</SelectItem>
+                    <SelectItem value="weight">Weight</SelectItem>
+                  </SelectContent>
+                </Select>
+                {landedCost.allocated_at && (
+                  <span className="text-sm text-muted-foreground">
+                    Last allocated {new Date(landedCost.allocated_at).toLocaleString()}
+                  </span>
+                )}
+              </div>
+              {landedCostError && <div className="text-sm text-red-600">{landedCostError}</div>}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Batch</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Unit Weight</TableHead>
+                    <TableHead className="text-right">Purchase Price</TableHead>
+                    <TableHead className="text-right">Allocated</TableHead>
+                    <TableHead className="text-right">Landed Unit Cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {landedCost.lines.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        Nothing received on this order yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {landedCost.lines.map((line) => (
+                    <TableRow key={line.batch_id}>
+                      <TableCell>
+                        <div className="font-medium">{line.product_name}</div>
+                        <div className="text-sm text-muted-foreground">{line.batch_number}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{line.quantity}</TableCell>
+                      <TableCell className="text-right">
+                        {line.unit_weight != null ? `${line.unit_weight} g` : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">₹{line.purchase_price.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">₹{line.allocated_amount.toFixed(2)}</TableCell>
+                      <TableCell className="text-right font-medium">₹{line.landed_unit_cost.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="space-y-2">
+                <div className="font-medium">Supplier Notes</div>
+                {landedCost.notes.map((supplierNote) => (
+                  <div key={supplierNote.id} className="flex items-center justify-between text-sm">
+                    <div>
+                      <Badge variant={supplierNote.note_type === "debit" ? "destructive" : "secondary"}>
+                        {supplierNote.note_type === "debit" ? "Debit" : "Credit"}
+                      </Badge>{" "}
+                      {supplierNote.note_number}
+                      {supplierNote.supplier_reference && ` (${supplierNote.supplier_reference})`} ·{" "}
+                      {supplierNote.reason}
+                    </div>
+                    <div>
+                      {supplierNote.note_type === "debit" ? "+" : "−"}₹{Number(supplierNote.amount).toLocaleString()}
+                    </div>
+                  </div>
+                ))}
+                <div className="grid grid-cols-4 gap-2">
+                  <Select
+                    value={note.note_type}
+                    onValueChange={(value: string) => setNote({ ...note, note_type: value as SupplierNoteType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="credit">Credit note</SelectItem>
+                      <SelectItem value="debit">Debit note</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="Amount"
+                    value={note.amount || ""}
+                    onChange={(e) => setNote({ ...note, amount: Number.parseFloat(e.target.value) || 0 })}
+                  />
+                  <Input
+                    placeholder="Supplier reference"
+                    value={note.supplier_reference}
+                    onChange={(e) => setNote({ ...note, supplier_reference: e.target.value })}
+                  />
+                  <Button onClick={addSupplierNote} disabled={note.amount <= 0 || !note.reason.trim()}>
+                    Add Note
+                  </Button>
+                </div>
+                <Textarea
+                  placeholder="Reason, e.g. freight invoice received late, rate difference"
+                  value={note.reason}
+                  onChange={(e) => setNote({ ...note, reason: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
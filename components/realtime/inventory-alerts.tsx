@@ -6,115 +6,67 @@ import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { realtimeService, formatRealtimeTimestamp } from "@/lib/services/realtime.service"
-import { AlertTriangle, Package, TrendingDown, Eye } from "lucide-react"
+import { acknowledgeStockAlert, getStockAlerts, type StockAlert } from "@/lib/services/stock-alert.service"
+import { AlertTriangle, Check, Package, TrendingDown, Eye } from "lucide-react"
 import { useRouter } from "next/navigation"
 
-interface InventoryAlert {
-  id: string
-  productId: string
-  productName: string
-  currentStock: number
-  threshold: number
-  timestamp: string
-  severity: "low" | "critical" | "out_of_stock"
-}
-
 export function InventoryAlerts() {
-  const [alerts, setAlerts] = useState<InventoryAlert[]>([])
+  const [alerts, setAlerts] = useState<StockAlert[]>([])
   const [isConnected, setIsConnected] = useState(false)
   const router = useRouter()
 
-  useEffect(() => {
-    setIsConnected(true)
-
-    // Subscribe to inventory updates
-    const handleInventoryUpdate = (data: any) => {
-      const { productId, newStock, product } = data.payload
-      const threshold = product.low_stock_threshold || 10
-
-      // Determine severity
-      let severity: InventoryAlert["severity"] = "low"
-      if (newStock === 0) severity = "out_of_stock"
-      else if (newStock <= threshold / 2) severity = "critical"
-
-      // Only add alert if stock is low
-      if (newStock <= threshold) {
-        const alert: InventoryAlert = {
-          id: `${productId}-${Date.now()}`,
-          productId,
-          productName: product.name,
-          currentStock: newStock,
-          threshold,
-          timestamp: data.timestamp,
-          severity,
-        }
-
-        setAlerts((prev) => {
-          // Remove existing alert for this product
-          const filtered = prev.filter((a) => a.productId !== productId)
-          return [alert, ...filtered].slice(0, 10) // Keep last 10 alerts
-        })
-      } else {
-        // Remove alert if stock is back above threshold
-        setAlerts((prev) => prev.filter((a) => a.productId !== productId))
-      }
-    }
-
-    const handleLowStockAlert = (data: any) => {
-      const product = data.payload
-      const alert: InventoryAlert = {
-        id: `${product.id}-${Date.now()}`,
-        productId: product.id,
-        productName: product.name,
-        currentStock: product.stock_quantity,
-        threshold: product.low_stock_threshold || 10,
-        timestamp: data.timestamp,
-        severity:
-          product.stock_quantity === 0
-            ? "out_of_stock"
-            : product.stock_quantity <= (product.low_stock_threshold || 10) / 2
-              ? "critical"
-              : "low",
-      }
-
-      setAlerts((prev) => [alert, ...prev.slice(0, 9)])
+  const loadAlerts = async () => {
+    try {
+      setAlerts(await getStockAlerts({ status: "active", limit: 20 }))
+    } catch (error) {
+      console.error("Error loading stock alerts:", error)
     }
+  }
 
-    realtimeService.addEventListener("inventory_updated", handleInventoryUpdate)
-    realtimeService.addEventListener("low_stock_alert", handleLowStockAlert)
+  useEffect(() => {
+    loadAlerts()
+    setIsConnected(true)
 
-    // Subscribe to real-time inventory changes
-    realtimeService.subscribeToInventory((product, event) => {
-      // This will trigger the event listeners above
+    // Alerts are opened, refreshed and resolved in the database; reload on any change
+    realtimeService.subscribeToStockAlerts(() => {
+      loadAlerts()
     })
 
     return () => {
-      realtimeService.removeEventListener("inventory_updated", handleInventoryUpdate)
-      realtimeService.removeEventListener("low_stock_alert", handleLowStockAlert)
+      realtimeService.unsubscribe("stock_alerts_changes")
       setIsConnected(false)
     }
   }, [])
 
-  const getSeverityColor = (severity: InventoryAlert["severity"]) => {
+  const handleAcknowledge = async (id: string) => {
+    try {
+      await acknowledgeStockAlert(id)
+      await loadAlerts()
+    } catch (error) {
+      console.error("Error acknowledging stock alert:", error)
+    }
+  }
+
+  const getSeverityColor = (severity: StockAlert["severity"]) => {
     switch (severity) {
-      case "out_of_stock":
-        return "bg-red-100 text-red-800 border-red-200"
       case "critical":
+        return "bg-red-100 text-red-800 border-red-200"
+      case "warning":
         return "bg-orange-100 text-orange-800 border-orange-200"
-      case "low":
+      case "info":
         return "bg-yellow-100 text-yellow-800 border-yellow-200"
       default:
         return "bg-gray-100 text-gray-800 border-gray-200"
     }
   }
 
-  const getSeverityIcon = (severity: InventoryAlert["severity"]) => {
+  const getSeverityIcon = (severity: StockAlert["severity"]) => {
     switch (severity) {
-      case "out_of_stock":
-        return <Package className="h-4 w-4 text-red-600" />
       case "critical":
+        return <Package className="h-4 w-4 text-red-600" />
+      case "warning":
         return <AlertTriangle className="h-4 w-4 text-orange-600" />
-      case "low":
+      case "info":
         return <TrendingDown className="h-4 w-4 text-yellow-600" />
       default:
         return <AlertTriangle className="h-4 w-4 text-gray-600" />
@@ -153,27 +105,36 @@ export function InventoryAlerts() {
                       {getSeverityIcon(alert.severity)}
                       <div className="flex-1">
                         <div className="flex items-center gap-2">
-                          <span className="font-medium">{alert.productName}</span>
+                          <span className="font-medium">{alert.product_name}</span>
                           <Badge variant="outline" className={`text-xs ${getSeverityColor(alert.severity)}`}>
-                            {alert.severity.replace("_", " ")}
+                            {alert.severity}
                           </Badge>
+                          {alert.status === "acknowledged" && (
+                            <Badge variant="outline" className="text-xs">
+                              acknowledged
+                            </Badge>
+                          )}
                         </div>
                         <div className="text-sm text-muted-foreground">
-                          {alert.currentStock === 0 ? (
-                            "Out of stock"
-                          ) : (
-                            <>
-                              {alert.currentStock} remaining (threshold: {alert.threshold})
-                            </>
-                          )}
+                          {alert.current_stock <= 0 ? "Out of stock" : <>{alert.current_stock} available</>}
+                          {alert.warehouse_name && ` at ${alert.warehouse_name}`} · {alert.rule_name}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {formatRealtimeTimestamp(alert.last_evaluated_at)}
                         </div>
-                        <div className="text-xs text-muted-foreground">{formatRealtimeTimestamp(alert.timestamp)}</div>
                       </div>
                     </div>
-                    <Button variant="outline" size="sm" onClick={() => handleViewProduct(alert.productId)}>
-                      <Eye className="h-4 w-4 mr-1" />
-                      View
-                    </Button>
+                    <div className="flex gap-1">
+                      {alert.status === "open" && (
+                        <Button variant="ghost" size="sm" onClick={() => handleAcknowledge(alert.id)}>
+                          <Check className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button variant="outline" size="sm" onClick={() => handleViewProduct(alert.product_id)}>
+                        <Eye className="h-4 w-4 mr-1" />
+                        View
+                      </Button>
+                    </div>
                   </div>
                 </div>
               ))}
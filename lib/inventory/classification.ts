@@ -0,0 +1,141 @@
+// ABC / XYZ inventory classification.
+// ABC ranks products by consumption value (units issued x unit cost) and cuts the cumulative share at the
+// A and B thresholds. XYZ grades demand variability by the coefficient of variation of weekly demand:
+// X is steady, Y fluctuates and Z is erratic or has no demand at all.
+
+import { normalCdf } from "./forecast"
+
+export type AbcClass = "A" | "B" | "C"
+export type XyzClass = "X" | "Y" | "Z"
+
+export interface ClassificationThresholds {
+  // Cumulative share of consumption value, in percent, that closes the A and B classes
+  a_share: number
+  b_share: number
+  // Coefficient of variation of weekly demand that closes the X and Y classes
+  x_cv: number
+  y_cv: number
+}
+
+export interface ClassificationInput {
+  product_id: string
+  consumption_value: number
+  weekly_demand: number[]
+}
+
+export interface ProductClassification {
+  product_id: string
+  abc_class: AbcClass
+  xyz_class: XyzClass
+  consumption_value: number
+  cumulative_share: number
+  average_weekly_demand: number
+  weekly_demand_std: number
+  demand_cv: number | null
+}
+
+export interface ClassPolicy {
+  abc_class: AbcClass
+  xyz_class: XyzClass
+  cycle_count_frequency_days: number
+  service_level_percentage: number
+  review_cadence_days: number
+}
+
+export const DEFAULT_CLASSIFICATION_THRESHOLDS: ClassificationThresholds = {
+  a_share: 80,
+  b_share: 95,
+  x_cv: 0.5,
+  y_cv: 1,
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+
+// Units issued per week from `from`, oldest week first, zero-filled
+export function buildWeeklyDemand(
+  movements: Array<{ quantity: number; created_at: string }>,
+  from: Date,
+  weeks: number,
+) {
+  const demand = new Array(weeks).fill(0)
+  for (const movement of movements) {
+    const week = Math.floor((new Date(movement.created_at).getTime() - from.getTime()) / WEEK_MS)
+    if (week >= 0 && week < weeks) {
+      demand[week] += Math.abs(movement.quantity)
+    }
+  }
+  return demand
+}
+
+export function getDemandStats(weeklyDemand: number[]) {
+  const count = weeklyDemand.length
+  const mean = count > 0 ? weeklyDemand.reduce((sum, value) => sum + value, 0) / count : 0
+  const variance = count > 1 ? weeklyDemand.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (count - 1) : 0
+  const std = Math.sqrt(variance)
+  return { mean, std, cv: mean > 0 ? std / mean : null }
+}
+
+export function getXyzClass(cv: number | null, thresholds: ClassificationThresholds): XyzClass {
+  if (cv === null) return "Z"
+  if (cv <= thresholds.x_cv) return "X"
+  if (cv <= thresholds.y_cv) return "Y"
+  return "Z"
+}
+
+// A product belongs to the class its own value falls in, so the item that crosses the A threshold is
+// still an A item. Products with no consumption are always C.
+export function classifyProducts(
+  inputs: ClassificationInput[],
+  thresholds: ClassificationThresholds = DEFAULT_CLASSIFICATION_THRESHOLDS,
+): ProductClassification[] {
+  const total = inputs.reduce((sum, input) => sum + Math.max(input.consumption_value, 0), 0)
+  const ranked = [...inputs].sort((a, b) => b.consumption_value - a.consumption_value)
+
+  let cumulative = 0
+  return ranked.map((input) => {
+    const value = Math.max(input.consumption_value, 0)
+    const shareBefore = total > 0 ? (cumulative / total) * 100 : 100
+    cumulative += value
+    const share = total > 0 ? (cumulative / total) * 100 : 100
+
+    let abcClass: AbcClass = "C"
+    if (value > 0 && shareBefore < thresholds.a_share) abcClass = "A"
+    else if (value > 0 && shareBefore < thresholds.b_share) abcClass = "B"
+
+    const stats = getDemandStats(input.weekly_demand)
+
+    return {
+      product_id: input.product_id,
+      abc_class: abcClass,
+      xyz_class: getXyzClass(stats.cv, thresholds),
+      consumption_value: Math.round(value * 100) / 100,
+      cumulative_share: Math.round(share * 100) / 100,
+      average_weekly_demand: Math.round(stats.mean * 100) / 100,
+      weekly_demand_std: Math.round(stats.std * 100) / 100,
+      demand_cv: stats.cv === null ? null : Math.round(stats.cv * 1000) / 1000,
+    }
+  })
+}
+
+// z-score for a one-sided service level, found by bisection on the normal CDF
+export function getServiceFactor(serviceLevelPercentage: number) {
+  const target = Math.min(Math.max(serviceLevelPercentage / 100, 0.5), 0.9999)
+  let low = 0
+  let high = 5
+  for (let i = 0; i < 50; i++) {
+    const mid = (low + high) / 2
+    if (normalCdf(mid) < target) low = mid
+    else high = mid
+  }
+  return Math.round(((low + high) / 2) * 1000) / 1000
+}
+
+// Units held against demand swings over the lead time: z x daily demand deviation x sqrt(lead time)
+export function getSafetyStock(weeklyDemandStd: number, leadTimeDays: number, serviceLevelPercentage: number) {
+  const dailyStd = weeklyDemandStd / Math.sqrt(7)
+  return Math.ceil(getServiceFactor(serviceLevelPercentage) * dailyStd * Math.sqrt(Math.max(leadTimeDays, 0)))
+}
+
+export function findClassPolicy(policies: ClassPolicy[], abcClass: AbcClass, xyzClass: XyzClass) {
+  return policies.find((policy) => policy.abc_class === abcClass && policy.xyz_class === xyzClass) || null
+}
@@ -0,0 +1,76 @@
+export interface AllocatableBatch {
+  id: string
+  batch_number: string
+  expiry_date: string
+  quantity_available: number
+  quality_status?: string | null
+  is_active?: boolean | null
+  purchase_price?: number | null
+  landed_cost?: number | null
+  created_at?: string
+}
+
+export interface BatchAllocation {
+  batch_id: string
+  batch_number: string
+  expiry_date: string
+  quantity: number
+  unit_cost: number
+}
+
+export interface FefoAllocationPlan {
+  allocations: BatchAllocation[]
+  allocated: number
+  shortfall: number
+}
+
+// A batch can be sold only if it is active, QC-approved, has stock and has not expired
+export function isBatchAllocatable(batch: AllocatableBatch, asOf: Date = new Date()): boolean {
+  if (batch.is_active === false) return false
+  if ((batch.quality_status || "approved") !== "approved") return false
+  if (batch.quantity_available <= 0) return false
+
+  const expiry = new Date(batch.expiry_date)
+  expiry.setHours(23, 59, 59, 999)
+  return expiry.getTime() > asOf.getTime()
+}
+
+export function sortBatchesFefo<T extends AllocatableBatch>(batches: T[]): T[] {
+  return [...batches].sort((a, b) => {
+    const byExpiry = new Date(a.expiry_date).getTime() - new Date(b.expiry_date).getTime()
+    if (byExpiry !== 0) return byExpiry
+
+    // Same expiry: the older receipt goes out first
+    return new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime()
+  })
+}
+
+// Splits a requested quantity across batches, earliest expiry first
+export function planFefoAllocation(
+  batches: AllocatableBatch[],
+  quantity: number,
+  asOf: Date = new Date(),
+): FefoAllocationPlan {
+  const allocations: BatchAllocation[] = []
+  let remaining = quantity
+
+  for (const batch of sortBatchesFefo(batches.filter((b) => isBatchAllocatable(b, asOf)))) {
+    if (remaining <= 0) break
+
+    const take = Math.min(batch.quantity_available, remaining)
+    allocations.push({
+      batch_id: batch.id,
+      batch_number: batch.batch_number,
+      expiry_date: batch.expiry_date,
+      quantity: take,
+      unit_cost: Number(batch.landed_cost ?? batch.purchase_price ?? 0),
+    })
+    remaining -= take
+  }
+
+  return {
+    allocations,
+    allocated: quantity - Math.max(remaining, 0),
+    shortfall: Math.max(remaining, 0),
+  }
+}
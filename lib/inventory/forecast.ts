@@ -0,0 +1,204 @@
+// Demand forecasting from daily outbound history.
+// Model: linear trend x day-of-week index x month-of-year index (multiplicative), fitted on the
+// deseasonalised series. Annual seasonality is only used once there is close to a year of history.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface DemandPoint {
+  date: string
+  quantity: number
+}
+
+export interface ForecastDay {
+  date: string
+  forecast: number
+  lower: number
+  upper: number
+  projected_stock: number
+  stockout_probability: number
+}
+
+export interface DemandForecast {
+  history_days: number
+  daily_average: number
+  trend_per_day: number
+  weekly_index: number[]
+  monthly_index: number[]
+  residual_std: number
+  days: ForecastDay[]
+  stockout_date: string | null
+  stockout_probability: number
+  mape: number | null
+}
+
+interface FittedModel {
+  intercept: number
+  slope: number
+  weekly: number[]
+  monthly: number[]
+  residualStd: number
+  length: number
+  start: Date
+}
+
+function toDateKey(date: Date) {
+  return date.toISOString().split("T")[0]
+}
+
+// Standard normal CDF (Abramowitz and Stegun 26.2.17)
+export function normalCdf(x: number) {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x))
+  const d = 0.3989423 * Math.exp((-x * x) / 2)
+  const p = d * t * (0.3193815 + t * (-0.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))))
+  return x > 0 ? 1 - p : p
+}
+
+// Turns dated movements into one value per calendar day, zero-filled
+export function buildDailySeries(
+  movements: Array<{ quantity: number; created_at: string }>,
+  from: Date,
+  to: Date,
+): DemandPoint[] {
+  const totals = new Map<string, number>()
+  for (const movement of movements) {
+    const key = movement.created_at.split("T")[0]
+    totals.set(key, (totals.get(key) || 0) + Math.abs(movement.quantity))
+  }
+
+  const series: DemandPoint[] = []
+  for (let time = from.getTime(); time <= to.getTime(); time += DAY_MS) {
+    const key = toDateKey(new Date(time))
+    series.push({ date: key, quantity: totals.get(key) || 0 })
+  }
+  return series
+}
+
+function seasonalIndex(series: DemandPoint[], bucket: (date: Date) => number, buckets: number, mean: number) {
+  const sums = new Array(buckets).fill(0)
+  const counts = new Array(buckets).fill(0)
+
+  for (const point of series) {
+    const b = bucket(new Date(point.date))
+    sums[b] += point.quantity
+    counts[b]++
+  }
+
+  // Buckets without data (or an all-zero history) stay neutral
+  return sums.map((sum, b) => (counts[b] > 0 && mean > 0 ? sum / counts[b] / mean : 1))
+}
+
+function fitModel(series: DemandPoint[]): FittedModel {
+  const n = series.length
+  const mean = n > 0 ? series.reduce((sum, point) => sum + point.quantity, 0) / n : 0
+
+  const weekly = seasonalIndex(series, (date) => date.getUTCDay(), 7, mean)
+  const monthly =
+    n >= 330 ? seasonalIndex(series, (date) => date.getUTCMonth(), 12, mean) : new Array(12).fill(1)
+
+  const factor = (date: Date) => (weekly[date.getUTCDay()] || 1) * (monthly[date.getUTCMonth()] || 1)
+
+  // Least-squares trend on the deseasonalised series
+  const deseasonalised = series.map((point) => {
+    const f = factor(new Date(point.date))
+    return f > 0 ? point.quantity / f : point.quantity
+  })
+  const tMean = (n - 1) / 2
+  const yMean = n > 0 ? deseasonalised.reduce((sum, y) => sum + y, 0) / n : 0
+  let covariance = 0
+  let variance = 0
+  deseasonalised.forEach((y, t) => {
+    covariance += (t - tMean) * (y - yMean)
+    variance += (t - tMean) ** 2
+  })
+  const slope = variance > 0 ? covariance / variance : 0
+  const intercept = yMean - slope * tMean
+
+  const start = n > 0 ? new Date(series[0].date) : new Date()
+  const residuals = series.map((point, t) => point.quantity - predict({ intercept, slope, weekly, monthly, start }, t))
+  const residualStd =
+    n > 1 ? Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / Math.max(n - 2, 1)) : mean
+
+  return { intercept, slope, weekly, monthly, residualStd, length: n, start }
+}
+
+function predict(model: Pick<FittedModel, "intercept" | "slope" | "weekly" | "monthly" | "start">, t: number) {
+  const date = new Date(model.start.getTime() + t * DAY_MS)
+  const level = Math.max(model.intercept + model.slope * t, 0)
+  return level * model.weekly[date.getUTCDay()] * model.monthly[date.getUTCMonth()]
+}
+
+// Mean absolute percentage error over days that had demand, fitting on everything before the holdout
+export function backtestMape(series: DemandPoint[], holdoutDays: number): number | null {
+  if (series.length < holdoutDays * 2) return null
+
+  const training = series.slice(0, series.length - holdoutDays)
+  const holdout = series.slice(series.length - holdoutDays)
+  const model = fitModel(training)
+
+  const errors = holdout
+    .map((point, i) => ({ actual: point.quantity, predicted: predict(model, training.length + i) }))
+    .filter(({ actual }) => actual > 0)
+    .map(({ actual, predicted }) => Math.abs(actual - predicted) / actual)
+
+  if (errors.length === 0) return null
+  return (errors.reduce((sum, e) => sum + e, 0) / errors.length) * 100
+}
+
+export function forecastDemand(
+  series: DemandPoint[],
+  options: { horizon: number; currentStock: number; confidence?: number },
+): DemandForecast {
+  const model = fitModel(series)
+  // z for a two-sided band; 80% by default
+  const z = options.confidence === 0.95 ? 1.96 : options.confidence === 0.9 ? 1.645 : 1.2816
+
+  const days: ForecastDay[] = []
+  let cumulative = 0
+  let stockoutDate: string | null = null
+
+  for (let h = 1; h <= options.horizon; h++) {
+    const t = model.length - 1 + h
+    const forecast = predict(model, t)
+    const date = toDateKey(new Date(model.start.getTime() + t * DAY_MS))
+    cumulative += forecast
+
+    // Daily errors treated as independent, so the spread of cumulative demand grows with sqrt(h)
+    const cumulativeStd = model.residualStd * Math.sqrt(h)
+    const stockoutProbability =
+      cumulativeStd > 0
+        ? 1 - normalCdf((options.currentStock - cumulative) / cumulativeStd)
+        : cumulative >= options.currentStock
+          ? 1
+          : 0
+
+    const projected = options.currentStock - cumulative
+    if (stockoutDate === null && projected <= 0) {
+      stockoutDate = date
+    }
+
+    days.push({
+      date,
+      forecast: Math.round(forecast * 100) / 100,
+      lower: Math.max(0, Math.round((forecast - z * model.residualStd) * 100) / 100),
+      upper: Math.round((forecast + z * model.residualStd) * 100) / 100,
+      projected_stock: Math.max(0, Math.round(projected)),
+      stockout_probability: Math.round(stockoutProbability * 1000) / 1000,
+    })
+  }
+
+  const mean = series.length > 0 ? series.reduce((sum, point) => sum + point.quantity, 0) / series.length : 0
+  const mape = backtestMape(series, Math.min(options.horizon, 28))
+
+  return {
+    history_days: series.length,
+    daily_average: Math.round(mean * 100) / 100,
+    trend_per_day: Math.round(model.slope * 1000) / 1000,
+    weekly_index: model.weekly.map((v) => Math.round(v * 100) / 100),
+    monthly_index: model.monthly.map((v) => Math.round(v * 100) / 100),
+    residual_std: Math.round(model.residualStd * 100) / 100,
+    days,
+    stockout_date: stockoutDate,
+    stockout_probability: days.length > 0 ? days[days.length - 1].stockout_probability : 0,
+    mape: mape === null ? null : Math.round(mape * 100) / 100,
+  }
+}
@@ -0,0 +1,200 @@
+// Decodes what a scanner hands us: plain EAN-13/UPC/GTIN numbers, and GS1-128 or GS1 DataMatrix
+// element strings carrying a GTIN (01), batch/lot (10), expiry (17) and serial (21).
+// Keyboard-wedge scanners send the FNC1 separator as ASCII 29 (GS); some are configured to send
+// a printable stand-in instead, and labels print the same data in the "(01)...(17)...(10)..." form.
+
+export const GS = String.fromCharCode(29)
+
+export interface ParsedBarcode {
+  format: "gtin" | "gs1" | "text"
+  raw: string
+  gtin?: string // always 14 digits when present
+  batch_number?: string
+  expiry_date?: string // YYYY-MM-DD
+  serial_number?: string
+  // Element strings the parser knows but we do not use, keyed by application identifier
+  other?: Record<string, string>
+  errors: string[]
+}
+
+// Fixed-length AIs with their data length; anything else we accept is variable length up to the limit
+const FIXED_LENGTH: Record<string, number> = {
+  "00": 18,
+  "01": 14,
+  "02": 14,
+  "11": 6,
+  "12": 6,
+  "13": 6,
+  "15": 6,
+  "16": 6,
+  "17": 6,
+  "20": 2,
+}
+
+const VARIABLE_LENGTH: Record<string, number> = {
+  "10": 20,
+  "21": 20,
+  "22": 20,
+  "30": 8,
+  "37": 8,
+  "240": 30,
+  "241": 30,
+  "400": 30,
+}
+
+// AIM symbology identifiers some scanners prefix: GS1-128, GS1 DataMatrix, GS1 QR, EAN/UPC
+const SYMBOLOGY_PREFIX = /^\](C1|d2|Q3|e0|E0|E4)/
+
+export function isValidGtin(code: string) {
+  if (!/^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(code)) return false
+
+  const digits = code.split("").map(Number)
+  const checkDigit = digits.pop() as number
+  const sum = digits.reverse().reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0)
+
+  return (10 - (sum % 10)) % 10 === checkDigit
+}
+
+export function toGtin14(code: string) {
+  return code.padStart(14, "0")
+}
+
+// The shortest GTIN form a product master is likely to store: EAN-13 for retail items, else the full 14
+export function toGtin13(gtin14: string) {
+  return gtin14.startsWith("0") ? gtin14.slice(1) : gtin14
+}
+
+// GS1 dates are YYMMDD with the century picked within a 50-year window of today; day 00 means month end
+export function parseGs1Date(value: string, today = new Date()) {
+  if (!/^\d{6}$/.test(value)) return null
+
+  const yy = Number(value.slice(0, 2))
+  const month = Number(value.slice(2, 4))
+  const day = Number(value.slice(4, 6))
+  if (month < 1 || month > 12) return null
+
+  const currentYear = today.getUTCFullYear()
+  const century = Math.floor(currentYear / 100) * 100
+  const difference = yy - (currentYear % 100)
+  const year = difference >= 51 ? century - 100 + yy : difference <= -50 ? century + 100 + yy : century + yy
+
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  if (day > lastDay) return null
+
+  return `${year}-${String(month).padStart(2, "0")}-${String(day === 0 ? lastDay : day).padStart(2, "0")}`
+}
+
+function applyElement(result: ParsedBarcode, ai: string, value: string) {
+  switch (ai) {
+    case "01":
+    case "02":
+      if (!isValidGtin(value)) result.errors.push(`GTIN ${value} has an invalid check digit`)
+      result.gtin = value
+      break
+    case "10":
+      result.batch_number = value
+      break
+    case "17": {
+      const expiry = parseGs1Date(value)
+      if (expiry) {
+        result.expiry_date = expiry
+      } else {
+        result.errors.push(`Expiry ${value} is not a valid date`)
+      }
+      break
+    }
+    case "21":
+      result.serial_number = value
+      break
+    default:
+      result.other = { ...result.other, [ai]: value }
+  }
+}
+
+function matchAi(data: string, position: number) {
+  for (const length of [2, 3]) {
+    const ai = data.slice(position, position + length)
+    if (ai in FIXED_LENGTH || ai in VARIABLE_LENGTH) return ai
+  }
+  return null
+}
+
+// "(01)08901234567893(17)261231(10)AB12" as printed under the symbol
+function parseBracketed(data: string, result: ParsedBarcode) {
+  const pattern = /\((\d{2,4})\)([^(]*)/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(data)) !== null) {
+    applyElement(result, match[1], match[2].replace(new RegExp(GS, "g"), "").trim())
+  }
+}
+
+function parseElementString(data: string, result: ParsedBarcode) {
+  let position = 0
+
+  while (position < data.length) {
+    if (data[position] === GS) {
+      position++
+      continue
+    }
+
+    const ai = matchAi(data, position)
+    if (!ai) {
+      result.errors.push(`Unknown application identifier at "${data.slice(position, position + 4)}"`)
+      return
+    }
+    position += ai.length
+
+    let value: string
+    if (ai in FIXED_LENGTH) {
+      value = data.slice(position, position + FIXED_LENGTH[ai])
+      if (value.length < FIXED_LENGTH[ai]) {
+        result.errors.push(`AI (${ai}) is truncated`)
+        return
+      }
+      position += FIXED_LENGTH[ai]
+    } else {
+      const end = data.indexOf(GS, position)
+      value = data.slice(position, end === -1 ? undefined : Math.min(end, position + VARIABLE_LENGTH[ai]))
+      position += value.length
+    }
+
+    applyElement(result, ai, value)
+  }
+}
+
+export function parseBarcode(input: string, options?: { separator?: string }): ParsedBarcode {
+  let data = input.replace(/[\r\n]+$/, "").trim()
+  if (options?.separator) {
+    data = data.split(options.separator).join(GS)
+  }
+
+  const hasSymbologyPrefix = SYMBOLOGY_PREFIX.test(data)
+  data = data.replace(SYMBOLOGY_PREFIX, "")
+  // A leading FNC1 just marks the symbol as GS1
+  const startsWithFnc1 = data.startsWith(GS)
+  if (startsWithFnc1) data = data.slice(1)
+
+  const result: ParsedBarcode = { format: "text", raw: input, errors: [] }
+
+  if (/^\d{8}$|^\d{12,14}$/.test(data) && !startsWithFnc1) {
+    if (!isValidGtin(data)) {
+      // Not every all-digit code is a GTIN; leave it for SKU or batch lookups
+      return result
+    }
+    return { ...result, format: "gtin", gtin: toGtin14(data) }
+  }
+
+  if (data.startsWith("(")) {
+    result.format = "gs1"
+    parseBracketed(data, result)
+    return result
+  }
+
+  if (hasSymbologyPrefix || startsWithFnc1 || data.includes(GS) || /^(01|02)\d{14}/.test(data)) {
+    result.format = "gs1"
+    parseElementString(data, result)
+    return result
+  }
+
+  return result
+}
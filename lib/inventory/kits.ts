@@ -0,0 +1,85 @@
+// Remedy kits and bundles: products sold as a set of other products (the kit's bill of materials).
+// A kit is sold from assembled stock first (kits built ahead of time and held as their own batches), and
+// the rest is built from components at the time of sale, so what can be sold is the assembled kits plus as
+// many kits as the scarcest component allows.
+
+import { planFefoAllocation, type AllocatableBatch, type FefoAllocationPlan } from "./fefo"
+
+export type KitType = "kit" | "bundle"
+
+export interface KitComponent {
+  product_id: string
+  // Units of the component in one kit
+  quantity: number
+}
+
+export interface KitBuildability {
+  quantity: number
+  // The component that runs out first; null when the kit has no components
+  limiting_product_id: string | null
+}
+
+export interface KitBatchPlan {
+  assembled: FefoAllocationPlan
+  components: Array<{ product_id: string; plan: FefoAllocationPlan }>
+  // Kits that could be neither taken from assembled stock nor built
+  shortfall: number
+}
+
+export function getBuildableKits(components: KitComponent[], availableByProduct: Map<string, number>): KitBuildability {
+  let quantity = Infinity
+  let limiting: string | null = null
+
+  for (const component of components) {
+    if (component.quantity <= 0) continue
+    const buildable = Math.floor(Math.max(availableByProduct.get(component.product_id) || 0, 0) / component.quantity)
+    if (buildable < quantity) {
+      quantity = buildable
+      limiting = component.product_id
+    }
+  }
+
+  return { quantity: quantity === Infinity ? 0 : quantity, limiting_product_id: limiting }
+}
+
+// Component units needed to build the given number of kits
+export function getKitComponentDemand(components: KitComponent[], kits: number): KitComponent[] {
+  return components.map((component) => ({ product_id: component.product_id, quantity: component.quantity * kits }))
+}
+
+// How much of a kit line is served from assembled kits and how much is built from components
+export function splitKitQuantity(quantity: number, assembledAvailable: number) {
+  const assembled = Math.min(quantity, Math.max(assembledAvailable, 0))
+  return { assembled, from_components: quantity - assembled }
+}
+
+// Assembled kit batches first-expiry-first-out, then each component's batches for the kits left to build
+export function planKitBatchAllocation(
+  kitBatches: AllocatableBatch[],
+  componentBatches: Map<string, AllocatableBatch[]>,
+  components: KitComponent[],
+  quantity: number,
+  asOf: Date = new Date(),
+): KitBatchPlan {
+  const assembled = planFefoAllocation(kitBatches, quantity, asOf)
+  const toBuild = quantity - assembled.allocated
+
+  let shortfall = 0
+  const componentPlans = getKitComponentDemand(components, toBuild)
+    .filter((demand) => demand.quantity > 0)
+    .map((demand) => {
+      const plan = planFefoAllocation(componentBatches.get(demand.product_id) || [], demand.quantity, asOf)
+      const perKit = components.find((component) => component.product_id === demand.product_id)?.quantity || 1
+      shortfall = Math.max(shortfall, Math.ceil(plan.shortfall / perKit))
+      return { product_id: demand.product_id, plan }
+    })
+
+  return { assembled, components: componentPlans, shortfall }
+}
+
+// One kit's cost is the cost of its components; used as the unit cost of assembled kit batches
+export function getKitUnitCost(consumed: Array<{ quantity: number; unit_cost: number }>, kits: number) {
+  if (kits <= 0) return 0
+  const total = consumed.reduce((sum, line) => sum + line.quantity * line.unit_cost, 0)
+  return Math.round((total / kits) * 100) / 100
+}
@@ -0,0 +1,88 @@
+// Landed cost: what a received unit really cost once the purchase order's freight, other charges and
+// discount, plus any supplier debit or credit notes raised later, are spread over the lines received.
+// Charges are allocated by line value, quantity or weight; the landed unit cost is the purchase price plus
+// the line's share divided by the units received.
+
+import { roundPrice } from "./markdown"
+
+export type LandedCostMethod = "value" | "quantity" | "weight"
+
+export type SupplierNoteType = "debit" | "credit"
+
+export interface LandedCostLine {
+  batch_id: string
+  quantity: number
+  unit_cost: number
+  // Weight of one unit; lines without a weight count as weightless
+  unit_weight?: number | null
+}
+
+export interface PurchaseCharges {
+  freight_charges: number
+  other_charges: number
+  discount_amount: number
+}
+
+export interface SupplierNote {
+  note_type: SupplierNoteType
+  amount: number
+}
+
+export interface LandedCostAllocation {
+  batch_id: string
+  basis: number
+  allocated_amount: number
+  landed_unit_cost: number
+}
+
+// Debit notes add to what the goods cost, credit notes take away from it
+export function getChargesToAllocate(charges: PurchaseCharges, notes: SupplierNote[] = []) {
+  const noteTotal = notes.reduce((sum, note) => sum + (note.note_type === "debit" ? 1 : -1) * Number(note.amount), 0)
+  return roundPrice(
+    Number(charges.freight_charges || 0) +
+      Number(charges.other_charges || 0) -
+      Number(charges.discount_amount || 0) +
+      noteTotal,
+  )
+}
+
+export function getAllocationBasis(line: LandedCostLine, method: LandedCostMethod) {
+  if (method === "quantity") return line.quantity
+  if (method === "weight") return line.quantity * Number(line.unit_weight || 0)
+  return line.quantity * line.unit_cost
+}
+
+// Spreads the amount in proportion to each line's basis. Rounding is settled on the largest line so the
+// shares always add back to the amount. With nothing to weigh by (no weights, or zero-value lines) the
+// amount is spread by quantity instead.
+export function allocateLandedCost(
+  lines: LandedCostLine[],
+  amount: number,
+  method: LandedCostMethod,
+): LandedCostAllocation[] {
+  const received = lines.filter((line) => line.quantity > 0)
+  if (received.length === 0) return []
+
+  let effectiveMethod = method
+  if (received.reduce((sum, line) => sum + getAllocationBasis(line, method), 0) <= 0) {
+    effectiveMethod = "quantity"
+  }
+
+  const bases = received.map((line) => getAllocationBasis(line, effectiveMethod))
+  const totalBasis = bases.reduce((sum, basis) => sum + basis, 0)
+  const shares = bases.map((basis) => roundPrice((amount * basis) / totalBasis))
+
+  const remainder = roundPrice(amount - shares.reduce((sum, share) => sum + share, 0))
+  if (remainder !== 0) {
+    const largest = bases.indexOf(Math.max(...bases))
+    shares[largest] = roundPrice(shares[largest] + remainder)
+  }
+
+  return received.map((line, index) => ({
+    batch_id: line.batch_id,
+    basis: bases[index],
+    allocated_amount: shares[index],
+    // A unit never costs less than nothing, however large the credit
+    landed_unit_cost: Math.max(roundPrice(line.unit_cost + shares[index] / line.quantity), 0),
+  }))
+}
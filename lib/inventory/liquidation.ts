@@ -0,0 +1,215 @@
+// Liquidation options for dead and slow-moving batches, ranked by the value each is expected to recover.
+// Recovery is counted as cash back: supplier credit for returns, sales revenue for transfers, bundles and
+// markdowns, and nothing for a write-off. Units an option is not expected to shift recover nothing.
+
+import { getMarkdownFloorPrice, getMarkdownPrice, roundPrice } from "./markdown"
+
+export type LiquidationAction = "return_to_supplier" | "transfer" | "bundle" | "markdown" | "write_off"
+
+export interface LiquidationBatch {
+  quantity: number
+  unit_cost: number
+  selling_price: number
+  days_in_stock: number
+  // Null when the batch has no expiry date
+  days_to_expiry: number | null
+  // Units of the product sold per day from the batch's own warehouse
+  daily_sales: number
+}
+
+export interface SupplierReturnTerms {
+  supplier_id: string
+  supplier_name: string
+  accepts_returns: boolean
+  // Days from receipt within which the supplier takes stock back; null for no limit
+  return_window_days: number | null
+  // Shelf life the supplier needs left on returned stock
+  min_shelf_life_days: number | null
+  credit_percentage: number
+  restocking_fee_percentage: number
+}
+
+export interface BranchDemand {
+  warehouse_id: string
+  warehouse_name: string
+  daily_sales: number
+  on_hand: number
+}
+
+export interface BundlePartner {
+  product_id: string
+  product_name: string
+  daily_sales: number
+}
+
+export interface LiquidationAssumptions {
+  // Longest period sales are counted over, even for batches with a long shelf life
+  horizon_days: number
+  transfer_cost_per_unit: number
+  transfer_lead_days: number
+  // Share of fast-mover sales that take the bundled item along
+  bundle_attach_rate: number
+  bundle_discount_percentage: number
+  markdown_percentage: number
+  // How many times faster the batch sells once marked down
+  markdown_sales_lift: number
+}
+
+export interface LiquidationOption {
+  action: LiquidationAction
+  expected_value: number
+  expected_quantity: number
+  unit_value: number
+  description: string
+  supplier_id?: string
+  target_warehouse_id?: string
+  bundle_product_id?: string
+  discount_percentage?: number
+}
+
+export const DEFAULT_LIQUIDATION_ASSUMPTIONS: LiquidationAssumptions = {
+  horizon_days: 90,
+  transfer_cost_per_unit: 2,
+  transfer_lead_days: 3,
+  bundle_attach_rate: 0.2,
+  bundle_discount_percentage: 30,
+  markdown_percentage: 30,
+  markdown_sales_lift: 2.5,
+}
+
+// Days left to sell in: the horizon, cut short by the expiry date
+export function getSellingDays(batch: Pick<LiquidationBatch, "days_to_expiry">, horizonDays: number) {
+  if (batch.days_to_expiry === null) return horizonDays
+  return Math.max(0, Math.min(batch.days_to_expiry, horizonDays))
+}
+
+export function planSupplierReturn(
+  batch: LiquidationBatch,
+  terms: SupplierReturnTerms | null,
+): LiquidationOption | null {
+  if (!terms || !terms.accepts_returns) return null
+  if (terms.return_window_days !== null && batch.days_in_stock > terms.return_window_days) return null
+  if (terms.min_shelf_life_days && (batch.days_to_expiry ?? Infinity) < terms.min_shelf_life_days) return null
+
+  const unitValue = roundPrice(
+    ((batch.unit_cost * terms.credit_percentage) / 100) * (1 - terms.restocking_fee_percentage / 100),
+  )
+  if (unitValue <= 0) return null
+
+  return {
+    action: "return_to_supplier",
+    expected_value: roundPrice(unitValue * batch.quantity),
+    expected_quantity: batch.quantity,
+    unit_value: unitValue,
+    description: `Return to ${terms.supplier_name} for ${terms.credit_percentage}% credit${
+      terms.restocking_fee_percentage > 0 ? ` less ${terms.restocking_fee_percentage}% restocking` : ""
+    }`,
+    supplier_id: terms.supplier_id,
+  }
+}
+
+// The branch with the most demand left over after its own stock, net of moving the whole batch there
+export function planBranchTransfer(
+  batch: LiquidationBatch,
+  branches: BranchDemand[],
+  assumptions: LiquidationAssumptions,
+): LiquidationOption | null {
+  const days = Math.max(0, getSellingDays(batch, assumptions.horizon_days) - assumptions.transfer_lead_days)
+
+  const options = branches
+    .map((branch) => {
+      const spareDemand = Math.max(0, Math.floor(branch.daily_sales * days) - branch.on_hand)
+      const quantity = Math.min(batch.quantity, spareDemand)
+      const value = roundPrice(quantity * batch.selling_price - batch.quantity * assumptions.transfer_cost_per_unit)
+      return { branch, quantity, value }
+    })
+    .filter((option) => option.quantity > 0 && option.value > 0)
+    .sort((a, b) => b.value - a.value)
+
+  const best = options[0]
+  if (!best) return null
+
+  return {
+    action: "transfer",
+    expected_value: best.value,
+    expected_quantity: best.quantity,
+    unit_value: roundPrice(best.value / best.quantity),
+    description: `Transfer to ${best.branch.warehouse_name}, selling ${best.branch.daily_sales.toFixed(1)} a day`,
+    target_warehouse_id: best.branch.warehouse_id,
+  }
+}
+
+export function planBundle(
+  batch: LiquidationBatch,
+  partners: BundlePartner[],
+  assumptions: LiquidationAssumptions,
+): LiquidationOption | null {
+  const partner = [...partners].sort((a, b) => b.daily_sales - a.daily_sales)[0]
+  if (!partner) return null
+
+  const days = getSellingDays(batch, assumptions.horizon_days)
+  const quantity = Math.min(batch.quantity, Math.floor(partner.daily_sales * days * assumptions.bundle_attach_rate))
+  const unitValue = roundPrice(batch.selling_price * (1 - assumptions.bundle_discount_percentage / 100))
+  if (quantity <= 0 || unitValue <= 0) return null
+
+  return {
+    action: "bundle",
+    expected_value: roundPrice(quantity * unitValue),
+    expected_quantity: quantity,
+    unit_value: unitValue,
+    description: `Bundle with ${partner.product_name} at ${assumptions.bundle_discount_percentage}% off`,
+    bundle_product_id: partner.product_id,
+    discount_percentage: assumptions.bundle_discount_percentage,
+  }
+}
+
+// Priced the way a manual markdown is, so never below cost
+export function planMarkdown(batch: LiquidationBatch, assumptions: LiquidationAssumptions): LiquidationOption | null {
+  const floorPrice = getMarkdownFloorPrice(batch.unit_cost, 0)
+  const { price } = getMarkdownPrice(batch.selling_price, assumptions.markdown_percentage, floorPrice)
+  if (batch.selling_price <= 0 || price >= batch.selling_price) return null
+
+  const days = getSellingDays(batch, assumptions.horizon_days)
+  const quantity = Math.min(batch.quantity, Math.floor(batch.daily_sales * assumptions.markdown_sales_lift * days))
+  if (quantity <= 0) return null
+
+  return {
+    action: "markdown",
+    expected_value: roundPrice(quantity * price),
+    expected_quantity: quantity,
+    unit_value: price,
+    description: `Mark down ${assumptions.markdown_percentage}% to ${price.toFixed(2)}`,
+    discount_percentage: assumptions.markdown_percentage,
+  }
+}
+
+// Every option the batch qualifies for, best first. Writing off is always possible and always last.
+export function rankLiquidationOptions(
+  batch: LiquidationBatch,
+  context: {
+    supplier_terms: SupplierReturnTerms | null
+    branches: BranchDemand[]
+    bundle_partners: BundlePartner[]
+    assumptions?: LiquidationAssumptions
+  },
+): LiquidationOption[] {
+  const assumptions = context.assumptions || DEFAULT_LIQUIDATION_ASSUMPTIONS
+
+  const options = [
+    planSupplierReturn(batch, context.supplier_terms),
+    planBranchTransfer(batch, context.branches, assumptions),
+    planBundle(batch, context.bundle_partners, assumptions),
+    planMarkdown(batch, assumptions),
+  ].filter((option): option is LiquidationOption => option !== null)
+
+  options.sort((a, b) => b.expected_value - a.expected_value)
+  options.push({
+    action: "write_off",
+    expected_value: 0,
+    expected_quantity: batch.quantity,
+    unit_value: 0,
+    description: `Write off ${batch.quantity} units as dead stock`,
+  })
+
+  return options
+}
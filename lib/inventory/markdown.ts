@@ -0,0 +1,141 @@
+export type MarkdownScopeType = "all" | "category" | "brand" | "product"
+
+export interface MarkdownStep {
+  days_before_expiry: number
+  discount_percentage: number
+}
+
+export interface MarkdownRule {
+  id: string
+  name: string
+  scope_type: MarkdownScopeType
+  scope_id?: string | null
+  steps: MarkdownStep[]
+  min_margin_percentage: number
+  is_active: boolean
+}
+
+export interface MarkdownBatch {
+  id: string
+  product_id: string
+  brand_id?: string | null
+  category_id?: string | null
+  expiry_date: string
+  quantity_available: number
+  selling_price?: number | null
+  mrp?: number | null
+  purchase_price?: number | null
+  landed_cost?: number | null
+  is_active?: boolean | null
+}
+
+export interface PlannedMarkdown {
+  rule_id: string
+  days_before_expiry: number
+  discount_percentage: number
+  original_price: number
+  markdown_price: number
+  floor_price: number
+  capped: boolean
+}
+
+// Product rules beat brand rules, which beat category rules, which beat the catch-all
+const SCOPE_ORDER: Record<MarkdownScopeType, number> = { product: 0, brand: 1, category: 2, all: 3 }
+
+export function roundPrice(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+export function getDaysToExpiry(expiryDate: string, asOf: Date = new Date()) {
+  const expiry = new Date(expiryDate)
+  expiry.setHours(23, 59, 59, 999)
+  return Math.floor((expiry.getTime() - asOf.getTime()) / (1000 * 60 * 60 * 24))
+}
+
+export function getBatchOriginalPrice(batch: Pick<MarkdownBatch, "selling_price" | "mrp">) {
+  return Number(batch.selling_price ?? batch.mrp ?? 0)
+}
+
+export function getBatchUnitCost(batch: Pick<MarkdownBatch, "landed_cost" | "purchase_price">) {
+  return Number(batch.landed_cost ?? batch.purchase_price ?? 0)
+}
+
+export function getMarkdownFloorPrice(unitCost: number, minMarginPercentage: number) {
+  return roundPrice(unitCost * (1 + Math.max(minMarginPercentage, 0) / 100))
+}
+
+// The deepest step the batch has reached: steps are "from N days before expiry", so with 90/60/30 a batch
+// 45 days out is on the 60-day step
+export function getMarkdownStep(steps: MarkdownStep[], daysToExpiry: number): MarkdownStep | null {
+  return (
+    [...steps]
+      .filter((step) => daysToExpiry <= step.days_before_expiry)
+      .sort((a, b) => a.days_before_expiry - b.days_before_expiry)[0] || null
+  )
+}
+
+export function findMarkdownRule(rules: MarkdownRule[], batch: MarkdownBatch): MarkdownRule | null {
+  const matching = rules.filter((rule) => {
+    if (!rule.is_active) return false
+    switch (rule.scope_type) {
+      case "product":
+        return rule.scope_id === batch.product_id
+      case "brand":
+        return !!batch.brand_id && rule.scope_id === batch.brand_id
+      case "category":
+        return !!batch.category_id && rule.scope_id === batch.category_id
+      default:
+        return true
+    }
+  })
+
+  return matching.sort((a, b) => SCOPE_ORDER[a.scope_type] - SCOPE_ORDER[b.scope_type])[0] || null
+}
+
+// Discounted price for a batch, never below cost plus the minimum margin and never above the original price
+export function getMarkdownPrice(originalPrice: number, discountPercentage: number, floorPrice: number) {
+  const discounted = roundPrice(originalPrice * (1 - discountPercentage / 100))
+  const price = Math.min(originalPrice, Math.max(discounted, floorPrice))
+  return { price: roundPrice(price), capped: discounted < floorPrice }
+}
+
+// What markdown a batch should carry today, or null when none applies (not yet in a step, out of stock,
+// expired, or the floor leaves no room to discount)
+export function planBatchMarkdown(
+  batch: MarkdownBatch,
+  rules: MarkdownRule[],
+  asOf: Date = new Date(),
+): PlannedMarkdown | null {
+  if (batch.is_active === false || batch.quantity_available <= 0) return null
+
+  const daysToExpiry = getDaysToExpiry(batch.expiry_date, asOf)
+  if (daysToExpiry < 0) return null
+
+  const rule = findMarkdownRule(rules, batch)
+  if (!rule) return null
+
+  const step = getMarkdownStep(rule.steps, daysToExpiry)
+  if (!step) return null
+
+  const originalPrice = getBatchOriginalPrice(batch)
+  const floorPrice = getMarkdownFloorPrice(getBatchUnitCost(batch), rule.min_margin_percentage)
+  const { price, capped } = getMarkdownPrice(originalPrice, step.discount_percentage, floorPrice)
+
+  if (originalPrice <= 0 || price >= originalPrice) return null
+
+  return {
+    rule_id: rule.id,
+    days_before_expiry: step.days_before_expiry,
+    discount_percentage: step.discount_percentage,
+    original_price: originalPrice,
+    markdown_price: price,
+    floor_price: floorPrice,
+    capped,
+  }
+}
+
+// Price a batch sells at: the markdown price when one is live, otherwise the line's list price.
+// A markdown never raises the price of a line that was already sold cheaper.
+export function getEffectiveBatchPrice(listPrice: number, markdownPrice?: number | null) {
+  return markdownPrice != null && markdownPrice < listPrice ? markdownPrice : listPrice
+}
@@ -0,0 +1,160 @@
+// Putaway and storage compliance. A product's storage requirement comes from its storage type and from the
+// free-text storage conditions on its label ("store in a refrigerator (2-8°C)", "store below 25°C",
+// "flammable"). A bin meets a requirement when its storage class matches and, where both the product and
+// the bin have a temperature limit, the bin is kept at or below the product's.
+
+export type StorageClass = "standard" | "refrigerated" | "frozen" | "hazmat"
+
+export interface StorageRequirement {
+  storage_class: StorageClass
+  max_temperature: number | null
+}
+
+export interface StorageBin {
+  id: string
+  warehouse_id: string
+  code: string
+  storage_class: StorageClass
+  max_temperature: number | null
+  capacity: number | null
+  // Units currently held
+  occupied: number
+  is_active: boolean
+}
+
+export interface PutawaySuggestion {
+  bin_id: string
+  code: string
+  reason: string
+}
+
+export interface BinPlacement {
+  batch_id: string
+  bin: Pick<StorageBin, "id" | "code" | "storage_class" | "max_temperature">
+  requirement: StorageRequirement
+}
+
+export interface StorageViolation {
+  batch_id: string
+  bin_id: string
+  reasons: string[]
+}
+
+const CLASS_LABELS: Record<StorageClass, string> = {
+  standard: "standard",
+  refrigerated: "refrigerated",
+  frozen: "frozen",
+  hazmat: "hazmat",
+}
+
+// Typical ceilings for each class when the label gives no temperature
+const CLASS_MAX_TEMPERATURE: Partial<Record<StorageClass, number>> = {
+  refrigerated: 8,
+  frozen: -18,
+}
+
+function parseStorageClass(conditions: string): StorageClass | null {
+  const text = conditions.toLowerCase()
+  if (/frozen|freez|-\s*1[58]\s*°?\s*c/.test(text)) return "frozen"
+  if (/refrigerat|fridge|2\s*(-|–|to)\s*8\s*°?\s*c|cold chain/.test(text)) return "refrigerated"
+  if (/flammable|inflammable|hazard|combustible/.test(text)) return "hazmat"
+  return null
+}
+
+// "below 25°C", "not above 30 °C", "under 25 C"
+function parseMaxTemperature(conditions: string): number | null {
+  const match = conditions
+    .toLowerCase()
+    .match(/(?:below|under|not (?:above|exceeding)|max(?:imum)?)\s*(-?\d+(?:\.\d+)?)\s*°?\s*c\b/)
+  return match ? Number(match[1]) : null
+}
+
+export function getStorageRequirement(product: {
+  storage_type?: string | null
+  storage_conditions?: string | null
+}): StorageRequirement {
+  const declared = (product.storage_type || "standard") as StorageClass
+  const parsed = product.storage_conditions ? parseStorageClass(product.storage_conditions) : null
+
+  // A storage type set on the product is deliberate; the label only decides for standard products
+  const storageClass = declared === "standard" && parsed ? parsed : declared
+
+  const temperatures = [
+    product.storage_conditions ? parseMaxTemperature(product.storage_conditions) : null,
+    CLASS_MAX_TEMPERATURE[storageClass] ?? null,
+  ].filter((temperature): temperature is number => temperature !== null)
+
+  return {
+    storage_class: storageClass,
+    max_temperature: temperatures.length > 0 ? Math.min(...temperatures) : null,
+  }
+}
+
+export function getStorageMismatches(
+  bin: Pick<StorageBin, "storage_class" | "max_temperature">,
+  requirement: StorageRequirement,
+): string[] {
+  const reasons: string[] = []
+
+  if (bin.storage_class !== requirement.storage_class) {
+    reasons.push(`Needs ${CLASS_LABELS[requirement.storage_class]} storage, bin is ${CLASS_LABELS[bin.storage_class]}`)
+  }
+  // Cold bins without a recorded ceiling are assumed to hold their class's usual temperature; ambient bins
+  // are not temperature controlled, which "store below 25°C" labels accept
+  const binCeiling = bin.max_temperature ?? CLASS_MAX_TEMPERATURE[bin.storage_class] ?? null
+  if (requirement.max_temperature !== null && binCeiling !== null && binCeiling > requirement.max_temperature) {
+    reasons.push(`Needs at most ${requirement.max_temperature}°C, bin is kept at up to ${binCeiling}°C`)
+  }
+
+  return reasons
+}
+
+export function getFreeCapacity(bin: Pick<StorageBin, "capacity" | "occupied">) {
+  return bin.capacity === null ? Infinity : Math.max(bin.capacity - bin.occupied, 0)
+}
+
+// Matching bins in the batch's warehouse that can take the whole quantity: a bin already holding the
+// product first (keeps it together for picking and counting), then the tightest fit, then by code
+export function suggestPutawayBin(
+  bins: StorageBin[],
+  requirement: StorageRequirement,
+  quantity: number,
+  options?: { warehouse_id?: string | null; product_bin_ids?: string[] },
+): PutawaySuggestion | null {
+  const productBins = new Set(options?.product_bin_ids || [])
+
+  const candidates = bins
+    .filter((bin) => bin.is_active)
+    .filter((bin) => !options?.warehouse_id || bin.warehouse_id === options.warehouse_id)
+    .filter((bin) => getStorageMismatches(bin, requirement).length === 0)
+    .filter((bin) => getFreeCapacity(bin) >= quantity)
+    .sort(
+      (a, b) =>
+        Number(productBins.has(b.id)) - Number(productBins.has(a.id)) ||
+        getFreeCapacity(a) - getFreeCapacity(b) ||
+        a.code.localeCompare(b.code),
+    )
+
+  const bin = candidates[0]
+  if (!bin) return null
+
+  return {
+    bin_id: bin.id,
+    code: bin.code,
+    reason: productBins.has(bin.id)
+      ? "Already holds this product"
+      : bin.capacity === null
+        ? `Matching ${CLASS_LABELS[bin.storage_class]} bin`
+        : `Matching ${CLASS_LABELS[bin.storage_class]} bin with room for ${getFreeCapacity(bin)}`,
+  }
+}
+
+export function findStorageViolations(placements: BinPlacement[]): StorageViolation[] {
+  return placements
+    .map((placement) => ({
+      batch_id: placement.batch_id,
+      bin_id: placement.bin.id,
+      reasons: getStorageMismatches(placement.bin, placement.requirement),
+    }))
+    .filter((violation) => violation.reasons.length > 0)
+}
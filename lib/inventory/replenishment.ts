@@ -0,0 +1,130 @@
+// Turns reorder signals into purchase suggestions, one group per supplier.
+// A product needs ordering when its free stock plus what is already on order is at or below its
+// reorder point, or when forecast demand over the supplier lead time would run it out first.
+
+export interface ReorderCandidate {
+  product_id: string
+  product_name: string
+  sku?: string
+  available: number
+  on_order: number
+  reorder_point: number
+  maximum_stock_level: number
+  daily_demand?: number
+  reason: "low_stock" | "forecast"
+}
+
+export interface SupplierOption {
+  supplier_id: string
+  supplier_name: string
+  product_id: string
+  is_preferred: boolean
+  lead_time_days: number
+  minimum_order_quantity: number
+  last_purchase_price: number | null
+}
+
+export interface ReorderLine {
+  product_id: string
+  product_name: string
+  sku?: string
+  reason: ReorderCandidate["reason"]
+  available: number
+  on_order: number
+  maximum_stock_level: number
+  lead_time_days: number
+  minimum_order_quantity: number
+  quantity: number
+  unit_price: number
+}
+
+export interface SupplierSuggestion {
+  supplier_id: string
+  supplier_name: string
+  lead_time_days: number
+  lines: ReorderLine[]
+  total_amount: number
+}
+
+// Preferred supplier first, then the cheapest last price, then the shortest lead time
+export function pickSupplier(options: SupplierOption[]): SupplierOption | null {
+  if (options.length === 0) return null
+
+  return [...options].sort(
+    (a, b) =>
+      Number(b.is_preferred) - Number(a.is_preferred) ||
+      (a.last_purchase_price ?? Number.POSITIVE_INFINITY) - (b.last_purchase_price ?? Number.POSITIVE_INFINITY) ||
+      a.lead_time_days - b.lead_time_days,
+  )[0]
+}
+
+// Fills up to the maximum stock level, allowing for demand while the order is in transit,
+// and never below the supplier's minimum order quantity
+export function getOrderQuantity(candidate: ReorderCandidate, supplier: SupplierOption) {
+  const leadTimeDemand = Math.ceil((candidate.daily_demand || 0) * supplier.lead_time_days)
+  const shortfall = candidate.maximum_stock_level + leadTimeDemand - candidate.available - candidate.on_order
+  if (shortfall <= 0) return 0
+  return Math.max(shortfall, supplier.minimum_order_quantity || 1)
+}
+
+export function needsReorder(candidate: ReorderCandidate, supplier: SupplierOption) {
+  const position = candidate.available + candidate.on_order
+  if (position <= candidate.reorder_point) return true
+  return (candidate.daily_demand || 0) * supplier.lead_time_days >= position
+}
+
+export function buildReorderSuggestions(
+  candidates: ReorderCandidate[],
+  supplierOptions: SupplierOption[],
+): { suggestions: SupplierSuggestion[]; unsourced: ReorderCandidate[] } {
+  const optionsByProduct = new Map<string, SupplierOption[]>()
+  for (const option of supplierOptions) {
+    const options = optionsByProduct.get(option.product_id) || []
+    options.push(option)
+    optionsByProduct.set(option.product_id, options)
+  }
+
+  const groups = new Map<string, SupplierSuggestion>()
+  const unsourced: ReorderCandidate[] = []
+
+  for (const candidate of candidates) {
+    const supplier = pickSupplier(optionsByProduct.get(candidate.product_id) || [])
+    if (!supplier) {
+      unsourced.push(candidate)
+      continue
+    }
+
+    if (!needsReorder(candidate, supplier)) continue
+
+    const quantity = getOrderQuantity(candidate, supplier)
+    if (quantity <= 0) continue
+
+    const group = groups.get(supplier.supplier_id) || {
+      supplier_id: supplier.supplier_id,
+      supplier_name: supplier.supplier_name,
+      lead_time_days: 0,
+      lines: [],
+      total_amount: 0,
+    }
+
+    const unitPrice = supplier.last_purchase_price || 0
+    group.lines.push({
+      product_id: candidate.product_id,
+      product_name: candidate.product_name,
+      sku: candidate.sku,
+      reason: candidate.reason,
+      available: candidate.available,
+      on_order: candidate.on_order,
+      maximum_stock_level: candidate.maximum_stock_level,
+      lead_time_days: supplier.lead_time_days,
+      minimum_order_quantity: supplier.minimum_order_quantity,
+      quantity,
+      unit_price: unitPrice,
+    })
+    group.lead_time_days = Math.max(group.lead_time_days, supplier.lead_time_days)
+    group.total_amount += quantity * unitPrice
+    groups.set(supplier.supplier_id, group)
+  }
+
+  return { suggestions: Array.from(groups.values()), unsourced }
+}
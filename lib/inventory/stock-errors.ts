@@ -0,0 +1,32 @@
+// SQLSTATEs raised by the stock mutation functions in scripts/create-stock-mutation-functions.sql
+export const STOCK_NOT_FOUND = "ST404"
+export const STOCK_CONFLICT = "ST409"
+export const STOCK_INSUFFICIENT = "ST422"
+
+// Stock moved between reading it and writing it; the caller should reload and retry
+export class StockConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "StockConflictError"
+  }
+}
+
+export class InsufficientStockError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "InsufficientStockError"
+  }
+}
+
+export function toStockError(error: { code?: string; message: string }, action: string): Error {
+  switch (error.code) {
+    case STOCK_CONFLICT:
+      return new StockConflictError(`${error.message}. Reload and try again.`)
+    case STOCK_INSUFFICIENT:
+      return new InsufficientStockError(error.message)
+    case STOCK_NOT_FOUND:
+      return new Error(error.message)
+    default:
+      return new Error(`Failed to ${action}: ${error.message}`)
+  }
+}
@@ -0,0 +1,220 @@
+// Stock ledger (stock register): opening balance, inward and outward movements by type, and closing
+// balance per product and location for a period, rolled forward to today so it can be checked against
+// the stock figures the system currently holds.
+
+export type LedgerLevel = "warehouse" | "batch"
+
+export interface LedgerEntry {
+  product_id: string
+  warehouse_id: string | null
+  batch_id: string | null
+  period: "before" | "during" | "after"
+  entry_type: string
+  direction: "in" | "out"
+  quantity: number
+  value: number
+}
+
+export interface LedgerTypeTotal {
+  entry_type: string
+  quantity: number
+  value: number
+}
+
+export interface StockLedgerLine {
+  key: string
+  product_id: string
+  warehouse_id: string | null
+  batch_id: string | null
+  opening_quantity: number
+  opening_value: number
+  inward: LedgerTypeTotal[]
+  outward: LedgerTypeTotal[]
+  inward_quantity: number
+  inward_value: number
+  outward_quantity: number
+  outward_value: number
+  closing_quantity: number
+  closing_value: number
+  // Closing balance plus everything recorded since the period ended
+  expected_quantity: number
+  // What the stock records hold today; null when there is nothing to compare against
+  current_quantity: number | null
+  difference: number
+  unexplained: boolean
+}
+
+export interface LedgerPeriod {
+  from: string // YYYY-MM-DD, inclusive
+  to: string // YYYY-MM-DD, inclusive
+  label: string
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  in: "Stock in",
+  out: "Stock out",
+  receipt: "Goods receipt",
+  qc_rejected: "QC rejected",
+  stock_take: "Stock take",
+  stock_transfer: "Transfer",
+  batch_recall: "Recall",
+  write_off: "Write-off",
+}
+
+export function getLedgerTypeLabel(entryType: string) {
+  if (TYPE_LABELS[entryType]) return TYPE_LABELS[entryType]
+  const words = entryType.replace(/_/g, " ")
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+export function getLedgerKey(entry: { product_id: string; warehouse_id: string | null; batch_id: string | null }) {
+  return `${entry.product_id}:${entry.batch_id || entry.warehouse_id || ""}`
+}
+
+function formatDate(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+}
+
+// month is YYYY-MM
+export function getMonthPeriod(month: string): LedgerPeriod {
+  const [year, monthNumber] = month.split("-").map(Number)
+  const start = new Date(year, monthNumber - 1, 1)
+  const end = new Date(year, monthNumber, 0)
+  return {
+    from: formatDate(start),
+    to: formatDate(end),
+    label: start.toLocaleDateString("en-IN", { month: "long", year: "numeric" }),
+  }
+}
+
+// Financial years run April to March; startYear 2024 is FY 2024-25
+export function getFinancialYearPeriod(startYear: number, startMonth = 4): LedgerPeriod {
+  const start = new Date(startYear, startMonth - 1, 1)
+  const end = new Date(startYear + 1, startMonth - 1, 0)
+  return {
+    from: formatDate(start),
+    to: formatDate(end),
+    label: `FY ${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`,
+  }
+}
+
+export function getCurrentFinancialYear(today = new Date(), startMonth = 4) {
+  return today.getMonth() + 1 >= startMonth ? today.getFullYear() : today.getFullYear() - 1
+}
+
+function addTypeTotal(totals: LedgerTypeTotal[], entry: LedgerEntry) {
+  const existing = totals.find((total) => total.entry_type === entry.entry_type)
+  if (existing) {
+    existing.quantity += entry.quantity
+    existing.value += entry.value
+  } else {
+    totals.push({ entry_type: entry.entry_type, quantity: entry.quantity, value: entry.value })
+  }
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+// current maps ledger keys to today's quantity; lines without one are listed but never flagged
+export function buildStockLedger(
+  entries: LedgerEntry[],
+  current: Map<string, number>,
+  level: LedgerLevel = "warehouse",
+): StockLedgerLine[] {
+  const lines = new Map<string, StockLedgerLine & { after_quantity: number }>()
+
+  const getLine = (entry: { product_id: string; warehouse_id: string | null; batch_id: string | null }) => {
+    const key = getLedgerKey(entry)
+    let line = lines.get(key)
+    if (!line) {
+      line = {
+        key,
+        product_id: entry.product_id,
+        warehouse_id: entry.warehouse_id,
+        batch_id: entry.batch_id,
+        opening_quantity: 0,
+        opening_value: 0,
+        inward: [],
+        outward: [],
+        inward_quantity: 0,
+        inward_value: 0,
+        outward_quantity: 0,
+        outward_value: 0,
+        closing_quantity: 0,
+        closing_value: 0,
+        expected_quantity: 0,
+        current_quantity: null,
+        difference: 0,
+        unexplained: false,
+        after_quantity: 0,
+      }
+      lines.set(key, line)
+    }
+    return line
+  }
+
+  for (const entry of entries) {
+    const line = getLine(entry)
+    const sign = entry.direction === "in" ? 1 : -1
+
+    if (entry.period === "before") {
+      line.opening_quantity += sign * entry.quantity
+      line.opening_value += sign * entry.value
+    } else if (entry.period === "during") {
+      if (entry.direction === "in") {
+        addTypeTotal(line.inward, entry)
+        line.inward_quantity += entry.quantity
+        line.inward_value += entry.value
+      } else {
+        addTypeTotal(line.outward, entry)
+        line.outward_quantity += entry.quantity
+        line.outward_value += entry.value
+      }
+    } else {
+      line.after_quantity += sign * entry.quantity
+    }
+  }
+
+  // Stock with no movements at all still has to be explained
+  for (const [key, quantity] of current) {
+    if (lines.has(key) || quantity === 0) continue
+    const [productId, locationId] = key.split(":")
+    getLine({
+      product_id: productId,
+      warehouse_id: level === "warehouse" ? locationId || null : null,
+      batch_id: level === "batch" ? locationId || null : null,
+    })
+  }
+
+  return [...lines.values()].map(({ after_quantity, ...line }) => {
+    const closingQuantity = line.opening_quantity + line.inward_quantity - line.outward_quantity
+    const expectedQuantity = closingQuantity + after_quantity
+    const currentQuantity = current.has(line.key) ? (current.get(line.key) as number) : null
+    const difference = currentQuantity === null ? 0 : currentQuantity - expectedQuantity
+
+    return {
+      ...line,
+      opening_value: round(line.opening_value),
+      inward_value: round(line.inward_value),
+      outward_value: round(line.outward_value),
+      closing_quantity: closingQuantity,
+      closing_value: round(line.opening_value + line.inward_value - line.outward_value),
+      expected_quantity: expectedQuantity,
+      current_quantity: currentQuantity,
+      difference,
+      unexplained: difference !== 0,
+    }
+  })
+}
+
+// Every entry type that appears in the period, so exports can give each its own column
+export function getLedgerEntryTypes(lines: StockLedgerLine[]) {
+  const inward = new Set<string>()
+  const outward = new Set<string>()
+  for (const line of lines) {
+    line.inward.forEach((total) => inward.add(total.entry_type))
+    line.outward.forEach((total) => outward.add(total.entry_type))
+  }
+  return { inward: [...inward].sort(), outward: [...outward].sort() }
+}
@@ -0,0 +1,92 @@
+export interface CountLine {
+  id: string
+  product_id: string
+  batch_id?: string | null
+  expected_quantity: number
+  counted_quantity?: number | null
+  unit_cost?: number | null
+}
+
+export interface LineVariance {
+  line_id: string
+  product_id: string
+  batch_id?: string | null
+  expected: number
+  counted: number
+  variance: number
+  variance_value: number
+}
+
+export interface VarianceSummary {
+  lines_total: number
+  lines_counted: number
+  lines_with_variance: number
+  surplus_quantity: number
+  shortage_quantity: number
+  surplus_value: number
+  shortage_value: number
+  net_value: number
+}
+
+export function getLineVariance(line: CountLine): LineVariance | null {
+  if (line.counted_quantity === null || line.counted_quantity === undefined) return null
+
+  const variance = line.counted_quantity - line.expected_quantity
+  return {
+    line_id: line.id,
+    product_id: line.product_id,
+    batch_id: line.batch_id,
+    expected: line.expected_quantity,
+    counted: line.counted_quantity,
+    variance,
+    variance_value: variance * (line.unit_cost || 0),
+  }
+}
+
+export function summarizeVariances(lines: CountLine[]): VarianceSummary {
+  const summary: VarianceSummary = {
+    lines_total: lines.length,
+    lines_counted: 0,
+    lines_with_variance: 0,
+    surplus_quantity: 0,
+    shortage_quantity: 0,
+    surplus_value: 0,
+    shortage_value: 0,
+    net_value: 0,
+  }
+
+  for (const line of lines) {
+    const result = getLineVariance(line)
+    if (!result) continue
+
+    summary.lines_counted++
+    if (result.variance === 0) continue
+
+    summary.lines_with_variance++
+    if (result.variance > 0) {
+      summary.surplus_quantity += result.variance
+      summary.surplus_value += result.variance_value
+    } else {
+      summary.shortage_quantity -= result.variance
+      summary.shortage_value -= result.variance_value
+    }
+  }
+
+  summary.net_value = summary.surplus_value - summary.shortage_value
+  return summary
+}
+
+// Nets batch-level variances into one adjustment per product; uncounted lines are left untouched
+export function getProductAdjustments(lines: CountLine[]): Array<{ product_id: string; quantity_change: number }> {
+  const totals = new Map<string, number>()
+
+  for (const line of lines) {
+    const result = getLineVariance(line)
+    if (!result || result.variance === 0) continue
+    totals.set(result.product_id, (totals.get(result.product_id) || 0) + result.variance)
+  }
+
+  return [...totals.entries()]
+    .filter(([, quantityChange]) => quantityChange !== 0)
+    .map(([productId, quantityChange]) => ({ product_id: productId, quantity_change: quantityChange }))
+}
@@ -0,0 +1,122 @@
+// Units of measure: every product is stocked in one unit (bottles, ml, tubes) and may be bought and sold in
+// others, each with a factor saying how many stock units one of it holds (a carton of 12 × 30ml bottles is
+// 12 bottles; a ml of mother tincture stocked in ml is 1). Quantities entered in any configured unit are
+// converted to stock units before they touch stock. Prices are divided by the factor without rounding (₹100 a
+// carton of 12 is ₹8.3333 a bottle), and the line total is carried from the quantity and price as entered, so
+// totals never drift by a rounding step per stock unit.
+
+export interface ProductUnit {
+  unit: string
+  // Stock units in one of this unit
+  factor: number
+  is_purchase_default?: boolean
+  is_sales_default?: boolean
+}
+
+export interface ProductUnitConfig {
+  stock_unit: string
+  units: ProductUnit[]
+}
+
+export interface UnitConversion {
+  unit: string
+  factor: number
+  // As entered
+  unit_quantity: number
+  unit_price?: number
+  // In the stock unit
+  quantity: number
+  stock_unit_price?: number
+  // unit_quantity × unit_price, the amount the line is worth whatever unit it is kept in
+  line_total?: number
+}
+
+export class UnitConversionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "UnitConversionError"
+  }
+}
+
+// Stock quantities are whole units; anything closer than this to a whole number is float noise
+const WHOLE_TOLERANCE = 1e-6
+
+export function normalizeUnit(unit: string) {
+  return unit.trim().toLowerCase()
+}
+
+// The stock unit always converts to itself, whether or not it is listed
+export function getUnitFactor(config: ProductUnitConfig, unit?: string | null): number {
+  if (!unit || normalizeUnit(unit) === normalizeUnit(config.stock_unit)) return 1
+
+  const match = config.units.find((candidate) => normalizeUnit(candidate.unit) === normalizeUnit(unit))
+  if (!match) {
+    throw new UnitConversionError(`Unit "${unit}" is not configured for this product (stocked in ${config.stock_unit})`)
+  }
+  return match.factor
+}
+
+export function getDefaultUnit(config: ProductUnitConfig, usage: "purchase" | "sales"): string {
+  const match = config.units.find((unit) => (usage === "purchase" ? unit.is_purchase_default : unit.is_sales_default))
+  return match?.unit || config.stock_unit
+}
+
+export function convertToStockUnits(
+  config: ProductUnitConfig,
+  quantity: number,
+  unit?: string | null,
+  unitPrice?: number,
+): UnitConversion {
+  const factor = getUnitFactor(config, unit)
+  const stockQuantity = quantity * factor
+  const rounded = Math.round(stockQuantity)
+
+  if (Math.abs(stockQuantity - rounded) > WHOLE_TOLERANCE) {
+    throw new UnitConversionError(
+      `${quantity} ${unit} is ${stockQuantity} ${config.stock_unit}; stock moves in whole ${config.stock_unit}`,
+    )
+  }
+
+  return {
+    unit: unit || config.stock_unit,
+    factor,
+    unit_quantity: quantity,
+    unit_price: unitPrice,
+    quantity: rounded,
+    stock_unit_price: unitPrice === undefined ? undefined : unitPrice / factor,
+    line_total: unitPrice === undefined ? undefined : quantity * unitPrice,
+  }
+}
+
+// Stock-unit demand expressed in whole units of a pack, rounded up so the need is covered
+export function toWholeUnits(config: ProductUnitConfig, stockQuantity: number, unit: string) {
+  const factor = getUnitFactor(config, unit)
+  return Math.ceil(stockQuantity / factor - WHOLE_TOLERANCE)
+}
+
+export function validateUnitConfig(config: ProductUnitConfig) {
+  if (!config.stock_unit.trim()) {
+    throw new UnitConversionError("A stock unit is required")
+  }
+
+  const seen = new Set([normalizeUnit(config.stock_unit)])
+  for (const unit of config.units) {
+    if (!unit.unit.trim()) {
+      throw new UnitConversionError("Every unit needs a name")
+    }
+    if (!(unit.factor > 0)) {
+      throw new UnitConversionError(`The factor for ${unit.unit} must be greater than zero`)
+    }
+    if (seen.has(normalizeUnit(unit.unit))) {
+      throw new UnitConversionError(`${unit.unit} is listed more than once`)
+    }
+    seen.add(normalizeUnit(unit.unit))
+  }
+
+  if (config.units.filter((unit) => unit.is_purchase_default).length > 1) {
+    throw new UnitConversionError("Only one unit can be the purchase default")
+  }
+  if (config.units.filter((unit) => unit.is_sales_default).length > 1) {
+    throw new UnitConversionError("Only one unit can be the sales default")
+  }
+}
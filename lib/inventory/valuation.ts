@@ -0,0 +1,117 @@
+export type ValuationMethod = "fifo" | "weighted_average"
+
+export interface CostLayer {
+  batch_id: string
+  product_id: string
+  received_at: string
+  quantity_received: number
+  unit_cost: number
+}
+
+export interface LayerMovement {
+  batch_id: string
+  movement_type: string
+  quantity: number
+  created_at: string
+}
+
+export interface LayerValuation {
+  quantity: number
+  value: number
+  unit_cost: number
+}
+
+// Movements that take units out of a batch (or put them back) after it was received
+const ISSUE_TYPES = ["OUT", "DAMAGE"]
+const RETURN_TYPES = ["RETURN"]
+
+function signedQuantity(movement: LayerMovement) {
+  if (ISSUE_TYPES.includes(movement.movement_type)) return -movement.quantity
+  if (RETURN_TYPES.includes(movement.movement_type)) return movement.quantity
+  return 0
+}
+
+// Receipts and issues for one product in date order, as of the given date
+function getEvents(layers: CostLayer[], movements: LayerMovement[], asOf: Date) {
+  const cutoff = asOf.getTime()
+  const layerIds = new Set(layers.map((layer) => layer.batch_id))
+
+  const receipts = layers
+    .filter((layer) => new Date(layer.received_at).getTime() <= cutoff)
+    .map((layer) => ({
+      at: new Date(layer.received_at).getTime(),
+      quantity: layer.quantity_received,
+      unit_cost: layer.unit_cost,
+    }))
+
+  const issues = movements
+    .filter((movement) => layerIds.has(movement.batch_id) && new Date(movement.created_at).getTime() <= cutoff)
+    .map((movement) => ({ at: new Date(movement.created_at).getTime(), quantity: signedQuantity(movement) }))
+    .filter((movement) => movement.quantity !== 0)
+
+  return { receipts, issues }
+}
+
+export function getQuantityAsOf(layers: CostLayer[], movements: LayerMovement[], asOf: Date = new Date()) {
+  const { receipts, issues } = getEvents(layers, movements, asOf)
+  const quantity =
+    receipts.reduce((sum, receipt) => sum + receipt.quantity, 0) + issues.reduce((sum, issue) => sum + issue.quantity, 0)
+  return Math.max(quantity, 0)
+}
+
+// FIFO: units issued came from the oldest layers, so what is left sits in the newest ones
+export function valueFifo(layers: CostLayer[], movements: LayerMovement[], asOf: Date = new Date()): LayerValuation {
+  let remaining = getQuantityAsOf(layers, movements, asOf)
+  const quantity = remaining
+  let value = 0
+
+  const newestFirst = layers
+    .filter((layer) => new Date(layer.received_at).getTime() <= asOf.getTime())
+    .sort((a, b) => new Date(b.received_at).getTime() - new Date(a.received_at).getTime())
+
+  for (const layer of newestFirst) {
+    if (remaining <= 0) break
+    const take = Math.min(layer.quantity_received, remaining)
+    value += take * layer.unit_cost
+    remaining -= take
+  }
+
+  return { quantity, value, unit_cost: quantity > 0 ? value / quantity : 0 }
+}
+
+// Perpetual weighted average: each receipt re-averages the cost of what is on hand, issues go out at that average
+export function valueWeightedAverage(
+  layers: CostLayer[],
+  movements: LayerMovement[],
+  asOf: Date = new Date(),
+): LayerValuation {
+  const { receipts, issues } = getEvents(layers, movements, asOf)
+  const events = [
+    ...receipts.map((receipt) => ({ ...receipt, kind: "receipt" as const })),
+    ...issues.map((issue) => ({ ...issue, unit_cost: 0, kind: "issue" as const })),
+  ].sort((a, b) => a.at - b.at || (a.kind === "receipt" ? -1 : 1))
+
+  let quantity = 0
+  let averageCost = 0
+
+  for (const event of events) {
+    if (event.kind === "receipt") {
+      const total = quantity + event.quantity
+      averageCost = total > 0 ? (quantity * averageCost + event.quantity * event.unit_cost) / total : averageCost
+      quantity = total
+    } else {
+      quantity = Math.max(quantity + event.quantity, 0)
+    }
+  }
+
+  return { quantity, value: quantity * averageCost, unit_cost: averageCost }
+}
+
+export function valueLayers(
+  method: ValuationMethod,
+  layers: CostLayer[],
+  movements: LayerMovement[],
+  asOf: Date = new Date(),
+): LayerValuation {
+  return method === "fifo" ? valueFifo(layers, movements, asOf) : valueWeightedAverage(layers, movements, asOf)
+}
@@ -0,0 +1,187 @@
+// Split shipments. Each shipment sends chosen quantities of an order's lines; the batches it carries are
+// taken from the line's batch allocations — the ones picked on the floor first, then first-expiry-first-out.
+// Kit lines ship assembled kits before kits built from components, and a built kit takes its share of each
+// component's allocations. The order's fulfillment status follows from how much of every line has shipped.
+
+import type { FulfillmentStatus } from "./order-state"
+
+export interface ShipmentAllocation {
+  id: string
+  order_item_id: string
+  product_id: string
+  // Set on component batches drawn for a kit line
+  kit_product_id?: string | null
+  batch_id: string
+  batch_number: string
+  expiry_date: string
+  quantity: number
+  quantity_shipped: number
+  status: "allocated" | "shipped" | "released"
+}
+
+export interface ShipmentLineRequest {
+  order_item_id: string
+  quantity: number
+  // Allocations picked for this line, used before any others
+  allocation_ids?: string[]
+}
+
+export interface ShipmentPick {
+  allocation_id: string
+  batch_id: string
+  product_id: string
+  batch_number: string
+  expiry_date: string
+  quantity: number
+}
+
+export interface ShippableLine {
+  id: string
+  quantity: number
+}
+
+export class FulfillmentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "FulfillmentError"
+  }
+}
+
+export function getShippedQuantities(shippedItems: Array<{ order_item_id: string; quantity: number }>) {
+  const shipped = new Map<string, number>()
+  for (const item of shippedItems) {
+    shipped.set(item.order_item_id, (shipped.get(item.order_item_id) || 0) + item.quantity)
+  }
+  return shipped
+}
+
+export function getRemainingQuantities(lines: ShippableLine[], shipped: Map<string, number>) {
+  return new Map(lines.map((line) => [line.id, Math.max(line.quantity - (shipped.get(line.id) || 0), 0)]))
+}
+
+export function deriveFulfillmentStatus(lines: ShippableLine[], shipped: Map<string, number>): FulfillmentStatus {
+  if (lines.length > 0 && lines.every((line) => (shipped.get(line.id) || 0) >= line.quantity)) {
+    return "fulfilled"
+  }
+  return lines.some((line) => (shipped.get(line.id) || 0) > 0) ? "partial" : "unfulfilled"
+}
+
+function getUnshipped(allocation: ShipmentAllocation) {
+  return allocation.quantity - allocation.quantity_shipped
+}
+
+function pickFrom(allocations: ShipmentAllocation[], quantity: number, preferred: string[]): ShipmentPick[] {
+  const ordered = allocations
+    .filter((allocation) => getUnshipped(allocation) > 0)
+    .sort(
+      (a, b) =>
+        Number(preferred.includes(b.id)) - Number(preferred.includes(a.id)) ||
+        a.expiry_date.localeCompare(b.expiry_date) ||
+        a.batch_number.localeCompare(b.batch_number),
+    )
+
+  const picks: ShipmentPick[] = []
+  let remaining = quantity
+  for (const allocation of ordered) {
+    if (remaining <= 0) break
+    const take = Math.min(getUnshipped(allocation), remaining)
+    picks.push({
+      allocation_id: allocation.id,
+      batch_id: allocation.batch_id,
+      product_id: allocation.product_id,
+      batch_number: allocation.batch_number,
+      expiry_date: allocation.expiry_date,
+      quantity: take,
+    })
+    remaining -= take
+  }
+
+  if (remaining > 0) {
+    throw new FulfillmentError(`Only ${quantity - remaining} of ${quantity} allocated units are left to ship`)
+  }
+  return picks
+}
+
+// Batches to send for one line of a shipment. Lines without allocations are not batch-tracked and ship
+// without picks. `alreadyShipped` is how much of the line earlier shipments sent.
+export function planLineShipment(
+  line: ShippableLine,
+  allocations: ShipmentAllocation[],
+  request: ShipmentLineRequest,
+  alreadyShipped: number,
+): ShipmentPick[] {
+  const active = allocations.filter(
+    (allocation) => allocation.order_item_id === line.id && allocation.status !== "released",
+  )
+  const preferred = request.allocation_ids || []
+
+  const unknown = preferred.filter((id) => !active.some((allocation) => allocation.id === id))
+  if (unknown.length > 0) {
+    throw new FulfillmentError("Picked batches must come from the line's own allocations")
+  }
+  if (active.length === 0) {
+    return []
+  }
+
+  const own = active.filter((allocation) => !allocation.kit_product_id)
+  const components = active.filter((allocation) => allocation.kit_product_id)
+
+  if (components.length === 0) {
+    return pickFrom(own, request.quantity, preferred)
+  }
+
+  // Kit line: assembled kits go first, the rest are kits built from components
+  const ownUnshipped = own.reduce((sum, allocation) => sum + getUnshipped(allocation), 0)
+  const assembled = Math.min(request.quantity, ownUnshipped)
+  const picks = assembled > 0 ? pickFrom(own, assembled, preferred) : []
+
+  const built = request.quantity - assembled
+  if (built === 0) {
+    return picks
+  }
+
+  const builtTotal = line.quantity - own.reduce((sum, allocation) => sum + allocation.quantity, 0)
+  const finishesLine = alreadyShipped + request.quantity >= line.quantity
+  const byComponent = new Map<string, ShipmentAllocation[]>()
+  for (const allocation of components) {
+    byComponent.set(allocation.product_id, [...(byComponent.get(allocation.product_id) || []), allocation])
+  }
+
+  for (const componentAllocations of byComponent.values()) {
+    const unshipped = componentAllocations.reduce((sum, allocation) => sum + getUnshipped(allocation), 0)
+    const total = componentAllocations.reduce((sum, allocation) => sum + allocation.quantity, 0)
+    // The last shipment of the line takes whatever is left so rounding never strands units
+    const needed =
+      finishesLine || builtTotal <= 0 ? unshipped : Math.min(unshipped, Math.round((total / builtTotal) * built))
+    if (needed > 0) {
+      picks.push(...pickFrom(componentAllocations, needed, preferred))
+    }
+  }
+
+  return picks
+}
+
+export function validateShipmentLines(requests: ShipmentLineRequest[], remaining: Map<string, number>) {
+  if (requests.length === 0) {
+    throw new FulfillmentError("A shipment needs at least one line")
+  }
+
+  const seen = new Set<string>()
+  for (const request of requests) {
+    if (seen.has(request.order_item_id)) {
+      throw new FulfillmentError("Each order line can appear only once in a shipment")
+    }
+    seen.add(request.order_item_id)
+
+    if (!remaining.has(request.order_item_id)) {
+      throw new FulfillmentError("Shipment lines must belong to the order")
+    }
+    if (!Number.isInteger(request.quantity) || request.quantity <= 0) {
+      throw new FulfillmentError("Shipment quantities must be whole numbers above zero")
+    }
+    const left = remaining.get(request.order_item_id) || 0
+    if (request.quantity > left) {
+      throw new FulfillmentError(`Only ${left} left to ship on this line, asked for ${request.quantity}`)
+    }
+  }
+}
@@ -0,0 +1,170 @@
+// Order lifecycle. An order carries three statuses — the order itself, its payment and its fulfillment —
+// and each moves only along the transitions below. A transition can also have a guard that looks at the
+// other two statuses (a refund needs a captured payment, an order that has started shipping cannot be
+// cancelled). The service applies the side effects and records every change in order_status_history.
+
+export type OrderStatus = "pending" | "confirmed" | "processing" | "shipped" | "delivered" | "cancelled" | "refunded"
+export type PaymentStatus = "pending" | "paid" | "failed" | "refunded" | "partially_refunded"
+export type FulfillmentStatus = "unfulfilled" | "partial" | "fulfilled"
+
+// Matches order_status_history.status_type
+export type StatusType = "order" | "payment" | "fulfillment"
+
+export interface OrderState {
+  status: OrderStatus
+  payment_status: PaymentStatus
+  fulfillment_status: FulfillmentStatus
+}
+
+export interface OrderAction {
+  status_type: StatusType
+  to: string
+  label: string
+  destructive?: boolean
+}
+
+export interface AvailableOrderAction extends OrderAction {
+  allowed: boolean
+  // Why a listed action cannot be taken right now
+  blocked_reason?: string
+}
+
+export class OrderTransitionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "OrderTransitionError"
+  }
+}
+
+// The order changed between reading it and writing it; the caller should reload and retry
+export class OrderConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "OrderConflictError"
+  }
+}
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["processing", "cancelled"],
+  processing: ["shipped", "cancelled"],
+  shipped: ["delivered"],
+  delivered: ["refunded"],
+  cancelled: ["refunded"],
+  refunded: [],
+}
+
+export const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ["paid", "failed"],
+  failed: ["pending", "paid"],
+  paid: ["partially_refunded", "refunded"],
+  partially_refunded: ["refunded"],
+  refunded: [],
+}
+
+export const FULFILLMENT_TRANSITIONS: Record<FulfillmentStatus, FulfillmentStatus[]> = {
+  unfulfilled: ["partial", "fulfilled"],
+  partial: ["fulfilled"],
+  fulfilled: [],
+}
+
+const TRANSITIONS: Record<StatusType, Record<string, string[]>> = {
+  order: ORDER_TRANSITIONS,
+  payment: PAYMENT_TRANSITIONS,
+  fulfillment: FULFILLMENT_TRANSITIONS,
+}
+
+// Buttons offered on the order screen, in display order. There is no shipped button: creating the
+// shipment that sends the last items moves the order to shipped
+const ORDER_ACTIONS: OrderAction[] = [
+  { status_type: "order", to: "confirmed", label: "Confirm Order" },
+  { status_type: "order", to: "processing", label: "Start Processing" },
+  { status_type: "order", to: "delivered", label: "Mark as Delivered" },
+  { status_type: "payment", to: "paid", label: "Mark as Paid" },
+  { status_type: "order", to: "refunded", label: "Refund Order", destructive: true },
+  { status_type: "order", to: "cancelled", label: "Cancel Order", destructive: true },
+]
+
+export function getStatus(state: OrderState, statusType: StatusType): string {
+  switch (statusType) {
+    case "order":
+      return state.status
+    case "payment":
+      return state.payment_status
+    case "fulfillment":
+      return state.fulfillment_status
+  }
+}
+
+// Null when the guard passes, otherwise why the transition is not allowed in this state
+function checkGuard(state: OrderState, statusType: StatusType, to: string): string | null {
+  if (statusType === "order") {
+    switch (to) {
+      case "confirmed":
+        return state.payment_status === "failed" ? "Payment failed; retry the payment first" : null
+      case "shipped":
+        // Shipments drive this; the order ships once every line has gone out
+        return state.fulfillment_status !== "fulfilled" ? "Ship the remaining items first" : null
+      case "cancelled":
+        return state.fulfillment_status !== "unfulfilled" ? "Part of the order has already shipped" : null
+      case "refunded":
+        return ["paid", "partially_refunded"].includes(state.payment_status) ? null : "No captured payment to refund"
+    }
+  }
+
+  if (statusType === "payment") {
+    // Money is not taken for an order that will never ship
+    if (to === "paid" && ["cancelled", "refunded"].includes(state.status)) {
+      return `Order is ${state.status}`
+    }
+  }
+
+  if (statusType === "fulfillment") {
+    if (["pending", "cancelled", "refunded"].includes(state.status)) {
+      return `Order is ${state.status}`
+    }
+  }
+
+  return null
+}
+
+export function getTransitionError(state: OrderState, statusType: StatusType, to: string): string | null {
+  const from = getStatus(state, statusType)
+
+  if (from === to) {
+    return `${statusLabel(statusType)} is already ${to}`
+  }
+  if (!(TRANSITIONS[statusType][from] || []).includes(to)) {
+    return `${statusLabel(statusType)} cannot go from ${from} to ${to}`
+  }
+  return checkGuard(state, statusType, to)
+}
+
+export function assertTransition(state: OrderState, statusType: StatusType, to: string) {
+  const error = getTransitionError(state, statusType, to)
+  if (error) {
+    throw new OrderTransitionError(error)
+  }
+}
+
+// Actions whose transition exists from the current state. Ones held back by a guard are still listed,
+// with allowed false and the reason, so the screen can explain why they are unavailable
+export function getAvailableOrderActions(state: OrderState): AvailableOrderAction[] {
+  return ORDER_ACTIONS.filter((action) =>
+    (TRANSITIONS[action.status_type][getStatus(state, action.status_type)] || []).includes(action.to),
+  ).map((action) => {
+    const blockedReason = checkGuard(state, action.status_type, action.to)
+    return blockedReason ? { ...action, allowed: false, blocked_reason: blockedReason } : { ...action, allowed: true }
+  })
+}
+
+function statusLabel(statusType: StatusType) {
+  switch (statusType) {
+    case "order":
+      return "Order"
+    case "payment":
+      return "Payment"
+    case "fulfillment":
+      return "Fulfillment"
+  }
+}
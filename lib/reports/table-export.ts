@@ -0,0 +1,290 @@
+// Turns a report table into CSV, XLSX or PDF bytes in the browser without a spreadsheet or PDF library.
+// The XLSX writer produces a single-sheet workbook in an uncompressed zip; the PDF writer lays the table
+// out in landscape pages of monospaced text, which is what auditors print and file.
+
+export type TableCell = string | number | null | undefined
+
+export interface ReportTable {
+  title: string
+  subtitle?: string
+  headers: string[]
+  rows: TableCell[][]
+}
+
+function cellText(cell: TableCell) {
+  return cell === null || cell === undefined ? "" : String(cell)
+}
+
+export function toCsv(table: ReportTable) {
+  const escape = (cell: TableCell) => {
+    const text = cellText(cell)
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+  return [table.headers, ...table.rows].map((row) => row.map(escape).join(",")).join("\n")
+}
+
+// ---- XLSX ----
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Uint8Array) {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// Stored (uncompressed) zip archive, which is all an XLSX reader needs
+function zip(files: { name: string; content: string }[]) {
+  const encoder = new TextEncoder()
+  const chunks: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = encoder.encode(file.name)
+    const data = encoder.encode(file.content)
+    const crc = crc32(data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, name.length, true)
+    chunks.push(new Uint8Array(local.buffer), name, data)
+
+    const entry = new DataView(new ArrayBuffer(46))
+    entry.setUint32(0, 0x02014b50, true)
+    entry.setUint16(4, 20, true)
+    entry.setUint16(6, 20, true)
+    entry.setUint32(16, crc, true)
+    entry.setUint32(20, data.length, true)
+    entry.setUint32(24, data.length, true)
+    entry.setUint16(28, name.length, true)
+    entry.setUint32(42, offset, true)
+    central.push(new Uint8Array(entry.buffer), name)
+
+    offset += 30 + name.length + data.length
+  }
+
+  const centralSize = central.reduce((size, chunk) => size + chunk.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, files.length, true)
+  end.setUint16(10, files.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)]
+  const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    result.set(part, position)
+    position += part.length
+  }
+  return result
+}
+
+function xmlEscape(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+function columnName(index: number) {
+  let name = ""
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+export function toXlsx(table: ReportTable) {
+  const allRows: TableCell[][] = [[table.title], ...(table.subtitle ? [[table.subtitle]] : []), [], table.headers]
+  allRows.push(...table.rows)
+
+  const sheetRows = allRows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((cell, columnIndex) => {
+          const ref = `${columnName(columnIndex)}${rowIndex + 1}`
+          if (typeof cell === "number" && Number.isFinite(cell)) return `<c r="${ref}"><v>${cell}</v></c>`
+          if (cell === null || cell === undefined || cell === "") return ""
+          return `<c r="${ref}" t="inlineStr"><is><t>${xmlEscape(String(cell))}</t></is></c>`
+        })
+        .join("")
+      return `<row r="${rowIndex + 1}">${cells}</row>`
+    })
+    .join("")
+
+  const sheetName = xmlEscape(table.title.replace(/[\\/?*[\]:]/g, " ").slice(0, 31))
+
+  return zip([
+    {
+      name: "[Content_Types].xml",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        "</Types>",
+    },
+    {
+      name: "_rels/.rels",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        "</Relationships>",
+    },
+    {
+      name: "xl/workbook.xml",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets>` +
+        "</workbook>",
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        "</Relationships>",
+    },
+    {
+      name: "xl/worksheets/sheet1.xml",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        `<sheetData>${sheetRows}</sheetData>` +
+        "</worksheet>",
+    },
+  ])
+}
+
+// ---- PDF ----
+
+const PAGE_WIDTH = 842 // A4 landscape, in points
+const PAGE_HEIGHT = 595
+const MARGIN = 30
+const FONT_SIZE = 7
+const LINE_HEIGHT = 9
+const CHAR_WIDTH = FONT_SIZE * 0.6 // Courier is 600/1000 em wide
+
+// The standard PDF fonts only cover Latin-1, and byte offsets below assume one byte per character
+function pdfText(text: string) {
+  return text
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)")
+}
+
+function fitColumns(table: ReportTable) {
+  const available = Math.floor((PAGE_WIDTH - MARGIN * 2) / CHAR_WIDTH)
+  const widths = table.headers.map((header, index) =>
+    Math.max(header.length, ...table.rows.map((row) => cellText(row[index]).length)),
+  )
+  // Shrink the widest columns until the table fits the page
+  while (widths.reduce((sum, width) => sum + width + 1, 0) > available) {
+    const widest = widths.indexOf(Math.max(...widths))
+    if (widths[widest] <= 4) break
+    widths[widest]--
+  }
+  return widths
+}
+
+function formatRow(cells: TableCell[], widths: number[]) {
+  return widths
+    .map((width, index) => {
+      const cell = cells[index]
+      const text = cellText(cell)
+      const clipped = text.length > width ? text.slice(0, width - 1) + "~" : text
+      return typeof cell === "number" ? clipped.padStart(width) : clipped.padEnd(width)
+    })
+    .join(" ")
+}
+
+export function toPdf(table: ReportTable) {
+  const widths = fitColumns(table)
+  const header = formatRow(table.headers, widths)
+  const rule = "-".repeat(header.length)
+  const linesPerPage = Math.floor((PAGE_HEIGHT - MARGIN * 2) / LINE_HEIGHT) - 5
+
+  const pages: string[][] = []
+  for (let start = 0; start < Math.max(table.rows.length, 1); start += linesPerPage) {
+    pages.push(table.rows.slice(start, start + linesPerPage).map((row) => formatRow(row, widths)))
+  }
+
+  const objects: string[] = []
+  const pageIds = pages.map((_, index) => 4 + index * 2)
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>"
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>"
+
+  pages.forEach((lines, index) => {
+    const text = [
+      `(${pdfText(table.title)}) Tj`,
+      ...(table.subtitle ? [`(${pdfText(table.subtitle)}) '`] : []),
+      `(${pdfText(`Page ${index + 1} of ${pages.length}`)}) '`,
+      "() '",
+      `(${pdfText(header)}) '`,
+      `(${pdfText(rule)}) '`,
+      ...lines.map((line) => `(${pdfText(line)}) '`),
+    ]
+    const stream = `BT /F1 ${FONT_SIZE} Tf ${LINE_HEIGHT} TL ${MARGIN} ${PAGE_HEIGHT - MARGIN} Td\n${text.join("\n")}\nET`
+
+    objects[pageIds[index]] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    objects[pageIds[index] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+  })
+
+  let pdf = "%PDF-1.4\n"
+  const offsets: number[] = []
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`
+  }
+
+  const xref = pdf.length
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`
+
+  return new TextEncoder().encode(pdf)
+}
+
+export type ExportFormat = "csv" | "xlsx" | "pdf"
+
+const EXPORT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pdf: "application/pdf",
+}
+
+// Builds the file and hands it to the browser as a download; filename is without extension
+export function downloadTable(table: ReportTable, format: ExportFormat, filename: string) {
+  const content = format === "csv" ? toCsv(table) : format === "xlsx" ? toXlsx(table) : toPdf(table)
+  const blob = new Blob([content], { type: EXPORT_TYPES[format] })
+  const url = window.URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = `${filename}.${format}`
+  a.click()
+  window.URL.revokeObjectURL(url)
+}
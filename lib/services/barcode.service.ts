@@ -0,0 +1,209 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { parseBarcode, toGtin13 } from "@/lib/inventory/gs1"
+import type { ParsedBarcode } from "@/lib/inventory/gs1"
+
+export interface ScannedProduct {
+  id: string
+  name: string
+  sku?: string | null
+  barcode?: string | null
+}
+
+export interface ScannedBatch {
+  id: string
+  batch_number: string
+  expiry_date: string
+  quantity_available: number
+  quality_status: string
+}
+
+export interface BarcodeResolution {
+  scan: ParsedBarcode
+  product: ScannedProduct | null
+  batch: ScannedBatch | null
+  // Expiry printed on the pack, falling back to the batch record
+  expiry_date: string | null
+  // The code did not name a GTIN, so it was matched as a batch number or SKU
+  matched_by: "barcode" | "batch_number" | "sku" | null
+}
+
+export interface PickScanResult extends BarcodeResolution {
+  order_item_id: string | null
+  allocation_id: string | null
+  result: "match" | "wrong_batch" | "not_in_order" | "unknown"
+  message: string
+}
+
+// Product masters hold EAN-13s or full GTIN-14s, so look both up
+function getBarcodeCandidates(gtin14: string) {
+  return Array.from(new Set([gtin14, toGtin13(gtin14), gtin14.replace(/^0+/, "")]))
+}
+
+export async function resolveBarcode(code: string): Promise<BarcodeResolution> {
+  const supabase = createClient()
+
+  const scan = parseBarcode(code)
+  let product: ScannedProduct | null = null
+  let batch: ScannedBatch | null = null
+  let matchedBy: BarcodeResolution["matched_by"] = null
+
+  if (scan.gtin) {
+    const { data, error } = await supabase
+      .from("homeopathy_products")
+      .select("id, name, sku, barcode")
+      .in("barcode", getBarcodeCandidates(scan.gtin))
+      .limit(1)
+
+    if (error) {
+      throw new Error(`Failed to look up barcode: ${error.message}`)
+    }
+
+    product = data?.[0] || null
+    matchedBy = product ? "barcode" : null
+  } else if (scan.format === "text" && code.trim()) {
+    const value = code.trim()
+
+    const { data: batches, error } = await supabase
+      .from("product_batches")
+      .select(`
+        id,
+        batch_number,
+        expiry_date,
+        quantity_available,
+        quality_status,
+        homeopathy_products (
+          id,
+          name,
+          sku,
+          barcode
+        )
+      `)
+      .ilike("batch_number", value)
+      .limit(2)
+
+    if (error) {
+      throw new Error(`Failed to look up batch: ${error.message}`)
+    }
+
+    // Batch numbers are only unique per product, so an ambiguous match resolves nothing
+    if (batches?.length === 1) {
+      const { homeopathy_products, ...batchFields } = batches[0] as any
+      batch = batchFields
+      product = homeopathy_products
+      matchedBy = "batch_number"
+    } else if (!batches?.length) {
+      const { data } = await supabase
+        .from("homeopathy_products")
+        .select("id, name, sku, barcode")
+        .ilike("sku", value)
+        .limit(1)
+
+      product = data?.[0] || null
+      matchedBy = product ? "sku" : null
+    }
+  }
+
+  if (product && scan.batch_number && !batch) {
+    const { data } = await supabase
+      .from("product_batches")
+      .select("id, batch_number, expiry_date, quantity_available, quality_status")
+      .eq("product_id", product.id)
+      .eq("batch_number", scan.batch_number)
+      .maybeSingle()
+
+    batch = data || null
+  }
+
+  return {
+    scan,
+    product,
+    batch,
+    expiry_date: scan.expiry_date || batch?.expiry_date || null,
+    matched_by: matchedBy,
+  }
+}
+
+// Checks a scanned pack against the batches allocated to the order; counting picked units is left to the caller
+export async function verifyPickScan(orderId: string, code: string): Promise<PickScanResult> {
+  const supabase = createClient()
+
+  const resolution = await resolveBarcode(code)
+
+  if (!resolution.product) {
+    return {
+      ...resolution,
+      order_item_id: null,
+      allocation_id: null,
+      result: "unknown",
+      message: `${code.trim()} does not match any product`,
+    }
+  }
+
+  const { data: allocations, error } = await supabase
+    .from("order_item_batches")
+    .select("id, order_item_id, product_id, batch_id, batch_number, quantity")
+    .eq("order_id", orderId)
+    .eq("product_id", resolution.product.id)
+    .neq("status", "released")
+
+  if (error) {
+    throw new Error(`Failed to fetch batch allocations: ${error.message}`)
+  }
+
+  if (!allocations || allocations.length === 0) {
+    const { data: items } = await supabase
+      .from("order_items")
+      .select("id")
+      .eq("order_id", orderId)
+      .eq("product_id", resolution.product.id)
+      .limit(1)
+
+    // Products that are not batch-tracked only need to be the right product
+    if (items?.length) {
+      return {
+        ...resolution,
+        order_item_id: items[0].id,
+        allocation_id: null,
+        result: "match",
+        message: `${resolution.product.name} picked`,
+      }
+    }
+
+    return {
+      ...resolution,
+      order_item_id: null,
+      allocation_id: null,
+      result: "not_in_order",
+      message: `${resolution.product.name} is not in this order`,
+    }
+  }
+
+  const scannedBatch = resolution.batch?.batch_number || resolution.scan.batch_number
+  const allocation = scannedBatch
+    ? allocations.find((a: any) => a.batch_number.toUpperCase() === scannedBatch.toUpperCase())
+    : allocations.length === 1
+      ? allocations[0]
+      : null
+
+  if (!allocation) {
+    return {
+      ...resolution,
+      order_item_id: allocations[0].order_item_id,
+      allocation_id: null,
+      result: "wrong_batch",
+      message: scannedBatch
+        ? `Batch ${scannedBatch} is not allocated; pick ${allocations.map((a: any) => a.batch_number).join(" or ")}`
+        : `Scan the batch label; pick ${allocations.map((a: any) => a.batch_number).join(" or ")}`,
+    }
+  }
+
+  return {
+    ...resolution,
+    order_item_id: allocation.order_item_id,
+    allocation_id: allocation.id,
+    result: "match",
+    message: `${resolution.product.name} batch ${allocation.batch_number} picked`,
+  }
+}
@@ -2,6 +2,15 @@
 
 import { createClient } from "@/lib/supabase/server"
 import { revalidatePath } from "next/cache"
+import { planFefoAllocation } from "@/lib/inventory/fefo"
+import { getEffectiveBatchPrice } from "@/lib/inventory/markdown"
+import { applyManualMarkdown, getLiveMarkdownPrices } from "./markdown.service"
+import { reallocatePurchaseOrderLandedCost } from "./landed-cost.service"
+import { getKitComponents } from "./kit.service"
+import { suggestPutawayForBatch } from "./storage-bin.service"
+import { planKitBatchAllocation, type KitComponent } from "@/lib/inventory/kits"
+import type { ShipmentPick } from "@/lib/orders/fulfillment"
+import { toStockError } from "@/lib/inventory/stock-errors"
 
 export async function getBatches(filters?: {
   product_id?: string
@@ -60,7 +69,7 @@ export async function getBatches(filters?: {
       supplier_name: batch.suppliers?.name || "Unknown Supplier",
       days_to_expiry: daysToExpiry,
       expiry_status: expiryStatus,
-      value_at_cost: batch.quantity_available * batch.purchase_price,
+      value_at_cost: batch.quantity_available * (batch.landed_cost ?? batch.purchase_price),
       value_at_selling: batch.quantity_available * batch.selling_price,
     }
   })
@@ -79,12 +88,13 @@ export async function createBatch(batchData: any) {
     throw new Error("Authentication required")
   }
 
-  // Set initial available quantity to received quantity
+  // Nothing is available until the batch passes goods-receipt QC
   const { data, error } = await supabase
     .from("product_batches")
     .insert({
       ...batchData,
-      quantity_available: batchData.quantity_received,
+      quantity_available: 0,
+      quality_status: "quarantine",
       created_by: user.id,
     })
     .select()
@@ -94,6 +104,16 @@ export async function createBatch(batchData: any) {
     throw new Error(`Failed to create batch: ${error.message}`)
   }
 
+  const { error: inspectionError } = await supabase.from("batch_qc_inspections").insert({
+    batch_id: data.id,
+    quantity_received: batchData.quantity_received,
+  })
+
+  if (inspectionError) {
+    await supabase.from("product_batches").delete().eq("id", data.id)
+    throw new Error(`Failed to queue batch for inspection: ${inspectionError.message}`)
+  }
+
   // Create initial batch movement record
   await supabase.from("batch_movements").insert({
     batch_id: data.id,
@@ -106,8 +126,19 @@ export async function createBatch(batchData: any) {
     performed_by: user.id,
   })
 
+  // A batch received against a purchase order takes its share of the order's charges
+  if (data.purchase_order_id) {
+    await reallocatePurchaseOrderLandedCost(data.purchase_order_id)
+  }
+
+  // Suggest where to put it away; a missing bin setup must not block the receipt
+  const suggestion = await suggestPutawayForBatch(data.id).catch((error) => {
+    console.error("Error suggesting putaway bin:", error)
+    return null
+  })
+
   revalidatePath("/admin/inventory/batches")
-  return data
+  return { ...data, suggested_bin_id: suggestion?.bin_id ?? null }
 }
 
 export async function updateBatch(id: string, updates: any) {
@@ -131,132 +162,367 @@ export async function updateBatch(id: string, updates: any) {
   return data
 }
 
-export async function getExpiryAlerts() {
-  const supabase = createClient()
+// Kept for the expiry alerts screen: the discount is recorded as a manual markdown, so the batch keeps its
+// original selling price and the markdown can be reverted
+export async function createDiscountOffer(batchId: string, discountPercentage: number) {
+  await applyManualMarkdown(batchId, discountPercentage)
+}
 
-  const today = new Date()
-  const thirtyDaysFromNow = new Date(today.getTime() + 30 * 24 * 60 * 60 * 1000)
-  const ninetyDaysFromNow = new Date(today.getTime() + 90 * 24 * 60 * 60 * 1000)
+export async function getBatchMovements(batchId?: string) {
+  const supabase = createClient()
 
-  const { data, error } = await supabase
-    .from("product_batches")
+  let query = supabase
+    .from("batch_movements")
     .select(`
       *,
-      homeopathy_products (
-        name,
-        brands (
+      product_batches (
+        batch_number,
+        homeopathy_products (
           name
         )
+      ),
+      profiles!batch_movements_performed_by_fkey (
+        first_name,
+        last_name
       )
     `)
-    .lte("expiry_date", ninetyDaysFromNow.toISOString())
-    .gt("quantity_available", 0)
-    .eq("is_active", true)
-    .order("expiry_date", { ascending: true })
+    .order("created_at", { ascending: false })
+
+  if (batchId) {
+    query = query.eq("batch_id", batchId)
+  }
+
+  const { data, error } = await query
 
   if (error) {
-    throw new Error(`Failed to fetch expiry alerts: ${error.message}`)
+    throw new Error(`Failed to fetch batch movements: ${error.message}`)
   }
 
-  // Process alerts and categorize them
-  const alerts = (data || []).map((batch) => {
-    const expiryDate = new Date(batch.expiry_date)
-    const daysToExpiry = Math.ceil((expiryDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24))
+  return data || []
+}
 
-    let alertType = "expiring_this_month"
-    let priority = "low"
+export interface OrderBatchAllocation {
+  id: string
+  order_id: string
+  order_item_id: string
+  product_id: string
+  batch_id: string
+  batch_number: string
+  expiry_date: string
+  quantity: number
+  // Units already sent in the order's shipments
+  quantity_shipped?: number
+  unit_cost?: number
+  list_price?: number | null
+  unit_price?: number | null
+  markdown_id?: string | null
+  // Set on component batches drawn for a kit line
+  kit_product_id?: string | null
+  status: "allocated" | "shipped" | "released"
+  allocated_at: string
+  shipped_at?: string
+  released_at?: string
+}
 
-    if (daysToExpiry <= 0) {
-      alertType = "expired"
-      priority = "high"
-    } else if (daysToExpiry <= 30) {
-      alertType = "expiring_soon"
-      priority = "medium"
-    }
+interface BatchAllocationRequest {
+  order_id: string
+  order_number: string
+  order_item_id: string
+  product_id: string
+  quantity: number
+  // The line's list price; batches with a live markdown sell below it
+  unit_price?: number
+}
 
-    return {
-      id: `alert_${batch.id}`,
-      batch_id: batch.id,
-      product_name: batch.homeopathy_products?.name || "Unknown Product",
-      brand_name: batch.homeopathy_products?.brands?.name || "Unknown Brand",
-      batch_number: batch.batch_number,
-      expiry_date: batch.expiry_date,
-      days_to_expiry: daysToExpiry,
-      quantity_available: batch.quantity_available,
-      value_at_cost: batch.quantity_available * batch.purchase_price,
-      alert_type: alertType,
-      priority,
-    }
+// Allocation rows and their OUT movements are written by one SQL function that locks each batch first,
+// so a batch that sold out since the plan was made fails the whole line instead of going negative
+async function recordBatchAllocations(
+  allocationData: BatchAllocationRequest,
+  lines: Array<{
+    product_id: string
+    kit_product_id?: string | null
+    batch_id: string
+    quantity: number
+    unit_cost: number
+    list_price?: number | null
+    unit_price?: number | null
+    markdown_id?: string | null
+    reason: string
+  }>,
+  userId: string,
+): Promise<OrderBatchAllocation[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc("allocate_order_item_batches", {
+    p_order_id: allocationData.order_id,
+    p_order_number: allocationData.order_number,
+    p_order_item_id: allocationData.order_item_id,
+    p_allocations: lines,
+    p_user_id: userId,
   })
 
-  return alerts
-}
+  if (error) {
+    throw toStockError(error, "allocate batches")
+  }
 
-export async function dismissAlert(alertId: string) {
-  // In a real implementation, you might want to track dismissed alerts
-  // For now, we'll just revalidate the path
-  revalidatePath("/admin/inventory/expiry-alerts")
+  return data || []
 }
 
-export async function createDiscountOffer(batchId: string, discountPercentage: number) {
+// A kit line takes assembled kit batches first; kits still to be built draw down their components' batches.
+// Components without any batches are not batch-tracked and are left out.
+async function allocateKitBatches(
+  allocationData: BatchAllocationRequest,
+  components: KitComponent[],
+  userId: string,
+): Promise<OrderBatchAllocation[]> {
   const supabase = createClient()
 
-  // Get batch details
-  const { data: batch } = await supabase.from("product_batches").select("*").eq("id", batchId).single()
+  const { data: batches, error } = await supabase
+    .from("product_batches")
+    .select(
+      "id, product_id, batch_number, expiry_date, quantity_available, quality_status, is_active, purchase_price, landed_cost, created_at",
+    )
+    .in("product_id", [allocationData.product_id, ...components.map((component) => component.product_id)])
+
+  if (error) {
+    throw new Error(`Failed to fetch batches: ${error.message}`)
+  }
+
+  const kitBatches = (batches || []).filter((batch: any) => batch.product_id === allocationData.product_id)
+  const componentBatches = new Map<string, any[]>()
+  for (const batch of batches || []) {
+    if (batch.product_id === allocationData.product_id) continue
+    componentBatches.set(batch.product_id, [...(componentBatches.get(batch.product_id) || []), batch])
+  }
+
+  const tracked = components.filter((component) => componentBatches.has(component.product_id))
+  if (kitBatches.length === 0 && tracked.length === 0) {
+    return []
+  }
+
+  const plan = planKitBatchAllocation(kitBatches, componentBatches, tracked, allocationData.quantity)
 
-  if (!batch) {
-    throw new Error("Batch not found")
+  if (plan.shortfall > 0) {
+    throw new Error(
+      `Insufficient sellable batch stock for order ${allocationData.order_number}: short by ${plan.shortfall} kits`,
+    )
   }
 
-  // Calculate discounted price
-  const discountedPrice = batch.selling_price * (1 - discountPercentage / 100)
+  const lines = [
+    ...plan.assembled.allocations.map((allocation) => ({
+      allocation,
+      product_id: allocationData.product_id,
+      kit_product_id: null,
+      unit_price: allocationData.unit_price ?? null,
+    })),
+    // The kit line carries the price; components only carry their cost
+    ...plan.components.flatMap(({ product_id, plan: componentPlan }) =>
+      componentPlan.allocations.map((allocation) => ({
+        allocation,
+        product_id,
+        kit_product_id: allocationData.product_id,
+        unit_price: null,
+      })),
+    ),
+  ]
+
+  const allocations = await recordBatchAllocations(
+    allocationData,
+    lines.map((line) => ({
+      product_id: line.product_id,
+      kit_product_id: line.kit_product_id,
+      batch_id: line.allocation.batch_id,
+      quantity: line.allocation.quantity,
+      unit_cost: line.allocation.unit_cost,
+      list_price: line.unit_price,
+      unit_price: line.unit_price,
+      reason: line.kit_product_id
+        ? `Built into a kit for order ${allocationData.order_number}`
+        : `Allocated to order ${allocationData.order_number}`,
+    })),
+    userId,
+  )
 
-  // Update batch with discounted selling price
-  const { error } = await supabase
+  revalidatePath("/admin/inventory/batches")
+  return allocations
+}
+
+export async function allocateBatchesForOrderItem(
+  allocationData: BatchAllocationRequest,
+): Promise<OrderBatchAllocation[]> {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const kitComponents = await getKitComponents(allocationData.product_id)
+  if (kitComponents) {
+    return allocateKitBatches(allocationData, kitComponents, user.id)
+  }
+
+  const { data: batches, error } = await supabase
     .from("product_batches")
-    .update({
-      selling_price: discountedPrice,
-      notes: `${discountPercentage}% discount applied due to approaching expiry`,
-      updated_at: new Date().toISOString(),
-    })
-    .eq("id", batchId)
+    .select(
+      "id, batch_number, expiry_date, quantity_available, quality_status, is_active, purchase_price, landed_cost, created_at",
+    )
+    .eq("product_id", allocationData.product_id)
 
   if (error) {
-    throw new Error(`Failed to create discount offer: ${error.message}`)
+    throw new Error(`Failed to fetch batches: ${error.message}`)
+  }
+
+  // Products without any batches are not batch-tracked
+  if (!batches || batches.length === 0) {
+    return []
+  }
+
+  const plan = planFefoAllocation(batches, allocationData.quantity)
+
+  if (plan.shortfall > 0) {
+    throw new Error(
+      `Insufficient sellable batch stock for order ${allocationData.order_number}: short by ${plan.shortfall}`,
+    )
+  }
+
+  const markdowns = await getLiveMarkdownPrices(plan.allocations.map((allocation) => allocation.batch_id))
+
+  const allocations = await recordBatchAllocations(
+    allocationData,
+    plan.allocations.map((allocation) => {
+      const markdown = markdowns.get(allocation.batch_id)
+      const listPrice = allocationData.unit_price
+      const unitPrice = listPrice != null ? getEffectiveBatchPrice(listPrice, markdown?.markdown_price) : null
+
+      return {
+        product_id: allocationData.product_id,
+        batch_id: allocation.batch_id,
+        quantity: allocation.quantity,
+        unit_cost: allocation.unit_cost,
+        list_price: listPrice ?? null,
+        unit_price: unitPrice,
+        markdown_id: unitPrice != null && unitPrice !== listPrice ? markdown?.markdown_id : null,
+        reason: `Allocated to order ${allocationData.order_number}`,
+      }
+    }),
+    user.id,
+  )
+
+  // Keep the single-batch columns on the order line filled when one batch covers it
+  if (plan.allocations.length === 1) {
+    await supabase
+      .from("order_items")
+      .update({
+        batch_id: plan.allocations[0].batch_id,
+        batch_number: plan.allocations[0].batch_number,
+        expiry_date: plan.allocations[0].expiry_date,
+      })
+      .eq("id", allocationData.order_item_id)
   }
 
-  revalidatePath("/admin/inventory/expiry-alerts")
   revalidatePath("/admin/inventory/batches")
+  return allocations
 }
 
-export async function getBatchMovements(batchId?: string) {
+// Unshipped allocations go back on their batches. One SQL call claims them, so a release that overlaps another
+// (an expiry sweep and a cancellation) does not return the same units twice.
+export async function releaseOrderBatchAllocations(orderId: string, reason: string): Promise<OrderBatchAllocation[]> {
   const supabase = createClient()
 
-  let query = supabase
-    .from("batch_movements")
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const { data: allocations, error } = await supabase.rpc("release_order_batch_allocations", {
+    p_order_id: orderId,
+    p_reason: reason,
+    p_user_id: user.id,
+  })
+
+  if (error) {
+    throw new Error(`Failed to release batch allocations: ${error.message}`)
+  }
+
+  if (allocations && allocations.length > 0) {
+    revalidatePath("/admin/inventory/batches")
+  }
+  return allocations || []
+}
+
+// Records the batches picked for a shipment and the units of their allocations as sent; an allocation is
+// shipped once all of it has gone. One SQL call, so a pick that was shipped meanwhile fails the whole shipment.
+export async function shipBatchAllocations(
+  picks: Array<ShipmentPick & { fulfillment_item_id: string }>,
+): Promise<OrderBatchAllocation[]> {
+  const supabase = createClient()
+
+  if (picks.length === 0) {
+    return []
+  }
+
+  const { data, error } = await supabase.rpc("ship_order_batch_allocations", { p_picks: picks })
+
+  if (error) {
+    throw toStockError(error, "mark batch allocations as shipped")
+  }
+
+  return data || []
+}
+
+export async function getOrderBatchAllocations(orderId: string) {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("order_item_batches")
     .select(`
       *,
       product_batches (
         batch_number,
+        expiry_date,
         homeopathy_products (
           name
         )
-      ),
-      profiles!batch_movements_performed_by_fkey (
-        first_name,
-        last_name
       )
     `)
-    .order("created_at", { ascending: false })
+    .eq("order_id", orderId)
+    .order("allocated_at", { ascending: true })
 
-  if (batchId) {
-    query = query.eq("batch_id", batchId)
+  if (error) {
+    throw new Error(`Failed to fetch batch allocations: ${error.message}`)
   }
 
-  const { data, error } = await query
+  return data || []
+}
+
+export async function getBatchAllocations(batchId: string) {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("order_item_batches")
+    .select(`
+      *,
+      orders (
+        order_number,
+        customer_email,
+        customer_phone,
+        status,
+        created_at
+      )
+    `)
+    .eq("batch_id", batchId)
+    .neq("status", "released")
+    .order("allocated_at", { ascending: false })
 
   if (error) {
-    throw new Error(`Failed to fetch batch movements: ${error.message}`)
+    throw new Error(`Failed to fetch batch allocations: ${error.message}`)
   }
 
   return data || []
@@ -0,0 +1,368 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { revalidatePath } from "next/cache"
+import {
+  DEFAULT_CLASSIFICATION_THRESHOLDS,
+  buildWeeklyDemand,
+  classifyProducts,
+  findClassPolicy,
+  getSafetyStock,
+  type AbcClass,
+  type ClassPolicy,
+  type XyzClass,
+} from "@/lib/inventory/classification"
+
+export interface ClassificationRun {
+  id: string
+  period_start: string
+  period_end: string
+  thresholds: typeof DEFAULT_CLASSIFICATION_THRESHOLDS
+  products_count: number
+  changed_count: number
+  total_consumption_value: number
+  created_at: string
+}
+
+export interface ClassificationCell {
+  abc_class: AbcClass
+  xyz_class: XyzClass
+  products: number
+  stock_value: number
+  policy: ClassPolicy | null
+}
+
+export interface ClassificationChange {
+  product_id: string
+  product_name: string
+  sku: string
+  abc_class: AbcClass
+  xyz_class: XyzClass
+  previous_abc_class: AbcClass | null
+  previous_xyz_class: XyzClass | null
+  consumption_value: number
+}
+
+export interface ProductClassificationHistory {
+  run_id: string
+  abc_class: AbcClass
+  xyz_class: XyzClass
+  consumption_value: number
+  demand_cv: number | null
+  safety_stock: number | null
+  created_at: string
+}
+
+const CLASSIFICATION_WEEKS = 52
+const DEFAULT_LEAD_TIME_DAYS = 7
+// Supabase returns at most this many rows per request, so a year of movements is read in pages
+const PAGE_SIZE = 1000
+
+function revalidateClassificationPaths() {
+  revalidatePath("/admin/products")
+  revalidatePath("/admin/inventory")
+}
+
+async function getOutboundMovements(since: string) {
+  const supabase = createClient()
+  const movements: Array<{ product_id: string; quantity: number; unit_cost: number | null; created_at: string }> = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("inventory_movements")
+      .select("product_id, quantity, unit_cost, created_at")
+      .eq("movement_type", "out")
+      .gte("created_at", since)
+      .order("created_at")
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to fetch inventory movements: ${error.message}`)
+    }
+
+    movements.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return movements
+}
+
+export async function getClassificationPolicies(): Promise<ClassPolicy[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("inventory_class_policies")
+    .select("abc_class, xyz_class, cycle_count_frequency_days, service_level_percentage, review_cadence_days")
+    .order("abc_class")
+    .order("xyz_class")
+
+  if (error) {
+    throw new Error(`Failed to fetch class policies: ${error.message}`)
+  }
+
+  return (data || []).map((policy: any) => ({
+    ...policy,
+    service_level_percentage: Number(policy.service_level_percentage),
+  }))
+}
+
+// Reclassifies every tracked product from the last year of outbound movements, records the run and each
+// product's class, and resets the stock policy defaults of products that are not locked.
+// Scheduled weekly through /api/cron/inventory-classification; a run on the same data gives the same classes.
+export async function runInventoryClassification() {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  const periodEnd = new Date()
+  const periodStart = new Date(periodEnd.getTime() - CLASSIFICATION_WEEKS * 7 * 24 * 60 * 60 * 1000)
+
+  const [{ data: products, error: productsError }, movements, policies, { data: supplierProducts }] = await Promise.all(
+    [
+      supabase
+        .from("products")
+        .select("id, cost_price, abc_class, xyz_class, stock_policy_locked")
+        .eq("track_inventory", true)
+        .neq("status", "archived"),
+      getOutboundMovements(periodStart.toISOString()),
+      getClassificationPolicies(),
+      supabase.from("supplier_products").select("product_id, lead_time_days, is_preferred").eq("is_active", true),
+    ],
+  )
+
+  if (productsError) {
+    throw new Error(`Failed to fetch products: ${productsError.message}`)
+  }
+
+  const movementsByProduct = new Map<string, typeof movements>()
+  for (const movement of movements) {
+    const list = movementsByProduct.get(movement.product_id) || []
+    list.push(movement)
+    movementsByProduct.set(movement.product_id, list)
+  }
+
+  const classifications = classifyProducts(
+    (products || []).map((product: any) => {
+      const productMovements = movementsByProduct.get(product.id) || []
+      return {
+        product_id: product.id,
+        // Movements carry the cost they left at; older ones without it fall back to the product's cost
+        consumption_value: productMovements.reduce(
+          (sum, movement) => sum + Math.abs(movement.quantity) * Number(movement.unit_cost ?? product.cost_price ?? 0),
+          0,
+        ),
+        weekly_demand: buildWeeklyDemand(productMovements, periodStart, CLASSIFICATION_WEEKS),
+      }
+    }),
+  )
+
+  const { data: run, error: runError } = await supabase
+    .from("inventory_classification_runs")
+    .insert({
+      period_start: periodStart.toISOString().split("T")[0],
+      period_end: periodEnd.toISOString().split("T")[0],
+      thresholds: DEFAULT_CLASSIFICATION_THRESHOLDS,
+      products_count: classifications.length,
+      total_consumption_value: classifications.reduce((sum, item) => sum + item.consumption_value, 0),
+      run_by: user?.id,
+    })
+    .select()
+    .single()
+
+  if (runError) {
+    throw new Error(`Failed to record classification run: ${runError.message}`)
+  }
+
+  let changedCount = 0
+  const historyRows = []
+
+  for (const classification of classifications) {
+    const product = products?.find((p: any) => p.id === classification.product_id)
+    const policy = findClassPolicy(policies, classification.abc_class, classification.xyz_class)
+    const leadTimes = (supplierProducts || []).filter((sp: any) => sp.product_id === classification.product_id)
+    const leadTime =
+      (leadTimes.find((sp: any) => sp.is_preferred) || leadTimes[0])?.lead_time_days || DEFAULT_LEAD_TIME_DAYS
+    const safetyStock = policy
+      ? getSafetyStock(classification.weekly_demand_std, leadTime, policy.service_level_percentage)
+      : null
+
+    const changed = product?.abc_class !== classification.abc_class || product?.xyz_class !== classification.xyz_class
+    if (changed) changedCount++
+
+    historyRows.push({
+      run_id: run.id,
+      product_id: classification.product_id,
+      abc_class: classification.abc_class,
+      xyz_class: classification.xyz_class,
+      previous_abc_class: product?.abc_class || null,
+      previous_xyz_class: product?.xyz_class || null,
+      consumption_value: classification.consumption_value,
+      cumulative_share: classification.cumulative_share,
+      average_weekly_demand: classification.average_weekly_demand,
+      weekly_demand_std: classification.weekly_demand_std,
+      demand_cv: classification.demand_cv,
+      safety_stock: safetyStock,
+    })
+
+    const { error: updateError } = await supabase
+      .from("products")
+      .update({
+        abc_class: classification.abc_class,
+        xyz_class: classification.xyz_class,
+        classified_at: periodEnd.toISOString(),
+        ...(product?.stock_policy_locked || !policy
+          ? {}
+          : {
+              cycle_count_frequency_days: policy.cycle_count_frequency_days,
+              reorder_review_days: policy.review_cadence_days,
+              safety_stock: safetyStock,
+            }),
+      })
+      .eq("id", classification.product_id)
+
+    if (updateError) {
+      throw new Error(`Failed to update product classification: ${updateError.message}`)
+    }
+  }
+
+  for (let from = 0; from < historyRows.length; from += PAGE_SIZE) {
+    const { error } = await supabase.from("product_classifications").insert(historyRows.slice(from, from + PAGE_SIZE))
+
+    if (error) {
+      throw new Error(`Failed to record classification history: ${error.message}`)
+    }
+  }
+
+  await supabase.from("inventory_classification_runs").update({ changed_count: changedCount }).eq("id", run.id)
+
+  if (user) {
+    await supabase.from("activity_logs").insert({
+      user_id: user.id,
+      action: "inventory_classification_run",
+      resource_type: "inventory_classification_run",
+      resource_id: run.id,
+      new_values: { products_count: classifications.length, changed_count: changedCount },
+    })
+  }
+
+  revalidateClassificationPaths()
+  return { run_id: run.id as string, products_count: classifications.length, changed_count: changedCount }
+}
+
+// The ABC/XYZ matrix for the inventory overview, with the latest run, the products it moved between
+// classes and how many products are past their class's cycle-count interval
+export async function getClassificationSummary() {
+  const supabase = createClient()
+
+  const [{ data: products, error }, policies, { data: runs }, { data: counts }] = await Promise.all([
+    supabase
+      .from("products")
+      .select("id, abc_class, xyz_class, inventory_quantity, cost_price, cycle_count_frequency_days")
+      .eq("track_inventory", true)
+      .neq("status", "archived"),
+    getClassificationPolicies(),
+    supabase.from("inventory_classification_runs").select("*").order("created_at", { ascending: false }).limit(1),
+    supabase.from("stock_levels").select("product_id, last_count_at"),
+  ])
+
+  if (error) {
+    throw new Error(`Failed to fetch product classes: ${error.message}`)
+  }
+
+  const lastRun = (runs?.[0] as ClassificationRun | undefined) || null
+
+  const cells: ClassificationCell[] = []
+  for (const abcClass of ["A", "B", "C"] as AbcClass[]) {
+    for (const xyzClass of ["X", "Y", "Z"] as XyzClass[]) {
+      const inCell = (products || []).filter(
+        (product: any) => product.abc_class === abcClass && product.xyz_class === xyzClass,
+      )
+      cells.push({
+        abc_class: abcClass,
+        xyz_class: xyzClass,
+        products: inCell.length,
+        stock_value: inCell.reduce(
+          (sum: number, product: any) => sum + (product.inventory_quantity || 0) * Number(product.cost_price || 0),
+          0,
+        ),
+        policy: findClassPolicy(policies, abcClass, xyzClass),
+      })
+    }
+  }
+
+  // A product is due once its oldest warehouse count is older than its interval, or it was never counted
+  const lastCounted = new Map<string, string | null>()
+  for (const level of counts || []) {
+    const previous = lastCounted.get(level.product_id)
+    if (previous === undefined || (previous && (!level.last_count_at || level.last_count_at < previous))) {
+      lastCounted.set(level.product_id, level.last_count_at)
+    }
+  }
+  const now = Date.now()
+  const cycleCountsDue = (products || []).filter((product: any) => {
+    if (!product.cycle_count_frequency_days) return false
+    const counted = lastCounted.get(product.id)
+    return !counted || now - new Date(counted).getTime() > product.cycle_count_frequency_days * 24 * 60 * 60 * 1000
+  }).length
+
+  let changes: ClassificationChange[] = []
+  if (lastRun) {
+    const { data: changed } = await supabase
+      .from("product_classifications")
+      .select(`
+        product_id,
+        abc_class,
+        xyz_class,
+        previous_abc_class,
+        previous_xyz_class,
+        consumption_value,
+        products (
+          name,
+          sku
+        )
+      `)
+      .eq("run_id", lastRun.id)
+      .not("previous_abc_class", "is", null)
+      .order("consumption_value", { ascending: false })
+
+    changes = (changed || [])
+      .filter((row: any) => row.previous_abc_class !== row.abc_class || row.previous_xyz_class !== row.xyz_class)
+      .slice(0, 10)
+      .map((row: any) => ({
+        product_id: row.product_id,
+        product_name: row.products?.name || "Unknown Product",
+        sku: row.products?.sku || "",
+        abc_class: row.abc_class,
+        xyz_class: row.xyz_class,
+        previous_abc_class: row.previous_abc_class,
+        previous_xyz_class: row.previous_xyz_class,
+        consumption_value: Number(row.consumption_value),
+      }))
+  }
+
+  return {
+    last_run: lastRun,
+    cells,
+    unclassified: (products || []).filter((product: any) => !product.abc_class).length,
+    cycle_counts_due: cycleCountsDue,
+    changes,
+  }
+}
+
+export async function getProductClassificationHistory(productId: string): Promise<ProductClassificationHistory[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("product_classifications")
+    .select("run_id, abc_class, xyz_class, consumption_value, demand_cv, safety_stock, created_at")
+    .eq("product_id", productId)
+    .order("created_at", { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch classification history: ${error.message}`)
+  }
+
+  return data || []
+}
@@ -0,0 +1,367 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { revalidatePath } from "next/cache"
+
+export type ExpiryAlertType = "expired" | "expiring_soon" | "expiring_this_month"
+export type ExpiryAlertStatus = "open" | "acknowledged" | "snoozed" | "resolved"
+export type ExpiryAlertResolution = "sold" | "discounted" | "returned_to_supplier" | "written_off" | "stock_cleared"
+export type ExpiryAlertAction =
+  "opened" | "regraded" | "acknowledged" | "snoozed" | "snooze_expired" | "assigned" | "unassigned" | "resolved"
+
+export interface ExpiryAlert {
+  id: string
+  batch_id: string
+  product_id: string
+  product_name: string
+  brand_name: string
+  batch_number: string
+  expiry_date: string
+  days_to_expiry: number
+  quantity_available: number
+  value_at_cost: number
+  alert_type: ExpiryAlertType
+  priority: "high" | "medium" | "low"
+  status: ExpiryAlertStatus
+  snoozed_until?: string | null
+  assigned_to?: string | null
+  assigned_to_name?: string | null
+  acknowledged_at?: string | null
+  resolved_at?: string | null
+  resolution?: ExpiryAlertResolution | null
+  resolution_notes?: string | null
+  triggered_at: string
+}
+
+export interface ExpiryAlertEvent {
+  id: string
+  alert_id: string
+  action: ExpiryAlertAction
+  from_status?: ExpiryAlertStatus | null
+  to_status?: ExpiryAlertStatus | null
+  details?: Record<string, unknown> | null
+  notes?: string | null
+  performed_by_name?: string | null
+  created_at: string
+}
+
+export interface ExpiryAlertAssignee {
+  id: string
+  name: string
+}
+
+const PRIORITY_ORDER: Record<ExpiryAlert["priority"], number> = { high: 0, medium: 1, low: 2 }
+
+function revalidateExpiryAlertPaths() {
+  revalidatePath("/admin/inventory")
+  revalidatePath("/admin/inventory/expiry-alerts")
+}
+
+function toProfileName(profile: any) {
+  return profile ? [profile.first_name, profile.last_name].filter(Boolean).join(" ") || profile.email || null : null
+}
+
+// Loads the alert, checks it is in one of the allowed states, applies the change and records it in the
+// audit trail
+async function changeExpiryAlert(
+  id: string,
+  allowedFrom: ExpiryAlertStatus[],
+  action: ExpiryAlertAction,
+  buildUpdate: (userId: string) => Record<string, unknown>,
+  details?: Record<string, unknown>,
+  notes?: string,
+) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const { data: alert, error: alertError } = await supabase
+    .from("expiry_alerts")
+    .select("id, status")
+    .eq("id", id)
+    .single()
+
+  if (alertError || !alert) {
+    throw new Error("Expiry alert not found")
+  }
+
+  if (!allowedFrom.includes(alert.status)) {
+    throw new Error(`Expiry alert is ${alert.status}`)
+  }
+
+  const update = buildUpdate(user.id)
+
+  const { data, error } = await supabase
+    .from("expiry_alerts")
+    .update(update)
+    .eq("id", id)
+    .eq("status", alert.status)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to update expiry alert: ${error.message}`)
+  }
+
+  const { error: eventError } = await supabase.from("expiry_alert_events").insert({
+    alert_id: id,
+    action,
+    from_status: alert.status,
+    to_status: data.status,
+    details,
+    notes: notes || null,
+    performed_by: user.id,
+  })
+
+  if (eventError) {
+    throw new Error(`Failed to record expiry alert history: ${eventError.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: `expiry_alert_${action}`,
+    resource_type: "expiry_alert",
+    resource_id: id,
+    new_values: { ...details, notes },
+  })
+
+  revalidateExpiryAlertPaths()
+  return data
+}
+
+// Alerts depend on today's date as well as stock, so they are brought up to date before every read, and
+// daily by /api/cron/expiry-alerts so they are current even when nobody opens the screen.
+export async function syncExpiryAlerts() {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc("sync_expiry_alerts")
+
+  if (error) {
+    throw new Error(`Failed to sync expiry alerts: ${error.message}`)
+  }
+
+  return data as number
+}
+
+// "active" covers open and acknowledged alerts; snoozed alerts stay out of it until their date passes.
+// assigned_to takes a profile id, "me" or "unassigned".
+export async function getExpiryAlerts(filters?: {
+  status?: ExpiryAlertStatus | "active" | "all"
+  assigned_to?: string
+}): Promise<ExpiryAlert[]> {
+  const supabase = createClient()
+
+  await syncExpiryAlerts()
+
+  let query = supabase
+    .from("expiry_alerts")
+    .select(`
+      *,
+      product_batches (
+        batch_number,
+        expiry_date,
+        quantity_available,
+        purchase_price,
+        landed_cost,
+        homeopathy_products (
+          name,
+          brands (
+            name
+          )
+        )
+      ),
+      assignee:profiles!expiry_alerts_assigned_to_fkey (
+        first_name,
+        last_name,
+        email
+      )
+    `)
+    .order("triggered_at", { ascending: false })
+
+  const status = filters?.status || "active"
+  if (status === "active") {
+    query = query.in("status", ["open", "acknowledged"])
+  } else if (status !== "all") {
+    query = query.eq("status", status)
+  }
+
+  if (filters?.assigned_to === "unassigned") {
+    query = query.is("assigned_to", null)
+  } else if (filters?.assigned_to === "me") {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) {
+      return []
+    }
+    query = query.eq("assigned_to", user.id)
+  } else if (filters?.assigned_to) {
+    query = query.eq("assigned_to", filters.assigned_to)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch expiry alerts: ${error.message}`)
+  }
+
+  const today = new Date()
+
+  return (data || [])
+    .map((alert: any) => {
+      const batch = alert.product_batches
+      const daysToExpiry = Math.ceil((new Date(batch?.expiry_date).getTime() - today.getTime()) / (1000 * 60 * 60 * 24))
+      const unitCost = Number(batch?.landed_cost ?? batch?.purchase_price ?? 0)
+
+      return {
+        id: alert.id,
+        batch_id: alert.batch_id,
+        product_id: alert.product_id,
+        product_name: batch?.homeopathy_products?.name || "Unknown Product",
+        brand_name: batch?.homeopathy_products?.brands?.name || "Unknown Brand",
+        batch_number: batch?.batch_number,
+        expiry_date: batch?.expiry_date,
+        days_to_expiry: daysToExpiry,
+        quantity_available: batch?.quantity_available || 0,
+        value_at_cost: (batch?.quantity_available || 0) * unitCost,
+        alert_type: alert.alert_type,
+        priority: alert.priority,
+        status: alert.status,
+        snoozed_until: alert.snoozed_until,
+        assigned_to: alert.assigned_to,
+        assigned_to_name: toProfileName(alert.assignee),
+        acknowledged_at: alert.acknowledged_at,
+        resolved_at: alert.resolved_at,
+        resolution: alert.resolution,
+        resolution_notes: alert.resolution_notes,
+        triggered_at: alert.triggered_at,
+      }
+    })
+    .sort(
+      (a: ExpiryAlert, b: ExpiryAlert) =>
+        PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.days_to_expiry - b.days_to_expiry,
+    )
+}
+
+export async function getExpiryAlertEvents(alertId: string): Promise<ExpiryAlertEvent[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("expiry_alert_events")
+    .select(`
+      *,
+      performer:profiles!expiry_alert_events_performed_by_fkey (
+        first_name,
+        last_name,
+        email
+      )
+    `)
+    .eq("alert_id", alertId)
+    .order("created_at", { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch expiry alert history: ${error.message}`)
+  }
+
+  return (data || []).map((event: any) => ({
+    id: event.id,
+    alert_id: event.alert_id,
+    action: event.action,
+    from_status: event.from_status,
+    to_status: event.to_status,
+    details: event.details,
+    notes: event.notes,
+    performed_by_name: toProfileName(event.performer),
+    created_at: event.created_at,
+  }))
+}
+
+// Staff who can be given an alert to follow up
+export async function getExpiryAlertAssignees(): Promise<ExpiryAlertAssignee[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("id, first_name, last_name, email")
+    .neq("role", "customer")
+    .eq("status", "active")
+    .order("first_name")
+
+  if (error) {
+    throw new Error(`Failed to fetch staff: ${error.message}`)
+  }
+
+  return (data || []).map((profile: any) => ({ id: profile.id, name: toProfileName(profile) || profile.id }))
+}
+
+export async function acknowledgeExpiryAlert(id: string, notes?: string) {
+  return changeExpiryAlert(
+    id,
+    ["open"],
+    "acknowledged",
+    (userId) => ({ status: "acknowledged", acknowledged_by: userId, acknowledged_at: new Date().toISOString() }),
+    undefined,
+    notes,
+  )
+}
+
+// The alert drops out of the active list and opens again once the date is reached
+export async function snoozeExpiryAlert(id: string, snoozedUntil: string, notes?: string) {
+  const today = new Date().toISOString().slice(0, 10)
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(snoozedUntil) || snoozedUntil <= today) {
+    throw new Error("Snooze date must be in the future")
+  }
+
+  return changeExpiryAlert(
+    id,
+    ["open", "acknowledged", "snoozed"],
+    "snoozed",
+    () => ({ status: "snoozed", snoozed_until: snoozedUntil }),
+    { snoozed_until: snoozedUntil },
+    notes,
+  )
+}
+
+// Pass null to take the alert off whoever has it
+export async function assignExpiryAlert(id: string, assigneeId: string | null, notes?: string) {
+  return changeExpiryAlert(
+    id,
+    ["open", "acknowledged", "snoozed"],
+    assigneeId ? "assigned" : "unassigned",
+    () => ({ assigned_to: assigneeId, assigned_at: assigneeId ? new Date().toISOString() : null }),
+    { assigned_to: assigneeId },
+    notes,
+  )
+}
+
+export async function resolveExpiryAlert(
+  id: string,
+  resolution: Exclude<ExpiryAlertResolution, "stock_cleared">,
+  notes?: string,
+) {
+  if (!["sold", "discounted", "returned_to_supplier", "written_off"].includes(resolution)) {
+    throw new Error("A resolution reason is required")
+  }
+
+  return changeExpiryAlert(
+    id,
+    ["open", "acknowledged", "snoozed"],
+    "resolved",
+    (userId) => ({
+      status: "resolved",
+      resolution,
+      resolution_notes: notes || null,
+      resolved_by: userId,
+      resolved_at: new Date().toISOString(),
+      snoozed_until: null,
+    }),
+    { resolution },
+    notes,
+  )
+}
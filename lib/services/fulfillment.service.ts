@@ -0,0 +1,332 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { revalidatePath } from "next/cache"
+import { shipBatchAllocations } from "./batch.service"
+import { transitionOrder } from "./order.service"
+import { fulfillOrderReservations } from "./reservation.service"
+import {
+  deriveFulfillmentStatus,
+  FulfillmentError,
+  getRemainingQuantities,
+  getShippedQuantities,
+  planLineShipment,
+  validateShipmentLines,
+  type ShipmentAllocation,
+  type ShipmentLineRequest,
+  type ShipmentPick,
+} from "@/lib/orders/fulfillment"
+import { OrderConflictError } from "@/lib/orders/order-state"
+
+export interface CreateShipmentData {
+  warehouse_id: string
+  lines: ShipmentLineRequest[]
+  shipping_method?: string
+  shipping_carrier: string
+  tracking_number?: string
+  tracking_url?: string
+  package_weight_kg?: number | null
+  shipping_cost?: number | null
+  notes?: string
+}
+
+export interface ShipmentBatch {
+  id: string
+  allocation_id: string
+  batch_id: string
+  product_id: string
+  batch_number: string
+  expiry_date: string
+  quantity: number
+}
+
+export interface ShipmentItem {
+  id: string
+  order_item_id: string
+  quantity: number
+  batch_number?: string | null
+  expiry_date?: string | null
+  order_items?: {
+    product_snapshot: { name: string; sku?: string; image?: string }
+  }
+  order_fulfillment_batches?: ShipmentBatch[]
+}
+
+export interface Shipment {
+  id: string
+  order_id: string
+  fulfillment_number: string
+  warehouse_id: string
+  status: "pending" | "allocated" | "picked" | "packed" | "shipped" | "delivered" | "cancelled"
+  shipping_method?: string | null
+  shipping_carrier?: string | null
+  tracking_number?: string | null
+  tracking_url?: string | null
+  shipping_cost?: number | null
+  package_weight_kg?: number | null
+  notes?: string | null
+  shipped_at?: string | null
+  delivered_at?: string | null
+  created_at: string
+  order_fulfillment_items: ShipmentItem[]
+}
+
+async function getShippedItems(orderId: string) {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("order_fulfillment_items")
+    .select("order_item_id, quantity, order_fulfillments!inner(order_id, status)")
+    .eq("order_fulfillments.order_id", orderId)
+    .neq("order_fulfillments.status", "cancelled")
+
+  if (error) {
+    throw new Error(`Failed to fetch shipped quantities: ${error.message}`)
+  }
+
+  return (data || []) as Array<{ order_item_id: string; quantity: number }>
+}
+
+export async function getOrderShipments(orderId: string): Promise<Shipment[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("order_fulfillments")
+    .select(`
+      *,
+      order_fulfillment_items (
+        *,
+        order_items (
+          product_snapshot
+        ),
+        order_fulfillment_batches (*)
+      )
+    `)
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch shipments: ${error.message}`)
+  }
+
+  return data || []
+}
+
+// Sends chosen quantities of an order's lines as one shipment. The batches carried come from the lines'
+// allocations, the order moves to processing with its first shipment and to shipped with its last, and its
+// fulfillment status follows what has gone out. An unpaid order's reserved stock leaves with its first shipment.
+export async function createShipment(orderId: string, shipmentData: CreateShipmentData): Promise<Shipment> {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  if (!shipmentData.shipping_carrier?.trim()) {
+    throw new FulfillmentError("A shipment needs a carrier")
+  }
+  if (!shipmentData.warehouse_id) {
+    throw new FulfillmentError("A shipment needs the warehouse it leaves from")
+  }
+
+  const { data: order } = await supabase
+    .from("orders")
+    .select("id, order_number, status, payment_status, fulfillment_status")
+    .eq("id", orderId)
+    .single()
+
+  if (!order) {
+    throw new Error("Order not found")
+  }
+  if (!["confirmed", "processing"].includes(order.status)) {
+    throw new FulfillmentError(`Only confirmed orders can ship; this order is ${order.status}`)
+  }
+
+  const { data: orderItems, error: itemsError } = await supabase
+    .from("order_items")
+    .select("id, quantity")
+    .eq("order_id", orderId)
+
+  if (itemsError) {
+    throw new Error(`Failed to fetch order items: ${itemsError.message}`)
+  }
+
+  const lines = orderItems || []
+  const shipped = getShippedQuantities(await getShippedItems(orderId))
+  validateShipmentLines(shipmentData.lines, getRemainingQuantities(lines, shipped))
+
+  // Orders paid on delivery still hold their stock as reservations; once goods leave it is taken for good,
+  // as payment would have done, and lines whose hold had lapsed get batches again before they are picked
+  if (["pending", "failed"].includes(order.payment_status)) {
+    await fulfillOrderReservations(orderId)
+  }
+
+  const { data: allocations, error: allocationError } = await supabase
+    .from("order_item_batches")
+    .select(
+      "id, order_item_id, product_id, kit_product_id, batch_id, batch_number, expiry_date, quantity, quantity_shipped, status",
+    )
+    .eq("order_id", orderId)
+
+  if (allocationError) {
+    throw new Error(`Failed to fetch batch allocations: ${allocationError.message}`)
+  }
+
+  const plannedLines = shipmentData.lines.map((request) => {
+    const line = lines.find((orderItem) => orderItem.id === request.order_item_id)!
+    return {
+      request,
+      picks: planLineShipment(line, (allocations || []) as ShipmentAllocation[], request, shipped.get(line.id) || 0),
+    }
+  })
+
+  const { count } = await supabase
+    .from("order_fulfillments")
+    .select("id", { count: "exact", head: true })
+    .eq("order_id", orderId)
+
+  const now = new Date().toISOString()
+  const { data: shipment, error: shipmentError } = await supabase
+    .from("order_fulfillments")
+    .insert({
+      order_id: orderId,
+      fulfillment_number: `${order.order_number}-S${(count || 0) + 1}`,
+      warehouse_id: shipmentData.warehouse_id,
+      status: "shipped",
+      shipping_method: shipmentData.shipping_method || null,
+      shipping_carrier: shipmentData.shipping_carrier.trim(),
+      tracking_number: shipmentData.tracking_number || null,
+      tracking_url: shipmentData.tracking_url || null,
+      shipping_cost: shipmentData.shipping_cost ?? null,
+      package_weight_kg: shipmentData.package_weight_kg ?? null,
+      actual_ship_date: now.split("T")[0],
+      shipped_at: now,
+      shipped_by: user.id,
+      notes: shipmentData.notes || null,
+    })
+    .select()
+    .single()
+
+  if (shipmentError) {
+    throw new Error(`Failed to create shipment: ${shipmentError.message}`)
+  }
+
+  const componentAllocationIds = new Set(
+    (allocations || []).filter((allocation) => allocation.kit_product_id).map((allocation) => allocation.id),
+  )
+
+  try {
+    const { data: shipmentItems, error: shipmentItemsError } = await supabase
+      .from("order_fulfillment_items")
+      .insert(
+        plannedLines.map(({ request, picks }) => {
+          // The line's own first batch, as on order_items; kit components are listed per batch below
+          const first = picks.find((pick) => !componentAllocationIds.has(pick.allocation_id))
+          return {
+            fulfillment_id: shipment.id,
+            order_item_id: request.order_item_id,
+            quantity: request.quantity,
+            batch_number: first?.batch_number || null,
+            expiry_date: first?.expiry_date || null,
+          }
+        }),
+      )
+      .select()
+
+    if (shipmentItemsError) {
+      throw new Error(`Failed to create shipment items: ${shipmentItemsError.message}`)
+    }
+
+    // Two shipments created at once could both pass the remaining-quantity check; the later one backs out
+    const shippedNow = getShippedQuantities(await getShippedItems(orderId))
+    if (lines.some((line) => (shippedNow.get(line.id) || 0) > line.quantity)) {
+      throw new OrderConflictError("Another shipment was created for these items. Reload and try again.")
+    }
+
+    const batches = plannedLines.flatMap(({ request, picks }) => {
+      const item = (shipmentItems || []).find((row) => row.order_item_id === request.order_item_id)
+      return picks.map((pick: ShipmentPick) => ({ fulfillment_item_id: item.id, ...pick }))
+    })
+
+    await shipBatchAllocations(batches)
+  } catch (error) {
+    // Items and batch rows go with the shipment
+    await supabase.from("order_fulfillments").delete().eq("id", shipment.id)
+    throw error
+  }
+
+  // Status changes go through the order state machine so they are guarded and recorded
+  const reason = `Shipment ${shipment.fulfillment_number}`
+  const fulfillmentStatus = deriveFulfillmentStatus(lines, getShippedQuantities(await getShippedItems(orderId)))
+
+  if (order.status === "confirmed") {
+    await transitionOrder(orderId, "order", "processing", { reason })
+  }
+  if (fulfillmentStatus !== order.fulfillment_status) {
+    await transitionOrder(orderId, "fulfillment", fulfillmentStatus, { reason })
+  }
+  if (fulfillmentStatus === "fulfilled") {
+    await transitionOrder(orderId, "order", "shipped", { reason: `${reason} completed the order` })
+  }
+
+  // Log activity
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "shipment_created",
+    resource_type: "order",
+    resource_id: orderId,
+    new_values: {
+      fulfillment_number: shipment.fulfillment_number,
+      lines: shipmentData.lines.map((line) => ({ order_item_id: line.order_item_id, quantity: line.quantity })),
+      tracking_number: shipmentData.tracking_number,
+    },
+  })
+
+  revalidatePath("/admin/orders")
+  revalidatePath(`/admin/orders/${orderId}`)
+  revalidatePath(`/orders/${orderId}`)
+  return shipment
+}
+
+// Once every shipment of a shipped order has arrived, the order is delivered
+export async function markShipmentDelivered(fulfillmentId: string) {
+  const supabase = createClient()
+
+  const { data: shipment, error } = await supabase
+    .from("order_fulfillments")
+    .update({
+      status: "delivered",
+      delivered_at: new Date().toISOString(),
+      actual_delivery_date: new Date().toISOString().split("T")[0],
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", fulfillmentId)
+    .eq("status", "shipped")
+    .select()
+    .single()
+
+  if (error || !shipment) {
+    throw new FulfillmentError("Only shipments in transit can be marked as delivered")
+  }
+
+  const { data: order } = await supabase.from("orders").select("status").eq("id", shipment.order_id).single()
+  const { data: openShipments } = await supabase
+    .from("order_fulfillments")
+    .select("id")
+    .eq("order_id", shipment.order_id)
+    .not("status", "in", "(delivered,cancelled)")
+
+  if (order?.status === "shipped" && (openShipments || []).length === 0) {
+    await transitionOrder(shipment.order_id, "order", "delivered", {
+      reason: `Shipment ${shipment.fulfillment_number} delivered`,
+    })
+  }
+
+  revalidatePath(`/admin/orders/${shipment.order_id}`)
+  revalidatePath(`/orders/${shipment.order_id}`)
+  return shipment
+}
@@ -2,6 +2,7 @@
 
 import { createClient } from "@/lib/supabase/server"
 import { revalidatePath } from "next/cache"
+import { applyManualMarkdown } from "./markdown.service"
 
 export async function getStockAgingData() {
   const supabase = createClient()
@@ -82,22 +83,10 @@ export async function createDiscountCampaign(itemIds: string[], discountPercenta
 
   const batchIds = stockItems.map((item) => item.batch_id)
 
-  // Update the selling prices for these batches
-  const { data: batches } = await supabase.from("product_batches").select("*").in("id", batchIds)
-
-  if (batches) {
-    for (const batch of batches) {
-      const discountedPrice = batch.selling_price * (1 - discountPercentage / 100)
-
-      await supabase
-        .from("product_batches")
-        .update({
-          selling_price: discountedPrice,
-          notes: `${discountPercentage}% discount applied for stock aging (was ${batch.selling_price})`,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", batch.id)
-    }
+  // Each batch gets a manual markdown, floored at cost, rather than a rewritten selling price
+  const markdowns = []
+  for (const batchId of batchIds) {
+    markdowns.push(await applyManualMarkdown(batchId, discountPercentage))
   }
 
   // Log the discount campaign
@@ -115,6 +104,7 @@ export async function createDiscountCampaign(itemIds: string[], discountPercenta
 
   revalidatePath("/admin/inventory/aging")
   revalidatePath("/admin/inventory/batches")
+  return markdowns
 }
 
 export async function markAsDeadStock(itemIds: string[]) {
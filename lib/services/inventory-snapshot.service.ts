@@ -0,0 +1,275 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { revalidatePath } from "next/cache"
+import { getLedgerKey } from "@/lib/inventory/stock-ledger"
+import {
+  compareStockPositions,
+  getPositionTotals,
+  isWholeDay,
+  toAsOfTimestamp,
+  type SnapshotLevel,
+  type StockPosition,
+  type StockPositionChange,
+} from "@/lib/inventory/snapshots"
+
+export interface StockPositionDetails {
+  product_name: string
+  sku: string | null
+  warehouse_name: string
+  batch_number: string | null
+  expiry_date: string | null
+}
+
+export interface StockAsOfLine extends StockPosition, StockPositionDetails {
+  key: string
+}
+
+export interface StockAsOfReport {
+  as_of: string
+  level: SnapshotLevel
+  // Whether the figures came from a stored daily snapshot or were replayed from the movements
+  source: "snapshot" | "replay"
+  lines: StockAsOfLine[]
+  totals: { quantity: number; value: number }
+}
+
+export interface StockComparisonLine extends StockPositionChange, StockPositionDetails {}
+
+export interface StockComparisonReport {
+  from: string
+  to: string
+  level: SnapshotLevel
+  sources: { from: StockAsOfReport["source"]; to: StockAsOfReport["source"] }
+  lines: StockComparisonLine[]
+  totals: {
+    from_quantity: number
+    to_quantity: number
+    from_value: number
+    to_value: number
+  }
+}
+
+export interface InventorySnapshotRun {
+  snapshot_date: string
+  level: SnapshotLevel
+  row_count: number
+  total_quantity: number
+  total_value: number
+  captured_at: string
+}
+
+interface StockAsOfOptions {
+  level?: SnapshotLevel
+  warehouse_id?: string
+  product_id?: string
+}
+
+const PAGE_SIZE = 1000
+
+// Whole days come from the stored snapshot when that day was captured; anything else is replayed
+async function getPositions(asOf: string, level: SnapshotLevel) {
+  const supabase = createClient()
+  const timestamp = toAsOfTimestamp(asOf)
+
+  if (timestamp > new Date()) {
+    throw new Error("Stock can only be shown for past dates")
+  }
+
+  let source: StockAsOfReport["source"] = "replay"
+  if (isWholeDay(asOf)) {
+    const { data: run, error: runError } = await supabase
+      .from("inventory_snapshot_runs")
+      .select("snapshot_date")
+      .eq("snapshot_date", asOf)
+      .eq("level", level)
+      .maybeSingle()
+
+    if (runError) {
+      throw new Error(`Failed to fetch inventory snapshots: ${runError.message}`)
+    }
+    if (run) source = "snapshot"
+  }
+
+  // PostgREST caps every response, so positions are read a page at a time
+  const positions: StockPosition[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } =
+      source === "snapshot"
+        ? await supabase
+            .from("inventory_snapshots")
+            .select("product_id, warehouse_id, batch_id, quantity, value")
+            .eq("snapshot_date", asOf)
+            .eq("level", level)
+            .order("id")
+            .range(from, from + PAGE_SIZE - 1)
+        : await supabase
+            .rpc("get_stock_position_at", { p_as_of: timestamp.toISOString(), p_level: level })
+            .order("product_id")
+            .order("warehouse_id")
+            .order("batch_id")
+            .range(from, from + PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to fetch stock as of ${asOf}: ${error.message}`)
+    }
+
+    positions.push(
+      ...(data || []).map((row: any) => ({
+        product_id: row.product_id,
+        warehouse_id: row.warehouse_id,
+        batch_id: row.batch_id,
+        quantity: Number(row.quantity),
+        value: Number(row.value),
+      })),
+    )
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return { positions, source }
+}
+
+function filterPositions(positions: StockPosition[], options?: StockAsOfOptions) {
+  return positions.filter(
+    (position) =>
+      (!options?.warehouse_id || position.warehouse_id === options.warehouse_id) &&
+      (!options?.product_id || position.product_id === options.product_id),
+  )
+}
+
+async function getPositionDetails(positions: Array<Pick<StockPosition, "product_id" | "batch_id" | "warehouse_id">>) {
+  const supabase = createClient()
+  const productIds = [...new Set(positions.map((position) => position.product_id))]
+  const batchIds = [...new Set(positions.map((position) => position.batch_id).filter(Boolean))] as string[]
+
+  const [{ data: products, error: productsError }, { data: warehouses, error: warehousesError }, batches] =
+    await Promise.all([
+      productIds.length > 0
+        ? supabase.from("products").select("id, name, sku").in("id", productIds)
+        : Promise.resolve({ data: [], error: null }),
+      supabase.from("warehouses").select("id, name"),
+      batchIds.length > 0
+        ? supabase.from("product_batches").select("id, batch_number, expiry_date").in("id", batchIds)
+        : Promise.resolve({ data: [], error: null }),
+    ])
+
+  if (productsError || warehousesError || batches.error) {
+    const error = productsError || warehousesError || batches.error
+    throw new Error(`Failed to fetch stock details: ${error?.message}`)
+  }
+
+  const productById = new Map<string, any>((products || []).map((product: any) => [product.id, product]))
+  const warehouseNames = new Map<string, string>((warehouses || []).map((warehouse: any) => [warehouse.id, warehouse.name]))
+  const batchById = new Map<string, any>((batches.data || []).map((batch: any) => [batch.id, batch]))
+
+  return (position: Pick<StockPosition, "product_id" | "batch_id" | "warehouse_id">): StockPositionDetails => {
+    const product = productById.get(position.product_id)
+    const batch = position.batch_id ? batchById.get(position.batch_id) : null
+    return {
+      product_name: product?.name || "Unknown product",
+      sku: product?.sku || null,
+      warehouse_name: position.warehouse_id ? warehouseNames.get(position.warehouse_id) || "Unknown" : "Unassigned",
+      batch_number: batch?.batch_number || null,
+      expiry_date: batch?.expiry_date || null,
+    }
+  }
+}
+
+// asOf is a date (that day's close) or a full timestamp
+export async function getStockAsOf(asOf: string, options?: StockAsOfOptions): Promise<StockAsOfReport> {
+  const level = options?.level || "warehouse"
+  const { positions, source } = await getPositions(asOf, level)
+  const filtered = filterPositions(positions, options)
+  const describe = await getPositionDetails(filtered)
+
+  return {
+    as_of: asOf,
+    level,
+    source,
+    lines: filtered
+      .map((position) => ({ ...position, ...describe(position), key: getLedgerKey(position) }))
+      .sort((a, b) => a.product_name.localeCompare(b.product_name)),
+    totals: getPositionTotals(filtered),
+  }
+}
+
+export async function compareStockBetween(
+  from: string,
+  to: string,
+  options?: StockAsOfOptions & { include_unchanged?: boolean },
+): Promise<StockComparisonReport> {
+  const level = options?.level || "warehouse"
+  if (toAsOfTimestamp(from) > toAsOfTimestamp(to)) {
+    throw new Error("The first date must be before the second")
+  }
+
+  const [before, after] = await Promise.all([getPositions(from, level), getPositions(to, level)])
+  const fromPositions = filterPositions(before.positions, options)
+  const toPositions = filterPositions(after.positions, options)
+  const changes = compareStockPositions(fromPositions, toPositions, options)
+  const describe = await getPositionDetails(changes)
+  const fromTotals = getPositionTotals(fromPositions)
+  const toTotals = getPositionTotals(toPositions)
+
+  return {
+    from,
+    to,
+    level,
+    sources: { from: before.source, to: after.source },
+    lines: changes.map((change) => ({ ...change, ...describe(change) })),
+    totals: {
+      from_quantity: fromTotals.quantity,
+      to_quantity: toTotals.quantity,
+      from_value: fromTotals.value,
+      to_value: toTotals.value,
+    },
+  }
+}
+
+// Captures the previous day (or the given date) at both levels; re-running replaces that day's snapshot.
+// /api/cron/inventory-snapshots calls it just after midnight.
+export async function captureInventorySnapshots(date?: string): Promise<InventorySnapshotRun[]> {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  const yesterday = new Date()
+  yesterday.setUTCDate(yesterday.getUTCDate() - 1)
+  const snapshotDate = date || yesterday.toISOString().split("T")[0]
+
+  const runs: InventorySnapshotRun[] = []
+  for (const level of ["warehouse", "batch"] as const) {
+    const { data, error } = await supabase.rpc("capture_inventory_snapshot", {
+      p_date: snapshotDate,
+      p_level: level,
+      p_user_id: user?.id ?? null,
+    })
+
+    if (error) {
+      throw new Error(`Failed to capture ${level} snapshot for ${snapshotDate}: ${error.message}`)
+    }
+    runs.push(data)
+  }
+
+  revalidatePath("/admin/inventory")
+  return runs
+}
+
+export async function getInventorySnapshotRuns(limit = 30): Promise<InventorySnapshotRun[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("inventory_snapshot_runs")
+    .select("snapshot_date, level, row_count, total_quantity, total_value, captured_at")
+    .order("snapshot_date", { ascending: false })
+    .order("level")
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to fetch inventory snapshots: ${error.message}`)
+  }
+
+  return data || []
+}
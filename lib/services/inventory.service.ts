@@ -2,6 +2,12 @@
 
 import { createClient } from "@/lib/supabase/server"
 import { revalidatePath } from "next/cache"
+import { toStockError } from "@/lib/inventory/stock-errors"
+import { releaseExpiredReservations } from "./reservation.service"
+import { getStockAlerts, type StockAlert } from "./stock-alert.service"
+import { type CostLayer, type LayerMovement, type ValuationMethod, valueLayers } from "@/lib/inventory/valuation"
+import { buildDailySeries, forecastDemand } from "@/lib/inventory/forecast"
+import { convertLinesToStockUnits } from "./uom.service"
 
 export interface InventoryItem {
   id: string
@@ -78,44 +84,144 @@ export interface StockMovement {
   created_at: string
 }
 
-export interface LowStockAlert {
+export interface Warehouse {
+  id: string
+  name: string
+  code: string
+  description?: string
+  warehouse_type: "standard" | "retail_counter" | "cold_storage" | "returns"
+  address?: any
+  contact_person?: string
+  contact_phone?: string
+  is_active: boolean
+  is_default: boolean
+  priority: number
+  created_at: string
+  updated_at: string
+}
+
+export type StockLevelChanges = Partial<
+  Record<"on_hand" | "available" | "reserved" | "allocated" | "in_transit" | "damaged", number>
+>
+
+export interface StockChange {
   product_id: string
-  product_name: string
-  sku: string
-  current_stock: number
-  reorder_point: number
-  reorder_quantity: number
+  quantity_change: number
+  reason: string
+  movement_type?: "in" | "out" | "adjustment" | "transfer"
+  // When set, the change is refused with a conflict if stock no longer matches this value
+  expected_quantity?: number
   warehouse_id?: string
-  warehouse_name?: string
-  days_of_stock?: number
-  status: "critical" | "low" | "warning"
+  reference_type?: string
+  reference_id?: string
+  notes?: string
+  unit_cost?: number
+  require_tracking?: boolean
+  log_action?: string
 }
 
-export async function getInventoryOverview() {
+export interface StockAdjustmentData {
+  product_id: string
+  warehouse_id?: string
+  // In `unit` when given, otherwise in the product's stock unit; unit_cost is per `unit` as well
+  quantity_change: number
+  unit?: string
+  expected_quantity?: number
+  reason: string
+  notes?: string
+  unit_cost?: number
+}
+
+export async function getInventoryOverview(warehouseId?: string) {
   const supabase = createClient()
 
-  // Get total products with inventory tracking
-  const { data: products, error: productsError } = await supabase
-    .from("products")
-    .select("id, name, sku, inventory_quantity, low_stock_threshold, track_inventory, status")
-    .eq("track_inventory", true)
-    .eq("status", "active")
+  // Expired holds would otherwise show up as reserved stock
+  await releaseExpiredReservations()
 
-  if (productsError) {
-    throw new Error(`Failed to fetch inventory overview: ${productsError.message}`)
+  let stockRows: Array<{
+    product_id: string
+    name: string
+    sku: string
+    on_hand: number
+    reserved: number
+    quantity: number
+    threshold: number
+  }> = []
+
+  if (warehouseId) {
+    // Stock held in a single warehouse
+    const { data: levels, error: levelsError } = await supabase
+      .from("stock_levels")
+      .select(`
+        on_hand,
+        available,
+        reserved,
+        reorder_point,
+        products!inner (
+          id,
+          name,
+          sku,
+          low_stock_threshold,
+          track_inventory,
+          status
+        )
+      `)
+      .eq("warehouse_id", warehouseId)
+      .eq("products.track_inventory", true)
+      .eq("products.status", "active")
+
+    if (levelsError) {
+      throw new Error(`Failed to fetch inventory overview: ${levelsError.message}`)
+    }
+
+    stockRows = (levels || []).map((level: any) => ({
+      product_id: level.products.id,
+      name: level.products.name,
+      sku: level.products.sku,
+      on_hand: level.on_hand,
+      reserved: level.reserved,
+      quantity: level.available,
+      threshold: level.reorder_point || level.products.low_stock_threshold,
+    }))
+  } else {
+    // Get total products with inventory tracking
+    const { data: products, error: productsError } = await supabase
+      .from("products")
+      .select("id, name, sku, inventory_quantity, reserved_quantity, low_stock_threshold, track_inventory, status")
+      .eq("track_inventory", true)
+      .eq("status", "active")
+
+    if (productsError) {
+      throw new Error(`Failed to fetch inventory overview: ${productsError.message}`)
+    }
+
+    stockRows = (products || []).map((product: any) => ({
+      product_id: product.id,
+      name: product.name,
+      sku: product.sku,
+      on_hand: product.inventory_quantity,
+      reserved: product.reserved_quantity || 0,
+      quantity: product.inventory_quantity - (product.reserved_quantity || 0),
+      threshold: product.low_stock_threshold,
+    }))
   }
 
   // Calculate inventory metrics
-  const totalProducts = products?.length || 0
-  const inStockProducts = products?.filter((p) => p.inventory_quantity > 0).length || 0
-  const outOfStockProducts = products?.filter((p) => p.inventory_quantity <= 0).length || 0
-  const lowStockProducts =
-    products?.filter((p) => p.inventory_quantity > 0 && p.inventory_quantity <= p.low_stock_threshold).length || 0
+  const totalProducts = stockRows.length
+  const inStockProducts = stockRows.filter((row) => row.quantity > 0).length
+  const outOfStockProducts = stockRows.filter((row) => row.quantity <= 0).length
 
-  const totalInventoryValue = products?.reduce((sum, p) => sum + p.inventory_quantity, 0) || 0
+  // Products with stock still on hand but an unresolved alert from the alert rules
+  const activeAlerts = await getStockAlerts({ status: "active", warehouse_id: warehouseId })
+  const inStockIds = new Set(stockRows.filter((row) => row.quantity > 0).map((row) => row.product_id))
+  const lowStockProducts = new Set(
+    activeAlerts.filter((alert) => inStockIds.has(alert.product_id)).map((alert) => alert.product_id),
+  ).size
+
+  const totalInventoryValue = stockRows.reduce((sum, row) => sum + row.quantity, 0)
 
   // Get recent movements
-  const { data: recentMovements } = await supabase
+  let movementsQuery = supabase
     .from("inventory_movements")
     .select(`
       *,
@@ -127,58 +233,194 @@ export async function getInventoryOverview() {
     .order("created_at", { ascending: false })
     .limit(10)
 
+  if (warehouseId) {
+    movementsQuery = movementsQuery.eq("warehouse_id", warehouseId)
+  }
+
+  const { data: recentMovements } = await movementsQuery
+
+  const reservedStock = stockRows
+    .filter((row) => row.reserved > 0)
+    .sort((a, b) => b.reserved - a.reserved)
+    .map((row) => ({
+      product_id: row.product_id,
+      name: row.name,
+      sku: row.sku,
+      on_hand: row.on_hand,
+      reserved: row.reserved,
+      available: row.quantity,
+    }))
+
   return {
     totalProducts,
     inStockProducts,
     outOfStockProducts,
     lowStockProducts,
     totalInventoryValue,
+    totalReserved: stockRows.reduce((sum, row) => sum + row.reserved, 0),
+    totalAvailable: stockRows.reduce((sum, row) => sum + Math.max(row.quantity, 0), 0),
+    reservedStock,
     recentMovements: recentMovements || [],
   }
 }
 
-export async function getLowStockAlerts(): Promise<LowStockAlert[]> {
+// Unresolved alerts from the stock alert rules. Without a warehouse this includes alerts on total stock
+// as well as warehouse-scoped ones.
+export async function getLowStockAlerts(warehouseId?: string): Promise<StockAlert[]> {
+  return getStockAlerts({ status: "active", warehouse_id: warehouseId })
+}
+
+export async function getWarehouses(): Promise<Warehouse[]> {
   const supabase = createClient()
 
-  const { data: products, error } = await supabase
-    .from("products")
-    .select("id, name, sku, inventory_quantity, low_stock_threshold")
-    .eq("track_inventory", true)
-    .eq("status", "active")
-    .lte("inventory_quantity", supabase.rpc("low_stock_threshold"))
+  const { data, error } = await supabase
+    .from("warehouses")
+    .select("*")
+    .eq("is_active", true)
+    .order("priority", { ascending: true })
 
   if (error) {
-    throw new Error(`Failed to fetch low stock alerts: ${error.message}`)
+    throw new Error(`Failed to fetch warehouses: ${error.message}`)
   }
 
-  return (
-    products?.map((product) => {
-      const stockRatio = product.inventory_quantity / product.low_stock_threshold
-      let status: LowStockAlert["status"] = "warning"
+  return data || []
+}
 
-      if (product.inventory_quantity <= 0) {
-        status = "critical"
-      } else if (stockRatio <= 0.5) {
-        status = "critical"
-      } else if (stockRatio <= 1) {
-        status = "low"
-      }
+export async function getStockLevels(filters?: { warehouse_id?: string; product_id?: string }) {
+  const supabase = createClient()
 
-      return {
-        product_id: product.id,
-        product_name: product.name,
-        sku: product.sku,
-        current_stock: product.inventory_quantity,
-        reorder_point: product.low_stock_threshold,
-        reorder_quantity: product.low_stock_threshold * 2, // Default reorder quantity
-        status,
-      }
-    }) || []
-  )
+  let query = supabase.from("stock_levels").select(`
+      *,
+      warehouses (
+        name,
+        code
+      ),
+      products (
+        name,
+        sku,
+        cost_price
+      )
+    `)
+
+  if (filters?.warehouse_id) {
+    query = query.eq("warehouse_id", filters.warehouse_id)
+  }
+
+  if (filters?.product_id) {
+    query = query.eq("product_id", filters.product_id)
+  }
+
+  const { data, error } = await query.order("updated_at", { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch stock levels: ${error.message}`)
+  }
+
+  return data || []
+}
+
+export async function updateStockLevel(warehouseId: string, productId: string, changes: StockLevelChanges) {
+  const supabase = createClient()
+
+  // Row-locked in the database so concurrent transfers and sales cannot overwrite each other
+  const { data, error } = await supabase.rpc("apply_stock_level_change", {
+    p_warehouse_id: warehouseId,
+    p_product_id: productId,
+    p_changes: changes,
+  })
+
+  if (error) {
+    throw toStockError(error, "update stock level")
+  }
+
+  return data
+}
+
+function toStockChangeParams(change: StockChange) {
+  return {
+    product_id: change.product_id,
+    quantity_change: change.quantity_change,
+    movement_type: change.movement_type || (change.quantity_change > 0 ? "in" : "out"),
+    reason: change.reason,
+    expected_quantity: change.expected_quantity ?? null,
+    warehouse_id: change.warehouse_id ?? null,
+    reference_type: change.reference_type ?? null,
+    reference_id: change.reference_id ?? null,
+    notes: change.notes ?? null,
+    unit_cost: change.unit_cost ?? null,
+    require_tracking: change.require_tracking ?? false,
+    log_action: change.log_action ?? null,
+  }
+}
+
+export async function applyStockChange(change: StockChange): Promise<StockMovement> {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const params = toStockChangeParams(change)
+  const { data, error } = await supabase.rpc("apply_stock_change", {
+    p_product_id: params.product_id,
+    p_quantity_change: params.quantity_change,
+    p_movement_type: params.movement_type,
+    p_reason: params.reason,
+    p_user_id: user.id,
+    p_expected_quantity: params.expected_quantity,
+    p_warehouse_id: params.warehouse_id,
+    p_reference_type: params.reference_type,
+    p_reference_id: params.reference_id,
+    p_notes: params.notes,
+    p_unit_cost: params.unit_cost,
+    p_require_tracking: params.require_tracking,
+    p_log_action: params.log_action,
+  })
+
+  if (error) {
+    throw toStockError(error, "update inventory")
+  }
+
+  revalidatePath("/admin/inventory")
+  return data
+}
+
+// Applies every change in one database transaction; if any change fails none of them are kept
+export async function applyStockChanges(changes: StockChange[]): Promise<StockMovement[]> {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  if (changes.length === 0) {
+    return []
+  }
+
+  const { data, error } = await supabase.rpc("apply_stock_changes", {
+    p_changes: changes.map(toStockChangeParams),
+    p_user_id: user.id,
+  })
+
+  if (error) {
+    throw toStockError(error, "update inventory")
+  }
+
+  revalidatePath("/admin/inventory")
+  return data || []
 }
 
 export async function getInventoryMovements(filters?: {
   product_id?: string
+  warehouse_id?: string
   movement_type?: string
   date_from?: string
   date_to?: string
@@ -204,6 +446,10 @@ export async function getInventoryMovements(filters?: {
     query = query.eq("product_id", filters.product_id)
   }
 
+  if (filters?.warehouse_id) {
+    query = query.eq("warehouse_id", filters.warehouse_id)
+  }
+
   if (filters?.movement_type) {
     query = query.eq("movement_type", filters.movement_type)
   }
@@ -239,95 +485,50 @@ export async function getInventoryMovements(filters?: {
   }
 }
 
-export async function createStockAdjustment(adjustmentData: {
-  product_id: string
-  quantity_change: number
-  reason: string
-  notes?: string
-  unit_cost?: number
-}) {
-  const supabase = createClient()
-
-  const {
-    data: { user },
-    error: userError,
-  } = await supabase.auth.getUser()
-  if (userError || !user) {
-    throw new Error("Authentication required")
-  }
-
-  // Get current product inventory
-  const { data: product } = await supabase
-    .from("products")
-    .select("inventory_quantity, name, sku")
-    .eq("id", adjustmentData.product_id)
-    .single()
-
-  if (!product) {
-    throw new Error("Product not found")
-  }
-
-  const quantityBefore = product.inventory_quantity
-  const quantityAfter = quantityBefore + adjustmentData.quantity_change
-
-  if (quantityAfter < 0) {
-    throw new Error("Adjustment would result in negative inventory")
-  }
-
-  // Create inventory movement record
-  const { data: movement, error: movementError } = await supabase
-    .from("inventory_movements")
-    .insert({
-      product_id: adjustmentData.product_id,
-      movement_type: "adjustment",
-      quantity: Math.abs(adjustmentData.quantity_change),
-      reason: adjustmentData.reason,
-      unit_cost: adjustmentData.unit_cost,
-      total_cost: adjustmentData.unit_cost ? adjustmentData.unit_cost * Math.abs(adjustmentData.quantity_change) : null,
-      created_by: user.id,
-      reference_type: "manual_adjustment",
-      notes: adjustmentData.notes,
-    })
-    .select()
-    .single()
-
-  if (movementError) {
-    throw new Error(`Failed to create inventory movement: ${movementError.message}`)
-  }
-
-  // Update product inventory
-  const { error: updateError } = await supabase
-    .from("products")
-    .update({ inventory_quantity: quantityAfter })
-    .eq("id", adjustmentData.product_id)
-
-  if (updateError) {
-    throw new Error(`Failed to update product inventory: ${updateError.message}`)
-  }
+// Adjustments entered in a pack or sales unit are moved in stock units, with the cost scaled to match
+async function toStockUnitAdjustments(adjustments: StockAdjustmentData[]): Promise<StockAdjustmentData[]> {
+  const converted = await convertLinesToStockUnits(
+    adjustments.map((adjustment) => ({
+      ...adjustment,
+      quantity: adjustment.quantity_change,
+      unit_price: adjustment.unit_cost,
+    })),
+  )
 
-  // Log activity
-  await supabase.from("activity_logs").insert({
-    user_id: user.id,
-    action: "inventory_adjusted",
-    resource_type: "product",
-    resource_id: adjustmentData.product_id,
-    old_values: { inventory_quantity: quantityBefore },
-    new_values: { inventory_quantity: quantityAfter, reason: adjustmentData.reason },
+  return adjustments.map((adjustment, index) => {
+    const { conversion } = converted[index]
+    return {
+      ...adjustment,
+      quantity_change: conversion.quantity,
+      unit: undefined,
+      unit_cost: conversion.stock_unit_price,
+      notes:
+        conversion.factor === 1
+          ? adjustment.notes
+          : [`${conversion.unit_quantity} ${conversion.unit}`, adjustment.notes].filter(Boolean).join(" · "),
+    }
   })
+}
 
-  revalidatePath("/admin/inventory")
-  return movement
+export async function createStockAdjustment(adjustmentData: StockAdjustmentData) {
+  const [adjustment] = await toStockUnitAdjustments([adjustmentData])
+
+  // Quantity, warehouse level, movement and activity log are written in one atomic call
+  return applyStockChange({
+    product_id: adjustment.product_id,
+    warehouse_id: adjustment.warehouse_id,
+    quantity_change: adjustment.quantity_change,
+    expected_quantity: adjustment.expected_quantity,
+    movement_type: "adjustment",
+    reason: adjustment.reason,
+    notes: adjustment.notes,
+    unit_cost: adjustment.unit_cost,
+    reference_type: "manual_adjustment",
+    log_action: "inventory_adjusted",
+  })
 }
 
-export async function bulkStockAdjustment(
-  adjustments: Array<{
-    product_id: string
-    quantity_change: number
-    reason: string
-    notes?: string
-    unit_cost?: number
-  }>,
-) {
+export async function bulkStockAdjustment(adjustments: StockAdjustmentData[], options?: { atomic?: boolean }) {
   const supabase = createClient()
 
   const {
@@ -338,6 +539,19 @@ export async function bulkStockAdjustment(
     throw new Error("Authentication required")
   }
 
+  // All-or-nothing: one failing line rejects the whole batch
+  if (options?.atomic) {
+    const results = await applyStockChanges(
+      (await toStockUnitAdjustments(adjustments)).map((adjustment) => ({
+        ...adjustment,
+        movement_type: "adjustment" as const,
+        reference_type: "manual_adjustment",
+        log_action: "inventory_adjusted",
+      })),
+    )
+    return { results, errors: [] }
+  }
+
   const results = []
   const errors = []
 
@@ -353,53 +567,195 @@ export async function bulkStockAdjustment(
   return { results, errors }
 }
 
-export async function getInventoryValuation() {
+const PAGE_SIZE = 1000
+
+// Every batch received by the valuation date is a cost layer. PostgREST caps each response, so both
+// batches and movements are read a page at a time.
+async function getValuationBatches(asOf: string) {
   const supabase = createClient()
+  const batches: any[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("product_batches")
+      .select(`
+        id,
+        product_id,
+        warehouse_id,
+        quantity_received,
+        quantity_rejected,
+        purchase_price,
+        landed_cost,
+        selling_price,
+        created_at,
+        homeopathy_products (
+          name,
+          sku,
+          brands (
+            name
+          ),
+          categories (
+            name
+          )
+        ),
+        warehouses (
+          name
+        )
+      `)
+      .lte("created_at", asOf)
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to fetch inventory valuation: ${error.message}`)
+    }
 
-  const { data: products, error } = await supabase
-    .from("products")
-    .select("id, name, sku, inventory_quantity, cost_price, price")
-    .eq("track_inventory", true)
-    .eq("status", "active")
-    .gt("inventory_quantity", 0)
+    batches.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
 
-  if (error) {
-    throw new Error(`Failed to fetch inventory valuation: ${error.message}`)
+  return batches
+}
+
+async function getValuationMovements(asOf: string) {
+  const supabase = createClient()
+  const movements: LayerMovement[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("batch_movements")
+      .select("batch_id, movement_type, quantity, created_at")
+      .in("movement_type", ["OUT", "DAMAGE", "RETURN"])
+      .lte("created_at", asOf)
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to fetch batch movements: ${error.message}`)
+    }
+
+    movements.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
   }
 
-  const valuation = products?.map((product) => {
-    const costValue = (product.cost_price || 0) * product.inventory_quantity
-    const retailValue = product.price * product.inventory_quantity
-    const margin = retailValue - costValue
-    const marginPercent = costValue > 0 ? (margin / costValue) * 100 : 0
+  return movements
+}
 
-    return {
-      product_id: product.id,
-      product_name: product.name,
-      sku: product.sku,
-      quantity: product.inventory_quantity,
-      unit_cost: product.cost_price || 0,
-      unit_price: product.price,
-      cost_value: costValue,
-      retail_value: retailValue,
-      margin,
-      margin_percent: marginPercent,
+export async function getInventoryValuation(options?: { method?: ValuationMethod; as_of?: string }) {
+  const method = options?.method || "fifo"
+  const asOf = options?.as_of ? new Date(options.as_of) : new Date()
+  // A date without a time means "at close of that day"
+  if (options?.as_of && !options.as_of.includes("T")) {
+    asOf.setHours(23, 59, 59, 999)
+  }
+
+  const asOfIso = asOf.toISOString()
+  const batches = await getValuationBatches(asOfIso)
+  const movements = await getValuationMovements(asOfIso)
+
+  // Layers are valued per product and warehouse, then rolled up
+  const groups = new Map<string, any[]>()
+  for (const batch of batches) {
+    const key = `${batch.product_id}:${batch.warehouse_id || ""}`
+    groups.set(key, [...(groups.get(key) || []), batch])
+  }
+
+  const lines = [...groups.values()]
+    .map((group) => {
+      const first = group[0]
+      const layers: CostLayer[] = group.map((batch) => ({
+        batch_id: batch.id,
+        product_id: batch.product_id,
+        received_at: batch.created_at,
+        // Units rejected at QC never joined stock
+        quantity_received: batch.quantity_received - (batch.quantity_rejected || 0),
+        unit_cost: batch.landed_cost ?? batch.purchase_price ?? 0,
+      }))
+      const result = valueLayers(method, layers, movements, asOf)
+      const latest = [...group].sort(
+        (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime(),
+      )[0]
+
+      return {
+        product_id: first.product_id,
+        product_name: first.homeopathy_products?.name || "Unknown Product",
+        sku: first.homeopathy_products?.sku,
+        brand: first.homeopathy_products?.brands?.name || "Unbranded",
+        category: first.homeopathy_products?.categories?.name || "Uncategorised",
+        warehouse_id: first.warehouse_id,
+        warehouse: first.warehouses?.name || "Unassigned",
+        quantity: result.quantity,
+        unit_cost: result.unit_cost,
+        unit_price: latest.selling_price || 0,
+        cost_value: result.value,
+        retail_value: result.quantity * (latest.selling_price || 0),
+      }
+    })
+    .filter((line) => line.quantity > 0)
+
+  const summarize = (key: "product_id" | "brand" | "category" | "warehouse") => {
+    const totals = new Map<string, any>()
+
+    for (const line of lines) {
+      const groupKey = line[key] || ""
+      const total = totals.get(groupKey) || {
+        key: groupKey,
+        name: key === "product_id" ? line.product_name : line[key],
+        sku: key === "product_id" ? line.sku : undefined,
+        quantity: 0,
+        cost_value: 0,
+        retail_value: 0,
+      }
+      total.quantity += line.quantity
+      total.cost_value += line.cost_value
+      total.retail_value += line.retail_value
+      totals.set(groupKey, total)
     }
-  })
 
-  const totalCostValue = valuation?.reduce((sum, item) => sum + item.cost_value, 0) || 0
-  const totalRetailValue = valuation?.reduce((sum, item) => sum + item.retail_value, 0) || 0
+    return [...totals.values()]
+      .map((total) => {
+        const margin = total.retail_value - total.cost_value
+        return {
+          ...total,
+          unit_cost: total.quantity > 0 ? total.cost_value / total.quantity : 0,
+          margin,
+          margin_percent: total.cost_value > 0 ? (margin / total.cost_value) * 100 : 0,
+        }
+      })
+      .sort((a, b) => b.cost_value - a.cost_value)
+  }
+
+  const byProduct = summarize("product_id")
+  const totalCostValue = lines.reduce((sum, line) => sum + line.cost_value, 0)
+  const totalRetailValue = lines.reduce((sum, line) => sum + line.retail_value, 0)
   const totalMargin = totalRetailValue - totalCostValue
   const totalMarginPercent = totalCostValue > 0 ? (totalMargin / totalCostValue) * 100 : 0
 
   return {
-    items: valuation || [],
+    method,
+    as_of: asOf.toISOString(),
+    items: byProduct.map((total) => ({
+      product_id: total.key,
+      product_name: total.name,
+      sku: total.sku,
+      quantity: total.quantity,
+      unit_cost: total.unit_cost,
+      cost_value: total.cost_value,
+      retail_value: total.retail_value,
+      margin: total.margin,
+      margin_percent: total.margin_percent,
+    })),
+    breakdown: {
+      by_brand: summarize("brand"),
+      by_category: summarize("category"),
+      by_warehouse: summarize("warehouse"),
+    },
     summary: {
       total_cost_value: totalCostValue,
       total_retail_value: totalRetailValue,
       total_margin: totalMargin,
       total_margin_percent: totalMarginPercent,
-      total_items: valuation?.length || 0,
+      total_items: byProduct.length,
     },
   }
 }
@@ -507,29 +863,60 @@ export async function setReorderPoint(productId: string, reorderPoint: number, r
   return data
 }
 
-export async function getInventoryForecast(productId: string, days = 30) {
+// Outbound movement types; "outbound" is kept for rows written before movement types were normalised
+const DEMAND_MOVEMENT_TYPES = ["out", "outbound"]
+const FORECAST_HISTORY_DAYS = 730
+
+// Paged: a bulk run covers many products over up to two years, far more rows than one response holds
+async function fetchDemandHistory(productIds: string[], from: Date) {
   const supabase = createClient()
+  const byProduct = new Map<string, Array<{ quantity: number; created_at: string }>>()
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("inventory_movements")
+      .select("product_id, quantity, created_at")
+      .in("product_id", productIds)
+      .in("movement_type", DEMAND_MOVEMENT_TYPES)
+      .gte("created_at", from.toISOString())
+      .order("created_at", { ascending: true })
+      .order("id")
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to fetch demand history: ${error.message}`)
+    }
 
-  // Get historical sales data
-  const dateFrom = new Date()
-  dateFrom.setDate(dateFrom.getDate() - days * 2) // Look back twice as far for better prediction
+    for (const movement of data || []) {
+      const rows = byProduct.get(movement.product_id) || []
+      rows.push(movement)
+      byProduct.set(movement.product_id, rows)
+    }
+    if (!data || data.length < PAGE_SIZE) break
+  }
 
-  const { data: movements, error } = await supabase
-    .from("inventory_movements")
-    .select("quantity, created_at")
-    .eq("product_id", productId)
-    .eq("movement_type", "outbound")
-    .gte("created_at", dateFrom.toISOString())
-    .order("created_at", { ascending: true })
+  return byProduct
+}
 
-  if (error) {
-    throw new Error(`Failed to fetch inventory forecast: ${error.message}`)
-  }
+function getForecastWindow(historyDays: number) {
+  const to = new Date()
+  to.setUTCHours(0, 0, 0, 0)
+  to.setUTCDate(to.getUTCDate() - 1) // Last complete day
+  const from = new Date(to)
+  from.setUTCDate(from.getUTCDate() - (historyDays - 1))
+  return { from, to }
+}
+
+export async function getInventoryForecast(
+  productId: string,
+  days = 30,
+  options?: { history_days?: number; confidence?: number },
+) {
+  const supabase = createClient()
 
-  // Get current stock
   const { data: product } = await supabase
     .from("products")
-    .select("inventory_quantity, low_stock_threshold")
+    .select("inventory_quantity, reserved_quantity, low_stock_threshold")
     .eq("id", productId)
     .single()
 
@@ -537,36 +924,144 @@ export async function getInventoryForecast(productId: string, days = 30) {
     throw new Error("Product not found")
   }
 
-  // Calculate daily average sales
-  const totalSold = movements?.reduce((sum, m) => sum + m.quantity, 0) || 0
-  const dailyAverage = totalSold / (days * 2)
-
-  // Forecast future stock levels
-  const forecast = []
-  let currentStock = product.inventory_quantity
+  const { from, to } = getForecastWindow(options?.history_days || FORECAST_HISTORY_DAYS)
+  const history = await fetchDemandHistory([productId], from)
 
-  for (let day = 1; day <= days; day++) {
-    currentStock -= dailyAverage
-    const date = new Date()
-    date.setDate(date.getDate() + day)
+  // Reserved units are already spoken for, so forecast against what is free to sell
+  const currentStock = Math.max(product.inventory_quantity - (product.reserved_quantity || 0), 0)
+  const series = buildDailySeries(history.get(productId) || [], from, to)
+  const result = forecastDemand(series, { horizon: days, currentStock, confidence: options?.confidence })
 
-    forecast.push({
-      date: date.toISOString().split("T")[0],
-      projected_stock: Math.max(0, Math.round(currentStock)),
-      daily_demand: Math.round(dailyAverage),
-      status: currentStock <= 0 ? "stockout" : currentStock <= product.low_stock_threshold ? "low" : "normal",
-    })
-  }
+  const forecast = result.days.map((day) => ({
+    ...day,
+    daily_demand: Math.round(day.forecast),
+    status:
+      day.projected_stock <= 0 ? "stockout" : day.projected_stock <= product.low_stock_threshold ? "low" : "normal",
+  }))
 
-  // Calculate when stock will run out
-  const stockoutDay = forecast.find((f) => f.projected_stock <= 0)
-  const daysUntilStockout = stockoutDay ? forecast.indexOf(stockoutDay) + 1 : null
+  const stockoutIndex = forecast.findIndex((day) => day.projected_stock <= 0)
 
   return {
-    current_stock: product.inventory_quantity,
-    daily_average_demand: Math.round(dailyAverage * 100) / 100,
-    days_until_stockout: daysUntilStockout,
+    ...result,
+    current_stock: currentStock,
+    daily_average_demand: result.daily_average,
+    days_until_stockout: stockoutIndex >= 0 ? stockoutIndex + 1 : null,
     reorder_point: product.low_stock_threshold,
     forecast,
   }
 }
+
+// Forecasts every active tracked product and stores the results for today.
+// The nightly /api/cron/demand-forecasts job calls this; re-running on the same day overwrites that day's rows.
+export async function runDemandForecasts(options?: { horizon_days?: number; history_days?: number }) {
+  const supabase = createClient()
+  const horizon = options?.horizon_days || 30
+  const historyDays = options?.history_days || FORECAST_HISTORY_DAYS
+
+  const { data: products, error: productsError } = await supabase
+    .from("products")
+    .select("id, inventory_quantity, reserved_quantity")
+    .eq("track_inventory", true)
+    .eq("status", "active")
+
+  if (productsError) {
+    throw new Error(`Failed to fetch products for forecasting: ${productsError.message}`)
+  }
+
+  const { from, to } = getForecastWindow(historyDays)
+  const forecastDate = new Date().toISOString().split("T")[0]
+  const chunkSize = 100
+  let forecasted = 0
+  let atRisk = 0
+
+  for (let i = 0; i < (products || []).length; i += chunkSize) {
+    const chunk: Array<{ id: string; inventory_quantity: number; reserved_quantity: number | null }> = products!.slice(
+      i,
+      i + chunkSize,
+    )
+    const history = await fetchDemandHistory(
+      chunk.map((product) => product.id),
+      from,
+    )
+
+    const rows = chunk.map((product) => {
+      const currentStock = Math.max(product.inventory_quantity - (product.reserved_quantity || 0), 0)
+      const series = buildDailySeries(history.get(product.id) || [], from, to)
+      const result = forecastDemand(series, { horizon, currentStock })
+      if (result.stockout_date) atRisk++
+
+      return {
+        product_id: product.id,
+        forecast_date: forecastDate,
+        horizon_days: horizon,
+        history_days: result.history_days,
+        current_stock: currentStock,
+        daily_average: result.daily_average,
+        trend_per_day: result.trend_per_day,
+        forecast_total: Math.round(result.days.reduce((sum, day) => sum + day.forecast, 0) * 100) / 100,
+        stockout_date: result.stockout_date,
+        stockout_probability: result.stockout_probability,
+        mape: result.mape,
+        daily_forecast: result.days,
+        seasonality: { weekly: result.weekly_index, monthly: result.monthly_index },
+        generated_at: new Date().toISOString(),
+      }
+    })
+
+    const { error } = await supabase.from("demand_forecasts").upsert(rows, { onConflict: "product_id,forecast_date" })
+
+    if (error) {
+      throw new Error(`Failed to store demand forecasts: ${error.message}`)
+    }
+    forecasted += rows.length
+  }
+
+  revalidatePath("/admin/inventory")
+  revalidatePath("/admin/inventory/forecasts")
+  return { forecast_date: forecastDate, forecasted, at_risk: atRisk }
+}
+
+// Latest stored forecasts, highest stockout risk first
+export async function getDemandForecasts(filters?: { min_probability?: number; limit?: number }) {
+  const supabase = createClient()
+
+  const { data: latest } = await supabase
+    .from("demand_forecasts")
+    .select("forecast_date")
+    .order("forecast_date", { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (!latest) {
+    return { forecast_date: null, forecasts: [] }
+  }
+
+  let query = supabase
+    .from("demand_forecasts")
+    .select(`
+      *,
+      products (
+        name,
+        sku
+      )
+    `)
+    .eq("forecast_date", latest.forecast_date)
+    .order("stockout_probability", { ascending: false })
+    .order("stockout_date", { ascending: true, nullsFirst: false })
+
+  if (filters?.min_probability !== undefined) {
+    query = query.gte("stockout_probability", filters.min_probability)
+  }
+
+  if (filters?.limit) {
+    query = query.limit(filters.limit)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch demand forecasts: ${error.message}`)
+  }
+
+  return { forecast_date: latest.forecast_date as string, forecasts: data || [] }
+}
@@ -0,0 +1,627 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { revalidatePath } from "next/cache"
+import { applyStockChanges } from "./inventory.service"
+import { planFefoAllocation } from "@/lib/inventory/fefo"
+import {
+  getBuildableKits,
+  getKitComponentDemand,
+  getKitUnitCost,
+  splitKitQuantity,
+  type KitComponent,
+  type KitType,
+} from "@/lib/inventory/kits"
+
+export interface KitComponentDetail {
+  product_id: string
+  product_name: string
+  sku?: string
+  quantity: number
+  available: number
+}
+
+export interface ProductKit {
+  id: string
+  product_id: string
+  product_name: string
+  sku?: string
+  kit_type: KitType
+  is_active: boolean
+  notes?: string | null
+  components: KitComponentDetail[]
+  // Kits already built and held as stock
+  assembled_available: number
+  // Kits the components in stock would make
+  buildable: number
+  available: number
+  limiting_product_id: string | null
+  created_at: string
+}
+
+export interface KitAssembly {
+  id: string
+  assembly_number: string
+  kit_id: string
+  batch_id?: string | null
+  warehouse_id?: string | null
+  quantity: number
+  unit_cost: number
+  notes?: string | null
+  created_at: string
+  batch_number?: string
+  expiry_date?: string
+}
+
+export interface CreateKitData {
+  product_id: string
+  kit_type?: KitType
+  notes?: string
+  components: KitComponent[]
+}
+
+export interface AssembleKitsData {
+  kit_id: string
+  quantity: number
+  warehouse_id?: string
+  notes?: string
+}
+
+function generateAssemblyNumber() {
+  const timestamp = Date.now().toString().slice(-6)
+  const random = Math.floor(Math.random() * 1000)
+    .toString()
+    .padStart(3, "0")
+  return `ASM-${timestamp}-${random}`
+}
+
+function revalidateKitPaths() {
+  revalidatePath("/admin/inventory/kits")
+  revalidatePath("/admin/inventory/batches")
+  revalidatePath("/admin/inventory")
+}
+
+function validateComponents(kitProductId: string, components: KitComponent[]) {
+  if (components.length === 0) {
+    throw new Error("A kit needs at least one component")
+  }
+  if (components.some((component) => component.product_id === kitProductId)) {
+    throw new Error("A kit cannot contain itself")
+  }
+  if (components.some((component) => !Number.isInteger(component.quantity) || component.quantity <= 0)) {
+    throw new Error("Component quantities must be whole numbers greater than zero")
+  }
+  if (new Set(components.map((component) => component.product_id)).size !== components.length) {
+    throw new Error("Each component can appear only once; combine the quantities instead")
+  }
+}
+
+// Sellable stock is what is on hand and not held for unpaid orders
+async function getSellableStock(productIds: string[]) {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("products")
+    .select("id, inventory_quantity, reserved_quantity")
+    .in("id", productIds)
+
+  if (error) {
+    throw new Error(`Failed to fetch stock: ${error.message}`)
+  }
+
+  return new Map<string, number>(
+    (data || []).map((product: any) => [
+      product.id,
+      Math.max((product.inventory_quantity || 0) - (product.reserved_quantity || 0), 0),
+    ]),
+  )
+}
+
+// The bill of materials of an active kit, or null when the product is not a kit
+export async function getKitComponents(productId: string): Promise<KitComponent[] | null> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("product_kits")
+    .select("id, kit_components (component_product_id, quantity)")
+    .eq("product_id", productId)
+    .eq("is_active", true)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch kit: ${error.message}`)
+  }
+  if (!data) return null
+
+  return (data.kit_components || []).map((component: any) => ({
+    product_id: component.component_product_id,
+    quantity: component.quantity,
+  }))
+}
+
+export async function getKitAvailability(productId: string) {
+  const components = await getKitComponents(productId)
+  if (!components) return null
+
+  const sellable = await getSellableStock([productId, ...components.map((component) => component.product_id)])
+  const assembled = sellable.get(productId) || 0
+  const buildable = getBuildableKits(components, sellable)
+
+  return {
+    assembled,
+    buildable: buildable.quantity,
+    available: assembled + buildable.quantity,
+    limiting_product_id: buildable.limiting_product_id,
+  }
+}
+
+export async function getKits(): Promise<ProductKit[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("product_kits")
+    .select(`
+      *,
+      homeopathy_products (
+        name,
+        sku
+      ),
+      kit_components (
+        component_product_id,
+        quantity,
+        homeopathy_products (
+          name,
+          sku
+        )
+      )
+    `)
+    .order("created_at", { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch kits: ${error.message}`)
+  }
+
+  const productIds = new Set<string>()
+  for (const kit of data || []) {
+    productIds.add(kit.product_id)
+    for (const component of kit.kit_components || []) productIds.add(component.component_product_id)
+  }
+  const sellable = productIds.size > 0 ? await getSellableStock([...productIds]) : new Map<string, number>()
+
+  return (data || []).map((kit: any) => {
+    const components: KitComponent[] = (kit.kit_components || []).map((component: any) => ({
+      product_id: component.component_product_id,
+      quantity: component.quantity,
+    }))
+    const assembled = sellable.get(kit.product_id) || 0
+    const buildable = getBuildableKits(components, sellable)
+
+    return {
+      id: kit.id,
+      product_id: kit.product_id,
+      product_name: kit.homeopathy_products?.name || "Unknown Product",
+      sku: kit.homeopathy_products?.sku,
+      kit_type: kit.kit_type,
+      is_active: kit.is_active,
+      notes: kit.notes,
+      components: (kit.kit_components || []).map((component: any) => ({
+        product_id: component.component_product_id,
+        product_name: component.homeopathy_products?.name || "Unknown Product",
+        sku: component.homeopathy_products?.sku,
+        quantity: component.quantity,
+        available: sellable.get(component.component_product_id) || 0,
+      })),
+      assembled_available: assembled,
+      buildable: buildable.quantity,
+      available: assembled + buildable.quantity,
+      limiting_product_id: buildable.limiting_product_id,
+      created_at: kit.created_at,
+    }
+  })
+}
+
+export async function createKit(kitData: CreateKitData) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  validateComponents(kitData.product_id, kitData.components)
+
+  const { data: kit, error } = await supabase
+    .from("product_kits")
+    .insert({
+      product_id: kitData.product_id,
+      kit_type: kitData.kit_type || "kit",
+      notes: kitData.notes || null,
+      created_by: user.id,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create kit: ${error.message}`)
+  }
+
+  const { error: componentsError } = await supabase.from("kit_components").insert(
+    kitData.components.map((component) => ({
+      kit_id: kit.id,
+      component_product_id: component.product_id,
+      quantity: component.quantity,
+    })),
+  )
+
+  if (componentsError) {
+    await supabase.from("product_kits").delete().eq("id", kit.id)
+    throw new Error(`Failed to add kit components: ${componentsError.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "kit_created",
+    resource_type: "product_kit",
+    resource_id: kit.id,
+    new_values: { ...kit, components: kitData.components },
+  })
+
+  revalidateKitPaths()
+  return kit
+}
+
+// Replaces the bill of materials; kits already assembled keep what they were built from
+export async function updateKitComponents(kitId: string, components: KitComponent[]) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const { data: kit, error: kitError } = await supabase
+    .from("product_kits")
+    .select("product_id, kit_components (component_product_id, quantity)")
+    .eq("id", kitId)
+    .single()
+
+  if (kitError) {
+    throw new Error(`Failed to fetch kit: ${kitError.message}`)
+  }
+
+  validateComponents(kit.product_id, components)
+
+  const { error: deleteError } = await supabase.from("kit_components").delete().eq("kit_id", kitId)
+
+  if (deleteError) {
+    throw new Error(`Failed to update kit components: ${deleteError.message}`)
+  }
+
+  const { error } = await supabase.from("kit_components").insert(
+    components.map((component) => ({
+      kit_id: kitId,
+      component_product_id: component.product_id,
+      quantity: component.quantity,
+    })),
+  )
+
+  if (error) {
+    throw new Error(`Failed to update kit components: ${error.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "kit_components_updated",
+    resource_type: "product_kit",
+    resource_id: kitId,
+    old_values: { components: kit.kit_components },
+    new_values: { components },
+  })
+
+  revalidateKitPaths()
+}
+
+export async function setKitActive(kitId: string, isActive: boolean) {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("product_kits")
+    .update({ is_active: isActive })
+    .eq("id", kitId)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to update kit: ${error.message}`)
+  }
+
+  revalidateKitPaths()
+  return data
+}
+
+// Order lines as stock reservations see them: a kit line holds assembled kits first and the components
+// of the kits still to be built for the rest. Lines for other products pass through unchanged.
+export async function expandKitReservationItems<T extends { id: string; product_id: string; quantity: number }>(
+  items: T[],
+): Promise<Array<{ id: string; product_id: string; quantity: number }>> {
+  const expanded: Array<{ id: string; product_id: string; quantity: number }> = []
+
+  for (const item of items) {
+    const components = await getKitComponents(item.product_id)
+    if (!components) {
+      expanded.push({ id: item.id, product_id: item.product_id, quantity: item.quantity })
+      continue
+    }
+
+    const sellable = await getSellableStock([item.product_id])
+    const split = splitKitQuantity(item.quantity, sellable.get(item.product_id) || 0)
+
+    if (split.assembled > 0) {
+      expanded.push({ id: item.id, product_id: item.product_id, quantity: split.assembled })
+    }
+    for (const demand of getKitComponentDemand(components, split.from_components)) {
+      if (demand.quantity > 0) {
+        expanded.push({ id: item.id, product_id: demand.product_id, quantity: demand.quantity })
+      }
+    }
+  }
+
+  return expanded
+}
+
+// Builds kits ahead of time: component batches are consumed first-expiry-first-out and the kits become a
+// batch of the kit product, expiring with the earliest component and costed at what went into them
+export async function assembleKits(assemblyData: AssembleKitsData) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  if (!Number.isInteger(assemblyData.quantity) || assemblyData.quantity <= 0) {
+    throw new Error("Assembly quantity must be a whole number greater than zero")
+  }
+
+  const { data: kit, error: kitError } = await supabase
+    .from("product_kits")
+    .select(`
+      *,
+      homeopathy_products (
+        name
+      ),
+      kit_components (
+        component_product_id,
+        quantity,
+        homeopathy_products (
+          name
+        )
+      )
+    `)
+    .eq("id", assemblyData.kit_id)
+    .single()
+
+  if (kitError) {
+    throw new Error(`Failed to fetch kit: ${kitError.message}`)
+  }
+  if (!kit.is_active) {
+    throw new Error("Inactive kits cannot be assembled")
+  }
+
+  const components: KitComponent[] = (kit.kit_components || []).map((component: any) => ({
+    product_id: component.component_product_id,
+    quantity: component.quantity,
+  }))
+  if (components.length === 0) {
+    throw new Error("The kit has no components")
+  }
+
+  let batchQuery = supabase
+    .from("product_batches")
+    .select(
+      "id, product_id, batch_number, expiry_date, quantity_available, quality_status, is_active, purchase_price, landed_cost, created_at",
+    )
+    .in(
+      "product_id",
+      components.map((component) => component.product_id),
+    )
+  if (assemblyData.warehouse_id) {
+    batchQuery = batchQuery.eq("warehouse_id", assemblyData.warehouse_id)
+  }
+
+  const { data: batches, error: batchesError } = await batchQuery
+
+  if (batchesError) {
+    throw new Error(`Failed to fetch component batches: ${batchesError.message}`)
+  }
+
+  const consumed = getKitComponentDemand(components, assemblyData.quantity).flatMap((demand) => {
+    const plan = planFefoAllocation(
+      (batches || []).filter((batch: any) => batch.product_id === demand.product_id),
+      demand.quantity,
+    )
+    if (plan.shortfall > 0) {
+      const name = kit.kit_components.find((component: any) => component.component_product_id === demand.product_id)
+        ?.homeopathy_products?.name
+      throw new Error(`Not enough ${name || "component"} in sellable batches: short by ${plan.shortfall}`)
+    }
+    return plan.allocations.map((allocation) => ({ ...allocation, product_id: demand.product_id }))
+  })
+
+  const unitCost = getKitUnitCost(consumed, assemblyData.quantity)
+  const expiryDate = consumed.map((line) => line.expiry_date).sort()[0]
+  const assemblyNumber = generateAssemblyNumber()
+
+  const { data: assembly, error: assemblyError } = await supabase
+    .from("kit_assemblies")
+    .insert({
+      assembly_number: assemblyNumber,
+      kit_id: kit.id,
+      warehouse_id: assemblyData.warehouse_id || null,
+      quantity: assemblyData.quantity,
+      unit_cost: unitCost,
+      notes: assemblyData.notes || null,
+      assembled_by: user.id,
+    })
+    .select()
+    .single()
+
+  if (assemblyError) {
+    throw new Error(`Failed to record kit assembly: ${assemblyError.message}`)
+  }
+
+  // Components leave stock and the kits arrive in one transaction
+  try {
+    await applyStockChanges([
+      ...getKitComponentDemand(components, assemblyData.quantity).map((demand) => ({
+        product_id: demand.product_id,
+        quantity_change: -demand.quantity,
+        movement_type: "out" as const,
+        warehouse_id: assemblyData.warehouse_id,
+        reason: `Kit assembly ${assemblyNumber}`,
+        reference_type: "KIT_ASSEMBLY",
+        reference_id: assembly.id,
+      })),
+      {
+        product_id: kit.product_id,
+        quantity_change: assemblyData.quantity,
+        movement_type: "in" as const,
+        warehouse_id: assemblyData.warehouse_id,
+        reason: `Kit assembly ${assemblyNumber}`,
+        reference_type: "KIT_ASSEMBLY",
+        reference_id: assembly.id,
+        unit_cost: unitCost,
+      },
+    ])
+  } catch (error) {
+    await supabase.from("kit_assemblies").delete().eq("id", assembly.id)
+    throw error
+  }
+
+  // Built from approved stock, so the kits skip goods-receipt QC
+  const { data: kitBatch, error: batchError } = await supabase
+    .from("product_batches")
+    .insert({
+      product_id: kit.product_id,
+      batch_number: assemblyNumber,
+      manufacturing_date: new Date().toISOString().split("T")[0],
+      expiry_date: expiryDate,
+      purchase_price: unitCost,
+      landed_cost: unitCost,
+      quantity_received: assemblyData.quantity,
+      quantity_available: assemblyData.quantity,
+      warehouse_id: assemblyData.warehouse_id || null,
+      quality_status: "approved",
+      notes: `Assembled by ${assemblyNumber}`,
+    })
+    .select()
+    .single()
+
+  if (batchError) {
+    throw new Error(`Failed to create kit batch: ${batchError.message}`)
+  }
+
+  const { error: movementError } = await supabase.from("batch_movements").insert([
+    ...consumed.map((line) => ({
+      batch_id: line.batch_id,
+      movement_type: "OUT",
+      quantity: line.quantity,
+      reference_type: "ASSEMBLY",
+      reference_id: assembly.id,
+      reference_number: assemblyNumber,
+      unit_cost: line.unit_cost,
+      total_value: line.quantity * line.unit_cost,
+      reason: `Used in ${kit.homeopathy_products?.name || "kit"} assembly`,
+      performed_by: user.id,
+    })),
+    {
+      batch_id: kitBatch.id,
+      movement_type: "IN",
+      quantity: assemblyData.quantity,
+      reference_type: "ASSEMBLY",
+      reference_id: assembly.id,
+      reference_number: assemblyNumber,
+      unit_cost: unitCost,
+      total_value: assemblyData.quantity * unitCost,
+      reason: "Kits assembled",
+      performed_by: user.id,
+    },
+  ])
+
+  if (movementError) {
+    throw new Error(`Failed to record batch movements: ${movementError.message}`)
+  }
+
+  const { error: componentsError } = await supabase.from("kit_assembly_components").insert(
+    consumed.map((line) => ({
+      assembly_id: assembly.id,
+      component_product_id: line.product_id,
+      batch_id: line.batch_id,
+      quantity: line.quantity,
+      unit_cost: line.unit_cost,
+    })),
+  )
+
+  if (componentsError) {
+    throw new Error(`Failed to record consumed batches: ${componentsError.message}`)
+  }
+
+  const { data, error } = await supabase
+    .from("kit_assemblies")
+    .update({ batch_id: kitBatch.id })
+    .eq("id", assembly.id)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to link kit batch: ${error.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "kits_assembled",
+    resource_type: "kit_assembly",
+    resource_id: assembly.id,
+    new_values: { ...data, components: consumed },
+  })
+
+  revalidateKitPaths()
+  return data as KitAssembly
+}
+
+export async function getKitAssemblies(kitId?: string): Promise<KitAssembly[]> {
+  const supabase = createClient()
+
+  let query = supabase.from("kit_assemblies").select(`
+      *,
+      product_batches (
+        batch_number,
+        expiry_date
+      )
+    `)
+
+  if (kitId) {
+    query = query.eq("kit_id", kitId)
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: false }).limit(50)
+
+  if (error) {
+    throw new Error(`Failed to fetch kit assemblies: ${error.message}`)
+  }
+
+  return (data || []).map((assembly: any) => ({
+    ...assembly,
+    batch_number: assembly.product_batches?.batch_number,
+    expiry_date: assembly.product_batches?.expiry_date,
+  }))
+}
@@ -0,0 +1,314 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { revalidatePath } from "next/cache"
+import {
+  allocateLandedCost,
+  getChargesToAllocate,
+  type LandedCostMethod,
+  type SupplierNoteType,
+} from "@/lib/inventory/landed-cost"
+
+export interface SupplierNoteRecord {
+  id: string
+  note_number: string
+  purchase_order_id: string
+  supplier_id?: string | null
+  note_type: SupplierNoteType
+  amount: number
+  supplier_reference?: string | null
+  reason: string
+  note_date: string
+  created_at: string
+}
+
+export interface LandedCostLineDetail {
+  batch_id: string
+  batch_number: string
+  product_id: string
+  product_name: string
+  quantity: number
+  unit_weight: number | null
+  purchase_price: number
+  allocated_amount: number
+  landed_unit_cost: number
+}
+
+export interface PurchaseOrderLandedCost {
+  purchase_order_id: string
+  po_number: string
+  method: LandedCostMethod
+  freight_charges: number
+  other_charges: number
+  discount_amount: number
+  notes: SupplierNoteRecord[]
+  total_to_allocate: number
+  allocated_at: string | null
+  lines: LandedCostLineDetail[]
+}
+
+export interface CreateSupplierNoteData {
+  purchase_order_id: string
+  note_type: SupplierNoteType
+  amount: number
+  reason: string
+  supplier_reference?: string
+  note_date?: string
+}
+
+function generateSupplierNoteNumber(noteType: SupplierNoteType) {
+  const timestamp = Date.now().toString().slice(-6)
+  const random = Math.floor(Math.random() * 1000)
+    .toString()
+    .padStart(3, "0")
+  return `${noteType === "debit" ? "DN" : "CN"}-${timestamp}-${random}`
+}
+
+function revalidateLandedCostPaths() {
+  revalidatePath("/admin/purchases")
+  revalidatePath("/admin/inventory/batches")
+  revalidatePath("/admin/inventory/valuation")
+}
+
+async function getPurchaseOrderCostData(purchaseOrderId: string) {
+  const supabase = createClient()
+
+  const [{ data: po, error: poError }, { data: notes, error: notesError }, { data: batches, error: batchesError }] =
+    await Promise.all([
+      supabase
+        .from("purchase_orders")
+        .select(
+          "id, po_number, supplier_id, freight_charges, other_charges, discount_amount, landed_cost_method, landed_cost_allocated_at",
+        )
+        .eq("id", purchaseOrderId)
+        .single(),
+      supabase
+        .from("supplier_notes")
+        .select("*")
+        .eq("purchase_order_id", purchaseOrderId)
+        .order("note_date", { ascending: true }),
+      supabase
+        .from("product_batches")
+        .select(`
+          id,
+          batch_number,
+          product_id,
+          quantity_received,
+          purchase_price,
+          landed_cost,
+          homeopathy_products (
+            name,
+            unit_weight
+          )
+        `)
+        .eq("purchase_order_id", purchaseOrderId)
+        .order("created_at", { ascending: true }),
+    ])
+
+  if (poError) {
+    throw new Error(`Failed to fetch purchase order: ${poError.message}`)
+  }
+  if (notesError) {
+    throw new Error(`Failed to fetch supplier notes: ${notesError.message}`)
+  }
+  if (batchesError) {
+    throw new Error(`Failed to fetch received batches: ${batchesError.message}`)
+  }
+
+  return { po, notes: (notes || []) as SupplierNoteRecord[], batches: batches || [] }
+}
+
+export async function getPurchaseOrderLandedCost(purchaseOrderId: string): Promise<PurchaseOrderLandedCost> {
+  const supabase = createClient()
+  const { po, notes, batches } = await getPurchaseOrderCostData(purchaseOrderId)
+
+  const { data: allocations, error } = await supabase
+    .from("landed_cost_allocations")
+    .select("batch_id, allocated_amount, landed_unit_cost")
+    .eq("purchase_order_id", purchaseOrderId)
+
+  if (error) {
+    throw new Error(`Failed to fetch landed cost allocations: ${error.message}`)
+  }
+
+  const allocationByBatch = new Map<string, any>((allocations || []).map((allocation: any) => [allocation.batch_id, allocation]))
+
+  return {
+    purchase_order_id: po.id,
+    po_number: po.po_number,
+    method: po.landed_cost_method || "value",
+    freight_charges: Number(po.freight_charges || 0),
+    other_charges: Number(po.other_charges || 0),
+    discount_amount: Number(po.discount_amount || 0),
+    notes,
+    total_to_allocate: getChargesToAllocate(po, notes),
+    allocated_at: po.landed_cost_allocated_at,
+    lines: batches.map((batch: any) => {
+      const allocation = allocationByBatch.get(batch.id)
+      return {
+        batch_id: batch.id,
+        batch_number: batch.batch_number,
+        product_id: batch.product_id,
+        product_name: batch.homeopathy_products?.name || "Unknown Product",
+        quantity: batch.quantity_received,
+        unit_weight: batch.homeopathy_products?.unit_weight ?? null,
+        purchase_price: Number(batch.purchase_price),
+        allocated_amount: Number(allocation?.allocated_amount || 0),
+        landed_unit_cost: Number(allocation?.landed_unit_cost ?? batch.landed_cost ?? batch.purchase_price),
+      }
+    }),
+  }
+}
+
+// Spreads the order's charges and notes over every batch received on it so far and stores each batch's
+// landed cost. Runs after every receipt, note or method change, so partial deliveries end up sharing the
+// charges once the rest arrives.
+export async function reallocatePurchaseOrderLandedCost(purchaseOrderId: string) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const { po, notes, batches } = await getPurchaseOrderCostData(purchaseOrderId)
+  const method: LandedCostMethod = po.landed_cost_method || "value"
+  const amount = getChargesToAllocate(po, notes)
+
+  const allocations = allocateLandedCost(
+    batches.map((batch: any) => ({
+      batch_id: batch.id,
+      quantity: batch.quantity_received,
+      unit_cost: Number(batch.purchase_price),
+      unit_weight: batch.homeopathy_products?.unit_weight,
+    })),
+    amount,
+    method,
+  )
+
+  for (const allocation of allocations) {
+    const batch = batches.find((b: any) => b.id === allocation.batch_id)
+
+    const { error: batchError } = await supabase
+      .from("product_batches")
+      .update({ landed_cost: allocation.landed_unit_cost, updated_at: new Date().toISOString() })
+      .eq("id", allocation.batch_id)
+
+    if (batchError) {
+      throw new Error(`Failed to update batch landed cost: ${batchError.message}`)
+    }
+
+    const { error: allocationError } = await supabase.from("landed_cost_allocations").upsert(
+      {
+        purchase_order_id: purchaseOrderId,
+        batch_id: allocation.batch_id,
+        method,
+        basis: allocation.basis,
+        allocated_amount: allocation.allocated_amount,
+        purchase_price: batch?.purchase_price,
+        landed_unit_cost: allocation.landed_unit_cost,
+        allocated_by: user.id,
+        allocated_at: new Date().toISOString(),
+      },
+      { onConflict: "batch_id" },
+    )
+
+    if (allocationError) {
+      throw new Error(`Failed to record landed cost allocation: ${allocationError.message}`)
+    }
+  }
+
+  await supabase
+    .from("purchase_orders")
+    .update({ landed_cost_allocated_at: new Date().toISOString() })
+    .eq("id", purchaseOrderId)
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "landed_cost_allocated",
+    resource_type: "purchase_order",
+    resource_id: purchaseOrderId,
+    new_values: { method, amount, batches: allocations.length },
+  })
+
+  revalidateLandedCostPaths()
+  return allocations
+}
+
+export async function updateLandedCostMethod(purchaseOrderId: string, method: LandedCostMethod) {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from("purchase_orders")
+    .update({ landed_cost_method: method, updated_at: new Date().toISOString() })
+    .eq("id", purchaseOrderId)
+
+  if (error) {
+    throw new Error(`Failed to update landed cost method: ${error.message}`)
+  }
+
+  return reallocatePurchaseOrderLandedCost(purchaseOrderId)
+}
+
+export async function createSupplierNote(noteData: CreateSupplierNoteData) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  if (!(noteData.amount > 0)) {
+    throw new Error("Note amount must be greater than zero")
+  }
+  if (!noteData.reason?.trim()) {
+    throw new Error("A reason is required for a supplier note")
+  }
+
+  const { data: po, error: poError } = await supabase
+    .from("purchase_orders")
+    .select("supplier_id")
+    .eq("id", noteData.purchase_order_id)
+    .single()
+
+  if (poError) {
+    throw new Error(`Failed to fetch purchase order: ${poError.message}`)
+  }
+
+  const { data: note, error } = await supabase
+    .from("supplier_notes")
+    .insert({
+      note_number: generateSupplierNoteNumber(noteData.note_type),
+      purchase_order_id: noteData.purchase_order_id,
+      supplier_id: po.supplier_id,
+      note_type: noteData.note_type,
+      amount: noteData.amount,
+      supplier_reference: noteData.supplier_reference || null,
+      reason: noteData.reason.trim(),
+      note_date: noteData.note_date || new Date().toISOString().split("T")[0],
+      created_by: user.id,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create supplier note: ${error.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: `supplier_${noteData.note_type}_note_created`,
+    resource_type: "supplier_note",
+    resource_id: note.id,
+    new_values: note,
+  })
+
+  await reallocatePurchaseOrderLandedCost(noteData.purchase_order_id)
+  return note as SupplierNoteRecord
+}
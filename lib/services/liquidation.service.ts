@@ -0,0 +1,730 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { revalidatePath } from "next/cache"
+import {
+  DEFAULT_LIQUIDATION_ASSUMPTIONS,
+  rankLiquidationOptions,
+  type BranchDemand,
+  type BundlePartner,
+  type LiquidationAction,
+  type LiquidationOption,
+  type SupplierReturnTerms,
+} from "@/lib/inventory/liquidation"
+import { getBatchOriginalPrice, getBatchUnitCost, getDaysToExpiry } from "@/lib/inventory/markdown"
+import { createDiscountCampaign, markAsDeadStock } from "./inventory-aging.service"
+import { applyStockChanges } from "./inventory.service"
+import { revertMarkdown } from "./markdown.service"
+import { cancelStockTransfer, createStockTransfer } from "./stock-transfer.service"
+import { cancelWriteOff, createWriteOff } from "./write-off.service"
+
+export type LiquidationTaskStatus = "in_progress" | "completed" | "cancelled"
+
+export interface LiquidationCandidate {
+  stock_aging_id: string
+  batch_id: string
+  product_id: string
+  product_name: string
+  brand_name: string
+  batch_number: string
+  expiry_date?: string | null
+  warehouse_id?: string | null
+  warehouse_name?: string | null
+  supplier_name?: string | null
+  quantity: number
+  days_in_stock: number
+  days_to_expiry: number | null
+  is_dead_stock: boolean
+  value_at_cost: number
+  unit_cost: number
+  selling_price: number
+  daily_sales: number
+  options: LiquidationOption[]
+  open_task?: { id: string; task_number: string; action_type: LiquidationAction } | null
+}
+
+export interface LiquidationTask {
+  id: string
+  task_number: string
+  stock_aging_id?: string | null
+  batch_id: string
+  product_id: string
+  product_name?: string
+  batch_number?: string
+  warehouse_id?: string | null
+  action_type: LiquidationAction
+  status: LiquidationTaskStatus
+  quantity: number
+  expected_quantity: number
+  expected_value: number
+  actual_quantity?: number | null
+  actual_value?: number | null
+  supplier_id?: string | null
+  target_warehouse_id?: string | null
+  bundle_product_id?: string | null
+  discount_percentage?: number | null
+  reference_type?: "batch_markdown" | "stock_transfer" | "stock_write_off" | null
+  reference_id?: string | null
+  reference_number?: string | null
+  options: LiquidationOption[]
+  notes?: string | null
+  assigned_to?: string | null
+  created_by?: string | null
+  completed_at?: string | null
+  cancelled_at?: string | null
+  cancel_reason?: string | null
+  created_at: string
+}
+
+// Sales over this window set the daily rates the planner works from
+const SALES_WINDOW_DAYS = 90
+const DEFAULT_SLOW_MOVING_DAYS = 90
+const FAST_MOVER_COUNT = 50
+
+const ACTION_LABELS: Record<LiquidationAction, string> = {
+  return_to_supplier: "Return to supplier",
+  transfer: "Branch transfer",
+  bundle: "Bundle",
+  markdown: "Markdown",
+  write_off: "Write-off",
+}
+
+function generateTaskNumber() {
+  const timestamp = Date.now().toString().slice(-6)
+  const random = Math.floor(Math.random() * 1000)
+    .toString()
+    .padStart(3, "0")
+  return `LIQ-${timestamp}-${random}`
+}
+
+function revalidateLiquidationPaths() {
+  revalidatePath("/admin/inventory/aging")
+  revalidatePath("/admin/inventory/liquidation")
+}
+
+// Units sold per product per warehouse over the sales window, from batch allocations
+async function getSalesByWarehouse(productIds?: string[]) {
+  const supabase = createClient()
+  const since = new Date(Date.now() - SALES_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+  let query = supabase
+    .from("order_item_batches")
+    .select("product_id, quantity, product_batches (warehouse_id)")
+    .neq("status", "released")
+    .gte("allocated_at", since)
+
+  if (productIds) {
+    query = query.in("product_id", productIds)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch sales history: ${error.message}`)
+  }
+
+  const sales = new Map<string, number>()
+  for (const line of data || []) {
+    const key = `${line.product_id}:${(line as any).product_batches?.warehouse_id || ""}`
+    sales.set(key, (sales.get(key) || 0) + line.quantity)
+  }
+  return sales
+}
+
+// The best sellers, as bundle partners for items in the same brand or category
+async function getFastMovers() {
+  const supabase = createClient()
+
+  const totals = new Map<string, number>()
+  for (const [key, quantity] of await getSalesByWarehouse()) {
+    const productId = key.split(":")[0]
+    totals.set(productId, (totals.get(productId) || 0) + quantity)
+  }
+
+  const top = [...totals.entries()].sort((a, b) => b[1] - a[1]).slice(0, FAST_MOVER_COUNT)
+  if (top.length === 0) return []
+
+  const { data: products } = await supabase
+    .from("homeopathy_products")
+    .select("id, name, brand_id, category_id")
+    .in(
+      "id",
+      top.map(([productId]) => productId),
+    )
+
+  return top
+    .map(([productId, quantity]) => {
+      const product = products?.find((p: any) => p.id === productId)
+      return product
+        ? {
+            product_id: productId,
+            product_name: product.name,
+            brand_id: product.brand_id,
+            category_id: product.category_id,
+            daily_sales: quantity / SALES_WINDOW_DAYS,
+          }
+        : null
+    })
+    .filter((product): product is BundlePartner & { brand_id: string; category_id: string } => product !== null)
+}
+
+async function buildLiquidationCandidates(filters: {
+  days_threshold?: number
+  stock_aging_ids?: string[]
+}): Promise<LiquidationCandidate[]> {
+  const supabase = createClient()
+
+  let query = supabase
+    .from("stock_aging")
+    .select(`
+      id,
+      batch_id,
+      product_id,
+      quantity,
+      days_in_stock,
+      is_dead_stock,
+      value_at_cost,
+      homeopathy_products (
+        name,
+        brand_id,
+        category_id,
+        brands (
+          name
+        )
+      ),
+      product_batches (
+        batch_number,
+        expiry_date,
+        warehouse_id,
+        supplier_id,
+        selling_price,
+        mrp,
+        purchase_price,
+        landed_cost,
+        suppliers (
+          name
+        ),
+        warehouses (
+          name
+        )
+      )
+    `)
+    .eq("analysis_date", new Date().toISOString().split("T")[0])
+
+  if (filters.stock_aging_ids) {
+    query = query.in("id", filters.stock_aging_ids)
+  } else {
+    query = query.or(`is_dead_stock.eq.true,days_in_stock.gte.${filters.days_threshold ?? DEFAULT_SLOW_MOVING_DAYS}`)
+  }
+
+  const { data: agingItems, error } = await query.order("value_at_cost", { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch slow moving stock: ${error.message}`)
+  }
+
+  if (!agingItems || agingItems.length === 0) return []
+
+  const productIds = [...new Set<string>(agingItems.map((item: any) => item.product_id))]
+  const batchIds = agingItems.map((item: any) => item.batch_id as string)
+
+  const [
+    sales,
+    fastMovers,
+    { data: warehouses },
+    { data: stockLevels },
+    { data: supplierProducts },
+    { data: openTasks },
+  ] = await Promise.all([
+    getSalesByWarehouse(productIds),
+    getFastMovers(),
+    supabase.from("warehouses").select("id, name").eq("is_active", true),
+    supabase.from("stock_levels").select("warehouse_id, product_id, on_hand").in("product_id", productIds),
+    supabase
+      .from("supplier_products")
+      .select(
+        "supplier_id, product_id, accepts_returns, return_window_days, min_return_shelf_life_days, return_credit_percentage, restocking_fee_percentage, suppliers (name)",
+      )
+      .in("product_id", productIds)
+      .eq("is_active", true),
+    supabase
+      .from("liquidation_tasks")
+      .select("id, task_number, batch_id, action_type")
+      .in("batch_id", batchIds)
+      .eq("status", "in_progress"),
+  ])
+
+  return agingItems.map((item: any) => {
+    const product = item.homeopathy_products
+    const batch = item.product_batches || {}
+    const warehouseId: string | null = batch.warehouse_id || null
+
+    const supplierProduct = supplierProducts?.find(
+      (sp: any) => sp.supplier_id === batch.supplier_id && sp.product_id === item.product_id,
+    )
+    const supplierTerms: SupplierReturnTerms | null = supplierProduct
+      ? {
+          supplier_id: supplierProduct.supplier_id,
+          supplier_name: (supplierProduct as any).suppliers?.name || batch.suppliers?.name || "Supplier",
+          accepts_returns: !!supplierProduct.accepts_returns,
+          return_window_days: supplierProduct.return_window_days ?? null,
+          min_shelf_life_days: supplierProduct.min_return_shelf_life_days ?? null,
+          credit_percentage: Number(supplierProduct.return_credit_percentage ?? 100),
+          restocking_fee_percentage: Number(supplierProduct.restocking_fee_percentage ?? 0),
+        }
+      : null
+
+    const branches: BranchDemand[] = (warehouses || [])
+      .filter((warehouse: any) => warehouse.id !== warehouseId)
+      .map((warehouse: any) => ({
+        warehouse_id: warehouse.id,
+        warehouse_name: warehouse.name,
+        daily_sales: (sales.get(`${item.product_id}:${warehouse.id}`) || 0) / SALES_WINDOW_DAYS,
+        on_hand:
+          stockLevels?.find((level: any) => level.warehouse_id === warehouse.id && level.product_id === item.product_id)
+            ?.on_hand || 0,
+      }))
+
+    const bundlePartners = fastMovers.filter(
+      (partner) =>
+        partner.product_id !== item.product_id &&
+        ((!!product?.brand_id && partner.brand_id === product.brand_id) ||
+          (!!product?.category_id && partner.category_id === product.category_id)),
+    )
+
+    const daysToExpiry = batch.expiry_date ? getDaysToExpiry(batch.expiry_date) : null
+    const unitCost = getBatchUnitCost(batch)
+    const sellingPrice = getBatchOriginalPrice(batch)
+    const dailySales = (sales.get(`${item.product_id}:${warehouseId || ""}`) || 0) / SALES_WINDOW_DAYS
+
+    const options = rankLiquidationOptions(
+      {
+        quantity: item.quantity,
+        unit_cost: unitCost,
+        selling_price: sellingPrice,
+        days_in_stock: item.days_in_stock,
+        days_to_expiry: daysToExpiry,
+        daily_sales: dailySales,
+      },
+      { supplier_terms: supplierTerms, branches, bundle_partners: bundlePartners },
+    )
+
+    const openTask = openTasks?.find((task: any) => task.batch_id === item.batch_id)
+
+    return {
+      stock_aging_id: item.id,
+      batch_id: item.batch_id,
+      product_id: item.product_id,
+      product_name: product?.name || "Unknown Product",
+      brand_name: product?.brands?.name || "Unknown Brand",
+      batch_number: batch.batch_number || "Unknown Batch",
+      expiry_date: batch.expiry_date,
+      warehouse_id: warehouseId,
+      warehouse_name: batch.warehouses?.name || null,
+      supplier_name: batch.suppliers?.name || null,
+      quantity: item.quantity,
+      days_in_stock: item.days_in_stock,
+      days_to_expiry: daysToExpiry,
+      is_dead_stock: !!item.is_dead_stock,
+      value_at_cost: Number(item.value_at_cost || 0),
+      unit_cost: unitCost,
+      selling_price: sellingPrice,
+      daily_sales: dailySales,
+      options,
+      open_task: openTask
+        ? { id: openTask.id, task_number: openTask.task_number, action_type: openTask.action_type }
+        : null,
+    }
+  })
+}
+
+// Dead stock and batches held longer than the threshold, each with its options ranked by value recovered
+export async function getLiquidationPlan(daysThreshold = DEFAULT_SLOW_MOVING_DAYS) {
+  const candidates = await buildLiquidationCandidates({ days_threshold: daysThreshold })
+  return { candidates, assumptions: DEFAULT_LIQUIDATION_ASSUMPTIONS }
+}
+
+export async function getLiquidationTasks(filters?: { status?: LiquidationTaskStatus | "all" }) {
+  const supabase = createClient()
+
+  let query = supabase.from("liquidation_tasks").select(`
+      *,
+      homeopathy_products (
+        name
+      ),
+      product_batches (
+        batch_number
+      )
+    `)
+
+  if (filters?.status && filters.status !== "all") {
+    query = query.eq("status", filters.status)
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch liquidation tasks: ${error.message}`)
+  }
+
+  const tasks = data || []
+  const referenceIds = (type: string) =>
+    tasks.filter((task: any) => task.reference_type === type).map((task: any) => task.reference_id as string)
+
+  const [{ data: transfers }, { data: writeOffs }] = await Promise.all([
+    supabase.from("stock_transfers").select("id, transfer_number").in("id", referenceIds("stock_transfer")),
+    supabase.from("stock_write_offs").select("id, write_off_number").in("id", referenceIds("stock_write_off")),
+  ])
+
+  return tasks.map((task: any) => ({
+    ...task,
+    product_name: task.homeopathy_products?.name || "Unknown Product",
+    batch_number: task.product_batches?.batch_number || "Unknown Batch",
+    reference_number:
+      transfers?.find((transfer: any) => transfer.id === task.reference_id)?.transfer_number ||
+      writeOffs?.find((writeOff: any) => writeOff.id === task.reference_id)?.write_off_number ||
+      null,
+  })) as LiquidationTask[]
+}
+
+async function getOpenTask(id: string) {
+  const supabase = createClient()
+
+  const { data: task } = await supabase.from("liquidation_tasks").select("*").eq("id", id).single()
+
+  if (!task) {
+    throw new Error("Liquidation task not found")
+  }
+
+  if (task.status !== "in_progress") {
+    throw new Error(`Liquidation task ${task.task_number} is ${task.status}`)
+  }
+
+  return task as LiquidationTask
+}
+
+// Starts the chosen option for a batch. The plan is worked out again here so the task records the ranking
+// as it stood; markdowns go through the aging discount campaign, write-offs mark the item as dead stock and
+// raise a draft write-off, and transfers raise a draft stock transfer. Returns and bundles are arranged
+// outside the system and recorded when the task is completed.
+export async function createLiquidationTask(taskData: {
+  stock_aging_id: string
+  action: LiquidationAction
+  assigned_to?: string
+  notes?: string
+}) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const [candidate] = await buildLiquidationCandidates({ stock_aging_ids: [taskData.stock_aging_id] })
+
+  if (!candidate) {
+    throw new Error("Stock aging item not found; refresh the aging analysis and try again")
+  }
+
+  if (candidate.open_task) {
+    throw new Error(`Batch ${candidate.batch_number} already has liquidation task ${candidate.open_task.task_number}`)
+  }
+
+  const option = candidate.options.find((o) => o.action === taskData.action)
+  if (!option) {
+    throw new Error(`${ACTION_LABELS[taskData.action]} is not an option for batch ${candidate.batch_number}`)
+  }
+
+  if (option.action === "transfer" && !candidate.warehouse_id) {
+    throw new Error(`Batch ${candidate.batch_number} is not assigned to a warehouse to transfer from`)
+  }
+
+  // Transfers move only what the branch is expected to sell; every other action covers the whole batch
+  const quantity = option.action === "transfer" ? option.expected_quantity : candidate.quantity
+
+  const { data: task, error } = await supabase
+    .from("liquidation_tasks")
+    .insert({
+      task_number: generateTaskNumber(),
+      stock_aging_id: candidate.stock_aging_id,
+      batch_id: candidate.batch_id,
+      product_id: candidate.product_id,
+      warehouse_id: candidate.warehouse_id,
+      action_type: option.action,
+      status: "in_progress",
+      quantity,
+      expected_quantity: option.expected_quantity,
+      expected_value: option.expected_value,
+      supplier_id: option.supplier_id,
+      target_warehouse_id: option.target_warehouse_id,
+      bundle_product_id: option.bundle_product_id,
+      discount_percentage: option.discount_percentage,
+      options: candidate.options,
+      assigned_to: taskData.assigned_to,
+      notes: taskData.notes,
+      created_by: user.id,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create liquidation task: ${error.message}`)
+  }
+
+  let reference: { reference_type: LiquidationTask["reference_type"]; reference_id: string } | null = null
+  try {
+    if (option.action === "markdown") {
+      const [markdown] = await createDiscountCampaign([candidate.stock_aging_id], option.discount_percentage!)
+      reference = { reference_type: "batch_markdown", reference_id: markdown.id }
+    } else if (option.action === "transfer") {
+      const transfer = await createStockTransfer({
+        from_warehouse_id: candidate.warehouse_id!,
+        to_warehouse_id: option.target_warehouse_id!,
+        items: [
+          {
+            product_id: candidate.product_id,
+            quantity,
+            unit_cost: candidate.unit_cost,
+            batch_number: candidate.batch_number,
+            expiry_date: candidate.expiry_date || undefined,
+          },
+        ],
+        notes: `Liquidation ${task.task_number}`,
+      })
+      reference = { reference_type: "stock_transfer", reference_id: transfer.id }
+    } else if (option.action === "write_off") {
+      await markAsDeadStock([candidate.stock_aging_id])
+      const writeOff = await createWriteOff({
+        notes: `Liquidation ${task.task_number}`,
+        items: [{ batch_id: candidate.batch_id, quantity, reason: "dead_stock" }],
+      })
+      reference = { reference_type: "stock_write_off", reference_id: writeOff.id }
+    }
+  } catch (actionError) {
+    // Rollback task creation
+    await supabase.from("liquidation_tasks").delete().eq("id", task.id)
+    throw actionError
+  }
+
+  if (reference) {
+    await supabase.from("liquidation_tasks").update(reference).eq("id", task.id)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "liquidation_task_created",
+    resource_type: "liquidation_task",
+    resource_id: task.id,
+    new_values: {
+      task_number: task.task_number,
+      action_type: option.action,
+      batch_id: candidate.batch_id,
+      expected_value: option.expected_value,
+      ...reference,
+    },
+  })
+
+  revalidateLiquidationPaths()
+  return { ...task, ...reference } as LiquidationTask
+}
+
+// Records what the task actually recovered. A supplier return takes the units out of stock here; write-offs
+// and transfers must have gone through their own documents first.
+export async function completeLiquidationTask(
+  id: string,
+  completion: { actual_quantity: number; actual_value: number; notes?: string },
+) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  if (!Number.isInteger(completion.actual_quantity) || completion.actual_quantity < 0) {
+    throw new Error("Quantity cleared must be a whole number")
+  }
+
+  if (!Number.isFinite(completion.actual_value) || completion.actual_value < 0) {
+    throw new Error("Value recovered cannot be negative")
+  }
+
+  const task = await getOpenTask(id)
+
+  if (task.reference_type === "stock_write_off") {
+    const { data: writeOff } = await supabase
+      .from("stock_write_offs")
+      .select("write_off_number, status")
+      .eq("id", task.reference_id)
+      .single()
+
+    if (writeOff && writeOff.status !== "approved") {
+      throw new Error(`Write-off ${writeOff.write_off_number} is still ${writeOff.status.replace("_", " ")}`)
+    }
+  }
+
+  if (task.reference_type === "stock_transfer") {
+    const { data: transfer } = await supabase
+      .from("stock_transfers")
+      .select("transfer_number, status")
+      .eq("id", task.reference_id)
+      .single()
+
+    if (transfer && transfer.status !== "received") {
+      throw new Error(`Transfer ${transfer.transfer_number} has not been received yet`)
+    }
+  }
+
+  if (task.action_type === "return_to_supplier" && completion.actual_quantity > 0) {
+    const { data: batch } = await supabase
+      .from("product_batches")
+      .select("batch_number, quantity_available, purchase_price, landed_cost")
+      .eq("id", task.batch_id)
+      .single()
+
+    if (!batch || batch.quantity_available < completion.actual_quantity) {
+      throw new Error(
+        `Batch ${batch?.batch_number || task.batch_id} only has ${batch?.quantity_available || 0} available`,
+      )
+    }
+
+    const unitCost = getBatchUnitCost(batch)
+    await applyStockChanges([
+      {
+        product_id: task.product_id,
+        quantity_change: -completion.actual_quantity,
+        movement_type: "out",
+        warehouse_id: task.warehouse_id || undefined,
+        reason: `Liquidation ${task.task_number}: returned to supplier (batch ${batch.batch_number})`,
+        reference_type: "LIQUIDATION",
+        reference_id: task.id,
+        unit_cost: unitCost,
+      },
+    ])
+
+    const { error: movementError } = await supabase.from("batch_movements").insert({
+      batch_id: task.batch_id,
+      movement_type: "OUT",
+      quantity: completion.actual_quantity,
+      reference_type: "LIQUIDATION",
+      reference_id: task.id,
+      reference_number: task.task_number,
+      unit_cost: unitCost,
+      total_value: completion.actual_quantity * unitCost,
+      reason: "Returned to supplier",
+      performed_by: user.id,
+    })
+
+    if (movementError) {
+      throw new Error(`Failed to record batch movement: ${movementError.message}`)
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("liquidation_tasks")
+    .update({
+      status: "completed",
+      actual_quantity: completion.actual_quantity,
+      actual_value: completion.actual_value,
+      notes: completion.notes || task.notes,
+      completed_by: user.id,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to complete liquidation task: ${error.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "liquidation_task_completed",
+    resource_type: "liquidation_task",
+    resource_id: id,
+    new_values: {
+      actual_quantity: completion.actual_quantity,
+      actual_value: completion.actual_value,
+      expected_value: task.expected_value,
+    },
+  })
+
+  revalidateLiquidationPaths()
+  return data as LiquidationTask
+}
+
+// Undoes what the task started where that is still possible: the markdown is reverted and a draft transfer
+// or unapproved write-off is cancelled
+export async function cancelLiquidationTask(id: string, reason: string) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  if (!reason?.trim()) {
+    throw new Error("A reason is required to cancel a liquidation task")
+  }
+
+  const task = await getOpenTask(id)
+
+  if (task.reference_id) {
+    if (task.reference_type === "batch_markdown") {
+      await revertMarkdown(task.reference_id)
+    } else if (task.reference_type === "stock_write_off") {
+      await cancelWriteOff(task.reference_id)
+    } else if (task.reference_type === "stock_transfer") {
+      const { data: transfer } = await supabase
+        .from("stock_transfers")
+        .select("transfer_number, status")
+        .eq("id", task.reference_id)
+        .single()
+
+      if (transfer && transfer.status !== "draft" && transfer.status !== "cancelled") {
+        throw new Error(`Transfer ${transfer.transfer_number} is already ${transfer.status.replace("_", " ")}`)
+      }
+
+      if (transfer?.status === "draft") {
+        await cancelStockTransfer(task.reference_id, `Liquidation ${task.task_number} cancelled`)
+      }
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("liquidation_tasks")
+    .update({
+      status: "cancelled",
+      cancelled_by: user.id,
+      cancelled_at: new Date().toISOString(),
+      cancel_reason: reason,
+    })
+    .eq("id", id)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to cancel liquidation task: ${error.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "liquidation_task_cancelled",
+    resource_type: "liquidation_task",
+    resource_id: id,
+    new_values: { reason },
+  })
+
+  revalidateLiquidationPaths()
+  return data as LiquidationTask
+}
@@ -0,0 +1,661 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { revalidatePath } from "next/cache"
+import {
+  getBatchOriginalPrice,
+  getBatchUnitCost,
+  getDaysToExpiry,
+  getMarkdownFloorPrice,
+  getMarkdownPrice,
+  planBatchMarkdown,
+  roundPrice,
+} from "@/lib/inventory/markdown"
+import type { MarkdownBatch, MarkdownRule, MarkdownScopeType, MarkdownStep } from "@/lib/inventory/markdown"
+
+export type MarkdownStatus = "active" | "superseded" | "reverted"
+export type MarkdownRevertReason = "next_step" | "sold_out" | "expired" | "rule_removed" | "ended" | "manual"
+
+export interface MarkdownRuleRecord extends MarkdownRule {
+  description?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type MarkdownRuleData = {
+  name: string
+  description?: string
+  scope_type: MarkdownScopeType
+  scope_id?: string | null
+  steps: MarkdownStep[]
+  min_margin_percentage: number
+  is_active: boolean
+}
+
+export interface BatchMarkdown {
+  id: string
+  batch_id: string
+  product_id: string
+  product_name: string
+  batch_number: string
+  expiry_date: string
+  quantity_available: number
+  rule_id?: string | null
+  rule_name?: string | null
+  source: "schedule" | "manual"
+  days_before_expiry?: number | null
+  discount_percentage: number
+  original_price: number
+  markdown_price: number
+  floor_price?: number | null
+  status: MarkdownStatus
+  starts_at: string
+  ends_at?: string | null
+  reverted_at?: string | null
+  revert_reason?: MarkdownRevertReason | null
+}
+
+export interface MarkdownRunResult {
+  applied: number
+  reverted: number
+  unchanged: number
+}
+
+export interface MarkdownRecoveryLine {
+  markdown_id: string
+  rule_name: string
+  source: "schedule" | "manual"
+  days_before_expiry?: number | null
+  discount_percentage: number
+  product_name: string
+  batch_number: string
+  units_sold: number
+  revenue: number
+  discount_given: number
+  cost: number
+  margin: number
+}
+
+function revalidateMarkdownPaths() {
+  revalidatePath("/admin/inventory")
+  revalidatePath("/admin/inventory/batches")
+  revalidatePath("/admin/inventory/expiry-alerts")
+  revalidatePath("/admin/inventory/markdowns")
+}
+
+function validateRuleData(ruleData: Partial<MarkdownRuleData>) {
+  if (ruleData.scope_type && ruleData.scope_type !== "all" && !ruleData.scope_id) {
+    throw new Error("Pick what the markdown rule applies to")
+  }
+
+  if (ruleData.min_margin_percentage !== undefined && ruleData.min_margin_percentage < 0) {
+    throw new Error("Minimum margin cannot be negative")
+  }
+
+  if (ruleData.steps) {
+    if (ruleData.steps.length === 0) {
+      throw new Error("A markdown rule needs at least one step")
+    }
+
+    for (const step of ruleData.steps) {
+      if (!Number.isInteger(step.days_before_expiry) || step.days_before_expiry < 0) {
+        throw new Error("Step days before expiry must be a whole number of days")
+      }
+      if (step.discount_percentage <= 0 || step.discount_percentage >= 100) {
+        throw new Error("Step discounts must be between 0% and 100%")
+      }
+    }
+
+    if (new Set(ruleData.steps.map((step) => step.days_before_expiry)).size !== ruleData.steps.length) {
+      throw new Error("Each step needs a different number of days before expiry")
+    }
+  }
+}
+
+function toMarkdownBatch(batch: any): MarkdownBatch {
+  return {
+    id: batch.id,
+    product_id: batch.product_id,
+    brand_id: batch.homeopathy_products?.brand_id,
+    category_id: batch.homeopathy_products?.category_id,
+    expiry_date: batch.expiry_date,
+    quantity_available: batch.quantity_available,
+    selling_price: batch.selling_price,
+    mrp: batch.mrp,
+    purchase_price: batch.purchase_price,
+    landed_cost: batch.landed_cost,
+    is_active: batch.is_active,
+  }
+}
+
+function getRevertReason(batch: MarkdownBatch, asOf: Date): MarkdownRevertReason {
+  if (batch.is_active === false || batch.quantity_available <= 0) return "sold_out"
+  if (getDaysToExpiry(batch.expiry_date, asOf) < 0) return "expired"
+  return "rule_removed"
+}
+
+async function revertMarkdowns(ids: string[], reason: MarkdownRevertReason) {
+  if (ids.length === 0) return
+
+  const supabase = createClient()
+  const { error } = await supabase
+    .from("batch_markdowns")
+    .update({
+      status: reason === "next_step" ? "superseded" : "reverted",
+      reverted_at: new Date().toISOString(),
+      revert_reason: reason,
+    })
+    .in("id", ids)
+    .eq("status", "active")
+
+  if (error) {
+    throw new Error(`Failed to revert markdowns: ${error.message}`)
+  }
+}
+
+export async function getMarkdownRules(): Promise<MarkdownRuleRecord[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("batch_markdown_rules")
+    .select("*")
+    .order("is_active", { ascending: false })
+    .order("name")
+
+  if (error) {
+    throw new Error(`Failed to fetch markdown rules: ${error.message}`)
+  }
+
+  return (data || []).map((rule: any) => ({
+    ...rule,
+    min_margin_percentage: Number(rule.min_margin_percentage),
+    steps: [...(rule.steps || [])].sort(
+      (a: MarkdownStep, b: MarkdownStep) => b.days_before_expiry - a.days_before_expiry,
+    ),
+  }))
+}
+
+export async function createMarkdownRule(ruleData: MarkdownRuleData) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  validateRuleData(ruleData)
+
+  const { data, error } = await supabase
+    .from("batch_markdown_rules")
+    .insert({ ...ruleData, scope_id: ruleData.scope_type === "all" ? null : ruleData.scope_id, created_by: user.id })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create markdown rule: ${error.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "markdown_rule_created",
+    resource_type: "batch_markdown_rule",
+    resource_id: data.id,
+    new_values: ruleData,
+  })
+
+  revalidateMarkdownPaths()
+  return data
+}
+
+export async function updateMarkdownRule(id: string, ruleData: Partial<MarkdownRuleData>) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  validateRuleData(ruleData)
+
+  const { data, error } = await supabase
+    .from("batch_markdown_rules")
+    .update(ruleData.scope_type === "all" ? { ...ruleData, scope_id: null } : ruleData)
+    .eq("id", id)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to update markdown rule: ${error.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "markdown_rule_updated",
+    resource_type: "batch_markdown_rule",
+    resource_id: id,
+    new_values: ruleData,
+  })
+
+  revalidateMarkdownPaths()
+  return data
+}
+
+// Live markdowns from the rule are reverted with it; the sales history keeps the markdown rows
+export async function deleteMarkdownRule(id: string) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const { data: live } = await supabase.from("batch_markdowns").select("id").eq("rule_id", id).eq("status", "active")
+
+  await revertMarkdowns(
+    (live || []).map((markdown: any) => markdown.id),
+    "rule_removed",
+  )
+
+  const { error } = await supabase.from("batch_markdown_rules").delete().eq("id", id)
+
+  if (error) {
+    throw new Error(`Failed to delete markdown rule: ${error.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "markdown_rule_deleted",
+    resource_type: "batch_markdown_rule",
+    resource_id: id,
+  })
+
+  revalidateMarkdownPaths()
+}
+
+// Brings every batch's markdown in line with the rules for today: new markdowns for batches entering a
+// step, a fresh row when a batch moves to the next step, and reverts for batches that sold out, expired
+// or lost their rule. Manual markdowns are left alone until they end.
+// Runs daily from /api/cron/markdowns (see vercel.json); re-running on the same day changes nothing.
+export async function applyMarkdownSchedules(): Promise<MarkdownRunResult> {
+  const supabase = createClient()
+  const now = new Date()
+
+  const rules = await getMarkdownRules()
+  const horizon = Math.max(
+    0,
+    ...rules.filter((rule) => rule.is_active).flatMap((rule) => rule.steps.map((step) => step.days_before_expiry)),
+  )
+  const horizonDate = new Date(now.getTime() + horizon * 24 * 60 * 60 * 1000).toISOString().split("T")[0]
+
+  const batchFields = `
+    id, product_id, expiry_date, quantity_available, selling_price, mrp, purchase_price, landed_cost, is_active,
+    homeopathy_products (
+      brand_id,
+      category_id
+    )
+  `
+
+  const [{ data: candidates, error: batchesError }, { data: live, error: liveError }] = await Promise.all([
+    supabase
+      .from("product_batches")
+      .select(batchFields)
+      .eq("is_active", true)
+      .gt("quantity_available", 0)
+      .lte("expiry_date", horizonDate),
+    supabase.from("batch_markdowns").select(`*, product_batches (${batchFields})`).eq("status", "active"),
+  ])
+
+  if (batchesError) {
+    throw new Error(`Failed to fetch batches for markdowns: ${batchesError.message}`)
+  }
+  if (liveError) {
+    throw new Error(`Failed to fetch live markdowns: ${liveError.message}`)
+  }
+
+  const batches = new Map<string, MarkdownBatch>()
+  for (const batch of candidates || []) batches.set(batch.id, toMarkdownBatch(batch))
+  for (const markdown of live || []) {
+    if (markdown.product_batches && !batches.has(markdown.batch_id)) {
+      batches.set(markdown.batch_id, toMarkdownBatch(markdown.product_batches))
+    }
+  }
+
+  const liveByBatch = new Map<string, any>((live || []).map((markdown: any) => [markdown.batch_id, markdown]))
+  const toRevert = new Map<MarkdownRevertReason, string[]>()
+  const toInsert: Record<string, unknown>[] = []
+  let unchanged = 0
+
+  const queueRevert = (id: string, reason: MarkdownRevertReason) => {
+    toRevert.set(reason, [...(toRevert.get(reason) || []), id])
+  }
+
+  for (const batch of batches.values()) {
+    const current = liveByBatch.get(batch.id)
+
+    if (current?.source === "manual") {
+      if (current.ends_at && new Date(current.ends_at).getTime() <= now.getTime()) {
+        queueRevert(current.id, "ended")
+      } else if (batch.quantity_available <= 0 || getDaysToExpiry(batch.expiry_date, now) < 0) {
+        queueRevert(current.id, getRevertReason(batch, now))
+      } else {
+        unchanged++
+      }
+      continue
+    }
+
+    const plan = planBatchMarkdown(batch, rules, now)
+
+    if (!plan) {
+      if (current) queueRevert(current.id, getRevertReason(batch, now))
+      continue
+    }
+
+    if (
+      current &&
+      current.rule_id === plan.rule_id &&
+      current.days_before_expiry === plan.days_before_expiry &&
+      Number(current.markdown_price) === plan.markdown_price
+    ) {
+      unchanged++
+      continue
+    }
+
+    if (current) queueRevert(current.id, "next_step")
+    toInsert.push({
+      batch_id: batch.id,
+      product_id: batch.product_id,
+      rule_id: plan.rule_id,
+      source: "schedule",
+      days_before_expiry: plan.days_before_expiry,
+      discount_percentage: plan.discount_percentage,
+      original_price: plan.original_price,
+      markdown_price: plan.markdown_price,
+      floor_price: plan.floor_price,
+      starts_at: now.toISOString(),
+    })
+  }
+
+  // Old rows go first so the one-live-markdown-per-batch index never sees two
+  for (const [reason, ids] of toRevert) {
+    await revertMarkdowns(ids, reason)
+  }
+
+  if (toInsert.length > 0) {
+    const { error } = await supabase.from("batch_markdowns").insert(toInsert)
+    if (error) {
+      throw new Error(`Failed to apply markdowns: ${error.message}`)
+    }
+  }
+
+  const reverted = [...toRevert.entries()]
+    .filter(([reason]) => reason !== "next_step")
+    .reduce((sum, [, ids]) => sum + ids.length, 0)
+
+  revalidateMarkdownPaths()
+  return { applied: toInsert.length, reverted, unchanged }
+}
+
+export async function getActiveMarkdowns(): Promise<BatchMarkdown[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("batch_markdowns")
+    .select(`
+      *,
+      batch_markdown_rules (
+        name
+      ),
+      product_batches (
+        batch_number,
+        expiry_date,
+        quantity_available,
+        homeopathy_products (
+          name
+        )
+      )
+    `)
+    .eq("status", "active")
+    .order("starts_at", { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch markdowns: ${error.message}`)
+  }
+
+  return (data || [])
+    .map((markdown: any) => ({
+      id: markdown.id,
+      batch_id: markdown.batch_id,
+      product_id: markdown.product_id,
+      product_name: markdown.product_batches?.homeopathy_products?.name || "Unknown Product",
+      batch_number: markdown.product_batches?.batch_number,
+      expiry_date: markdown.product_batches?.expiry_date,
+      quantity_available: markdown.product_batches?.quantity_available || 0,
+      rule_id: markdown.rule_id,
+      rule_name: markdown.batch_markdown_rules?.name,
+      source: markdown.source,
+      days_before_expiry: markdown.days_before_expiry,
+      discount_percentage: Number(markdown.discount_percentage),
+      original_price: Number(markdown.original_price),
+      markdown_price: Number(markdown.markdown_price),
+      floor_price: markdown.floor_price != null ? Number(markdown.floor_price) : null,
+      status: markdown.status,
+      starts_at: markdown.starts_at,
+      ends_at: markdown.ends_at,
+      reverted_at: markdown.reverted_at,
+      revert_reason: markdown.revert_reason,
+    }))
+    .sort((a: BatchMarkdown, b: BatchMarkdown) => a.expiry_date.localeCompare(b.expiry_date))
+}
+
+// A one-off markdown on a batch. It replaces any live markdown, still stops at cost and, without an end
+// date, lasts until the batch sells out or expires.
+export async function applyManualMarkdown(batchId: string, discountPercentage: number, endsAt?: string) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  if (discountPercentage <= 0 || discountPercentage >= 100) {
+    throw new Error("Discount must be between 0% and 100%")
+  }
+
+  const { data: batch } = await supabase.from("product_batches").select("*").eq("id", batchId).single()
+
+  if (!batch) {
+    throw new Error("Batch not found")
+  }
+
+  const originalPrice = getBatchOriginalPrice(batch)
+  const floorPrice = getMarkdownFloorPrice(getBatchUnitCost(batch), 0)
+  const { price } = getMarkdownPrice(originalPrice, discountPercentage, floorPrice)
+
+  if (originalPrice <= 0 || price >= originalPrice) {
+    throw new Error(`Batch ${batch.batch_number} is already priced at cost; there is no room for a markdown`)
+  }
+
+  const { data: current } = await supabase
+    .from("batch_markdowns")
+    .select("id")
+    .eq("batch_id", batchId)
+    .eq("status", "active")
+
+  await revertMarkdowns(
+    (current || []).map((markdown: any) => markdown.id),
+    "manual",
+  )
+
+  const { data, error } = await supabase
+    .from("batch_markdowns")
+    .insert({
+      batch_id: batchId,
+      product_id: batch.product_id,
+      source: "manual",
+      discount_percentage: discountPercentage,
+      original_price: originalPrice,
+      markdown_price: price,
+      floor_price: floorPrice,
+      ends_at: endsAt || null,
+      applied_by: user.id,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to apply markdown: ${error.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "batch_markdown_applied",
+    resource_type: "product_batch",
+    resource_id: batchId,
+    new_values: { discount_percentage: discountPercentage, markdown_price: price, ends_at: endsAt },
+  })
+
+  revalidateMarkdownPaths()
+  return data
+}
+
+export async function revertMarkdown(id: string) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  await revertMarkdowns([id], "manual")
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "batch_markdown_reverted",
+    resource_type: "batch_markdown",
+    resource_id: id,
+  })
+
+  revalidateMarkdownPaths()
+}
+
+// Live markdown prices by batch, read when batches are allocated to an order
+export async function getLiveMarkdownPrices(batchIds: string[]) {
+  const supabase = createClient()
+  const prices = new Map<string, { markdown_id: string; markdown_price: number }>()
+
+  if (batchIds.length === 0) return prices
+
+  const { data, error } = await supabase
+    .from("batch_markdowns")
+    .select("id, batch_id, markdown_price, ends_at")
+    .in("batch_id", batchIds)
+    .eq("status", "active")
+
+  if (error) {
+    throw new Error(`Failed to fetch markdown prices: ${error.message}`)
+  }
+
+  const now = Date.now()
+  for (const markdown of data || []) {
+    // A manual markdown past its end stops applying even before the scheduler reverts it
+    if (markdown.ends_at && new Date(markdown.ends_at).getTime() <= now) continue
+    prices.set(markdown.batch_id, { markdown_id: markdown.id, markdown_price: Number(markdown.markdown_price) })
+  }
+
+  return prices
+}
+
+// Sales of marked-down units allocated in the period: what they brought in, the discount given away and
+// the margin left over cost. Released allocations (cancelled orders) are left out.
+export async function getMarkdownRecoveryReport(filters: { from: string; to: string }) {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("order_item_batches")
+    .select(`
+      markdown_id,
+      batch_number,
+      quantity,
+      unit_cost,
+      list_price,
+      unit_price,
+      batch_markdowns!inner (
+        source,
+        days_before_expiry,
+        discount_percentage,
+        batch_markdown_rules (
+          name
+        ),
+        product_batches (
+          homeopathy_products (
+            name
+          )
+        )
+      )
+    `)
+    .not("markdown_id", "is", null)
+    .neq("status", "released")
+    .gte("allocated_at", filters.from)
+    .lte("allocated_at", `${filters.to}T23:59:59.999Z`)
+
+  if (error) {
+    throw new Error(`Failed to fetch markdown sales: ${error.message}`)
+  }
+
+  const lines = new Map<string, MarkdownRecoveryLine>()
+
+  for (const row of data || []) {
+    const markdown: any = Array.isArray(row.batch_markdowns) ? row.batch_markdowns[0] : row.batch_markdowns
+    const quantity = Number(row.quantity)
+    const unitPrice = Number(row.unit_price || 0)
+    const line = lines.get(row.markdown_id) || {
+      markdown_id: row.markdown_id,
+      rule_name: markdown?.batch_markdown_rules?.name || (markdown?.source === "manual" ? "Manual markdown" : "-"),
+      source: markdown?.source,
+      days_before_expiry: markdown?.days_before_expiry,
+      discount_percentage: Number(markdown?.discount_percentage || 0),
+      product_name: markdown?.product_batches?.homeopathy_products?.name || "Unknown Product",
+      batch_number: row.batch_number,
+      units_sold: 0,
+      revenue: 0,
+      discount_given: 0,
+      cost: 0,
+      margin: 0,
+    }
+
+    line.units_sold += quantity
+    line.revenue = roundPrice(line.revenue + quantity * unitPrice)
+    line.discount_given = roundPrice(line.discount_given + quantity * (Number(row.list_price || unitPrice) - unitPrice))
+    line.cost = roundPrice(line.cost + quantity * Number(row.unit_cost || 0))
+    line.margin = roundPrice(line.revenue - line.cost)
+    lines.set(row.markdown_id, line)
+  }
+
+  const sorted = [...lines.values()].sort((a, b) => b.revenue - a.revenue)
+
+  return {
+    lines: sorted,
+    totals: {
+      units_sold: sorted.reduce((sum, line) => sum + line.units_sold, 0),
+      revenue: roundPrice(sorted.reduce((sum, line) => sum + line.revenue, 0)),
+      discount_given: roundPrice(sorted.reduce((sum, line) => sum + line.discount_given, 0)),
+      cost: roundPrice(sorted.reduce((sum, line) => sum + line.cost, 0)),
+      margin: roundPrice(sorted.reduce((sum, line) => sum + line.margin, 0)),
+    },
+  }
+}
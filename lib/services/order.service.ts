@@ -2,15 +2,37 @@
 
 import { createClient } from "@/lib/supabase/server"
 import { revalidatePath } from "next/cache"
-import { adjustInventory } from "./product.service"
+import { applyStockChanges } from "./inventory.service"
+import {
+  fulfillOrderReservations,
+  getOrderReservations,
+  releaseExpiredReservations,
+  releaseOrderReservations,
+  reserveOrderStock,
+} from "./reservation.service"
+import { allocateBatchesForOrderItem } from "./batch.service"
+import { getKitAvailability } from "./kit.service"
+import { convertLinesToStockUnits } from "./uom.service"
+import {
+  assertTransition,
+  getAvailableOrderActions,
+  getStatus,
+  getTransitionError,
+  OrderConflictError,
+  type AvailableOrderAction,
+  type FulfillmentStatus,
+  type OrderStatus,
+  type PaymentStatus,
+  type StatusType,
+} from "@/lib/orders/order-state"
 
 export interface Order {
   id: string
   user_id: string
   order_number: string
-  status: "pending" | "confirmed" | "processing" | "shipped" | "delivered" | "cancelled" | "refunded"
-  payment_status: "pending" | "paid" | "failed" | "refunded" | "partially_refunded"
-  fulfillment_status: "unfulfilled" | "partial" | "fulfilled"
+  status: OrderStatus
+  payment_status: PaymentStatus
+  fulfillment_status: FulfillmentStatus
   subtotal: number
   tax_amount: number
   shipping_amount: number
@@ -47,7 +69,10 @@ export interface OrderItem {
 export interface CartItem {
   product_id: string
   variant_id?: string
+  // In `unit` when given (a pack, or ml of a mother tincture), otherwise in the product's stock unit;
+  // unit_price is per `unit` as well
   quantity: number
+  unit?: string
   unit_price: number
   product_name: string
   product_image?: string
@@ -114,11 +139,23 @@ export async function createOrder(orderData: CreateOrderData): Promise<Order> {
     throw new Error("Order must contain at least one item")
   }
 
+  // Lines sold in another unit are held, picked and stored in stock units; totals use the prices as entered
+  const lines = await convertLinesToStockUnits(orderData.items)
+  const stockItems: CartItem[] = lines.map(({ conversion, ...item }) => ({
+    ...item,
+    unit: undefined,
+    quantity: conversion.quantity,
+    unit_price: conversion.stock_unit_price ?? item.unit_price,
+  }))
+
+  // Free up stock held by unpaid orders that have timed out
+  await releaseExpiredReservations()
+
   // Check inventory availability
-  for (const item of orderData.items) {
+  for (const item of stockItems) {
     const { data: product } = await supabase
       .from("products")
-      .select("inventory_quantity, track_inventory, status")
+      .select("inventory_quantity, reserved_quantity, track_inventory, status")
       .eq("id", item.product_id)
       .single()
 
@@ -130,7 +167,13 @@ export async function createOrder(orderData: CreateOrderData): Promise<Order> {
       throw new Error(`Product ${item.product_name} is not available`)
     }
 
-    if (product.track_inventory && product.inventory_quantity < item.quantity) {
+    // A kit can also be built from its components, so it is available beyond its own stock
+    const kitAvailability = await getKitAvailability(item.product_id)
+    const available = kitAvailability
+      ? kitAvailability.available
+      : product.inventory_quantity - (product.reserved_quantity || 0)
+
+    if (product.track_inventory && available < item.quantity) {
       throw new Error(`Insufficient inventory for ${item.product_name}`)
     }
   }
@@ -173,13 +216,17 @@ export async function createOrder(orderData: CreateOrderData): Promise<Order> {
   }
 
   // Create order items
-  const orderItems = orderData.items.map((item) => ({
+  const orderItems = lines.map(({ conversion, ...item }) => ({
     order_id: order.id,
     product_id: item.product_id,
     variant_id: item.variant_id,
-    quantity: item.quantity,
-    unit_price: item.unit_price,
+    quantity: conversion.quantity,
+    unit_price: conversion.stock_unit_price,
     total_price: item.unit_price * item.quantity,
+    unit: conversion.unit || null,
+    unit_factor: conversion.factor,
+    unit_quantity: conversion.unit_quantity,
+    unit_price_entered: item.unit_price,
     product_snapshot: {
       name: item.product_name,
       sku: item.product_sku,
@@ -187,7 +234,7 @@ export async function createOrder(orderData: CreateOrderData): Promise<Order> {
     },
   }))
 
-  const { error: itemsError } = await supabase.from("order_items").insert(orderItems)
+  const { data: createdItems, error: itemsError } = await supabase.from("order_items").insert(orderItems).select()
 
   if (itemsError) {
     // Rollback order creation
@@ -195,31 +242,129 @@ export async function createOrder(orderData: CreateOrderData): Promise<Order> {
     throw new Error(`Failed to create order items: ${itemsError.message}`)
   }
 
-  // Reserve inventory
-  for (const item of orderData.items) {
+  const items = (createdItems || []) as OrderItem[]
+
+  // Hold stock until payment instead of decrementing it; unpaid holds expire and are released
+  try {
+    await reserveOrderStock({ id: order.id, order_number: orderNumber }, items)
+  } catch (error) {
+    // Rollback order creation
+    await supabase.from("orders").delete().eq("id", order.id)
+    throw error
+  }
+
+  // Pick batches first-expiry-first-out; marked-down batches sell at their markdown price
+  const repricedItems: CartItem[] = []
+  for (const [index, item] of items.entries()) {
     try {
-      await adjustInventory(item.product_id, -item.quantity, `Reserved for order ${orderNumber}`)
+      const allocations = await allocateBatchesForOrderItem({
+        order_id: order.id,
+        order_number: orderNumber,
+        order_item_id: item.id,
+        product_id: item.product_id,
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+      })
+
+      if (!allocations.some((allocation) => allocation.markdown_id)) {
+        repricedItems.push(orderData.items[index])
+        continue
+      }
+
+      const lineTotal =
+        Math.round(
+          allocations.reduce((sum, allocation) => sum + allocation.quantity * Number(allocation.unit_price), 0) * 100,
+        ) / 100
+      repricedItems.push({ ...stockItems[index], unit_price: lineTotal / item.quantity })
+
+      const { error: repriceError } = await supabase
+        .from("order_items")
+        .update({ unit_price: Math.round((lineTotal / item.quantity) * 100) / 100, total_price: lineTotal })
+        .eq("id", item.id)
+
+      if (repriceError) {
+        throw new Error(repriceError.message)
+      }
     } catch (error) {
-      // Rollback order creation
+      // Rollback order creation and give the reserved stock back
+      await releaseOrderReservations(order.id, `Order ${orderNumber} rolled back`)
       await supabase.from("orders").delete().eq("id", order.id)
       throw new Error(`Failed to reserve inventory: ${error}`)
     }
   }
 
+  const repricedTotals = await calculateOrderTotals(repricedItems, orderData.shipping_method)
+  let placedOrder = order
+
+  if (repricedTotals.subtotal !== totals.subtotal) {
+    const { data: updatedOrder, error: totalsError } = await supabase
+      .from("orders")
+      .update({
+        subtotal: repricedTotals.subtotal,
+        tax_amount: repricedTotals.taxAmount,
+        shipping_amount: repricedTotals.shippingAmount,
+        total_amount: repricedTotals.totalAmount,
+      })
+      .eq("id", order.id)
+      .select()
+      .single()
+
+    if (totalsError) {
+      throw new Error(`Failed to update order totals: ${totalsError.message}`)
+    }
+    placedOrder = updatedOrder
+  }
+
+  await recordStatusChange(order.id, "order", null, "pending", { id: user.id, type: "user" }, {
+    reason: "Order created",
+  })
+
   // Log activity
   await supabase.from("activity_logs").insert({
     user_id: user.id,
     action: "order_created",
     resource_type: "order",
     resource_id: order.id,
-    new_values: { order_number: orderNumber, total_amount: totals.totalAmount },
+    new_values: { order_number: orderNumber, total_amount: placedOrder.total_amount },
   })
 
   revalidatePath("/admin/orders")
-  return order
+  return placedOrder
+}
+
+type ChangedByType = "system" | "user" | "admin" | "api"
+
+export interface StatusChangeOptions {
+  reason?: string
+  notes?: string
+}
+
+export interface OrderStatusHistoryEntry {
+  id: string
+  order_id: string
+  from_status: string | null
+  to_status: string
+  status_type: StatusType
+  reason?: string | null
+  notes?: string | null
+  changed_by?: string | null
+  changed_by_type: ChangedByType
+  metadata?: any
+  changed_at: string
 }
 
-export async function updateOrderStatus(orderId: string, status: Order["status"], notes?: string): Promise<Order> {
+interface StatusActor {
+  id: string
+  type: ChangedByType
+}
+
+const STATUS_COLUMNS: Record<StatusType, "status" | "payment_status" | "fulfillment_status"> = {
+  order: "status",
+  payment: "payment_status",
+  fulfillment: "fulfillment_status",
+}
+
+async function getStatusActor(): Promise<StatusActor> {
   const supabase = createClient()
 
   const {
@@ -230,74 +375,237 @@ export async function updateOrderStatus(orderId: string, status: Order["status"]
     throw new Error("Authentication required")
   }
 
-  // Get current order
-  const { data: currentOrder } = await supabase.from("orders").select("*").eq("id", orderId).single()
+  const { data: profile } = await supabase.from("profiles").select("role").eq("id", user.id).single()
 
-  if (!currentOrder) {
-    throw new Error("Order not found")
-  }
+  return { id: user.id, type: profile?.role && profile.role !== "customer" ? "admin" : "user" }
+}
 
-  const updateData: any = {
-    status,
-    updated_at: new Date().toISOString(),
-  }
-
-  // Set timestamp fields based on status
-  switch (status) {
-    case "confirmed":
-      updateData.processed_at = new Date().toISOString()
-      break
-    case "shipped":
-      updateData.shipped_at = new Date().toISOString()
-      updateData.fulfillment_status = "fulfilled"
-      break
-    case "delivered":
-      updateData.delivered_at = new Date().toISOString()
-      break
-    case "cancelled":
-      updateData.cancelled_at = new Date().toISOString()
-      // Restore inventory
-      const { data: orderItems } = await supabase
-        .from("order_items")
-        .select("product_id, quantity")
-        .eq("order_id", orderId)
-
-      if (orderItems) {
-        for (const item of orderItems) {
-          await adjustInventory(
-            item.product_id,
-            item.quantity,
-            `Restored from cancelled order ${currentOrder.order_number}`,
-          )
-        }
-      }
-      break
+async function recordStatusChange(
+  orderId: string,
+  statusType: StatusType,
+  from: string | null,
+  to: string,
+  actor: StatusActor,
+  options?: StatusChangeOptions,
+) {
+  const supabase = createClient()
+  const { error } = await supabase.from("order_status_history").insert({
+    order_id: orderId,
+    from_status: from,
+    to_status: to,
+    status_type: statusType,
+    reason: options?.reason || null,
+    notes: options?.notes || null,
+    changed_by: actor.id,
+    changed_by_type: actor.type,
+  })
+
+  if (error) {
+    console.error("Error recording order status change:", error)
   }
+}
 
-  if (notes) {
-    updateData.internal_notes = notes
+// Moves one status along the state machine. The update is conditional on the status read, so two people
+// making the same change (say, cancelling twice) cannot both apply its side effects
+async function applyTransition(
+  currentOrder: Order,
+  statusType: StatusType,
+  to: string,
+  actor: StatusActor,
+  options?: StatusChangeOptions,
+): Promise<Order> {
+  assertTransition(currentOrder, statusType, to)
+
+  const supabase = createClient()
+  const column = STATUS_COLUMNS[statusType]
+  const from = getStatus(currentOrder, statusType)
+  const now = new Date().toISOString()
+  const updateData: any = { [column]: to, updated_at: now }
+
+  if (statusType === "order") {
+    switch (to) {
+      case "confirmed":
+        updateData.processed_at = now
+        break
+      case "shipped":
+        updateData.shipped_at = now
+        break
+      case "delivered":
+        updateData.delivered_at = now
+        break
+      case "cancelled":
+        updateData.cancelled_at = now
+        break
+    }
+    if (options?.notes) {
+      updateData.internal_notes = options.notes
+    }
   }
 
-  const { data: order, error } = await supabase.from("orders").update(updateData).eq("id", orderId).select().single()
+  const { data: claimed, error } = await supabase
+    .from("orders")
+    .update(updateData)
+    .eq("id", currentOrder.id)
+    .eq(column, from)
+    .select()
 
   if (error) {
     throw new Error(`Failed to update order: ${error.message}`)
   }
+  if (!claimed || claimed.length === 0) {
+    throw new OrderConflictError("Order was updated by someone else. Reload and try again.")
+  }
+
+  let order: Order = claimed[0]
+
+  // Side effects
+  if (statusType === "order" && to === "cancelled") {
+    try {
+      await restoreCancelledOrderStock(currentOrder)
+    } catch (error) {
+      await supabase
+        .from("orders")
+        .update({ status: currentOrder.status, cancelled_at: null })
+        .eq("id", currentOrder.id)
+      throw error
+    }
+  }
+
+  if (statusType === "payment" && to === "paid") {
+    // Paid orders take their reserved stock out for good. A failed fulfilment leaves the stock as it was
+    // (see fulfillOrderReservations), so putting the payment status back is all there is to undo.
+    try {
+      await fulfillOrderReservations(currentOrder.id)
+    } catch (error) {
+      await supabase.from("orders").update({ payment_status: from }).eq("id", currentOrder.id)
+      throw error
+    }
+  }
+
+  await recordStatusChange(currentOrder.id, statusType, from, to, actor, options)
+
+  // Transitions that carry another status along with them
+  if (statusType === "order" && to === "refunded" && order.payment_status !== "refunded") {
+    order = await applyTransition(order, "payment", "refunded", actor, { reason: "Order refunded" })
+  }
+  if (statusType === "payment" && to === "paid" && order.status === "pending") {
+    order = await applyTransition(order, "order", "confirmed", actor, { reason: "Payment received" })
+  }
+
+  return order
+}
+
+// Held stock is simply released; stock already taken by payment (or by orders placed before reservations
+// existed) goes back in as an inbound movement
+async function restoreCancelledOrderStock(currentOrder: Order) {
+  const supabase = createClient()
+  const reason = `Restored from cancelled order ${currentOrder.order_number}`
+  await releaseOrderReservations(currentOrder.id, reason)
+
+  const reservations = await getOrderReservations(currentOrder.id)
+  const { data: orderItems } = await supabase
+    .from("order_items")
+    .select("product_id, quantity")
+    .eq("order_id", currentOrder.id)
+
+  const restores =
+    reservations.length > 0
+      ? reservations
+          .filter((reservation) => reservation.status === "fulfilled")
+          .map((reservation) => ({
+            product_id: reservation.product_id,
+            quantity: reservation.quantity_fulfilled,
+            // Back into the warehouse the reservation was fulfilled from, so its stock level follows the total
+            warehouse_id: reservation.warehouse_id,
+          }))
+      : orderItems || []
+
+  await applyStockChanges(
+    restores.map((item: { product_id: string; quantity: number; warehouse_id?: string }) => ({
+      product_id: item.product_id,
+      quantity_change: item.quantity,
+      warehouse_id: item.warehouse_id,
+      reason,
+      reference_type: "order",
+      reference_id: currentOrder.id,
+    })),
+  )
+}
+
+export async function transitionOrder(
+  orderId: string,
+  statusType: StatusType,
+  to: string,
+  options?: StatusChangeOptions,
+): Promise<Order> {
+  const supabase = createClient()
+  const actor = await getStatusActor()
+
+  // Get current order
+  const { data: currentOrder } = await supabase.from("orders").select("*").eq("id", orderId).single()
+
+  if (!currentOrder) {
+    throw new Error("Order not found")
+  }
+
+  const order = await applyTransition(currentOrder, statusType, to, actor, options)
 
   // Log activity
   await supabase.from("activity_logs").insert({
-    user_id: user.id,
+    user_id: actor.id,
     action: "order_status_updated",
     resource_type: "order",
     resource_id: orderId,
-    old_values: { status: currentOrder.status },
-    new_values: { status, notes },
+    old_values: { [STATUS_COLUMNS[statusType]]: getStatus(currentOrder, statusType) },
+    new_values: { [STATUS_COLUMNS[statusType]]: to, reason: options?.reason, notes: options?.notes },
   })
 
   revalidatePath("/admin/orders")
+  revalidatePath(`/admin/orders/${orderId}`)
   return order
 }
 
+export async function updateOrderStatus(
+  orderId: string,
+  status: Order["status"],
+  notes?: string,
+  reason?: string,
+): Promise<Order> {
+  return transitionOrder(orderId, "order", status, { notes, reason })
+}
+
+export async function getOrderActions(orderId: string): Promise<AvailableOrderAction[]> {
+  const supabase = createClient()
+
+  const { data: order, error } = await supabase
+    .from("orders")
+    .select("status, payment_status, fulfillment_status")
+    .eq("id", orderId)
+    .single()
+
+  if (error || !order) {
+    throw new Error("Order not found")
+  }
+
+  return getAvailableOrderActions(order)
+}
+
+export async function getOrderStatusHistory(orderId: string): Promise<OrderStatusHistoryEntry[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("order_status_history")
+    .select("*")
+    .eq("order_id", orderId)
+    .order("changed_at", { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch order status history: ${error.message}`)
+  }
+
+  return data || []
+}
+
 export async function getOrders(filters?: {
   status?: string
   payment_status?: string
@@ -419,14 +727,7 @@ export async function getOrdersByUser(userId: string) {
 
 export async function processPayment(orderId: string, paymentData: any) {
   const supabase = createClient()
-
-  const {
-    data: { user },
-    error: userError,
-  } = await supabase.auth.getUser()
-  if (userError || !user) {
-    throw new Error("Authentication required")
-  }
+  const actor = await getStatusActor()
 
   // Get order
   const { data: order } = await supabase.from("orders").select("*").eq("id", orderId).single()
@@ -435,6 +736,11 @@ export async function processPayment(orderId: string, paymentData: any) {
     throw new Error("Order not found")
   }
 
+  const completed = paymentData.status === "completed"
+  if (completed) {
+    assertTransition(order, "payment", "paid")
+  }
+
   // Create payment record
   const { data: payment, error: paymentError } = await supabase
     .from("payments")
@@ -447,7 +753,7 @@ export async function processPayment(orderId: string, paymentData: any) {
       gateway_transaction_id: paymentData.transaction_id,
       status: paymentData.status,
       gateway_response: paymentData.response,
-      processed_at: paymentData.status === "completed" ? new Date().toISOString() : null,
+      processed_at: completed ? new Date().toISOString() : null,
     })
     .select()
     .single()
@@ -456,18 +762,14 @@ export async function processPayment(orderId: string, paymentData: any) {
     throw new Error(`Failed to create payment: ${paymentError.message}`)
   }
 
-  // Update order payment status
-  const paymentStatus = paymentData.status === "completed" ? "paid" : "failed"
-  const orderStatus = paymentData.status === "completed" ? "confirmed" : "pending"
-
-  await supabase
-    .from("orders")
-    .update({
-      payment_status: paymentStatus,
-      status: orderStatus,
-      processed_at: paymentData.status === "completed" ? new Date().toISOString() : null,
-    })
-    .eq("id", orderId)
+  // A captured payment confirms a pending order; a failed attempt leaves the order where it was
+  const system: StatusActor = { id: actor.id, type: "system" }
+  const reason = `Payment ${paymentData.transaction_id || payment.id} ${paymentData.status}`
+  if (completed) {
+    await applyTransition(order, "payment", "paid", system, { reason })
+  } else if (!getTransitionError(order, "payment", "failed")) {
+    await applyTransition(order, "payment", "failed", system, { reason })
+  }
 
   revalidatePath("/admin/orders")
   return payment
@@ -2,6 +2,7 @@
 
 import { createClient } from "@/lib/supabase/server"
 import { revalidatePath } from "next/cache"
+import { applyStockChange } from "./inventory.service"
 
 export interface Product {
   id: string
@@ -30,6 +31,11 @@ export interface Product {
   tax_class?: string
   seo_title?: string
   seo_description?: string
+  abc_class?: "A" | "B" | "C" | null
+  xyz_class?: "X" | "Y" | "Z" | null
+  cycle_count_frequency_days?: number | null
+  safety_stock?: number | null
+  reorder_review_days?: number | null
   created_at: string
   updated_at: string
   created_by: string
@@ -192,6 +198,8 @@ export async function getProducts(filters?: {
   category_id?: string
   status?: string
   search?: string
+  abc_class?: string
+  xyz_class?: string
   page?: number
   limit?: number
 }) {
@@ -221,6 +229,14 @@ export async function getProducts(filters?: {
     )
   }
 
+  if (filters?.abc_class) {
+    query = query.eq("abc_class", filters.abc_class)
+  }
+
+  if (filters?.xyz_class) {
+    query = query.eq("xyz_class", filters.xyz_class)
+  }
+
   // Pagination
   const page = filters?.page || 1
   const limit = filters?.limit || 20
@@ -310,63 +326,22 @@ export async function getCategories() {
   return data || []
 }
 
-export async function adjustInventory(productId: string, quantity: number, reason: string) {
-  const supabase = createClient()
-
-  const {
-    data: { user },
-    error: userError,
-  } = await supabase.auth.getUser()
-  if (userError || !user) {
-    throw new Error("Authentication required")
-  }
-
-  // Get current product
-  const { data: product } = await supabase
-    .from("products")
-    .select("inventory_quantity, track_inventory")
-    .eq("id", productId)
-    .single()
-
-  if (!product) {
-    throw new Error("Product not found")
-  }
-
-  if (!product.track_inventory) {
-    throw new Error("Inventory tracking is disabled for this product")
-  }
-
-  const newQuantity = product.inventory_quantity + quantity
-
-  if (newQuantity < 0) {
-    throw new Error("Insufficient inventory")
-  }
-
-  // Update product inventory
-  const { error: updateError } = await supabase
-    .from("products")
-    .update({ inventory_quantity: newQuantity })
-    .eq("id", productId)
-
-  if (updateError) {
-    throw new Error(`Failed to update inventory: ${updateError.message}`)
-  }
-
-  // Record inventory movement
-  const { error: movementError } = await supabase.from("inventory_movements").insert({
+export async function adjustInventory(
+  productId: string,
+  quantity: number,
+  reason: string,
+  options?: { expected_quantity?: number; reference_type?: string; reference_id?: string },
+) {
+  // Conditional update in the database: never oversells and never loses a concurrent change
+  await applyStockChange({
     product_id: productId,
-    movement_type: quantity > 0 ? "in" : "out",
-    quantity: Math.abs(quantity),
+    quantity_change: quantity,
     reason,
-    created_by: user.id,
+    require_tracking: true,
+    ...options,
   })
 
-  if (movementError) {
-    throw new Error(`Failed to record inventory movement: ${movementError.message}`)
-  }
-
   revalidatePath("/admin/products")
-  revalidatePath("/admin/inventory")
 }
 
 export async function getInventoryMovements(productId?: string) {
@@ -1,4 +1,14 @@
 import { createBrowserClient } from "@supabase/ssr"
+import { getDemandForecasts, getLowStockAlerts } from "./inventory.service"
+import { createBatch } from "./batch.service"
+import { convertLinesToStockUnits, getProductUnitConfigs } from "./uom.service"
+import { getDefaultUnit, getUnitFactor, toWholeUnits } from "@/lib/inventory/uom"
+import {
+  buildReorderSuggestions,
+  type ReorderCandidate,
+  type SupplierOption,
+  type SupplierSuggestion,
+} from "@/lib/inventory/replenishment"
 
 const supabase = createBrowserClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!)
 
@@ -47,11 +57,24 @@ export const purchaseService = {
 
     if (poError) throw poError
 
-    // Insert purchase order items
-    const items = orderData.items.map((item: any) => ({
-      ...item,
-      purchase_order_id: po.id,
-    }))
+    // Lines can be ordered in any of the product's units; quantity and price are kept in the stock unit
+    const lines = await convertLinesToStockUnits(
+      orderData.items.map((item: any) => ({ ...item, quantity: item.quantity_ordered })),
+    )
+    const items = orderData.items.map((item: any, index: number) => {
+      const { conversion } = lines[index]
+      return {
+        ...item,
+        purchase_order_id: po.id,
+        quantity_ordered: conversion.quantity,
+        unit_price: conversion.stock_unit_price,
+        total_price: item.total_price ?? conversion.line_total ?? 0,
+        unit: conversion.unit || null,
+        unit_factor: conversion.factor,
+        unit_quantity: conversion.unit_quantity,
+        unit_price_entered: conversion.unit_price,
+      }
+    })
 
     const { error: itemsError } = await supabase.from("purchase_order_items").insert(items)
 
@@ -68,29 +91,33 @@ export const purchaseService = {
   },
 
   async receivePurchaseOrder(id: string, receivedItems: any[]) {
+    // Receipts can be counted in any of the product's units (cartons at the dock); stock is in stock units
+    const received = await convertLinesToStockUnits(
+      receivedItems.map((item) => ({ ...item, quantity: item.received_quantity })),
+    )
+
     // Update received quantities
-    for (const item of receivedItems) {
+    for (const { conversion, ...item } of received) {
       await supabase
         .from("purchase_order_items")
         .update({
-          received_quantity: item.received_quantity,
+          received_quantity: conversion.quantity,
           batch_number: item.batch_number,
           expiry_date: item.expiry_date,
         })
         .eq("id", item.id)
 
-      // Update inventory
-      await supabase.from("inventory_batches").insert([
-        {
-          product_id: item.product_id,
-          batch_number: item.batch_number,
-          quantity: item.received_quantity,
-          purchase_price: item.unit_price,
-          expiry_date: item.expiry_date,
-          supplier_id: item.supplier_id,
-          purchase_order_id: id,
-        },
-      ])
+      // Received stock goes into quarantine as a batch of this order, which spreads the order's charges
+      // over it as landed cost
+      await createBatch({
+        product_id: item.product_id,
+        batch_number: item.batch_number,
+        quantity_received: conversion.quantity,
+        purchase_price: conversion.stock_unit_price ?? item.unit_price,
+        expiry_date: item.expiry_date,
+        supplier_id: item.supplier_id,
+        purchase_order_id: id,
+      })
     }
 
     // Check if all items are fully received
@@ -140,4 +167,220 @@ export const purchaseService = {
     const lastNumber = Number.parseInt(lastPO.po_number.split("-")[1])
     return `PO-${String(lastNumber + 1).padStart(3, "0")}`
   },
+
+  // Builds one suggested order per supplier from low stock alerts and forecast stockouts
+  async getReorderSuggestions() {
+    const [lowStockAlerts, { forecasts }] = await Promise.all([
+      getLowStockAlerts(),
+      getDemandForecasts({ min_probability: 0.5 }),
+    ])
+
+    const signals = new Map<string, { available: number; daily_demand?: number; reason: ReorderCandidate["reason"] }>()
+    // Warehouse-scoped alerts are a transfer problem, purchasing looks at total stock
+    for (const alert of lowStockAlerts.filter((alert) => !alert.warehouse_id)) {
+      signals.set(alert.product_id, { available: alert.current_stock, reason: "low_stock" })
+    }
+    for (const forecast of forecasts) {
+      if (!forecast.stockout_date) continue
+      const signal = signals.get(forecast.product_id)
+      signals.set(forecast.product_id, {
+        available: signal?.available ?? forecast.current_stock,
+        daily_demand: forecast.daily_average,
+        reason: signal?.reason || "forecast",
+      })
+    }
+
+    const productIds = Array.from(signals.keys())
+    if (productIds.length === 0) return { suggestions: [], unsourced: [] }
+
+    const [
+      { data: products, error: productsError },
+      { data: supplierProducts, error: suppliersError },
+      { data: openItems, error: openError },
+    ] = await Promise.all([
+      supabase
+        .from("homeopathy_products")
+        .select("id, name, sku, reorder_point, maximum_stock_level")
+        .in("id", productIds),
+      supabase
+        .from("supplier_products")
+        .select(
+          "supplier_id, product_id, is_preferred, lead_time_days, minimum_order_quantity, last_purchase_price, suppliers!inner(name, is_active)",
+        )
+        .in("product_id", productIds)
+        .eq("is_active", true)
+        .eq("suppliers.is_active", true),
+      supabase
+        .from("purchase_order_items")
+        .select("product_id, quantity_ordered, quantity_received, purchase_orders!inner(status)")
+        .in("product_id", productIds)
+        .in("purchase_orders.status", ["draft", "sent", "confirmed", "partial"]),
+    ])
+
+    if (productsError) throw productsError
+    if (suppliersError) throw suppliersError
+    if (openError) throw openError
+
+    const onOrder = new Map<string, number>()
+    for (const item of openItems || []) {
+      const outstanding = Math.max(item.quantity_ordered - (item.quantity_received || 0), 0)
+      onOrder.set(item.product_id, (onOrder.get(item.product_id) || 0) + outstanding)
+    }
+
+    const candidates: ReorderCandidate[] = (products || []).map((product) => {
+      const signal = signals.get(product.id)!
+      return {
+        product_id: product.id,
+        product_name: product.name,
+        sku: product.sku,
+        available: signal.available,
+        on_order: onOrder.get(product.id) || 0,
+        reorder_point: product.reorder_point || 0,
+        maximum_stock_level: product.maximum_stock_level || 0,
+        daily_demand: signal.daily_demand,
+        reason: signal.reason,
+      }
+    })
+
+    const options: SupplierOption[] = (supplierProducts || []).map((option: any) => ({
+      supplier_id: option.supplier_id,
+      supplier_name: option.suppliers?.name || "Unknown Supplier",
+      product_id: option.product_id,
+      is_preferred: option.is_preferred,
+      lead_time_days: option.lead_time_days || 7,
+      minimum_order_quantity: option.minimum_order_quantity || 1,
+      last_purchase_price: option.last_purchase_price,
+    }))
+
+    return buildReorderSuggestions(candidates, options)
+  },
+
+  // Raises the reviewed suggestions as draft purchase orders, one per supplier. Suggested stock-unit
+  // quantities are ordered in each product's purchase unit, rounded up to whole packs.
+  async createDraftPurchaseOrders(suggestions: SupplierSuggestion[]) {
+    const created = []
+    const unitConfigs = await getProductUnitConfigs(
+      suggestions.flatMap((suggestion) => suggestion.lines.map((line) => line.product_id)),
+    )
+
+    for (const suggestion of suggestions) {
+      const lines = suggestion.lines.filter((line) => line.quantity > 0)
+      if (lines.length === 0) continue
+
+      const orderDate = new Date()
+      const expectedDelivery = new Date(orderDate)
+      expectedDelivery.setDate(expectedDelivery.getDate() + suggestion.lead_time_days)
+      const orderLines = lines.map((line) => {
+        const config = unitConfigs.get(line.product_id)
+        if (!config) return { ...line, unit: undefined }
+        const unit = getDefaultUnit(config, "purchase")
+        return {
+          ...line,
+          unit,
+          quantity: toWholeUnits(config, line.quantity, unit),
+          unit_price: line.unit_price * getUnitFactor(config, unit),
+        }
+      })
+      const totalAmount = orderLines.reduce((sum, line) => sum + line.quantity * line.unit_price, 0)
+
+      const po = await this.createPurchaseOrder({
+        po_number: await this.generatePONumber(),
+        supplier_id: suggestion.supplier_id,
+        order_date: orderDate.toISOString().split("T")[0],
+        expected_delivery: expectedDelivery.toISOString().split("T")[0],
+        total_amount: totalAmount,
+        tax_amount: 0,
+        grand_total: totalAmount,
+        notes: "Generated from reorder suggestions",
+        items: orderLines.map((line) => ({
+          product_id: line.product_id,
+          unit: line.unit,
+          quantity_ordered: line.quantity,
+          unit_price: line.unit_price,
+          total_price: line.quantity * line.unit_price,
+        })),
+      })
+      created.push(po)
+    }
+
+    return created
+  },
+
+  // Buyers can change quantities and prices until the order is approved; a zero quantity drops the line.
+  // Quantities and prices are in the unit the line was ordered in.
+  async updateDraftPurchaseOrder(
+    id: string,
+    items: Array<{ id: string; quantity_ordered: number; unit_price: number }>,
+  ) {
+    const { data: po, error: poError } = await supabase
+      .from("purchase_orders")
+      .select("status, purchase_order_items(id, product_id, unit)")
+      .eq("id", id)
+      .single()
+
+    if (poError) throw poError
+    if (po.status !== "draft") throw new Error("Only draft purchase orders can be edited")
+
+    const kept = items.filter((item) => item.quantity_ordered > 0)
+    const lines = await convertLinesToStockUnits(
+      kept.map((item) => {
+        const line = po.purchase_order_items.find((candidate: any) => candidate.id === item.id)
+        if (!line) throw new Error("Purchase order line not found")
+        return {
+          product_id: line.product_id,
+          unit: line.unit,
+          quantity: item.quantity_ordered,
+          unit_price: item.unit_price,
+        }
+      }),
+    )
+
+    for (const item of items) {
+      const index = kept.indexOf(item)
+      const { error } =
+        index >= 0
+          ? await supabase
+              .from("purchase_order_items")
+              .update({
+                quantity_ordered: lines[index].conversion.quantity,
+                unit_price: lines[index].conversion.stock_unit_price,
+                total_price: item.quantity_ordered * item.unit_price,
+                unit_quantity: item.quantity_ordered,
+                unit_price_entered: item.unit_price,
+              })
+              .eq("id", item.id)
+          : await supabase.from("purchase_order_items").delete().eq("id", item.id)
+
+      if (error) throw error
+    }
+
+    const totalAmount = items.reduce((sum, item) => sum + Math.max(item.quantity_ordered, 0) * item.unit_price, 0)
+
+    const { data, error } = await supabase
+      .from("purchase_orders")
+      .update({ subtotal: totalAmount, total_amount: totalAmount })
+      .eq("id", id)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  },
+
+  async approvePurchaseOrder(id: string) {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    const { data, error } = await supabase
+      .from("purchase_orders")
+      .update({ status: "sent", approved_by: user?.id, approved_at: new Date().toISOString() })
+      .eq("id", id)
+      .eq("status", "draft")
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  },
 }
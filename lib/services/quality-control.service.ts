@@ -0,0 +1,219 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { revalidatePath } from "next/cache"
+import { toStockError } from "@/lib/inventory/stock-errors"
+
+export type InspectionStatus = "pending" | "passed" | "partial" | "failed"
+export type SupplierReturnStatus = "queued" | "dispatched" | "credited" | "cancelled"
+
+export interface QcChecklist {
+  label_ok: boolean
+  seal_ok: boolean
+  expiry_ok: boolean
+  breakage_found: boolean
+  sample_count: number
+}
+
+export interface BatchInspection extends Partial<QcChecklist> {
+  id: string
+  batch_id: string
+  batch_number: string
+  product_name: string
+  supplier_name: string
+  expiry_date: string
+  status: InspectionStatus
+  quantity_received: number
+  quantity_accepted?: number | null
+  quantity_rejected?: number | null
+  rejection_reason?: string | null
+  notes?: string | null
+  signed_off_at?: string | null
+  created_at: string
+}
+
+export interface InspectionSignOff extends QcChecklist {
+  quantity_accepted: number
+  rejection_reason?: string
+  notes?: string
+}
+
+export interface SupplierReturn {
+  id: string
+  batch_id: string
+  batch_number: string
+  product_name: string
+  supplier_id?: string | null
+  supplier_name: string
+  quantity: number
+  unit_cost?: number | null
+  reason: string
+  status: SupplierReturnStatus
+  debit_note_number?: string | null
+  dispatched_at?: string | null
+  credited_at?: string | null
+  created_at: string
+}
+
+function revalidateQcPaths() {
+  revalidatePath("/admin/inventory")
+  revalidatePath("/admin/inventory/batches")
+  revalidatePath("/admin/inventory/quality-control")
+}
+
+export async function getBatchInspections(filters?: { status?: InspectionStatus }): Promise<BatchInspection[]> {
+  const supabase = createClient()
+
+  let query = supabase.from("batch_qc_inspections").select(`
+      *,
+      product_batches (
+        batch_number,
+        expiry_date,
+        homeopathy_products (
+          name
+        ),
+        suppliers (
+          name
+        )
+      )
+    `)
+
+  if (filters?.status) {
+    query = query.eq("status", filters.status)
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: filters?.status === "pending" })
+
+  if (error) {
+    throw new Error(`Failed to fetch inspections: ${error.message}`)
+  }
+
+  return (data || []).map((inspection: any) => ({
+    ...inspection,
+    batch_number: inspection.product_batches?.batch_number,
+    expiry_date: inspection.product_batches?.expiry_date,
+    product_name: inspection.product_batches?.homeopathy_products?.name || "Unknown Product",
+    supplier_name: inspection.product_batches?.suppliers?.name || "Unknown Supplier",
+  }))
+}
+
+// Accepted units become available on the batch; anything rejected is queued for return to the supplier
+export async function signOffInspection(id: string, signOff: InspectionSignOff) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const { data, error } = await supabase.rpc("sign_off_batch_inspection", {
+    p_inspection_id: id,
+    p_checklist: {
+      label_ok: signOff.label_ok,
+      seal_ok: signOff.seal_ok,
+      expiry_ok: signOff.expiry_ok,
+      breakage_found: signOff.breakage_found,
+      sample_count: signOff.sample_count,
+    },
+    p_quantity_accepted: signOff.quantity_accepted,
+    p_rejection_reason: signOff.rejection_reason ?? null,
+    p_notes: signOff.notes ?? null,
+    p_user_id: user.id,
+  })
+
+  if (error) {
+    throw toStockError(error, "sign off inspection")
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "batch_inspection_signed_off",
+    resource_type: "product_batch",
+    resource_id: data.batch_id,
+    new_values: { ...signOff, status: data.status },
+  })
+
+  revalidateQcPaths()
+  return data
+}
+
+export async function getSupplierReturnQueue(filters?: { status?: SupplierReturnStatus }): Promise<SupplierReturn[]> {
+  const supabase = createClient()
+
+  let query = supabase.from("supplier_return_queue").select(`
+      *,
+      product_batches (
+        batch_number,
+        homeopathy_products (
+          name
+        )
+      ),
+      suppliers (
+        name
+      )
+    `)
+
+  if (filters?.status) {
+    query = query.eq("status", filters.status)
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch supplier returns: ${error.message}`)
+  }
+
+  return (data || []).map((supplierReturn: any) => ({
+    ...supplierReturn,
+    batch_number: supplierReturn.product_batches?.batch_number,
+    product_name: supplierReturn.product_batches?.homeopathy_products?.name || "Unknown Product",
+    supplier_name: supplierReturn.suppliers?.name || "Unknown Supplier",
+  }))
+}
+
+export async function updateSupplierReturnStatus(
+  id: string,
+  status: Exclude<SupplierReturnStatus, "queued">,
+  debitNoteNumber?: string,
+) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from("supplier_return_queue")
+    .update({
+      status,
+      ...(debitNoteNumber ? { debit_note_number: debitNoteNumber } : {}),
+      ...(status === "dispatched" ? { dispatched_at: now } : {}),
+      ...(status === "credited" ? { credited_at: now } : {}),
+    })
+    .eq("id", id)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to update supplier return: ${error.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: `supplier_return_${status}`,
+    resource_type: "supplier_return",
+    resource_id: id,
+    new_values: { status, debit_note_number: debitNoteNumber },
+  })
+
+  revalidateQcPaths()
+  return data
+}
@@ -122,8 +122,8 @@ export class RealtimeService {
       const { eventType, new: newRecord, old: oldRecord } = payload
 
       if (eventType === "UPDATE") {
-        const oldStock = oldRecord.stock_quantity
-        const newStock = newRecord.stock_quantity
+        const oldStock = oldRecord.inventory_quantity
+        const newStock = newRecord.inventory_quantity
 
         if (oldStock !== newStock) {
           this.emitEvent("inventory_updated", {
@@ -132,18 +132,6 @@ export class RealtimeService {
             newStock,
             product: newRecord,
           })
-
-          // Check for low stock alerts
-          const threshold = newRecord.low_stock_threshold || 10
-          if (newStock <= threshold && oldStock > threshold) {
-            this.emitEvent("low_stock_alert", newRecord)
-            this.createNotification({
-              title: "Low Stock Alert",
-              message: `${newRecord.name} is running low (${newStock} remaining)`,
-              type: "warning",
-              actionUrl: `/admin/products/${newRecord.id}`,
-            })
-          }
         }
       }
 
@@ -151,6 +139,25 @@ export class RealtimeService {
     })
   }
 
+  // Subscribe to stock alerts raised by the alert rules (evaluated in the database on every stock change)
+  subscribeToStockAlerts(callback: (alert: any, event: string) => void) {
+    return this.subscribeToTable("stock_alerts", (payload) => {
+      const { eventType, new: newRecord, old: oldRecord } = payload
+
+      if (eventType === "INSERT") {
+        this.emitEvent("low_stock_alert", newRecord)
+        this.createNotification({
+          title: newRecord.severity === "critical" ? "Critical Stock Alert" : "Low Stock Alert",
+          message: newRecord.message,
+          type: newRecord.severity === "critical" ? "error" : "warning",
+          actionUrl: `/admin/inventory/alerts`,
+        })
+      }
+
+      callback(newRecord || oldRecord, eventType)
+    })
+  }
+
   // Subscribe to user activity
   subscribeToUserActivity(userId: string, callback: (activity: any) => void) {
     return this.subscribeToTable(
@@ -286,11 +293,8 @@ export class RealtimeService {
       // Active users (mock - would need session tracking)
       Promise.resolve({ count: Math.floor(Math.random() * 50) + 10 }),
 
-      // Low stock alerts
-      this.supabase
-        .from("products")
-        .select("id", { count: "exact" })
-        .lt("stock_quantity", 10),
+      // Unresolved stock alerts
+      this.supabase.from("stock_alerts").select("id", { count: "exact" }).in("status", ["open", "acknowledged"]),
     ])
 
     const todayRevenue = revenue.data?.reduce((sum, order) => sum + order.total_amount, 0) || 0
@@ -0,0 +1,637 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { revalidatePath } from "next/cache"
+import { toStockError } from "@/lib/inventory/stock-errors"
+import { allocateBatchesForOrderItem } from "./batch.service"
+import { applyStockChange } from "./inventory.service"
+
+export type RecallStatus = "open" | "in_progress" | "closed"
+export type RecallSeverity = "critical" | "major" | "minor"
+export type RecallReturnType = "customer_return" | "supplier_return" | "destroyed"
+
+export interface BatchRecall {
+  id: string
+  recall_number: string
+  batch_id: string
+  product_id: string
+  batch_number: string
+  product_name?: string
+  reason: string
+  manufacturer_reference?: string | null
+  severity: RecallSeverity
+  status: RecallStatus
+  previous_quality_status?: string | null
+  quantity_in_stock: number
+  quantity_distributed: number
+  quantity_returned_by_customers: number
+  quantity_returned_to_supplier: number
+  quantity_destroyed: number
+  opened_at: string
+  closed_at?: string | null
+  closure_notes?: string | null
+}
+
+export interface RecallRecipient {
+  id: string
+  recall_id: string
+  order_id: string
+  order_item_id?: string | null
+  order_number: string
+  customer_id?: string | null
+  customer_name?: string | null
+  customer_email?: string | null
+  customer_phone?: string | null
+  customer_type?: string | null
+  is_doctor: boolean
+  allocation_status: "shipped" | "reallocated" | "held"
+  quantity_supplied: number
+  quantity_returned: number
+  notice_status: "pending" | "sent" | "acknowledged" | "not_required"
+  notice_channel?: string | null
+  notice_sent_at?: string | null
+  acknowledged_at?: string | null
+  notes?: string | null
+}
+
+export interface RecallReturn {
+  id: string
+  recall_id: string
+  recipient_id?: string | null
+  return_type: RecallReturnType
+  quantity: number
+  reference_number?: string | null
+  notes?: string | null
+  created_at: string
+}
+
+export interface InitiateRecallData {
+  batch_id: string
+  reason: string
+  severity: RecallSeverity
+  manufacturer_reference?: string
+}
+
+function revalidateRecallPaths() {
+  revalidatePath("/admin/inventory")
+  revalidatePath("/admin/inventory/batches")
+  revalidatePath("/admin/inventory/recalls")
+}
+
+function generateRecallNumber() {
+  const timestamp = Date.now().toString().slice(-6)
+  const random = Math.floor(Math.random() * 1000)
+    .toString()
+    .padStart(3, "0")
+  return `RCL-${timestamp}-${random}`
+}
+
+function toRecipientName(order: any) {
+  const profile = order.profiles
+  const name = [profile?.first_name, profile?.last_name].filter(Boolean).join(" ")
+  if (name) return name
+  const billing = order.billing_address
+  return [billing?.first_name, billing?.last_name].filter(Boolean).join(" ") || billing?.name || null
+}
+
+// Allocations shipped before split shipments existed have no shipped count; all of them went out
+function getShippedUnits(allocation: any): number {
+  return allocation.status === "shipped" ? allocation.quantity : allocation.quantity_shipped || 0
+}
+
+export async function getRecalls(filters?: { status?: RecallStatus; batch_id?: string }): Promise<BatchRecall[]> {
+  const supabase = createClient()
+
+  let query = supabase.from("batch_recalls").select(`
+      *,
+      homeopathy_products (
+        name
+      )
+    `)
+
+  if (filters?.status) {
+    query = query.eq("status", filters.status)
+  }
+
+  if (filters?.batch_id) {
+    query = query.eq("batch_id", filters.batch_id)
+  }
+
+  const { data, error } = await query.order("opened_at", { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch recalls: ${error.message}`)
+  }
+
+  return (data || []).map((recall: any) => ({
+    ...recall,
+    product_name: recall.homeopathy_products?.name || "Unknown Product",
+  }))
+}
+
+export async function getRecall(id: string) {
+  const supabase = createClient()
+
+  const { data: recall, error } = await supabase
+    .from("batch_recalls")
+    .select(`
+      *,
+      homeopathy_products (
+        name
+      ),
+      product_batches (
+        expiry_date,
+        quantity_available,
+        quality_status,
+        suppliers (
+          name
+        )
+      )
+    `)
+    .eq("id", id)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to fetch recall: ${error.message}`)
+  }
+
+  const [{ data: recipients, error: recipientsError }, { data: returns, error: returnsError }] = await Promise.all([
+    supabase
+      .from("batch_recall_recipients")
+      .select("*")
+      .eq("recall_id", id)
+      .order("is_doctor", { ascending: false })
+      .order("order_number"),
+    supabase.from("batch_recall_returns").select("*").eq("recall_id", id).order("created_at", { ascending: false }),
+  ])
+
+  if (recipientsError) {
+    throw new Error(`Failed to fetch recall recipients: ${recipientsError.message}`)
+  }
+
+  if (returnsError) {
+    throw new Error(`Failed to fetch recall returns: ${returnsError.message}`)
+  }
+
+  return {
+    recall: {
+      ...recall,
+      product_name: recall.homeopathy_products?.name || "Unknown Product",
+      supplier_name: recall.product_batches?.suppliers?.name || "Unknown Supplier",
+      expiry_date: recall.product_batches?.expiry_date,
+      quantity_quarantined: recall.product_batches?.quantity_available || 0,
+    } as BatchRecall & { supplier_name: string; expiry_date?: string; quantity_quarantined: number },
+    recipients: (recipients || []) as RecallRecipient[],
+    returns: (returns || []) as RecallReturn[],
+  }
+}
+
+// Quarantines the batch, takes its shelf stock out of sellable inventory, moves units that have not
+// shipped yet onto other batches, and records everyone who already received units
+export async function initiateBatchRecall(recallData: InitiateRecallData) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const { data: batch, error: batchError } = await supabase
+    .from("product_batches")
+    .select("id, product_id, batch_number, quantity_available, quality_status, purchase_price")
+    .eq("id", recallData.batch_id)
+    .single()
+
+  if (batchError) {
+    throw new Error(`Failed to fetch batch: ${batchError.message}`)
+  }
+
+  const { data: allocations, error: allocationsError } = await supabase
+    .from("order_item_batches")
+    .select(`
+      *,
+      orders (
+        id,
+        order_number,
+        user_id,
+        customer_email,
+        customer_phone,
+        customer_type,
+        billing_address,
+        profiles (
+          first_name,
+          last_name,
+          customer_types (
+            code
+          )
+        )
+      )
+    `)
+    .eq("batch_id", batch.id)
+    .neq("status", "released")
+
+  if (allocationsError) {
+    throw new Error(`Failed to fetch batch allocations: ${allocationsError.message}`)
+  }
+
+  const { data: recall, error } = await supabase
+    .from("batch_recalls")
+    .insert({
+      recall_number: generateRecallNumber(),
+      batch_id: batch.id,
+      product_id: batch.product_id,
+      batch_number: batch.batch_number,
+      reason: recallData.reason,
+      severity: recallData.severity,
+      manufacturer_reference: recallData.manufacturer_reference,
+      previous_quality_status: batch.quality_status,
+      quantity_in_stock: batch.quantity_available,
+      quantity_distributed: (allocations || []).reduce(
+        (sum: number, allocation: any) => sum + getShippedUnits(allocation),
+        0,
+      ),
+      opened_by: user.id,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create recall: ${error.message}`)
+  }
+
+  // Quarantined batches are skipped by FEFO allocation from here on
+  const { error: quarantineError } = await supabase
+    .from("product_batches")
+    .update({ quality_status: "quarantine", updated_at: new Date().toISOString() })
+    .eq("id", batch.id)
+
+  if (quarantineError) {
+    throw new Error(`Failed to quarantine batch: ${quarantineError.message}`)
+  }
+
+  if (batch.quantity_available > 0) {
+    await applyStockChange({
+      product_id: batch.product_id,
+      quantity_change: -batch.quantity_available,
+      movement_type: "adjustment",
+      reason: `Batch ${batch.batch_number} quarantined for recall ${recall.recall_number}`,
+      reference_type: "BATCH_RECALL",
+      reference_id: recall.id,
+    })
+  }
+
+  const recipients = []
+  for (const allocation of allocations || []) {
+    const order = allocation.orders
+    const shippedUnits = getShippedUnits(allocation)
+    const unshippedUnits = allocation.status === "allocated" ? allocation.quantity - shippedUnits : 0
+    const recipient = {
+      recall_id: recall.id,
+      order_id: allocation.order_id,
+      order_item_id: allocation.order_item_id,
+      order_number: order?.order_number,
+      customer_id: order?.user_id,
+      customer_name: order ? toRecipientName(order) : null,
+      customer_email: order?.customer_email,
+      customer_phone: order?.customer_phone,
+      customer_type: order?.customer_type,
+      is_doctor: order?.customer_type === "doctor" || order?.profiles?.customer_types?.code === "DOCTOR",
+    }
+
+    // Units already sent in a shipment are with the customer
+    if (shippedUnits > 0) {
+      recipients.push({
+        ...recipient,
+        allocation_status: "shipped",
+        quantity_supplied: shippedUnits,
+        notice_status: "pending",
+      })
+    }
+
+    // Units not yet shipped go back on the quarantined batch and are picked again from a sellable one
+    if (unshippedUnits > 0) {
+      let allocationStatus: RecallRecipient["allocation_status"]
+
+      const { data: pulledBack, error: pullBackError } = await supabase.rpc("pull_back_recalled_allocation", {
+        p_allocation_id: allocation.id,
+        p_recall_id: recall.id,
+        p_user_id: user.id,
+      })
+
+      if (pullBackError) {
+        throw new Error(`Failed to pull units back from order ${order?.order_number}: ${pullBackError.message}`)
+      }
+
+      // The allocation shipped or was released since it was read
+      if (!pulledBack) {
+        continue
+      }
+
+      try {
+        await allocateBatchesForOrderItem({
+          order_id: allocation.order_id,
+          order_number: order?.order_number,
+          order_item_id: allocation.order_item_id,
+          product_id: allocation.product_id,
+          quantity: pulledBack,
+          unit_price: allocation.list_price ?? undefined,
+        })
+        allocationStatus = "reallocated"
+      } catch {
+        allocationStatus = "held"
+      }
+
+      recipients.push({
+        ...recipient,
+        allocation_status: allocationStatus,
+        quantity_supplied: pulledBack,
+        // Reallocated units never left with the recalled batch
+        notice_status: allocationStatus === "reallocated" ? "not_required" : "pending",
+      })
+    }
+  }
+
+  if (recipients.length > 0) {
+    const { error: recipientsError } = await supabase.from("batch_recall_recipients").insert(recipients)
+
+    if (recipientsError) {
+      throw new Error(`Failed to record recall recipients: ${recipientsError.message}`)
+    }
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "batch_recall_initiated",
+    resource_type: "batch_recall",
+    resource_id: recall.id,
+    new_values: {
+      ...recallData,
+      recall_number: recall.recall_number,
+      batch_number: batch.batch_number,
+      recipients: recipients.length,
+      held_orders: recipients.filter((recipient) => recipient.allocation_status === "held").length,
+    },
+  })
+
+  revalidateRecallPaths()
+  return recall
+}
+
+// Notifies registered customers in the app; guest orders are left pending for phone or email contact
+export async function sendRecallNotices(recallId: string) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const { data: recall, error: recallError } = await supabase
+    .from("batch_recalls")
+    .select(`
+      *,
+      homeopathy_products (
+        name
+      )
+    `)
+    .eq("id", recallId)
+    .single()
+
+  if (recallError) {
+    throw new Error(`Failed to fetch recall: ${recallError.message}`)
+  }
+
+  const { data: recipients, error } = await supabase
+    .from("batch_recall_recipients")
+    .select("*")
+    .eq("recall_id", recallId)
+    .eq("notice_status", "pending")
+    .not("customer_id", "is", null)
+
+  if (error) {
+    throw new Error(`Failed to fetch recall recipients: ${error.message}`)
+  }
+
+  if (!recipients || recipients.length === 0) {
+    return { sent: 0 }
+  }
+
+  const productName = recall.homeopathy_products?.name || "a product"
+  const { error: notificationError } = await supabase.from("notifications").insert(
+    recipients.map((recipient: RecallRecipient) => ({
+      user_id: recipient.customer_id,
+      title: "Product recall notice",
+      message:
+        `${productName} batch ${recall.batch_number} from order ${recipient.order_number} has been recalled: ` +
+        `${recall.reason}. Please stop using it and return the remaining units.`,
+      type: "error",
+      action_url: `/orders/${recipient.order_id}`,
+    })),
+  )
+
+  if (notificationError) {
+    throw new Error(`Failed to send recall notices: ${notificationError.message}`)
+  }
+
+  const { error: updateError } = await supabase
+    .from("batch_recall_recipients")
+    .update({ notice_status: "sent", notice_channel: "in_app", notice_sent_at: new Date().toISOString() })
+    .in(
+      "id",
+      recipients.map((recipient: RecallRecipient) => recipient.id),
+    )
+
+  if (updateError) {
+    throw new Error(`Failed to update recall recipients: ${updateError.message}`)
+  }
+
+  await supabase.from("batch_recalls").update({ status: "in_progress" }).eq("id", recallId).eq("status", "open")
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "batch_recall_notices_sent",
+    resource_type: "batch_recall",
+    resource_id: recallId,
+    new_values: { sent: recipients.length },
+  })
+
+  revalidateRecallPaths()
+  return { sent: recipients.length }
+}
+
+// Records contact made outside the app (phone, email) or the customer's acknowledgement
+export async function updateRecallNotice(
+  recipientId: string,
+  update: { notice_status: "sent" | "acknowledged"; notice_channel?: string; notes?: string },
+) {
+  const supabase = createClient()
+
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from("batch_recall_recipients")
+    .update({
+      ...update,
+      ...(update.notice_status === "sent" ? { notice_sent_at: now } : { acknowledged_at: now }),
+    })
+    .eq("id", recipientId)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to update recall notice: ${error.message}`)
+  }
+
+  await supabase.from("batch_recalls").update({ status: "in_progress" }).eq("id", data.recall_id).eq("status", "open")
+
+  revalidateRecallPaths()
+  return data
+}
+
+// Customer returns come back onto the quarantined batch; supplier returns and destruction take units off it
+export async function recordRecallReturn(returnData: {
+  recall_id: string
+  return_type: RecallReturnType
+  quantity: number
+  recipient_id?: string
+  reference_number?: string
+  notes?: string
+}) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  if (!Number.isInteger(returnData.quantity) || returnData.quantity <= 0) {
+    throw new Error("Return quantity must be a positive whole number")
+  }
+
+  if (returnData.return_type === "customer_return" && !returnData.recipient_id) {
+    throw new Error("Customer returns must name the order they came from")
+  }
+
+  // The recipient's returned count, the recall counters and the batch movement are written together
+  const { data: recallReturn, error } = await supabase.rpc("record_recall_return", {
+    p_recall_id: returnData.recall_id,
+    p_return_type: returnData.return_type,
+    p_quantity: returnData.quantity,
+    p_recipient_id: returnData.return_type === "customer_return" ? returnData.recipient_id : null,
+    p_reference_number: returnData.reference_number || null,
+    p_notes: returnData.notes || null,
+    p_user_id: user.id,
+  })
+
+  if (error) {
+    throw toStockError(error, "record recall return")
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "batch_recall_return_recorded",
+    resource_type: "batch_recall",
+    resource_id: returnData.recall_id,
+    new_values: returnData,
+  })
+
+  revalidateRecallPaths()
+  return recallReturn
+}
+
+// Closing writes off whatever is still in quarantine and retires the batch for good
+export async function closeRecall(id: string, closureNotes: string) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const { data: recall, error: recallError } = await supabase
+    .from("batch_recalls")
+    .select(`
+      *,
+      product_batches (
+        quantity_available,
+        purchase_price
+      )
+    `)
+    .eq("id", id)
+    .single()
+
+  if (recallError) {
+    throw new Error(`Failed to fetch recall: ${recallError.message}`)
+  }
+
+  if (recall.status === "closed") {
+    throw new Error(`Recall ${recall.recall_number} is already closed`)
+  }
+
+  const { count: pendingNotices } = await supabase
+    .from("batch_recall_recipients")
+    .select("id", { count: "exact", head: true })
+    .eq("recall_id", id)
+    .eq("notice_status", "pending")
+
+  if (pendingNotices) {
+    throw new Error(`${pendingNotices} recipients have not been notified yet`)
+  }
+
+  const remaining = recall.product_batches?.quantity_available || 0
+  if (remaining > 0) {
+    await recordRecallReturn({
+      recall_id: id,
+      return_type: "destroyed",
+      quantity: remaining,
+      notes: "Written off on recall closure",
+    })
+  }
+
+  const { error: batchError } = await supabase
+    .from("product_batches")
+    .update({ quality_status: "rejected", is_active: false, updated_at: new Date().toISOString() })
+    .eq("id", recall.batch_id)
+
+  if (batchError) {
+    throw new Error(`Failed to retire batch: ${batchError.message}`)
+  }
+
+  const { data, error } = await supabase
+    .from("batch_recalls")
+    .update({
+      status: "closed",
+      closed_by: user.id,
+      closed_at: new Date().toISOString(),
+      closure_notes: closureNotes,
+    })
+    .eq("id", id)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to close recall: ${error.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "batch_recall_closed",
+    resource_type: "batch_recall",
+    resource_id: id,
+    new_values: { closure_notes: closureNotes, written_off: remaining },
+  })
+
+  revalidateRecallPaths()
+  return data
+}
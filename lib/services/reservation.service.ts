@@ -0,0 +1,228 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { revalidatePath } from "next/cache"
+import { toStockError } from "@/lib/inventory/stock-errors"
+import { allocateBatchesForOrderItem, getOrderBatchAllocations, releaseOrderBatchAllocations } from "./batch.service"
+import { expandKitReservationItems } from "./kit.service"
+
+export interface StockReservation {
+  id: string
+  product_id: string
+  warehouse_id?: string
+  reservation_type: "order" | "transfer" | "manual"
+  order_id?: string
+  order_item_id?: string
+  reference_number?: string
+  quantity_reserved: number
+  quantity_fulfilled: number
+  status: "active" | "fulfilled" | "cancelled" | "expired"
+  reserved_at: string
+  expires_at?: string
+  fulfilled_at?: string
+  released_at?: string
+  reserved_by?: string
+  notes?: string
+}
+
+const DEFAULT_RESERVATION_MINUTES = 30
+
+async function getReservationMinutes() {
+  const supabase = createClient()
+
+  const { data } = await supabase
+    .from("application_settings")
+    .select("value")
+    .eq("key", "stock_reservation_minutes")
+    .maybeSingle()
+
+  const minutes = Number.parseInt(data?.value || "")
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_RESERVATION_MINUTES
+}
+
+async function getDefaultWarehouseId() {
+  const supabase = createClient()
+
+  const { data } = await supabase
+    .from("warehouses")
+    .select("id")
+    .eq("is_default", true)
+    .eq("is_active", true)
+    .maybeSingle()
+
+  return data?.id || null
+}
+
+export async function reserveOrderStock(
+  order: { id: string; order_number: string },
+  items: Array<{ id: string; product_id: string; quantity: number }>,
+): Promise<StockReservation[]> {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const expiresAt = new Date(Date.now() + (await getReservationMinutes()) * 60 * 1000)
+
+  // Kit lines hold assembled kits and the components of the rest
+  const lines = await expandKitReservationItems(items)
+
+  // All lines are reserved in one transaction against sellable (unreserved) stock
+  const { data, error } = await supabase.rpc("reserve_order_stock", {
+    p_order_id: order.id,
+    p_reference_number: order.order_number,
+    p_items: lines.map((item) => ({ product_id: item.product_id, order_item_id: item.id, quantity: item.quantity })),
+    p_expires_at: expiresAt.toISOString(),
+    p_user_id: user.id,
+    p_warehouse_id: await getDefaultWarehouseId(),
+  })
+
+  if (error) {
+    throw toStockError(error, "reserve stock")
+  }
+
+  revalidatePath("/admin/inventory")
+  return data || []
+}
+
+// Payment arrived, or an unpaid order started shipping: reserved units leave stock as outbound movements
+export async function fulfillOrderReservations(orderId: string) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const { data: fulfilled, error } = await supabase.rpc("fulfill_order_reservations", {
+    p_order_id: orderId,
+    p_user_id: user.id,
+  })
+
+  if (error) {
+    throw toStockError(error, "fulfil stock reservations")
+  }
+
+  // Expired reservations gave their batches back; pick batches again for those lines. The stock is already
+  // taken, so if picking fails the fulfilment is undone before the error goes back to the caller.
+  try {
+    await reallocateReleasedOrderItems(orderId)
+  } catch (allocationError) {
+    if (fulfilled) {
+      const { error: undoError } = await supabase.rpc("unfulfill_order_reservations", {
+        p_order_id: orderId,
+        p_user_id: user.id,
+      })
+
+      if (undoError) {
+        console.error(`Failed to undo stock fulfilment for order ${orderId}:`, undoError)
+      }
+    }
+    throw allocationError
+  }
+
+  revalidatePath("/admin/inventory")
+  return fulfilled || 0
+}
+
+// Picks batches for order lines left without any (their reservation expired and gave its batches back)
+async function reallocateReleasedOrderItems(orderId: string) {
+  const supabase = createClient()
+
+  const { data: order } = await supabase
+    .from("orders")
+    .select("order_number, order_items (id, product_id, quantity, unit_price)")
+    .eq("id", orderId)
+    .single()
+
+  if (!order) {
+    return
+  }
+
+  const allocations = await getOrderBatchAllocations(orderId)
+
+  for (const item of order.order_items || []) {
+    const hasBatches = allocations.some(
+      (allocation: any) => allocation.order_item_id === item.id && allocation.status !== "released",
+    )
+
+    if (!hasBatches) {
+      await allocateBatchesForOrderItem({
+        order_id: orderId,
+        order_number: order.order_number,
+        order_item_id: item.id,
+        product_id: item.product_id,
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+      })
+    }
+  }
+}
+
+export async function releaseOrderReservations(orderId: string, reason: string) {
+  const supabase = createClient()
+
+  const { data: released, error } = await supabase.rpc("release_order_reservations", {
+    p_order_id: orderId,
+    p_status: "cancelled",
+  })
+
+  if (error) {
+    throw toStockError(error, "release stock reservations")
+  }
+
+  await releaseOrderBatchAllocations(orderId, reason)
+
+  revalidatePath("/admin/inventory")
+  return released || 0
+}
+
+// Pending, unpaid orders past their hold time give their stock and batches back. The SQL function releases both
+// and lists only the orders this call released, so overlapping sweeps do not double up.
+export async function releaseExpiredReservations() {
+  const supabase = createClient()
+
+  const { data: orders, error } = await supabase.rpc("release_expired_stock_reservations")
+
+  if (error) {
+    throw new Error(`Failed to release expired reservations: ${error.message}`)
+  }
+
+  for (const { order_id: orderId } of (orders || []) as Array<{ order_id: string }>) {
+    await supabase.from("activity_logs").insert({
+      action: "stock_reservation_expired",
+      resource_type: "order",
+      resource_id: orderId,
+    })
+  }
+
+  if (orders && orders.length > 0) {
+    revalidatePath("/admin/inventory")
+  }
+
+  return orders?.length || 0
+}
+
+export async function getOrderReservations(orderId: string): Promise<StockReservation[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("stock_reservations")
+    .select("*")
+    .eq("order_id", orderId)
+    .order("reserved_at", { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch stock reservations: ${error.message}`)
+  }
+
+  return data || []
+}
@@ -0,0 +1,339 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { revalidatePath } from "next/cache"
+
+export type StockAlertSeverity = "info" | "warning" | "critical"
+export type StockAlertStatus = "open" | "acknowledged" | "resolved"
+
+export interface StockAlertRule {
+  id: string
+  name: string
+  description?: string
+  rule_type: "days_of_cover" | "quantity" | "percent_of_max"
+  threshold: number
+  scope_type: "all" | "category" | "brand" | "warehouse" | "product"
+  scope_id?: string | null
+  severity: StockAlertSeverity
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export type StockAlertRuleData = Omit<StockAlertRule, "id" | "created_at" | "updated_at">
+
+export interface StockAlert {
+  id: string
+  rule_id: string
+  rule_name: string
+  rule_type: StockAlertRule["rule_type"]
+  threshold: number
+  product_id: string
+  product_name: string
+  sku: string
+  warehouse_id?: string | null
+  warehouse_name?: string
+  severity: StockAlertSeverity
+  status: StockAlertStatus
+  current_stock: number
+  days_of_cover?: number | null
+  message: string
+  triggered_at: string
+  last_evaluated_at: string
+  acknowledged_at?: string | null
+  resolved_at?: string | null
+  resolution?: string | null
+  notes?: string | null
+}
+
+const SEVERITY_ORDER: Record<StockAlertSeverity, number> = { critical: 0, warning: 1, info: 2 }
+
+function revalidateAlertPaths() {
+  revalidatePath("/admin/inventory")
+  revalidatePath("/admin/inventory/alerts")
+}
+
+export async function getStockAlertRules(): Promise<StockAlertRule[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("stock_alert_rules")
+    .select("*")
+    .order("is_active", { ascending: false })
+    .order("name")
+
+  if (error) {
+    throw new Error(`Failed to fetch stock alert rules: ${error.message}`)
+  }
+
+  return data || []
+}
+
+export async function createStockAlertRule(ruleData: StockAlertRuleData) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const { data, error } = await supabase
+    .from("stock_alert_rules")
+    .insert({ ...ruleData, scope_id: ruleData.scope_type === "all" ? null : ruleData.scope_id, created_by: user.id })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create stock alert rule: ${error.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "stock_alert_rule_created",
+    resource_type: "stock_alert_rule",
+    resource_id: data.id,
+    new_values: ruleData,
+  })
+
+  await evaluateStockAlerts()
+  return data
+}
+
+export async function updateStockAlertRule(id: string, ruleData: Partial<StockAlertRuleData>) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const { data, error } = await supabase
+    .from("stock_alert_rules")
+    .update(ruleData.scope_type === "all" ? { ...ruleData, scope_id: null } : ruleData)
+    .eq("id", id)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to update stock alert rule: ${error.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "stock_alert_rule_updated",
+    resource_type: "stock_alert_rule",
+    resource_id: id,
+    new_values: ruleData,
+  })
+
+  await evaluateStockAlerts()
+  return data
+}
+
+export async function deleteStockAlertRule(id: string) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  // Alerts raised by the rule go with it
+  const { error } = await supabase.from("stock_alert_rules").delete().eq("id", id)
+
+  if (error) {
+    throw new Error(`Failed to delete stock alert rule: ${error.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "stock_alert_rule_deleted",
+    resource_type: "stock_alert_rule",
+    resource_id: id,
+  })
+
+  revalidateAlertPaths()
+}
+
+// Alerts are maintained by database triggers on every stock change; this forces a pass,
+// for one product or (after rule changes) for everything
+export async function evaluateStockAlerts(productId?: string) {
+  const supabase = createClient()
+
+  const { data, error } = productId
+    ? await supabase.rpc("evaluate_stock_alerts", { p_product_id: productId })
+    : await supabase.rpc("evaluate_all_stock_alerts")
+
+  if (error) {
+    throw new Error(`Failed to evaluate stock alerts: ${error.message}`)
+  }
+
+  revalidateAlertPaths()
+  return data as number
+}
+
+// "active" covers open and acknowledged alerts, i.e. everything not yet resolved
+export async function getStockAlerts(filters?: {
+  status?: StockAlertStatus | "active"
+  severity?: StockAlertSeverity
+  warehouse_id?: string
+  product_id?: string
+  limit?: number
+}): Promise<StockAlert[]> {
+  const supabase = createClient()
+
+  let query = supabase
+    .from("stock_alerts")
+    .select(`
+      *,
+      stock_alert_rules (
+        name,
+        rule_type,
+        threshold
+      ),
+      products (
+        name,
+        sku
+      ),
+      warehouses (
+        name
+      )
+    `)
+    .order("triggered_at", { ascending: false })
+
+  if (filters?.status === "active") {
+    query = query.in("status", ["open", "acknowledged"])
+  } else if (filters?.status) {
+    query = query.eq("status", filters.status)
+  }
+
+  if (filters?.severity) {
+    query = query.eq("severity", filters.severity)
+  }
+
+  if (filters?.warehouse_id) {
+    query = query.eq("warehouse_id", filters.warehouse_id)
+  }
+
+  if (filters?.product_id) {
+    query = query.eq("product_id", filters.product_id)
+  }
+
+  if (filters?.limit) {
+    query = query.limit(filters.limit)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch stock alerts: ${error.message}`)
+  }
+
+  return (data || [])
+    .map((alert: any) => ({
+      id: alert.id,
+      rule_id: alert.rule_id,
+      rule_name: alert.stock_alert_rules?.name,
+      rule_type: alert.stock_alert_rules?.rule_type,
+      threshold: alert.stock_alert_rules?.threshold,
+      product_id: alert.product_id,
+      product_name: alert.products?.name,
+      sku: alert.products?.sku,
+      warehouse_id: alert.warehouse_id,
+      warehouse_name: alert.warehouses?.name,
+      severity: alert.severity,
+      status: alert.status,
+      current_stock: alert.current_stock,
+      days_of_cover: alert.days_of_cover,
+      message: alert.message,
+      triggered_at: alert.triggered_at,
+      last_evaluated_at: alert.last_evaluated_at,
+      acknowledged_at: alert.acknowledged_at,
+      resolved_at: alert.resolved_at,
+      resolution: alert.resolution,
+      notes: alert.notes,
+    }))
+    .sort(
+      (a: StockAlert, b: StockAlert) =>
+        SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+        new Date(b.triggered_at).getTime() - new Date(a.triggered_at).getTime(),
+    )
+}
+
+export async function acknowledgeStockAlert(id: string, notes?: string) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const { data, error } = await supabase
+    .from("stock_alerts")
+    .update({ status: "acknowledged", acknowledged_by: user.id, acknowledged_at: new Date().toISOString(), notes })
+    .eq("id", id)
+    .eq("status", "open")
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to acknowledge stock alert: ${error.message}`)
+  }
+
+  revalidateAlertPaths()
+  return data
+}
+
+// Manual resolution; the alert opens again on the next stock change if the rule still fires
+export async function resolveStockAlert(id: string, notes?: string) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const { data, error } = await supabase
+    .from("stock_alerts")
+    .update({
+      status: "resolved",
+      resolved_by: user.id,
+      resolved_at: new Date().toISOString(),
+      resolution: "manual",
+      notes,
+    })
+    .eq("id", id)
+    .neq("status", "resolved")
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to resolve stock alert: ${error.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "stock_alert_resolved",
+    resource_type: "stock_alert",
+    resource_id: id,
+    new_values: { notes },
+  })
+
+  revalidateAlertPaths()
+  return data
+}
@@ -0,0 +1,253 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import {
+  buildStockLedger,
+  getLedgerKey,
+  type LedgerEntry,
+  type LedgerLevel,
+  type StockLedgerLine,
+} from "@/lib/inventory/stock-ledger"
+
+export interface StockLedgerReportLine extends StockLedgerLine {
+  product_name: string
+  sku: string | null
+  location_name: string
+  batch_number: string | null
+  expiry_date: string | null
+  // Quarantined batches hold no available stock until QC sign-off, so they are not reconciled yet
+  in_quarantine: boolean
+}
+
+export interface StockLedgerReport {
+  level: LedgerLevel
+  from: string
+  to: string
+  lines: StockLedgerReportLine[]
+  totals: {
+    opening_quantity: number
+    opening_value: number
+    inward_quantity: number
+    inward_value: number
+    outward_quantity: number
+    outward_value: number
+    closing_quantity: number
+    closing_value: number
+  }
+  unexplained_count: number
+}
+
+const PAGE_SIZE = 1000
+
+// PostgREST caps every response, so long lists are read a page at a time
+async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>,
+  description: string,
+) {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1)
+    if (error) {
+      throw new Error(`Failed to fetch ${description}: ${error.message}`)
+    }
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+export async function getStockLedger(options: {
+  from: string
+  to: string
+  level?: LedgerLevel
+  warehouse_id?: string
+}): Promise<StockLedgerReport> {
+  const supabase = createClient()
+  const level = options.level || "warehouse"
+
+  // Dates are whole days: the period runs from the start of "from" to the end of "to"
+  const from = new Date(`${options.from}T00:00:00`)
+  const to = new Date(`${options.to}T23:59:59.999`)
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from > to) {
+    throw new Error("Invalid stock ledger period")
+  }
+
+  const entries = await fetchAllPages<LedgerEntry>(
+    (start, end) =>
+      supabase
+        .rpc("get_stock_ledger_entries", {
+          p_from: from.toISOString(),
+          p_to: to.toISOString(),
+          p_level: level,
+        })
+        .order("product_id")
+        .order("warehouse_id")
+        .order("batch_id")
+        .order("period")
+        .order("entry_type")
+        .order("direction")
+        .range(start, end),
+    "stock ledger",
+  )
+
+  const { data: warehouses, error: warehousesError } = await supabase.from("warehouses").select("id, name")
+  if (warehousesError) {
+    throw new Error(`Failed to fetch warehouses: ${warehousesError.message}`)
+  }
+  const warehouseNames = new Map<string, string>((warehouses || []).map((warehouse: any) => [warehouse.id, warehouse.name]))
+
+  const current = new Map<string, number>()
+  const details = new Map<
+    string,
+    {
+      product_name: string
+      sku: string | null
+      warehouse_id: string | null
+      batch_number: string | null
+      expiry_date: string | null
+    }
+  >()
+  const quarantined = new Set<string>()
+
+  if (level === "warehouse") {
+    const products = await fetchAllPages<any>(
+      (start, end) =>
+        supabase.from("products").select("id, name, sku, inventory_quantity").order("id").range(start, end),
+      "products",
+    )
+    const stockLevels = await fetchAllPages<any>(
+      (start, end) =>
+        supabase
+          .from("stock_levels")
+          .select("product_id, warehouse_id, on_hand, in_transit")
+          .order("id")
+          .range(start, end),
+      "stock levels",
+    )
+
+    // Stock not held in any warehouse (or on its way between two) is what the movements left unassigned
+    const heldInWarehouses = new Map<string, number>()
+    for (const stockLevel of stockLevels) {
+      const key = getLedgerKey({
+        product_id: stockLevel.product_id,
+        warehouse_id: stockLevel.warehouse_id,
+        batch_id: null,
+      })
+      current.set(key, stockLevel.on_hand)
+      heldInWarehouses.set(
+        stockLevel.product_id,
+        (heldInWarehouses.get(stockLevel.product_id) || 0) + stockLevel.on_hand + (stockLevel.in_transit || 0),
+      )
+    }
+
+    for (const product of products) {
+      details.set(product.id, {
+        product_name: product.name,
+        sku: product.sku,
+        warehouse_id: null,
+        batch_number: null,
+        expiry_date: null,
+      })
+      current.set(
+        getLedgerKey({ product_id: product.id, warehouse_id: null, batch_id: null }),
+        (product.inventory_quantity || 0) - (heldInWarehouses.get(product.id) || 0),
+      )
+    }
+  } else {
+    const batches = await fetchAllPages<any>(
+      (start, end) =>
+        supabase
+          .from("product_batches")
+          .select(`
+            id,
+            product_id,
+            warehouse_id,
+            batch_number,
+            expiry_date,
+            quantity_available,
+            homeopathy_products (
+              name,
+              sku
+            ),
+            batch_qc_inspections (
+              status
+            )
+          `)
+          .order("id")
+          .range(start, end),
+      "batches",
+    )
+
+    for (const batch of batches) {
+      const key = getLedgerKey({ product_id: batch.product_id, warehouse_id: null, batch_id: batch.id })
+      details.set(key, {
+        product_name: batch.homeopathy_products?.name || "Unknown product",
+        sku: batch.homeopathy_products?.sku || null,
+        warehouse_id: batch.warehouse_id,
+        batch_number: batch.batch_number,
+        expiry_date: batch.expiry_date,
+      })
+
+      const inspections = Array.isArray(batch.batch_qc_inspections)
+        ? batch.batch_qc_inspections
+        : [batch.batch_qc_inspections].filter(Boolean)
+      if (inspections.some((inspection: any) => inspection.status === "pending")) {
+        quarantined.add(key)
+      } else {
+        current.set(key, batch.quantity_available || 0)
+      }
+    }
+  }
+
+  const lines = buildStockLedger(entries, current, level)
+    .map((line) => {
+      const detail = details.get(level === "warehouse" ? line.product_id : line.key)
+      const warehouseId = line.warehouse_id || detail?.warehouse_id || null
+      return {
+        ...line,
+        warehouse_id: warehouseId,
+        product_name: detail?.product_name || "Unknown product",
+        sku: detail?.sku || null,
+        location_name: warehouseId ? warehouseNames.get(warehouseId) || "Unknown warehouse" : "Unassigned",
+        batch_number: detail?.batch_number || null,
+        expiry_date: detail?.expiry_date || null,
+        in_quarantine: quarantined.has(line.key),
+      }
+    })
+    .filter((line) => !options.warehouse_id || line.warehouse_id === options.warehouse_id)
+    // Lines with nothing to show for the period or today are noise in an audit file
+    .filter(
+      (line) =>
+        line.opening_quantity !== 0 ||
+        line.inward_quantity !== 0 ||
+        line.outward_quantity !== 0 ||
+        line.closing_quantity !== 0 ||
+        line.unexplained,
+    )
+    .sort(
+      (a, b) =>
+        a.product_name.localeCompare(b.product_name) ||
+        a.location_name.localeCompare(b.location_name) ||
+        (a.batch_number || "").localeCompare(b.batch_number || ""),
+    )
+
+  const sum = (field: keyof StockLedgerReport["totals"]) =>
+    Math.round(lines.reduce((total, line) => total + line[field], 0) * 100) / 100
+
+  return {
+    level,
+    from: options.from,
+    to: options.to,
+    lines,
+    totals: {
+      opening_quantity: sum("opening_quantity"),
+      opening_value: sum("opening_value"),
+      inward_quantity: sum("inward_quantity"),
+      inward_value: sum("inward_value"),
+      outward_quantity: sum("outward_quantity"),
+      outward_value: sum("outward_value"),
+      closing_quantity: sum("closing_quantity"),
+      closing_value: sum("closing_value"),
+    },
+    unexplained_count: lines.filter((line) => line.unexplained).length,
+  }
+}
@@ -0,0 +1,519 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { revalidatePath } from "next/cache"
+import { resolveBarcode } from "./barcode.service"
+import { getLineVariance, getProductAdjustments, summarizeVariances } from "@/lib/inventory/stock-take"
+import { StockConflictError, toStockError } from "@/lib/inventory/stock-errors"
+
+export interface StockTakeSession {
+  id: string
+  session_number: string
+  name: string
+  warehouse_id: string
+  scope_type: "products" | "zones" | "batches"
+  scope: string[]
+  status: "counting" | "submitted" | "approved" | "cancelled"
+  opened_by?: string
+  submitted_by?: string
+  approved_by?: string
+  opened_at: string
+  submitted_at?: string
+  approved_at?: string
+  cancelled_at?: string
+  notes?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface StockTakeLine {
+  id: string
+  session_id: string
+  product_id: string
+  batch_id?: string
+  batch_number?: string
+  zone?: string
+  bin_location?: string
+  expected_quantity: number
+  counted_quantity?: number | null
+  unit_cost: number
+  counted_by?: string
+  counted_at?: string
+  notes?: string
+}
+
+export interface CreateStockTakeData {
+  name: string
+  warehouse_id: string
+  scope_type: "products" | "zones" | "batches"
+  // Product ids, zone codes or batch ids depending on scope_type
+  scope: string[]
+  notes?: string
+}
+
+export async function generateStockTakeNumber(): Promise<string> {
+  const timestamp = Date.now().toString().slice(-6)
+  const random = Math.floor(Math.random() * 1000)
+    .toString()
+    .padStart(3, "0")
+  return `STK-${timestamp}-${random}`
+}
+
+export async function getStockTakeSessions(filters?: { status?: string; warehouse_id?: string }) {
+  const supabase = createClient()
+
+  let query = supabase.from("stock_take_sessions").select(`
+      *,
+      warehouses (
+        name,
+        code
+      ),
+      stock_take_lines (
+        id,
+        product_id,
+        batch_id,
+        expected_quantity,
+        counted_quantity,
+        unit_cost
+      )
+    `)
+
+  if (filters?.status) {
+    query = query.eq("status", filters.status)
+  }
+
+  if (filters?.warehouse_id) {
+    query = query.eq("warehouse_id", filters.warehouse_id)
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch stock take sessions: ${error.message}`)
+  }
+
+  return (data || []).map((session: any) => ({
+    ...session,
+    summary: summarizeVariances(session.stock_take_lines || []),
+  }))
+}
+
+export async function getStockTakeSession(id: string) {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("stock_take_sessions")
+    .select(`
+      *,
+      warehouses (
+        name,
+        code
+      ),
+      stock_take_lines (
+        *,
+        products (
+          name,
+          sku
+        )
+      )
+    `)
+    .eq("id", id)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to fetch stock take session: ${error.message}`)
+  }
+
+  return {
+    ...data,
+    stock_take_lines: (data.stock_take_lines || []).map((line: any) => ({
+      ...line,
+      variance: getLineVariance(line),
+    })),
+    summary: summarizeVariances(data.stock_take_lines || []),
+  }
+}
+
+// Snapshots what the system expects to find for everything in the session scope
+async function snapshotExpectedQuantities(sessionData: CreateStockTakeData) {
+  const supabase = createClient()
+
+  if (sessionData.scope_type === "batches") {
+    const { data: batches, error } = await supabase
+      .from("product_batches")
+      .select("id, product_id, batch_number, quantity_available, purchase_price, landed_cost, storage_location")
+      .in("id", sessionData.scope)
+
+    if (error) {
+      throw new Error(`Failed to fetch batches: ${error.message}`)
+    }
+
+    return (batches || []).map((batch: any) => ({
+      product_id: batch.product_id,
+      batch_id: batch.id,
+      batch_number: batch.batch_number,
+      bin_location: batch.storage_location,
+      expected_quantity: batch.quantity_available,
+      unit_cost: Number(batch.landed_cost ?? batch.purchase_price ?? 0),
+    }))
+  }
+
+  let query = supabase
+    .from("stock_levels")
+    .select(`
+      product_id,
+      on_hand,
+      zone,
+      bin_location,
+      products (
+        cost_price
+      )
+    `)
+    .eq("warehouse_id", sessionData.warehouse_id)
+
+  query =
+    sessionData.scope_type === "zones"
+      ? query.in("zone", sessionData.scope)
+      : query.in("product_id", sessionData.scope)
+
+  const { data: levels, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch stock levels: ${error.message}`)
+  }
+
+  const lines = (levels || []).map((level: any) => ({
+    product_id: level.product_id,
+    zone: level.zone,
+    bin_location: level.bin_location,
+    expected_quantity: level.on_hand,
+    unit_cost: level.products?.cost_price || 0,
+  }))
+
+  // Products picked by hand may have no stock in this warehouse yet; they are expected at zero
+  if (sessionData.scope_type === "products") {
+    const missing = sessionData.scope.filter((productId) => !lines.some((line: any) => line.product_id === productId))
+
+    if (missing.length > 0) {
+      const { data: products } = await supabase.from("products").select("id, cost_price").in("id", missing)
+
+      for (const product of products || []) {
+        lines.push({ product_id: product.id, expected_quantity: 0, unit_cost: product.cost_price || 0 })
+      }
+    }
+  }
+
+  return lines
+}
+
+export async function createStockTakeSession(sessionData: CreateStockTakeData): Promise<StockTakeSession> {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  if (!sessionData.scope || sessionData.scope.length === 0) {
+    throw new Error("Stock take must cover at least one product, zone or batch")
+  }
+
+  const lines = await snapshotExpectedQuantities(sessionData)
+
+  if (lines.length === 0) {
+    throw new Error("Nothing to count for the selected scope")
+  }
+
+  const sessionNumber = await generateStockTakeNumber()
+
+  const { data: session, error } = await supabase
+    .from("stock_take_sessions")
+    .insert({
+      session_number: sessionNumber,
+      name: sessionData.name,
+      warehouse_id: sessionData.warehouse_id,
+      scope_type: sessionData.scope_type,
+      scope: sessionData.scope,
+      status: "counting",
+      opened_by: user.id,
+      notes: sessionData.notes,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create stock take session: ${error.message}`)
+  }
+
+  const { error: linesError } = await supabase
+    .from("stock_take_lines")
+    .insert(lines.map((line: any) => ({ ...line, session_id: session.id })))
+
+  if (linesError) {
+    // Rollback session creation
+    await supabase.from("stock_take_sessions").delete().eq("id", session.id)
+    throw new Error(`Failed to create stock take lines: ${linesError.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "stock_take_opened",
+    resource_type: "stock_take_session",
+    resource_id: session.id,
+    new_values: { session_number: sessionNumber, scope_type: sessionData.scope_type, lines_count: lines.length },
+  })
+
+  revalidatePath("/admin/inventory/stock-take")
+  return session
+}
+
+async function getCountingSession(sessionId: string) {
+  const supabase = createClient()
+
+  const { data: session, error } = await supabase
+    .from("stock_take_sessions")
+    .select("id, status")
+    .eq("id", sessionId)
+    .single()
+
+  if (error || !session) {
+    throw new Error("Stock take session not found")
+  }
+
+  if (session.status !== "counting") {
+    throw new Error(`Cannot record counts on a session that is ${session.status}`)
+  }
+
+  return session
+}
+
+export async function recordStockCount(lineId: string, countedQuantity: number, notes?: string) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  if (countedQuantity < 0) {
+    throw new Error("Counted quantity cannot be negative")
+  }
+
+  const { data: line, error: lineError } = await supabase
+    .from("stock_take_lines")
+    .select("id, session_id")
+    .eq("id", lineId)
+    .single()
+
+  if (lineError || !line) {
+    throw new Error("Stock take line not found")
+  }
+
+  await getCountingSession(line.session_id)
+
+  const { data, error } = await supabase
+    .from("stock_take_lines")
+    .update({
+      counted_quantity: countedQuantity,
+      counted_by: user.id,
+      counted_at: new Date().toISOString(),
+      notes,
+    })
+    .eq("id", lineId)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to record count: ${error.message}`)
+  }
+
+  revalidatePath("/admin/inventory/stock-take")
+  return data
+}
+
+// Barcodes and GS1 labels resolve to the product (and batch, when the label carries one); anything else is
+// matched against batch numbers first, then product SKUs. Each scan adds to the count
+export async function recordStockCountByCode(sessionId: string, code: string, quantity = 1) {
+  const supabase = createClient()
+
+  await getCountingSession(sessionId)
+
+  const { data: lines, error } = await supabase
+    .from("stock_take_lines")
+    .select(`
+      id,
+      product_id,
+      batch_number,
+      counted_quantity,
+      products (
+        sku
+      )
+    `)
+    .eq("session_id", sessionId)
+
+  if (error) {
+    throw new Error(`Failed to fetch stock take lines: ${error.message}`)
+  }
+
+  const { product, batch, scan } = await resolveBarcode(code)
+  const scannedBatch = (batch?.batch_number || scan.batch_number)?.toUpperCase()
+  const productLines = product ? (lines || []).filter((l: any) => l.product_id === product.id) : []
+
+  const normalized = code.trim().toUpperCase()
+  const line =
+    (scannedBatch && productLines.find((l: any) => l.batch_number?.toUpperCase() === scannedBatch)) ||
+    (!scannedBatch && productLines.length === 1 && productLines[0]) ||
+    productLines.find((l: any) => !l.batch_number) ||
+    (lines || []).find((l: any) => l.batch_number?.toUpperCase() === normalized) ||
+    (lines || []).find((l: any) => l.products?.sku?.toUpperCase() === normalized)
+
+  if (!line) {
+    throw new Error(`No line in this stock take matches ${code}`)
+  }
+
+  return recordStockCount(line.id, (line.counted_quantity || 0) + quantity)
+}
+
+export async function submitStockTakeSession(id: string): Promise<StockTakeSession> {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  await getCountingSession(id)
+
+  const { data, error } = await supabase
+    .from("stock_take_sessions")
+    .update({ status: "submitted", submitted_by: user.id, submitted_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("status", "counting")
+    .select()
+
+  if (error) {
+    throw new Error(`Failed to submit stock take session: ${error.message}`)
+  }
+  if (!data || data.length === 0) {
+    throw new StockConflictError("The stock take changed while it was being submitted. Reload and try again.")
+  }
+
+  revalidatePath("/admin/inventory/stock-take")
+  return data[0]
+}
+
+export async function approveStockTakeSession(id: string): Promise<StockTakeSession> {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const session = await getStockTakeSession(id)
+
+  if (session.status !== "submitted") {
+    throw new Error("Only submitted stock takes can be approved")
+  }
+
+  const lines: StockTakeLine[] = session.stock_take_lines
+  const adjustments = getProductAdjustments(lines).map((adjustment) => ({
+    ...adjustment,
+    movement_type: "adjustment",
+    warehouse_id: session.warehouse_id,
+    reason: "Stock take variance",
+    notes: `Stock take ${session.session_number}`,
+    unit_cost: lines.find((line) => line.product_id === adjustment.product_id)?.unit_cost ?? null,
+    reference_type: "manual_adjustment",
+    log_action: "inventory_adjusted",
+  }))
+
+  const batchMovements = lines
+    .map((line) => ({ line, result: getLineVariance(line) }))
+    .filter(({ line, result }) => line.batch_id && result && result.variance !== 0)
+    .map(({ line, result }) => ({
+      batch_id: line.batch_id,
+      movement_type: result!.variance > 0 ? "RETURN" : "OUT",
+      quantity: Math.abs(result!.variance),
+      unit_cost: line.unit_cost,
+      total_value: Math.abs(result!.variance_value),
+      reason: result!.variance > 0 ? "Stock take surplus" : "Stock take shortage",
+    }))
+
+  const countedProductIds = [
+    ...new Set(lines.filter((line) => line.counted_quantity !== null).map((line) => line.product_id)),
+  ]
+
+  // The status claim, product and batch variances and count dates post as one unit: if anything fails,
+  // nothing is adjusted, and a second approval is refused
+  const { data, error } = await supabase.rpc("approve_stock_take_session", {
+    p_session_id: id,
+    p_changes: adjustments,
+    p_batch_movements: batchMovements,
+    p_counted_product_ids: countedProductIds,
+    p_user_id: user.id,
+  })
+
+  if (error) {
+    throw toStockError(error, "approve stock take session")
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "stock_take_approved",
+    resource_type: "stock_take_session",
+    resource_id: id,
+    new_values: {
+      session_number: session.session_number,
+      adjustments_count: adjustments.length,
+      net_variance_value: session.summary.net_value,
+    },
+  })
+
+  revalidatePath("/admin/inventory/stock-take")
+  revalidatePath("/admin/inventory")
+  return data
+}
+
+export async function cancelStockTakeSession(id: string): Promise<StockTakeSession> {
+  const supabase = createClient()
+
+  const { data: session } = await supabase.from("stock_take_sessions").select("status").eq("id", id).single()
+
+  if (!session) {
+    throw new Error("Stock take session not found")
+  }
+
+  if (session.status === "approved" || session.status === "cancelled") {
+    throw new Error(`Cannot cancel a stock take that is ${session.status}`)
+  }
+
+  const { data, error } = await supabase
+    .from("stock_take_sessions")
+    .update({ status: "cancelled", cancelled_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("status", session.status)
+    .select()
+
+  if (error) {
+    throw new Error(`Failed to cancel stock take session: ${error.message}`)
+  }
+  if (!data || data.length === 0) {
+    throw new StockConflictError("The stock take changed while it was being cancelled. Reload and try again.")
+  }
+
+  revalidatePath("/admin/inventory/stock-take")
+  return data[0]
+}
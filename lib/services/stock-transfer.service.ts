@@ -0,0 +1,347 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { revalidatePath } from "next/cache"
+import { StockConflictError, toStockError } from "@/lib/inventory/stock-errors"
+
+export interface StockTransfer {
+  id: string
+  transfer_number: string
+  from_warehouse_id: string
+  to_warehouse_id: string
+  status: "draft" | "dispatched" | "in_transit" | "received" | "cancelled"
+  has_discrepancy: boolean
+  requested_at: string
+  dispatched_at?: string
+  in_transit_at?: string
+  received_at?: string
+  cancelled_at?: string
+  requested_by?: string
+  dispatched_by?: string
+  received_by?: string
+  carrier?: string
+  tracking_number?: string
+  shipping_cost?: number
+  notes?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface StockTransferItem {
+  id: string
+  transfer_id: string
+  product_id: string
+  quantity_requested: number
+  quantity_dispatched: number
+  quantity_received: number
+  quantity_damaged: number
+  quantity_short: number
+  unit_cost?: number
+  batch_number?: string
+  expiry_date?: string
+  notes?: string
+}
+
+export interface CreateStockTransferData {
+  from_warehouse_id: string
+  to_warehouse_id: string
+  items: Array<{
+    product_id: string
+    quantity: number
+    unit_cost?: number
+    batch_number?: string
+    expiry_date?: string
+  }>
+  notes?: string
+}
+
+export async function generateTransferNumber(): Promise<string> {
+  const timestamp = Date.now().toString().slice(-6)
+  const random = Math.floor(Math.random() * 1000)
+    .toString()
+    .padStart(3, "0")
+  return `TRF-${timestamp}-${random}`
+}
+
+export async function getStockTransfers(filters?: { status?: string; warehouse_id?: string }) {
+  const supabase = createClient()
+
+  let query = supabase.from("stock_transfers").select(`
+      *,
+      from_warehouse:warehouses!stock_transfers_from_warehouse_id_fkey (
+        name,
+        code
+      ),
+      to_warehouse:warehouses!stock_transfers_to_warehouse_id_fkey (
+        name,
+        code
+      ),
+      stock_transfer_items (
+        *,
+        products (
+          name,
+          sku
+        )
+      )
+    `)
+
+  if (filters?.status) {
+    query = query.eq("status", filters.status)
+  }
+
+  if (filters?.warehouse_id) {
+    query = query.or(`from_warehouse_id.eq.${filters.warehouse_id},to_warehouse_id.eq.${filters.warehouse_id}`)
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch stock transfers: ${error.message}`)
+  }
+
+  return data || []
+}
+
+async function getTransferWithItems(id: string) {
+  const supabase = createClient()
+
+  const { data: transfer, error } = await supabase
+    .from("stock_transfers")
+    .select("*, stock_transfer_items (*)")
+    .eq("id", id)
+    .single()
+
+  if (error || !transfer) {
+    throw new Error("Stock transfer not found")
+  }
+
+  return transfer as StockTransfer & { stock_transfer_items: StockTransferItem[] }
+}
+
+export async function createStockTransfer(transferData: CreateStockTransferData): Promise<StockTransfer> {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  if (transferData.from_warehouse_id === transferData.to_warehouse_id) {
+    throw new Error("Source and destination warehouses must be different")
+  }
+
+  if (!transferData.items || transferData.items.length === 0) {
+    throw new Error("Transfer must contain at least one item")
+  }
+
+  const transferNumber = await generateTransferNumber()
+
+  const { data: transfer, error } = await supabase
+    .from("stock_transfers")
+    .insert({
+      transfer_number: transferNumber,
+      from_warehouse_id: transferData.from_warehouse_id,
+      to_warehouse_id: transferData.to_warehouse_id,
+      status: "draft",
+      requested_by: user.id,
+      notes: transferData.notes,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create stock transfer: ${error.message}`)
+  }
+
+  const { error: itemsError } = await supabase.from("stock_transfer_items").insert(
+    transferData.items.map((item) => ({
+      transfer_id: transfer.id,
+      product_id: item.product_id,
+      quantity_requested: item.quantity,
+      unit_cost: item.unit_cost,
+      batch_number: item.batch_number,
+      expiry_date: item.expiry_date,
+    })),
+  )
+
+  if (itemsError) {
+    // Rollback transfer creation
+    await supabase.from("stock_transfers").delete().eq("id", transfer.id)
+    throw new Error(`Failed to create stock transfer items: ${itemsError.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "stock_transfer_created",
+    resource_type: "stock_transfer",
+    resource_id: transfer.id,
+    new_values: { transfer_number: transferNumber, items_count: transferData.items.length },
+  })
+
+  revalidatePath("/admin/inventory/transfers")
+  return transfer
+}
+
+export async function dispatchStockTransfer(
+  id: string,
+  dispatchedItems?: Array<{ item_id: string; quantity: number }>,
+): Promise<StockTransfer> {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const transfer = await getTransferWithItems(id)
+
+  if (transfer.status !== "draft") {
+    throw new Error(`Cannot dispatch a transfer that is ${transfer.status}`)
+  }
+
+  const items = transfer.stock_transfer_items.map((item) => {
+    const quantity =
+      dispatchedItems?.find((dispatched) => dispatched.item_id === item.id)?.quantity ?? item.quantity_requested
+
+    if (quantity > item.quantity_requested) {
+      throw new Error("Cannot dispatch more than was requested")
+    }
+
+    return { item_id: item.id, quantity }
+  })
+
+  // The status claim and every item's stock move happen in one transaction
+  const { data, error } = await supabase.rpc("dispatch_stock_transfer", {
+    p_transfer_id: id,
+    p_items: items,
+    p_user_id: user.id,
+  })
+
+  if (error) {
+    throw toStockError(error, "dispatch stock transfer")
+  }
+
+  revalidatePath("/admin/inventory/transfers")
+  revalidatePath("/admin/inventory")
+  return data
+}
+
+export async function markStockTransferInTransit(
+  id: string,
+  shipping: { carrier?: string; tracking_number?: string; shipping_cost?: number },
+): Promise<StockTransfer> {
+  const supabase = createClient()
+
+  const transfer = await getTransferWithItems(id)
+
+  if (transfer.status !== "dispatched") {
+    throw new Error(`Cannot mark a transfer that is ${transfer.status} as in transit`)
+  }
+
+  const { data, error } = await supabase
+    .from("stock_transfers")
+    .update({
+      status: "in_transit",
+      in_transit_at: new Date().toISOString(),
+      carrier: shipping.carrier,
+      tracking_number: shipping.tracking_number,
+      shipping_cost: shipping.shipping_cost,
+    })
+    .eq("id", id)
+    .eq("status", "dispatched")
+    .select()
+
+  if (error) {
+    throw new Error(`Failed to update stock transfer: ${error.message}`)
+  }
+  if (!data || data.length === 0) {
+    throw new StockConflictError("The transfer changed while it was being updated. Reload and try again.")
+  }
+
+  revalidatePath("/admin/inventory/transfers")
+  return data[0]
+}
+
+export async function receiveStockTransfer(
+  id: string,
+  receivedItems: Array<{ item_id: string; quantity_received: number; quantity_damaged?: number; notes?: string }>,
+): Promise<StockTransfer> {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const transfer = await getTransferWithItems(id)
+
+  if (transfer.status !== "dispatched" && transfer.status !== "in_transit") {
+    throw new Error(`Cannot receive a transfer that is ${transfer.status}`)
+  }
+
+  // Short and damaged units also leave products.inventory_quantity, in the same transaction
+  const { data, error } = await supabase.rpc("receive_stock_transfer", {
+    p_transfer_id: id,
+    p_items: receivedItems,
+    p_user_id: user.id,
+  })
+
+  if (error) {
+    throw toStockError(error, "receive stock transfer")
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "stock_transfer_received",
+    resource_type: "stock_transfer",
+    resource_id: id,
+    old_values: { status: transfer.status },
+    new_values: { status: "received", has_discrepancy: data.has_discrepancy },
+  })
+
+  revalidatePath("/admin/inventory/transfers")
+  revalidatePath("/admin/inventory")
+  return data
+}
+
+export async function cancelStockTransfer(id: string, reason?: string): Promise<StockTransfer> {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const transfer = await getTransferWithItems(id)
+
+  if (transfer.status === "received" || transfer.status === "cancelled") {
+    throw new Error(`Cannot cancel a transfer that is ${transfer.status}`)
+  }
+
+  // Dispatched stock goes back to the source warehouse in the same transaction as the status change
+  const { data, error } = await supabase.rpc("cancel_stock_transfer", {
+    p_transfer_id: id,
+    p_reason: reason || null,
+    p_user_id: user.id,
+  })
+
+  if (error) {
+    throw toStockError(error, "cancel stock transfer")
+  }
+
+  revalidatePath("/admin/inventory/transfers")
+  revalidatePath("/admin/inventory")
+  return data
+}
@@ -0,0 +1,482 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { revalidatePath } from "next/cache"
+import {
+  findStorageViolations,
+  getFreeCapacity,
+  getStorageMismatches,
+  getStorageRequirement,
+  suggestPutawayBin,
+  type PutawaySuggestion,
+  type StorageBin,
+  type StorageClass,
+  type StorageRequirement,
+} from "@/lib/inventory/putaway"
+
+export interface StorageBinRecord extends StorageBin {
+  zone?: string | null
+  aisle?: string | null
+  shelf?: string | null
+  notes?: string | null
+  warehouse_name: string
+  batch_count: number
+}
+
+export interface StorageBinData {
+  warehouse_id: string
+  code: string
+  zone?: string
+  aisle?: string
+  shelf?: string
+  storage_class?: StorageClass
+  max_temperature?: number | null
+  capacity?: number | null
+  notes?: string
+}
+
+export interface PendingPutaway {
+  batch_id: string
+  batch_number: string
+  product_id: string
+  product_name: string
+  warehouse_id: string | null
+  quantity: number
+  requirement: StorageRequirement
+  suggestion: PutawaySuggestion | null
+}
+
+export interface BinMovement {
+  id: string
+  batch_id: string
+  batch_number?: string
+  product_name?: string
+  from_bin_code?: string | null
+  to_bin_code?: string
+  quantity: number
+  movement_type: "putaway" | "move"
+  reason?: string | null
+  created_at: string
+}
+
+export interface StorageComplianceLine {
+  batch_id: string
+  batch_number: string
+  product_id: string
+  product_name: string
+  storage_conditions: string | null
+  bin_id: string
+  bin_code: string
+  warehouse_name: string
+  quantity: number
+  reasons: string[]
+}
+
+const BATCH_SELECT = `
+  id,
+  product_id,
+  batch_number,
+  warehouse_id,
+  bin_id,
+  suggested_bin_id,
+  quantity_received,
+  quantity_available,
+  quality_status,
+  homeopathy_products (
+    name,
+    storage_type,
+    storage_conditions
+  )
+`
+
+// Quarantined stock is not available yet but still takes up space
+function getBatchUnits(batch: any) {
+  return batch.quality_status === "quarantine" ? batch.quantity_received || 0 : batch.quantity_available || 0
+}
+
+function revalidateBinPaths() {
+  revalidatePath("/admin/inventory/bins")
+  revalidatePath("/admin/inventory/batches")
+}
+
+export async function getStorageBins(warehouseId?: string): Promise<StorageBinRecord[]> {
+  const supabase = createClient()
+
+  let query = supabase.from("storage_bins").select(`
+      *,
+      warehouses (
+        name
+      )
+    `)
+
+  if (warehouseId) {
+    query = query.eq("warehouse_id", warehouseId)
+  }
+
+  const { data: bins, error } = await query.order("code")
+
+  if (error) {
+    throw new Error(`Failed to fetch storage bins: ${error.message}`)
+  }
+
+  const binIds = (bins || []).map((bin: any) => bin.id)
+  const { data: batches, error: batchesError } =
+    binIds.length > 0
+      ? await supabase
+          .from("product_batches")
+          .select("bin_id, quantity_received, quantity_available, quality_status")
+          .in("bin_id", binIds)
+          .eq("is_active", true)
+      : { data: [], error: null }
+
+  if (batchesError) {
+    throw new Error(`Failed to fetch bin contents: ${batchesError.message}`)
+  }
+
+  const occupied = new Map<string, { units: number; batches: number }>()
+  for (const batch of batches || []) {
+    const units = getBatchUnits(batch)
+    if (units <= 0) continue
+    const current = occupied.get(batch.bin_id) || { units: 0, batches: 0 }
+    occupied.set(batch.bin_id, { units: current.units + units, batches: current.batches + 1 })
+  }
+
+  return (bins || []).map((bin: any) => ({
+    ...bin,
+    max_temperature: bin.max_temperature === null ? null : Number(bin.max_temperature),
+    warehouse_name: bin.warehouses?.name || "Unknown",
+    occupied: occupied.get(bin.id)?.units || 0,
+    batch_count: occupied.get(bin.id)?.batches || 0,
+  }))
+}
+
+export async function createStorageBin(binData: StorageBinData) {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("storage_bins")
+    .insert({
+      ...binData,
+      code: binData.code.trim().toUpperCase(),
+      storage_class: binData.storage_class || "standard",
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create storage bin: ${error.message}`)
+  }
+
+  revalidateBinPaths()
+  return data
+}
+
+export async function updateStorageBin(id: string, updates: Partial<StorageBinData> & { is_active?: boolean }) {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("storage_bins")
+    .update({ ...updates, ...(updates.code && { code: updates.code.trim().toUpperCase() }) })
+    .eq("id", id)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to update storage bin: ${error.message}`)
+  }
+
+  revalidateBinPaths()
+  return data
+}
+
+async function getBatchForPutaway(batchId: string) {
+  const supabase = createClient()
+
+  const { data: batch, error } = await supabase.from("product_batches").select(BATCH_SELECT).eq("id", batchId).single()
+
+  if (error) {
+    throw new Error(`Failed to fetch batch: ${error.message}`)
+  }
+
+  return batch as any
+}
+
+// Bins already holding each product, so putaway can keep a product together
+async function getProductBinIds(productIds: string[]) {
+  const supabase = createClient()
+  const byProduct = new Map<string, string[]>()
+  if (productIds.length === 0) return byProduct
+
+  const { data, error } = await supabase
+    .from("product_batches")
+    .select("product_id, bin_id")
+    .in("product_id", [...new Set(productIds)])
+    .eq("is_active", true)
+    .not("bin_id", "is", null)
+
+  if (error) {
+    throw new Error(`Failed to fetch product bins: ${error.message}`)
+  }
+
+  for (const batch of data || []) {
+    byProduct.set(batch.product_id, [...(byProduct.get(batch.product_id) || []), batch.bin_id])
+  }
+  return byProduct
+}
+
+function suggestBin(batch: any, bins: StorageBinRecord[], productBinIds: Map<string, string[]>) {
+  return suggestPutawayBin(bins, getStorageRequirement(batch.homeopathy_products || {}), getBatchUnits(batch), {
+    warehouse_id: batch.warehouse_id,
+    product_bin_ids: productBinIds.get(batch.product_id),
+  })
+}
+
+// Called when a batch is received; the suggestion is kept on the batch for the putaway list
+export async function suggestPutawayForBatch(batchId: string) {
+  const supabase = createClient()
+  const batch = await getBatchForPutaway(batchId)
+  const suggestion = suggestBin(
+    batch,
+    await getStorageBins(batch.warehouse_id || undefined),
+    await getProductBinIds([batch.product_id]),
+  )
+
+  const { error } = await supabase
+    .from("product_batches")
+    .update({ suggested_bin_id: suggestion?.bin_id ?? null })
+    .eq("id", batchId)
+
+  if (error) {
+    throw new Error(`Failed to save putaway suggestion: ${error.message}`)
+  }
+
+  return suggestion
+}
+
+export async function getPendingPutaways(warehouseId?: string): Promise<PendingPutaway[]> {
+  const supabase = createClient()
+
+  let query = supabase
+    .from("product_batches")
+    .select(BATCH_SELECT)
+    .is("bin_id", null)
+    .eq("is_active", true)
+    .neq("quality_status", "rejected")
+
+  if (warehouseId) {
+    query = query.eq("warehouse_id", warehouseId)
+  }
+
+  const { data: batches, error } = await query.order("created_at")
+
+  if (error) {
+    throw new Error(`Failed to fetch batches awaiting putaway: ${error.message}`)
+  }
+
+  const pending = (batches || []).filter((batch: any) => getBatchUnits(batch) > 0)
+  const bins = await getStorageBins(warehouseId)
+  const productBinIds = await getProductBinIds(pending.map((batch: any) => batch.product_id))
+
+  return pending.map((batch: any) => ({
+    batch_id: batch.id,
+    batch_number: batch.batch_number,
+    product_id: batch.product_id,
+    product_name: batch.homeopathy_products?.name || "Unknown Product",
+    warehouse_id: batch.warehouse_id,
+    quantity: getBatchUnits(batch),
+    requirement: getStorageRequirement(batch.homeopathy_products || {}),
+    suggestion: suggestBin(batch, bins, productBinIds),
+  }))
+}
+
+// Puts a batch into a bin, or moves it to another one; the bin must suit the product and have room
+async function placeBatch(batchId: string, binId: string, movementType: "putaway" | "move", reason?: string) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const batch = await getBatchForPutaway(batchId)
+  if (movementType === "putaway" && batch.bin_id) {
+    throw new Error("The batch has already been put away; move it instead")
+  }
+  if (movementType === "move" && !batch.bin_id) {
+    throw new Error("The batch has not been put away yet")
+  }
+  if (batch.bin_id === binId) {
+    throw new Error("The batch is already in this bin")
+  }
+
+  const [bin] = (await getStorageBins()).filter((candidate) => candidate.id === binId)
+  if (!bin || !bin.is_active) {
+    throw new Error("Bin not found or inactive")
+  }
+  if (batch.warehouse_id && bin.warehouse_id !== batch.warehouse_id) {
+    throw new Error(`Bin ${bin.code} is in another warehouse; transfer the stock first`)
+  }
+
+  const mismatches = getStorageMismatches(bin, getStorageRequirement(batch.homeopathy_products || {}))
+  if (mismatches.length > 0) {
+    throw new Error(`Bin ${bin.code} does not suit this batch: ${mismatches.join("; ")}`)
+  }
+
+  const quantity = getBatchUnits(batch)
+  if (getFreeCapacity(bin) < quantity) {
+    throw new Error(`Bin ${bin.code} has room for ${getFreeCapacity(bin)}, the batch holds ${quantity}`)
+  }
+
+  const { error: movementError } = await supabase.from("bin_movements").insert({
+    batch_id: batchId,
+    product_id: batch.product_id,
+    from_bin_id: batch.bin_id,
+    to_bin_id: binId,
+    quantity,
+    movement_type: movementType,
+    reason: reason || null,
+    moved_by: user.id,
+  })
+
+  if (movementError) {
+    throw new Error(`Failed to record bin movement: ${movementError.message}`)
+  }
+
+  const { data, error } = await supabase
+    .from("product_batches")
+    .update({ bin_id: binId, storage_location: bin.code, updated_at: new Date().toISOString() })
+    .eq("id", batchId)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to update batch location: ${error.message}`)
+  }
+
+  revalidateBinPaths()
+  return data
+}
+
+// Without a bin the batch goes where it was suggested
+export async function putawayBatch(batchId: string, binId?: string) {
+  const target =
+    binId ||
+    (await getBatchForPutaway(batchId)).suggested_bin_id ||
+    (await suggestPutawayForBatch(batchId))?.bin_id
+  if (!target) {
+    throw new Error("No suitable bin with enough room; choose a bin")
+  }
+  return placeBatch(batchId, target, "putaway", binId ? "Putaway" : "Putaway to suggested bin")
+}
+
+export async function moveBatchToBin(batchId: string, binId: string, reason?: string) {
+  return placeBatch(batchId, binId, "move", reason)
+}
+
+export async function getBinMovements(filters?: { batch_id?: string; bin_id?: string; limit?: number }) {
+  const supabase = createClient()
+
+  let query = supabase.from("bin_movements").select(`
+      *,
+      product_batches (
+        batch_number
+      ),
+      homeopathy_products (
+        name
+      ),
+      from_bin:storage_bins!bin_movements_from_bin_id_fkey (
+        code
+      ),
+      to_bin:storage_bins!bin_movements_to_bin_id_fkey (
+        code
+      )
+    `)
+
+  if (filters?.batch_id) {
+    query = query.eq("batch_id", filters.batch_id)
+  }
+  if (filters?.bin_id) {
+    query = query.or(`from_bin_id.eq.${filters.bin_id},to_bin_id.eq.${filters.bin_id}`)
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: false }).limit(filters?.limit || 100)
+
+  if (error) {
+    throw new Error(`Failed to fetch bin movements: ${error.message}`)
+  }
+
+  return (data || []).map((movement: any) => ({
+    ...movement,
+    batch_number: movement.product_batches?.batch_number,
+    product_name: movement.homeopathy_products?.name,
+    from_bin_code: movement.from_bin?.code ?? null,
+    to_bin_code: movement.to_bin?.code,
+  })) as BinMovement[]
+}
+
+// Batches held in bins that no longer suit them: the product's conditions changed, the bin was reclassified,
+// or stock was placed before bins were checked
+export async function getStorageComplianceReport(warehouseId?: string): Promise<StorageComplianceLine[]> {
+  const supabase = createClient()
+
+  let query = supabase
+    .from("product_batches")
+    .select(`
+      ${BATCH_SELECT},
+      storage_bins!product_batches_bin_id_fkey (
+        id,
+        code,
+        storage_class,
+        max_temperature,
+        warehouses (
+          name
+        )
+      )
+    `)
+    .not("bin_id", "is", null)
+    .eq("is_active", true)
+
+  if (warehouseId) {
+    query = query.eq("warehouse_id", warehouseId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch stored batches: ${error.message}`)
+  }
+
+  const stored = (data || []).filter((batch: any) => batch.storage_bins && getBatchUnits(batch) > 0)
+  const batchById = new Map<string, any>(stored.map((batch: any) => [batch.id, batch]))
+
+  const violations = findStorageViolations(
+    stored.map((batch: any) => ({
+      batch_id: batch.id,
+      bin: {
+        ...batch.storage_bins,
+        max_temperature:
+          batch.storage_bins.max_temperature === null ? null : Number(batch.storage_bins.max_temperature),
+      },
+      requirement: getStorageRequirement(batch.homeopathy_products || {}),
+    })),
+  )
+
+  return violations.map((violation) => {
+    const batch = batchById.get(violation.batch_id)
+    return {
+      batch_id: batch.id,
+      batch_number: batch.batch_number,
+      product_id: batch.product_id,
+      product_name: batch.homeopathy_products?.name || "Unknown Product",
+      storage_conditions: batch.homeopathy_products?.storage_conditions || null,
+      bin_id: violation.bin_id,
+      bin_code: batch.storage_bins.code,
+      warehouse_name: batch.storage_bins.warehouses?.name || "Unknown",
+      quantity: getBatchUnits(batch),
+      reasons: violation.reasons,
+    }
+  })
+}
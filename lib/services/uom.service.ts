@@ -0,0 +1,121 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { revalidatePath } from "next/cache"
+import {
+  convertToStockUnits,
+  validateUnitConfig,
+  UnitConversionError,
+  type ProductUnit,
+  type ProductUnitConfig,
+  type UnitConversion,
+} from "@/lib/inventory/uom"
+import { toStockError } from "@/lib/inventory/stock-errors"
+
+export interface UnitLine {
+  product_id: string
+  quantity: number
+  unit?: string | null
+  unit_price?: number
+}
+
+export async function getProductUnitConfigs(productIds: string[]): Promise<Map<string, ProductUnitConfig>> {
+  const supabase = createClient()
+  const ids = [...new Set(productIds)]
+  if (ids.length === 0) return new Map()
+
+  const { data, error } = await supabase
+    .from("homeopathy_products")
+    .select("id, stock_unit, unit_of_measure, product_units (unit, factor, is_purchase_default, is_sales_default)")
+    .in("id", ids)
+
+  if (error) {
+    throw new Error(`Failed to fetch product units: ${error.message}`)
+  }
+
+  return new Map(
+    (data || []).map((product: any) => [
+      product.id,
+      {
+        stock_unit: product.stock_unit || product.unit_of_measure || "pieces",
+        units: (product.product_units || []).map((unit: any) => ({
+          unit: unit.unit,
+          factor: Number(unit.factor),
+          is_purchase_default: unit.is_purchase_default,
+          is_sales_default: unit.is_sales_default,
+        })),
+      },
+    ]),
+  )
+}
+
+export async function getProductUnitConfig(productId: string): Promise<ProductUnitConfig> {
+  const configs = await getProductUnitConfigs([productId])
+  const config = configs.get(productId)
+  if (!config) {
+    throw new Error("Product not found")
+  }
+  return config
+}
+
+// Converts each line to the product's stock unit; lines without a unit are already in it
+export async function convertLinesToStockUnits<T extends UnitLine>(
+  lines: T[],
+): Promise<Array<T & { conversion: UnitConversion }>> {
+  const configs = await getProductUnitConfigs(lines.filter((line) => line.unit).map((line) => line.product_id))
+
+  return lines.map((line) => {
+    const config = configs.get(line.product_id)
+    if (line.unit && !config) {
+      throw new UnitConversionError(`Product ${line.product_id} has no units set up; enter the quantity in stock units`)
+    }
+    return {
+      ...line,
+      conversion: convertToStockUnits(config || { stock_unit: "", units: [] }, line.quantity, line.unit, line.unit_price),
+    }
+  })
+}
+
+export async function updateProductUnits(productId: string, config: ProductUnitConfig) {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  validateUnitConfig(config)
+  const previous = await getProductUnitConfig(productId)
+
+  // Stock unit and unit list change together, and the stock unit stays put while the product has stock
+  const { error } = await supabase.rpc("replace_product_units", {
+    p_product_id: productId,
+    p_stock_unit: config.stock_unit.trim(),
+    p_units: config.units.map((unit: ProductUnit) => ({
+      unit: unit.unit,
+      factor: unit.factor,
+      is_purchase_default: unit.is_purchase_default || false,
+      is_sales_default: unit.is_sales_default || false,
+    })),
+  })
+
+  if (error) {
+    throw toStockError(error, "update product units")
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "product_units_updated",
+    resource_type: "product",
+    resource_id: productId,
+    old_values: previous,
+    new_values: config,
+  })
+
+  revalidatePath(`/admin/products/${productId}/units`)
+  revalidatePath("/admin/products")
+  return getProductUnitConfig(productId)
+}
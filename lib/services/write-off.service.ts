@@ -0,0 +1,699 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { revalidatePath } from "next/cache"
+import { StockConflictError, toStockError } from "@/lib/inventory/stock-errors"
+
+export type WriteOffStatus = "draft" | "pending_approval" | "approved" | "rejected" | "cancelled"
+export type WriteOffReason = "expired" | "breakage" | "leakage" | "sample" | "dead_stock"
+
+export interface StockWriteOffItem {
+  id: string
+  write_off_id: string
+  batch_id: string
+  product_id: string
+  product_name?: string
+  warehouse_id?: string | null
+  batch_number: string
+  expiry_date?: string | null
+  reason: WriteOffReason
+  quantity: number
+  unit_cost: number
+  total_value: number
+  notes?: string | null
+}
+
+export interface StockWriteOffPhoto {
+  id: string
+  write_off_id: string
+  item_id?: string | null
+  storage_path: string
+  file_name?: string | null
+  content_type?: string | null
+  url?: string | null
+  created_at: string
+}
+
+export interface StockWriteOff {
+  id: string
+  write_off_number: string
+  status: WriteOffStatus
+  total_quantity: number
+  total_value: number
+  approval_threshold?: number | null
+  requires_approval: boolean
+  notes?: string | null
+  created_by?: string | null
+  submitted_at?: string | null
+  approved_by?: string | null
+  approved_at?: string | null
+  rejected_at?: string | null
+  rejection_reason?: string | null
+  posted_at?: string | null
+  created_at: string
+  items_count?: number
+}
+
+export interface CreateWriteOffData {
+  notes?: string
+  items: Array<{
+    batch_id: string
+    quantity: number
+    reason: WriteOffReason
+    notes?: string
+  }>
+}
+
+export interface WriteOffRegisterLine {
+  id: string
+  write_off_id: string
+  write_off_number: string
+  posted_at: string
+  product_id: string
+  product_name: string
+  batch_number: string
+  expiry_date?: string | null
+  reason: WriteOffReason
+  quantity: number
+  unit_cost: number
+  total_value: number
+  approved_by_name?: string | null
+}
+
+const DEFAULT_APPROVAL_THRESHOLD = 5000
+const PHOTO_BUCKET = "write-off-photos"
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024
+
+function revalidateWriteOffPaths() {
+  revalidatePath("/admin/inventory")
+  revalidatePath("/admin/inventory/batches")
+  revalidatePath("/admin/inventory/expiry-alerts")
+  revalidatePath("/admin/inventory/write-offs")
+}
+
+function generateWriteOffNumber() {
+  const timestamp = Date.now().toString().slice(-6)
+  const random = Math.floor(Math.random() * 1000)
+    .toString()
+    .padStart(3, "0")
+  return `WO-${timestamp}-${random}`
+}
+
+async function getApprovalThreshold() {
+  const supabase = createClient()
+
+  const { data } = await supabase
+    .from("application_settings")
+    .select("value")
+    .eq("key", "stock_write_off_approval_threshold")
+    .maybeSingle()
+
+  const threshold = Number.parseFloat(data?.value || "")
+  return Number.isFinite(threshold) && threshold >= 0 ? threshold : DEFAULT_APPROVAL_THRESHOLD
+}
+
+async function getWriteOffWithItems(id: string) {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("stock_write_offs")
+    .select("*, stock_write_off_items (*)")
+    .eq("id", id)
+    .single()
+
+  if (error || !data) {
+    throw new Error("Write-off not found")
+  }
+
+  return data as StockWriteOff & { stock_write_off_items: StockWriteOffItem[] }
+}
+
+// Posts the document from its current status: the status claim, product stock, batch movements and the
+// approved status are written in one transaction, so a document posts at most once and never half way
+async function postWriteOff(
+  writeOff: StockWriteOff & { stock_write_off_items: StockWriteOffItem[] },
+  fromStatus: "draft" | "pending_approval",
+  userId: string,
+  approvalThreshold?: number,
+): Promise<StockWriteOff> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc("post_stock_write_off", {
+    p_write_off_id: writeOff.id,
+    p_from_status: fromStatus,
+    p_changes: writeOff.stock_write_off_items.map((item) => ({
+      product_id: item.product_id,
+      quantity_change: -item.quantity,
+      movement_type: "adjustment",
+      reason: `Write-off ${writeOff.write_off_number}: ${item.reason} (batch ${item.batch_number})`,
+      reference_type: "WRITE_OFF",
+      reference_id: writeOff.id,
+      unit_cost: item.unit_cost,
+    })),
+    p_user_id: userId,
+    p_approval_threshold: approvalThreshold ?? null,
+  })
+
+  if (error) {
+    throw toStockError(error, "post write-off")
+  }
+
+  // Batches written off to nothing close their expiry alerts with the right reason rather than "stock cleared"
+  const { data: clearedBatches } = await supabase
+    .from("product_batches")
+    .select("id")
+    .in("id", [...new Set(writeOff.stock_write_off_items.map((item) => item.batch_id))])
+    .eq("quantity_available", 0)
+
+  const clearedBatchIds = (clearedBatches || []).map((batch: any) => batch.id)
+
+  if (clearedBatchIds.length > 0) {
+    const { data: resolvedAlerts } = await supabase
+      .from("expiry_alerts")
+      .update({
+        status: "resolved",
+        resolution: "written_off",
+        resolution_notes: `Write-off ${writeOff.write_off_number}`,
+        resolved_by: userId,
+        resolved_at: new Date().toISOString(),
+        snoozed_until: null,
+      })
+      .in("batch_id", clearedBatchIds)
+      .neq("status", "resolved")
+      .select("id")
+
+    if (resolvedAlerts?.length) {
+      await supabase.from("expiry_alert_events").insert(
+        resolvedAlerts.map((alert: any) => ({
+          alert_id: alert.id,
+          action: "resolved",
+          to_status: "resolved",
+          details: { resolution: "written_off", write_off_id: writeOff.id },
+          performed_by: userId,
+        })),
+      )
+    }
+  }
+
+  return data
+}
+
+export async function getWriteOffs(filters?: { status?: WriteOffStatus }): Promise<StockWriteOff[]> {
+  const supabase = createClient()
+
+  let query = supabase.from("stock_write_offs").select("*, stock_write_off_items (id)")
+
+  if (filters?.status) {
+    query = query.eq("status", filters.status)
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch write-offs: ${error.message}`)
+  }
+
+  return (data || []).map(({ stock_write_off_items, ...writeOff }: any) => ({
+    ...writeOff,
+    items_count: stock_write_off_items?.length || 0,
+  }))
+}
+
+export async function getWriteOff(id: string) {
+  const supabase = createClient()
+
+  const writeOff = await getWriteOffWithItems(id)
+
+  const productIds = [...new Set(writeOff.stock_write_off_items.map((item) => item.product_id))]
+  const { data: products } = await supabase.from("homeopathy_products").select("id, name").in("id", productIds)
+
+  const { data: photos, error: photosError } = await supabase
+    .from("stock_write_off_photos")
+    .select("*")
+    .eq("write_off_id", id)
+    .order("created_at", { ascending: true })
+
+  if (photosError) {
+    throw new Error(`Failed to fetch write-off photos: ${photosError.message}`)
+  }
+
+  // The bucket is private, so photos are shown through short-lived signed links
+  const photosWithUrls: StockWriteOffPhoto[] = await Promise.all(
+    (photos || []).map(async (photo: any) => {
+      const { data } = await supabase.storage.from(PHOTO_BUCKET).createSignedUrl(photo.storage_path, 60 * 60)
+      return { ...photo, url: data?.signedUrl || null }
+    }),
+  )
+
+  const { stock_write_off_items, ...document } = writeOff
+  return {
+    writeOff: document as StockWriteOff,
+    items: stock_write_off_items.map((item) => ({
+      ...item,
+      product_name: products?.find((product: any) => product.id === item.product_id)?.name || "Unknown Product",
+    })),
+    photos: photosWithUrls,
+  }
+}
+
+export async function createWriteOff(writeOffData: CreateWriteOffData): Promise<StockWriteOff> {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  if (!writeOffData.items || writeOffData.items.length === 0) {
+    throw new Error("Write-off must contain at least one batch")
+  }
+
+  if (writeOffData.items.some((item) => !Number.isInteger(item.quantity) || item.quantity <= 0)) {
+    throw new Error("Write-off quantities must be whole numbers above zero")
+  }
+
+  const batchIds = [...new Set(writeOffData.items.map((item) => item.batch_id))]
+  const { data: batches, error: batchesError } = await supabase
+    .from("product_batches")
+    .select("id, product_id, warehouse_id, batch_number, expiry_date, quantity_available, purchase_price, landed_cost")
+    .in("id", batchIds)
+
+  if (batchesError) {
+    throw new Error(`Failed to fetch batches: ${batchesError.message}`)
+  }
+
+  // A recalled batch leaves stock through its recall, not a write-off
+  const { data: recalls } = await supabase
+    .from("batch_recalls")
+    .select("batch_number")
+    .in("batch_id", batchIds)
+    .neq("status", "closed")
+
+  if (recalls && recalls.length > 0) {
+    throw new Error(`Batch ${recalls[0].batch_number} is under recall; record its destruction on the recall instead`)
+  }
+
+  const items = writeOffData.items.map((item) => {
+    const batch = batches?.find((b: any) => b.id === item.batch_id)
+    if (!batch) {
+      throw new Error("Batch not found")
+    }
+
+    const requested = writeOffData.items
+      .filter((other) => other.batch_id === item.batch_id)
+      .reduce((sum, other) => sum + other.quantity, 0)
+    if (requested > batch.quantity_available) {
+      throw new Error(`Batch ${batch.batch_number} only has ${batch.quantity_available} available`)
+    }
+
+    const unitCost = Number(batch.landed_cost ?? batch.purchase_price ?? 0)
+    return {
+      batch_id: batch.id,
+      product_id: batch.product_id,
+      warehouse_id: batch.warehouse_id,
+      batch_number: batch.batch_number,
+      expiry_date: batch.expiry_date,
+      reason: item.reason,
+      quantity: item.quantity,
+      unit_cost: unitCost,
+      total_value: Math.round(unitCost * item.quantity * 100) / 100,
+      notes: item.notes,
+    }
+  })
+
+  const { data: writeOff, error } = await supabase
+    .from("stock_write_offs")
+    .insert({
+      write_off_number: generateWriteOffNumber(),
+      status: "draft",
+      total_quantity: items.reduce((sum, item) => sum + item.quantity, 0),
+      total_value: items.reduce((sum, item) => sum + item.total_value, 0),
+      notes: writeOffData.notes,
+      created_by: user.id,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create write-off: ${error.message}`)
+  }
+
+  const { error: itemsError } = await supabase
+    .from("stock_write_off_items")
+    .insert(items.map((item) => ({ ...item, write_off_id: writeOff.id })))
+
+  if (itemsError) {
+    // Rollback write-off creation
+    await supabase.from("stock_write_offs").delete().eq("id", writeOff.id)
+    throw new Error(`Failed to create write-off items: ${itemsError.message}`)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "stock_write_off_created",
+    resource_type: "stock_write_off",
+    resource_id: writeOff.id,
+    new_values: { write_off_number: writeOff.write_off_number, total_value: writeOff.total_value },
+  })
+
+  revalidateWriteOffPaths()
+  return writeOff
+}
+
+export async function uploadWriteOffPhoto(writeOffId: string, formData: FormData): Promise<StockWriteOffPhoto> {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const file = formData.get("photo")
+  if (!(file instanceof File) || file.size === 0) {
+    throw new Error("Choose a photo to attach")
+  }
+  if (!file.type.startsWith("image/")) {
+    throw new Error("Only image files can be attached")
+  }
+  if (file.size > MAX_PHOTO_BYTES) {
+    throw new Error("Photos must be 5 MB or smaller")
+  }
+
+  const { data: writeOff } = await supabase.from("stock_write_offs").select("status").eq("id", writeOffId).single()
+  if (!writeOff) {
+    throw new Error("Write-off not found")
+  }
+  if (writeOff.status !== "draft" && writeOff.status !== "pending_approval") {
+    throw new Error(`Cannot attach photos to a write-off that is ${writeOff.status}`)
+  }
+
+  const extension = file.name.includes(".") ? file.name.split(".").pop() : "jpg"
+  const storagePath = `${writeOffId}/${Date.now()}-${Math.floor(Math.random() * 1000)}.${extension}`
+
+  const { error: uploadError } = await supabase.storage
+    .from(PHOTO_BUCKET)
+    .upload(storagePath, file, { contentType: file.type })
+
+  if (uploadError) {
+    throw new Error(`Failed to upload photo: ${uploadError.message}`)
+  }
+
+  const itemId = formData.get("item_id")
+  const { data, error } = await supabase
+    .from("stock_write_off_photos")
+    .insert({
+      write_off_id: writeOffId,
+      item_id: typeof itemId === "string" && itemId ? itemId : null,
+      storage_path: storagePath,
+      file_name: file.name,
+      content_type: file.type,
+      uploaded_by: user.id,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    await supabase.storage.from(PHOTO_BUCKET).remove([storagePath])
+    throw new Error(`Failed to save photo: ${error.message}`)
+  }
+
+  revalidatePath("/admin/inventory/write-offs")
+  return data
+}
+
+// Below the threshold the document posts immediately; above it, it waits for a manager
+export async function submitWriteOff(id: string): Promise<StockWriteOff> {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const writeOff = await getWriteOffWithItems(id)
+
+  if (writeOff.status !== "draft") {
+    throw new Error(`Cannot submit a write-off that is ${writeOff.status}`)
+  }
+
+  const { count: photoCount } = await supabase
+    .from("stock_write_off_photos")
+    .select("id", { count: "exact", head: true })
+    .eq("write_off_id", id)
+
+  // Breakage and leakage need evidence; expired stock speaks for itself through its batch record
+  const needsPhoto = writeOff.stock_write_off_items.some(
+    (item) => item.reason === "breakage" || item.reason === "leakage",
+  )
+  if (needsPhoto && !photoCount) {
+    throw new Error("Attach at least one photo of the damaged stock before submitting")
+  }
+
+  const threshold = await getApprovalThreshold()
+  const requiresApproval = Number(writeOff.total_value) > threshold
+  let data: StockWriteOff
+
+  if (requiresApproval) {
+    // Conditional on the status read, so a document submitted twice at once goes for approval only once
+    const { data: claimed, error } = await supabase
+      .from("stock_write_offs")
+      .update({
+        status: "pending_approval",
+        approval_threshold: threshold,
+        requires_approval: true,
+        submitted_by: user.id,
+        submitted_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .eq("status", "draft")
+      .select()
+
+    if (error) {
+      throw new Error(`Failed to submit write-off: ${error.message}`)
+    }
+    if (!claimed || claimed.length === 0) {
+      throw new StockConflictError("The write-off changed while it was being submitted. Reload and try again.")
+    }
+    data = claimed[0]
+  } else {
+    data = await postWriteOff(writeOff, "draft", user.id, threshold)
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: requiresApproval ? "stock_write_off_submitted" : "stock_write_off_posted",
+    resource_type: "stock_write_off",
+    resource_id: id,
+    new_values: {
+      write_off_number: writeOff.write_off_number,
+      total_value: writeOff.total_value,
+      approval_threshold: threshold,
+    },
+  })
+
+  revalidateWriteOffPaths()
+  return data
+}
+
+export async function approveWriteOff(id: string): Promise<StockWriteOff> {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const { data: profile } = await supabase.from("profiles").select("role").eq("id", user.id).single()
+  if (!profile || !["admin", "manager"].includes(profile.role)) {
+    throw new Error("Only managers can approve write-offs")
+  }
+
+  const writeOff = await getWriteOffWithItems(id)
+
+  if (writeOff.status !== "pending_approval") {
+    throw new Error("Only write-offs awaiting approval can be approved")
+  }
+
+  if (writeOff.created_by === user.id) {
+    throw new Error("Write-offs must be approved by someone other than the person who raised them")
+  }
+
+  const data = await postWriteOff(writeOff, "pending_approval", user.id)
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "stock_write_off_approved",
+    resource_type: "stock_write_off",
+    resource_id: id,
+    new_values: { write_off_number: writeOff.write_off_number, total_value: writeOff.total_value },
+  })
+
+  revalidateWriteOffPaths()
+  return data
+}
+
+export async function rejectWriteOff(id: string, reason: string): Promise<StockWriteOff> {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+  if (userError || !user) {
+    throw new Error("Authentication required")
+  }
+
+  const { data: profile } = await supabase.from("profiles").select("role").eq("id", user.id).single()
+  if (!profile || !["admin", "manager"].includes(profile.role)) {
+    throw new Error("Only managers can reject write-offs")
+  }
+
+  if (!reason.trim()) {
+    throw new Error("Give a reason for rejecting the write-off")
+  }
+
+  const { data: writeOff } = await supabase.from("stock_write_offs").select("status").eq("id", id).single()
+  if (!writeOff) {
+    throw new Error("Write-off not found")
+  }
+  if (writeOff.status !== "pending_approval") {
+    throw new Error("Only write-offs awaiting approval can be rejected")
+  }
+
+  const { data, error } = await supabase
+    .from("stock_write_offs")
+    .update({
+      status: "rejected",
+      rejected_by: user.id,
+      rejected_at: new Date().toISOString(),
+      rejection_reason: reason,
+    })
+    .eq("id", id)
+    .eq("status", "pending_approval")
+    .select()
+
+  if (error) {
+    throw new Error(`Failed to reject write-off: ${error.message}`)
+  }
+  if (!data || data.length === 0) {
+    throw new StockConflictError("The write-off changed while it was being rejected. Reload and try again.")
+  }
+
+  await supabase.from("activity_logs").insert({
+    user_id: user.id,
+    action: "stock_write_off_rejected",
+    resource_type: "stock_write_off",
+    resource_id: id,
+    new_values: { rejection_reason: reason },
+  })
+
+  revalidateWriteOffPaths()
+  return data[0]
+}
+
+export async function cancelWriteOff(id: string): Promise<StockWriteOff> {
+  const supabase = createClient()
+
+  const { data: writeOff } = await supabase.from("stock_write_offs").select("status").eq("id", id).single()
+
+  if (!writeOff) {
+    throw new Error("Write-off not found")
+  }
+
+  if (writeOff.status !== "draft" && writeOff.status !== "pending_approval") {
+    throw new Error(`Cannot cancel a write-off that is ${writeOff.status}`)
+  }
+
+  const { data, error } = await supabase
+    .from("stock_write_offs")
+    .update({ status: "cancelled" })
+    .eq("id", id)
+    .eq("status", writeOff.status)
+    .select()
+
+  if (error) {
+    throw new Error(`Failed to cancel write-off: ${error.message}`)
+  }
+  if (!data || data.length === 0) {
+    throw new StockConflictError("The write-off changed while it was being cancelled. Reload and try again.")
+  }
+
+  revalidateWriteOffPaths()
+  return data[0]
+}
+
+// Posted write-off lines for a period, as filed with the tax return
+export async function getWriteOffRegister(filters: {
+  from: string
+  to: string
+  reason?: WriteOffReason
+}): Promise<WriteOffRegisterLine[]> {
+  const supabase = createClient()
+
+  let query = supabase
+    .from("stock_write_off_items")
+    .select(`
+      *,
+      stock_write_offs!inner (
+        write_off_number,
+        status,
+        posted_at,
+        approver:profiles!stock_write_offs_approved_by_fkey (
+          first_name,
+          last_name
+        )
+      )
+    `)
+    .eq("stock_write_offs.status", "approved")
+    .gte("stock_write_offs.posted_at", new Date(`${filters.from}T00:00:00`).toISOString())
+    .lte("stock_write_offs.posted_at", new Date(`${filters.to}T23:59:59.999`).toISOString())
+
+  if (filters.reason) {
+    query = query.eq("reason", filters.reason)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch write-off register: ${error.message}`)
+  }
+
+  const productIds = [...new Set((data || []).map((item: any) => item.product_id))]
+  const { data: products } = await supabase.from("homeopathy_products").select("id, name").in("id", productIds)
+
+  return (data || [])
+    .map((item: any) => {
+      const approver = item.stock_write_offs?.approver
+      return {
+        id: item.id,
+        write_off_id: item.write_off_id,
+        write_off_number: item.stock_write_offs?.write_off_number,
+        posted_at: item.stock_write_offs?.posted_at,
+        product_id: item.product_id,
+        product_name: products?.find((product: any) => product.id === item.product_id)?.name || "Unknown Product",
+        batch_number: item.batch_number,
+        expiry_date: item.expiry_date,
+        reason: item.reason,
+        quantity: item.quantity,
+        unit_cost: Number(item.unit_cost),
+        total_value: Number(item.total_value),
+        approved_by_name: approver ? [approver.first_name, approver.last_name].filter(Boolean).join(" ") : null,
+      }
+    })
+    .sort(
+      (a: WriteOffRegisterLine, b: WriteOffRegisterLine) =>
+        a.posted_at.localeCompare(b.posted_at) || a.write_off_number.localeCompare(b.write_off_number),
+    )
+}
@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from "node:async_hooks"
 import { createServerClient, type CookieOptions } from "@supabase/ssr"
 import { cookies } from "next/headers"
 import { cache } from "react"
@@ -10,8 +11,38 @@ export const isSupabaseConfigured =
   typeof process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY === "string" &&
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY.length > 0
 
+// Scheduled jobs run without a signed-in user. While one runs, createClient returns this service-role client
+// instead of the cookie-based one, so the services it calls need no changes.
+const serviceRoleScope = new AsyncLocalStorage<ReturnType<typeof createServerClient<Database>>>()
+
+export function runWithServiceRole<T>(job: () => Promise<T>): Promise<T> {
+  if (!isSupabaseConfigured || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error("Scheduled jobs need NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY")
+  }
+
+  const client = createServerClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY,
+    {
+      // No session to read or refresh
+      cookies: {
+        get: () => undefined,
+        set: () => {},
+        remove: () => {},
+      },
+    },
+  )
+
+  return serviceRoleScope.run(client, job)
+}
+
 // Create a cached version of the Supabase client for Server Components
 export const createClient = cache(() => {
+  const serviceClient = serviceRoleScope.getStore()
+  if (serviceClient) {
+    return serviceClient
+  }
+
   const cookieStore = cookies()
 
   if (!isSupabaseConfigured) {
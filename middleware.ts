@@ -93,6 +93,8 @@ export async function middleware(request: NextRequest) {
   const isPublicRoute =
     request.nextUrl.pathname === "/" ||
     request.nextUrl.pathname.startsWith("/api/public") ||
+    // Scheduled jobs have no session; the route checks CRON_SECRET itself
+    request.nextUrl.pathname.startsWith("/api/cron") ||
     request.nextUrl.pathname.startsWith("/products") ||
     request.nextUrl.pathname.startsWith("/categories")
 
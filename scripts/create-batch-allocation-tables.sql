@@ -0,0 +1,131 @@
+-- Batch allocations for order lines (FEFO picking)
+-- Records which product batch supplied each order line so sales can be traced back to a batch
+
+CREATE TABLE IF NOT EXISTS order_item_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    order_item_id UUID NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL,
+    batch_id UUID NOT NULL REFERENCES product_batches(id),
+    batch_number VARCHAR(50) NOT NULL,
+    expiry_date DATE NOT NULL,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    unit_cost DECIMAL(10,2),
+    status VARCHAR(20) DEFAULT 'allocated' CHECK (status IN ('allocated', 'shipped', 'released')),
+    allocated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    shipped_at TIMESTAMP WITH TIME ZONE,
+    released_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Batch movements can now point at the order line they were drawn for
+ALTER TABLE batch_movements ADD COLUMN IF NOT EXISTS reference_number VARCHAR(50);
+
+CREATE INDEX IF NOT EXISTS idx_order_item_batches_order_id ON order_item_batches(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_item_batches_order_item_id ON order_item_batches(order_item_id);
+CREATE INDEX IF NOT EXISTS idx_order_item_batches_batch_id ON order_item_batches(batch_id);
+CREATE INDEX IF NOT EXISTS idx_order_item_batches_status ON order_item_batches(status);
+CREATE INDEX IF NOT EXISTS idx_batch_movements_reference ON batch_movements(reference_type, reference_id);
+CREATE INDEX IF NOT EXISTS idx_product_batches_fefo ON product_batches(product_id, expiry_date) WHERE quality_status = 'approved' AND is_active = true;
+
+COMMENT ON TABLE order_item_batches IS 'First-expiry-first-out batch allocations per order line, used for batch traceability';
+
+-- A batch can never be drawn below zero, whoever writes the movement
+ALTER TABLE product_batches DROP CONSTRAINT IF EXISTS product_batches_quantity_available_check;
+ALTER TABLE product_batches ADD CONSTRAINT product_batches_quantity_available_check
+    CHECK (quantity_available >= 0) NOT VALID;
+
+-- Records a planned allocation for one order line in one transaction. Each batch is locked before its stock
+-- is checked, so two orders planned from the same read cannot both take the last units: the later one
+-- fails with ST409 and nothing it wrote is kept. The OUT movements draw the batches down through the
+-- update_batch_quantity trigger.
+CREATE OR REPLACE FUNCTION allocate_order_item_batches(
+    p_order_id UUID,
+    p_order_number VARCHAR,
+    p_order_item_id UUID,
+    p_allocations JSONB,
+    p_user_id UUID
+)
+RETURNS SETOF order_item_batches AS $$
+DECLARE
+    v_line JSONB;
+    v_batch product_batches;
+    v_quantity INTEGER;
+    v_allocation order_item_batches;
+BEGIN
+    -- Batches are locked in a fixed order so concurrent allocations cannot deadlock
+    FOR v_line IN
+        SELECT value FROM jsonb_array_elements(p_allocations) ORDER BY value->>'batch_id'
+    LOOP
+        v_quantity := (v_line->>'quantity')::INTEGER;
+
+        SELECT * INTO v_batch FROM product_batches WHERE id = (v_line->>'batch_id')::UUID FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Batch not found' USING ERRCODE = 'ST404';
+        ELSIF v_batch.quantity_available < v_quantity THEN
+            RAISE EXCEPTION 'Batch % has % units left, % were planned for order %',
+                v_batch.batch_number, v_batch.quantity_available, v_quantity, p_order_number
+                USING ERRCODE = 'ST409';
+        END IF;
+
+        INSERT INTO order_item_batches (
+            order_id, order_item_id, product_id, kit_product_id, batch_id, batch_number, expiry_date,
+            quantity, unit_cost, list_price, unit_price, markdown_id
+        ) VALUES (
+            p_order_id, p_order_item_id, (v_line->>'product_id')::UUID, (v_line->>'kit_product_id')::UUID,
+            v_batch.id, v_batch.batch_number, v_batch.expiry_date, v_quantity,
+            (v_line->>'unit_cost')::DECIMAL, (v_line->>'list_price')::DECIMAL, (v_line->>'unit_price')::DECIMAL,
+            (v_line->>'markdown_id')::UUID
+        )
+        RETURNING * INTO v_allocation;
+
+        INSERT INTO batch_movements (
+            batch_id, movement_type, quantity, reference_type, reference_id, reference_number,
+            unit_cost, total_value, reason, performed_by
+        ) VALUES (
+            v_batch.id, 'OUT', v_quantity, 'SALE', p_order_id, p_order_number,
+            (v_line->>'unit_cost')::DECIMAL, v_quantity * COALESCE((v_line->>'unit_cost')::DECIMAL, 0),
+            v_line->>'reason', p_user_id
+        );
+
+        RETURN NEXT v_allocation;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION allocate_order_item_batches IS 'Locks, checks and draws down the batches planned for an order line in one transaction';
+
+-- Gives an order's unshipped batch allocations back. The allocations are claimed by the status update itself,
+-- so overlapping calls (expiry sweeps, cancellations) each return only the rows they released, and the RETURN
+-- movements are written from those rows in the same transaction.
+CREATE OR REPLACE FUNCTION release_order_batch_allocations(p_order_id UUID, p_reason TEXT, p_user_id UUID)
+RETURNS SETOF order_item_batches AS $$
+DECLARE
+    v_allocation order_item_batches;
+    v_quantity INTEGER;
+BEGIN
+    FOR v_allocation IN
+        UPDATE order_item_batches
+        SET status = 'released', released_at = NOW()
+        WHERE order_id = p_order_id AND status = 'allocated'
+        RETURNING *
+    LOOP
+        v_quantity := v_allocation.quantity - COALESCE(v_allocation.quantity_shipped, 0);
+
+        IF v_quantity > 0 THEN
+            INSERT INTO batch_movements (
+                batch_id, movement_type, quantity, reference_type, reference_id,
+                unit_cost, total_value, reason, performed_by
+            ) VALUES (
+                v_allocation.batch_id, 'RETURN', v_quantity, 'SALE', p_order_id,
+                v_allocation.unit_cost, v_quantity * COALESCE(v_allocation.unit_cost, 0), p_reason, p_user_id
+            );
+        END IF;
+
+        RETURN NEXT v_allocation;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION release_order_batch_allocations IS 'Claims an order''s allocated batches and returns their unshipped units in one transaction';
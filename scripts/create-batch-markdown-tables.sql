@@ -0,0 +1,67 @@
+-- Expiry markdown schedules
+-- A rule lists steps such as 10% off from 90 days before expiry, 25% from 60 and 40% from 30, scoped to
+-- every product, a category, a brand or one product, with a floor of cost plus a minimum margin. The markdown
+-- scheduler records the markdown each batch should carry in batch_markdowns and reverts it when the batch
+-- moves to another step, sells out or expires. product_batches.selling_price is never changed; the price a
+-- batch sells at is resolved from its live markdown when it is allocated to an order.
+
+CREATE TABLE IF NOT EXISTS batch_markdown_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    description TEXT,
+    scope_type VARCHAR(20) NOT NULL DEFAULT 'all' CHECK (scope_type IN ('all', 'category', 'brand', 'product')),
+    scope_id UUID,
+    -- [{"days_before_expiry": 90, "discount_percentage": 10}, ...]
+    steps JSONB NOT NULL DEFAULT '[]',
+    min_margin_percentage DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (min_margin_percentage >= 0),
+    is_active BOOLEAN DEFAULT true,
+    created_by UUID REFERENCES profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (scope_type = 'all' OR scope_id IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS batch_markdowns (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID NOT NULL REFERENCES product_batches(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL,
+    rule_id UUID REFERENCES batch_markdown_rules(id) ON DELETE SET NULL,
+    source VARCHAR(20) NOT NULL DEFAULT 'schedule' CHECK (source IN ('schedule', 'manual')),
+    days_before_expiry INTEGER,
+    discount_percentage DECIMAL(5,2) NOT NULL CHECK (discount_percentage > 0 AND discount_percentage < 100),
+    original_price DECIMAL(10,2) NOT NULL,
+    markdown_price DECIMAL(10,2) NOT NULL CHECK (markdown_price >= 0),
+    floor_price DECIMAL(10,2),
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'superseded', 'reverted')),
+    starts_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    -- Manual markdowns can be given an end; scheduled ones end when the batch leaves the step
+    ends_at TIMESTAMP WITH TIME ZONE,
+    applied_by UUID REFERENCES profiles(id),
+    reverted_at TIMESTAMP WITH TIME ZONE,
+    revert_reason VARCHAR(30), -- next_step, sold_out, expired, rule_removed, ended, manual
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- At most one live markdown per batch
+CREATE UNIQUE INDEX IF NOT EXISTS idx_batch_markdowns_active ON batch_markdowns(batch_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_batch_markdowns_rule_id ON batch_markdowns(rule_id);
+CREATE INDEX IF NOT EXISTS idx_batch_markdown_rules_scope ON batch_markdown_rules(scope_type, scope_id);
+
+CREATE TRIGGER update_batch_markdown_rules_updated_at BEFORE UPDATE ON batch_markdown_rules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_batch_markdowns_updated_at BEFORE UPDATE ON batch_markdowns FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- The price each allocated unit actually sold at, and the markdown that set it
+ALTER TABLE order_item_batches ADD COLUMN IF NOT EXISTS list_price DECIMAL(10,2);
+ALTER TABLE order_item_batches ADD COLUMN IF NOT EXISTS unit_price DECIMAL(10,2);
+ALTER TABLE order_item_batches ADD COLUMN IF NOT EXISTS markdown_id UUID REFERENCES batch_markdowns(id);
+CREATE INDEX IF NOT EXISTS idx_order_item_batches_markdown_id ON order_item_batches(markdown_id) WHERE markdown_id IS NOT NULL;
+
+INSERT INTO batch_markdown_rules (name, description, scope_type, steps, min_margin_percentage) VALUES
+('Standard expiry markdown', '10% at 90 days, 25% at 60 days and 40% at 30 days before expiry, never below cost', 'all',
+ '[{"days_before_expiry": 90, "discount_percentage": 10}, {"days_before_expiry": 60, "discount_percentage": 25}, {"days_before_expiry": 30, "discount_percentage": 40}]',
+ 0)
+ON CONFLICT (name) DO NOTHING;
+
+COMMENT ON TABLE batch_markdown_rules IS 'Stepped expiry markdown schedules with a cost-plus-margin price floor';
+COMMENT ON TABLE batch_markdowns IS 'Markdowns applied to batches over time; the active row sets the price the batch sells at';
@@ -0,0 +1,169 @@
+-- Quality control on goods receipt
+-- Received batches start in quarantine with a pending inspection and nothing available to sell.
+-- The inspector works through the checklist and signs off: accepted units become available,
+-- rejected units are held back on the batch and queued for return to the supplier.
+-- Errors: ST404 inspection not found, ST409 already signed off, ST422 quantities do not add up
+
+ALTER TABLE product_batches ALTER COLUMN quality_status SET DEFAULT 'quarantine';
+ALTER TABLE product_batches ADD COLUMN IF NOT EXISTS quantity_rejected INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS batch_qc_inspections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID NOT NULL UNIQUE REFERENCES product_batches(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'passed', 'partial', 'failed')),
+    -- Checklist
+    label_ok BOOLEAN,
+    seal_ok BOOLEAN,
+    expiry_ok BOOLEAN,
+    breakage_found BOOLEAN,
+    sample_count INTEGER CHECK (sample_count >= 0),
+    -- Outcome
+    quantity_received INTEGER NOT NULL,
+    quantity_accepted INTEGER,
+    quantity_rejected INTEGER,
+    rejection_reason TEXT,
+    notes TEXT,
+    inspected_by UUID REFERENCES profiles(id),
+    signed_off_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Rejected stock waiting to go back to the supplier
+CREATE TABLE IF NOT EXISTS supplier_return_queue (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID NOT NULL REFERENCES product_batches(id),
+    product_id UUID NOT NULL,
+    supplier_id UUID REFERENCES suppliers(id),
+    inspection_id UUID REFERENCES batch_qc_inspections(id),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    unit_cost DECIMAL(10,2),
+    reason TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'dispatched', 'credited', 'cancelled')),
+    debit_note_number VARCHAR(100),
+    dispatched_at TIMESTAMP WITH TIME ZONE,
+    credited_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_qc_inspections_status ON batch_qc_inspections(status);
+CREATE INDEX IF NOT EXISTS idx_supplier_return_queue_status ON supplier_return_queue(status);
+CREATE INDEX IF NOT EXISTS idx_supplier_return_queue_supplier_id ON supplier_return_queue(supplier_id);
+
+CREATE TRIGGER update_batch_qc_inspections_updated_at BEFORE UPDATE ON batch_qc_inspections FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_supplier_return_queue_updated_at BEFORE UPDATE ON supplier_return_queue FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Movements no longer make stock available while the batch waits for inspection,
+-- and units rejected at inspection never count
+CREATE OR REPLACE FUNCTION update_batch_quantity()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE product_batches
+    SET quantity_available = CASE
+            WHEN EXISTS (SELECT 1 FROM batch_qc_inspections WHERE batch_id = NEW.batch_id AND status = 'pending') THEN 0
+            ELSE quantity_received - quantity_rejected -
+                COALESCE((SELECT SUM(quantity) FROM batch_movements
+                          WHERE batch_id = NEW.batch_id AND movement_type = 'OUT'), 0) -
+                COALESCE((SELECT SUM(quantity) FROM batch_movements
+                          WHERE batch_id = NEW.batch_id AND movement_type = 'DAMAGE'), 0) +
+                COALESCE((SELECT SUM(quantity) FROM batch_movements
+                          WHERE batch_id = NEW.batch_id AND movement_type = 'RETURN'), 0)
+        END,
+        updated_at = NOW()
+    WHERE id = NEW.batch_id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION sign_off_batch_inspection(
+    p_inspection_id UUID,
+    p_checklist JSONB,
+    p_quantity_accepted INTEGER,
+    p_rejection_reason TEXT,
+    p_notes TEXT,
+    p_user_id UUID
+) RETURNS batch_qc_inspections AS $$
+DECLARE
+    v_inspection batch_qc_inspections;
+    v_batch product_batches;
+    v_rejected INTEGER;
+    v_status VARCHAR(20);
+BEGIN
+    SELECT * INTO v_inspection FROM batch_qc_inspections WHERE id = p_inspection_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Inspection not found' USING ERRCODE = 'ST404';
+    END IF;
+
+    IF v_inspection.status <> 'pending' THEN
+        RAISE EXCEPTION 'Inspection has already been signed off' USING ERRCODE = 'ST409';
+    END IF;
+
+    IF p_quantity_accepted < 0 OR p_quantity_accepted > v_inspection.quantity_received THEN
+        RAISE EXCEPTION 'Accepted quantity must be between 0 and %', v_inspection.quantity_received USING ERRCODE = 'ST422';
+    END IF;
+
+    v_rejected := v_inspection.quantity_received - p_quantity_accepted;
+
+    IF v_rejected > 0 AND COALESCE(TRIM(p_rejection_reason), '') = '' THEN
+        RAISE EXCEPTION 'A reason is required for rejected units' USING ERRCODE = 'ST422';
+    END IF;
+
+    v_status := CASE
+        WHEN v_rejected = 0 THEN 'passed'
+        WHEN p_quantity_accepted = 0 THEN 'failed'
+        ELSE 'partial'
+    END;
+
+    UPDATE batch_qc_inspections
+    SET status = v_status,
+        label_ok = (p_checklist->>'label_ok')::BOOLEAN,
+        seal_ok = (p_checklist->>'seal_ok')::BOOLEAN,
+        expiry_ok = (p_checklist->>'expiry_ok')::BOOLEAN,
+        breakage_found = (p_checklist->>'breakage_found')::BOOLEAN,
+        sample_count = (p_checklist->>'sample_count')::INTEGER,
+        quantity_accepted = p_quantity_accepted,
+        quantity_rejected = v_rejected,
+        rejection_reason = p_rejection_reason,
+        notes = p_notes,
+        inspected_by = p_user_id,
+        signed_off_at = NOW()
+    WHERE id = p_inspection_id
+    RETURNING * INTO v_inspection;
+
+    UPDATE product_batches
+    SET quantity_rejected = v_rejected,
+        quality_status = CASE WHEN p_quantity_accepted > 0 THEN 'approved' ELSE 'rejected' END,
+        is_active = p_quantity_accepted > 0,
+        updated_at = NOW()
+    WHERE id = v_inspection.batch_id
+    RETURNING * INTO v_batch;
+
+    -- Re-run the quantity calculation now that the inspection is no longer pending
+    UPDATE product_batches
+    SET quantity_available = quantity_received - quantity_rejected -
+            COALESCE((SELECT SUM(quantity) FROM batch_movements
+                      WHERE batch_id = v_batch.id AND movement_type IN ('OUT', 'DAMAGE')), 0) +
+            COALESCE((SELECT SUM(quantity) FROM batch_movements
+                      WHERE batch_id = v_batch.id AND movement_type = 'RETURN'), 0)
+    WHERE id = v_batch.id;
+
+    IF v_rejected > 0 THEN
+        INSERT INTO supplier_return_queue (
+            batch_id, product_id, supplier_id, inspection_id, quantity, unit_cost, reason, created_by
+        ) VALUES (
+            v_batch.id, v_batch.product_id, v_batch.supplier_id, v_inspection.id, v_rejected,
+            COALESCE(v_batch.landed_cost, v_batch.purchase_price), p_rejection_reason, p_user_id
+        );
+    END IF;
+
+    RETURN v_inspection;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE batch_qc_inspections IS 'Goods-receipt QC checklist and sign-off, one per batch';
+COMMENT ON TABLE supplier_return_queue IS 'Stock rejected at inspection, waiting to be returned to and credited by the supplier';
+COMMENT ON COLUMN product_batches.quantity_rejected IS 'Units rejected at QC; never available for sale';
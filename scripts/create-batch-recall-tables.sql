@@ -0,0 +1,236 @@
+-- Batch recalls
+-- A recall quarantines one product batch, lists every order line (and so every customer and doctor)
+-- that received units from it, tracks the notices sent to them and the units coming back from customers
+-- and going back to the supplier, until the recall is closed.
+
+CREATE TABLE IF NOT EXISTS batch_recalls (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    recall_number VARCHAR(50) UNIQUE NOT NULL,
+    batch_id UUID NOT NULL REFERENCES product_batches(id),
+    product_id UUID NOT NULL,
+    batch_number VARCHAR(50) NOT NULL,
+    reason TEXT NOT NULL,
+    manufacturer_reference VARCHAR(100),
+    severity VARCHAR(20) NOT NULL DEFAULT 'major' CHECK (severity IN ('critical', 'major', 'minor')),
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'closed')),
+    previous_quality_status VARCHAR(20),
+    quantity_in_stock INTEGER NOT NULL DEFAULT 0, -- on the shelf when the batch was quarantined
+    quantity_distributed INTEGER NOT NULL DEFAULT 0, -- already with customers
+    quantity_returned_by_customers INTEGER NOT NULL DEFAULT 0,
+    quantity_returned_to_supplier INTEGER NOT NULL DEFAULT 0,
+    quantity_destroyed INTEGER NOT NULL DEFAULT 0,
+    opened_by UUID REFERENCES profiles(id),
+    opened_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    closed_by UUID REFERENCES profiles(id),
+    closed_at TIMESTAMP WITH TIME ZONE,
+    closure_notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Everyone who received units from the batch, one row per order line allocation (two when part of it had
+-- shipped: the shipped units, and the rest that was reallocated or held)
+CREATE TABLE IF NOT EXISTS batch_recall_recipients (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    recall_id UUID NOT NULL REFERENCES batch_recalls(id) ON DELETE CASCADE,
+    order_id UUID NOT NULL REFERENCES orders(id),
+    order_item_id UUID REFERENCES order_items(id),
+    order_number VARCHAR(50) NOT NULL,
+    customer_id UUID REFERENCES profiles(id),
+    customer_name VARCHAR(200),
+    customer_email VARCHAR(255),
+    customer_phone VARCHAR(20),
+    customer_type VARCHAR(20),
+    is_doctor BOOLEAN DEFAULT false,
+    allocation_status VARCHAR(20) NOT NULL, -- shipped, or held when the order had not left yet
+    quantity_supplied INTEGER NOT NULL,
+    quantity_returned INTEGER NOT NULL DEFAULT 0,
+    notice_status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (notice_status IN ('pending', 'sent', 'acknowledged', 'not_required')),
+    notice_channel VARCHAR(20), -- in_app, email, phone
+    notice_sent_at TIMESTAMP WITH TIME ZONE,
+    acknowledged_at TIMESTAMP WITH TIME ZONE,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Units coming back from customers and going back to the supplier (or destroyed)
+CREATE TABLE IF NOT EXISTS batch_recall_returns (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    recall_id UUID NOT NULL REFERENCES batch_recalls(id) ON DELETE CASCADE,
+    recipient_id UUID REFERENCES batch_recall_recipients(id),
+    return_type VARCHAR(20) NOT NULL CHECK (return_type IN ('customer_return', 'supplier_return', 'destroyed')),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    reference_number VARCHAR(100), -- customer return slip, supplier debit note, destruction certificate
+    notes TEXT,
+    recorded_by UUID REFERENCES profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_recalls_batch_id ON batch_recalls(batch_id);
+CREATE INDEX IF NOT EXISTS idx_batch_recalls_status ON batch_recalls(status);
+CREATE INDEX IF NOT EXISTS idx_batch_recall_recipients_recall_id ON batch_recall_recipients(recall_id);
+CREATE INDEX IF NOT EXISTS idx_batch_recall_recipients_customer_id ON batch_recall_recipients(customer_id);
+CREATE INDEX IF NOT EXISTS idx_batch_recall_returns_recall_id ON batch_recall_returns(recall_id);
+
+-- Only one live recall per batch
+CREATE UNIQUE INDEX IF NOT EXISTS idx_batch_recalls_open_batch ON batch_recalls(batch_id) WHERE status <> 'closed';
+
+CREATE TRIGGER update_batch_recalls_updated_at BEFORE UPDATE ON batch_recalls FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_batch_recall_recipients_updated_at BEFORE UPDATE ON batch_recall_recipients FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE batch_recalls IS 'Manufacturer or internal recalls of a product batch, from quarantine to closure';
+COMMENT ON TABLE batch_recall_recipients IS 'Traceability report: orders, customers and doctors that received units from a recalled batch';
+COMMENT ON TABLE batch_recall_returns IS 'Recalled units returned by customers, sent back to the supplier or destroyed';
+
+-- Takes the unshipped units of one allocation off an order and back onto the recalled batch. A partly shipped
+-- allocation keeps the units that went out; an unshipped one is released. Returns the units pulled back.
+CREATE OR REPLACE FUNCTION pull_back_recalled_allocation(p_allocation_id UUID, p_recall_id UUID, p_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_allocation order_item_batches;
+    v_recall batch_recalls;
+    v_order_number VARCHAR(50);
+    v_shipped INTEGER;
+    v_quantity INTEGER;
+BEGIN
+    SELECT * INTO v_recall FROM batch_recalls WHERE id = p_recall_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Recall % not found', p_recall_id USING ERRCODE = 'ST404';
+    END IF;
+
+    SELECT * INTO v_allocation
+    FROM order_item_batches
+    WHERE id = p_allocation_id AND status = 'allocated'
+    FOR UPDATE;
+
+    -- Shipped or released since it was read; nothing left to pull back
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+
+    v_shipped := COALESCE(v_allocation.quantity_shipped, 0);
+    v_quantity := v_allocation.quantity - v_shipped;
+    IF v_quantity <= 0 THEN
+        RETURN 0;
+    END IF;
+
+    SELECT order_number INTO v_order_number FROM orders WHERE id = v_allocation.order_id;
+
+    INSERT INTO batch_movements (
+        batch_id, movement_type, quantity, reference_type, reference_id, reference_number,
+        unit_cost, total_value, reason, performed_by
+    ) VALUES (
+        v_allocation.batch_id, 'RETURN', v_quantity, 'RECALL', v_recall.id, v_recall.recall_number,
+        v_allocation.unit_cost, v_quantity * COALESCE(v_allocation.unit_cost, 0),
+        'Pulled from order ' || COALESCE(v_order_number, v_allocation.order_id::TEXT) || ' for recall ' || v_recall.recall_number,
+        p_user_id
+    );
+
+    IF v_shipped > 0 THEN
+        UPDATE order_item_batches
+        SET quantity = v_shipped, status = 'shipped', shipped_at = NOW()
+        WHERE id = v_allocation.id;
+    ELSE
+        UPDATE order_item_batches
+        SET status = 'released', released_at = NOW()
+        WHERE id = v_allocation.id;
+    END IF;
+
+    RETURN v_quantity;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION pull_back_recalled_allocation IS 'Returns the unshipped units of an allocation to a recalled batch and closes the allocation in one transaction';
+
+-- Records units coming back from a customer, going back to the supplier or destroyed. The recall is locked so
+-- counters and the quarantine check see every earlier return; a customer can never return more than they received.
+CREATE OR REPLACE FUNCTION record_recall_return(
+    p_recall_id UUID,
+    p_return_type VARCHAR,
+    p_quantity INTEGER,
+    p_recipient_id UUID,
+    p_reference_number VARCHAR,
+    p_notes TEXT,
+    p_user_id UUID
+)
+RETURNS batch_recall_returns AS $$
+DECLARE
+    v_recall batch_recalls;
+    v_batch product_batches;
+    v_recipient batch_recall_recipients;
+    v_return batch_recall_returns;
+    v_reason TEXT;
+BEGIN
+    SELECT * INTO v_recall FROM batch_recalls WHERE id = p_recall_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Recall % not found', p_recall_id USING ERRCODE = 'ST404';
+    END IF;
+
+    IF v_recall.status = 'closed' THEN
+        RAISE EXCEPTION 'Recall % is closed', v_recall.recall_number USING ERRCODE = 'ST409';
+    END IF;
+
+    SELECT * INTO v_batch FROM product_batches WHERE id = v_recall.batch_id FOR UPDATE;
+
+    IF p_return_type = 'customer_return' THEN
+        UPDATE batch_recall_recipients
+        SET quantity_returned = quantity_returned + p_quantity
+        WHERE id = p_recipient_id
+          AND recall_id = p_recall_id
+          AND quantity_returned + p_quantity <= quantity_supplied
+        RETURNING * INTO v_recipient;
+
+        IF NOT FOUND THEN
+            SELECT * INTO v_recipient FROM batch_recall_recipients WHERE id = p_recipient_id AND recall_id = p_recall_id;
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Recall recipient % not found', p_recipient_id USING ERRCODE = 'ST404';
+            END IF;
+            RAISE EXCEPTION 'Order % only received % units, % already returned',
+                v_recipient.order_number, v_recipient.quantity_supplied, v_recipient.quantity_returned
+                USING ERRCODE = 'ST422';
+        END IF;
+
+        v_reason := 'Recall ' || v_recall.recall_number || ': returned from order ' || v_recipient.order_number;
+    ELSE
+        IF p_quantity > COALESCE(v_batch.quantity_available, 0) THEN
+            RAISE EXCEPTION 'Only % units of the batch are held in quarantine', COALESCE(v_batch.quantity_available, 0)
+                USING ERRCODE = 'ST422';
+        END IF;
+
+        v_reason := 'Recall ' || v_recall.recall_number || ': ' ||
+            CASE WHEN p_return_type = 'destroyed' THEN 'destroyed' ELSE 'returned to supplier' END;
+    END IF;
+
+    INSERT INTO batch_movements (
+        batch_id, movement_type, quantity, reference_type, reference_id, reference_number,
+        unit_cost, total_value, reason, performed_by
+    ) VALUES (
+        v_recall.batch_id,
+        CASE p_return_type WHEN 'customer_return' THEN 'RETURN' WHEN 'supplier_return' THEN 'OUT' ELSE 'DAMAGE' END,
+        p_quantity, 'RECALL', v_recall.id, COALESCE(p_reference_number, v_recall.recall_number),
+        COALESCE(v_batch.purchase_price, 0), p_quantity * COALESCE(v_batch.purchase_price, 0), v_reason, p_user_id
+    );
+
+    INSERT INTO batch_recall_returns (
+        recall_id, recipient_id, return_type, quantity, reference_number, notes, recorded_by
+    ) VALUES (
+        v_recall.id, v_recipient.id, p_return_type, p_quantity, p_reference_number, p_notes, p_user_id
+    )
+    RETURNING * INTO v_return;
+
+    UPDATE batch_recalls
+    SET quantity_returned_by_customers = quantity_returned_by_customers
+            + CASE WHEN p_return_type = 'customer_return' THEN p_quantity ELSE 0 END,
+        quantity_returned_to_supplier = quantity_returned_to_supplier
+            + CASE WHEN p_return_type = 'supplier_return' THEN p_quantity ELSE 0 END,
+        quantity_destroyed = quantity_destroyed
+            + CASE WHEN p_return_type = 'destroyed' THEN p_quantity ELSE 0 END,
+        status = 'in_progress'
+    WHERE id = v_recall.id;
+
+    RETURN v_return;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION record_recall_return IS 'Records a recall return, its batch movement and the recall counters in one transaction';
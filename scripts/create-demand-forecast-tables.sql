@@ -0,0 +1,27 @@
+-- Stored demand forecasts
+-- Filled by the nightly bulk run (runDemandForecasts) for every active SKU,
+-- and read by the inventory dashboards instead of recomputing forecasts on each page load
+
+CREATE TABLE IF NOT EXISTS demand_forecasts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    forecast_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    horizon_days INTEGER NOT NULL,
+    history_days INTEGER NOT NULL,
+    current_stock INTEGER NOT NULL,
+    daily_average DECIMAL(10,2),
+    trend_per_day DECIMAL(10,3),
+    forecast_total DECIMAL(12,2),
+    stockout_date DATE,
+    stockout_probability DECIMAL(5,3),
+    mape DECIMAL(8,2),
+    daily_forecast JSONB NOT NULL DEFAULT '[]',
+    seasonality JSONB,
+    generated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(product_id, forecast_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_demand_forecasts_forecast_date ON demand_forecasts(forecast_date);
+CREATE INDEX IF NOT EXISTS idx_demand_forecasts_stockout ON demand_forecasts(forecast_date, stockout_probability DESC);
+
+COMMENT ON TABLE demand_forecasts IS 'Nightly per-SKU demand forecasts with confidence bands, stockout risk and backtest MAPE';
@@ -0,0 +1,149 @@
+-- Persistent expiry alerts
+-- One alert per batch that is expired or expires within the alert horizon and still has stock. Staff can
+-- acknowledge an alert, snooze it until a date, assign it to someone and resolve it with a reason; every
+-- change is written to expiry_alert_events. sync_expiry_alerts opens, re-grades and reopens alerts and is
+-- run when the alerts screen loads (it is also safe to run from a scheduler).
+
+CREATE TABLE IF NOT EXISTS expiry_alerts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID NOT NULL REFERENCES product_batches(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL,
+    alert_type VARCHAR(30) NOT NULL CHECK (alert_type IN ('expired', 'expiring_soon', 'expiring_this_month')),
+    priority VARCHAR(10) NOT NULL CHECK (priority IN ('high', 'medium', 'low')),
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'snoozed', 'resolved')),
+    snoozed_until DATE,
+    assigned_to UUID REFERENCES profiles(id),
+    assigned_at TIMESTAMP WITH TIME ZONE,
+    acknowledged_by UUID REFERENCES profiles(id),
+    acknowledged_at TIMESTAMP WITH TIME ZONE,
+    resolved_by UUID REFERENCES profiles(id),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    -- stock_cleared is set by sync_expiry_alerts when the batch runs out without a manual resolution
+    resolution VARCHAR(30) CHECK (resolution IN ('sold', 'discounted', 'returned_to_supplier', 'written_off', 'stock_cleared')),
+    resolution_notes TEXT,
+    triggered_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (status <> 'snoozed' OR snoozed_until IS NOT NULL),
+    CHECK (status <> 'resolved' OR resolution IS NOT NULL)
+);
+
+-- Audit trail; performed_by is NULL for changes made by sync_expiry_alerts
+CREATE TABLE IF NOT EXISTS expiry_alert_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    alert_id UUID NOT NULL REFERENCES expiry_alerts(id) ON DELETE CASCADE,
+    action VARCHAR(30) NOT NULL CHECK (action IN ('opened', 'regraded', 'acknowledged', 'snoozed', 'snooze_expired', 'assigned', 'unassigned', 'resolved')),
+    from_status VARCHAR(20),
+    to_status VARCHAR(20),
+    details JSONB,
+    notes TEXT,
+    performed_by UUID REFERENCES profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- At most one unresolved alert per batch
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expiry_alerts_unresolved ON expiry_alerts(batch_id) WHERE status <> 'resolved';
+CREATE INDEX IF NOT EXISTS idx_expiry_alerts_status ON expiry_alerts(status, priority);
+CREATE INDEX IF NOT EXISTS idx_expiry_alerts_assigned_to ON expiry_alerts(assigned_to);
+CREATE INDEX IF NOT EXISTS idx_expiry_alert_events_alert_id ON expiry_alert_events(alert_id, created_at);
+
+CREATE TRIGGER update_expiry_alerts_updated_at BEFORE UPDATE ON expiry_alerts FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Opens alerts for newly qualifying batches, re-grades alerts whose batch moved closer to expiry, wakes
+-- snoozed alerts whose date has passed and resolves alerts whose batch has no stock left.
+-- Returns the number of unresolved alerts.
+CREATE OR REPLACE FUNCTION sync_expiry_alerts(p_horizon_days INTEGER DEFAULT 90)
+RETURNS INTEGER AS $$
+DECLARE
+    v_now TIMESTAMP WITH TIME ZONE := NOW();
+    v_batch RECORD;
+    v_alert RECORD;
+    v_alert_type VARCHAR(30);
+    v_priority VARCHAR(10);
+    v_alert_id UUID;
+    v_unresolved INTEGER;
+BEGIN
+    FOR v_batch IN
+        SELECT id, product_id, expiry_date
+        FROM product_batches
+        WHERE is_active = true
+          AND quantity_available > 0
+          AND expiry_date <= CURRENT_DATE + p_horizon_days
+    LOOP
+        IF v_batch.expiry_date <= CURRENT_DATE THEN
+            v_alert_type := 'expired';
+            v_priority := 'high';
+        ELSIF v_batch.expiry_date <= CURRENT_DATE + 30 THEN
+            v_alert_type := 'expiring_soon';
+            v_priority := 'medium';
+        ELSE
+            v_alert_type := 'expiring_this_month';
+            v_priority := 'low';
+        END IF;
+
+        SELECT id, alert_type, status INTO v_alert
+        FROM expiry_alerts
+        WHERE batch_id = v_batch.id AND status <> 'resolved';
+
+        IF NOT FOUND THEN
+            -- A batch resolved by hand stays quiet until it reaches the next grade
+            IF NOT EXISTS (
+                SELECT 1 FROM expiry_alerts
+                WHERE batch_id = v_batch.id AND alert_type = v_alert_type AND resolution <> 'stock_cleared'
+            ) THEN
+                INSERT INTO expiry_alerts (batch_id, product_id, alert_type, priority, triggered_at)
+                VALUES (v_batch.id, v_batch.product_id, v_alert_type, v_priority, v_now)
+                RETURNING id INTO v_alert_id;
+
+                INSERT INTO expiry_alert_events (alert_id, action, to_status, details)
+                VALUES (v_alert_id, 'opened', 'open', jsonb_build_object('alert_type', v_alert_type));
+            END IF;
+        ELSIF v_alert.alert_type <> v_alert_type THEN
+            -- A batch that becomes more urgent needs looking at again, even if it was acknowledged
+            UPDATE expiry_alerts
+            SET alert_type = v_alert_type,
+                priority = v_priority,
+                status = CASE WHEN status = 'acknowledged' THEN 'open' ELSE status END
+            WHERE id = v_alert.id;
+
+            INSERT INTO expiry_alert_events (alert_id, action, from_status, to_status, details)
+            VALUES (
+                v_alert.id, 'regraded', v_alert.status,
+                CASE WHEN v_alert.status = 'acknowledged' THEN 'open' ELSE v_alert.status END,
+                jsonb_build_object('from_alert_type', v_alert.alert_type, 'alert_type', v_alert_type)
+            );
+        END IF;
+    END LOOP;
+
+    WITH woken AS (
+        UPDATE expiry_alerts
+        SET status = 'open', snoozed_until = NULL
+        WHERE status = 'snoozed' AND snoozed_until <= CURRENT_DATE
+        RETURNING id
+    )
+    INSERT INTO expiry_alert_events (alert_id, action, from_status, to_status)
+    SELECT id, 'snooze_expired', 'snoozed', 'open' FROM woken;
+
+    FOR v_alert IN
+        SELECT ea.id, ea.status
+        FROM expiry_alerts ea
+        JOIN product_batches pb ON pb.id = ea.batch_id
+        WHERE ea.status <> 'resolved' AND (pb.quantity_available <= 0 OR pb.is_active = false)
+    LOOP
+        UPDATE expiry_alerts
+        SET status = 'resolved', resolution = 'stock_cleared', resolved_at = v_now, snoozed_until = NULL
+        WHERE id = v_alert.id;
+
+        INSERT INTO expiry_alert_events (alert_id, action, from_status, to_status, details)
+        VALUES (v_alert.id, 'resolved', v_alert.status, 'resolved', jsonb_build_object('resolution', 'stock_cleared'));
+    END LOOP;
+
+    SELECT COUNT(*) INTO v_unresolved FROM expiry_alerts WHERE status <> 'resolved';
+    RETURN v_unresolved;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT sync_expiry_alerts();
+
+COMMENT ON TABLE expiry_alerts IS 'Expiry alerts per batch with acknowledge, snooze, assignment and resolution, maintained by sync_expiry_alerts';
+COMMENT ON TABLE expiry_alert_events IS 'Audit trail of every change to an expiry alert';
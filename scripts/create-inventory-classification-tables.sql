@@ -0,0 +1,82 @@
+-- ABC / XYZ inventory classification
+-- A classification run ranks every tracked product by consumption value over the last year (ABC) and grades
+-- the variability of its weekly demand (XYZ), both from outbound inventory_movements. Each run is kept with
+-- one history row per product. The class policy for the product's ABC/XYZ cell sets its default cycle-count
+-- frequency, safety stock service level and reorder review cadence; products with a locked stock policy keep
+-- the values they were given by hand.
+
+CREATE TABLE IF NOT EXISTS inventory_class_policies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    abc_class CHAR(1) NOT NULL CHECK (abc_class IN ('A', 'B', 'C')),
+    xyz_class CHAR(1) NOT NULL CHECK (xyz_class IN ('X', 'Y', 'Z')),
+    cycle_count_frequency_days INTEGER NOT NULL CHECK (cycle_count_frequency_days > 0),
+    service_level_percentage DECIMAL(5,2) NOT NULL CHECK (service_level_percentage > 50 AND service_level_percentage < 100),
+    review_cadence_days INTEGER NOT NULL CHECK (review_cadence_days > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(abc_class, xyz_class)
+);
+
+CREATE TABLE IF NOT EXISTS inventory_classification_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    -- {"a_share": 80, "b_share": 95, "x_cv": 0.5, "y_cv": 1}
+    thresholds JSONB NOT NULL,
+    products_count INTEGER NOT NULL DEFAULT 0,
+    changed_count INTEGER NOT NULL DEFAULT 0,
+    total_consumption_value DECIMAL(14,2) NOT NULL DEFAULT 0,
+    run_by UUID REFERENCES profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS product_classifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    run_id UUID NOT NULL REFERENCES inventory_classification_runs(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    abc_class CHAR(1) NOT NULL CHECK (abc_class IN ('A', 'B', 'C')),
+    xyz_class CHAR(1) NOT NULL CHECK (xyz_class IN ('X', 'Y', 'Z')),
+    previous_abc_class CHAR(1),
+    previous_xyz_class CHAR(1),
+    consumption_value DECIMAL(14,2) NOT NULL DEFAULT 0,
+    cumulative_share DECIMAL(6,2),
+    average_weekly_demand DECIMAL(12,2),
+    weekly_demand_std DECIMAL(12,2),
+    demand_cv DECIMAL(8,3),
+    safety_stock INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(run_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_classifications_product ON product_classifications(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inventory_classification_runs_created_at ON inventory_classification_runs(created_at DESC);
+
+-- Current class and the stock policy defaults it drives
+ALTER TABLE products ADD COLUMN IF NOT EXISTS abc_class CHAR(1) CHECK (abc_class IN ('A', 'B', 'C'));
+ALTER TABLE products ADD COLUMN IF NOT EXISTS xyz_class CHAR(1) CHECK (xyz_class IN ('X', 'Y', 'Z'));
+ALTER TABLE products ADD COLUMN IF NOT EXISTS classified_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS cycle_count_frequency_days INTEGER;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS safety_stock INTEGER;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS reorder_review_days INTEGER;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS stock_policy_locked BOOLEAN DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_products_classification ON products(abc_class, xyz_class);
+
+CREATE TRIGGER update_inventory_class_policies_updated_at BEFORE UPDATE ON inventory_class_policies FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Tighter control for the high-value classes; erratic (Z) items are counted more often within their class
+INSERT INTO inventory_class_policies (abc_class, xyz_class, cycle_count_frequency_days, service_level_percentage, review_cadence_days) VALUES
+('A', 'X', 30, 98, 7),
+('A', 'Y', 30, 98, 7),
+('A', 'Z', 14, 97, 7),
+('B', 'X', 90, 95, 14),
+('B', 'Y', 90, 95, 14),
+('B', 'Z', 60, 93, 14),
+('C', 'X', 180, 90, 30),
+('C', 'Y', 180, 90, 30),
+('C', 'Z', 120, 85, 30)
+ON CONFLICT (abc_class, xyz_class) DO NOTHING;
+
+COMMENT ON TABLE inventory_class_policies IS 'Cycle-count frequency, service level and reorder review cadence per ABC/XYZ class';
+COMMENT ON TABLE inventory_classification_runs IS 'ABC/XYZ classification runs with the thresholds used';
+COMMENT ON TABLE product_classifications IS 'Class history: each product''s ABC/XYZ class and demand figures per run';
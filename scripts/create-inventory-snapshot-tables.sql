@@ -0,0 +1,104 @@
+-- Point-in-time inventory
+-- Stock per product and warehouse, or per batch (with the warehouse it sits in), as of any timestamp is
+-- rebuilt by replaying inventory_movements and batch_movements through the stock ledger entries: the
+-- position at a moment is the ledger's opening balance just after it. Replaying years of movements is
+-- slow, so a daily job stores each day's closing position in inventory_snapshots; date lookups and
+-- comparisons read those and only fall back to replaying for days without one.
+
+CREATE TABLE IF NOT EXISTS inventory_snapshots (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    snapshot_date DATE NOT NULL,
+    level VARCHAR(20) NOT NULL CHECK (level IN ('warehouse', 'batch')),
+    product_id UUID NOT NULL,
+    warehouse_id UUID,
+    batch_id UUID,
+    quantity BIGINT NOT NULL,
+    value DECIMAL(14,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One row per captured day and level, so a day with no stock still counts as captured
+CREATE TABLE IF NOT EXISTS inventory_snapshot_runs (
+    snapshot_date DATE NOT NULL,
+    level VARCHAR(20) NOT NULL CHECK (level IN ('warehouse', 'batch')),
+    row_count INTEGER NOT NULL DEFAULT 0,
+    total_quantity BIGINT NOT NULL DEFAULT 0,
+    total_value DECIMAL(14,2) NOT NULL DEFAULT 0,
+    captured_by UUID REFERENCES profiles(id),
+    captured_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (snapshot_date, level)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_snapshots_date_level ON inventory_snapshots(snapshot_date, level);
+CREATE INDEX IF NOT EXISTS idx_inventory_snapshots_product ON inventory_snapshots(product_id, snapshot_date);
+CREATE INDEX IF NOT EXISTS idx_inventory_snapshots_batch ON inventory_snapshots(batch_id) WHERE batch_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_batch_movements_batch_date ON batch_movements(batch_id, created_at);
+
+-- Stock held at p_as_of (movements recorded at that instant included)
+CREATE OR REPLACE FUNCTION get_stock_position_at(
+    p_as_of TIMESTAMP WITH TIME ZONE,
+    p_level VARCHAR DEFAULT 'warehouse'
+)
+RETURNS TABLE (
+    product_id UUID,
+    warehouse_id UUID,
+    batch_id UUID,
+    quantity BIGINT,
+    value DECIMAL
+) AS $$
+    SELECT
+        e.product_id,
+        e.warehouse_id,
+        e.batch_id,
+        SUM(CASE WHEN e.direction = 'in' THEN e.quantity ELSE -e.quantity END)::BIGINT,
+        ROUND(SUM(CASE WHEN e.direction = 'in' THEN e.value ELSE -e.value END), 2)
+    FROM get_stock_ledger_entries(
+        p_as_of + INTERVAL '1 microsecond',
+        p_as_of + INTERVAL '1 microsecond',
+        p_level
+    ) e
+    WHERE e.period = 'before'
+    GROUP BY 1, 2, 3
+    HAVING SUM(CASE WHEN e.direction = 'in' THEN e.quantity ELSE -e.quantity END) <> 0;
+$$ LANGUAGE sql STABLE;
+
+-- Stores the closing position of p_date (end of the UTC day, as the application reads it whatever the
+-- database time zone); re-running replaces it
+CREATE OR REPLACE FUNCTION capture_inventory_snapshot(
+    p_date DATE,
+    p_level VARCHAR DEFAULT 'warehouse',
+    p_user_id UUID DEFAULT NULL
+)
+RETURNS inventory_snapshot_runs AS $$
+DECLARE
+    v_run inventory_snapshot_runs;
+BEGIN
+    IF p_date >= (NOW() AT TIME ZONE 'UTC')::DATE THEN
+        RAISE EXCEPTION 'Only days that have ended can be captured';
+    END IF;
+
+    DELETE FROM inventory_snapshots WHERE snapshot_date = p_date AND level = p_level;
+
+    INSERT INTO inventory_snapshots (snapshot_date, level, product_id, warehouse_id, batch_id, quantity, value)
+    SELECT p_date, p_level, s.product_id, s.warehouse_id, s.batch_id, s.quantity, s.value
+    FROM get_stock_position_at(((p_date + 1)::TIMESTAMP AT TIME ZONE 'UTC') - INTERVAL '1 microsecond', p_level) s;
+
+    INSERT INTO inventory_snapshot_runs (snapshot_date, level, row_count, total_quantity, total_value, captured_by)
+    SELECT p_date, p_level, COUNT(*), COALESCE(SUM(quantity), 0), COALESCE(SUM(value), 0), p_user_id
+    FROM inventory_snapshots
+    WHERE snapshot_date = p_date AND level = p_level
+    ON CONFLICT (snapshot_date, level) DO UPDATE SET
+        row_count = EXCLUDED.row_count,
+        total_quantity = EXCLUDED.total_quantity,
+        total_value = EXCLUDED.total_value,
+        captured_by = EXCLUDED.captured_by,
+        captured_at = NOW()
+    RETURNING * INTO v_run;
+
+    RETURN v_run;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE inventory_snapshots IS 'Closing stock per product and warehouse or batch at the end of each captured day';
+COMMENT ON TABLE inventory_snapshot_runs IS 'Days and levels captured into inventory_snapshots, with their totals';
+COMMENT ON FUNCTION get_stock_position_at IS 'Stock per product and warehouse or batch at a moment, replayed from the stock ledger entries';
@@ -0,0 +1,55 @@
+-- Inventory valuation from batch cost layers
+-- Each product batch is a cost layer (landed cost, or purchase price when no landed cost is known).
+-- Batches remember the warehouse they were received into so valuation can break down by location.
+
+ALTER TABLE product_batches ADD COLUMN IF NOT EXISTS warehouse_id UUID REFERENCES warehouses(id);
+
+-- Running costs per product, kept current on every goods receipt
+ALTER TABLE homeopathy_products ADD COLUMN IF NOT EXISTS average_cost DECIMAL(10,2);
+ALTER TABLE homeopathy_products ADD COLUMN IF NOT EXISTS last_cost DECIMAL(10,2);
+ALTER TABLE homeopathy_products ADD COLUMN IF NOT EXISTS last_received_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_product_batches_warehouse_id ON product_batches(warehouse_id);
+CREATE INDEX IF NOT EXISTS idx_batch_movements_batch_date ON batch_movements(batch_id, created_at);
+
+-- Re-averages the product cost over stock on hand plus the new receipt
+CREATE OR REPLACE FUNCTION update_product_costs_on_receipt()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_on_hand INTEGER;
+    v_average DECIMAL(10,2);
+    v_unit_cost DECIMAL(10,2);
+BEGIN
+    IF NEW.quantity_received IS NULL OR NEW.quantity_received <= 0 THEN
+        RETURN NEW;
+    END IF;
+
+    v_unit_cost := COALESCE(NEW.landed_cost, NEW.purchase_price);
+
+    SELECT COALESCE(SUM(quantity_available), 0) INTO v_on_hand
+    FROM product_batches
+    WHERE product_id = NEW.product_id AND id <> NEW.id;
+
+    SELECT average_cost INTO v_average FROM homeopathy_products WHERE id = NEW.product_id;
+
+    UPDATE homeopathy_products
+    SET average_cost = CASE
+            WHEN v_average IS NULL OR v_on_hand <= 0 THEN v_unit_cost
+            ELSE ROUND((v_on_hand * v_average + NEW.quantity_received * v_unit_cost) / (v_on_hand + NEW.quantity_received), 2)
+        END,
+        last_cost = v_unit_cost,
+        last_received_at = NEW.created_at
+    WHERE id = NEW.product_id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_product_costs_on_receipt ON product_batches;
+CREATE TRIGGER trigger_update_product_costs_on_receipt
+    AFTER INSERT ON product_batches
+    FOR EACH ROW
+    EXECUTE FUNCTION update_product_costs_on_receipt();
+
+COMMENT ON COLUMN homeopathy_products.average_cost IS 'Perpetual weighted average unit cost, updated on goods receipt';
+COMMENT ON COLUMN homeopathy_products.last_cost IS 'Unit cost of the most recent goods receipt';
@@ -0,0 +1,96 @@
+-- Landed cost allocation
+-- A purchase order's freight, other charges and discount, plus the supplier debit and credit notes raised
+-- against it later, are spread over the batches received on it by line value, quantity or weight (chosen
+-- per purchase order). The result is stored as product_batches.landed_cost, which valuation, sale costs and
+-- margins already prefer over the purchase price. Every receipt or note reallocates the whole order.
+
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS landed_cost_method VARCHAR(20) DEFAULT 'value'
+    CHECK (landed_cost_method IN ('value', 'quantity', 'weight'));
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS landed_cost_allocated_at TIMESTAMP WITH TIME ZONE;
+
+-- Weight of one unit in grams, for allocating freight by weight
+ALTER TABLE homeopathy_products ADD COLUMN IF NOT EXISTS unit_weight DECIMAL(10,3) CHECK (unit_weight >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_product_batches_purchase_order_id ON product_batches(purchase_order_id);
+
+CREATE TABLE IF NOT EXISTS supplier_notes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    note_number VARCHAR(50) UNIQUE NOT NULL,
+    purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id),
+    supplier_id UUID REFERENCES suppliers(id),
+    -- debit: the supplier charges more (late freight, price correction up); credit: the supplier refunds
+    note_type VARCHAR(10) NOT NULL CHECK (note_type IN ('debit', 'credit')),
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    supplier_reference VARCHAR(100),
+    reason TEXT NOT NULL,
+    note_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    created_by UUID REFERENCES profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- The current allocation per batch; replaced each time the order is reallocated
+CREATE TABLE IF NOT EXISTS landed_cost_allocations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id),
+    batch_id UUID NOT NULL REFERENCES product_batches(id) ON DELETE CASCADE,
+    method VARCHAR(20) NOT NULL CHECK (method IN ('value', 'quantity', 'weight')),
+    basis DECIMAL(14,3) NOT NULL DEFAULT 0,
+    allocated_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    purchase_price DECIMAL(10,2) NOT NULL,
+    landed_unit_cost DECIMAL(10,2) NOT NULL,
+    allocated_by UUID REFERENCES profiles(id),
+    allocated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(batch_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_notes_purchase_order_id ON supplier_notes(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_landed_cost_allocations_purchase_order_id ON landed_cost_allocations(purchase_order_id);
+
+-- A batch's landed cost usually arrives after the receipt trigger has averaged it in at purchase price, so
+-- the product's running costs are corrected for the units of the batch still on hand
+CREATE OR REPLACE FUNCTION update_product_costs_on_landed_cost()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_on_hand INTEGER;
+    v_old_cost DECIMAL(10,2);
+    v_new_cost DECIMAL(10,2);
+    v_latest_id UUID;
+BEGIN
+    v_old_cost := COALESCE(OLD.landed_cost, OLD.purchase_price);
+    v_new_cost := COALESCE(NEW.landed_cost, NEW.purchase_price);
+
+    IF v_old_cost IS NOT DISTINCT FROM v_new_cost THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity_available), 0) INTO v_on_hand
+    FROM product_batches
+    WHERE product_id = NEW.product_id;
+
+    SELECT id INTO v_latest_id
+    FROM product_batches
+    WHERE product_id = NEW.product_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    UPDATE homeopathy_products
+    SET average_cost = CASE
+            WHEN v_on_hand <= 0 OR average_cost IS NULL THEN average_cost
+            ELSE ROUND(average_cost + (v_new_cost - v_old_cost) * NEW.quantity_available / v_on_hand, 2)
+        END,
+        last_cost = CASE WHEN v_latest_id = NEW.id THEN v_new_cost ELSE last_cost END
+    WHERE id = NEW.product_id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_product_costs_on_landed_cost ON product_batches;
+CREATE TRIGGER trigger_update_product_costs_on_landed_cost
+    AFTER UPDATE OF landed_cost ON product_batches
+    FOR EACH ROW
+    EXECUTE FUNCTION update_product_costs_on_landed_cost();
+
+COMMENT ON TABLE supplier_notes IS 'Supplier debit and credit notes raised against a purchase order after receipt';
+COMMENT ON TABLE landed_cost_allocations IS 'Share of purchase order charges and notes allocated to each received batch';
+COMMENT ON COLUMN purchase_orders.landed_cost_method IS 'How charges are spread over received lines: value, quantity or weight';
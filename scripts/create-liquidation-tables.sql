@@ -0,0 +1,63 @@
+-- Dead-stock liquidation tasks
+-- The liquidation planner ranks what can be done with each dead or slow batch from stock_aging: return it to
+-- the supplier, transfer it to a branch where it sells, bundle it with a fast mover, mark it down or write it
+-- off. Choosing one opens a task that records the expected recovery, the document it started (markdown,
+-- stock transfer or write-off) and, once done, what was actually recovered.
+
+-- Supplier return terms per product
+ALTER TABLE supplier_products ADD COLUMN IF NOT EXISTS accepts_returns BOOLEAN DEFAULT false;
+ALTER TABLE supplier_products ADD COLUMN IF NOT EXISTS return_window_days INTEGER CHECK (return_window_days >= 0);
+ALTER TABLE supplier_products ADD COLUMN IF NOT EXISTS min_return_shelf_life_days INTEGER CHECK (min_return_shelf_life_days >= 0);
+ALTER TABLE supplier_products ADD COLUMN IF NOT EXISTS return_credit_percentage DECIMAL(5,2) DEFAULT 100 CHECK (return_credit_percentage BETWEEN 0 AND 100);
+ALTER TABLE supplier_products ADD COLUMN IF NOT EXISTS restocking_fee_percentage DECIMAL(5,2) DEFAULT 0 CHECK (restocking_fee_percentage BETWEEN 0 AND 100);
+
+-- Dead stock can be written off in its own right
+ALTER TABLE stock_write_off_items DROP CONSTRAINT IF EXISTS stock_write_off_items_reason_check;
+ALTER TABLE stock_write_off_items ADD CONSTRAINT stock_write_off_items_reason_check
+    CHECK (reason IN ('expired', 'breakage', 'leakage', 'sample', 'dead_stock'));
+
+CREATE TABLE IF NOT EXISTS liquidation_tasks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    task_number VARCHAR(50) UNIQUE NOT NULL,
+    -- stock_aging rows are rebuilt daily, so the aging row is kept for reference only
+    stock_aging_id UUID,
+    batch_id UUID NOT NULL REFERENCES product_batches(id),
+    product_id UUID NOT NULL,
+    warehouse_id UUID REFERENCES warehouses(id),
+    action_type VARCHAR(30) NOT NULL CHECK (action_type IN ('return_to_supplier', 'transfer', 'bundle', 'markdown', 'write_off')),
+    status VARCHAR(20) NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed', 'cancelled')),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    expected_quantity INTEGER NOT NULL DEFAULT 0,
+    expected_value DECIMAL(12,2) NOT NULL DEFAULT 0,
+    actual_quantity INTEGER,
+    actual_value DECIMAL(12,2),
+    supplier_id UUID REFERENCES suppliers(id),
+    target_warehouse_id UUID REFERENCES warehouses(id),
+    bundle_product_id UUID,
+    discount_percentage DECIMAL(5,2),
+    -- The document the task started: batch_markdown, stock_transfer or stock_write_off
+    reference_type VARCHAR(30),
+    reference_id UUID,
+    -- Every option ranked when the task was chosen, with its expected value
+    options JSONB NOT NULL DEFAULT '[]',
+    notes TEXT,
+    assigned_to UUID REFERENCES profiles(id),
+    created_by UUID REFERENCES profiles(id),
+    completed_by UUID REFERENCES profiles(id),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    cancelled_by UUID REFERENCES profiles(id),
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    cancel_reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One task at a time per batch
+CREATE UNIQUE INDEX IF NOT EXISTS idx_liquidation_tasks_open_batch ON liquidation_tasks(batch_id) WHERE status = 'in_progress';
+CREATE INDEX IF NOT EXISTS idx_liquidation_tasks_status ON liquidation_tasks(status);
+CREATE INDEX IF NOT EXISTS idx_liquidation_tasks_reference ON liquidation_tasks(reference_type, reference_id);
+
+CREATE TRIGGER update_liquidation_tasks_updated_at BEFORE UPDATE ON liquidation_tasks FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE liquidation_tasks IS 'Actions taken to clear dead and slow-moving batches, with expected and actual value recovered';
+COMMENT ON COLUMN supplier_products.accepts_returns IS 'Whether the supplier takes back unsold stock of this product';
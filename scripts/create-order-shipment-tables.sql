@@ -0,0 +1,83 @@
+-- Split shipments and partial fulfillment
+-- An order ships in one or more shipments (order_fulfillments), each carrying chosen quantities of chosen
+-- lines (order_fulfillment_items) and recording which allocated batches were picked for them
+-- (order_fulfillment_batches). The order's fulfillment_status is derived from what has shipped.
+
+ALTER TABLE order_fulfillments ADD COLUMN IF NOT EXISTS package_weight_kg DECIMAL(10,3) CHECK (package_weight_kg > 0);
+ALTER TABLE order_fulfillments ADD COLUMN IF NOT EXISTS shipped_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE order_fulfillments ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP WITH TIME ZONE;
+
+-- Units of an allocation already sent; the allocation is marked shipped once all of it has gone
+ALTER TABLE order_item_batches ADD COLUMN IF NOT EXISTS quantity_shipped INTEGER NOT NULL DEFAULT 0
+    CHECK (quantity_shipped >= 0);
+
+CREATE TABLE IF NOT EXISTS order_fulfillment_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    fulfillment_item_id UUID NOT NULL REFERENCES order_fulfillment_items(id) ON DELETE CASCADE,
+    allocation_id UUID NOT NULL REFERENCES order_item_batches(id),
+    batch_id UUID NOT NULL REFERENCES product_batches(id),
+    -- The line's product, or a component for kits built to order
+    product_id UUID NOT NULL,
+    batch_number VARCHAR(50) NOT NULL,
+    expiry_date DATE NOT NULL,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_fulfillment_batches_item_id ON order_fulfillment_batches(fulfillment_item_id);
+CREATE INDEX IF NOT EXISTS idx_order_fulfillment_batches_batch_id ON order_fulfillment_batches(batch_id);
+
+COMMENT ON TABLE order_fulfillment_batches IS 'Batches picked for each shipped order line, for batch traceability per shipment';
+COMMENT ON COLUMN order_item_batches.quantity_shipped IS 'Units of the allocation sent so far across the order''s shipments';
+
+-- Records the batches picked for a shipment and marks their allocations as sent, in one transaction.
+-- p_picks: [{ fulfillment_item_id, allocation_id, batch_id, product_id, batch_number, expiry_date, quantity }].
+-- Each allocation is locked and its unshipped units checked, so two shipments cannot send the same units,
+-- and shipped units are added to the batch's quantity_sold in place. Raises ST404 and ST409 like the stock
+-- functions; nothing is kept when any pick fails.
+CREATE OR REPLACE FUNCTION ship_order_batch_allocations(p_picks JSONB)
+RETURNS SETOF order_item_batches AS $$
+DECLARE
+    v_pick JSONB;
+    v_quantity INTEGER;
+    v_allocation order_item_batches;
+BEGIN
+    -- Allocations are locked in a fixed order so concurrent shipments cannot deadlock
+    FOR v_pick IN
+        SELECT value FROM jsonb_array_elements(p_picks) ORDER BY value->>'allocation_id'
+    LOOP
+        v_quantity := (v_pick->>'quantity')::INTEGER;
+
+        SELECT * INTO v_allocation FROM order_item_batches WHERE id = (v_pick->>'allocation_id')::UUID FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Batch allocation not found' USING ERRCODE = 'ST404';
+        ELSIF v_allocation.status <> 'allocated' OR v_allocation.quantity_shipped + v_quantity > v_allocation.quantity THEN
+            RAISE EXCEPTION 'Batch % was shipped by someone else', v_allocation.batch_number USING ERRCODE = 'ST409';
+        END IF;
+
+        INSERT INTO order_fulfillment_batches (
+            fulfillment_item_id, allocation_id, batch_id, product_id, batch_number, expiry_date, quantity
+        ) VALUES (
+            (v_pick->>'fulfillment_item_id')::UUID, v_allocation.id, v_allocation.batch_id,
+            (v_pick->>'product_id')::UUID, v_allocation.batch_number, v_allocation.expiry_date, v_quantity
+        );
+
+        UPDATE order_item_batches
+        SET quantity_shipped = quantity_shipped + v_quantity,
+            status = CASE WHEN quantity_shipped + v_quantity = quantity THEN 'shipped' ELSE status END,
+            shipped_at = CASE WHEN quantity_shipped + v_quantity = quantity THEN NOW() ELSE shipped_at END
+        WHERE id = v_allocation.id
+        RETURNING * INTO v_allocation;
+
+        -- Shipped units count as sold on their batch
+        UPDATE product_batches
+        SET quantity_sold = COALESCE(quantity_sold, 0) + v_quantity
+        WHERE id = v_allocation.batch_id;
+
+        RETURN NEXT v_allocation;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION ship_order_batch_allocations IS 'Records a shipment''s batch picks and marks their allocations and batches as shipped in one transaction';
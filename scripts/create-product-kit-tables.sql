@@ -0,0 +1,65 @@
+-- Remedy kits and bundles
+-- A kit is a product made of other products (its bill of materials in kit_components). Its sellable stock
+-- is derived: kits assembled ahead of time and held as their own batches, plus as many kits as the
+-- components in stock allow. Selling a kit takes assembled kits first and builds the rest from component
+-- batches; component stock is reserved and issued like any other order line. The catalog service maps
+-- ProductType.GROUPED products to these kits.
+
+CREATE TABLE IF NOT EXISTS product_kits (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- The kit's own product; assembled kits are batches of this product
+    product_id UUID NOT NULL UNIQUE REFERENCES homeopathy_products(id),
+    kit_type VARCHAR(20) NOT NULL DEFAULT 'kit' CHECK (kit_type IN ('kit', 'bundle')),
+    is_active BOOLEAN DEFAULT true,
+    notes TEXT,
+    created_by UUID REFERENCES profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS kit_components (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    kit_id UUID NOT NULL REFERENCES product_kits(id) ON DELETE CASCADE,
+    component_product_id UUID NOT NULL REFERENCES homeopathy_products(id),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(kit_id, component_product_id)
+);
+
+CREATE TABLE IF NOT EXISTS kit_assemblies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    assembly_number VARCHAR(50) UNIQUE NOT NULL,
+    kit_id UUID NOT NULL REFERENCES product_kits(id),
+    -- The batch of assembled kits this assembly produced
+    batch_id UUID REFERENCES product_batches(id),
+    warehouse_id UUID REFERENCES warehouses(id),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0,
+    notes TEXT,
+    assembled_by UUID REFERENCES profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Component batches consumed by each assembly
+CREATE TABLE IF NOT EXISTS kit_assembly_components (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    assembly_id UUID NOT NULL REFERENCES kit_assemblies(id) ON DELETE CASCADE,
+    component_product_id UUID NOT NULL REFERENCES homeopathy_products(id),
+    batch_id UUID NOT NULL REFERENCES product_batches(id),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0
+);
+
+-- Component batches drawn for a kit order line remember the kit they went into
+ALTER TABLE order_item_batches ADD COLUMN IF NOT EXISTS kit_product_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_kit_components_component ON kit_components(component_product_id);
+CREATE INDEX IF NOT EXISTS idx_kit_assemblies_kit_id ON kit_assemblies(kit_id);
+CREATE INDEX IF NOT EXISTS idx_kit_assembly_components_assembly_id ON kit_assembly_components(assembly_id);
+CREATE INDEX IF NOT EXISTS idx_order_item_batches_kit_product_id ON order_item_batches(kit_product_id) WHERE kit_product_id IS NOT NULL;
+
+CREATE TRIGGER update_product_kits_updated_at BEFORE UPDATE ON product_kits FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE product_kits IS 'Remedy kits and bundles sold as one product and made of other products';
+COMMENT ON TABLE kit_components IS 'Bill of materials: units of each component product in one kit';
+COMMENT ON TABLE kit_assemblies IS 'Kits built ahead of time into their own stock';
@@ -0,0 +1,244 @@
+-- Stock alert rules engine
+-- Rules fire on days of cover, an absolute quantity or a percentage of maximum stock, scoped to every
+-- product, a category, a brand, a warehouse or a single SKU. Alerts are re-evaluated whenever a product's
+-- stock or reservations change (every stock movement updates one of those rows) and are kept with an
+-- open -> acknowledged -> resolved lifecycle, so every screen reads the same alerts.
+
+CREATE TABLE IF NOT EXISTS stock_alert_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    description TEXT,
+    rule_type VARCHAR(20) NOT NULL CHECK (rule_type IN ('days_of_cover', 'quantity', 'percent_of_max')),
+    threshold DECIMAL(10,2) NOT NULL CHECK (threshold >= 0),
+    scope_type VARCHAR(20) NOT NULL DEFAULT 'all' CHECK (scope_type IN ('all', 'category', 'brand', 'warehouse', 'product')),
+    scope_id UUID,
+    severity VARCHAR(20) NOT NULL DEFAULT 'warning' CHECK (severity IN ('info', 'warning', 'critical')),
+    is_active BOOLEAN DEFAULT true,
+    created_by UUID REFERENCES profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (scope_type = 'all' OR scope_id IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS stock_alerts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    rule_id UUID NOT NULL REFERENCES stock_alert_rules(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    warehouse_id UUID REFERENCES warehouses(id) ON DELETE CASCADE, -- NULL for alerts on total stock
+    severity VARCHAR(20) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'resolved')),
+    current_stock INTEGER NOT NULL,
+    days_of_cover DECIMAL(10,1),
+    message TEXT NOT NULL,
+    triggered_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_evaluated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    acknowledged_by UUID REFERENCES profiles(id),
+    acknowledged_at TIMESTAMP WITH TIME ZONE,
+    resolved_by UUID REFERENCES profiles(id),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    resolution VARCHAR(30), -- restocked, rule_not_applicable, manual
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- At most one unresolved alert per rule, product and location
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_alerts_unresolved
+    ON stock_alerts(rule_id, product_id, COALESCE(warehouse_id, '00000000-0000-0000-0000-000000000000'::uuid))
+    WHERE status <> 'resolved';
+CREATE INDEX IF NOT EXISTS idx_stock_alerts_status ON stock_alerts(status, severity);
+CREATE INDEX IF NOT EXISTS idx_stock_alerts_product_id ON stock_alerts(product_id);
+CREATE INDEX IF NOT EXISTS idx_stock_alert_rules_scope ON stock_alert_rules(scope_type, scope_id);
+
+CREATE TRIGGER update_stock_alert_rules_updated_at BEFORE UPDATE ON stock_alert_rules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_stock_alerts_updated_at BEFORE UPDATE ON stock_alerts FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Evaluates every active rule that applies to one product, opening, refreshing or resolving its alerts.
+-- Returns the number of unresolved alerts left for the product.
+CREATE OR REPLACE FUNCTION evaluate_stock_alerts(p_product_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_now TIMESTAMP WITH TIME ZONE := NOW();
+    v_product RECORD;
+    v_rule RECORD;
+    v_level RECORD;
+    v_daily_demand DECIMAL(10,2);
+    v_cover DECIMAL(10,1);
+    v_triggered BOOLEAN;
+    v_message TEXT;
+    v_unresolved INTEGER;
+BEGIN
+    SELECT p.id, p.name, p.category_id, p.inventory_quantity, COALESCE(p.reserved_quantity, 0) AS reserved_quantity,
+           hp.brand_id, hp.maximum_stock_level
+    INTO v_product
+    FROM products p
+    LEFT JOIN homeopathy_products hp ON hp.id = p.id
+    WHERE p.id = p_product_id AND p.track_inventory = true AND p.status = 'active';
+
+    IF NOT FOUND THEN
+        -- Untracked or inactive products keep no alerts
+        UPDATE stock_alerts
+        SET status = 'resolved', resolved_at = v_now, resolution = 'rule_not_applicable', last_evaluated_at = v_now
+        WHERE product_id = p_product_id AND status <> 'resolved';
+        RETURN 0;
+    END IF;
+
+    -- Daily demand from the latest stored forecast, otherwise the last 30 days of outbound movements
+    SELECT daily_average INTO v_daily_demand
+    FROM demand_forecasts
+    WHERE product_id = p_product_id
+    ORDER BY forecast_date DESC
+    LIMIT 1;
+
+    IF v_daily_demand IS NULL THEN
+        SELECT COALESCE(SUM(ABS(quantity)), 0) / 30.0 INTO v_daily_demand
+        FROM inventory_movements
+        WHERE product_id = p_product_id
+          AND movement_type IN ('out', 'outbound')
+          AND created_at >= v_now - INTERVAL '30 days';
+    END IF;
+
+    FOR v_rule IN
+        SELECT * FROM stock_alert_rules
+        WHERE is_active = true
+          AND (scope_type IN ('all', 'warehouse')
+            OR (scope_type = 'product' AND scope_id = p_product_id)
+            OR (scope_type = 'category' AND scope_id = v_product.category_id)
+            OR (scope_type = 'brand' AND scope_id = v_product.brand_id))
+    LOOP
+        -- Warehouse rules look at that warehouse's free stock, every other rule at the product total
+        FOR v_level IN
+            SELECT sl.warehouse_id, sl.available AS quantity,
+                   COALESCE(sl.max_stock_level, v_product.maximum_stock_level) AS max_stock
+            FROM stock_levels sl
+            WHERE v_rule.scope_type = 'warehouse' AND sl.warehouse_id = v_rule.scope_id AND sl.product_id = p_product_id
+            UNION ALL
+            SELECT NULL::UUID, v_product.inventory_quantity - v_product.reserved_quantity, v_product.maximum_stock_level
+            WHERE v_rule.scope_type <> 'warehouse'
+        LOOP
+            v_cover := CASE WHEN v_daily_demand > 0 THEN GREATEST(v_level.quantity, 0) / v_daily_demand END;
+
+            v_triggered := CASE v_rule.rule_type
+                WHEN 'quantity' THEN v_level.quantity <= v_rule.threshold
+                WHEN 'percent_of_max' THEN COALESCE(v_level.max_stock, 0) > 0
+                    AND v_level.quantity * 100.0 / v_level.max_stock <= v_rule.threshold
+                WHEN 'days_of_cover' THEN v_cover IS NOT NULL AND v_cover <= v_rule.threshold
+                ELSE false
+            END;
+
+            IF v_triggered THEN
+                v_message := v_product.name || ': ' || v_level.quantity || ' available' || CASE v_rule.rule_type
+                    WHEN 'days_of_cover' THEN ', ' || v_cover || ' days of cover (rule: ' || v_rule.threshold || ' days)'
+                    WHEN 'percent_of_max' THEN ', ' || ROUND(v_level.quantity * 100.0 / v_level.max_stock, 1)
+                        || '% of max stock (rule: ' || v_rule.threshold || '%)'
+                    ELSE ' (rule: ' || v_rule.threshold || ')'
+                END;
+
+                UPDATE stock_alerts
+                SET current_stock = v_level.quantity,
+                    days_of_cover = v_cover,
+                    severity = v_rule.severity,
+                    message = v_message,
+                    last_evaluated_at = v_now
+                WHERE rule_id = v_rule.id
+                  AND product_id = p_product_id
+                  AND warehouse_id IS NOT DISTINCT FROM v_level.warehouse_id
+                  AND status <> 'resolved';
+
+                IF NOT FOUND THEN
+                    INSERT INTO stock_alerts (
+                        rule_id, product_id, warehouse_id, severity, current_stock, days_of_cover, message,
+                        triggered_at, last_evaluated_at
+                    ) VALUES (
+                        v_rule.id, p_product_id, v_level.warehouse_id, v_rule.severity, v_level.quantity, v_cover,
+                        v_message, v_now, v_now
+                    );
+                END IF;
+            ELSE
+                UPDATE stock_alerts
+                SET status = 'resolved',
+                    resolved_at = v_now,
+                    resolution = 'restocked',
+                    current_stock = v_level.quantity,
+                    days_of_cover = v_cover,
+                    last_evaluated_at = v_now
+                WHERE rule_id = v_rule.id
+                  AND product_id = p_product_id
+                  AND warehouse_id IS NOT DISTINCT FROM v_level.warehouse_id
+                  AND status <> 'resolved';
+            END IF;
+        END LOOP;
+    END LOOP;
+
+    -- Alerts from rules that were switched off or no longer cover this product
+    UPDATE stock_alerts
+    SET status = 'resolved', resolved_at = v_now, resolution = 'rule_not_applicable', last_evaluated_at = v_now
+    WHERE product_id = p_product_id AND status <> 'resolved' AND last_evaluated_at < v_now;
+
+    SELECT COUNT(*) INTO v_unresolved FROM stock_alerts WHERE product_id = p_product_id AND status <> 'resolved';
+    RETURN v_unresolved;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Full re-evaluation, used after rules change
+CREATE OR REPLACE FUNCTION evaluate_all_stock_alerts()
+RETURNS INTEGER AS $$
+DECLARE
+    v_product_id UUID;
+    v_unresolved INTEGER := 0;
+BEGIN
+    FOR v_product_id IN
+        SELECT id FROM products
+        UNION
+        SELECT product_id FROM stock_alerts WHERE status <> 'resolved'
+    LOOP
+        v_unresolved := v_unresolved + evaluate_stock_alerts(v_product_id);
+    END LOOP;
+
+    RETURN v_unresolved;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION evaluate_stock_alerts_on_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM evaluate_stock_alerts(NEW.product_id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION evaluate_product_stock_alerts_on_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM evaluate_stock_alerts(NEW.id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_evaluate_stock_alerts_on_product ON products;
+CREATE TRIGGER trigger_evaluate_stock_alerts_on_product
+    AFTER UPDATE OF inventory_quantity, reserved_quantity, status, track_inventory ON products
+    FOR EACH ROW
+    WHEN (OLD.inventory_quantity IS DISTINCT FROM NEW.inventory_quantity
+       OR OLD.reserved_quantity IS DISTINCT FROM NEW.reserved_quantity
+       OR OLD.status IS DISTINCT FROM NEW.status
+       OR OLD.track_inventory IS DISTINCT FROM NEW.track_inventory)
+    EXECUTE FUNCTION evaluate_product_stock_alerts_on_change();
+
+DROP TRIGGER IF EXISTS trigger_evaluate_stock_alerts_on_stock_level ON stock_levels;
+CREATE TRIGGER trigger_evaluate_stock_alerts_on_stock_level
+    AFTER INSERT OR UPDATE OF available, max_stock_level ON stock_levels
+    FOR EACH ROW
+    EXECUTE FUNCTION evaluate_stock_alerts_on_change();
+
+-- Starting rules, roughly what the hard-coded checks used to do
+INSERT INTO stock_alert_rules (name, description, rule_type, threshold, scope_type, severity) VALUES
+('Out of stock', 'Nothing left to sell', 'quantity', 0, 'all', 'critical'),
+('Under a week of cover', 'Less than 7 days of demand available', 'days_of_cover', 7, 'all', 'warning'),
+('Below 20% of max stock', 'Free stock under a fifth of the maximum stock level', 'percent_of_max', 20, 'all', 'info')
+ON CONFLICT (name) DO NOTHING;
+
+SELECT evaluate_all_stock_alerts();
+
+COMMENT ON TABLE stock_alert_rules IS 'Configurable low stock rules: days of cover, quantity or percent of max, scoped by category, brand, warehouse or SKU';
+COMMENT ON TABLE stock_alerts IS 'Persisted stock alerts with open/acknowledged/resolved state, maintained by evaluate_stock_alerts';
@@ -0,0 +1,96 @@
+-- Stock ledger (stock register) for auditors
+-- Movements are summed in the database so a financial year of movements comes back as a few rows per
+-- product and location: everything before the period (opening), inside it by type and direction, and
+-- after it (to roll the closing balance forward to today for reconciliation).
+--
+-- Warehouse level reads inventory_movements. Rows written by apply_stock_change and the stock transfer
+-- functions carry quantity_before and quantity_after, which give the direction of adjustments and transfers.
+-- Batch level treats each batch receipt as the inward entry (as valuation does), then OUT, DAMAGE and
+-- RETURN batch movements and units rejected at QC sign-off.
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_product_date ON inventory_movements(product_id, created_at);
+
+CREATE OR REPLACE FUNCTION get_stock_ledger_entries(
+    p_from TIMESTAMP WITH TIME ZONE,
+    p_to TIMESTAMP WITH TIME ZONE,
+    p_level VARCHAR DEFAULT 'warehouse'
+)
+RETURNS TABLE (
+    product_id UUID,
+    warehouse_id UUID,
+    batch_id UUID,
+    period TEXT,
+    entry_type TEXT,
+    direction TEXT,
+    quantity BIGINT,
+    value DECIMAL
+) AS $$
+BEGIN
+    IF p_level NOT IN ('warehouse', 'batch') THEN
+        RAISE EXCEPTION 'Unknown stock ledger level %', p_level USING ERRCODE = 'ST422';
+    END IF;
+
+    IF p_level = 'warehouse' THEN
+        RETURN QUERY
+        WITH signed AS (
+            SELECT
+                im.product_id,
+                im.warehouse_id,
+                im.created_at,
+                LOWER(COALESCE(NULLIF(im.reference_type, ''), im.movement_type))::TEXT AS entry_type,
+                CASE
+                    WHEN im.quantity_before IS NOT NULL AND im.quantity_after IS NOT NULL THEN
+                        im.quantity_after - im.quantity_before
+                    WHEN im.movement_type = 'out' THEN -im.quantity
+                    ELSE im.quantity
+                END AS signed_quantity,
+                COALESCE(im.unit_cost, hp.average_cost, p.cost_price, 0) AS unit_cost
+            FROM inventory_movements im
+            LEFT JOIN products p ON p.id = im.product_id
+            LEFT JOIN homeopathy_products hp ON hp.id = im.product_id
+        )
+        SELECT
+            s.product_id,
+            s.warehouse_id,
+            NULL::UUID,
+            CASE WHEN s.created_at < p_from THEN 'before' WHEN s.created_at <= p_to THEN 'during' ELSE 'after' END,
+            s.entry_type,
+            CASE WHEN s.signed_quantity < 0 THEN 'out' ELSE 'in' END,
+            SUM(ABS(s.signed_quantity))::BIGINT,
+            ROUND(SUM(ABS(s.signed_quantity) * s.unit_cost), 2)
+        FROM signed s
+        WHERE s.signed_quantity <> 0
+        GROUP BY 1, 2, 3, 4, 5, 6;
+    ELSE
+        RETURN QUERY
+        WITH entries AS (
+            SELECT pb.id AS batch_id, pb.created_at, 'receipt'::TEXT AS entry_type, pb.quantity_received AS signed_quantity
+            FROM product_batches pb
+            WHERE pb.quantity_received > 0
+            UNION ALL
+            SELECT bm.batch_id, bm.created_at, LOWER(bm.movement_type)::TEXT,
+                CASE WHEN bm.movement_type = 'RETURN' THEN bm.quantity ELSE -bm.quantity END
+            FROM batch_movements bm
+            WHERE bm.movement_type IN ('OUT', 'DAMAGE', 'RETURN')
+            UNION ALL
+            SELECT qi.batch_id, qi.signed_off_at, 'qc_rejected'::TEXT, -qi.quantity_rejected
+            FROM batch_qc_inspections qi
+            WHERE qi.status <> 'pending' AND qi.quantity_rejected > 0
+        )
+        SELECT
+            pb.product_id,
+            pb.warehouse_id,
+            e.batch_id,
+            CASE WHEN e.created_at < p_from THEN 'before' WHEN e.created_at <= p_to THEN 'during' ELSE 'after' END,
+            e.entry_type,
+            CASE WHEN e.signed_quantity < 0 THEN 'out' ELSE 'in' END,
+            SUM(ABS(e.signed_quantity))::BIGINT,
+            ROUND(SUM(ABS(e.signed_quantity) * COALESCE(pb.landed_cost, pb.purchase_price, 0)), 2)
+        FROM entries e
+        JOIN product_batches pb ON pb.id = e.batch_id
+        GROUP BY 1, 2, 3, 4, 5, 6;
+    END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION get_stock_ledger_entries IS 'Stock register totals per product and warehouse or batch: before, during and after a period, by entry type and direction';
@@ -0,0 +1,176 @@
+-- Atomic stock mutations
+-- Every stock change (quantity, warehouse level, movement and audit log) happens inside one function call,
+-- so concurrent counter sales cannot overwrite each other and a failed step leaves nothing behind.
+-- Errors use custom SQLSTATEs so the application can tell them apart:
+--   ST404 product not found, ST409 stock changed since it was read, ST422 not enough stock / tracking disabled
+
+ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS quantity_before INTEGER;
+ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS quantity_after INTEGER;
+
+-- Applies deltas to one warehouse stock level, creating the row on first use
+CREATE OR REPLACE FUNCTION apply_stock_level_change(
+    p_warehouse_id UUID,
+    p_product_id UUID,
+    p_changes JSONB
+)
+RETURNS stock_levels AS $$
+DECLARE
+    v_level stock_levels;
+    v_field TEXT;
+    v_delta INTEGER;
+BEGIN
+    INSERT INTO stock_levels (warehouse_id, product_id)
+    VALUES (p_warehouse_id, p_product_id)
+    ON CONFLICT (warehouse_id, product_id) DO NOTHING;
+
+    -- Lock the row so concurrent changes queue up instead of racing
+    SELECT * INTO v_level FROM stock_levels
+    WHERE warehouse_id = p_warehouse_id AND product_id = p_product_id
+    FOR UPDATE;
+
+    FOR v_field, v_delta IN SELECT key, value::INTEGER FROM jsonb_each_text(p_changes) LOOP
+        CASE v_field
+            WHEN 'on_hand' THEN v_level.on_hand := v_level.on_hand + v_delta;
+            WHEN 'available' THEN v_level.available := v_level.available + v_delta;
+            WHEN 'reserved' THEN v_level.reserved := v_level.reserved + v_delta;
+            WHEN 'allocated' THEN v_level.allocated := v_level.allocated + v_delta;
+            WHEN 'in_transit' THEN v_level.in_transit := v_level.in_transit + v_delta;
+            WHEN 'damaged' THEN v_level.damaged := v_level.damaged + v_delta;
+            ELSE RAISE EXCEPTION 'Unknown stock level field %', v_field;
+        END CASE;
+    END LOOP;
+
+    IF v_level.on_hand < 0 OR v_level.available < 0 THEN
+        RAISE EXCEPTION 'Insufficient stock in warehouse' USING ERRCODE = 'ST422';
+    ELSIF v_level.reserved < 0 OR v_level.allocated < 0 OR v_level.in_transit < 0 OR v_level.damaged < 0 THEN
+        RAISE EXCEPTION 'Stock level change would go below zero' USING ERRCODE = 'ST422';
+    END IF;
+
+    UPDATE stock_levels SET
+        on_hand = v_level.on_hand,
+        available = v_level.available,
+        reserved = v_level.reserved,
+        allocated = v_level.allocated,
+        in_transit = v_level.in_transit,
+        damaged = v_level.damaged,
+        last_movement_at = NOW()
+    WHERE id = v_level.id
+    RETURNING * INTO v_level;
+
+    RETURN v_level;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Changes products.inventory_quantity with a conditional update and records the movement. A decrease may only
+-- use unreserved stock (inventory_quantity - reserved_quantity); reserved units leave through their reservation.
+-- p_expected_quantity turns on the optimistic check: the change is refused if stock moved since it was read.
+CREATE OR REPLACE FUNCTION apply_stock_change(
+    p_product_id UUID,
+    p_quantity_change INTEGER,
+    p_movement_type VARCHAR,
+    p_reason TEXT,
+    p_user_id UUID,
+    p_expected_quantity INTEGER DEFAULT NULL,
+    p_warehouse_id UUID DEFAULT NULL,
+    p_reference_type VARCHAR DEFAULT NULL,
+    p_reference_id UUID DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL,
+    p_unit_cost DECIMAL DEFAULT NULL,
+    p_require_tracking BOOLEAN DEFAULT FALSE,
+    p_log_action VARCHAR DEFAULT NULL
+)
+RETURNS inventory_movements AS $$
+DECLARE
+    v_before INTEGER;
+    v_after INTEGER;
+    v_product products;
+    v_movement inventory_movements;
+BEGIN
+    UPDATE products
+    SET inventory_quantity = inventory_quantity + p_quantity_change
+    WHERE id = p_product_id
+      AND inventory_quantity + p_quantity_change >= 0
+      -- Decrements cannot take units held by stock reservations
+      AND (p_quantity_change >= 0 OR inventory_quantity - COALESCE(reserved_quantity, 0) + p_quantity_change >= 0)
+      AND (p_expected_quantity IS NULL OR inventory_quantity = p_expected_quantity)
+      AND (NOT p_require_tracking OR track_inventory)
+    RETURNING inventory_quantity - p_quantity_change, inventory_quantity INTO v_before, v_after;
+
+    IF NOT FOUND THEN
+        SELECT * INTO v_product FROM products WHERE id = p_product_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Product not found' USING ERRCODE = 'ST404';
+        ELSIF p_require_tracking AND NOT v_product.track_inventory THEN
+            RAISE EXCEPTION 'Inventory tracking is disabled for this product' USING ERRCODE = 'ST422';
+        ELSIF p_expected_quantity IS NOT NULL AND v_product.inventory_quantity <> p_expected_quantity THEN
+            RAISE EXCEPTION 'Stock for % changed from % to % while it was being updated',
+                v_product.name, p_expected_quantity, v_product.inventory_quantity
+                USING ERRCODE = 'ST409';
+        ELSE
+            RAISE EXCEPTION 'Insufficient inventory for %: % in stock (% reserved), % requested',
+                v_product.name, v_product.inventory_quantity, COALESCE(v_product.reserved_quantity, 0),
+                -p_quantity_change
+                USING ERRCODE = 'ST422';
+        END IF;
+    END IF;
+
+    IF p_warehouse_id IS NOT NULL THEN
+        PERFORM apply_stock_level_change(
+            p_warehouse_id,
+            p_product_id,
+            jsonb_build_object('on_hand', p_quantity_change, 'available', p_quantity_change)
+        );
+    END IF;
+
+    INSERT INTO inventory_movements (
+        product_id, warehouse_id, movement_type, quantity, quantity_before, quantity_after,
+        reason, reference_type, reference_id, notes, unit_cost, total_cost, created_by
+    ) VALUES (
+        p_product_id, p_warehouse_id, p_movement_type, ABS(p_quantity_change), v_before, v_after,
+        p_reason, p_reference_type, p_reference_id, p_notes, p_unit_cost,
+        p_unit_cost * ABS(p_quantity_change), p_user_id
+    )
+    RETURNING * INTO v_movement;
+
+    IF p_log_action IS NOT NULL THEN
+        INSERT INTO activity_logs (user_id, action, resource_type, resource_id, old_values, new_values)
+        VALUES (
+            p_user_id, p_log_action, 'product', p_product_id,
+            jsonb_build_object('inventory_quantity', v_before),
+            jsonb_build_object('inventory_quantity', v_after, 'warehouse_id', p_warehouse_id, 'reason', p_reason)
+        );
+    END IF;
+
+    RETURN v_movement;
+END;
+$$ LANGUAGE plpgsql;
+
+-- All-or-nothing batch of stock changes: any failure rolls back every change in the call
+CREATE OR REPLACE FUNCTION apply_stock_changes(p_changes JSONB, p_user_id UUID)
+RETURNS SETOF inventory_movements AS $$
+DECLARE
+    v_change JSONB;
+BEGIN
+    FOR v_change IN SELECT * FROM jsonb_array_elements(p_changes) LOOP
+        RETURN NEXT apply_stock_change(
+            (v_change->>'product_id')::UUID,
+            (v_change->>'quantity_change')::INTEGER,
+            v_change->>'movement_type',
+            v_change->>'reason',
+            p_user_id,
+            (v_change->>'expected_quantity')::INTEGER,
+            (v_change->>'warehouse_id')::UUID,
+            v_change->>'reference_type',
+            (v_change->>'reference_id')::UUID,
+            v_change->>'notes',
+            (v_change->>'unit_cost')::DECIMAL,
+            COALESCE((v_change->>'require_tracking')::BOOLEAN, FALSE),
+            v_change->>'log_action'
+        );
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION apply_stock_change IS 'Atomic, conditional stock change with movement and optional audit log';
+COMMENT ON FUNCTION apply_stock_changes IS 'Applies a list of stock changes in one transaction';
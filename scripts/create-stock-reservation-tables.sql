@@ -0,0 +1,330 @@
+-- Time-limited stock reservations for the main application database
+-- Mirrors stock_reservations from the inventory service schema, keyed by products.id.
+-- Checkout reserves stock instead of decrementing it; payment turns the reservation into an
+-- outbound movement and unpaid reservations are released when they expire.
+
+-- Units held by active reservations; sellable stock is inventory_quantity - reserved_quantity
+ALTER TABLE products ADD COLUMN IF NOT EXISTS reserved_quantity INTEGER DEFAULT 0 CHECK (reserved_quantity >= 0);
+
+CREATE TABLE IF NOT EXISTS stock_reservations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    warehouse_id UUID REFERENCES warehouses(id),
+    reservation_type VARCHAR(50) NOT NULL DEFAULT 'order' CHECK (reservation_type IN ('order', 'transfer', 'manual')),
+    order_id UUID REFERENCES orders(id) ON DELETE CASCADE,
+    order_item_id UUID REFERENCES order_items(id) ON DELETE CASCADE,
+    reference_number VARCHAR(100),
+    quantity_reserved INTEGER NOT NULL CHECK (quantity_reserved > 0),
+    quantity_fulfilled INTEGER DEFAULT 0 CHECK (quantity_fulfilled >= 0),
+    status VARCHAR(50) DEFAULT 'active' CHECK (status IN ('active', 'fulfilled', 'cancelled', 'expired')),
+    reserved_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE,
+    fulfilled_at TIMESTAMP WITH TIME ZONE,
+    released_at TIMESTAMP WITH TIME ZONE,
+    reserved_by UUID REFERENCES profiles(id),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (quantity_fulfilled <= quantity_reserved)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_product_id ON stock_reservations(product_id);
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_order_id ON stock_reservations(order_id);
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_active_expiry ON stock_reservations(expires_at) WHERE status = 'active';
+
+CREATE TRIGGER update_stock_reservations_updated_at BEFORE UPDATE ON stock_reservations FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Reserves every order line in one transaction. Fails with ST422 if any line is short.
+CREATE OR REPLACE FUNCTION reserve_order_stock(
+    p_order_id UUID,
+    p_reference_number VARCHAR,
+    p_items JSONB,
+    p_expires_at TIMESTAMP WITH TIME ZONE,
+    p_user_id UUID,
+    p_warehouse_id UUID DEFAULT NULL
+)
+RETURNS SETOF stock_reservations AS $$
+DECLARE
+    v_item JSONB;
+    v_product products;
+    v_quantity INTEGER;
+    v_reservation stock_reservations;
+BEGIN
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+        v_quantity := (v_item->>'quantity')::INTEGER;
+
+        UPDATE products
+        SET reserved_quantity = reserved_quantity + v_quantity
+        WHERE id = (v_item->>'product_id')::UUID
+          AND track_inventory
+          AND inventory_quantity - reserved_quantity >= v_quantity;
+
+        IF NOT FOUND THEN
+            SELECT * INTO v_product FROM products WHERE id = (v_item->>'product_id')::UUID;
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Product not found' USING ERRCODE = 'ST404';
+            ELSIF NOT v_product.track_inventory THEN
+                RAISE EXCEPTION 'Inventory tracking is disabled for %', v_product.name USING ERRCODE = 'ST422';
+            ELSE
+                RAISE EXCEPTION 'Insufficient inventory for %: % available, % requested',
+                    v_product.name, v_product.inventory_quantity - v_product.reserved_quantity, v_quantity
+                    USING ERRCODE = 'ST422';
+            END IF;
+        END IF;
+
+        IF p_warehouse_id IS NOT NULL THEN
+            PERFORM apply_stock_level_change(
+                p_warehouse_id,
+                (v_item->>'product_id')::UUID,
+                jsonb_build_object('available', -v_quantity, 'reserved', v_quantity)
+            );
+        END IF;
+
+        INSERT INTO stock_reservations (
+            product_id, warehouse_id, order_id, order_item_id, reference_number,
+            quantity_reserved, expires_at, reserved_by
+        ) VALUES (
+            (v_item->>'product_id')::UUID, p_warehouse_id, p_order_id, (v_item->>'order_item_id')::UUID,
+            p_reference_number, v_quantity, p_expires_at, p_user_id
+        )
+        RETURNING * INTO v_reservation;
+
+        RETURN NEXT v_reservation;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Payment received: active reservations become outbound movements.
+-- Lines whose reservation already expired are taken from free stock if it is still there.
+CREATE OR REPLACE FUNCTION fulfill_order_reservations(p_order_id UUID, p_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_reservation stock_reservations;
+    v_before INTEGER;
+    v_product_name VARCHAR;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_reservation IN
+        SELECT * FROM stock_reservations
+        WHERE order_id = p_order_id AND status IN ('active', 'expired')
+        FOR UPDATE
+    LOOP
+        IF v_reservation.status = 'active' THEN
+            UPDATE products
+            SET inventory_quantity = inventory_quantity - v_reservation.quantity_reserved,
+                reserved_quantity = reserved_quantity - v_reservation.quantity_reserved
+            WHERE id = v_reservation.product_id
+              AND inventory_quantity >= v_reservation.quantity_reserved
+              AND reserved_quantity >= v_reservation.quantity_reserved
+            RETURNING inventory_quantity + v_reservation.quantity_reserved INTO v_before;
+
+            -- Held units should always be in stock; refuse rather than drive stock below zero if they are not
+            IF NOT FOUND THEN
+                SELECT name INTO v_product_name FROM products WHERE id = v_reservation.product_id;
+                RAISE EXCEPTION 'Stock held for % is no longer on hand', v_product_name USING ERRCODE = 'ST422';
+            END IF;
+
+            IF v_reservation.warehouse_id IS NOT NULL THEN
+                PERFORM apply_stock_level_change(
+                    v_reservation.warehouse_id,
+                    v_reservation.product_id,
+                    jsonb_build_object('on_hand', -v_reservation.quantity_reserved, 'reserved', -v_reservation.quantity_reserved)
+                );
+            END IF;
+        ELSE
+            UPDATE products
+            SET inventory_quantity = inventory_quantity - v_reservation.quantity_reserved
+            WHERE id = v_reservation.product_id
+              AND inventory_quantity - reserved_quantity >= v_reservation.quantity_reserved
+            RETURNING inventory_quantity + v_reservation.quantity_reserved INTO v_before;
+
+            IF NOT FOUND THEN
+                SELECT name INTO v_product_name FROM products WHERE id = v_reservation.product_id;
+                RAISE EXCEPTION 'Reservation for % expired and the stock has since been sold', v_product_name
+                    USING ERRCODE = 'ST422';
+            END IF;
+
+            IF v_reservation.warehouse_id IS NOT NULL THEN
+                PERFORM apply_stock_level_change(
+                    v_reservation.warehouse_id,
+                    v_reservation.product_id,
+                    jsonb_build_object('on_hand', -v_reservation.quantity_reserved, 'available', -v_reservation.quantity_reserved)
+                );
+            END IF;
+        END IF;
+
+        INSERT INTO inventory_movements (
+            product_id, warehouse_id, movement_type, quantity, quantity_before, quantity_after,
+            reason, reference_type, reference_id, created_by
+        ) VALUES (
+            v_reservation.product_id, v_reservation.warehouse_id, 'out', v_reservation.quantity_reserved,
+            v_before, v_before - v_reservation.quantity_reserved,
+            'Sold on order ' || COALESCE(v_reservation.reference_number, ''), 'order', p_order_id, p_user_id
+        );
+
+        UPDATE stock_reservations
+        SET status = 'fulfilled', quantity_fulfilled = quantity_reserved, fulfilled_at = NOW()
+        WHERE id = v_reservation.id;
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Undoes fulfill_order_reservations when the work that follows it fails (picking batches again for lines
+-- whose reservation had expired). Reservations that were still active are held again; ones that had expired
+-- (released_at is set) go back to free stock, and the batches just picked for their lines are released.
+CREATE OR REPLACE FUNCTION unfulfill_order_reservations(p_order_id UUID, p_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_reservation stock_reservations;
+    v_allocation order_item_batches;
+    v_before INTEGER;
+    v_quantity INTEGER;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_reservation IN
+        SELECT * FROM stock_reservations
+        WHERE order_id = p_order_id AND status = 'fulfilled'
+        FOR UPDATE
+    LOOP
+        IF v_reservation.released_at IS NULL THEN
+            UPDATE products
+            SET inventory_quantity = inventory_quantity + v_reservation.quantity_reserved,
+                reserved_quantity = reserved_quantity + v_reservation.quantity_reserved
+            WHERE id = v_reservation.product_id
+            RETURNING inventory_quantity - v_reservation.quantity_reserved INTO v_before;
+
+            IF v_reservation.warehouse_id IS NOT NULL THEN
+                PERFORM apply_stock_level_change(
+                    v_reservation.warehouse_id,
+                    v_reservation.product_id,
+                    jsonb_build_object('on_hand', v_reservation.quantity_reserved, 'reserved', v_reservation.quantity_reserved)
+                );
+            END IF;
+        ELSE
+            UPDATE products
+            SET inventory_quantity = inventory_quantity + v_reservation.quantity_reserved
+            WHERE id = v_reservation.product_id
+            RETURNING inventory_quantity - v_reservation.quantity_reserved INTO v_before;
+
+            IF v_reservation.warehouse_id IS NOT NULL THEN
+                PERFORM apply_stock_level_change(
+                    v_reservation.warehouse_id,
+                    v_reservation.product_id,
+                    jsonb_build_object('on_hand', v_reservation.quantity_reserved, 'available', v_reservation.quantity_reserved)
+                );
+            END IF;
+
+            FOR v_allocation IN
+                UPDATE order_item_batches
+                SET status = 'released', released_at = NOW()
+                WHERE order_id = p_order_id AND order_item_id = v_reservation.order_item_id AND status = 'allocated'
+                RETURNING *
+            LOOP
+                v_quantity := v_allocation.quantity - COALESCE(v_allocation.quantity_shipped, 0);
+
+                IF v_quantity > 0 THEN
+                    INSERT INTO batch_movements (
+                        batch_id, movement_type, quantity, reference_type, reference_id,
+                        unit_cost, total_value, reason, performed_by
+                    ) VALUES (
+                        v_allocation.batch_id, 'RETURN', v_quantity, 'SALE', p_order_id,
+                        v_allocation.unit_cost, v_quantity * COALESCE(v_allocation.unit_cost, 0),
+                        'Sale on order ' || COALESCE(v_reservation.reference_number, '') || ' reversed', p_user_id
+                    );
+                END IF;
+            END LOOP;
+        END IF;
+
+        INSERT INTO inventory_movements (
+            product_id, warehouse_id, movement_type, quantity, quantity_before, quantity_after,
+            reason, reference_type, reference_id, created_by
+        ) VALUES (
+            v_reservation.product_id, v_reservation.warehouse_id, 'in', v_reservation.quantity_reserved,
+            v_before, v_before + v_reservation.quantity_reserved,
+            'Sale on order ' || COALESCE(v_reservation.reference_number, '') || ' reversed', 'order', p_order_id, p_user_id
+        );
+
+        UPDATE stock_reservations
+        SET status = CASE WHEN released_at IS NULL THEN 'active' ELSE 'expired' END,
+            quantity_fulfilled = 0,
+            fulfilled_at = NULL
+        WHERE id = v_reservation.id;
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Gives reserved stock back; p_status is 'cancelled' or 'expired'
+CREATE OR REPLACE FUNCTION release_order_reservations(p_order_id UUID, p_status VARCHAR DEFAULT 'cancelled')
+RETURNS INTEGER AS $$
+DECLARE
+    v_reservation stock_reservations;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_reservation IN
+        SELECT * FROM stock_reservations
+        WHERE order_id = p_order_id AND status = 'active'
+        FOR UPDATE
+    LOOP
+        UPDATE products
+        SET reserved_quantity = GREATEST(reserved_quantity - v_reservation.quantity_reserved, 0)
+        WHERE id = v_reservation.product_id;
+
+        IF v_reservation.warehouse_id IS NOT NULL THEN
+            PERFORM apply_stock_level_change(
+                v_reservation.warehouse_id,
+                v_reservation.product_id,
+                jsonb_build_object('available', v_reservation.quantity_reserved, 'reserved', -v_reservation.quantity_reserved)
+            );
+        END IF;
+
+        UPDATE stock_reservations
+        SET status = p_status, released_at = NOW()
+        WHERE id = v_reservation.id;
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Releases reservations past their expiry, and the order's batch allocations with them; returns the ids of
+-- the orders this call released. Only orders still waiting for their first payment lose their hold: once an
+-- order is confirmed (for example cash on delivery) its stock stays reserved until payment, shipment or
+-- cancellation settles it. Overlapping calls are safe: an order another call released first is skipped, so its
+-- batches are only given back once. Also safe to schedule (e.g. pg_cron every few minutes).
+CREATE OR REPLACE FUNCTION release_expired_stock_reservations()
+RETURNS TABLE (order_id UUID) AS $$
+DECLARE
+    v_order_id UUID;
+BEGIN
+    FOR v_order_id IN
+        SELECT DISTINCT sr.order_id FROM stock_reservations sr
+        JOIN orders o ON o.id = sr.order_id
+        WHERE sr.status = 'active' AND sr.expires_at < NOW()
+          AND o.status = 'pending' AND o.payment_status IN ('pending', 'failed')
+    LOOP
+        CONTINUE WHEN release_order_reservations(v_order_id, 'expired') = 0;
+
+        PERFORM release_order_batch_allocations(v_order_id, 'Stock reservation expired', NULL);
+        order_id := v_order_id;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+INSERT INTO application_settings (key, value, description, category) VALUES
+('stock_reservation_minutes', '30', 'Minutes an unpaid order holds its stock before it is released', 'inventory')
+ON CONFLICT (key) DO NOTHING;
+
+COMMENT ON TABLE stock_reservations IS 'Stock held for unpaid orders until payment, cancellation or expiry';
+COMMENT ON COLUMN products.reserved_quantity IS 'Units held by active stock reservations';
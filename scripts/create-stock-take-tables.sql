@@ -0,0 +1,103 @@
+-- Cycle counting and physical stock-take sessions
+-- A session snapshots expected quantities for a set of products, zones or batches in one warehouse,
+-- collects counted quantities and posts the variances as stock adjustments once approved
+
+CREATE TABLE IF NOT EXISTS stock_take_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_number VARCHAR(100) UNIQUE NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+    scope_type VARCHAR(20) NOT NULL CHECK (scope_type IN ('products', 'zones', 'batches')),
+    scope JSONB NOT NULL DEFAULT '[]',
+    status VARCHAR(20) DEFAULT 'counting' CHECK (status IN ('counting', 'submitted', 'approved', 'cancelled')),
+    opened_by UUID REFERENCES profiles(id),
+    submitted_by UUID REFERENCES profiles(id),
+    approved_by UUID REFERENCES profiles(id),
+    opened_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    approved_at TIMESTAMP WITH TIME ZONE,
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One line per product, or per batch for batch-scoped sessions
+CREATE TABLE IF NOT EXISTS stock_take_lines (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES stock_take_sessions(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL,
+    batch_id UUID REFERENCES product_batches(id),
+    batch_number VARCHAR(50),
+    zone VARCHAR(50),
+    bin_location VARCHAR(100),
+    expected_quantity INTEGER NOT NULL DEFAULT 0,
+    counted_quantity INTEGER CHECK (counted_quantity >= 0),
+    unit_cost DECIMAL(10,2) DEFAULT 0,
+    counted_by UUID REFERENCES profiles(id),
+    counted_at TIMESTAMP WITH TIME ZONE,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_take_sessions_status ON stock_take_sessions(status);
+CREATE INDEX IF NOT EXISTS idx_stock_take_sessions_warehouse_id ON stock_take_sessions(warehouse_id);
+CREATE INDEX IF NOT EXISTS idx_stock_take_lines_session_id ON stock_take_lines(session_id);
+CREATE INDEX IF NOT EXISTS idx_stock_take_lines_product_id ON stock_take_lines(product_id);
+
+CREATE TRIGGER update_stock_take_sessions_updated_at BEFORE UPDATE ON stock_take_sessions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_stock_take_lines_updated_at BEFORE UPDATE ON stock_take_lines FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Approval posts a submitted session as one transaction: the session is locked and checked, product variances
+-- go through apply_stock_changes (create-stock-mutation-functions.sql), batch variances become batch movements
+-- and the counted products get their count date. Approving twice fails with ST409 and posts nothing.
+-- p_changes is the apply_stock_changes list; p_batch_movements are batch_movements rows without performed_by.
+CREATE OR REPLACE FUNCTION approve_stock_take_session(
+    p_session_id UUID,
+    p_changes JSONB,
+    p_batch_movements JSONB,
+    p_counted_product_ids UUID[],
+    p_user_id UUID
+)
+RETURNS stock_take_sessions AS $$
+DECLARE
+    v_session stock_take_sessions;
+BEGIN
+    SELECT * INTO v_session FROM stock_take_sessions WHERE id = p_session_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Stock take session not found' USING ERRCODE = 'ST404';
+    ELSIF v_session.status <> 'submitted' THEN
+        RAISE EXCEPTION 'Stock take % is % and can no longer be approved', v_session.session_number, v_session.status
+            USING ERRCODE = 'ST409';
+    END IF;
+
+    PERFORM * FROM apply_stock_changes(p_changes, p_user_id);
+
+    -- Batch counts correct the batch itself; the batch quantity trigger only follows OUT and RETURN movements
+    INSERT INTO batch_movements (
+        batch_id, movement_type, quantity, reference_type, reference_id, reference_number,
+        unit_cost, total_value, reason, performed_by
+    )
+    SELECT batch_id, movement_type, quantity, 'STOCK_TAKE', p_session_id, v_session.session_number,
+        unit_cost, total_value, reason, p_user_id
+    FROM jsonb_to_recordset(p_batch_movements) AS m(
+        batch_id UUID, movement_type VARCHAR, quantity INTEGER, unit_cost DECIMAL, total_value DECIMAL, reason TEXT
+    );
+
+    UPDATE stock_levels
+    SET last_count_at = NOW()
+    WHERE warehouse_id = v_session.warehouse_id AND product_id = ANY(p_counted_product_ids);
+
+    UPDATE stock_take_sessions
+    SET status = 'approved', approved_by = p_user_id, approved_at = NOW()
+    WHERE id = p_session_id
+    RETURNING * INTO v_session;
+
+    RETURN v_session;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE stock_take_sessions IS 'Cycle count and physical stock-take sessions per warehouse';
+COMMENT ON TABLE stock_take_lines IS 'Expected quantity snapshot and counted quantity per product or batch';
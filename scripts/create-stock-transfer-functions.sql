@@ -0,0 +1,227 @@
+-- Atomic stock transfer steps
+-- Dispatch, receipt and cancellation each lock the transfer, check its status and move every item's stock
+-- in one function call, so a transfer cannot be dispatched or received twice and a failed item leaves no
+-- stock half moved. Uses apply_stock_level_change and apply_stock_change from
+-- create-stock-mutation-functions.sql and raises the same SQLSTATEs (ST404, ST409, ST422).
+-- Transfer movements record the warehouse's on-hand stock before and after in quantity_before and
+-- quantity_after, which is what tells a dispatch (stock leaving) from a receipt or a return.
+
+-- Transfer movements written before that only carry their direction in the reason; record it once
+UPDATE inventory_movements
+SET quantity_before = 0,
+    quantity_after = CASE WHEN reason LIKE 'Dispatched%' THEN -quantity ELSE quantity END
+WHERE movement_type = 'transfer' AND (quantity_before IS NULL OR quantity_after IS NULL);
+
+-- Locks the transfer and checks it is in one of the expected statuses
+CREATE OR REPLACE FUNCTION claim_stock_transfer(p_transfer_id UUID, p_statuses VARCHAR[], p_action TEXT)
+RETURNS stock_transfers AS $$
+DECLARE
+    v_transfer stock_transfers;
+BEGIN
+    SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Stock transfer not found' USING ERRCODE = 'ST404';
+    ELSIF NOT v_transfer.status = ANY(p_statuses) THEN
+        RAISE EXCEPTION 'Cannot % transfer % because it is %', p_action, v_transfer.transfer_number, v_transfer.status
+            USING ERRCODE = 'ST409';
+    END IF;
+
+    RETURN v_transfer;
+END;
+$$ LANGUAGE plpgsql;
+
+-- p_items: [{ item_id, quantity }]; stock leaves the source and is expected at the destination
+CREATE OR REPLACE FUNCTION dispatch_stock_transfer(p_transfer_id UUID, p_items JSONB, p_user_id UUID)
+RETURNS stock_transfers AS $$
+DECLARE
+    v_transfer stock_transfers;
+    v_item stock_transfer_items;
+    v_quantity INTEGER;
+    v_level stock_levels;
+BEGIN
+    v_transfer := claim_stock_transfer(p_transfer_id, ARRAY['draft'], 'dispatch');
+
+    FOR v_item IN SELECT * FROM stock_transfer_items WHERE transfer_id = p_transfer_id LOOP
+        SELECT (value->>'quantity')::INTEGER INTO v_quantity
+        FROM jsonb_array_elements(p_items)
+        WHERE (value->>'item_id')::UUID = v_item.id;
+
+        v_quantity := COALESCE(v_quantity, v_item.quantity_requested);
+
+        IF v_quantity > v_item.quantity_requested THEN
+            RAISE EXCEPTION 'Cannot dispatch more than was requested' USING ERRCODE = 'ST422';
+        END IF;
+
+        CONTINUE WHEN v_quantity <= 0;
+
+        v_level := apply_stock_level_change(
+            v_transfer.from_warehouse_id,
+            v_item.product_id,
+            jsonb_build_object('on_hand', -v_quantity, 'available', -v_quantity)
+        );
+        PERFORM apply_stock_level_change(
+            v_transfer.to_warehouse_id,
+            v_item.product_id,
+            jsonb_build_object('in_transit', v_quantity)
+        );
+
+        UPDATE stock_transfer_items SET quantity_dispatched = v_quantity WHERE id = v_item.id;
+
+        INSERT INTO inventory_movements (
+            product_id, warehouse_id, movement_type, quantity, quantity_before, quantity_after,
+            reason, reference_type, reference_id, created_by
+        ) VALUES (
+            v_item.product_id, v_transfer.from_warehouse_id, 'transfer', v_quantity,
+            v_level.on_hand + v_quantity, v_level.on_hand,
+            'Dispatched on transfer ' || v_transfer.transfer_number, 'stock_transfer', p_transfer_id, p_user_id
+        );
+    END LOOP;
+
+    UPDATE stock_transfers
+    SET status = 'dispatched', dispatched_at = NOW(), dispatched_by = p_user_id
+    WHERE id = p_transfer_id
+    RETURNING * INTO v_transfer;
+
+    RETURN v_transfer;
+END;
+$$ LANGUAGE plpgsql;
+
+-- p_items: [{ item_id, quantity_received, quantity_damaged, notes }]; lines left out arrive in full.
+-- Units short or damaged on the way leave products.inventory_quantity as well.
+CREATE OR REPLACE FUNCTION receive_stock_transfer(p_transfer_id UUID, p_items JSONB, p_user_id UUID)
+RETURNS stock_transfers AS $$
+DECLARE
+    v_transfer stock_transfers;
+    v_item stock_transfer_items;
+    v_received JSONB;
+    v_quantity_received INTEGER;
+    v_quantity_damaged INTEGER;
+    v_quantity_short INTEGER;
+    v_has_discrepancy BOOLEAN := FALSE;
+    v_level stock_levels;
+BEGIN
+    v_transfer := claim_stock_transfer(p_transfer_id, ARRAY['dispatched', 'in_transit'], 'receive');
+
+    FOR v_item IN
+        SELECT * FROM stock_transfer_items WHERE transfer_id = p_transfer_id AND quantity_dispatched > 0
+    LOOP
+        v_received := NULL;
+        SELECT value INTO v_received
+        FROM jsonb_array_elements(p_items)
+        WHERE (value->>'item_id')::UUID = v_item.id;
+
+        v_quantity_received := COALESCE((v_received->>'quantity_received')::INTEGER, v_item.quantity_dispatched);
+        v_quantity_damaged := COALESCE((v_received->>'quantity_damaged')::INTEGER, 0);
+        v_quantity_short := v_item.quantity_dispatched - v_quantity_received - v_quantity_damaged;
+
+        IF v_quantity_received < 0 OR v_quantity_damaged < 0 OR v_quantity_short < 0 THEN
+            RAISE EXCEPTION 'Received and damaged quantities exceed the dispatched quantity' USING ERRCODE = 'ST422';
+        END IF;
+
+        v_level := apply_stock_level_change(
+            v_transfer.to_warehouse_id,
+            v_item.product_id,
+            jsonb_build_object(
+                'in_transit', -v_item.quantity_dispatched,
+                'on_hand', v_quantity_received,
+                'available', v_quantity_received,
+                'damaged', v_quantity_damaged
+            )
+        );
+
+        UPDATE stock_transfer_items
+        SET quantity_received = v_quantity_received,
+            quantity_damaged = v_quantity_damaged,
+            quantity_short = v_quantity_short,
+            notes = v_received->>'notes'
+        WHERE id = v_item.id;
+
+        INSERT INTO inventory_movements (
+            product_id, warehouse_id, movement_type, quantity, quantity_before, quantity_after,
+            reason, reference_type, reference_id, created_by
+        ) VALUES (
+            v_item.product_id, v_transfer.to_warehouse_id, 'transfer', v_quantity_received,
+            v_level.on_hand - v_quantity_received, v_level.on_hand,
+            'Received on transfer ' || v_transfer.transfer_number, 'stock_transfer', p_transfer_id, p_user_id
+        );
+
+        IF v_quantity_short > 0 OR v_quantity_damaged > 0 THEN
+            v_has_discrepancy := TRUE;
+
+            PERFORM apply_stock_change(
+                v_item.product_id,
+                -(v_quantity_short + v_quantity_damaged),
+                'out',
+                format('Transfer %s: %s short, %s damaged', v_transfer.transfer_number, v_quantity_short, v_quantity_damaged),
+                p_user_id,
+                p_reference_type => 'stock_transfer',
+                p_reference_id => p_transfer_id,
+                p_require_tracking => TRUE
+            );
+        END IF;
+    END LOOP;
+
+    UPDATE stock_transfers
+    SET status = 'received', has_discrepancy = v_has_discrepancy, received_at = NOW(), received_by = p_user_id
+    WHERE id = p_transfer_id
+    RETURNING * INTO v_transfer;
+
+    RETURN v_transfer;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Dispatched stock goes back to the source warehouse
+CREATE OR REPLACE FUNCTION cancel_stock_transfer(p_transfer_id UUID, p_reason TEXT, p_user_id UUID)
+RETURNS stock_transfers AS $$
+DECLARE
+    v_transfer stock_transfers;
+    v_item stock_transfer_items;
+    v_level stock_levels;
+BEGIN
+    v_transfer := claim_stock_transfer(p_transfer_id, ARRAY['draft', 'dispatched', 'in_transit'], 'cancel');
+
+    IF v_transfer.status IN ('dispatched', 'in_transit') THEN
+        FOR v_item IN
+            SELECT * FROM stock_transfer_items WHERE transfer_id = p_transfer_id AND quantity_dispatched > 0
+        LOOP
+            PERFORM apply_stock_level_change(
+                v_transfer.to_warehouse_id,
+                v_item.product_id,
+                jsonb_build_object('in_transit', -v_item.quantity_dispatched)
+            );
+            v_level := apply_stock_level_change(
+                v_transfer.from_warehouse_id,
+                v_item.product_id,
+                jsonb_build_object('on_hand', v_item.quantity_dispatched, 'available', v_item.quantity_dispatched)
+            );
+
+            INSERT INTO inventory_movements (
+                product_id, warehouse_id, movement_type, quantity, quantity_before, quantity_after,
+                reason, reference_type, reference_id, created_by
+            ) VALUES (
+                v_item.product_id, v_transfer.from_warehouse_id, 'transfer', v_item.quantity_dispatched,
+                v_level.on_hand - v_item.quantity_dispatched, v_level.on_hand,
+                'Returned from cancelled transfer ' || v_transfer.transfer_number, 'stock_transfer', p_transfer_id,
+                p_user_id
+            );
+        END LOOP;
+    END IF;
+
+    UPDATE stock_transfers
+    SET status = 'cancelled',
+        cancelled_at = NOW(),
+        notes = CASE
+            WHEN p_reason IS NULL THEN notes
+            ELSE COALESCE(notes || E'\n', '') || 'Cancelled: ' || p_reason
+        END
+    WHERE id = p_transfer_id
+    RETURNING * INTO v_transfer;
+
+    RETURN v_transfer;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION dispatch_stock_transfer IS 'Claims a draft transfer and moves every item out of the source warehouse in one transaction';
+COMMENT ON FUNCTION receive_stock_transfer IS 'Claims a dispatched transfer and books every item into the destination warehouse in one transaction';
+COMMENT ON FUNCTION cancel_stock_transfer IS 'Claims an open transfer and returns any dispatched stock to the source warehouse in one transaction';
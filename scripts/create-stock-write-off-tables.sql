@@ -0,0 +1,148 @@
+-- Stock write-offs for expired, broken, leaking and sampled stock
+-- A write-off document lists batches and quantities with a reason and photo evidence. Documents worth more
+-- than the approval threshold (application setting stock_write_off_approval_threshold) wait for a manager;
+-- smaller ones post straight away. Posting takes the units off the product and warehouse stock and records
+-- a DAMAGE (or OUT, for samples) batch movement carrying the value written off.
+
+CREATE TABLE IF NOT EXISTS stock_write_offs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    write_off_number VARCHAR(50) UNIQUE NOT NULL,
+    status VARCHAR(20) DEFAULT 'draft' CHECK (status IN ('draft', 'pending_approval', 'approved', 'rejected', 'cancelled')),
+    total_quantity INTEGER DEFAULT 0,
+    total_value DECIMAL(12,2) DEFAULT 0,
+    -- Threshold in force when the document was submitted, kept for the audit trail
+    approval_threshold DECIMAL(12,2),
+    requires_approval BOOLEAN DEFAULT FALSE,
+    notes TEXT,
+    created_by UUID REFERENCES profiles(id),
+    submitted_by UUID REFERENCES profiles(id),
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    approved_by UUID REFERENCES profiles(id),
+    approved_at TIMESTAMP WITH TIME ZONE,
+    rejected_by UUID REFERENCES profiles(id),
+    rejected_at TIMESTAMP WITH TIME ZONE,
+    rejection_reason TEXT,
+    posted_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS stock_write_off_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    write_off_id UUID NOT NULL REFERENCES stock_write_offs(id) ON DELETE CASCADE,
+    batch_id UUID NOT NULL REFERENCES product_batches(id),
+    product_id UUID NOT NULL,
+    warehouse_id UUID REFERENCES warehouses(id),
+    batch_number VARCHAR(50) NOT NULL,
+    expiry_date DATE,
+    reason VARCHAR(20) NOT NULL CHECK (reason IN ('expired', 'breakage', 'leakage', 'sample')),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    unit_cost DECIMAL(10,2) DEFAULT 0,
+    total_value DECIMAL(12,2) DEFAULT 0,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Photos live in the write-off-photos storage bucket; item_id is set when a photo shows one line
+CREATE TABLE IF NOT EXISTS stock_write_off_photos (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    write_off_id UUID NOT NULL REFERENCES stock_write_offs(id) ON DELETE CASCADE,
+    item_id UUID REFERENCES stock_write_off_items(id) ON DELETE SET NULL,
+    storage_path TEXT NOT NULL,
+    file_name VARCHAR(255),
+    content_type VARCHAR(100),
+    uploaded_by UUID REFERENCES profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_write_offs_status ON stock_write_offs(status);
+CREATE INDEX IF NOT EXISTS idx_stock_write_offs_posted_at ON stock_write_offs(posted_at);
+CREATE INDEX IF NOT EXISTS idx_stock_write_off_items_write_off_id ON stock_write_off_items(write_off_id);
+CREATE INDEX IF NOT EXISTS idx_stock_write_off_items_batch_id ON stock_write_off_items(batch_id);
+CREATE INDEX IF NOT EXISTS idx_stock_write_off_photos_write_off_id ON stock_write_off_photos(write_off_id);
+
+CREATE TRIGGER update_stock_write_offs_updated_at BEFORE UPDATE ON stock_write_offs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO application_settings (key, value, description, category)
+VALUES ('stock_write_off_approval_threshold', '5000', 'Write-offs worth more than this (at cost) need manager approval', 'inventory')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('write-off-photos', 'write-off-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Posts a write-off in one transaction. The document is locked and must still be in p_from_status ('draft'
+-- when it posts on submission, 'pending_approval' when a manager approves it), so it can never post twice.
+-- Every batch is locked and checked, product stock goes through apply_stock_changes
+-- (create-stock-mutation-functions.sql) with p_changes, and each line becomes a DAMAGE (or OUT, for samples)
+-- batch movement. Raises ST404, ST409 and ST422 like the other stock functions.
+CREATE OR REPLACE FUNCTION post_stock_write_off(
+    p_write_off_id UUID,
+    p_from_status VARCHAR,
+    p_changes JSONB,
+    p_user_id UUID,
+    p_approval_threshold DECIMAL DEFAULT NULL
+)
+RETURNS stock_write_offs AS $$
+DECLARE
+    v_write_off stock_write_offs;
+    v_batch RECORD;
+BEGIN
+    SELECT * INTO v_write_off FROM stock_write_offs WHERE id = p_write_off_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Write-off not found' USING ERRCODE = 'ST404';
+    ELSIF v_write_off.status <> p_from_status THEN
+        RAISE EXCEPTION 'Write-off % is % and cannot be posted', v_write_off.write_off_number, v_write_off.status
+            USING ERRCODE = 'ST409';
+    END IF;
+
+    PERFORM 1 FROM product_batches
+    WHERE id IN (SELECT batch_id FROM stock_write_off_items WHERE write_off_id = p_write_off_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    FOR v_batch IN
+        SELECT b.id, b.batch_number, b.quantity_available, SUM(i.quantity) AS quantity
+        FROM stock_write_off_items i
+        JOIN product_batches b ON b.id = i.batch_id
+        WHERE i.write_off_id = p_write_off_id
+        GROUP BY b.id, b.batch_number, b.quantity_available
+    LOOP
+        IF v_batch.quantity_available < v_batch.quantity THEN
+            RAISE EXCEPTION 'Batch % has % available, % to write off',
+                v_batch.batch_number, v_batch.quantity_available, v_batch.quantity
+                USING ERRCODE = 'ST422';
+        END IF;
+    END LOOP;
+
+    PERFORM * FROM apply_stock_changes(p_changes, p_user_id);
+
+    -- The batch quantity trigger follows DAMAGE and OUT
+    INSERT INTO batch_movements (
+        batch_id, movement_type, quantity, reference_type, reference_id, reference_number,
+        unit_cost, total_value, reason, performed_by
+    )
+    SELECT batch_id, CASE WHEN reason = 'sample' THEN 'OUT' ELSE 'DAMAGE' END, quantity, 'WRITE_OFF',
+        p_write_off_id, v_write_off.write_off_number, unit_cost, total_value, 'Written off: ' || reason, p_user_id
+    FROM stock_write_off_items
+    WHERE write_off_id = p_write_off_id;
+
+    UPDATE stock_write_offs
+    SET status = 'approved',
+        posted_at = NOW(),
+        approval_threshold = COALESCE(p_approval_threshold, approval_threshold),
+        submitted_by = CASE WHEN p_from_status = 'draft' THEN p_user_id ELSE submitted_by END,
+        submitted_at = CASE WHEN p_from_status = 'draft' THEN NOW() ELSE submitted_at END,
+        approved_by = CASE WHEN p_from_status = 'pending_approval' THEN p_user_id ELSE approved_by END,
+        approved_at = CASE WHEN p_from_status = 'pending_approval' THEN NOW() ELSE approved_at END
+    WHERE id = p_write_off_id
+    RETURNING * INTO v_write_off;
+
+    RETURN v_write_off;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE stock_write_offs IS 'Write-off documents for expired and damaged stock, with approval above a value threshold';
+COMMENT ON TABLE stock_write_off_items IS 'Batch, quantity, reason and cost value written off per document line';
+COMMENT ON TABLE stock_write_off_photos IS 'Photo evidence attached to write-off documents';
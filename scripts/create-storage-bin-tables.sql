@@ -0,0 +1,60 @@
+-- Bin locations, putaway and storage compliance
+-- Bins are the shelves, fridges and cabinets of a warehouse, each with a storage class (standard,
+-- refrigerated, frozen, hazmat), an optional temperature ceiling and a capacity in units. A batch sits in
+-- one bin (product_batches.bin_id; storage_location keeps the bin code for screens and labels that read it).
+-- Received batches get a suggested bin that matches the product's storage type and storage conditions;
+-- putaway and every later move between bins are recorded in bin_movements. Batches stored in a bin that
+-- does not meet their conditions are listed by the storage compliance report.
+
+CREATE TABLE IF NOT EXISTS storage_bins (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    warehouse_id UUID NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+    code VARCHAR(50) NOT NULL,
+    zone VARCHAR(50),
+    aisle VARCHAR(50),
+    shelf VARCHAR(50),
+    storage_class VARCHAR(20) NOT NULL DEFAULT 'standard'
+        CHECK (storage_class IN ('standard', 'refrigerated', 'frozen', 'hazmat')),
+    -- Highest temperature the bin is kept at, in °C; null when not controlled
+    max_temperature DECIMAL(5,1),
+    -- Units the bin holds; null for no limit
+    capacity INTEGER CHECK (capacity > 0),
+    is_active BOOLEAN DEFAULT true,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(warehouse_id, code)
+);
+
+-- How the product must be kept; storage_conditions stays the free-text instruction on the label
+ALTER TABLE homeopathy_products ADD COLUMN IF NOT EXISTS storage_type VARCHAR(20) DEFAULT 'standard'
+    CHECK (storage_type IN ('standard', 'refrigerated', 'frozen', 'hazmat'));
+
+ALTER TABLE product_batches ADD COLUMN IF NOT EXISTS bin_id UUID REFERENCES storage_bins(id);
+ALTER TABLE product_batches ADD COLUMN IF NOT EXISTS suggested_bin_id UUID REFERENCES storage_bins(id);
+
+CREATE TABLE IF NOT EXISTS bin_movements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID NOT NULL REFERENCES product_batches(id),
+    product_id UUID NOT NULL REFERENCES homeopathy_products(id),
+    -- Null for the first putaway
+    from_bin_id UUID REFERENCES storage_bins(id),
+    to_bin_id UUID NOT NULL REFERENCES storage_bins(id),
+    quantity INTEGER NOT NULL CHECK (quantity >= 0),
+    movement_type VARCHAR(20) NOT NULL DEFAULT 'move' CHECK (movement_type IN ('putaway', 'move')),
+    reason TEXT,
+    moved_by UUID REFERENCES profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (from_bin_id IS NULL OR from_bin_id != to_bin_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_storage_bins_warehouse_id ON storage_bins(warehouse_id);
+CREATE INDEX IF NOT EXISTS idx_product_batches_bin_id ON product_batches(bin_id) WHERE bin_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_bin_movements_batch_id ON bin_movements(batch_id);
+CREATE INDEX IF NOT EXISTS idx_bin_movements_created_at ON bin_movements(created_at);
+
+CREATE TRIGGER update_storage_bins_updated_at BEFORE UPDATE ON storage_bins FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE storage_bins IS 'Bin locations with storage class, temperature ceiling and capacity';
+COMMENT ON TABLE bin_movements IS 'Putaway of received batches and moves of batches between bins';
+COMMENT ON COLUMN product_batches.suggested_bin_id IS 'Putaway bin suggested at receipt; bin_id is where the batch was actually put';
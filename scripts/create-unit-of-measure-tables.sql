@@ -0,0 +1,76 @@
+-- Units of measure and pack conversions
+-- Each product is stocked in one unit (homeopathy_products.stock_unit) and may be bought and sold in others,
+-- each with a factor of stock units per unit (a carton of 12 × 30ml dilutions is 12 bottles). Purchase order
+-- lines, receipts, stock adjustments and order lines accept any configured unit; quantities and prices are
+-- stored in the stock unit and the line remembers the unit, quantity and price as entered.
+
+ALTER TABLE homeopathy_products ADD COLUMN IF NOT EXISTS stock_unit VARCHAR(20);
+UPDATE homeopathy_products SET stock_unit = COALESCE(NULLIF(unit_of_measure, ''), 'pieces') WHERE stock_unit IS NULL;
+
+CREATE TABLE IF NOT EXISTS product_units (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id UUID NOT NULL REFERENCES homeopathy_products(id) ON DELETE CASCADE,
+    unit VARCHAR(20) NOT NULL,
+    -- Stock units in one of this unit
+    factor DECIMAL(12,4) NOT NULL CHECK (factor > 0),
+    is_purchase_default BOOLEAN DEFAULT false,
+    is_sales_default BOOLEAN DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(product_id, unit)
+);
+
+-- The line as entered; quantity and unit_price columns stay in the stock unit
+ALTER TABLE purchase_order_items ADD COLUMN IF NOT EXISTS unit VARCHAR(20);
+ALTER TABLE purchase_order_items ADD COLUMN IF NOT EXISTS unit_factor DECIMAL(12,4) DEFAULT 1;
+ALTER TABLE purchase_order_items ADD COLUMN IF NOT EXISTS unit_quantity DECIMAL(12,3);
+ALTER TABLE purchase_order_items ADD COLUMN IF NOT EXISTS unit_price_entered DECIMAL(10,2);
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS unit VARCHAR(20);
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS unit_factor DECIMAL(12,4) DEFAULT 1;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS unit_quantity DECIMAL(12,3);
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS unit_price_entered DECIMAL(10,2);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_units_purchase_default ON product_units(product_id) WHERE is_purchase_default;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_units_sales_default ON product_units(product_id) WHERE is_sales_default;
+
+CREATE TRIGGER update_product_units_updated_at BEFORE UPDATE ON product_units FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Replaces a product's stock unit and unit list in one transaction. The stock unit cannot change while the
+-- product has stock, since every stored quantity and cost is in the old unit (ST422).
+CREATE OR REPLACE FUNCTION replace_product_units(p_product_id UUID, p_stock_unit VARCHAR, p_units JSONB)
+RETURNS SETOF product_units AS $$
+DECLARE
+    v_product homeopathy_products;
+BEGIN
+    SELECT * INTO v_product FROM homeopathy_products WHERE id = p_product_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product not found' USING ERRCODE = 'ST404';
+    END IF;
+
+    IF LOWER(TRIM(COALESCE(v_product.stock_unit, NULLIF(v_product.unit_of_measure, ''), 'pieces'))) <> LOWER(TRIM(p_stock_unit))
+        AND (
+            EXISTS (SELECT 1 FROM product_batches WHERE product_id = p_product_id AND quantity_available > 0)
+            OR EXISTS (SELECT 1 FROM products WHERE id = p_product_id AND inventory_quantity > 0)
+        )
+    THEN
+        RAISE EXCEPTION '% is stocked in %; the stock unit can only change once no stock is left',
+            v_product.name, COALESCE(v_product.stock_unit, v_product.unit_of_measure)
+            USING ERRCODE = 'ST422';
+    END IF;
+
+    UPDATE homeopathy_products SET stock_unit = p_stock_unit WHERE id = p_product_id;
+
+    DELETE FROM product_units WHERE product_id = p_product_id;
+
+    RETURN QUERY
+    INSERT INTO product_units (product_id, unit, factor, is_purchase_default, is_sales_default)
+    SELECT p_product_id, TRIM(u.unit), u.factor, COALESCE(u.is_purchase_default, FALSE), COALESCE(u.is_sales_default, FALSE)
+    FROM jsonb_to_recordset(p_units) AS u(unit VARCHAR, factor DECIMAL, is_purchase_default BOOLEAN, is_sales_default BOOLEAN)
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN homeopathy_products.stock_unit IS 'Unit stock is counted in; all stock quantities use it';
+COMMENT ON TABLE product_units IS 'Purchase and sales units of a product and how many stock units each holds';
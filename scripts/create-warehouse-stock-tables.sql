@@ -0,0 +1,130 @@
+-- Multi-warehouse stock for the main application database
+-- Mirrors the warehouse, stock level and transfer tables of the inventory service schema,
+-- keyed by products.id so the storefront and ERP share one set of stock figures
+
+-- Warehouses (main godown, retail counters)
+CREATE TABLE IF NOT EXISTS warehouses (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL,
+    code VARCHAR(50) UNIQUE NOT NULL,
+    description TEXT,
+    warehouse_type VARCHAR(50) DEFAULT 'standard' CHECK (warehouse_type IN ('standard', 'retail_counter', 'cold_storage', 'returns')),
+    address JSONB,
+    contact_person VARCHAR(255),
+    contact_phone VARCHAR(50),
+    is_active BOOLEAN DEFAULT TRUE,
+    is_default BOOLEAN DEFAULT FALSE,
+    priority INTEGER DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Stock per product per warehouse
+CREATE TABLE IF NOT EXISTS stock_levels (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    warehouse_id UUID NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    on_hand INTEGER DEFAULT 0 CHECK (on_hand >= 0),
+    available INTEGER DEFAULT 0 CHECK (available >= 0),
+    reserved INTEGER DEFAULT 0 CHECK (reserved >= 0),
+    allocated INTEGER DEFAULT 0 CHECK (allocated >= 0),
+    in_transit INTEGER DEFAULT 0 CHECK (in_transit >= 0),
+    damaged INTEGER DEFAULT 0 CHECK (damaged >= 0),
+    reorder_point INTEGER DEFAULT 0,
+    reorder_quantity INTEGER DEFAULT 0,
+    max_stock_level INTEGER,
+    bin_location VARCHAR(100),
+    zone VARCHAR(50),
+    aisle VARCHAR(50),
+    shelf VARCHAR(50),
+    last_movement_at TIMESTAMP WITH TIME ZONE,
+    last_count_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(warehouse_id, product_id),
+    CHECK (available <= on_hand)
+);
+
+-- Inter-warehouse transfers: draft -> dispatched -> in_transit -> received
+CREATE TABLE IF NOT EXISTS stock_transfers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transfer_number VARCHAR(100) UNIQUE NOT NULL,
+    from_warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+    to_warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+    status VARCHAR(50) DEFAULT 'draft' CHECK (status IN ('draft', 'dispatched', 'in_transit', 'received', 'cancelled')),
+    has_discrepancy BOOLEAN DEFAULT FALSE,
+    requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    dispatched_at TIMESTAMP WITH TIME ZONE,
+    in_transit_at TIMESTAMP WITH TIME ZONE,
+    received_at TIMESTAMP WITH TIME ZONE,
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    requested_by UUID REFERENCES profiles(id),
+    dispatched_by UUID REFERENCES profiles(id),
+    received_by UUID REFERENCES profiles(id),
+    carrier VARCHAR(100),
+    tracking_number VARCHAR(100),
+    shipping_cost DECIMAL(10,2),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (from_warehouse_id != to_warehouse_id)
+);
+
+CREATE TABLE IF NOT EXISTS stock_transfer_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transfer_id UUID NOT NULL REFERENCES stock_transfers(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id),
+    quantity_requested INTEGER NOT NULL CHECK (quantity_requested > 0),
+    quantity_dispatched INTEGER DEFAULT 0 CHECK (quantity_dispatched >= 0),
+    quantity_received INTEGER DEFAULT 0 CHECK (quantity_received >= 0),
+    quantity_damaged INTEGER DEFAULT 0 CHECK (quantity_damaged >= 0),
+    quantity_short INTEGER DEFAULT 0 CHECK (quantity_short >= 0),
+    unit_cost DECIMAL(10,2),
+    batch_number VARCHAR(100),
+    expiry_date DATE,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (quantity_dispatched <= quantity_requested),
+    CHECK (quantity_received + quantity_damaged + quantity_short <= quantity_dispatched)
+);
+
+-- Movements record the warehouse they happened in
+ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS warehouse_id UUID REFERENCES warehouses(id);
+ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS notes TEXT;
+ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS unit_cost DECIMAL(10,2);
+ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS total_cost DECIMAL(12,2);
+
+CREATE INDEX IF NOT EXISTS idx_stock_levels_warehouse_id ON stock_levels(warehouse_id);
+CREATE INDEX IF NOT EXISTS idx_stock_levels_product_id ON stock_levels(product_id);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_status ON stock_transfers(status);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_from_warehouse ON stock_transfers(from_warehouse_id);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_to_warehouse ON stock_transfers(to_warehouse_id);
+CREATE INDEX IF NOT EXISTS idx_stock_transfer_items_transfer_id ON stock_transfer_items(transfer_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_warehouse_id ON inventory_movements(warehouse_id);
+
+CREATE TRIGGER update_warehouses_updated_at BEFORE UPDATE ON warehouses FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_stock_levels_updated_at BEFORE UPDATE ON stock_levels FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_stock_transfers_updated_at BEFORE UPDATE ON stock_transfers FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_stock_transfer_items_updated_at BEFORE UPDATE ON stock_transfer_items FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Default locations
+INSERT INTO warehouses (name, code, description, warehouse_type, is_default, priority) VALUES
+('Main Godown', 'GODOWN', 'Central storage and receiving', 'standard', true, 1),
+('Retail Counter 1', 'COUNTER1', 'Front shop counter', 'retail_counter', false, 2),
+('Retail Counter 2', 'COUNTER2', 'Branch shop counter', 'retail_counter', false, 3)
+ON CONFLICT (code) DO NOTHING;
+
+-- Stock held before warehouses existed starts out in the default warehouse. Products that already have
+-- stock levels are left alone, so running the script again changes nothing.
+INSERT INTO stock_levels (warehouse_id, product_id, on_hand, available, last_movement_at)
+SELECT w.id, p.id, p.inventory_quantity, p.inventory_quantity, NOW()
+FROM products p
+CROSS JOIN warehouses w
+WHERE w.is_default = true
+  AND p.inventory_quantity > 0
+  AND NOT EXISTS (SELECT 1 FROM stock_levels sl WHERE sl.product_id = p.id)
+ON CONFLICT (warehouse_id, product_id) DO NOTHING;
+
+COMMENT ON TABLE stock_levels IS 'Per-warehouse stock; products.inventory_quantity stays the total across warehouses';
+COMMENT ON TABLE stock_transfers IS 'Inter-warehouse stock transfers with dispatch, transit and receipt tracking';
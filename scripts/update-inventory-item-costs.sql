@@ -0,0 +1,36 @@
+-- Keep inventory_items.average_cost and last_cost current on goods receipt (inventory service database)
+-- Runs before the stock level trigger, so stock_levels still hold the quantity on hand before the receipt
+
+CREATE OR REPLACE FUNCTION update_inventory_item_costs()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_on_hand INTEGER;
+    v_average DECIMAL(10, 2);
+BEGIN
+    IF NEW.movement_type <> 'inbound' OR NEW.unit_cost IS NULL OR NEW.quantity <= 0 THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(SUM(on_hand), 0) INTO v_on_hand
+    FROM stock_levels
+    WHERE inventory_item_id = NEW.inventory_item_id;
+
+    SELECT average_cost INTO v_average FROM inventory_items WHERE id = NEW.inventory_item_id;
+
+    UPDATE inventory_items
+    SET average_cost = CASE
+            WHEN v_average IS NULL OR v_on_hand <= 0 THEN NEW.unit_cost
+            ELSE ROUND((v_on_hand * v_average + NEW.quantity * NEW.unit_cost) / (v_on_hand + NEW.quantity), 2)
+        END,
+        last_cost = NEW.unit_cost
+    WHERE id = NEW.inventory_item_id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_item_costs_on_receipt ON stock_movements;
+CREATE TRIGGER update_item_costs_on_receipt
+    BEFORE INSERT ON stock_movements
+    FOR EACH ROW
+    EXECUTE FUNCTION update_inventory_item_costs();
@@ -0,0 +1,81 @@
+import { expect } from "chai"
+import { backtestMape, buildDailySeries, forecastDemand, normalCdf } from "../../lib/inventory/forecast"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function series(days, quantityFor) {
+  const start = new Date("2024-01-01T00:00:00Z").getTime()
+  return Array.from({ length: days }, (_, i) => {
+    const date = new Date(start + i * DAY_MS)
+    return { date: date.toISOString().split("T")[0], quantity: quantityFor(date) }
+  })
+}
+
+describe("Demand forecasting", () => {
+  describe("Normal distribution", () => {
+    it("should approximate the standard normal CDF", () => {
+      expect(normalCdf(0)).to.be.closeTo(0.5, 1e-6)
+      expect(normalCdf(1.96)).to.be.closeTo(0.975, 1e-4)
+      expect(normalCdf(-1.96)).to.be.closeTo(0.025, 1e-4)
+    })
+  })
+
+  describe("Daily series", () => {
+    it("should total movements per day and fill missing days with zero", () => {
+      const result = buildDailySeries(
+        [
+          { quantity: -3, created_at: "2024-01-01T10:00:00Z" },
+          { quantity: 2, created_at: "2024-01-01T15:00:00Z" },
+          { quantity: 4, created_at: "2024-01-03T09:00:00Z" },
+        ],
+        new Date("2024-01-01T00:00:00Z"),
+        new Date("2024-01-04T00:00:00Z"),
+      )
+
+      expect(result).to.deep.equal([
+        { date: "2024-01-01", quantity: 5 },
+        { date: "2024-01-02", quantity: 0 },
+        { date: "2024-01-03", quantity: 4 },
+        { date: "2024-01-04", quantity: 0 },
+      ])
+    })
+  })
+
+  describe("Forecast", () => {
+    it("should project flat demand and find the stockout day", () => {
+      const result = forecastDemand(
+        series(56, () => 10),
+        { horizon: 7, currentStock: 35 },
+      )
+
+      expect(result.history_days).to.equal(56)
+      expect(result.daily_average).to.equal(10)
+      expect(result.trend_per_day).to.equal(0)
+      expect(result.days).to.have.length(7)
+      expect(result.days[0].date).to.equal("2024-02-26")
+      expect(result.days[0].forecast).to.equal(10)
+      expect(result.days[2].projected_stock).to.equal(5)
+      expect(result.stockout_date).to.equal("2024-02-29")
+      expect(result.stockout_probability).to.equal(1)
+      expect(result.mape).to.equal(0)
+    })
+
+    it("should carry a busier weekday into the forecast", () => {
+      // 2024-01-01 is a Monday
+      const result = forecastDemand(
+        series(28, (date) => (date.getUTCDay() === 1 ? 20 : 10)),
+        { horizon: 7, currentStock: 1000 },
+      )
+
+      expect(result.weekly_index[1]).to.equal(1.75)
+      expect(result.days[0].date).to.equal("2024-01-29")
+      expect(result.days[0].forecast).to.be.closeTo(20, 0.01)
+      expect(result.days[1].forecast).to.be.closeTo(10, 0.01)
+      expect(result.stockout_date).to.equal(null)
+    })
+
+    it("should skip the backtest without enough history", () => {
+      expect(backtestMape(series(10, () => 5), 7)).to.equal(null)
+    })
+  })
+})
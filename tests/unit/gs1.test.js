@@ -0,0 +1,92 @@
+import { expect } from "chai"
+import { GS, isValidGtin, parseBarcode, parseGs1Date, toGtin13 } from "../../lib/inventory/gs1"
+
+describe("GS1 barcode parsing", () => {
+  describe("GTIN check digits", () => {
+    it("should accept valid EAN-13, EAN-8 and GTIN-14 codes", () => {
+      expect(isValidGtin("4006381333931")).to.equal(true)
+      expect(isValidGtin("96385074")).to.equal(true)
+      expect(isValidGtin("04006381333931")).to.equal(true)
+    })
+
+    it("should reject a wrong check digit or length", () => {
+      expect(isValidGtin("4006381333932")).to.equal(false)
+      expect(isValidGtin("400638133393")).to.equal(false)
+    })
+  })
+
+  describe("Plain numbers", () => {
+    it("should read an EAN-13 as a 14-digit GTIN", () => {
+      const result = parseBarcode("4006381333931")
+      expect(result.format).to.equal("gtin")
+      expect(result.gtin).to.equal("04006381333931")
+      expect(toGtin13(result.gtin)).to.equal("4006381333931")
+    })
+
+    it("should leave numbers that are not GTINs as text", () => {
+      const result = parseBarcode("4006381333932")
+      expect(result.format).to.equal("text")
+      expect(result.gtin).to.equal(undefined)
+    })
+
+    it("should leave batch numbers and SKUs as text", () => {
+      expect(parseBarcode("BT2024001").format).to.equal("text")
+    })
+  })
+
+  describe("GS1 element strings", () => {
+    it("should read GTIN, expiry and batch with a GS separator", () => {
+      const result = parseBarcode(`]d201040063813339311726123110AB12${GS}21SN99`)
+      expect(result.format).to.equal("gs1")
+      expect(result.gtin).to.equal("04006381333931")
+      expect(result.expiry_date).to.equal("2026-12-31")
+      expect(result.batch_number).to.equal("AB12")
+      expect(result.serial_number).to.equal("SN99")
+      expect(result.errors).to.deep.equal([])
+    })
+
+    it("should read a batch at the end of the symbol without a separator", () => {
+      const result = parseBarcode("01040063813339311725063010LOT-7")
+      expect(result.gtin).to.equal("04006381333931")
+      expect(result.expiry_date).to.equal("2025-06-30")
+      expect(result.batch_number).to.equal("LOT-7")
+    })
+
+    it("should accept a scanner-configured stand-in for FNC1", () => {
+      const result = parseBarcode("0104006381333931|10AB12|17261231", { separator: "|" })
+      expect(result.batch_number).to.equal("AB12")
+      expect(result.expiry_date).to.equal("2026-12-31")
+    })
+
+    it("should read the human-readable bracketed form", () => {
+      const result = parseBarcode("(01)04006381333931(17)270200(10)B 55")
+      expect(result.gtin).to.equal("04006381333931")
+      expect(result.expiry_date).to.equal("2027-02-28")
+      expect(result.batch_number).to.equal("B 55")
+    })
+
+    it("should report an invalid GTIN and an unknown AI", () => {
+      const result = parseBarcode(`]C10104006381333932${GS}99XYZ`)
+      expect(result.errors).to.have.length(2)
+      expect(result.gtin).to.equal("04006381333932")
+    })
+  })
+
+  describe("GS1 dates", () => {
+    const today = new Date("2026-10-18T00:00:00Z")
+
+    it("should treat day 00 as the last day of the month", () => {
+      expect(parseGs1Date("280200", today)).to.equal("2028-02-29")
+    })
+
+    it("should place years more than 50 ahead in the previous century", () => {
+      expect(parseGs1Date("991231", today)).to.equal("1999-12-31")
+      expect(parseGs1Date("751231", today)).to.equal("2075-12-31")
+    })
+
+    it("should reject impossible dates", () => {
+      expect(parseGs1Date("261301", today)).to.equal(null)
+      expect(parseGs1Date("260231", today)).to.equal(null)
+    })
+  })
+})
@@ -0,0 +1,101 @@
+import { expect } from "chai"
+import {
+  findMarkdownRule,
+  getEffectiveBatchPrice,
+  getMarkdownFloorPrice,
+  getMarkdownPrice,
+  getMarkdownStep,
+  planBatchMarkdown,
+} from "../../lib/inventory/markdown"
+
+describe("Expiry markdowns", () => {
+  const steps = [
+    { days_before_expiry: 90, discount_percentage: 10 },
+    { days_before_expiry: 60, discount_percentage: 25 },
+    { days_before_expiry: 30, discount_percentage: 50 },
+  ]
+  const rule = (overrides) => ({
+    id: "all",
+    name: "Default",
+    scope_type: "all",
+    steps,
+    min_margin_percentage: 20,
+    is_active: true,
+    ...overrides,
+  })
+  const batch = {
+    id: "B1",
+    product_id: "P1",
+    brand_id: "BR1",
+    category_id: "C1",
+    expiry_date: "2024-07-16",
+    quantity_available: 10,
+    selling_price: 100,
+    landed_cost: 50,
+  }
+  const asOf = new Date("2024-06-01T12:00:00Z")
+
+  describe("Steps", () => {
+    it("should pick the deepest step the batch has reached", () => {
+      expect(getMarkdownStep(steps, 45).days_before_expiry).to.equal(60)
+      expect(getMarkdownStep(steps, 10).days_before_expiry).to.equal(30)
+      expect(getMarkdownStep(steps, 100)).to.equal(null)
+    })
+  })
+
+  describe("Rules", () => {
+    it("should prefer product rules over brand, category and catch-all rules", () => {
+      const rules = [
+        rule({ id: "all" }),
+        rule({ id: "category", scope_type: "category", scope_id: "C1" }),
+        rule({ id: "brand", scope_type: "brand", scope_id: "BR1" }),
+        rule({ id: "product", scope_type: "product", scope_id: "P1" }),
+      ]
+      expect(findMarkdownRule(rules, batch).id).to.equal("product")
+      expect(findMarkdownRule(rules.slice(0, 3), batch).id).to.equal("brand")
+    })
+
+    it("should ignore inactive rules and rules for other products", () => {
+      const rules = [
+        rule({ id: "inactive", scope_type: "product", scope_id: "P1", is_active: false }),
+        rule({ id: "other", scope_type: "product", scope_id: "P2" }),
+      ]
+      expect(findMarkdownRule(rules, batch)).to.equal(null)
+    })
+  })
+
+  describe("Prices", () => {
+    it("should keep the price at cost plus the minimum margin", () => {
+      expect(getMarkdownFloorPrice(50, 20)).to.equal(60)
+      expect(getMarkdownPrice(100, 50, 60)).to.deep.equal({ price: 60, capped: true })
+      expect(getMarkdownPrice(100, 25, 60)).to.deep.equal({ price: 75, capped: false })
+    })
+
+    it("should never raise a line that was already sold cheaper", () => {
+      expect(getEffectiveBatchPrice(100, 80)).to.equal(80)
+      expect(getEffectiveBatchPrice(70, 80)).to.equal(70)
+      expect(getEffectiveBatchPrice(100, null)).to.equal(100)
+    })
+  })
+
+  describe("Planning", () => {
+    it("should plan the markdown for a batch in a step", () => {
+      const planned = planBatchMarkdown(batch, [rule()], asOf)
+      expect(planned).to.deep.equal({
+        rule_id: "all",
+        days_before_expiry: 60,
+        discount_percentage: 25,
+        original_price: 100,
+        markdown_price: 75,
+        floor_price: 60,
+        capped: false,
+      })
+    })
+
+    it("should plan nothing for expired, empty or unprofitable batches", () => {
+      expect(planBatchMarkdown({ ...batch, expiry_date: "2024-05-01" }, [rule()], asOf)).to.equal(null)
+      expect(planBatchMarkdown({ ...batch, quantity_available: 0 }, [rule()], asOf)).to.equal(null)
+      expect(planBatchMarkdown({ ...batch, landed_cost: 90 }, [rule()], asOf)).to.equal(null)
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import { expect } from "chai"
+import {
+  OrderTransitionError,
+  assertTransition,
+  getAvailableOrderActions,
+  getTransitionError,
+} from "../../lib/orders/order-state"
+
+describe("Order state machine", () => {
+  const state = (overrides) => ({
+    status: "pending",
+    payment_status: "pending",
+    fulfillment_status: "unfulfilled",
+    ...overrides,
+  })
+
+  describe("Transitions", () => {
+    it("should allow transitions listed for the current status", () => {
+      expect(getTransitionError(state(), "order", "confirmed")).to.equal(null)
+      expect(getTransitionError(state(), "payment", "paid")).to.equal(null)
+    })
+
+    it("should reject transitions that are not listed or change nothing", () => {
+      expect(getTransitionError(state(), "order", "shipped")).to.equal("Order cannot go from pending to shipped")
+      expect(getTransitionError(state(), "order", "pending")).to.equal("Order is already pending")
+    })
+
+    it("should throw from assertTransition when a transition is not allowed", () => {
+      expect(() => assertTransition(state(), "order", "delivered")).to.throw(OrderTransitionError)
+    })
+  })
+
+  describe("Guards", () => {
+    it("should only ship an order once every line has gone out", () => {
+      const processing = state({ status: "processing", payment_status: "paid", fulfillment_status: "partial" })
+      expect(getTransitionError(processing, "order", "shipped")).to.equal("Ship the remaining items first")
+      expect(getTransitionError({ ...processing, fulfillment_status: "fulfilled" }, "order", "shipped")).to.equal(null)
+    })
+
+    it("should not cancel an order that has started shipping", () => {
+      const processing = state({ status: "processing", fulfillment_status: "partial" })
+      expect(getTransitionError(processing, "order", "cancelled")).to.equal("Part of the order has already shipped")
+    })
+
+    it("should only refund a captured payment", () => {
+      expect(getTransitionError(state({ status: "delivered" }), "order", "refunded")).to.equal(
+        "No captured payment to refund",
+      )
+      expect(getTransitionError(state({ status: "delivered", payment_status: "paid" }), "order", "refunded")).to.equal(
+        null,
+      )
+    })
+
+    it("should not take payment for a cancelled order", () => {
+      expect(getTransitionError(state({ status: "cancelled" }), "payment", "paid")).to.equal("Order is cancelled")
+    })
+  })
+
+  describe("Actions", () => {
+    it("should list guarded actions as blocked with the reason", () => {
+      const actions = getAvailableOrderActions(state({ payment_status: "failed" }))
+      const confirm = actions.find((action) => action.to === "confirmed")
+      expect(confirm.allowed).to.equal(false)
+      expect(confirm.blocked_reason).to.equal("Payment failed; retry the payment first")
+    })
+
+    it("should not offer a shipped action; shipments move the order to shipped", () => {
+      const actions = getAvailableOrderActions(
+        state({ status: "processing", payment_status: "paid", fulfillment_status: "fulfilled" }),
+      )
+      expect(actions.map((action) => action.to)).to.not.include("shipped")
+      expect(actions.map((action) => action.to)).to.include("cancelled")
+    })
+  })
+})
@@ -0,0 +1,66 @@
+import { expect } from "chai"
+import {
+  compareStockPositions,
+  getEndOfDay,
+  getPositionTotals,
+  isWholeDay,
+  toAsOfTimestamp,
+} from "../../lib/inventory/snapshots"
+
+describe("Stock snapshots", () => {
+  describe("As-of dates", () => {
+    it("should read a bare date as the close of that day", () => {
+      expect(isWholeDay("2024-03-31")).to.equal(true)
+      expect(isWholeDay("2024-03-31T10:00:00Z")).to.equal(false)
+      expect(toAsOfTimestamp("2024-03-31").getTime()).to.equal(getEndOfDay("2024-03-31").getTime())
+    })
+
+    it("should close the day in UTC whatever the server's time zone", () => {
+      expect(getEndOfDay("2024-03-31").toISOString()).to.equal("2024-03-31T23:59:59.999Z")
+    })
+
+    it("should keep an exact moment as given", () => {
+      expect(toAsOfTimestamp("2024-03-31T10:00:00Z").toISOString()).to.equal("2024-03-31T10:00:00.000Z")
+    })
+
+    it("should reject dates that cannot be read", () => {
+      expect(() => toAsOfTimestamp("not a date")).to.throw(/Invalid date/)
+    })
+  })
+
+  describe("Positions", () => {
+    const position = (product_id, quantity, value) => ({
+      product_id,
+      warehouse_id: "W1",
+      batch_id: null,
+      quantity,
+      value,
+    })
+
+    it("should total quantities and round values to paise", () => {
+      expect(getPositionTotals([position("P1", 1, 0.1), position("P2", 2, 0.2)])).to.deep.equal({
+        quantity: 3,
+        value: 0.3,
+      })
+    })
+
+    it("should list changed lines, largest value change first", () => {
+      const changes = compareStockPositions(
+        [position("P1", 10, 100), position("P2", 5, 50)],
+        [position("P1", 7, 70), position("P2", 5, 50), position("P3", 3, 90)],
+      )
+
+      expect(changes.map((change) => change.key)).to.deep.equal(["P3:W1", "P1:W1"])
+      expect(changes[0]).to.include({ from_quantity: 0, to_quantity: 3, quantity_change: 3, value_change: 90 })
+      expect(changes[1]).to.include({ from_quantity: 10, to_quantity: 7, quantity_change: -3, value_change: -30 })
+    })
+
+    it("should keep unchanged lines when asked", () => {
+      const changes = compareStockPositions([position("P1", 5, 50)], [position("P1", 5, 50)], {
+        include_unchanged: true,
+      })
+      expect(changes).to.have.length(1)
+      expect(changes[0].quantity_change).to.equal(0)
+    })
+  })
+})
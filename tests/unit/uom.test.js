@@ -0,0 +1,103 @@
+import { expect } from "chai"
+import {
+  UnitConversionError,
+  convertToStockUnits,
+  getDefaultUnit,
+  getUnitFactor,
+  toWholeUnits,
+  validateUnitConfig,
+} from "../../lib/inventory/uom"
+
+describe("Units of measure", () => {
+  const config = {
+    stock_unit: "bottle",
+    units: [
+      { unit: "Carton", factor: 12, is_purchase_default: true },
+      { unit: "pair", factor: 2, is_sales_default: true },
+    ],
+  }
+
+  describe("Factors", () => {
+    it("should convert the stock unit to itself whether or not it is listed", () => {
+      expect(getUnitFactor(config, "bottle")).to.equal(1)
+      expect(getUnitFactor(config, " Bottle ")).to.equal(1)
+      expect(getUnitFactor(config, null)).to.equal(1)
+    })
+
+    it("should match configured units regardless of case", () => {
+      expect(getUnitFactor(config, "carton")).to.equal(12)
+    })
+
+    it("should reject units that are not configured", () => {
+      expect(() => getUnitFactor(config, "box")).to.throw(UnitConversionError, /not configured/)
+    })
+
+    it("should fall back to the stock unit when no default is set", () => {
+      expect(getDefaultUnit(config, "purchase")).to.equal("Carton")
+      expect(getDefaultUnit(config, "sales")).to.equal("pair")
+      expect(getDefaultUnit({ stock_unit: "ml", units: [] }, "purchase")).to.equal("ml")
+    })
+  })
+
+  describe("Conversion", () => {
+    it("should convert quantities to whole stock units", () => {
+      const result = convertToStockUnits(config, 2, "carton")
+      expect(result.quantity).to.equal(24)
+      expect(result.unit_quantity).to.equal(2)
+      expect(result.factor).to.equal(12)
+      expect(result.stock_unit_price).to.equal(undefined)
+      expect(result.line_total).to.equal(undefined)
+    })
+
+    it("should accept fractions that come to whole stock units", () => {
+      expect(convertToStockUnits(config, 0.25, "carton").quantity).to.equal(3)
+    })
+
+    it("should reject fractions of a stock unit", () => {
+      expect(() => convertToStockUnits(config, 0.1, "carton")).to.throw(UnitConversionError, /whole bottle/)
+    })
+
+    it("should keep the stock-unit price unrounded and carry the line total as entered", () => {
+      const result = convertToStockUnits(config, 2, "carton", 100)
+      expect(result.stock_unit_price).to.equal(100 / 12)
+      expect(result.line_total).to.equal(200)
+      expect(result.quantity * result.stock_unit_price).to.be.closeTo(200, 1e-9)
+    })
+
+    it("should round pack demand up so the need is covered", () => {
+      expect(toWholeUnits(config, 24, "carton")).to.equal(2)
+      expect(toWholeUnits(config, 25, "carton")).to.equal(3)
+    })
+  })
+
+  describe("Configuration", () => {
+    it("should accept a valid configuration", () => {
+      expect(() => validateUnitConfig(config)).not.to.throw()
+    })
+
+    it("should reject units listed twice or clashing with the stock unit", () => {
+      expect(() => validateUnitConfig({ stock_unit: "bottle", units: [{ unit: "Bottle", factor: 1 }] })).to.throw(
+        UnitConversionError,
+        /more than once/,
+      )
+    })
+
+    it("should reject factors that are not positive", () => {
+      expect(() => validateUnitConfig({ stock_unit: "bottle", units: [{ unit: "carton", factor: 0 }] })).to.throw(
+        UnitConversionError,
+        /greater than zero/,
+      )
+    })
+
+    it("should allow only one default per usage", () => {
+      const twoDefaults = {
+        stock_unit: "bottle",
+        units: [
+          { unit: "carton", factor: 12, is_purchase_default: true },
+          { unit: "box", factor: 6, is_purchase_default: true },
+        ],
+      }
+      expect(() => validateUnitConfig(twoDefaults)).to.throw(UnitConversionError, /purchase default/)
+    })
+  })
+})
@@ -0,0 +1,71 @@
+import { expect } from "chai"
+import { getQuantityAsOf, valueFifo, valueLayers, valueWeightedAverage } from "../../lib/inventory/valuation"
+
+describe("Inventory valuation", () => {
+  const layers = [
+    { batch_id: "A", product_id: "P1", received_at: "2024-01-01T00:00:00Z", quantity_received: 10, unit_cost: 10 },
+    { batch_id: "B", product_id: "P1", received_at: "2024-02-01T00:00:00Z", quantity_received: 10, unit_cost: 20 },
+  ]
+  const movements = [
+    { batch_id: "A", movement_type: "OUT", quantity: 5, created_at: "2024-01-15T00:00:00Z" },
+    { batch_id: "A", movement_type: "OUT", quantity: 5, created_at: "2024-02-15T00:00:00Z" },
+  ]
+  const asOf = new Date("2024-03-01T00:00:00Z")
+
+  describe("Quantity on hand", () => {
+    it("should count receipts less issues up to the date", () => {
+      expect(getQuantityAsOf(layers, movements, asOf)).to.equal(10)
+      expect(getQuantityAsOf(layers, movements, new Date("2024-01-20T00:00:00Z"))).to.equal(5)
+    })
+
+    it("should add returns back and ignore other movement types and batches", () => {
+      const extra = [
+        ...movements,
+        { batch_id: "A", movement_type: "RETURN", quantity: 2, created_at: "2024-02-20T00:00:00Z" },
+        { batch_id: "A", movement_type: "IN", quantity: 50, created_at: "2024-02-20T00:00:00Z" },
+        { batch_id: "Z", movement_type: "OUT", quantity: 7, created_at: "2024-02-20T00:00:00Z" },
+      ]
+      expect(getQuantityAsOf(layers, extra, asOf)).to.equal(12)
+    })
+
+    it("should never go below zero", () => {
+      const oversold = [{ batch_id: "A", movement_type: "DAMAGE", quantity: 30, created_at: "2024-02-20T00:00:00Z" }]
+      expect(getQuantityAsOf(layers, oversold, asOf)).to.equal(0)
+    })
+  })
+
+  describe("FIFO", () => {
+    it("should value what is left at the newest layers' cost", () => {
+      const result = valueFifo(layers, movements, asOf)
+      expect(result.quantity).to.equal(10)
+      expect(result.value).to.equal(200)
+      expect(result.unit_cost).to.equal(20)
+    })
+
+    it("should leave out layers received after the date", () => {
+      const result = valueFifo(layers, movements, new Date("2024-01-20T00:00:00Z"))
+      expect(result.quantity).to.equal(5)
+      expect(result.value).to.equal(50)
+    })
+
+    it("should value an empty product at zero", () => {
+      expect(valueFifo([], [], asOf)).to.deep.equal({ quantity: 0, value: 0, unit_cost: 0 })
+    })
+  })
+
+  describe("Weighted average", () => {
+    it("should re-average the cost on each receipt", () => {
+      const result = valueWeightedAverage(layers, movements, asOf)
+      expect(result.quantity).to.equal(10)
+      expect(result.unit_cost).to.be.closeTo(250 / 15, 1e-9)
+      expect(result.value).to.be.closeTo(2500 / 15, 1e-9)
+    })
+
+    it("should be picked by valueLayers for the weighted_average method", () => {
+      expect(valueLayers("weighted_average", layers, movements, asOf)).to.deep.equal(
+        valueWeightedAverage(layers, movements, asOf),
+      )
+      expect(valueLayers("fifo", layers, movements, asOf)).to.deep.equal(valueFifo(layers, movements, asOf))
+    })
+  })
+})